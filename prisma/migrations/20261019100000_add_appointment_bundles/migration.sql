@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "appointment_bundles" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "totalDuration" INTEGER NOT NULL,
+    "totalPrice" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'TRY',
+    "status" "appointment_status" NOT NULL,
+    "customerNotes" TEXT,
+    "canceledAt" TIMESTAMP(3),
+    "cancelReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "appointment_bundles_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN "bundleId" TEXT,
+ADD COLUMN "bundleSequence" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "appointment_bundles_businessId_date_idx" ON "appointment_bundles"("businessId", "date");
+
+-- CreateIndex
+CREATE INDEX "appointment_bundles_customerId_idx" ON "appointment_bundles"("customerId");
+
+-- CreateIndex
+CREATE INDEX "appointments_bundleId_idx" ON "appointments"("bundleId");
+
+-- AddForeignKey
+ALTER TABLE "appointment_bundles" ADD CONSTRAINT "appointment_bundles_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_bundles" ADD CONSTRAINT "appointment_bundles_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_bundleId_fkey" FOREIGN KEY ("bundleId") REFERENCES "appointment_bundles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "appointment_series_status" AS ENUM ('ACTIVE', 'ENDED', 'CANCELED');
+
+-- CreateTable
+CREATE TABLE "appointment_series" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "staffId" TEXT,
+    "customerId" TEXT NOT NULL,
+    "rrule" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "status" "appointment_series_status" NOT NULL DEFAULT 'ACTIVE',
+    "customerNotes" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "materializedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "appointment_series_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN "seriesId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "appointment_series_businessId_idx" ON "appointment_series"("businessId");
+
+-- CreateIndex
+CREATE INDEX "appointment_series_customerId_idx" ON "appointment_series"("customerId");
+
+-- CreateIndex
+CREATE INDEX "appointment_series_status_idx" ON "appointment_series"("status");
+
+-- CreateIndex
+CREATE INDEX "appointments_seriesId_idx" ON "appointments"("seriesId");
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "business_staff"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "appointment_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,77 @@
+-- CreateEnum
+CREATE TYPE "waitlist_status" AS ENUM ('WAITING', 'OFFERED', 'BOOKED', 'EXPIRED', 'CANCELED');
+
+-- CreateEnum
+CREATE TYPE "waitlist_offer_status" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "waitlist_entries" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "staffId" TEXT,
+    "customerId" TEXT NOT NULL,
+    "dateFrom" TIMESTAMP(3) NOT NULL,
+    "dateTo" TIMESTAMP(3) NOT NULL,
+    "earliestTime" TEXT,
+    "latestTime" TEXT,
+    "status" "waitlist_status" NOT NULL DEFAULT 'WAITING',
+    "notes" TEXT,
+    "appointmentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "waitlist_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "waitlist_offers" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "staffId" TEXT,
+    "sourceAppointmentId" TEXT,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "status" "waitlist_offer_status" NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "appointmentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "waitlist_offers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_businessId_status_idx" ON "waitlist_entries"("businessId", "status");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_customerId_idx" ON "waitlist_entries"("customerId");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_dateFrom_dateTo_idx" ON "waitlist_entries"("dateFrom", "dateTo");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_businessId_status_idx" ON "waitlist_offers"("businessId", "status");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_entryId_idx" ON "waitlist_offers"("entryId");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_status_expiresAt_idx" ON "waitlist_offers"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "business_staff"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_offers" ADD CONSTRAINT "waitlist_offers_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "waitlist_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
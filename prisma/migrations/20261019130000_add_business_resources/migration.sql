@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "business_resource_type" AS ENUM ('ROOM', 'CHAIR', 'EQUIPMENT', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "business_resources" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "business_resource_type" NOT NULL DEFAULT 'ROOM',
+    "capacity" INTEGER NOT NULL DEFAULT 1,
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "business_resources_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "business_resources_capacity_check" CHECK ("capacity" > 0)
+);
+
+-- CreateTable
+CREATE TABLE "service_resources" (
+    "id" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "resourceId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "service_resources_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "service_resources_quantity_check" CHECK ("quantity" > 0)
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "business_resources_businessId_name_key" ON "business_resources"("businessId", "name");
+
+-- CreateIndex
+CREATE INDEX "business_resources_businessId_isActive_idx" ON "business_resources"("businessId", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "service_resources_serviceId_resourceId_key" ON "service_resources"("serviceId", "resourceId");
+
+-- CreateIndex
+CREATE INDEX "service_resources_serviceId_idx" ON "service_resources"("serviceId");
+
+-- CreateIndex
+CREATE INDEX "service_resources_resourceId_idx" ON "service_resources"("resourceId");
+
+-- AddForeignKey
+ALTER TABLE "business_resources" ADD CONSTRAINT "business_resources_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "service_resources" ADD CONSTRAINT "service_resources_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "service_resources" ADD CONSTRAINT "service_resources_resourceId_fkey" FOREIGN KEY ("resourceId") REFERENCES "business_resources"("id") ON DELETE CASCADE ON UPDATE CASCADE;
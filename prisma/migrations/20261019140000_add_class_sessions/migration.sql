@@ -0,0 +1,79 @@
+-- CreateEnum
+CREATE TYPE "class_session_status" AS ENUM ('SCHEDULED', 'CANCELED');
+
+-- AlterTable
+ALTER TABLE "services" ADD COLUMN "isGroupSession" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "maxSeats" INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE "services" ADD CONSTRAINT "services_maxSeats_check" CHECK ("maxSeats" > 0);
+
+-- CreateTable
+CREATE TABLE "class_sessions" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "staffId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "maxSeats" INTEGER NOT NULL,
+    "status" "class_session_status" NOT NULL DEFAULT 'SCHEDULED',
+    "notes" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "canceledAt" TIMESTAMP(3),
+    "cancelReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "class_sessions_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "class_sessions_maxSeats_check" CHECK ("maxSeats" > 0),
+    CONSTRAINT "class_sessions_time_check" CHECK ("endTime" > "startTime")
+);
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN "classSessionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "class_sessions_businessId_date_idx" ON "class_sessions"("businessId", "date");
+
+-- CreateIndex
+CREATE INDEX "class_sessions_serviceId_idx" ON "class_sessions"("serviceId");
+
+-- CreateIndex
+CREATE INDEX "class_sessions_staffId_idx" ON "class_sessions"("staffId");
+
+-- CreateIndex
+CREATE INDEX "appointments_classSessionId_idx" ON "appointments"("classSessionId");
+
+-- AddForeignKey
+ALTER TABLE "class_sessions" ADD CONSTRAINT "class_sessions_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "class_sessions" ADD CONSTRAINT "class_sessions_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "class_sessions" ADD CONSTRAINT "class_sessions_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "business_staff"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_classSessionId_fkey" FOREIGN KEY ("classSessionId") REFERENCES "class_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seats of the same class share the instructor and the time range, so they must
+-- not trip the per-staff overlap constraint. Individual appointments keep it.
+ALTER TABLE public.appointments DROP CONSTRAINT IF EXISTS appointments_no_overlap_per_staff;
+
+ALTER TABLE public.appointments
+  ADD CONSTRAINT appointments_no_overlap_per_staff
+  EXCLUDE USING gist (
+    "staffId" WITH =,
+    time_range WITH &&
+  )
+  WHERE ("staffId" IS NOT NULL AND "classSessionId" IS NULL AND status IN ('PENDING','CONFIRMED','IN_PROGRESS'));
+
+-- An instructor cannot teach two scheduled classes at once.
+ALTER TABLE public.class_sessions
+  ADD CONSTRAINT class_sessions_no_overlap_per_staff
+  EXCLUDE USING gist (
+    "staffId" WITH =,
+    tsrange("startTime", "endTime", '[)') WITH &&
+  )
+  WHERE (status = 'SCHEDULED');
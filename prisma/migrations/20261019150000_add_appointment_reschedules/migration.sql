@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "appointment_reschedules" (
+    "id" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "previousStartTime" TIMESTAMP(3) NOT NULL,
+    "previousEndTime" TIMESTAMP(3) NOT NULL,
+    "previousStaffId" TEXT,
+    "newStartTime" TIMESTAMP(3) NOT NULL,
+    "newEndTime" TIMESTAMP(3) NOT NULL,
+    "newStaffId" TEXT,
+    "initiatedBy" "cancelled_by" NOT NULL,
+    "rescheduledBy" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "appointment_reschedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "appointment_reschedules_appointmentId_createdAt_idx" ON "appointment_reschedules"("appointmentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "appointment_reschedules_businessId_createdAt_idx" ON "appointment_reschedules"("businessId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "appointment_reschedules" ADD CONSTRAINT "appointment_reschedules_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
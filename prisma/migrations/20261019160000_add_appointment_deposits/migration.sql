@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "deposit_type" AS ENUM ('NONE', 'FIXED', 'PERCENTAGE');
+
+-- AlterTable
+ALTER TABLE "services" ADD COLUMN "depositType" "deposit_type" NOT NULL DEFAULT 'NONE',
+ADD COLUMN "depositValue" DECIMAL(8,2);
+
+ALTER TABLE "services" ADD CONSTRAINT "services_depositValue_check" CHECK ("depositValue" IS NULL OR "depositValue" >= 0);
+
+-- AlterTable
+ALTER TABLE "appointment_payments" ADD COLUMN "businessId" TEXT,
+ADD COLUMN "providerPaymentId" TEXT,
+ADD COLUMN "expiresAt" TIMESTAMP(3),
+ADD COLUMN "refundedAmount" DECIMAL(8,2) NOT NULL DEFAULT 0,
+ADD COLUMN "refundedAt" TIMESTAMP(3),
+ADD COLUMN "forfeitedAmount" DECIMAL(8,2) NOT NULL DEFAULT 0,
+ADD COLUMN "forfeitedAt" TIMESTAMP(3),
+ADD COLUMN "failureReason" TEXT,
+ADD COLUMN "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+UPDATE "appointment_payments" ap
+SET "businessId" = a."businessId"
+FROM "appointments" a
+WHERE a."id" = ap."appointmentId";
+
+ALTER TABLE "appointment_payments" ALTER COLUMN "businessId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "appointment_payments_businessId_status_idx" ON "appointment_payments"("businessId", "status");
+
+-- CreateIndex
+CREATE INDEX "appointment_payments_status_expiresAt_idx" ON "appointment_payments"("status", "expiresAt");
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "staff_time_off_type" AS ENUM ('VACATION', 'SICK', 'PERSONAL', 'TRAINING', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "staff_time_off_status" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "staff_time_off" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "staffId" TEXT NOT NULL,
+    "type" "staff_time_off_type" NOT NULL DEFAULT 'VACATION',
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "isFullDay" BOOLEAN NOT NULL DEFAULT true,
+    "reason" TEXT,
+    "status" "staff_time_off_status" NOT NULL DEFAULT 'PENDING',
+    "requestedBy" TEXT NOT NULL,
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "staff_time_off_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "staff_time_off_range_check" CHECK ("endTime" > "startTime")
+);
+
+-- CreateIndex
+CREATE INDEX "staff_time_off_staffId_status_startTime_endTime_idx" ON "staff_time_off"("staffId", "status", "startTime", "endTime");
+
+-- CreateIndex
+CREATE INDEX "staff_time_off_businessId_status_idx" ON "staff_time_off"("businessId", "status");
+
+-- AddForeignKey
+ALTER TABLE "staff_time_off" ADD CONSTRAINT "staff_time_off_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "staff_time_off" ADD CONSTRAINT "staff_time_off_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "business_staff"("id") ON DELETE CASCADE ON UPDATE CASCADE;
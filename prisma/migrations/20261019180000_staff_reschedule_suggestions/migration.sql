@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "reschedule_suggestion_reason" AS ENUM ('BUSINESS_CLOSURE', 'STAFF_REMOVED', 'STAFF_ABSENT');
+
+-- AlterTable
+ALTER TABLE "reschedule_suggestions" ALTER COLUMN "closureId" DROP NOT NULL,
+ADD COLUMN     "reason" "reschedule_suggestion_reason" NOT NULL DEFAULT 'BUSINESS_CLOSURE',
+ADD COLUMN     "unavailableStaffId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "reschedule_suggestions_unavailableStaffId_idx" ON "reschedule_suggestions"("unavailableStaffId");
+
+-- AddForeignKey
+ALTER TABLE "reschedule_suggestions" ADD CONSTRAINT "reschedule_suggestions_unavailableStaffId_fkey" FOREIGN KEY ("unavailableStaffId") REFERENCES "business_staff"("id") ON DELETE SET NULL ON UPDATE CASCADE;
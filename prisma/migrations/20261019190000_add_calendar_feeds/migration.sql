@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "calendar_feed_type" AS ENUM ('STAFF', 'BUSINESS', 'CUSTOMER');
+
+-- CreateTable
+CREATE TABLE "calendar_feeds" (
+    "id" TEXT NOT NULL,
+    "type" "calendar_feed_type" NOT NULL,
+    "userId" TEXT NOT NULL,
+    "businessId" TEXT,
+    "staffId" TEXT,
+    "label" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "lastAccessedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendar_feeds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "calendar_feeds_userId_revokedAt_idx" ON "calendar_feeds"("userId", "revokedAt");
+
+-- CreateIndex
+CREATE INDEX "calendar_feeds_businessId_idx" ON "calendar_feeds"("businessId");
+
+-- CreateIndex
+CREATE INDEX "calendar_feeds_staffId_idx" ON "calendar_feeds"("staffId");
+
+-- AddForeignKey
+ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "business_staff"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "staff_external_calendar_source" AS ENUM ('FILE', 'URL');
+
+-- CreateTable
+CREATE TABLE "staff_external_calendars" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "staffId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "sourceType" "staff_external_calendar_source" NOT NULL,
+    "sourceUrl" TEXT,
+    "icsContent" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "busyCount" INTEGER NOT NULL DEFAULT 0,
+    "lastImportedAt" TIMESTAMP(3),
+    "lastImportError" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "staff_external_calendars_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "staff_external_busy" (
+    "id" TEXT NOT NULL,
+    "calendarId" TEXT NOT NULL,
+    "staffId" TEXT NOT NULL,
+    "externalUid" TEXT NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "staff_external_busy_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "staff_external_busy_range_check" CHECK ("endTime" > "startTime")
+);
+
+-- CreateIndex
+CREATE INDEX "staff_external_calendars_staffId_idx" ON "staff_external_calendars"("staffId");
+
+-- CreateIndex
+CREATE INDEX "staff_external_calendars_businessId_idx" ON "staff_external_calendars"("businessId");
+
+-- CreateIndex
+CREATE INDEX "staff_external_calendars_isActive_lastImportedAt_idx" ON "staff_external_calendars"("isActive", "lastImportedAt");
+
+-- CreateIndex
+CREATE INDEX "staff_external_busy_staffId_startTime_endTime_idx" ON "staff_external_busy"("staffId", "startTime", "endTime");
+
+-- CreateIndex
+CREATE INDEX "staff_external_busy_calendarId_idx" ON "staff_external_busy"("calendarId");
+
+-- AddForeignKey
+ALTER TABLE "staff_external_calendars" ADD CONSTRAINT "staff_external_calendars_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "staff_external_calendars" ADD CONSTRAINT "staff_external_calendars_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "business_staff"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "staff_external_busy" ADD CONSTRAINT "staff_external_busy_calendarId_fkey" FOREIGN KEY ("calendarId") REFERENCES "staff_external_calendars"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "staff_external_busy" ADD CONSTRAINT "staff_external_busy_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "business_staff"("id") ON DELETE CASCADE ON UPDATE CASCADE;
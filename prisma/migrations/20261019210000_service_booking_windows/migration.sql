@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "services" ALTER COLUMN "maxAdvanceBooking" DROP NOT NULL,
+ALTER COLUMN "maxAdvanceBooking" DROP DEFAULT,
+ALTER COLUMN "minAdvanceBooking" DROP NOT NULL,
+ALTER COLUMN "minAdvanceBooking" DROP DEFAULT,
+ADD COLUMN "bookingRelease" JSONB;
+
+-- The old column defaults cannot be told apart from values an owner chose, so
+-- services still on them go back to following the business's reservation settings
+UPDATE "services" SET "maxAdvanceBooking" = NULL WHERE "maxAdvanceBooking" = 30;
+UPDATE "services" SET "minAdvanceBooking" = NULL WHERE "minAdvanceBooking" = 0;
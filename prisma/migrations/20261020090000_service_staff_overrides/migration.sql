@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "service_staff" ADD COLUMN "duration" INTEGER,
+ADD COLUMN "bufferTime" INTEGER,
+ADD COLUMN "price" DECIMAL(8,2);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN "listPrice" DECIMAL(8,2);
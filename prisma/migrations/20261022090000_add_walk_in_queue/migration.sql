@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "walk_in_ticket_status" AS ENUM ('WAITING', 'CALLED', 'SKIPPED', 'CONVERTED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "walk_in_ticket_source" AS ENUM ('STAFF', 'SELF_SERVICE');
+
+-- CreateTable
+CREATE TABLE "walk_in_tickets" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "staffId" TEXT,
+    "servedByStaffId" TEXT,
+    "customerId" TEXT,
+    "customerName" TEXT NOT NULL,
+    "customerPhone" TEXT,
+    "queueDate" DATE NOT NULL,
+    "number" INTEGER NOT NULL,
+    "status" "walk_in_ticket_status" NOT NULL DEFAULT 'WAITING',
+    "source" "walk_in_ticket_source" NOT NULL DEFAULT 'STAFF',
+    "notes" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "calledAt" TIMESTAMP(3),
+    "skippedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "appointmentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "walk_in_tickets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "walk_in_tickets_businessId_queueDate_number_key" ON "walk_in_tickets"("businessId", "queueDate", "number");
+
+-- CreateIndex
+CREATE INDEX "walk_in_tickets_businessId_queueDate_status_idx" ON "walk_in_tickets"("businessId", "queueDate", "status");
+
+-- CreateIndex
+CREATE INDEX "walk_in_tickets_customerId_status_idx" ON "walk_in_tickets"("customerId", "status");
+
+-- AddForeignKey
+ALTER TABLE "walk_in_tickets" ADD CONSTRAINT "walk_in_tickets_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "walk_in_tickets" ADD CONSTRAINT "walk_in_tickets_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "walk_in_tickets" ADD CONSTRAINT "walk_in_tickets_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "business_staff"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "walk_in_tickets" ADD CONSTRAINT "walk_in_tickets_servedByStaffId_fkey" FOREIGN KEY ("servedByStaffId") REFERENCES "business_staff"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "walk_in_tickets" ADD CONSTRAINT "walk_in_tickets_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
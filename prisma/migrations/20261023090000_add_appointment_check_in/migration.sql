@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "appointment_check_in_method" AS ENUM ('STAFF', 'QR_CODE');
+
+-- CreateEnum
+CREATE TYPE "no_show_source" AS ENUM ('STAFF', 'AUTOMATIC');
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN     "checkedInAt" TIMESTAMP(3),
+ADD COLUMN     "checkInMethod" "appointment_check_in_method",
+ADD COLUMN     "checkedInBy" TEXT,
+ADD COLUMN     "actualStartTime" TIMESTAMP(3),
+ADD COLUMN     "actualEndTime" TIMESTAMP(3),
+ADD COLUMN     "noShowMarkedAt" TIMESTAMP(3),
+ADD COLUMN     "noShowSource" "no_show_source",
+ADD COLUMN     "noShowReversedAt" TIMESTAMP(3),
+ADD COLUMN     "noShowReversedBy" TEXT;
+
+-- CreateIndex
+CREATE INDEX "appointments_status_checkedInAt_startTime_idx" ON "appointments"("status", "checkedInAt", "startTime");
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "appointment_change_channel" AS ENUM ('CUSTOMER_APP', 'STAFF_PANEL', 'JOB', 'ADMIN_BATCH', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "appointment_status_changes" (
+    "id" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "fromStatus" "appointment_status" NOT NULL,
+    "toStatus" "appointment_status" NOT NULL,
+    "channel" "appointment_change_channel" NOT NULL,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "appointment_status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "appointment_status_changes_appointmentId_createdAt_idx" ON "appointment_status_changes"("appointmentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "appointment_status_changes_businessId_createdAt_idx" ON "appointment_status_changes"("businessId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "appointment_status_changes" ADD CONSTRAINT "appointment_status_changes_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "approval_rule" AS ENUM ('ALWAYS', 'FIRST_TIME_CUSTOMER', 'HIGH_RISK_CUSTOMER', 'PRICE_THRESHOLD', 'OUTSIDE_NORMAL_HOURS');
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN     "approvalRule" "approval_rule",
+ADD COLUMN     "approvalRequestedAt" TIMESTAMP(3),
+ADD COLUMN     "approvalEscalatedAt" TIMESTAMP(3);
+
+-- Requests already waiting came from the business-wide requireApproval switch
+UPDATE "appointments"
+SET "approvalRule" = 'ALWAYS', "approvalRequestedAt" = "bookedAt"
+WHERE "status" = 'PENDING_APPROVAL';
+
+-- CreateIndex
+CREATE INDEX "appointments_status_approvalRequestedAt_idx" ON "appointments"("status", "approvalRequestedAt");
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "service_intake_forms" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "fields" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "service_intake_forms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "appointment_intake_responses" (
+    "id" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "formId" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "answers" JSONB NOT NULL,
+    "reusedFieldIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "appointment_intake_responses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "service_intake_forms_serviceId_version_key" ON "service_intake_forms"("serviceId", "version");
+
+-- CreateIndex
+CREATE INDEX "service_intake_forms_serviceId_isActive_idx" ON "service_intake_forms"("serviceId", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "appointment_intake_responses_appointmentId_key" ON "appointment_intake_responses"("appointmentId");
+
+-- CreateIndex
+CREATE INDEX "appointment_intake_responses_customerId_serviceId_submittedAt_idx" ON "appointment_intake_responses"("customerId", "serviceId", "submittedAt");
+
+-- CreateIndex
+CREATE INDEX "appointment_intake_responses_formId_idx" ON "appointment_intake_responses"("formId");
+
+-- AddForeignKey
+ALTER TABLE "service_intake_forms" ADD CONSTRAINT "service_intake_forms_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_intake_responses" ADD CONSTRAINT "appointment_intake_responses_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_intake_responses" ADD CONSTRAINT "appointment_intake_responses_formId_fkey" FOREIGN KEY ("formId") REFERENCES "service_intake_forms"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN     "importKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "appointments_businessId_importKey_key" ON "appointments"("businessId", "importKey");
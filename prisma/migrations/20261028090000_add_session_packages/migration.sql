@@ -0,0 +1,79 @@
+-- CreateEnum
+CREATE TYPE "package_credit_status" AS ENUM ('RESERVED', 'USED', 'RESTORED', 'FORFEITED');
+
+-- CreateTable
+CREATE TABLE "session_packages" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "serviceIds" TEXT[],
+    "credits" INTEGER NOT NULL,
+    "validityDays" INTEGER,
+    "price" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'TRY',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "session_packages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "customer_packages" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "packageId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "serviceIds" TEXT[],
+    "creditsTotal" INTEGER NOT NULL,
+    "creditsRemaining" INTEGER NOT NULL,
+    "pricePaid" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'TRY',
+    "purchasedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "soldBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "customer_packages_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "customer_packages_creditsRemaining_check" CHECK ("creditsRemaining" >= 0)
+);
+
+-- CreateTable
+CREATE TABLE "package_credit_usages" (
+    "id" TEXT NOT NULL,
+    "customerPackageId" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "status" "package_credit_status" NOT NULL DEFAULT 'RESERVED',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "settledAt" TIMESTAMP(3),
+
+    CONSTRAINT "package_credit_usages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "session_packages_businessId_isActive_idx" ON "session_packages"("businessId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "customer_packages_businessId_customerId_idx" ON "customer_packages"("businessId", "customerId");
+
+-- CreateIndex
+CREATE INDEX "customer_packages_customerId_idx" ON "customer_packages"("customerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "package_credit_usages_appointmentId_key" ON "package_credit_usages"("appointmentId");
+
+-- CreateIndex
+CREATE INDEX "package_credit_usages_customerPackageId_idx" ON "package_credit_usages"("customerPackageId");
+
+-- AddForeignKey
+ALTER TABLE "customer_packages" ADD CONSTRAINT "customer_packages_packageId_fkey" FOREIGN KEY ("packageId") REFERENCES "session_packages"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "package_credit_usages" ADD CONSTRAINT "package_credit_usages_customerPackageId_fkey" FOREIGN KEY ("customerPackageId") REFERENCES "customer_packages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "package_credit_usages" ADD CONSTRAINT "package_credit_usages_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
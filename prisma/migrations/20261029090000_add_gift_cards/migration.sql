@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "gift_card_type" AS ENUM ('GIFT_CARD', 'VOUCHER');
+
+-- CreateEnum
+CREATE TYPE "gift_card_transaction_type" AS ENUM ('ISSUE', 'REDEEM', 'REFUND');
+
+-- CreateTable
+CREATE TABLE "gift_cards" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" "gift_card_type" NOT NULL,
+    "initialAmount" DECIMAL(10,2) NOT NULL,
+    "balance" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'TRY',
+    "pricePaid" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "customerId" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "note" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "gift_cards_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "gift_cards_balance_check" CHECK ("balance" >= 0)
+);
+
+-- CreateTable
+CREATE TABLE "gift_card_transactions" (
+    "id" TEXT NOT NULL,
+    "giftCardId" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "type" "gift_card_transaction_type" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "balanceAfter" DECIMAL(10,2) NOT NULL,
+    "appointmentId" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "gift_card_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "gift_cards_code_key" ON "gift_cards"("code");
+
+-- CreateIndex
+CREATE INDEX "gift_cards_businessId_type_idx" ON "gift_cards"("businessId", "type");
+
+-- CreateIndex
+CREATE INDEX "gift_cards_customerId_idx" ON "gift_cards"("customerId");
+
+-- CreateIndex
+CREATE INDEX "gift_card_transactions_giftCardId_idx" ON "gift_card_transactions"("giftCardId");
+
+-- CreateIndex
+CREATE INDEX "gift_card_transactions_appointmentId_idx" ON "gift_card_transactions"("appointmentId");
+
+-- CreateIndex
+CREATE INDEX "gift_card_transactions_businessId_createdAt_idx" ON "gift_card_transactions"("businessId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "gift_card_transactions" ADD CONSTRAINT "gift_card_transactions_giftCardId_fkey" FOREIGN KEY ("giftCardId") REFERENCES "gift_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gift_card_transactions" ADD CONSTRAINT "gift_card_transactions_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- Appointment.date and AppointmentBundle.date hold the business's calendar day at
+-- UTC midnight. Rows written through the older paths stored Istanbul midnight
+-- instead, which exact-date lookups such as the conflict check no longer match.
+-- Recompute the day from startTime in the business timezone (Europe/Istanbul
+-- when it is not a known zone, like resolveTimezone does).
+CREATE TEMPORARY TABLE "business_zones" AS
+SELECT b."id",
+       CASE WHEN EXISTS (SELECT 1 FROM pg_timezone_names z WHERE z."name" = b."timezone")
+            THEN b."timezone" ELSE 'Europe/Istanbul' END AS "zone"
+FROM "businesses" AS b;
+
+UPDATE "appointments" AS a
+SET "date" = ((a."startTime" AT TIME ZONE 'UTC') AT TIME ZONE bz."zone")::date::timestamp
+FROM "business_zones" AS bz
+WHERE bz."id" = a."businessId"
+  AND a."date" <> ((a."startTime" AT TIME ZONE 'UTC') AT TIME ZONE bz."zone")::date::timestamp;
+
+UPDATE "appointment_bundles" AS ab
+SET "date" = ((ab."startTime" AT TIME ZONE 'UTC') AT TIME ZONE bz."zone")::date::timestamp
+FROM "business_zones" AS bz
+WHERE bz."id" = ab."businessId"
+  AND ab."date" <> ((ab."startTime" AT TIME ZONE 'UTC') AT TIME ZONE bz."zone")::date::timestamp;
+
+DROP TABLE "business_zones";
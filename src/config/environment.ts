@@ -12,6 +12,8 @@ interface Config {
   DATABASE_URL?: string;
   JWT_ACCESS_SECRET?: string;
   JWT_REFRESH_SECRET?: string;
+  CALENDAR_FEED_SECRET?: string;
+  CHECK_IN_QR_SECRET?: string;
   REDIS_URL?: string;
   REDIS_HOST?: string;
   REDIS_PORT?: number;
@@ -59,6 +61,8 @@ const getConfig = (): Config => {
     DATABASE_URL: process.env.DATABASE_URL,
     JWT_ACCESS_SECRET: process.env.JWT_ACCESS_SECRET,
     JWT_REFRESH_SECRET: process.env.JWT_REFRESH_SECRET,
+    CALENDAR_FEED_SECRET: process.env.CALENDAR_FEED_SECRET,
+    CHECK_IN_QR_SECRET: process.env.CHECK_IN_QR_SECRET,
     REDIS_URL: process.env.REDIS_URL,
     REDIS_HOST: process.env.REDIS_HOST || 'redis',
     REDIS_PORT: parseInt(process.env.REDIS_PORT || '6379', 10),
@@ -100,6 +104,10 @@ export const validateConfig = (): void => {
     }
   }
 
+  if (!process.env.CHECK_IN_QR_SECRET) {
+    console.warn('⚠️ CHECK_IN_QR_SECRET is not set. Venue QR check-in codes are unavailable until it is configured.');
+  }
+
   if (config.NODE_ENV === 'production') {
     const productionVars = ['JWT_ACCESS_SECRET', 'JWT_REFRESH_SECRET', 'DATABASE_URL', 'AWS_REGION', 'AWS_S3_BUCKET_NAME', 'CORS_ORIGINS'];
     const missingVars = productionVars.filter(varName => !process.env[varName]);
@@ -203,6 +203,35 @@ const options: swaggerJsdoc.Options = {
         },
 
         // Service Schemas
+        ServicePricing: {
+          type: 'object',
+          description: 'Dynamic pricing rules. Every matching rule adjusts the price (the staff member\'s, if they have one); percentages are of the price before any rule, and the result never goes below zero.',
+          properties: {
+            rules: {
+              type: 'array',
+              maxItems: 20,
+              items: {
+                type: 'object',
+                required: ['type', 'adjustment'],
+                properties: {
+                  type: { type: 'string', enum: ['SCHEDULE', 'LAST_MINUTE', 'FIRST_VISIT'] },
+                  label: { type: 'string', example: 'Weekend evenings' },
+                  daysOfWeek: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 6 }, description: 'SCHEDULE: 0 = Sunday; all days when left out' },
+                  startTime: { type: 'string', example: '17:00', description: 'SCHEDULE: business time, inclusive' },
+                  endTime: { type: 'string', example: '21:00', description: 'SCHEDULE: business time, exclusive' },
+                  withinHours: { type: 'integer', minimum: 1, maximum: 168, description: 'LAST_MINUTE: slots starting within this many hours' },
+                  adjustment: {
+                    type: 'object',
+                    properties: {
+                      type: { type: 'string', enum: ['PERCENTAGE', 'FIXED'] },
+                      value: { type: 'number', example: 20, description: 'Negative for a discount' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
         Service: {
           type: 'object',
           properties: {
@@ -250,6 +279,20 @@ const options: swaggerJsdoc.Options = {
               example: 2,
               description: 'Minimum advance booking in hours',
             },
+            bookingRelease: {
+              type: 'object',
+              nullable: true,
+              description: 'Weekly release of future slots; a date opens at the release `weeksAhead` weeks before its week',
+              properties: {
+                dayOfWeek: { type: 'integer', minimum: 0, maximum: 6, example: 1 },
+                time: { type: 'string', example: '09:00' },
+                weeksAhead: { type: 'integer', minimum: 0, maximum: 52, example: 0 },
+              },
+            },
+            pricing: {
+              allOf: [{ $ref: '#/components/schemas/ServicePricing' }],
+              nullable: true,
+            },
             isActive: {
               type: 'boolean',
               example: true,
@@ -324,15 +367,31 @@ const options: swaggerJsdoc.Options = {
               type: 'integer',
               minimum: 1,
               maximum: 365,
+              nullable: true,
               example: 30,
-              description: 'Maximum advance booking in days (1-365 days)',
+              description: 'Maximum advance booking in days (1-365 days); null uses the business setting',
             },
             minAdvanceBooking: {
               type: 'integer',
               minimum: 0,
               maximum: 72,
+              nullable: true,
               example: 2,
-              description: 'Minimum advance booking in hours (0-72 hours)',
+              description: 'Minimum advance booking in hours (0-72 hours); null uses the business setting',
+            },
+            bookingRelease: {
+              type: 'object',
+              nullable: true,
+              description: 'Weekly release of future slots; a date opens at the release `weeksAhead` weeks before its week',
+              properties: {
+                dayOfWeek: { type: 'integer', minimum: 0, maximum: 6, example: 1 },
+                time: { type: 'string', example: '09:00' },
+                weeksAhead: { type: 'integer', minimum: 0, maximum: 52, example: 0 },
+              },
+            },
+            pricing: {
+              allOf: [{ $ref: '#/components/schemas/ServicePricing' }],
+              nullable: true,
             },
           },
         },
@@ -1039,6 +1098,30 @@ const options: swaggerJsdoc.Options = {
         name: 'Services',
         description: 'Service catalog and management for businesses',
       },
+      {
+        name: 'Resources',
+        description: 'Rooms, chairs and equipment shared by staff and required by services',
+      },
+      {
+        name: 'Intake Forms',
+        description: 'Versioned pre-appointment questions of services and the answers given per appointment',
+      },
+      {
+        name: 'Imports',
+        description: 'Bulk import of customers, services and future appointments from CSV files',
+      },
+      {
+        name: 'Session Packages',
+        description: 'Prepaid session packages sold to customers and the sessions their appointments use',
+      },
+      {
+        name: 'Gift Cards',
+        description: 'Gift cards and promotional vouchers with a balance spent on appointments',
+      },
+      {
+        name: 'Classes',
+        description: 'Group classes with a seat limit, per-seat booking and class rosters',
+      },
       {
         name: 'Appointments',
         description: 'Appointment scheduling and lifecycle management',
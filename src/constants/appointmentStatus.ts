@@ -15,5 +15,44 @@ export const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = [
   AppointmentStatus.IN_PROGRESS,
 ];
 
+/**
+ * Number of a day's appointments that use up the business's maxDailyAppointments:
+ * the ones still taking a slot. Booking and checkout holds both count with this,
+ * so a hold that was granted can still be booked.
+ */
+export function countTowardDailyLimit(appointments: Array<{ status: AppointmentStatus | string }>): number {
+  return appointments.filter((apt) => ACTIVE_APPOINTMENT_STATUSES.includes(apt.status as AppointmentStatus)).length;
+}
+
 /** Postgres-literal form of {@link ACTIVE_APPOINTMENT_STATUSES} for raw SQL / migrations. */
 export const ACTIVE_APPOINTMENT_STATUSES_SQL = `'PENDING','PENDING_APPROVAL','CONFIRMED','IN_PROGRESS'`;
+
+// Least advanced first: a bundle waits on its slowest active leg
+const BUNDLE_ACTIVE_PRECEDENCE: AppointmentStatus[] = [
+  AppointmentStatus.PENDING_APPROVAL,
+  AppointmentStatus.PENDING,
+  AppointmentStatus.CONFIRMED,
+];
+
+// Once no leg is active, the visit took place if any leg did
+const BUNDLE_FINAL_PRECEDENCE: AppointmentStatus[] = [
+  AppointmentStatus.COMPLETED,
+  AppointmentStatus.NO_SHOW,
+  AppointmentStatus.REJECTED_BY_BUSINESS,
+  AppointmentStatus.CANCELED,
+];
+
+/**
+ * Status of a multi-service bundle derived from its legs, so approving, confirming,
+ * completing, rejecting or no-showing a single leg is reflected on the bundle.
+ * A bundle is IN_PROGRESS as soon as one leg is, otherwise it takes the least
+ * advanced active leg's status; with no active leg left it is COMPLETED if any
+ * leg was, then NO_SHOW, REJECTED_BY_BUSINESS and finally CANCELED.
+ */
+export function deriveBundleStatus(legStatuses: AppointmentStatus[]): AppointmentStatus {
+  if (legStatuses.includes(AppointmentStatus.IN_PROGRESS)) {
+    return AppointmentStatus.IN_PROGRESS;
+  }
+  const precedence = [...BUNDLE_ACTIVE_PRECEDENCE, ...BUNDLE_FINAL_PRECEDENCE];
+  return precedence.find((status) => legStatuses.includes(status)) ?? AppointmentStatus.CANCELED;
+}
@@ -63,12 +63,28 @@ export const ERROR_CODES = {
   APPOINTMENT_TIME_CONFLICT: 'APPOINTMENT_TIME_CONFLICT',
   APPOINTMENT_PAST_DATE: 'APPOINTMENT_PAST_DATE',
   APPOINTMENT_TOO_FAR_FUTURE: 'APPOINTMENT_TOO_FAR_FUTURE',
+  /** The service's release schedule has not opened this date yet */
+  APPOINTMENT_NOT_YET_RELEASED: 'APPOINTMENT_NOT_YET_RELEASED',
   APPOINTMENT_OUTSIDE_HOURS: 'APPOINTMENT_OUTSIDE_HOURS',
   APPOINTMENT_ALREADY_CONFIRMED: 'APPOINTMENT_ALREADY_CONFIRMED',
   APPOINTMENT_ALREADY_COMPLETED: 'APPOINTMENT_ALREADY_COMPLETED',
   APPOINTMENT_ALREADY_CANCELLED: 'APPOINTMENT_ALREADY_CANCELLED',
   APPOINTMENT_CANNOT_CANCEL: 'APPOINTMENT_CANNOT_CANCEL',
   APPOINTMENT_NO_SHOW_NOT_ALLOWED: 'APPOINTMENT_NO_SHOW_NOT_ALLOWED',
+  /** Customer arrival was already recorded */
+  APPOINTMENT_ALREADY_CHECKED_IN: 'APPOINTMENT_ALREADY_CHECKED_IN',
+  /** Only confirmed or in-service appointments can be checked in or started */
+  APPOINTMENT_CHECK_IN_NOT_ALLOWED: 'APPOINTMENT_CHECK_IN_NOT_ALLOWED',
+  /** QR check-in is outside the window around the start time */
+  APPOINTMENT_CHECK_IN_WINDOW_CLOSED: 'APPOINTMENT_CHECK_IN_WINDOW_CLOSED',
+  APPOINTMENT_ALREADY_STARTED: 'APPOINTMENT_ALREADY_STARTED',
+  /** Venue QR code signature does not match the business */
+  CHECK_IN_CODE_INVALID: 'CHECK_IN_CODE_INVALID',
+  QR_CHECK_IN_DISABLED: 'QR_CHECK_IN_DISABLED',
+  APPOINTMENT_NOT_NO_SHOW: 'APPOINTMENT_NOT_NO_SHOW',
+  NO_SHOW_UNDO_OWNER_ONLY: 'NO_SHOW_UNDO_OWNER_ONLY',
+  /** The slot of the no-show was booked again in the meantime */
+  NO_SHOW_UNDO_SLOT_TAKEN: 'NO_SHOW_UNDO_SLOT_TAKEN',
   APPOINTMENT_STAFF_NOT_AVAILABLE: 'APPOINTMENT_STAFF_NOT_AVAILABLE',
   APPOINTMENT_SERVICE_UNAVAILABLE: 'APPOINTMENT_SERVICE_UNAVAILABLE',
   /** Booking earlier than business/service minimum advance (hours) */
@@ -78,6 +94,74 @@ export const ERROR_CODES = {
   /** Cancellation / no-show policy blocks new booking (e.g. daily cancel cap) */
   APPOINTMENT_BOOKING_POLICY_VIOLATION: 'APPOINTMENT_BOOKING_POLICY_VIOLATION',
   APPOINTMENT_NOT_PENDING_APPROVAL: 'APPOINTMENT_NOT_PENDING_APPROVAL',
+  APPOINTMENT_BUNDLE_NOT_FOUND: 'APPOINTMENT_BUNDLE_NOT_FOUND',
+  /** Bundle request is malformed (too few/many services, staff list mismatch) */
+  APPOINTMENT_BUNDLE_INVALID: 'APPOINTMENT_BUNDLE_INVALID',
+  /** First-available search covers more days than one search may */
+  APPOINTMENT_SEARCH_RANGE_TOO_LONG: 'APPOINTMENT_SEARCH_RANGE_TOO_LONG',
+  /** A single leg of a bundle cannot be moved on its own; reschedule the bundle instead */
+  APPOINTMENT_PART_OF_BUNDLE: 'APPOINTMENT_PART_OF_BUNDLE',
+  APPOINTMENT_SERIES_NOT_FOUND: 'APPOINTMENT_SERIES_NOT_FOUND',
+  /** Recurrence rule is malformed or unsupported (only WEEKLY/MONTHLY) */
+  APPOINTMENT_SERIES_INVALID_RULE: 'APPOINTMENT_SERIES_INVALID_RULE',
+  /** Series was cancelled; its occurrences can no longer be edited as a series */
+  APPOINTMENT_SERIES_NOT_ACTIVE: 'APPOINTMENT_SERIES_NOT_ACTIVE',
+  /** Every occurrence of a new series conflicts with hours, closures or other bookings */
+  APPOINTMENT_SERIES_NO_OCCURRENCES: 'APPOINTMENT_SERIES_NO_OCCURRENCES',
+  /** Slot is temporarily held for a waitlisted customer */
+  APPOINTMENT_SLOT_HELD: 'APPOINTMENT_SLOT_HELD',
+  /** Checkout hold expired, was released or belongs to someone else */
+  SLOT_HOLD_NOT_FOUND: 'SLOT_HOLD_NOT_FOUND',
+  /** Hold storage (Redis) is unreachable; booking without a hold still works */
+  SLOT_HOLD_UNAVAILABLE: 'SLOT_HOLD_UNAVAILABLE',
+  /** A room, chair or equipment the service needs is fully booked */
+  APPOINTMENT_RESOURCE_UNAVAILABLE: 'APPOINTMENT_RESOURCE_UNAVAILABLE',
+  /** A class seat cannot be moved to another time; book another class instead */
+  APPOINTMENT_PART_OF_CLASS: 'APPOINTMENT_PART_OF_CLASS',
+  /** Group services are booked per seat in a scheduled class, not as a free slot */
+  APPOINTMENT_CLASS_BOOKING_REQUIRED: 'APPOINTMENT_CLASS_BOOKING_REQUIRED',
+  /** Customer reschedule blocked by the business reschedule policy */
+  APPOINTMENT_RESCHEDULE_NOT_ALLOWED: 'APPOINTMENT_RESCHEDULE_NOT_ALLOWED',
+  /** Reschedule target equals the current time */
+  APPOINTMENT_RESCHEDULE_SAME_TIME: 'APPOINTMENT_RESCHEDULE_SAME_TIME',
+  /** The appointment has no deposit */
+  APPOINTMENT_DEPOSIT_NOT_FOUND: 'APPOINTMENT_DEPOSIT_NOT_FOUND',
+  /** Deposit already paid, expired or the appointment is no longer waiting for it */
+  APPOINTMENT_DEPOSIT_NOT_PAYABLE: 'APPOINTMENT_DEPOSIT_NOT_PAYABLE',
+  /** iyzico declined the deposit charge */
+  APPOINTMENT_DEPOSIT_PAYMENT_FAILED: 'APPOINTMENT_DEPOSIT_PAYMENT_FAILED',
+  CLASS_SESSION_NOT_FOUND: 'CLASS_SESSION_NOT_FOUND',
+  /** Class was cancelled or has already started */
+  CLASS_SESSION_NOT_ACTIVE: 'CLASS_SESSION_NOT_ACTIVE',
+  /** Every seat of the class is taken */
+  CLASS_SESSION_FULL: 'CLASS_SESSION_FULL',
+  /** The customer already holds a seat in this class */
+  CLASS_SESSION_ALREADY_BOOKED: 'CLASS_SESSION_ALREADY_BOOKED',
+  /** The instructor already has a class or appointment at that time */
+  CLASS_SESSION_STAFF_CONFLICT: 'CLASS_SESSION_STAFF_CONFLICT',
+  /** The service is inactive or not a group service */
+  CLASS_SESSION_SERVICE_INVALID: 'CLASS_SESSION_SERVICE_INVALID',
+  /** Seat count cannot drop below the seats already booked */
+  CLASS_SESSION_SEATS_BELOW_BOOKED: 'CLASS_SESSION_SEATS_BELOW_BOOKED',
+  WAITLIST_ENTRY_NOT_FOUND: 'WAITLIST_ENTRY_NOT_FOUND',
+  /** Customer already waits for this service */
+  WAITLIST_ALREADY_JOINED: 'WAITLIST_ALREADY_JOINED',
+  /** Date or time window is empty, in the past or too long */
+  WAITLIST_INVALID_WINDOW: 'WAITLIST_INVALID_WINDOW',
+  /** Entry was already booked, cancelled or expired */
+  WAITLIST_ENTRY_CLOSED: 'WAITLIST_ENTRY_CLOSED',
+  WAITLIST_OFFER_NOT_FOUND: 'WAITLIST_OFFER_NOT_FOUND',
+  /** Offer hold ran out or the offer was already answered */
+  WAITLIST_OFFER_EXPIRED: 'WAITLIST_OFFER_EXPIRED',
+  WALK_IN_TICKET_NOT_FOUND: 'WALK_IN_TICKET_NOT_FOUND',
+  /** The ticket was already called, converted or cancelled */
+  WALK_IN_TICKET_INVALID_STATUS: 'WALK_IN_TICKET_INVALID_STATUS',
+  /** Customers hold one open ticket per business */
+  WALK_IN_ALREADY_QUEUED: 'WALK_IN_ALREADY_QUEUED',
+  /** Nobody the staff member can serve is waiting */
+  WALK_IN_QUEUE_EMPTY: 'WALK_IN_QUEUE_EMPTY',
+  /** A name to queue, or a customer account to convert to an appointment */
+  WALK_IN_CUSTOMER_REQUIRED: 'WALK_IN_CUSTOMER_REQUIRED',
 
   // =============================================================================
   // SERVICE ERRORS
@@ -89,6 +173,31 @@ export const ERROR_CODES = {
   SERVICE_PRICE_INVALID: 'SERVICE_PRICE_INVALID',
   SERVICE_DURATION_INVALID: 'SERVICE_DURATION_INVALID',
   SERVICE_HAS_APPOINTMENTS: 'SERVICE_HAS_APPOINTMENTS',
+  RESOURCE_NOT_FOUND: 'RESOURCE_NOT_FOUND',
+  RESOURCE_NAME_DUPLICATE: 'RESOURCE_NAME_DUPLICATE',
+  /** A service needs more units of a resource than it has */
+  RESOURCE_QUANTITY_EXCEEDS_CAPACITY: 'RESOURCE_QUANTITY_EXCEEDS_CAPACITY',
+  INTAKE_FORM_NOT_FOUND: 'INTAKE_FORM_NOT_FOUND',
+  /** Intake answers are missing a required question or do not fit a question */
+  INTAKE_ANSWERS_INVALID: 'INTAKE_ANSWERS_INVALID',
+  /** Only the customer and the staff member assigned to the appointment see its intake answers */
+  INTAKE_ACCESS_DENIED: 'INTAKE_ACCESS_DENIED',
+  /** The appointment has started or ended, so its intake answers can no longer change */
+  INTAKE_CLOSED: 'INTAKE_CLOSED',
+  /** An import file is empty, not a CSV, or misses a required column */
+  IMPORT_FILE_INVALID: 'IMPORT_FILE_INVALID',
+  IMPORT_TOO_MANY_ROWS: 'IMPORT_TOO_MANY_ROWS',
+  SESSION_PACKAGE_NOT_FOUND: 'SESSION_PACKAGE_NOT_FOUND',
+  SESSION_PACKAGE_INACTIVE: 'SESSION_PACKAGE_INACTIVE',
+  SESSION_PACKAGE_INVALID_SERVICES: 'SESSION_PACKAGE_INVALID_SERVICES',
+  /** The package credit picked for a booking was taken by another booking meanwhile */
+  SESSION_PACKAGE_NO_CREDITS: 'SESSION_PACKAGE_NO_CREDITS',
+  GIFT_CARD_NOT_FOUND: 'GIFT_CARD_NOT_FOUND',
+  GIFT_CARD_INACTIVE: 'GIFT_CARD_INACTIVE',
+  GIFT_CARD_EXPIRED: 'GIFT_CARD_EXPIRED',
+  GIFT_CARD_NO_BALANCE: 'GIFT_CARD_NO_BALANCE',
+  /** The card belongs to another business or customer, or the appointment has nothing left to pay */
+  GIFT_CARD_NOT_APPLICABLE: 'GIFT_CARD_NOT_APPLICABLE',
 
   // =============================================================================
   // CUSTOMER ERRORS
@@ -106,6 +215,22 @@ export const ERROR_CODES = {
   STAFF_ALREADY_EXISTS: 'STAFF_ALREADY_EXISTS',
   STAFF_NOT_AVAILABLE: 'STAFF_NOT_AVAILABLE',
   STAFF_CANNOT_DELETE_SELF: 'STAFF_CANNOT_DELETE_SELF',
+  /** Staff member has approved time off at the requested time */
+  STAFF_ON_TIME_OFF: 'STAFF_ON_TIME_OFF',
+  /** Staff member is busy in an imported outside calendar at the requested time */
+  STAFF_EXTERNALLY_BUSY: 'STAFF_EXTERNALLY_BUSY',
+  /** Staff member is not assigned to the service */
+  STAFF_NOT_QUALIFIED: 'STAFF_NOT_QUALIFIED',
+  STAFF_TIME_OFF_NOT_FOUND: 'STAFF_TIME_OFF_NOT_FOUND',
+  STAFF_TIME_OFF_INVALID_STATUS: 'STAFF_TIME_OFF_INVALID_STATUS',
+  STAFF_TIME_OFF_INVALID_RANGE: 'STAFF_TIME_OFF_INVALID_RANGE',
+  /** Unknown, revoked or wrongly signed calendar feed */
+  CALENDAR_FEED_NOT_FOUND: 'CALENDAR_FEED_NOT_FOUND',
+  /** Caller cannot see every appointment the requested feed would contain */
+  CALENDAR_FEED_SCOPE_INVALID: 'CALENDAR_FEED_SCOPE_INVALID',
+  STAFF_CALENDAR_NOT_FOUND: 'STAFF_CALENDAR_NOT_FOUND',
+  /** ICS file or URL could not be read or parsed */
+  STAFF_CALENDAR_INVALID: 'STAFF_CALENDAR_INVALID',
 
   // =============================================================================
   // ROLE & PERMISSION ERRORS
@@ -239,18 +364,65 @@ export const ERROR_TRANSLATION_KEYS = {
   [ERROR_CODES.APPOINTMENT_TIME_CONFLICT]: 'errors.appointment.timeConflict',
   [ERROR_CODES.APPOINTMENT_PAST_DATE]: 'errors.appointment.pastDate',
   [ERROR_CODES.APPOINTMENT_TOO_FAR_FUTURE]: 'errors.appointment.tooFarFuture',
+  [ERROR_CODES.APPOINTMENT_NOT_YET_RELEASED]: 'errors.appointment.notYetReleased',
   [ERROR_CODES.APPOINTMENT_OUTSIDE_HOURS]: 'errors.appointment.outsideHours',
   [ERROR_CODES.APPOINTMENT_ALREADY_CONFIRMED]: 'errors.appointment.alreadyConfirmed',
   [ERROR_CODES.APPOINTMENT_ALREADY_COMPLETED]: 'errors.appointment.alreadyCompleted',
   [ERROR_CODES.APPOINTMENT_ALREADY_CANCELLED]: 'errors.appointment.alreadyCancelled',
   [ERROR_CODES.APPOINTMENT_CANNOT_CANCEL]: 'errors.appointment.cannotCancel',
   [ERROR_CODES.APPOINTMENT_NO_SHOW_NOT_ALLOWED]: 'errors.appointment.noShowNotAllowed',
+  [ERROR_CODES.APPOINTMENT_ALREADY_CHECKED_IN]: 'errors.appointment.alreadyCheckedIn',
+  [ERROR_CODES.APPOINTMENT_CHECK_IN_NOT_ALLOWED]: 'errors.appointment.checkInNotAllowed',
+  [ERROR_CODES.APPOINTMENT_CHECK_IN_WINDOW_CLOSED]: 'errors.appointment.checkInWindowClosed',
+  [ERROR_CODES.APPOINTMENT_ALREADY_STARTED]: 'errors.appointment.alreadyStarted',
+  [ERROR_CODES.CHECK_IN_CODE_INVALID]: 'errors.appointment.checkInCodeInvalid',
+  [ERROR_CODES.QR_CHECK_IN_DISABLED]: 'errors.appointment.qrCheckInDisabled',
+  [ERROR_CODES.APPOINTMENT_NOT_NO_SHOW]: 'errors.appointment.notNoShow',
+  [ERROR_CODES.NO_SHOW_UNDO_OWNER_ONLY]: 'errors.appointment.noShowUndoOwnerOnly',
+  [ERROR_CODES.NO_SHOW_UNDO_SLOT_TAKEN]: 'errors.appointment.noShowUndoSlotTaken',
   [ERROR_CODES.APPOINTMENT_STAFF_NOT_AVAILABLE]: 'errors.appointment.staffNotAvailable',
   [ERROR_CODES.APPOINTMENT_SERVICE_UNAVAILABLE]: 'errors.appointment.serviceUnavailable',
   [ERROR_CODES.APPOINTMENT_INSUFFICIENT_ADVANCE]: 'errors.appointment.insufficientAdvance',
   [ERROR_CODES.APPOINTMENT_DAILY_LIMIT_REACHED]: 'errors.appointment.dailyLimitReached',
   [ERROR_CODES.APPOINTMENT_BOOKING_POLICY_VIOLATION]: 'errors.appointment.bookingPolicyViolation',
   [ERROR_CODES.APPOINTMENT_NOT_PENDING_APPROVAL]: 'errors.appointment.notPendingApproval',
+  [ERROR_CODES.APPOINTMENT_BUNDLE_NOT_FOUND]: 'errors.appointment.bundleNotFound',
+  [ERROR_CODES.APPOINTMENT_BUNDLE_INVALID]: 'errors.appointment.bundleInvalid',
+  [ERROR_CODES.APPOINTMENT_SEARCH_RANGE_TOO_LONG]: 'errors.appointment.searchRangeTooLong',
+  [ERROR_CODES.APPOINTMENT_PART_OF_BUNDLE]: 'errors.appointment.partOfBundle',
+  [ERROR_CODES.APPOINTMENT_SERIES_NOT_FOUND]: 'errors.appointment.seriesNotFound',
+  [ERROR_CODES.APPOINTMENT_SERIES_INVALID_RULE]: 'errors.appointment.seriesInvalidRule',
+  [ERROR_CODES.APPOINTMENT_SERIES_NOT_ACTIVE]: 'errors.appointment.seriesNotActive',
+  [ERROR_CODES.APPOINTMENT_SERIES_NO_OCCURRENCES]: 'errors.appointment.seriesNoOccurrences',
+  [ERROR_CODES.APPOINTMENT_SLOT_HELD]: 'errors.appointment.slotHeld',
+  [ERROR_CODES.SLOT_HOLD_NOT_FOUND]: 'errors.appointment.slotHoldNotFound',
+  [ERROR_CODES.SLOT_HOLD_UNAVAILABLE]: 'errors.appointment.slotHoldUnavailable',
+  [ERROR_CODES.APPOINTMENT_RESOURCE_UNAVAILABLE]: 'errors.appointment.resourceUnavailable',
+  [ERROR_CODES.APPOINTMENT_PART_OF_CLASS]: 'errors.appointment.partOfClass',
+  [ERROR_CODES.APPOINTMENT_CLASS_BOOKING_REQUIRED]: 'errors.appointment.classBookingRequired',
+  [ERROR_CODES.APPOINTMENT_RESCHEDULE_NOT_ALLOWED]: 'errors.appointment.rescheduleNotAllowed',
+  [ERROR_CODES.APPOINTMENT_RESCHEDULE_SAME_TIME]: 'errors.appointment.rescheduleSameTime',
+  [ERROR_CODES.APPOINTMENT_DEPOSIT_NOT_FOUND]: 'errors.appointment.depositNotFound',
+  [ERROR_CODES.APPOINTMENT_DEPOSIT_NOT_PAYABLE]: 'errors.appointment.depositNotPayable',
+  [ERROR_CODES.APPOINTMENT_DEPOSIT_PAYMENT_FAILED]: 'errors.appointment.depositPaymentFailed',
+  [ERROR_CODES.CLASS_SESSION_NOT_FOUND]: 'errors.classSession.notFound',
+  [ERROR_CODES.CLASS_SESSION_NOT_ACTIVE]: 'errors.classSession.notActive',
+  [ERROR_CODES.CLASS_SESSION_FULL]: 'errors.classSession.full',
+  [ERROR_CODES.CLASS_SESSION_ALREADY_BOOKED]: 'errors.classSession.alreadyBooked',
+  [ERROR_CODES.CLASS_SESSION_STAFF_CONFLICT]: 'errors.classSession.staffConflict',
+  [ERROR_CODES.CLASS_SESSION_SERVICE_INVALID]: 'errors.classSession.serviceInvalid',
+  [ERROR_CODES.CLASS_SESSION_SEATS_BELOW_BOOKED]: 'errors.classSession.seatsBelowBooked',
+  [ERROR_CODES.WAITLIST_ENTRY_NOT_FOUND]: 'errors.waitlist.entryNotFound',
+  [ERROR_CODES.WAITLIST_ALREADY_JOINED]: 'errors.waitlist.alreadyJoined',
+  [ERROR_CODES.WAITLIST_INVALID_WINDOW]: 'errors.waitlist.invalidWindow',
+  [ERROR_CODES.WAITLIST_ENTRY_CLOSED]: 'errors.waitlist.entryClosed',
+  [ERROR_CODES.WAITLIST_OFFER_NOT_FOUND]: 'errors.waitlist.offerNotFound',
+  [ERROR_CODES.WAITLIST_OFFER_EXPIRED]: 'errors.waitlist.offerExpired',
+  [ERROR_CODES.WALK_IN_TICKET_NOT_FOUND]: 'errors.walkInQueue.ticketNotFound',
+  [ERROR_CODES.WALK_IN_TICKET_INVALID_STATUS]: 'errors.walkInQueue.invalidStatus',
+  [ERROR_CODES.WALK_IN_ALREADY_QUEUED]: 'errors.walkInQueue.alreadyQueued',
+  [ERROR_CODES.WALK_IN_QUEUE_EMPTY]: 'errors.walkInQueue.empty',
+  [ERROR_CODES.WALK_IN_CUSTOMER_REQUIRED]: 'errors.walkInQueue.customerRequired',
 
   // Services
   [ERROR_CODES.SERVICE_NOT_FOUND]: 'errors.service.notFound',
@@ -260,6 +432,24 @@ export const ERROR_TRANSLATION_KEYS = {
   [ERROR_CODES.SERVICE_PRICE_INVALID]: 'errors.service.priceInvalid',
   [ERROR_CODES.SERVICE_DURATION_INVALID]: 'errors.service.durationInvalid',
   [ERROR_CODES.SERVICE_HAS_APPOINTMENTS]: 'errors.service.hasAppointments',
+  [ERROR_CODES.RESOURCE_NOT_FOUND]: 'errors.resource.notFound',
+  [ERROR_CODES.RESOURCE_NAME_DUPLICATE]: 'errors.resource.nameDuplicate',
+  [ERROR_CODES.RESOURCE_QUANTITY_EXCEEDS_CAPACITY]: 'errors.resource.quantityExceedsCapacity',
+  [ERROR_CODES.INTAKE_FORM_NOT_FOUND]: 'errors.intakeForm.notFound',
+  [ERROR_CODES.INTAKE_ANSWERS_INVALID]: 'errors.intakeForm.answersInvalid',
+  [ERROR_CODES.INTAKE_ACCESS_DENIED]: 'errors.intakeForm.accessDenied',
+  [ERROR_CODES.INTAKE_CLOSED]: 'errors.intakeForm.closed',
+  [ERROR_CODES.IMPORT_FILE_INVALID]: 'errors.import.fileInvalid',
+  [ERROR_CODES.IMPORT_TOO_MANY_ROWS]: 'errors.import.tooManyRows',
+  [ERROR_CODES.SESSION_PACKAGE_NOT_FOUND]: 'errors.sessionPackage.notFound',
+  [ERROR_CODES.SESSION_PACKAGE_INACTIVE]: 'errors.sessionPackage.inactive',
+  [ERROR_CODES.SESSION_PACKAGE_INVALID_SERVICES]: 'errors.sessionPackage.invalidServices',
+  [ERROR_CODES.SESSION_PACKAGE_NO_CREDITS]: 'errors.sessionPackage.noCredits',
+  [ERROR_CODES.GIFT_CARD_NOT_FOUND]: 'errors.giftCard.notFound',
+  [ERROR_CODES.GIFT_CARD_INACTIVE]: 'errors.giftCard.inactive',
+  [ERROR_CODES.GIFT_CARD_EXPIRED]: 'errors.giftCard.expired',
+  [ERROR_CODES.GIFT_CARD_NO_BALANCE]: 'errors.giftCard.noBalance',
+  [ERROR_CODES.GIFT_CARD_NOT_APPLICABLE]: 'errors.giftCard.notApplicable',
 
   // Customers
   [ERROR_CODES.CUSTOMER_NOT_FOUND]: 'errors.customer.notFound',
@@ -273,6 +463,16 @@ export const ERROR_TRANSLATION_KEYS = {
   [ERROR_CODES.STAFF_ALREADY_EXISTS]: 'errors.staff.alreadyExists',
   [ERROR_CODES.STAFF_NOT_AVAILABLE]: 'errors.staff.notAvailable',
   [ERROR_CODES.STAFF_CANNOT_DELETE_SELF]: 'errors.staff.cannotDeleteSelf',
+  [ERROR_CODES.STAFF_ON_TIME_OFF]: 'errors.staff.onTimeOff',
+  [ERROR_CODES.STAFF_EXTERNALLY_BUSY]: 'errors.staff.externallyBusy',
+  [ERROR_CODES.STAFF_NOT_QUALIFIED]: 'errors.staff.notQualified',
+  [ERROR_CODES.STAFF_TIME_OFF_NOT_FOUND]: 'errors.staffTimeOff.notFound',
+  [ERROR_CODES.STAFF_TIME_OFF_INVALID_STATUS]: 'errors.staffTimeOff.invalidStatus',
+  [ERROR_CODES.STAFF_TIME_OFF_INVALID_RANGE]: 'errors.staffTimeOff.invalidRange',
+  [ERROR_CODES.CALENDAR_FEED_NOT_FOUND]: 'errors.calendarFeed.notFound',
+  [ERROR_CODES.CALENDAR_FEED_SCOPE_INVALID]: 'errors.calendarFeed.scopeInvalid',
+  [ERROR_CODES.STAFF_CALENDAR_NOT_FOUND]: 'errors.staffCalendar.notFound',
+  [ERROR_CODES.STAFF_CALENDAR_INVALID]: 'errors.staffCalendar.invalid',
 
   // Roles & Permissions
   [ERROR_CODES.ROLE_NOT_FOUND]: 'errors.role.notFound',
@@ -455,18 +655,65 @@ export const ERROR_CATALOG: Record<string, CatalogEntry> = {
   APPOINTMENT_TIME_CONFLICT:   { status: 409, key: 'errors.appointment.timeConflict',       severity: 'warn'  },
   APPOINTMENT_PAST_DATE:       { status: 422, key: 'errors.appointment.pastDate',            severity: 'warn'  },
   APPOINTMENT_TOO_FAR_FUTURE:  { status: 422, key: 'errors.appointment.tooFarFuture',       severity: 'warn'  },
+  APPOINTMENT_NOT_YET_RELEASED: { status: 422, key: 'errors.appointment.notYetReleased',      severity: 'warn'  },
   APPOINTMENT_OUTSIDE_HOURS:   { status: 422, key: 'errors.appointment.outsideHours',        severity: 'warn'  },
   APPOINTMENT_ALREADY_CONFIRMED: { status: 409, key: 'errors.appointment.alreadyConfirmed', severity: 'warn'  },
   APPOINTMENT_ALREADY_COMPLETED: { status: 409, key: 'errors.appointment.alreadyCompleted', severity: 'warn'  },
   APPOINTMENT_ALREADY_CANCELLED: { status: 409, key: 'errors.appointment.alreadyCancelled', severity: 'warn'  },
   APPOINTMENT_CANNOT_CANCEL:   { status: 422, key: 'errors.appointment.cannotCancel',        severity: 'warn'  },
   APPOINTMENT_NO_SHOW_NOT_ALLOWED: { status: 422, key: 'errors.appointment.noShowNotAllowed', severity: 'warn' },
+  APPOINTMENT_ALREADY_CHECKED_IN:  { status: 409, key: 'errors.appointment.alreadyCheckedIn',    severity: 'warn'  },
+  APPOINTMENT_CHECK_IN_NOT_ALLOWED: { status: 409, key: 'errors.appointment.checkInNotAllowed',   severity: 'warn'  },
+  APPOINTMENT_CHECK_IN_WINDOW_CLOSED: { status: 409, key: 'errors.appointment.checkInWindowClosed', severity: 'warn'  },
+  APPOINTMENT_ALREADY_STARTED:     { status: 409, key: 'errors.appointment.alreadyStarted',      severity: 'warn'  },
+  CHECK_IN_CODE_INVALID:           { status: 400, key: 'errors.appointment.checkInCodeInvalid',  severity: 'warn'  },
+  QR_CHECK_IN_DISABLED:            { status: 403, key: 'errors.appointment.qrCheckInDisabled',   severity: 'warn'  },
+  APPOINTMENT_NOT_NO_SHOW:         { status: 409, key: 'errors.appointment.notNoShow',           severity: 'warn'  },
+  NO_SHOW_UNDO_OWNER_ONLY:         { status: 403, key: 'errors.appointment.noShowUndoOwnerOnly', severity: 'warn'  },
+  NO_SHOW_UNDO_SLOT_TAKEN:     { status: 409, key: 'errors.appointment.noShowUndoSlotTaken', severity: 'warn'  },
   APPOINTMENT_STAFF_NOT_AVAILABLE: { status: 422, key: 'errors.appointment.staffNotAvailable', severity: 'warn' },
   APPOINTMENT_SERVICE_UNAVAILABLE: { status: 422, key: 'errors.appointment.serviceUnavailable', severity: 'warn' },
   APPOINTMENT_INSUFFICIENT_ADVANCE: { status: 422, key: 'errors.appointment.insufficientAdvance', severity: 'warn' },
   APPOINTMENT_DAILY_LIMIT_REACHED: { status: 422, key: 'errors.appointment.dailyLimitReached', severity: 'warn' },
   APPOINTMENT_BOOKING_POLICY_VIOLATION: { status: 422, key: 'errors.appointment.bookingPolicyViolation', severity: 'warn' },
   APPOINTMENT_NOT_PENDING_APPROVAL: { status: 422, key: 'errors.appointment.notPendingApproval', severity: 'warn' },
+  APPOINTMENT_BUNDLE_NOT_FOUND: { status: 404, key: 'errors.appointment.bundleNotFound',     severity: 'warn'  },
+  APPOINTMENT_BUNDLE_INVALID:  { status: 400, key: 'errors.appointment.bundleInvalid',       severity: 'warn'  },
+  APPOINTMENT_SEARCH_RANGE_TOO_LONG: { status: 400, key: 'errors.appointment.searchRangeTooLong',  severity: 'warn'  },
+  APPOINTMENT_PART_OF_BUNDLE:  { status: 409, key: 'errors.appointment.partOfBundle',        severity: 'warn'  },
+  APPOINTMENT_SERIES_NOT_FOUND: { status: 404, key: 'errors.appointment.seriesNotFound',      severity: 'warn'  },
+  APPOINTMENT_SERIES_INVALID_RULE: { status: 400, key: 'errors.appointment.seriesInvalidRule',   severity: 'warn'  },
+  APPOINTMENT_SERIES_NOT_ACTIVE: { status: 409, key: 'errors.appointment.seriesNotActive',     severity: 'warn'  },
+  APPOINTMENT_SERIES_NO_OCCURRENCES: { status: 409, key: 'errors.appointment.seriesNoOccurrences', severity: 'warn'  },
+  APPOINTMENT_SLOT_HELD:             { status: 409, key: 'errors.appointment.slotHeld',            severity: 'warn'  },
+  SLOT_HOLD_NOT_FOUND:         { status: 404, key: 'errors.appointment.slotHoldNotFound',    severity: 'warn'  },
+  SLOT_HOLD_UNAVAILABLE:       { status: 503, key: 'errors.appointment.slotHoldUnavailable', severity: 'warn'  },
+  APPOINTMENT_RESOURCE_UNAVAILABLE: { status: 409, key: 'errors.appointment.resourceUnavailable', severity: 'warn'  },
+  APPOINTMENT_PART_OF_CLASS:        { status: 409, key: 'errors.appointment.partOfClass',         severity: 'warn'  },
+  APPOINTMENT_CLASS_BOOKING_REQUIRED: { status: 400, key: 'errors.appointment.classBookingRequired', severity: 'warn'  },
+  APPOINTMENT_RESCHEDULE_NOT_ALLOWED: { status: 409, key: 'errors.appointment.rescheduleNotAllowed', severity: 'warn'  },
+  APPOINTMENT_RESCHEDULE_SAME_TIME:   { status: 400, key: 'errors.appointment.rescheduleSameTime',  severity: 'warn'  },
+  APPOINTMENT_DEPOSIT_NOT_FOUND:    { status: 404, key: 'errors.appointment.depositNotFound',     severity: 'warn'  },
+  APPOINTMENT_DEPOSIT_NOT_PAYABLE:  { status: 409, key: 'errors.appointment.depositNotPayable',   severity: 'warn'  },
+  APPOINTMENT_DEPOSIT_PAYMENT_FAILED: { status: 402, key: 'errors.appointment.depositPaymentFailed', severity: 'warn'  },
+  CLASS_SESSION_NOT_FOUND:          { status: 404, key: 'errors.classSession.notFound',           severity: 'warn'  },
+  CLASS_SESSION_NOT_ACTIVE:         { status: 409, key: 'errors.classSession.notActive',          severity: 'warn'  },
+  CLASS_SESSION_FULL:               { status: 409, key: 'errors.classSession.full',               severity: 'warn'  },
+  CLASS_SESSION_ALREADY_BOOKED:     { status: 409, key: 'errors.classSession.alreadyBooked',      severity: 'warn'  },
+  CLASS_SESSION_STAFF_CONFLICT:     { status: 409, key: 'errors.classSession.staffConflict',      severity: 'warn'  },
+  CLASS_SESSION_SERVICE_INVALID:    { status: 400, key: 'errors.classSession.serviceInvalid',     severity: 'warn'  },
+  CLASS_SESSION_SEATS_BELOW_BOOKED: { status: 400, key: 'errors.classSession.seatsBelowBooked',   severity: 'warn'  },
+  WAITLIST_ENTRY_NOT_FOUND:          { status: 404, key: 'errors.waitlist.entryNotFound',          severity: 'warn'  },
+  WAITLIST_ALREADY_JOINED:           { status: 409, key: 'errors.waitlist.alreadyJoined',          severity: 'warn'  },
+  WAITLIST_INVALID_WINDOW:           { status: 400, key: 'errors.waitlist.invalidWindow',          severity: 'warn'  },
+  WAITLIST_ENTRY_CLOSED:             { status: 409, key: 'errors.waitlist.entryClosed',            severity: 'warn'  },
+  WAITLIST_OFFER_NOT_FOUND:          { status: 404, key: 'errors.waitlist.offerNotFound',          severity: 'warn'  },
+  WAITLIST_OFFER_EXPIRED:            { status: 409, key: 'errors.waitlist.offerExpired',           severity: 'warn'  },
+  WALK_IN_TICKET_NOT_FOUND:          { status: 404, key: 'errors.walkInQueue.ticketNotFound',      severity: 'warn'  },
+  WALK_IN_TICKET_INVALID_STATUS:     { status: 409, key: 'errors.walkInQueue.invalidStatus',       severity: 'warn'  },
+  WALK_IN_ALREADY_QUEUED:            { status: 409, key: 'errors.walkInQueue.alreadyQueued',       severity: 'warn'  },
+  WALK_IN_QUEUE_EMPTY:               { status: 404, key: 'errors.walkInQueue.empty',               severity: 'warn'  },
+  WALK_IN_CUSTOMER_REQUIRED:         { status: 400, key: 'errors.walkInQueue.customerRequired',    severity: 'warn'  },
 
   // ── Service ─────────────────────────────────────────────────────────────
   SERVICE_NOT_FOUND:           { status: 404, key: 'errors.service.notFound',               severity: 'warn'  },
@@ -476,6 +723,24 @@ export const ERROR_CATALOG: Record<string, CatalogEntry> = {
   SERVICE_PRICE_INVALID:       { status: 422, key: 'errors.service.priceInvalid',            severity: 'warn'  },
   SERVICE_DURATION_INVALID:    { status: 422, key: 'errors.service.durationInvalid',         severity: 'warn'  },
   SERVICE_HAS_APPOINTMENTS:    { status: 422, key: 'errors.service.hasAppointments',         severity: 'warn'  },
+  RESOURCE_NOT_FOUND:          { status: 404, key: 'errors.resource.notFound',               severity: 'warn'  },
+  RESOURCE_NAME_DUPLICATE:     { status: 409, key: 'errors.resource.nameDuplicate',          severity: 'warn'  },
+  RESOURCE_QUANTITY_EXCEEDS_CAPACITY: { status: 400, key: 'errors.resource.quantityExceedsCapacity', severity: 'warn'  },
+  INTAKE_FORM_NOT_FOUND:              { status: 404, key: 'errors.intakeForm.notFound',             severity: 'warn'  },
+  INTAKE_ANSWERS_INVALID:             { status: 400, key: 'errors.intakeForm.answersInvalid',       severity: 'warn'  },
+  INTAKE_ACCESS_DENIED:               { status: 403, key: 'errors.intakeForm.accessDenied',         severity: 'warn'  },
+  INTAKE_CLOSED:                      { status: 422, key: 'errors.intakeForm.closed',               severity: 'warn'  },
+  IMPORT_FILE_INVALID:         { status: 400, key: 'errors.import.fileInvalid',              severity: 'warn'  },
+  IMPORT_TOO_MANY_ROWS:        { status: 400, key: 'errors.import.tooManyRows',              severity: 'warn'  },
+  SESSION_PACKAGE_NOT_FOUND:   { status: 404, key: 'errors.sessionPackage.notFound',         severity: 'warn'  },
+  SESSION_PACKAGE_INACTIVE:    { status: 409, key: 'errors.sessionPackage.inactive',         severity: 'warn'  },
+  SESSION_PACKAGE_INVALID_SERVICES: { status: 400, key: 'errors.sessionPackage.invalidServices',  severity: 'warn'  },
+  SESSION_PACKAGE_NO_CREDITS:  { status: 409, key: 'errors.sessionPackage.noCredits',        severity: 'warn'  },
+  GIFT_CARD_NOT_FOUND:         { status: 404, key: 'errors.giftCard.notFound',               severity: 'warn'  },
+  GIFT_CARD_INACTIVE:          { status: 409, key: 'errors.giftCard.inactive',               severity: 'warn'  },
+  GIFT_CARD_EXPIRED:           { status: 409, key: 'errors.giftCard.expired',                severity: 'warn'  },
+  GIFT_CARD_NO_BALANCE:        { status: 409, key: 'errors.giftCard.noBalance',              severity: 'warn'  },
+  GIFT_CARD_NOT_APPLICABLE:    { status: 400, key: 'errors.giftCard.notApplicable',          severity: 'warn'  },
 
   // ── Customer ────────────────────────────────────────────────────────────
   CUSTOMER_NOT_FOUND:          { status: 404, key: 'errors.customer.notFound',               severity: 'warn'  },
@@ -490,6 +755,16 @@ export const ERROR_CATALOG: Record<string, CatalogEntry> = {
   STAFF_ALREADY_EXISTS:        { status: 409, key: 'errors.staff.alreadyExists',             severity: 'warn'  },
   STAFF_NOT_AVAILABLE:         { status: 422, key: 'errors.staff.notAvailable',              severity: 'warn'  },
   STAFF_CANNOT_DELETE_SELF:    { status: 422, key: 'errors.staff.cannotDeleteSelf',          severity: 'warn'  },
+  STAFF_ON_TIME_OFF:           { status: 409, key: 'errors.staff.onTimeOff',                 severity: 'warn'  },
+  STAFF_EXTERNALLY_BUSY:       { status: 409, key: 'errors.staff.externallyBusy',            severity: 'warn'  },
+  STAFF_NOT_QUALIFIED:         { status: 422, key: 'errors.staff.notQualified',              severity: 'warn'  },
+  STAFF_TIME_OFF_NOT_FOUND:    { status: 404, key: 'errors.staffTimeOff.notFound',           severity: 'warn'  },
+  STAFF_TIME_OFF_INVALID_STATUS: { status: 409, key: 'errors.staffTimeOff.invalidStatus',      severity: 'warn'  },
+  STAFF_TIME_OFF_INVALID_RANGE: { status: 400, key: 'errors.staffTimeOff.invalidRange',       severity: 'warn'  },
+  CALENDAR_FEED_NOT_FOUND:      { status: 404, key: 'errors.calendarFeed.notFound',           severity: 'warn'  },
+  CALENDAR_FEED_SCOPE_INVALID:  { status: 403, key: 'errors.calendarFeed.scopeInvalid',       severity: 'warn'  },
+  STAFF_CALENDAR_NOT_FOUND:    { status: 404, key: 'errors.staffCalendar.notFound',          severity: 'warn'  },
+  STAFF_CALENDAR_INVALID:      { status: 400, key: 'errors.staffCalendar.invalid',           severity: 'warn'  },
 
   // ── Roles & Permissions ─────────────────────────────────────────────────
   ROLE_NOT_FOUND:              { status: 404, key: 'errors.role.notFound',                   severity: 'warn'  },
@@ -0,0 +1,95 @@
+import { Response } from 'express';
+import { qrCheckInSchema } from '../schemas/business.schemas';
+import { AppointmentCheckInService } from '../services/domain/appointment';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Check-in, service start and no-show undo.
+ * Mounted under /api/v1/appointments.
+ */
+export class AppointmentCheckInController {
+  constructor(
+    private appointmentCheckInService: AppointmentCheckInService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * Staff record the customer's arrival
+   * POST /api/v1/appointments/:id/check-in
+   */
+  async checkIn(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const id = this.validateId(req.params.id, 'id');
+    const userId = req.user!.id;
+
+    const appointment = await this.appointmentCheckInService.checkIn(userId, id);
+
+    await this.responseHelper.success(res, 'success.appointment.checkedIn', appointment, 200, req);
+  }
+
+  /**
+   * Customer scanned the venue QR code
+   * POST /api/v1/appointments/check-in/qr
+   */
+  async checkInWithQrCode(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validatedData = qrCheckInSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const appointment = await this.appointmentCheckInService.checkInWithQrCode(userId, validatedData);
+
+    await this.responseHelper.success(res, 'success.appointment.checkedIn', appointment, 200, req);
+  }
+
+  /**
+   * Staff start the service
+   * POST /api/v1/appointments/:id/start
+   */
+  async startService(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const id = this.validateId(req.params.id, 'id');
+    const userId = req.user!.id;
+
+    const appointment = await this.appointmentCheckInService.startService(userId, id);
+
+    await this.responseHelper.success(res, 'success.appointment.started', appointment, 200, req);
+  }
+
+  /**
+   * Owner undoes a no-show
+   * POST /api/v1/appointments/:id/no-show/undo
+   */
+  async undoNoShow(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const id = this.validateId(req.params.id, 'id');
+    const userId = req.user!.id;
+
+    const appointment = await this.appointmentCheckInService.undoNoShow(userId, id);
+
+    await this.responseHelper.success(res, 'success.appointment.noShowUndone', appointment, 200, req);
+  }
+
+  /**
+   * Signed QR code to show at the venue
+   * GET /api/v1/appointments/check-in/business/:businessId/code
+   */
+  async getVenueCheckInCode(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const userId = req.user!.id;
+
+    const code = await this.appointmentCheckInService.getVenueCheckInCode(userId, businessId);
+
+    await this.responseHelper.success(res, 'success.appointment.checkInCodeRetrieved', code, 200, req);
+  }
+
+  private validateId(id: string | undefined, field: string): string {
+    if (!id || typeof id !== 'string' || id.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: `${field} is required`, params: { field } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: `Invalid ${field} format`, params: { field } });
+    }
+
+    return id;
+  }
+}
@@ -2,7 +2,11 @@ import { NextFunction, Response } from 'express';
 import { BusinessContextRequest } from '../middleware/businessContext';
 import {
   appointmentSearchSchema,
+  createAppointmentBundleSchema,
   createAppointmentSchema,
+  customerRescheduleSchema,
+  MAX_BUNDLE_ITEMS,
+  rescheduleAppointmentBundleSchema,
   updateAppointmentSchema,
 } from '../schemas/business.schemas';
 import { AppointmentService } from '../services/domain/appointment';
@@ -401,6 +405,46 @@ export class AppointmentController {
       );
   }
 
+  /**
+   * Customer moves their own appointment to another slot
+   * POST /api/v1/appointments/:id/reschedule
+   */
+  async rescheduleAppointment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const id = this.validateAppointmentId(req.params.id);
+    const validatedData = customerRescheduleSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const appointment = await this.appointmentService.rescheduleAppointment(userId, id, validatedData);
+
+    await this.responseHelper.success(res, 'success.appointment.rescheduled', appointment, 200, req);
+  }
+
+  /**
+   * Original time and every move of an appointment
+   * GET /api/v1/appointments/:id/reschedules
+   */
+  async getRescheduleHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const id = this.validateAppointmentId(req.params.id);
+    const userId = req.user!.id;
+
+    const history = await this.appointmentService.getRescheduleHistory(userId, id);
+
+    await this.responseHelper.success(res, 'success.appointment.rescheduleHistoryRetrieved', history, 200, req);
+  }
+
+  /**
+   * Status transitions, moves and notifications of an appointment, oldest first
+   * GET /api/v1/appointments/:id/timeline
+   */
+  async getAppointmentTimeline(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const id = this.validateAppointmentId(req.params.id);
+    const userId = req.user!.id;
+
+    const timeline = await this.appointmentService.getAppointmentTimeline(userId, id);
+
+    await this.responseHelper.success(res, 'success.appointment.timelineRetrieved', timeline, 200, req);
+  }
+
   async confirmAppointment(req: AuthenticatedRequest, res: Response): Promise<void> {
       const { id } = req.params;
       const userId = req.user!.id;
@@ -1172,6 +1216,74 @@ export class AppointmentController {
       );
   }
 
+  async createAppointmentBundle(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validatedData = createAppointmentBundleSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const bundle = await this.appointmentService.createAppointmentBundle(userId, validatedData);
+
+    await this.responseHelper.success(res, 'success.appointment.bundleCreated', bundle, 201, req);
+  }
+
+  async getAppointmentBundle(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const bundleId = this.validateBundleId(req.params.bundleId);
+    const userId = req.user!.id;
+
+    const bundle = await this.appointmentService.getAppointmentBundle(userId, bundleId);
+
+    await this.responseHelper.success(res, 'success.appointment.bundleRetrieved', bundle, 200, req);
+  }
+
+  async cancelAppointmentBundle(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const bundleId = this.validateBundleId(req.params.bundleId);
+    const { reason } = req.body;
+    const userId = req.user!.id;
+
+    if (reason && (typeof reason !== 'string' || reason.trim().length > 500)) {
+      throw new AppError('VALIDATION_ERROR', { message: 'Reason must be a string and not exceed 500 characters' });
+    }
+
+    const bundle = await this.appointmentService.cancelAppointmentBundle(userId, bundleId, reason);
+
+    await this.responseHelper.success(res, 'success.appointment.bundleCancelled', bundle, 200, req);
+  }
+
+  async rescheduleAppointmentBundle(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const bundleId = this.validateBundleId(req.params.bundleId);
+    const validatedData = rescheduleAppointmentBundleSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const bundle = await this.appointmentService.rescheduleAppointmentBundle(userId, bundleId, validatedData);
+
+    await this.responseHelper.success(res, 'success.appointment.bundleRescheduled', bundle, 200, req);
+  }
+
+  private validateAppointmentId(id: string | undefined): string {
+    if (!id || typeof id !== 'string' || id.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: 'Appointment ID is required', params: { field: 'id' } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: 'Invalid appointment ID format', params: { field: 'id' } });
+    }
+
+    return id;
+  }
+
+  private validateBundleId(bundleId: string | undefined): string {
+    if (!bundleId || typeof bundleId !== 'string' || bundleId.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: 'Bundle ID is required', params: { field: 'bundleId' } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(bundleId)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: 'Invalid bundle ID format', params: { field: 'bundleId' } });
+    }
+
+    return bundleId;
+  }
+
   /**
    * Get available time slots for booking (PUBLIC - no authentication required)
    * GET /api/v1/public/businesses/:businessId/available-slots
@@ -1186,7 +1298,16 @@ export class AppointmentController {
     next: NextFunction = noopNext
   ): Promise<void> {
       const { businessId } = req.params;
-      const { date, serviceId, staffId } = req.query;
+      const { date, staffId } = req.query;
+
+      // Bundles: ?serviceIds=a,b,c (ordered) and optional positional ?staffIds=x,,z
+      const serviceIds = typeof req.query.serviceIds === 'string'
+        ? req.query.serviceIds.split(',').map((id) => id.trim()).filter(Boolean)
+        : undefined;
+      const staffIds = typeof req.query.staffIds === 'string'
+        ? req.query.staffIds.split(',').map((id) => id.trim())
+        : undefined;
+      const serviceId = req.query.serviceId ?? serviceIds?.[0];
 
       // Validate required parameters
       if (!date || typeof date !== 'string') {
@@ -1197,6 +1318,10 @@ export class AppointmentController {
         throw new AppError('REQUIRED_FIELD_MISSING', { message: 'Service ID is required', params: { field: 'serviceId' } });
       }
 
+      if (serviceIds && serviceIds.length > MAX_BUNDLE_ITEMS) {
+        throw new AppError('APPOINTMENT_BUNDLE_INVALID', { message: `A bundle can contain at most ${MAX_BUNDLE_ITEMS} services` });
+      }
+
       if (!businessId || typeof businessId !== 'string') {
         throw new AppError('REQUIRED_FIELD_MISSING', { message: 'Business ID is required', params: { field: 'businessId' } });
       }
@@ -1210,6 +1335,11 @@ export class AppointmentController {
         throw new AppError('INVALID_ID_FORMAT', { message: 'Invalid service ID format', params: { field: 'serviceId' } });
       }
 
+      const holdId = req.query.holdId;
+      if (holdId !== undefined && (typeof holdId !== 'string' || !idRegex.test(holdId) || holdId.length > 50)) {
+        throw new AppError('INVALID_ID_FORMAT', { message: 'Invalid hold ID format', params: { field: 'holdId' } });
+      }
+
       if (
         staffId &&
         (typeof staffId !== 'string' ||
@@ -1220,6 +1350,12 @@ export class AppointmentController {
         throw new AppError('INVALID_ID_FORMAT', { message: 'Invalid staff ID format', params: { field: 'staffId' } });
       }
 
+      const invalidListId = [...(serviceIds || []), ...(staffIds || []).filter(Boolean)]
+        .find((id) => !idRegex.test(id) || id.length > 50);
+      if (invalidListId) {
+        throw new AppError('INVALID_ID_FORMAT', { message: 'Invalid service or staff ID format', params: { field: 'serviceIds' } });
+      }
+
       // Validate date format
       const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
       if (!dateRegex.test(date)) {
@@ -1230,6 +1366,7 @@ export class AppointmentController {
         businessId,
         date,
         serviceId,
+        serviceIds,
         staffId: staffId || 'any',
         ip: req.ip,
       });
@@ -1239,6 +1376,9 @@ export class AppointmentController {
         serviceId,
         date,
         staffId: staffId as string | undefined,
+        serviceIds,
+        staffIds,
+        holdId,
       });
 
       res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate');
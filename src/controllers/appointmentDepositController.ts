@@ -0,0 +1,57 @@
+import { Response } from 'express';
+import { payDepositSchema } from '../schemas/business.schemas';
+import { AppointmentDepositService } from '../services/domain/appointment';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Booking deposits paid through iyzico.
+ * Mounted under /api/v1/appointments/:id/deposit.
+ */
+export class AppointmentDepositController {
+  constructor(
+    private appointmentDepositService: AppointmentDepositService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * Deposit of an appointment with its refund / forfeiture state
+   * GET /api/v1/appointments/:id/deposit
+   */
+  async getDeposit(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const id = this.validateAppointmentId(req.params.id);
+    const userId = req.user!.id;
+
+    const deposit = await this.appointmentDepositService.getDeposit(userId, id);
+
+    await this.responseHelper.success(res, 'success.appointment.depositRetrieved', deposit, 200, req);
+  }
+
+  /**
+   * Customer pays the deposit of their PENDING appointment
+   * POST /api/v1/appointments/:id/deposit/pay
+   */
+  async payDeposit(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const id = this.validateAppointmentId(req.params.id);
+    const validatedData = payDepositSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const result = await this.appointmentDepositService.payDeposit(userId, id, validatedData);
+
+    await this.responseHelper.success(res, 'success.appointment.depositPaid', result, 200, req);
+  }
+
+  private validateAppointmentId(id: string | undefined): string {
+    if (!id || typeof id !== 'string' || id.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: 'Appointment ID is required', params: { field: 'id' } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: 'Invalid appointment ID format', params: { field: 'id' } });
+    }
+
+    return id;
+  }
+}
@@ -0,0 +1,100 @@
+import { Response } from 'express';
+import {
+  cancelAppointmentSeriesSchema,
+  createAppointmentSeriesSchema,
+  updateAppointmentSeriesSchema,
+} from '../schemas/business.schemas';
+import { AppointmentSeriesService } from '../services/domain/appointment';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Recurring appointment series (standing bookings).
+ * Mounted under /api/v1/appointments/series.
+ */
+export class AppointmentSeriesController {
+  constructor(
+    private appointmentSeriesService: AppointmentSeriesService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * Preview occurrences and conflicts without booking anything
+   * POST /api/v1/appointments/series/preview
+   */
+  async previewSeries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validatedData = createAppointmentSeriesSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const preview = await this.appointmentSeriesService.previewSeries(userId, validatedData);
+
+    await this.responseHelper.success(res, 'success.appointment.seriesPreviewed', preview, 200, req);
+  }
+
+  /**
+   * Create a series and book its upcoming occurrences
+   * POST /api/v1/appointments/series
+   */
+  async createSeries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validatedData = createAppointmentSeriesSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const result = await this.appointmentSeriesService.createSeries(userId, validatedData);
+
+    await this.responseHelper.success(res, 'success.appointment.seriesCreated', result, 201, req);
+  }
+
+  /**
+   * GET /api/v1/appointments/series/:seriesId
+   */
+  async getSeries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const seriesId = this.validateSeriesId(req.params.seriesId);
+    const userId = req.user!.id;
+
+    const series = await this.appointmentSeriesService.getSeries(userId, seriesId);
+
+    await this.responseHelper.success(res, 'success.appointment.seriesRetrieved', series, 200, req);
+  }
+
+  /**
+   * Edit this / this-and-following / all occurrences
+   * PUT /api/v1/appointments/series/:seriesId
+   */
+  async updateSeries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const seriesId = this.validateSeriesId(req.params.seriesId);
+    const validatedData = updateAppointmentSeriesSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const result = await this.appointmentSeriesService.updateSeries(userId, seriesId, validatedData);
+
+    await this.responseHelper.success(res, 'success.appointment.seriesUpdated', result, 200, req);
+  }
+
+  /**
+   * Cancel this / this-and-following / all occurrences
+   * POST /api/v1/appointments/series/:seriesId/cancel
+   */
+  async cancelSeries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const seriesId = this.validateSeriesId(req.params.seriesId);
+    const validatedData = cancelAppointmentSeriesSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const series = await this.appointmentSeriesService.cancelSeries(userId, seriesId, validatedData);
+
+    await this.responseHelper.success(res, 'success.appointment.seriesCancelled', series, 200, req);
+  }
+
+  private validateSeriesId(seriesId: string | undefined): string {
+    if (!seriesId || typeof seriesId !== 'string' || seriesId.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: 'Series ID is required', params: { field: 'seriesId' } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(seriesId)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: 'Invalid series ID format', params: { field: 'seriesId' } });
+    }
+
+    return seriesId;
+  }
+}
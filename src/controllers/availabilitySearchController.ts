@@ -0,0 +1,31 @@
+import { Request, Response } from 'express';
+import { firstAvailableSearchQuerySchema } from '../schemas/business.schemas';
+import { AvailabilitySearchService } from '../services/domain/appointment';
+import { ResponseHelper } from '../utils/responseHelper';
+
+/**
+ * "First available" search across days and staff for the public booking page.
+ * Mounted under /api/v1/public/businesses/:businessId/first-available.
+ */
+export class AvailabilitySearchController {
+  constructor(
+    private availabilitySearchService: AvailabilitySearchService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * GET /api/v1/public/businesses/:businessId/first-available
+   *   ?serviceId=&staffIds=a,b&from=YYYY-MM-DD&to=YYYY-MM-DD&windows=09:00-12:00,17:00-20:00&limit=5
+   */
+  async findFirstAvailable(req: Request, res: Response): Promise<void> {
+    const { businessId } = req.params;
+    const query = firstAvailableSearchQuerySchema.parse(req.query);
+
+    const result = await this.availabilitySearchService.findFirstAvailable(businessId, query);
+
+    // Cached per day on the server; the browser must not keep a stale copy
+    res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate');
+    res.setHeader('Pragma', 'no-cache');
+    await this.responseHelper.success(res, 'success.appointment.firstAvailableRetrieved', result, 200, req);
+  }
+}
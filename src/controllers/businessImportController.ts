@@ -0,0 +1,68 @@
+import { Response } from 'express';
+import { BusinessImportService } from '../services/domain/import';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequestWithFile } from '../types/request';
+import { ImportEntityType } from '../types/import';
+import { AppError } from '../types/responseTypes';
+
+const IMPORT_TYPES: ImportEntityType[] = ['customers', 'services', 'appointments'];
+
+/**
+ * Bulk import of customers, services and future appointments from CSV files.
+ * Mounted under /api/v1/imports.
+ */
+export class BusinessImportController {
+  constructor(
+    private businessImportService: BusinessImportService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * Import a CSV file, or only check it with ?dryRun=true
+   * POST /api/v1/imports/business/:businessId/:type
+   */
+  async importFile(req: AuthenticatedRequestWithFile, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const type = req.params.type as ImportEntityType;
+    if (!IMPORT_TYPES.includes(type)) {
+      throw new AppError('VALIDATION_ERROR', {
+        message: `Import type must be one of ${IMPORT_TYPES.join(', ')}`,
+        params: { field: 'type' },
+      });
+    }
+    if (!req.file) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: 'No import file provided', params: { field: 'file' } });
+    }
+    const dryRun = req.query.dryRun === 'true';
+    const userId = req.user!.id;
+
+    const report = await this.businessImportService.importFile(
+      userId,
+      businessId,
+      type,
+      req.file.buffer.toString('utf8'),
+      dryRun
+    );
+
+    await this.responseHelper.success(
+      res,
+      dryRun ? 'success.import.validated' : 'success.import.completed',
+      report,
+      200,
+      req
+    );
+  }
+
+  private validateId(id: string | undefined, field: string): string {
+    if (!id || typeof id !== 'string' || id.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: `${field} is required`, params: { field } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: `Invalid ${field} format`, params: { field } });
+    }
+
+    return id;
+  }
+}
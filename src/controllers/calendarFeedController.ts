@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import { createCalendarFeedSchema } from '../schemas/calendarFeed.schemas';
+import { CalendarFeedService } from '../services/domain/calendar';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Signed ICS subscription URLs for staff, business and customer calendars.
+ * Mounted under /api/v1/calendar-feeds.
+ */
+export class CalendarFeedController {
+  constructor(
+    private calendarFeedService: CalendarFeedService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * Create a feed and return its subscription URL
+   * POST /api/v1/calendar-feeds
+   */
+  async createFeed(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validatedData = createCalendarFeedSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const feed = await this.calendarFeedService.createFeed(userId, validatedData);
+
+    await this.responseHelper.success(res, 'success.calendarFeed.created', this.withUrl(req, feed), 201, req);
+  }
+
+  /**
+   * The caller's live feeds
+   * GET /api/v1/calendar-feeds
+   */
+  async getFeeds(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.id;
+
+    const feeds = await this.calendarFeedService.getFeeds(userId);
+
+    await this.responseHelper.success(res, 'success.calendarFeed.retrieved', {
+      feeds: feeds.map((feed) => this.withUrl(req, feed)),
+      total: feeds.length
+    }, 200, req);
+  }
+
+  /**
+   * Revoke a feed; its URL stops resolving immediately
+   * DELETE /api/v1/calendar-feeds/:feedId
+   */
+  async revokeFeed(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const feedId = this.validateId(req.params.feedId, 'feedId');
+    const userId = req.user!.id;
+
+    const feed = await this.calendarFeedService.revokeFeed(userId, feedId);
+
+    await this.responseHelper.success(res, 'success.calendarFeed.revoked', feed, 200, req);
+  }
+
+  /**
+   * The calendar itself, polled by calendar apps without a login
+   * GET /api/v1/calendar-feeds/:feedId/:signature.ics
+   */
+  async getFeedCalendar(req: Request, res: Response): Promise<void> {
+    const feedId = this.validateId(req.params.feedId, 'feedId');
+    const signature = this.validateId(req.params.signature, 'signature');
+
+    const document = await this.calendarFeedService.renderFeed(feedId, signature);
+
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="${document.filename}"`,
+      'Cache-Control': 'private, max-age=300'
+    });
+    res.status(200).send(document.body);
+  }
+
+  private withUrl<T extends { path: string }>(req: Request, feed: T): T & { url: string; webcalUrl: string } {
+    const host = req.get('host');
+    const url = `${req.protocol}://${host}${feed.path}`;
+    return { ...feed, url, webcalUrl: `webcal://${host}${feed.path}` };
+  }
+
+  private validateId(id: string | undefined, field: string): string {
+    if (!id || typeof id !== 'string' || id.length > 64) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: `${field} is required`, params: { field } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: `Invalid ${field} format`, params: { field } });
+    }
+
+    return id;
+  }
+}
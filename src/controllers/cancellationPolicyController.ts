@@ -37,6 +37,84 @@ export class CancellationPolicyController {
     await this.responseHelper.success(res, 'success.business.cancellationPoliciesUpdated', updatedPolicies, 200, req);
   }
 
+  async getReschedulePolicy(req: BusinessContextRequest, res: Response): Promise<void> {
+    const userId = req.user!.id;
+    const businessId = req.businessContext?.primaryBusinessId;
+
+    if (!businessId) {
+      throw new AppError('NO_BUSINESS_ACCESS', { message: 'Business context required' });
+    }
+
+    const policy = await this.businessService.getBusinessReschedulePolicy(userId, businessId);
+
+    await this.responseHelper.success(res, 'success.business.reschedulePolicyRetrieved', policy, 200, req);
+  }
+
+  async updateReschedulePolicy(req: BusinessContextRequest, res: Response): Promise<void> {
+    const userId = req.user!.id;
+    const businessId = req.businessContext?.primaryBusinessId;
+
+    if (!businessId) {
+      throw new AppError('NO_BUSINESS_ACCESS', { message: 'Business context required' });
+    }
+
+    const updatedPolicy = await this.businessService.updateBusinessReschedulePolicy(userId, businessId, req.body);
+
+    await this.responseHelper.success(res, 'success.business.reschedulePolicyUpdated', updatedPolicy, 200, req);
+  }
+
+  async getCheckInPolicy(req: BusinessContextRequest, res: Response): Promise<void> {
+    const userId = req.user!.id;
+    const businessId = req.businessContext?.primaryBusinessId;
+
+    if (!businessId) {
+      throw new AppError('NO_BUSINESS_ACCESS', { message: 'Business context required' });
+    }
+
+    const policy = await this.businessService.getBusinessCheckInPolicy(userId, businessId);
+
+    await this.responseHelper.success(res, 'success.business.checkInPolicyRetrieved', policy, 200, req);
+  }
+
+  async updateCheckInPolicy(req: BusinessContextRequest, res: Response): Promise<void> {
+    const userId = req.user!.id;
+    const businessId = req.businessContext?.primaryBusinessId;
+
+    if (!businessId) {
+      throw new AppError('NO_BUSINESS_ACCESS', { message: 'Business context required' });
+    }
+
+    const updatedPolicy = await this.businessService.updateBusinessCheckInPolicy(userId, businessId, req.body);
+
+    await this.responseHelper.success(res, 'success.business.checkInPolicyUpdated', updatedPolicy, 200, req);
+  }
+
+  async getApprovalPolicy(req: BusinessContextRequest, res: Response): Promise<void> {
+    const userId = req.user!.id;
+    const businessId = req.businessContext?.primaryBusinessId;
+
+    if (!businessId) {
+      throw new AppError('NO_BUSINESS_ACCESS', { message: 'Business context required' });
+    }
+
+    const policy = await this.businessService.getBusinessApprovalPolicy(userId, businessId);
+
+    await this.responseHelper.success(res, 'success.business.approvalPolicyRetrieved', policy, 200, req);
+  }
+
+  async updateApprovalPolicy(req: BusinessContextRequest, res: Response): Promise<void> {
+    const userId = req.user!.id;
+    const businessId = req.businessContext?.primaryBusinessId;
+
+    if (!businessId) {
+      throw new AppError('NO_BUSINESS_ACCESS', { message: 'Business context required' });
+    }
+
+    const updatedPolicy = await this.businessService.updateBusinessApprovalPolicy(userId, businessId, req.body);
+
+    await this.responseHelper.success(res, 'success.business.approvalPolicyUpdated', updatedPolicy, 200, req);
+  }
+
   async getCustomerPolicyStatus(req: BusinessContextRequest, res: Response): Promise<void> {
     const userId = req.user!.id;
     const businessId = req.businessContext?.primaryBusinessId;
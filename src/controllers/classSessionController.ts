@@ -0,0 +1,118 @@
+import { Response } from 'express';
+import {
+  bookClassSeatSchema,
+  cancelClassSessionSchema,
+  classSessionQuerySchema,
+  createClassSessionSchema,
+  updateClassSessionSchema,
+} from '../schemas/business.schemas';
+import { ClassSessionService } from '../services/domain/appointment';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Group classes: scheduled sessions of a group service with a seat limit.
+ * Mounted under /api/v1/classes.
+ */
+export class ClassSessionController {
+  constructor(
+    private classSessionService: ClassSessionService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * Schedule a class
+   * POST /api/v1/classes/business/:businessId
+   */
+  async createSession(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const validatedData = createClassSessionSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const session = await this.classSessionService.createSession(userId, businessId, validatedData);
+
+    await this.responseHelper.success(res, 'success.classSession.created', session, 201, req);
+  }
+
+  /**
+   * Class timetable of a business
+   * GET /api/v1/classes/business/:businessId?from=YYYY-MM-DD&to=YYYY-MM-DD
+   */
+  async getBusinessSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const filters = classSessionQuerySchema.parse(req.query);
+
+    const sessions = await this.classSessionService.getBusinessSessions(businessId, filters);
+
+    await this.responseHelper.success(res, 'success.classSession.retrieved', sessions, 200, req);
+  }
+
+  /**
+   * Class details with the roster
+   * GET /api/v1/classes/:sessionId
+   */
+  async getSession(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const sessionId = this.validateId(req.params.sessionId, 'sessionId');
+    const userId = req.user!.id;
+
+    const session = await this.classSessionService.getSession(userId, sessionId);
+
+    await this.responseHelper.success(res, 'success.classSession.retrieved', session, 200, req);
+  }
+
+  /**
+   * Change the seat limit or notes of a class
+   * PUT /api/v1/classes/:sessionId
+   */
+  async updateSession(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const sessionId = this.validateId(req.params.sessionId, 'sessionId');
+    const validatedData = updateClassSessionSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const session = await this.classSessionService.updateSession(userId, sessionId, validatedData);
+
+    await this.responseHelper.success(res, 'success.classSession.updated', session, 200, req);
+  }
+
+  /**
+   * Cancel a whole class and every booked seat
+   * POST /api/v1/classes/:sessionId/cancel
+   */
+  async cancelSession(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const sessionId = this.validateId(req.params.sessionId, 'sessionId');
+    const { reason } = cancelClassSessionSchema.parse(req.body ?? {});
+    const userId = req.user!.id;
+
+    const session = await this.classSessionService.cancelSession(userId, sessionId, reason);
+
+    await this.responseHelper.success(res, 'success.classSession.cancelled', session, 200, req);
+  }
+
+  /**
+   * Book a seat in a class
+   * POST /api/v1/classes/:sessionId/book
+   */
+  async bookSeat(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const sessionId = this.validateId(req.params.sessionId, 'sessionId');
+    const validatedData = bookClassSeatSchema.parse(req.body ?? {});
+    const userId = req.user!.id;
+
+    const appointment = await this.classSessionService.bookSeat(userId, sessionId, validatedData);
+
+    await this.responseHelper.success(res, 'success.classSession.booked', appointment, 201, req);
+  }
+
+  private validateId(id: string | undefined, field: string): string {
+    if (!id || typeof id !== 'string' || id.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: `${field} is required`, params: { field } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: `Invalid ${field} format`, params: { field } });
+    }
+
+    return id;
+  }
+}
@@ -0,0 +1,110 @@
+import { Response } from 'express';
+import { issueGiftCardsSchema, listGiftCardsSchema, redeemGiftCardSchema } from '../schemas/giftCard.schemas';
+import { GiftCardService } from '../services/domain/discount';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Gift cards and promotional vouchers of a business, and paying for appointments
+ * with them. Mounted under /api/v1/gift-cards.
+ */
+export class GiftCardController {
+  constructor(
+    private giftCardService: GiftCardService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * Issue one or more cards with generated codes
+   * POST /api/v1/gift-cards/business/:businessId
+   */
+  async issueGiftCards(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const validatedData = issueGiftCardsSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const cards = await this.giftCardService.issueGiftCards(userId, businessId, validatedData);
+
+    await this.responseHelper.success(res, 'success.giftCard.issued', cards, 201, req);
+  }
+
+  /**
+   * The business' cards, newest first; filter by ?type, ?customerId and ?isActive
+   * GET /api/v1/gift-cards/business/:businessId
+   */
+  async getBusinessGiftCards(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const filters = listGiftCardsSchema.parse(req.query);
+    const userId = req.user!.id;
+
+    const result = await this.giftCardService.getGiftCards(userId, businessId, filters);
+
+    await this.responseHelper.success(res, 'success.giftCard.retrieved', result, 200, req);
+  }
+
+  /**
+   * Balance check by code
+   * GET /api/v1/gift-cards/code/:code
+   */
+  async lookupByCode(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const code = this.validateId(req.params.code, 'code');
+    const userId = req.user!.id;
+
+    const card = await this.giftCardService.lookupByCode(userId, code);
+
+    await this.responseHelper.success(res, 'success.giftCard.retrieved', card, 200, req);
+  }
+
+  /**
+   * A card with its ledger
+   * GET /api/v1/gift-cards/:giftCardId
+   */
+  async getGiftCard(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const giftCardId = this.validateId(req.params.giftCardId, 'giftCardId');
+    const userId = req.user!.id;
+
+    const card = await this.giftCardService.getGiftCard(userId, giftCardId);
+
+    await this.responseHelper.success(res, 'success.giftCard.retrieved', card, 200, req);
+  }
+
+  /**
+   * Stop a card from being spent
+   * POST /api/v1/gift-cards/:giftCardId/void
+   */
+  async voidGiftCard(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const giftCardId = this.validateId(req.params.giftCardId, 'giftCardId');
+    const userId = req.user!.id;
+
+    const card = await this.giftCardService.voidGiftCard(userId, giftCardId);
+
+    await this.responseHelper.success(res, 'success.giftCard.voided', card, 200, req);
+  }
+
+  /**
+   * Pay for (part of) an appointment with a card
+   * POST /api/v1/gift-cards/redeem
+   */
+  async redeem(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validatedData = redeemGiftCardSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const result = await this.giftCardService.redeem(userId, validatedData);
+
+    await this.responseHelper.success(res, 'success.giftCard.redeemed', result, 200, req);
+  }
+
+  private validateId(id: string | undefined, field: string): string {
+    if (!id || typeof id !== 'string' || id.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: `${field} is required`, params: { field } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: `Invalid ${field} format`, params: { field } });
+    }
+
+    return id;
+  }
+}
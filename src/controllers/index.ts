@@ -4,6 +4,23 @@ import { ResponseHelper } from '../utils/responseHelper';
 import { BusinessTypeController } from './businessTypeController';
 import { ServiceController } from './serviceController';
 import { AppointmentController } from './appointmentController';
+import { AppointmentSeriesController } from './appointmentSeriesController';
+import { AppointmentDepositController } from './appointmentDepositController';
+import { AppointmentCheckInController } from './appointmentCheckInController';
+import { SlotHoldController } from './slotHoldController';
+import { AvailabilitySearchController } from './availabilitySearchController';
+import { WaitlistController } from './waitlistController';
+import { WalkInQueueController } from './walkInQueueController';
+import { ResourceController } from './resourceController';
+import { IntakeFormController } from './intakeFormController';
+import { SessionPackageController } from './sessionPackageController';
+import { GiftCardController } from './giftCardController';
+import { BusinessImportController } from './businessImportController';
+import { ClassSessionController } from './classSessionController';
+import { StaffTimeOffController } from './staffTimeOffController';
+import { StaffReassignmentController } from './staffReassignmentController';
+import { StaffExternalCalendarController } from './staffExternalCalendarController';
+import { CalendarFeedController } from './calendarFeedController';
 import { DiscountCodeController } from './discountCodeController';
 import { ContactController } from './contactController';
 import { NewsletterController } from './newsletterController';
@@ -35,6 +52,23 @@ export class ControllerContainer {
   public readonly businessTypeController: BusinessTypeController;
   public readonly serviceController: ServiceController;
   public readonly appointmentController: AppointmentController;
+  public readonly appointmentSeriesController: AppointmentSeriesController;
+  public readonly appointmentDepositController: AppointmentDepositController;
+  public readonly appointmentCheckInController: AppointmentCheckInController;
+  public readonly slotHoldController: SlotHoldController;
+  public readonly availabilitySearchController: AvailabilitySearchController;
+  public readonly waitlistController: WaitlistController;
+  public readonly walkInQueueController: WalkInQueueController;
+  public readonly resourceController: ResourceController;
+  public readonly intakeFormController: IntakeFormController;
+  public readonly sessionPackageController: SessionPackageController;
+  public readonly giftCardController: GiftCardController;
+  public readonly businessImportController: BusinessImportController;
+  public readonly classSessionController: ClassSessionController;
+  public readonly staffTimeOffController: StaffTimeOffController;
+  public readonly staffReassignmentController: StaffReassignmentController;
+  public readonly staffExternalCalendarController: StaffExternalCalendarController;
+  public readonly calendarFeedController: CalendarFeedController;
   public readonly userBehaviorController: UserBehaviorController;
   public readonly roleController: RoleController;
   public readonly discountCodeController: DiscountCodeController;
@@ -74,6 +108,74 @@ export class ControllerContainer {
       services.appointmentService,
       responseHelper
     );
+    this.appointmentSeriesController = new AppointmentSeriesController(
+      services.appointmentSeriesService,
+      responseHelper
+    );
+    this.appointmentDepositController = new AppointmentDepositController(
+      services.appointmentDepositService,
+      responseHelper
+    );
+    this.appointmentCheckInController = new AppointmentCheckInController(
+      services.appointmentCheckInService,
+      responseHelper
+    );
+    this.slotHoldController = new SlotHoldController(
+      services.slotHoldService,
+      responseHelper
+    );
+    this.availabilitySearchController = new AvailabilitySearchController(
+      services.availabilitySearchService,
+      responseHelper
+    );
+    this.waitlistController = new WaitlistController(
+      services.waitlistService,
+      responseHelper
+    );
+    this.walkInQueueController = new WalkInQueueController(
+      services.walkInQueueService,
+      responseHelper
+    );
+    this.resourceController = new ResourceController(
+      services.resourceService,
+      responseHelper
+    );
+    this.intakeFormController = new IntakeFormController(
+      services.intakeFormService,
+      responseHelper
+    );
+    this.sessionPackageController = new SessionPackageController(
+      services.sessionPackageService,
+      responseHelper
+    );
+    this.giftCardController = new GiftCardController(
+      services.giftCardService,
+      responseHelper
+    );
+    this.businessImportController = new BusinessImportController(
+      services.businessImportService,
+      responseHelper
+    );
+    this.classSessionController = new ClassSessionController(
+      services.classSessionService,
+      responseHelper
+    );
+    this.staffTimeOffController = new StaffTimeOffController(
+      services.staffTimeOffService,
+      responseHelper
+    );
+    this.staffReassignmentController = new StaffReassignmentController(
+      services.staffReassignmentService,
+      responseHelper
+    );
+    this.staffExternalCalendarController = new StaffExternalCalendarController(
+      services.staffExternalCalendarService,
+      responseHelper
+    );
+    this.calendarFeedController = new CalendarFeedController(
+      services.calendarFeedService,
+      responseHelper
+    );
     this.userBehaviorController = new UserBehaviorController(
       services.userBehaviorService,
       responseHelper
@@ -171,6 +273,23 @@ export {
   BusinessTypeController,
   ServiceController,
   AppointmentController,
+  AppointmentSeriesController,
+  AppointmentDepositController,
+  AppointmentCheckInController,
+  SlotHoldController,
+  AvailabilitySearchController,
+  WaitlistController,
+  WalkInQueueController,
+  ResourceController,
+  IntakeFormController,
+  SessionPackageController,
+  GiftCardController,
+  BusinessImportController,
+  ClassSessionController,
+  StaffTimeOffController,
+  StaffReassignmentController,
+  StaffExternalCalendarController,
+  CalendarFeedController,
   UserBehaviorController,
   RoleController,
   DiscountCodeController,
@@ -0,0 +1,110 @@
+import { Response } from 'express';
+import { publishIntakeFormSchema, submitIntakeAnswersSchema } from '../schemas/business.schemas';
+import { IntakeFormService } from '../services/domain/offering';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Pre-appointment intake forms of services and the answers given per appointment.
+ * Mounted under /api/v1/intake-forms.
+ */
+export class IntakeFormController {
+  constructor(
+    private intakeFormService: IntakeFormService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * The active form of a service, with the caller's reusable answers as prefill
+   * GET /api/v1/intake-forms/services/:serviceId
+   */
+  async getServiceForm(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const serviceId = this.validateId(req.params.serviceId, 'serviceId');
+    const userId = req.user!.id;
+
+    const result = await this.intakeFormService.getActiveForm(userId, serviceId);
+
+    await this.responseHelper.success(res, 'success.intakeForm.retrieved', result, 200, req);
+  }
+
+  /**
+   * Every version of a service's form
+   * GET /api/v1/intake-forms/services/:serviceId/versions
+   */
+  async getFormVersions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const serviceId = this.validateId(req.params.serviceId, 'serviceId');
+    const userId = req.user!.id;
+
+    const versions = await this.intakeFormService.getFormVersions(userId, serviceId);
+
+    await this.responseHelper.success(res, 'success.intakeForm.versionsRetrieved', versions, 200, req);
+  }
+
+  /**
+   * Publish a new version of a service's form
+   * PUT /api/v1/intake-forms/services/:serviceId
+   */
+  async publishForm(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const serviceId = this.validateId(req.params.serviceId, 'serviceId');
+    const validatedData = publishIntakeFormSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const form = await this.intakeFormService.publishForm(userId, serviceId, validatedData);
+
+    await this.responseHelper.success(res, 'success.intakeForm.published', form, 201, req);
+  }
+
+  /**
+   * Stop asking a service's intake questions
+   * DELETE /api/v1/intake-forms/services/:serviceId
+   */
+  async disableForm(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const serviceId = this.validateId(req.params.serviceId, 'serviceId');
+    const userId = req.user!.id;
+
+    await this.intakeFormService.disableForm(userId, serviceId);
+
+    await this.responseHelper.success(res, 'success.intakeForm.disabled', undefined, 200, req);
+  }
+
+  /**
+   * Intake status and answers of an appointment (customer and assigned staff only)
+   * GET /api/v1/intake-forms/appointments/:appointmentId
+   */
+  async getAppointmentIntake(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const appointmentId = this.validateId(req.params.appointmentId, 'appointmentId');
+    const userId = req.user!.id;
+
+    const intake = await this.intakeFormService.getAppointmentIntake(userId, appointmentId);
+
+    await this.responseHelper.success(res, 'success.intakeForm.answersRetrieved', intake, 200, req);
+  }
+
+  /**
+   * Answer the intake form of an upcoming appointment
+   * PUT /api/v1/intake-forms/appointments/:appointmentId
+   */
+  async submitAppointmentIntake(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const appointmentId = this.validateId(req.params.appointmentId, 'appointmentId');
+    const validatedData = submitIntakeAnswersSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const response = await this.intakeFormService.submitAppointmentIntake(userId, appointmentId, validatedData);
+
+    await this.responseHelper.success(res, 'success.intakeForm.answersSaved', response, 200, req);
+  }
+
+  private validateId(id: string | undefined, field: string): string {
+    if (!id || typeof id !== 'string' || id.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: `${field} is required`, params: { field } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: `Invalid ${field} format`, params: { field } });
+    }
+
+    return id;
+  }
+}
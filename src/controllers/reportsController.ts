@@ -519,6 +519,48 @@ export class ReportsController {
     await this.responseHelper.success(res, 'success.report.operationalRetrieved', report, 200, req);
   };
 
+  /**
+   * Get waitlist conversion report
+   * GET /api/v1/reports/waitlist
+   */
+  getWaitlistReport = async (req: GuaranteedAuthRequest, res: Response): Promise<void> => {
+    const userId = req.user.id;
+    const { businessId, startDate, endDate } = req.query;
+
+    const start = startDate ? new Date(startDate as string) : undefined;
+    const end = endDate ? new Date(endDate as string) : undefined;
+
+    const report = await this.reportsService.getWaitlistReport(
+      userId,
+      businessId as string,
+      start,
+      end
+    );
+
+    await this.responseHelper.success(res, 'success.report.waitlistRetrieved', report, 200, req);
+  };
+
+  /**
+   * Get deposits collected, refunded and forfeited
+   * GET /api/v1/reports/deposits
+   */
+  getDepositReport = async (req: GuaranteedAuthRequest, res: Response): Promise<void> => {
+    const userId = req.user.id;
+    const { businessId, startDate, endDate } = req.query;
+
+    const start = startDate ? new Date(startDate as string) : undefined;
+    const end = endDate ? new Date(endDate as string) : undefined;
+
+    const report = await this.reportsService.getDepositReport(
+      userId,
+      businessId as string,
+      start,
+      end
+    );
+
+    await this.responseHelper.success(res, 'success.report.depositsRetrieved', report, 200, req);
+  };
+
   /**
    * Get customer analytics report
    * GET /api/v1/reports/customer-analytics
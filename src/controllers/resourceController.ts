@@ -0,0 +1,116 @@
+import { Response } from 'express';
+import {
+  createResourceSchema,
+  setServiceResourcesSchema,
+  updateResourceSchema,
+} from '../schemas/business.schemas';
+import { ResourceService } from '../services/domain/offering';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Rooms, chairs and equipment shared by staff, and what each service needs.
+ * Mounted under /api/v1/resources.
+ */
+export class ResourceController {
+  constructor(
+    private resourceService: ResourceService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * List a business's resources
+   * GET /api/v1/resources/business/:businessId?activeOnly=true
+   */
+  async getBusinessResources(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const activeOnly = req.query.activeOnly === 'true';
+    const userId = req.user!.id;
+
+    const resources = await this.resourceService.getResources(userId, businessId, activeOnly);
+
+    await this.responseHelper.success(res, 'success.resource.retrieved', resources, 200, req);
+  }
+
+  /**
+   * Create a resource
+   * POST /api/v1/resources/business/:businessId
+   */
+  async createResource(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const validatedData = createResourceSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const resource = await this.resourceService.createResource(userId, businessId, validatedData);
+
+    await this.responseHelper.success(res, 'success.resource.created', resource, 201, req);
+  }
+
+  /**
+   * Update a resource (name, type, capacity, active flag)
+   * PUT /api/v1/resources/:resourceId
+   */
+  async updateResource(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const resourceId = this.validateId(req.params.resourceId, 'resourceId');
+    const validatedData = updateResourceSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const resource = await this.resourceService.updateResource(userId, resourceId, validatedData);
+
+    await this.responseHelper.success(res, 'success.resource.updated', resource, 200, req);
+  }
+
+  /**
+   * Delete a resource
+   * DELETE /api/v1/resources/:resourceId
+   */
+  async deleteResource(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const resourceId = this.validateId(req.params.resourceId, 'resourceId');
+    const userId = req.user!.id;
+
+    await this.resourceService.deleteResource(userId, resourceId);
+
+    await this.responseHelper.success(res, 'success.resource.deleted', undefined, 200, req);
+  }
+
+  /**
+   * Resources a service needs
+   * GET /api/v1/resources/services/:serviceId
+   */
+  async getServiceResources(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const serviceId = this.validateId(req.params.serviceId, 'serviceId');
+    const userId = req.user!.id;
+
+    const requirements = await this.resourceService.getServiceResources(userId, serviceId);
+
+    await this.responseHelper.success(res, 'success.resource.serviceResourcesRetrieved', requirements, 200, req);
+  }
+
+  /**
+   * Replace the resources a service needs
+   * PUT /api/v1/resources/services/:serviceId
+   */
+  async setServiceResources(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const serviceId = this.validateId(req.params.serviceId, 'serviceId');
+    const validatedData = setServiceResourcesSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const requirements = await this.resourceService.setServiceResources(userId, serviceId, validatedData);
+
+    await this.responseHelper.success(res, 'success.resource.serviceResourcesUpdated', requirements, 200, req);
+  }
+
+  private validateId(id: string | undefined, field: string): string {
+    if (!id || typeof id !== 'string' || id.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: `${field} is required`, params: { field } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: `Invalid ${field} format`, params: { field } });
+    }
+
+    return id;
+  }
+}
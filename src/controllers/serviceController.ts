@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import { OfferingService } from '../services/domain/offering';
 import { ResponseHelper } from '../utils/responseHelper';
-import { createServiceSchema, updateServiceSchema } from '../schemas/business.schemas';
+import { createServiceSchema, serviceStaffOverrideSchema, updateServiceSchema } from '../schemas/business.schemas';
 import { AuthenticatedRequest, GuaranteedAuthRequest } from '../types/request';
 import { AppError } from '../types/responseTypes';
 // Cache invalidation handled by routes, not controllers
@@ -398,6 +398,36 @@ export class ServiceController {
     await this.responseHelper.success(res, 'Assignment status retrieved', status, 200, req);
   }
 
+  async getServiceStaffOverrides(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    if (!id || typeof id !== 'string') {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: 'Service ID is required', params: { field: 'id' } });
+    }
+
+    const staff = await this.offeringService.getServiceStaffOverrides(userId, id);
+    await this.responseHelper.success(res, 'success.service.staffOverridesRetrieved', { staff }, 200, req);
+  }
+
+  async updateStaffOverride(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id, staffId } = req.params;
+    const userId = req.user!.id;
+
+    if (!id || typeof id !== 'string') {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: 'Service ID is required', params: { field: 'id' } });
+    }
+    if (!staffId || typeof staffId !== 'string') {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: 'Staff ID is required', params: { field: 'staffId' } });
+    }
+
+    // Validate request body with Zod (ZodError bubbles to global error middleware)
+    const validatedData = serviceStaffOverrideSchema.parse(req.body);
+
+    const override = await this.offeringService.updateStaffOverride(userId, id, staffId, validatedData);
+    await this.responseHelper.success(res, 'success.service.staffOverrideUpdated', override, 200, req);
+  }
+
   async toggleServiceStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
     const { id } = req.params;
     const { isActive } = req.body;
@@ -0,0 +1,104 @@
+import { Response } from 'express';
+import {
+  createSessionPackageSchema,
+  sellSessionPackageSchema,
+  updateSessionPackageSchema,
+} from '../schemas/business.schemas';
+import { SessionPackageService } from '../services/domain/offering';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Prepaid session packages of a business and the packages its customers hold.
+ * Mounted under /api/v1/session-packages.
+ */
+export class SessionPackageController {
+  constructor(
+    private sessionPackageService: SessionPackageService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * Packages the business sells; ?includeInactive=true adds the retired ones
+   * GET /api/v1/session-packages/business/:businessId
+   */
+  async getBusinessPackages(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const includeInactive = req.query.includeInactive === 'true';
+    const userId = req.user!.id;
+
+    const packages = await this.sessionPackageService.getPackages(userId, businessId, includeInactive);
+
+    await this.responseHelper.success(res, 'success.sessionPackage.retrieved', packages, 200, req);
+  }
+
+  /**
+   * Define a package
+   * POST /api/v1/session-packages/business/:businessId
+   */
+  async createPackage(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const validatedData = createSessionPackageSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const created = await this.sessionPackageService.createPackage(userId, businessId, validatedData);
+
+    await this.responseHelper.success(res, 'success.sessionPackage.created', created, 201, req);
+  }
+
+  /**
+   * Change or retire a package; packages already sold keep their terms
+   * PATCH /api/v1/session-packages/:packageId
+   */
+  async updatePackage(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const packageId = this.validateId(req.params.packageId, 'packageId');
+    const validatedData = updateSessionPackageSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const updated = await this.sessionPackageService.updatePackage(userId, packageId, validatedData);
+
+    await this.responseHelper.success(res, 'success.sessionPackage.updated', updated, 200, req);
+  }
+
+  /**
+   * Record a package bought by a customer
+   * POST /api/v1/session-packages/:packageId/sell
+   */
+  async sellPackage(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const packageId = this.validateId(req.params.packageId, 'packageId');
+    const validatedData = sellSessionPackageSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const sold = await this.sessionPackageService.sellPackage(userId, packageId, validatedData);
+
+    await this.responseHelper.success(res, 'success.sessionPackage.sold', sold, 201, req);
+  }
+
+  /**
+   * A customer's packages and credits at the business (staff, or the customer)
+   * GET /api/v1/session-packages/business/:businessId/customers/:customerId
+   */
+  async getCustomerPackages(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const customerId = this.validateId(req.params.customerId, 'customerId');
+    const userId = req.user!.id;
+
+    const balances = await this.sessionPackageService.getCustomerPackages(userId, businessId, customerId);
+
+    await this.responseHelper.success(res, 'success.sessionPackage.balanceRetrieved', balances, 200, req);
+  }
+
+  private validateId(id: string | undefined, field: string): string {
+    if (!id || typeof id !== 'string' || id.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: `${field} is required`, params: { field } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: `Invalid ${field} format`, params: { field } });
+    }
+
+    return id;
+  }
+}
@@ -0,0 +1,67 @@
+import { Response } from 'express';
+import { createSlotHoldSchema } from '../schemas/business.schemas';
+import { SlotHoldService } from '../services/domain/appointment';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Checkout holds: reserve a slot while the customer fills in the booking form.
+ * Mounted under /api/v1/appointments/holds; a hold is converted by passing its
+ * `holdId` to POST /api/v1/appointments.
+ */
+export class SlotHoldController {
+  constructor(
+    private slotHoldService: SlotHoldService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * POST /api/v1/appointments/holds
+   */
+  async createHold(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validatedData = createSlotHoldSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const hold = await this.slotHoldService.createHold(userId, validatedData);
+
+    await this.responseHelper.success(res, 'success.appointment.slotHeld', hold, 201, req);
+  }
+
+  /**
+   * GET /api/v1/appointments/holds/:holdId
+   */
+  async getHold(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const holdId = this.validateHoldId(req.params.holdId);
+    const userId = req.user!.id;
+
+    const hold = await this.slotHoldService.getHold(userId, holdId);
+
+    await this.responseHelper.success(res, 'success.appointment.slotHoldRetrieved', hold, 200, req);
+  }
+
+  /**
+   * DELETE /api/v1/appointments/holds/:holdId
+   */
+  async releaseHold(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const holdId = this.validateHoldId(req.params.holdId);
+    const userId = req.user!.id;
+
+    await this.slotHoldService.releaseHold(userId, holdId);
+
+    await this.responseHelper.success(res, 'success.appointment.slotHoldReleased', { holdId }, 200, req);
+  }
+
+  private validateHoldId(holdId: string | undefined): string {
+    if (!holdId || typeof holdId !== 'string' || holdId.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: 'Hold ID is required', params: { field: 'holdId' } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(holdId)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: 'Invalid hold ID format', params: { field: 'holdId' } });
+    }
+
+    return holdId;
+  }
+}
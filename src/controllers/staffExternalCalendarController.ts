@@ -0,0 +1,102 @@
+import { Response } from 'express';
+import {
+  createStaffExternalCalendarSchema,
+  staffExternalCalendarQuerySchema,
+  updateStaffExternalCalendarSchema,
+} from '../schemas/staff.schemas';
+import { StaffExternalCalendarService } from '../services/domain/staff';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Outside ICS calendars whose events block a staff member's time.
+ * Mounted under /api/v1/staff-calendars.
+ */
+export class StaffExternalCalendarController {
+  constructor(
+    private staffExternalCalendarService: StaffExternalCalendarService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * List external calendars of a business (own calendars only for regular staff)
+   * GET /api/v1/staff-calendars/business/:businessId?staffId=
+   */
+  async getBusinessCalendars(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const { staffId } = staffExternalCalendarQuerySchema.parse(req.query);
+    const userId = req.user!.id;
+
+    const calendars = await this.staffExternalCalendarService.getCalendars(userId, businessId, staffId);
+
+    await this.responseHelper.success(res, 'success.staffCalendar.retrieved', calendars, 200, req);
+  }
+
+  /**
+   * Upload an ICS file or register a calendar URL
+   * POST /api/v1/staff-calendars/business/:businessId
+   */
+  async addCalendar(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const validatedData = createStaffExternalCalendarSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const calendar = await this.staffExternalCalendarService.addCalendar(userId, businessId, validatedData);
+
+    await this.responseHelper.success(res, 'success.staffCalendar.created', calendar, 201, req);
+  }
+
+  /**
+   * Rename, pause or resume a calendar, or replace an uploaded file
+   * PATCH /api/v1/staff-calendars/:calendarId
+   */
+  async updateCalendar(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const calendarId = this.validateId(req.params.calendarId, 'calendarId');
+    const validatedData = updateStaffExternalCalendarSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const calendar = await this.staffExternalCalendarService.updateCalendar(userId, calendarId, validatedData);
+
+    await this.responseHelper.success(res, 'success.staffCalendar.updated', calendar, 200, req);
+  }
+
+  /**
+   * Import the calendar now
+   * POST /api/v1/staff-calendars/:calendarId/refresh
+   */
+  async refreshCalendar(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const calendarId = this.validateId(req.params.calendarId, 'calendarId');
+    const userId = req.user!.id;
+
+    const calendar = await this.staffExternalCalendarService.refreshCalendar(userId, calendarId);
+
+    await this.responseHelper.success(res, 'success.staffCalendar.imported', calendar, 200, req);
+  }
+
+  /**
+   * Remove a calendar and the busy time imported from it
+   * DELETE /api/v1/staff-calendars/:calendarId
+   */
+  async removeCalendar(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const calendarId = this.validateId(req.params.calendarId, 'calendarId');
+    const userId = req.user!.id;
+
+    await this.staffExternalCalendarService.removeCalendar(userId, calendarId);
+
+    await this.responseHelper.success(res, 'success.staffCalendar.deleted', { calendarId }, 200, req);
+  }
+
+  private validateId(id: string | undefined, field: string): string {
+    if (!id || typeof id !== 'string') {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: `${field} is required`, params: { field } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: `Invalid ${field} format`, params: { field } });
+    }
+
+    return id;
+  }
+}
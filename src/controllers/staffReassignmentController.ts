@@ -0,0 +1,61 @@
+import { Response } from 'express';
+import { applyStaffReassignmentSchema, staffReassignmentScopeSchema } from '../schemas/staff.schemas';
+import { StaffReassignmentService } from '../services/domain/staff';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Handing a removed or absent staff member's appointments to colleagues.
+ * Mounted under /api/v1/staff-reassignment.
+ */
+export class StaffReassignmentController {
+  constructor(
+    private staffReassignmentService: StaffReassignmentService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * Proposed replacement (or reschedule suggestion) for each upcoming appointment
+   * GET /api/v1/staff-reassignment/:staffId/preview?timeOffId=|startDate=&endDate=
+   */
+  async previewReassignment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const staffId = this.validateId(req.params.staffId, 'staffId');
+    const scope = staffReassignmentScopeSchema.parse(req.query);
+    const userId = req.user!.id;
+
+    const proposals = await this.staffReassignmentService.previewReassignment(userId, staffId, scope);
+
+    await this.responseHelper.success(res, 'success.staffReassignment.previewRetrieved', {
+      proposals,
+      total: proposals.length
+    }, 200, req);
+  }
+
+  /**
+   * Apply the swaps; customers nobody can take over are offered new times
+   * POST /api/v1/staff-reassignment/:staffId/apply
+   */
+  async applyReassignment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const staffId = this.validateId(req.params.staffId, 'staffId');
+    const validatedData = applyStaffReassignmentSchema.parse(req.body ?? {});
+    const userId = req.user!.id;
+
+    const result = await this.staffReassignmentService.applyReassignment(userId, staffId, validatedData);
+
+    await this.responseHelper.success(res, 'success.staffReassignment.applied', result, 200, req);
+  }
+
+  private validateId(id: string | undefined, field: string): string {
+    if (!id || typeof id !== 'string' || id.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: `${field} is required`, params: { field } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: `Invalid ${field} format`, params: { field } });
+    }
+
+    return id;
+  }
+}
@@ -0,0 +1,134 @@
+import { Response } from 'express';
+import {
+  createStaffTimeOffSchema,
+  resolveTimeOffAppointmentsSchema,
+  reviewStaffTimeOffSchema,
+  staffTimeOffQuerySchema,
+} from '../schemas/staff.schemas';
+import { StaffTimeOffService } from '../services/domain/staff';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Staff leave and partial-day absences, approved by the business owner.
+ * Mounted under /api/v1/staff-time-off.
+ */
+export class StaffTimeOffController {
+  constructor(
+    private staffTimeOffService: StaffTimeOffService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * List time off of a business (own entries only for regular staff)
+   * GET /api/v1/staff-time-off/business/:businessId?staffId=&status=&startDate=&endDate=
+   */
+  async getBusinessTimeOff(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const query = staffTimeOffQuerySchema.parse(req.query);
+    const userId = req.user!.id;
+
+    const timeOff = await this.staffTimeOffService.getTimeOff(userId, businessId, query);
+
+    await this.responseHelper.success(res, 'success.staffTimeOff.retrieved', timeOff, 200, req);
+  }
+
+  /**
+   * Request time off (approved right away when a manager creates it)
+   * POST /api/v1/staff-time-off/business/:businessId
+   */
+  async createTimeOff(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const validatedData = createStaffTimeOffSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const timeOff = await this.staffTimeOffService.createTimeOff(userId, businessId, validatedData);
+
+    await this.responseHelper.success(res, 'success.staffTimeOff.created', timeOff, 201, req);
+  }
+
+  /**
+   * Approve a pending request
+   * POST /api/v1/staff-time-off/:timeOffId/approve
+   */
+  async approveTimeOff(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const timeOffId = this.validateId(req.params.timeOffId, 'timeOffId');
+    const validatedData = reviewStaffTimeOffSchema.parse(req.body ?? {});
+    const userId = req.user!.id;
+
+    const timeOff = await this.staffTimeOffService.approveTimeOff(userId, timeOffId, validatedData);
+
+    await this.responseHelper.success(res, 'success.staffTimeOff.approved', timeOff, 200, req);
+  }
+
+  /**
+   * Reject a pending request
+   * POST /api/v1/staff-time-off/:timeOffId/reject
+   */
+  async rejectTimeOff(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const timeOffId = this.validateId(req.params.timeOffId, 'timeOffId');
+    const validatedData = reviewStaffTimeOffSchema.parse(req.body ?? {});
+    const userId = req.user!.id;
+
+    const timeOff = await this.staffTimeOffService.rejectTimeOff(userId, timeOffId, validatedData);
+
+    await this.responseHelper.success(res, 'success.staffTimeOff.rejected', timeOff, 200, req);
+  }
+
+  /**
+   * Withdraw a pending or approved entry
+   * POST /api/v1/staff-time-off/:timeOffId/cancel
+   */
+  async cancelTimeOff(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const timeOffId = this.validateId(req.params.timeOffId, 'timeOffId');
+    const userId = req.user!.id;
+
+    const timeOff = await this.staffTimeOffService.cancelTimeOff(userId, timeOffId);
+
+    await this.responseHelper.success(res, 'success.staffTimeOff.cancelled', timeOff, 200, req);
+  }
+
+  /**
+   * Appointments of the absent staff member inside the time off, with free replacements
+   * GET /api/v1/staff-time-off/:timeOffId/affected-appointments
+   */
+  async getAffectedAppointments(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const timeOffId = this.validateId(req.params.timeOffId, 'timeOffId');
+    const userId = req.user!.id;
+
+    const appointments = await this.staffTimeOffService.getAffectedAppointments(userId, timeOffId);
+
+    await this.responseHelper.success(res, 'success.staffTimeOff.affectedAppointmentsRetrieved', {
+      appointments,
+      total: appointments.length
+    }, 200, req);
+  }
+
+  /**
+   * Reassign or cancel affected appointments in bulk
+   * POST /api/v1/staff-time-off/:timeOffId/affected-appointments/resolve
+   */
+  async resolveAffectedAppointments(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const timeOffId = this.validateId(req.params.timeOffId, 'timeOffId');
+    const validatedData = resolveTimeOffAppointmentsSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const result = await this.staffTimeOffService.resolveAffectedAppointments(userId, timeOffId, validatedData);
+
+    await this.responseHelper.success(res, 'success.staffTimeOff.appointmentsResolved', result, 200, req);
+  }
+
+  private validateId(id: string | undefined, field: string): string {
+    if (!id || typeof id !== 'string' || id.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: `${field} is required`, params: { field } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: `Invalid ${field} format`, params: { field } });
+    }
+
+    return id;
+  }
+}
@@ -7,6 +7,7 @@ import { ResponseHelper } from '../utils/responseHelper';
 import { PrismaClient } from '@prisma/client';
 import { UnifiedNotificationGateway } from '../services/domain/notification/unifiedNotificationGateway';
 import { NotificationChannel } from '../types/notification';
+import { buildStatusChanges, STATUS_SNAPSHOT_SELECT } from '../repositories/appointmentStatusChangeRepository';
 
 const prisma = new PrismaClient();
 
@@ -128,14 +129,25 @@ export class UserBehaviorController {
         status: { in: ['PENDING', 'CONFIRMED'] },
         date: { gte: now }
       },
-      select: { id: true, date: true, startTime: true, service: { select: { name: true } }, business: { select: { name: true } } }
+      select: { ...STATUS_SNAPSHOT_SELECT, date: true, startTime: true, service: { select: { name: true } }, business: { select: { name: true } } }
     });
 
     if (futureAppointments.length > 0) {
-      await prisma.appointment.updateMany({
-        where: { id: { in: futureAppointments.map(a => a.id) } },
-        data: { status: 'CANCELED', canceledAt: now, cancelReason: 'İşletme tarafından engellendi' }
-      });
+      const cancelReason = 'İşletme tarafından engellendi';
+      await prisma.$transaction([
+        prisma.appointment.updateMany({
+          where: { id: { in: futureAppointments.map(a => a.id) } },
+          data: { status: 'CANCELED', canceledAt: now, cancelReason }
+        }),
+        prisma.appointmentStatusChange.createMany({
+          data: buildStatusChanges(
+            futureAppointments,
+            { status: 'CANCELED', canceledAt: now, cancelReason },
+            { channel: 'STAFF_PANEL', actorId: requestingUserId, reason: cancelReason },
+            now
+          )
+        })
+      ]);
 
       if (this.notificationGateway) {
         try {
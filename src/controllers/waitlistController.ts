@@ -0,0 +1,108 @@
+import { Response } from 'express';
+import { joinWaitlistSchema, waitlistDayQuerySchema } from '../schemas/business.schemas';
+import { WaitlistService } from '../services/domain/waitlist';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Waitlist for fully booked slots and the offers made from it.
+ * Mounted under /api/v1/waitlist.
+ */
+export class WaitlistController {
+  constructor(
+    private waitlistService: WaitlistService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * Join the waitlist for a service and date window
+   * POST /api/v1/waitlist
+   */
+  async joinWaitlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validatedData = joinWaitlistSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const entry = await this.waitlistService.joinWaitlist(userId, validatedData);
+
+    await this.responseHelper.success(res, 'success.waitlist.joined', entry, 201, req);
+  }
+
+  /**
+   * Leave the waitlist (releases a pending offer)
+   * DELETE /api/v1/waitlist/:entryId
+   */
+  async leaveWaitlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const entryId = this.validateId(req.params.entryId, 'entryId');
+    const userId = req.user!.id;
+
+    const entry = await this.waitlistService.leaveWaitlist(userId, entryId);
+
+    await this.responseHelper.success(res, 'success.waitlist.left', entry, 200, req);
+  }
+
+  /**
+   * The current user's waitlist entries with their offers
+   * GET /api/v1/waitlist/my
+   */
+  async getMyWaitlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.id;
+
+    const entries = await this.waitlistService.getMyWaitlist(userId);
+
+    await this.responseHelper.success(res, 'success.waitlist.retrieved', entries, 200, req);
+  }
+
+  /**
+   * Owner view: everyone waiting for a given day
+   * GET /api/v1/waitlist/business/:businessId?date=YYYY-MM-DD&staffId=
+   */
+  async getBusinessWaitlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const { date, staffId } = waitlistDayQuerySchema.parse(req.query);
+    const userId = req.user!.id;
+
+    const view = await this.waitlistService.getBusinessWaitlistForDay(userId, businessId, date, staffId);
+
+    await this.responseHelper.success(res, 'success.waitlist.retrieved', view, 200, req);
+  }
+
+  /**
+   * Accept a held slot and book it
+   * POST /api/v1/waitlist/offers/:offerId/accept
+   */
+  async acceptOffer(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const offerId = this.validateId(req.params.offerId, 'offerId');
+    const userId = req.user!.id;
+
+    const result = await this.waitlistService.acceptOffer(userId, offerId);
+
+    await this.responseHelper.success(res, 'success.waitlist.offerAccepted', result, 201, req);
+  }
+
+  /**
+   * Decline a held slot; the customer stays on the waitlist
+   * POST /api/v1/waitlist/offers/:offerId/decline
+   */
+  async declineOffer(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const offerId = this.validateId(req.params.offerId, 'offerId');
+    const userId = req.user!.id;
+
+    const offer = await this.waitlistService.declineOffer(userId, offerId);
+
+    await this.responseHelper.success(res, 'success.waitlist.offerDeclined', offer, 200, req);
+  }
+
+  private validateId(id: string | undefined, field: string): string {
+    if (!id || typeof id !== 'string' || id.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: `${field} is required`, params: { field } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: `Invalid ${field} format`, params: { field } });
+    }
+
+    return id;
+  }
+}
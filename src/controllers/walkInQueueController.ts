@@ -0,0 +1,142 @@
+import { Request, Response } from 'express';
+import {
+  callNextWalkInSchema,
+  convertWalkInTicketSchema,
+  createWalkInTicketSchema,
+} from '../schemas/business.schemas';
+import { WalkInQueueService } from '../services/domain/queue';
+import { ResponseHelper } from '../utils/responseHelper';
+import { AuthenticatedRequest } from '../types/request';
+import { AppError } from '../types/responseTypes';
+
+/**
+ * Walk-in queue of a business: tickets, call next, skip and convert to an appointment.
+ * Mounted under /api/v1/walk-in-queue; the display screen status is public.
+ */
+export class WalkInQueueController {
+  constructor(
+    private walkInQueueService: WalkInQueueService,
+    private responseHelper: ResponseHelper
+  ) {}
+
+  /**
+   * Add a ticket (staff) or take one (customer)
+   * POST /api/v1/walk-in-queue/business/:businessId/tickets
+   */
+  async addTicket(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const validatedData = createWalkInTicketSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const ticket = await this.walkInQueueService.addTicket(userId, businessId, validatedData);
+
+    await this.responseHelper.success(res, 'success.walkInQueue.ticketCreated', ticket, 201, req);
+  }
+
+  /**
+   * Today's queue with wait estimates
+   * GET /api/v1/walk-in-queue/business/:businessId
+   */
+  async getQueue(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const userId = req.user!.id;
+
+    const queue = await this.walkInQueueService.getQueue(userId, businessId);
+
+    await this.responseHelper.success(res, 'success.walkInQueue.retrieved', queue, 200, req);
+  }
+
+  /**
+   * Call the next customer for the caller (or the given staff member)
+   * POST /api/v1/walk-in-queue/business/:businessId/call-next
+   */
+  async callNext(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+    const validatedData = callNextWalkInSchema.parse(req.body ?? {});
+    const userId = req.user!.id;
+
+    const ticket = await this.walkInQueueService.callNext(userId, businessId, validatedData);
+
+    await this.responseHelper.success(res, 'success.walkInQueue.called', ticket, 200, req);
+  }
+
+  /**
+   * A ticket with its place in line
+   * GET /api/v1/walk-in-queue/tickets/:ticketId
+   */
+  async getTicket(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const ticketId = this.validateId(req.params.ticketId, 'ticketId');
+    const userId = req.user!.id;
+
+    const ticket = await this.walkInQueueService.getTicket(userId, ticketId);
+
+    await this.responseHelper.success(res, 'success.walkInQueue.retrieved', ticket, 200, req);
+  }
+
+  /**
+   * Skip a customer who is not there
+   * POST /api/v1/walk-in-queue/tickets/:ticketId/skip
+   */
+  async skipTicket(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const ticketId = this.validateId(req.params.ticketId, 'ticketId');
+    const userId = req.user!.id;
+
+    const ticket = await this.walkInQueueService.skipTicket(userId, ticketId);
+
+    await this.responseHelper.success(res, 'success.walkInQueue.skipped', ticket, 200, req);
+  }
+
+  /**
+   * Book an appointment starting now for the ticket
+   * POST /api/v1/walk-in-queue/tickets/:ticketId/convert
+   */
+  async convertToAppointment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const ticketId = this.validateId(req.params.ticketId, 'ticketId');
+    const validatedData = convertWalkInTicketSchema.parse(req.body ?? {});
+    const userId = req.user!.id;
+
+    const result = await this.walkInQueueService.convertToAppointment(userId, ticketId, validatedData);
+
+    await this.responseHelper.success(res, 'success.walkInQueue.converted', result, 201, req);
+  }
+
+  /**
+   * Leave the queue (customer) or take a ticket off it (staff)
+   * DELETE /api/v1/walk-in-queue/tickets/:ticketId
+   */
+  async cancelTicket(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const ticketId = this.validateId(req.params.ticketId, 'ticketId');
+    const userId = req.user!.id;
+
+    const ticket = await this.walkInQueueService.cancelTicket(userId, ticketId);
+
+    await this.responseHelper.success(res, 'success.walkInQueue.cancelled', ticket, 200, req);
+  }
+
+  /**
+   * Ticket numbers for the display screen in the shop (public)
+   * GET /api/v1/public/businesses/:businessId/walk-in-queue
+   */
+  async getPublicQueueStatus(req: Request, res: Response): Promise<void> {
+    const businessId = this.validateId(req.params.businessId, 'businessId');
+
+    const status = await this.walkInQueueService.getPublicQueueStatus(businessId);
+
+    // The screen polls; never serve it a stale queue
+    res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate');
+    await this.responseHelper.success(res, 'success.walkInQueue.retrieved', status, 200, req);
+  }
+
+  private validateId(id: string | undefined, field: string): string {
+    if (!id || typeof id !== 'string' || id.length > 50) {
+      throw new AppError('REQUIRED_FIELD_MISSING', { message: `${field} is required`, params: { field } });
+    }
+
+    const idRegex = /^[a-zA-Z0-9-_]+$/;
+    if (!idRegex.test(id)) {
+      throw new AppError('INVALID_ID_FORMAT', { message: `Invalid ${field} format`, params: { field } });
+    }
+
+    return id;
+  }
+}
@@ -17,7 +17,6 @@
 import { BaseJob } from "../base/BaseJob";
 import { AppointmentRepository } from "../../repositories/appointmentRepository";
 import logger from "../../utils/Logger/logger";
-import { getCurrentTimeInIstanbul } from "../../utils/timezoneHelper";
 
 export class AutoCompleteAppointmentsJob extends BaseJob {
     constructor(
@@ -31,7 +30,7 @@ export class AutoCompleteAppointmentsJob extends BaseJob {
     }
 
     async execute(): Promise<void> {
-        const now = getCurrentTimeInIstanbul();
+        const now = new Date();
 
         // Find appointments that need to be auto-completed
         const appointments = await this.appointmentRepository
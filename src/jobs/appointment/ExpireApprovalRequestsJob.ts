@@ -0,0 +1,41 @@
+/**
+ * ExpireApprovalRequestsJob
+ *
+ * Background job that handles approval requests nobody decided on in time.
+ *
+ * This job:
+ * - Runs every five minutes
+ * - Only looks at businesses whose approval policy has a timeout
+ * - Rejects overdue requests, or escalates them to the owner once, depending on the policy
+ * - Tells the customer about a rejection and releases the slot like a manual rejection
+ * - Is idempotent (safe to run multiple times)
+ */
+
+import { BaseJob } from "../base/BaseJob";
+import { AppointmentApprovalService } from "../../services/domain/appointment/appointmentApprovalService";
+import logger from "../../utils/Logger/logger";
+
+export class ExpireApprovalRequestsJob extends BaseJob {
+    constructor(
+        private readonly appointmentApprovalService: AppointmentApprovalService
+    ) {
+        super();
+    }
+
+    getName(): string {
+        return "appointment_approvals_expire";
+    }
+
+    async execute(): Promise<void> {
+        const result = await this.appointmentApprovalService.processOverdueApprovals();
+
+        if (result.escalated === 0 && result.rejected === 0) {
+            logger.debug(`📋 No overdue approval requests (${result.candidates} awaiting approval)`);
+            return;
+        }
+
+        logger.info(
+            `✅ Escalated ${result.escalated} and rejected ${result.rejected} overdue approval requests`
+        );
+    }
+}
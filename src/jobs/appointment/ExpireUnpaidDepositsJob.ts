@@ -0,0 +1,46 @@
+/**
+ * ExpireUnpaidDepositsJob
+ *
+ * Background job that frees slots held by bookings whose deposit was never paid.
+ *
+ * This job:
+ * - Runs every minute
+ * - Closes PENDING deposits whose payment window has passed
+ * - Cancels the still-PENDING appointment (cancelledBy SYSTEM) and releases the slot to the waitlist
+ * - Skips deposits a customer is paying right now
+ * - Recovers deposits left PROCESSING by a payment or refund that never finished
+ * - Is idempotent (safe to run multiple times)
+ */
+
+import { BaseJob } from "../base/BaseJob";
+import { AppointmentDepositService } from "../../services/domain/appointment/appointmentDepositService";
+import logger from "../../utils/Logger/logger";
+
+export class ExpireUnpaidDepositsJob extends BaseJob {
+    constructor(
+        private readonly appointmentDepositService: AppointmentDepositService
+    ) {
+        super();
+    }
+
+    getName(): string {
+        return "appointment_deposits_expire";
+    }
+
+    async execute(): Promise<void> {
+        const result = await this.appointmentDepositService.expireUnpaidDeposits();
+
+        if (result.recovered > 0) {
+            logger.warn(`⚠️ Recovered ${result.recovered} deposits stuck in PROCESSING`);
+        }
+
+        if (result.expired === 0) {
+            logger.debug("💳 No unpaid deposits to expire");
+            return;
+        }
+
+        logger.info(
+            `✅ Expired ${result.expired} unpaid deposits and released ${result.released} appointments`
+        );
+    }
+}
@@ -0,0 +1,41 @@
+/**
+ * ExpireWaitlistOffersJob
+ *
+ * Background job that moves unanswered waitlist offers along.
+ *
+ * This job:
+ * - Runs every minute
+ * - Expires PENDING offers whose hold time has passed (the slot is no longer held)
+ * - Puts the customer back in line and offers the same slot to the next matching entry
+ * - Closes WAITING entries whose date window has ended
+ * - Is idempotent (safe to run multiple times)
+ */
+
+import { BaseJob } from "../base/BaseJob";
+import { WaitlistService } from "../../services/domain/waitlist/waitlistService";
+import logger from "../../utils/Logger/logger";
+
+export class ExpireWaitlistOffersJob extends BaseJob {
+    constructor(
+        private readonly waitlistService: WaitlistService
+    ) {
+        super();
+    }
+
+    getName(): string {
+        return "waitlist_offers_expire";
+    }
+
+    async execute(): Promise<void> {
+        const result = await this.waitlistService.expireOffers();
+
+        if (result.expiredOffers === 0 && result.expiredEntries === 0) {
+            logger.debug("📋 No waitlist offers to expire");
+            return;
+        }
+
+        logger.info(
+            `✅ Expired ${result.expiredOffers} waitlist offers (${result.reoffered} re-offered) and ${result.expiredEntries} entries`
+        );
+    }
+}
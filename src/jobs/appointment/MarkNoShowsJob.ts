@@ -0,0 +1,39 @@
+/**
+ * MarkNoShowsJob
+ *
+ * Background job that marks appointments nobody checked in for as NO_SHOW.
+ *
+ * This job:
+ * - Runs every minute
+ * - Only looks at businesses that track no-shows in their check-in policy
+ * - Marks CONFIRMED appointments without a check-in once the grace period after their start has passed
+ * - Adds the customer's strike and applies the cancellation policy like a no-show marked by staff
+ * - Is idempotent (safe to run multiple times)
+ */
+
+import { BaseJob } from "../base/BaseJob";
+import { AppointmentCheckInService } from "../../services/domain/appointment/appointmentCheckInService";
+import logger from "../../utils/Logger/logger";
+
+export class MarkNoShowsJob extends BaseJob {
+    constructor(
+        private readonly appointmentCheckInService: AppointmentCheckInService
+    ) {
+        super();
+    }
+
+    getName(): string {
+        return "appointment_no_show_mark";
+    }
+
+    async execute(): Promise<void> {
+        const result = await this.appointmentCheckInService.markMissedAppointments();
+
+        if (result.marked === 0) {
+            logger.debug(`📋 No appointments to mark as no-show (${result.candidates} awaiting check-in)`);
+            return;
+        }
+
+        logger.info(`✅ Marked ${result.marked} appointments as no-show`);
+    }
+}
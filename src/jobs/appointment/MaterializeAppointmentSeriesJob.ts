@@ -0,0 +1,42 @@
+/**
+ * MaterializeAppointmentSeriesJob
+ *
+ * Background job that keeps recurring appointment series booked ahead.
+ *
+ * This job:
+ * - Runs once a day
+ * - Finds ACTIVE series whose materialised window ends before today + horizon
+ * - Writes the next occurrences as regular appointments (reminders pick them up as usual)
+ * - Skips and logs dates that hit a closure, special day, off-hours or an existing booking
+ * - Marks a series ENDED once its COUNT/UNTIL has been fully materialised
+ * - Is idempotent (safe to run multiple times)
+ */
+
+import { BaseJob } from "../base/BaseJob";
+import { AppointmentSeriesService } from "../../services/domain/appointment/appointmentSeriesService";
+import logger from "../../utils/Logger/logger";
+
+export class MaterializeAppointmentSeriesJob extends BaseJob {
+    constructor(
+        private readonly appointmentSeriesService: AppointmentSeriesService
+    ) {
+        super();
+    }
+
+    getName(): string {
+        return "appointment_series_materialize";
+    }
+
+    async execute(): Promise<void> {
+        const result = await this.appointmentSeriesService.materializeDueSeries();
+
+        if (result.processed === 0) {
+            logger.debug("📋 No appointment series to materialize");
+            return;
+        }
+
+        logger.info(
+            `✅ Materialized ${result.created} series occurrences across ${result.processed} series (${result.conflicts} skipped)`
+        );
+    }
+}
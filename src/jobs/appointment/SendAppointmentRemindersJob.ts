@@ -19,7 +19,6 @@ import { NotificationService } from "../../services/domain/notification";
 import { AppointmentService } from "../../services/domain/appointment/appointmentService";
 import { BusinessService } from "../../services/domain/business";
 import { UpcomingAppointment, AppointmentStatus, NotificationChannel } from "../../types/business";
-import { getCurrentTimeInIstanbul } from "../../utils/timezoneHelper";
 import redisClient from "../../services/redis-client";
 import logger from "../../utils/Logger/logger";
 
@@ -57,7 +56,7 @@ export class SendAppointmentRemindersJob extends BaseJob {
     }
 
     private async processAppointmentReminders(): Promise<void> {
-        const now = getCurrentTimeInIstanbul();
+        const now = new Date();
 
         logger.info(`🔍 Checking for appointment reminders at ${now.toLocaleTimeString()}`);
 
@@ -184,13 +183,13 @@ export class SendAppointmentRemindersJob extends BaseJob {
         }
 
         // Check business quiet hours
-        if (businessSettings.quietHours && this.isInBusinessQuietHours(getCurrentTimeInIstanbul(), businessSettings.quietHours, businessSettings.timezone)) {
+        if (businessSettings.quietHours && this.isInBusinessQuietHours(new Date(), businessSettings.quietHours, businessSettings.timezone)) {
             logger.info(`⏭️ Current time is within business quiet hours for appointment ${appointment.id}`);
             return [];
         }
 
         // Check user quiet hours (if any)
-        if (userPreferences?.quietHours && this.isInQuietHours(getCurrentTimeInIstanbul(), userPreferences.quietHours, userPreferences.timezone)) {
+        if (userPreferences?.quietHours && this.isInQuietHours(new Date(), userPreferences.quietHours, userPreferences.timezone)) {
             logger.info(`⏭️ Current time is within user quiet hours for appointment ${appointment.id}`);
             return [];
         }
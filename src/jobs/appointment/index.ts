@@ -6,3 +6,8 @@
 
 export { AutoCompleteAppointmentsJob } from "./AutoCompleteAppointmentsJob";
 export { SendAppointmentRemindersJob } from "./SendAppointmentRemindersJob";
+export { MaterializeAppointmentSeriesJob } from "./MaterializeAppointmentSeriesJob";
+export { ExpireWaitlistOffersJob } from "./ExpireWaitlistOffersJob";
+export { ExpireUnpaidDepositsJob } from "./ExpireUnpaidDepositsJob";
+export { ExpireApprovalRequestsJob } from "./ExpireApprovalRequestsJob";
+export { MarkNoShowsJob } from "./MarkNoShowsJob";
@@ -6,4 +6,5 @@
 
 export * from "./base";
 export * from "./appointment";
+export * from "./staff";
 export * from "./user";
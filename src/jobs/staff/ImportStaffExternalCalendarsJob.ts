@@ -0,0 +1,41 @@
+/**
+ * ImportStaffExternalCalendarsJob
+ *
+ * Background job that keeps busy time imported from staff members' outside calendars fresh.
+ *
+ * This job:
+ * - Runs every 15 minutes
+ * - Re-imports active calendars that were not imported within the last hour
+ * - Fetches URL calendars again and re-expands uploaded files over the moving window
+ * - Records failures on the calendar and keeps its last imported busy time
+ * - Is idempotent (safe to run multiple times)
+ */
+
+import { BaseJob } from "../base/BaseJob";
+import { StaffExternalCalendarService } from "../../services/domain/staff/staffExternalCalendarService";
+import logger from "../../utils/Logger/logger";
+
+export class ImportStaffExternalCalendarsJob extends BaseJob {
+    constructor(
+        private readonly staffExternalCalendarService: StaffExternalCalendarService
+    ) {
+        super();
+    }
+
+    getName(): string {
+        return "staff_external_calendars_import";
+    }
+
+    async execute(): Promise<void> {
+        const result = await this.staffExternalCalendarService.importDueCalendars();
+
+        if (result.imported === 0 && result.failed === 0) {
+            logger.debug("📅 No external calendars due for import");
+            return;
+        }
+
+        logger.info(
+            `✅ Imported ${result.imported} external calendars (${result.failed} failed)`
+        );
+    }
+}
@@ -0,0 +1,7 @@
+/**
+ * Staff Jobs
+ *
+ * Exports all staff-related background jobs.
+ */
+
+export { ImportStaffExternalCalendarsJob } from "./ImportStaffExternalCalendarsJob";
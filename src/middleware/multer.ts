@@ -41,6 +41,39 @@ export const uploadSingleImage = upload.single('image');
 // Export middleware for multiple images (gallery)
 export const uploadMultipleImages = upload.array('images', 10); // Max 10 images for gallery
 
+// Bulk imports read CSV exports; Excel workbooks have to be saved as CSV first
+const spreadsheetFileFilter = (
+  req: Request,
+  file: any,
+  cb: any
+) => {
+  const allowedMimeTypes = [
+    'text/csv',
+    'text/plain',
+    'text/tab-separated-values',
+    'application/csv',
+    'application/vnd.ms-excel' // What Windows reports for .csv files
+  ];
+
+  if (allowedMimeTypes.includes(file.mimetype) || /\.(csv|tsv|txt)$/i.test(file.originalname)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Only CSV files are allowed; save Excel sheets as CSV.'));
+  }
+};
+
+const spreadsheetUpload = multer({
+  storage,
+  fileFilter: spreadsheetFileFilter,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+    files: 1,
+  },
+});
+
+// Export middleware for a single CSV upload (bulk imports)
+export const uploadSingleSpreadsheet = spreadsheetUpload.single('file');
+
 // Error handling middleware for multer
 export const handleMulterError = (
   error: any,
@@ -67,7 +100,7 @@ export const handleMulterError = (
       return res.status(400).json({
         success: false,
         error: 'UNEXPECTED_FIELD',
-        message: 'Unexpected field name. Use "image" for single uploads or "images" for multiple.'
+        message: 'Unexpected field name. Use "image" for single uploads, "images" for multiple or "file" for imports.'
       });
     }
   }
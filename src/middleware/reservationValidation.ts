@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { BusinessRepository } from '../repositories/businessRepository';
 import { AppointmentRepository } from '../repositories/appointmentRepository';
+import { ServiceRepository } from '../repositories/serviceRepository';
 import { PrismaClient, AppointmentStatus } from '@prisma/client';
 import {
   ReservationSettings, 
@@ -10,7 +11,27 @@ import {
   ReservationValidationError
 } from '../types/reservationSettings';
 import logger from "../utils/Logger/logger";
-import { createDateTimeInIstanbul, getCurrentTimeInIstanbul } from "../utils/timezoneHelper";
+import {
+  createCalendarDate,
+  createDateTimeInTimezone,
+  formatDateInTimezone,
+  getCalendarDaysBetween,
+  isValidDateString,
+  resolveTimezone
+} from "../utils/timezoneHelper";
+import {
+  BookingWindowService,
+  BookingWindowViolation,
+  checkBookingWindow,
+  resolveBookingWindow
+} from '../services/domain/appointment/bookingWindow';
+
+const BOOKING_WINDOW_ERRORS: Record<BookingWindowViolation['code'], { code: string; key: string }> = {
+  APPOINTMENT_TOO_FAR_FUTURE: { code: 'MAX_ADVANCE_BOOKING_EXCEEDED', key: 'errors.appointment.tooFarFuture' },
+  APPOINTMENT_NOT_YET_RELEASED: { code: 'APPOINTMENT_NOT_YET_RELEASED', key: 'errors.appointment.notYetReleased' },
+  APPOINTMENT_INSUFFICIENT_ADVANCE: { code: 'MIN_NOTIFICATION_PERIOD_NOT_MET', key: 'errors.appointment.insufficientAdvance' }
+};
+
 export interface ReservationValidationRequest extends Request {
   businessId?: string;
   date?: Date;
@@ -20,10 +41,30 @@ export interface ReservationValidationRequest extends Request {
 export class ReservationValidationMiddleware {
   private businessRepository: BusinessRepository;
   private appointmentRepository: AppointmentRepository;
+  private serviceRepository: ServiceRepository;
 
   constructor(prisma: PrismaClient) {
     this.businessRepository = new BusinessRepository(prisma);
     this.appointmentRepository = new AppointmentRepository(prisma);
+    this.serviceRepository = new ServiceRepository(prisma);
+  }
+
+  /**
+   * Services named in a booking body (`serviceId`, or the `items` of a bundle) that belong
+   * to the business; unknown ones are left for the service layer to reject.
+   */
+  private async findBookedServices(
+    businessId: string,
+    body: { serviceId?: unknown; items?: unknown }
+  ): Promise<BookingWindowService[]> {
+    const ids = Array.isArray(body.items)
+      ? body.items.map((item: { serviceId?: unknown }) => item?.serviceId)
+      : [body.serviceId];
+    const services = await Promise.all(
+      ids.filter((id): id is string => typeof id === 'string' && id !== '')
+        .map((id) => this.serviceRepository.findById(id))
+    );
+    return services.filter((service) => service?.businessId === businessId) as BookingWindowService[];
   }
 
   /**
@@ -65,70 +106,48 @@ export class ReservationValidationMiddleware {
         maxDailyAppointments: reservationSettings?.maxDailyAppointments || 50
       };
 
-      // Use same Istanbul wall-clock semantics as AppointmentService (not Date-only UTC parse)
+      // Same wall-clock semantics as AppointmentService: the business's own timezone
+      const timezone = resolveTimezone(business.timezone);
       const dateStr = typeof date === 'string' ? date.trim().slice(0, 10) : String(date);
       const timeStr = String(startTime).trim().slice(0, 5);
-      const appointmentDateTime = createDateTimeInIstanbul(dateStr, timeStr);
-      const now = getCurrentTimeInIstanbul();
+      const appointmentDateTime = createDateTimeInTimezone(dateStr, timeStr, timezone);
+      const now = new Date();
 
-      // 1. Check maximum advance booking days (calendar days, today = day 0)
-      const todayMid = new Date(now); todayMid.setHours(0, 0, 0, 0);
-      const apptMid = new Date(appointmentDateTime); apptMid.setHours(0, 0, 0, 0);
-      const daysDifference = Math.round((apptMid.getTime() - todayMid.getTime()) / (1000 * 60 * 60 * 24));
-      
-      if (daysDifference > rules.maxAdvanceBookingDays) {
-        const message = `Cannot book more than ${rules.maxAdvanceBookingDays} days in advance`;
-        res.status(400).json({
-          success: false,
-          message,
-          error: {
-            code: 'MAX_ADVANCE_BOOKING_EXCEEDED',
-            key: 'errors.appointment.tooFarFuture',
-            message,
-            params: { maxDays: rules.maxAdvanceBookingDays },
-            details: {
-              requestedDays: daysDifference,
-              maxAllowed: rules.maxAdvanceBookingDays
-            }
-          }
-        });
-        return;
-      }
+      // 1-2. Horizon (calendar days, today = day 0), release schedule and lead time;
+      // the booked services' own values override the business's
+      const bookingWindow = resolveBookingWindow(
+        await this.findBookedServices(businessId, req.body),
+        rules
+      );
+      const violation = checkBookingWindow(bookingWindow, appointmentDateTime, now, timezone);
 
-      // 2. Check minimum notification period
-      const hoursDifference = (appointmentDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-      
-      if (hoursDifference < rules.minNotificationHours) {
-        const message = `Appointment must be booked at least ${rules.minNotificationHours} hours in advance`;
+      if (violation) {
+        const { code, key } = BOOKING_WINDOW_ERRORS[violation.code];
         res.status(400).json({
           success: false,
-          message,
+          message: violation.message,
           error: {
-            code: 'MIN_NOTIFICATION_PERIOD_NOT_MET',
-            key: 'errors.appointment.insufficientAdvance',
-            message,
-            params: { minHours: rules.minNotificationHours },
+            code,
+            key,
+            message: violation.message,
+            params: violation.params,
             details: {
-              requestedHours: Math.round(hoursDifference * 100) / 100,
-              minRequired: rules.minNotificationHours
+              requestedDays: getCalendarDaysBetween(formatDateInTimezone(now, timezone), dateStr),
+              requestedHours: Math.round((appointmentDateTime.getTime() - now.getTime()) / (1000 * 60 * 60) * 100) / 100
             }
           }
         });
         return;
       }
 
-      // 3. Check maximum daily appointments
-      const dateStart = new Date(appointmentDateTime);
-      dateStart.setHours(0, 0, 0, 0);
-
-      const dateEnd = new Date(appointmentDateTime);
-      dateEnd.setHours(23, 59, 59, 999);
+      // 3. Check maximum daily appointments (Appointment.date holds the business's calendar day)
+      const appointmentDate = createCalendarDate(dateStr);
 
       const existingAppointmentsCount = await this.appointmentRepository.getAppointmentsCount({
         businessId,
         date: {
-          gte: dateStart,
-          lte: dateEnd
+          gte: appointmentDate,
+          lte: appointmentDate
         },
         status: {
           not: AppointmentStatus.CANCELED
@@ -148,7 +167,7 @@ export class ReservationValidationMiddleware {
             details: {
               currentCount: existingAppointmentsCount,
               maxAllowed: rules.maxDailyAppointments,
-              date: dateStart.toISOString().split('T')[0]
+              date: dateStr
             }
           }
         });
@@ -197,13 +216,21 @@ export class ReservationValidationMiddleware {
 
       const settings = (business.settings as BusinessSettings) || {};
       const reservationSettings = settings.reservationSettings;
-      const maxAdvanceBookingDays = reservationSettings?.maxAdvanceBookingDays || 30;
+      // The service's own horizon replaces the business's
+      const [service] = await this.findBookedServices(businessId, req.body);
+      const maxAdvanceBookingDays = resolveBookingWindow(service ? [service] : [], reservationSettings).maxAdvanceDays;
 
+      // A plain YYYY-MM-DD is the business's calendar day; a full datetime is an instant
+      const timezone = resolveTimezone(business.timezone);
       const dateTime = new Date(date);
-      const now = new Date();
-      const todayMid2 = new Date(now); todayMid2.setHours(0, 0, 0, 0);
-      const dateMid = new Date(dateTime); dateMid.setHours(0, 0, 0, 0);
-      const daysDifference = Math.round((dateMid.getTime() - todayMid2.getTime()) / (1000 * 60 * 60 * 24));
+      const dateStr = isValidDateString(String(date))
+        ? String(date)
+        : isNaN(dateTime.getTime()) ? null : formatDateInTimezone(dateTime, timezone);
+      if (!dateStr) {
+        next();
+        return;
+      }
+      const daysDifference = getCalendarDaysBetween(formatDateInTimezone(new Date(), timezone), dateStr);
       
       if (daysDifference > maxAdvanceBookingDays) {
         const message = `Cannot book more than ${maxAdvanceBookingDays} days in advance`;
@@ -0,0 +1,93 @@
+import { PaymentStatus, Prisma, PrismaClient } from '@prisma/client';
+import { AppointmentDepositData } from '../types/deposit';
+import { PaymentStatus as DomainPaymentStatus } from '../types/business';
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+export class AppointmentPaymentRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(
+    data: Prisma.appointment_paymentsUncheckedCreateInput,
+    client: Client = this.prisma
+  ): Promise<AppointmentDepositData> {
+    const result = await client.appointment_payments.create({ data });
+    return this.mapToDepositData(result);
+  }
+
+  /** Latest deposit of an appointment; failed attempts are retried on the same row */
+  async findByAppointment(appointmentId: string, client: Client = this.prisma): Promise<AppointmentDepositData | null> {
+    const result = await client.appointment_payments.findFirst({
+      where: { appointmentId },
+      orderBy: { createdAt: 'desc' }
+    });
+    return result ? this.mapToDepositData(result) : null;
+  }
+
+  async update(
+    id: string,
+    data: Prisma.appointment_paymentsUncheckedUpdateInput
+  ): Promise<AppointmentDepositData> {
+    const result = await this.prisma.appointment_payments.update({ where: { id }, data });
+    return this.mapToDepositData(result);
+  }
+
+  /**
+   * Moves a deposit out of `from` only if it is still there, so two requests
+   * cannot charge or refund the same deposit. Returns false when another
+   * request got there first.
+   */
+  async transition(
+    id: string,
+    from: PaymentStatus,
+    data: Prisma.appointment_paymentsUncheckedUpdateInput
+  ): Promise<boolean> {
+    const result = await this.prisma.appointment_payments.updateMany({
+      where: { id, status: from },
+      data
+    });
+    return result.count === 1;
+  }
+
+  /** Unpaid deposits whose payment window has passed */
+  async findExpiredPending(now: Date): Promise<AppointmentDepositData[]> {
+    const result = await this.prisma.appointment_payments.findMany({
+      where: { status: PaymentStatus.PENDING, expiresAt: { lt: now } },
+      orderBy: { expiresAt: 'asc' },
+      take: 100
+    });
+    return result.map(payment => this.mapToDepositData(payment));
+  }
+
+  /** Deposits claimed for a charge or refund that have not moved since `before` */
+  async findStaleProcessing(before: Date): Promise<AppointmentDepositData[]> {
+    const result = await this.prisma.appointment_payments.findMany({
+      where: { status: PaymentStatus.PROCESSING, updatedAt: { lt: before } },
+      orderBy: { updatedAt: 'asc' },
+      take: 100
+    });
+    return result.map(payment => this.mapToDepositData(payment));
+  }
+
+  private mapToDepositData(result: Prisma.appointment_paymentsGetPayload<object>): AppointmentDepositData {
+    return {
+      id: result.id,
+      appointmentId: result.appointmentId,
+      businessId: result.businessId,
+      amount: Number(result.amount),
+      currency: result.currency,
+      status: result.status as DomainPaymentStatus,
+      paymentMethod: result.paymentMethod,
+      providerPaymentId: result.providerPaymentId || undefined,
+      paidAt: result.paidAt || undefined,
+      expiresAt: result.expiresAt || undefined,
+      refundedAmount: Number(result.refundedAmount),
+      refundedAt: result.refundedAt || undefined,
+      forfeitedAmount: Number(result.forfeitedAmount),
+      forfeitedAt: result.forfeitedAt || undefined,
+      failureReason: result.failureReason || undefined,
+      createdAt: result.createdAt,
+      updatedAt: result.updatedAt
+    };
+  }
+}
@@ -15,8 +15,32 @@ import {
   StaffDisplayInfo,
   FilteredAppointmentData
 } from '../types/businessSettings';
-import { createDateTimeInIstanbul, getCurrentTimeInIstanbul, createDateRangeFilter, formatDateForAPI } from '../utils/timezoneHelper';
-import { ACTIVE_APPOINTMENT_STATUSES } from '../constants/appointmentStatus';
+import { AppointmentBundleData, AppointmentChangeActor } from '../types/appointment';
+import {
+  createCalendarDate,
+  createDateTimeInTimezone,
+  formatDateInTimezone,
+  getCurrentTimeInIstanbul,
+  createDateRangeFilter,
+  resolveTimezone
+} from '../utils/timezoneHelper';
+import { ACTIVE_APPOINTMENT_STATUSES, deriveBundleStatus } from '../constants/appointmentStatus';
+import { buildStatusChanges, STATUS_SNAPSHOT_SELECT } from './appointmentStatusChangeRepository';
+import { spendCompletedCredits } from './sessionPackageRepository';
+
+// Businesses tracking no-shows start and end appointments through check-in, not the clock
+const NOT_TRACKING_CHECK_INS: Prisma.AppointmentWhereInput = {
+  NOT: { business: { settings: { path: ['checkInPolicy', 'trackNoShows'], equals: true } } }
+};
+
+// Nobody arrived yet at a tracking business: left for the no-show job instead of auto-completion
+const NOT_AWAITING_CHECK_IN: Prisma.AppointmentWhereInput = {
+  OR: [
+    { checkedInAt: { not: null } },
+    { actualStartTime: { not: null } },
+    NOT_TRACKING_CHECK_INS
+  ]
+};
 
 export class AppointmentRepository {
   constructor(private prisma: PrismaClient) { }
@@ -128,6 +152,20 @@ export class AppointmentRepository {
       cancelledBy: result.cancelledBy || null,
       bookedAt: result.bookedAt,
       reminderSent: result.reminderSent,
+      bundleId: result.bundleId || undefined,
+      bundleSequence: result.bundleSequence ?? undefined,
+      seriesId: result.seriesId || undefined,
+      classSessionId: result.classSessionId || undefined,
+      checkedInAt: result.checkedInAt || undefined,
+      checkInMethod: result.checkInMethod || undefined,
+      actualStartTime: result.actualStartTime || undefined,
+      actualEndTime: result.actualEndTime || undefined,
+      noShowMarkedAt: result.noShowMarkedAt || undefined,
+      noShowSource: result.noShowSource || undefined,
+      noShowReversedAt: result.noShowReversedAt || undefined,
+      approvalRule: result.approvalRule || undefined,
+      approvalRequestedAt: result.approvalRequestedAt || undefined,
+      approvalEscalatedAt: result.approvalEscalatedAt || undefined,
       createdAt: result.createdAt,
       updatedAt: result.updatedAt
     };
@@ -170,14 +208,15 @@ export class AppointmentRepository {
 
   async create(customerId: string, data: CreateAppointmentRequest): Promise<AppointmentData> {
     const service = await this.prisma.service.findUnique({
-      where: { id: data.serviceId }
+      where: { id: data.serviceId },
+      include: { business: { select: { timezone: true } } }
     });
 
     if (!service) {
       throw new Error('Service not found');
     }
 
-    const startDateTime = createDateTimeInIstanbul(data.date, data.startTime);
+    const startDateTime = createDateTimeInTimezone(data.date, data.startTime, resolveTimezone(service.business.timezone));
     const endDateTime = new Date(startDateTime.getTime() + service.duration * 60000);
     const appointmentId = `apt_${randomUUID()}`;
 
@@ -188,7 +227,7 @@ export class AppointmentRepository {
         serviceId: data.serviceId,
         staffId: data.staffId,
         customerId,
-        date: createDateTimeInIstanbul(data.date, '00:00'),
+        date: createCalendarDate(data.date),
         startTime: startDateTime,
         endTime: endDateTime,
         duration: service.duration,
@@ -462,20 +501,16 @@ export class AppointmentRepository {
     if (filters?.status) {
       whereClause.status = filters.status;
     }
+    // `date` holds the business's calendar day at UTC midnight
     if (filters?.date) {
-      const startOfDay = createDateTimeInIstanbul(filters.date, '00:00');
-      const endOfDay = createDateTimeInIstanbul(filters.date, '23:59');
-      whereClause.date = {
-        gte: startOfDay,
-        lte: endOfDay
-      };
+      whereClause.date = createCalendarDate(filters.date);
     } else if (filters?.startDate || filters?.endDate) {
       const dateFilter: Record<string, Date> = {};
       if (filters.startDate) {
-        dateFilter.gte = createDateTimeInIstanbul(filters.startDate, '00:00');
+        dateFilter.gte = createCalendarDate(filters.startDate);
       }
       if (filters.endDate) {
-        dateFilter.lte = createDateTimeInIstanbul(filters.endDate, '23:59');
+        dateFilter.lte = createCalendarDate(filters.endDate);
       }
       whereClause.date = dateFilter;
     }
@@ -638,6 +673,93 @@ export class AppointmentRepository {
     };
   }
 
+  /**
+   * Every appointment in [from, to) for a calendar subscription, cancelled ones
+   * included so subscribers see them drop out. Either businessId (optionally narrowed
+   * to staffIds) or customerId scopes the query; customer feeds get the same
+   * staff-name privacy as the customer's own appointment list.
+   */
+  async findForCalendarFeed(
+    scope: { businessId?: string; staffIds?: string[]; customerId?: string },
+    from: Date,
+    to: Date
+  ): Promise<AppointmentWithDetails[]> {
+    const where: Record<string, unknown> = {
+      startTime: { gte: from, lt: to }
+    };
+    if (scope.customerId) {
+      where.customerId = scope.customerId;
+    } else {
+      where.businessId = scope.businessId;
+      if (scope.staffIds) {
+        where.staffId = { in: scope.staffIds };
+      }
+    }
+
+    const appointments = await this.prisma.appointment.findMany({
+      where,
+      orderBy: { startTime: 'asc' },
+      include: {
+        business: {
+          select: {
+            id: true,
+            name: true,
+            address: true,
+            timezone: true,
+            settings: true
+          }
+        },
+        service: {
+          select: {
+            id: true,
+            name: true,
+            duration: true
+          }
+        },
+        staff: {
+          select: {
+            role: true,
+            user: {
+              select: {
+                firstName: true,
+                lastName: true
+              }
+            }
+          }
+        },
+        customer: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            phoneNumber: true
+          }
+        }
+      }
+    });
+
+    return appointments.map(apt => {
+      const businessSettings = this.extractBusinessSettings(apt.business?.settings);
+      const withStaff = {
+        ...apt,
+        staff: apt.staff ? {
+          role: apt.staff.role,
+          user: {
+            firstName: apt.staff.user?.firstName || undefined,
+            lastName: apt.staff.user?.lastName || undefined
+          }
+        } : undefined
+      };
+      const filtered = scope.customerId
+        ? this.filterStaffInfo(withStaff, this.shouldHideStaffNames(businessSettings), businessSettings)
+        : withStaff;
+      return this.mapPrismaResultToAppointmentWithDetails({
+        ...filtered,
+        business: { ...filtered.business, settings: undefined }
+      });
+    });
+  }
+
   async search(filters: AppointmentSearchFilters, page = 1, limit = 20): Promise<{
     appointments: AppointmentWithDetails[];
     total: number;
@@ -774,11 +896,17 @@ export class AppointmentRepository {
         throw new Error(`Appointment ${id} not found`);
       }
 
+      const business = await this.prisma.business.findUnique({
+        where: { id: appointment.businessId },
+        select: { timezone: true }
+      });
+      const timezone = resolveTimezone(business?.timezone);
+
       const isWallClock = /^\d{1,2}:\d{2}$/.test(data.startTime);
       let startDateTime: Date;
       if (isWallClock) {
-        const dateStr = data.date ?? formatDateForAPI(appointment.date);
-        startDateTime = createDateTimeInIstanbul(dateStr, data.startTime);
+        const dateStr = data.date ?? formatDateInTimezone(appointment.date, 'UTC');
+        startDateTime = createDateTimeInTimezone(dateStr, data.startTime, timezone);
       } else {
         startDateTime = new Date(data.startTime);
       }
@@ -789,10 +917,10 @@ export class AppointmentRepository {
 
       updateData.startTime = startDateTime;
       updateData.endTime = new Date(startDateTime.getTime() + appointment.duration * 60000);
-      updateData.date = createDateTimeInIstanbul(formatDateForAPI(startDateTime), '00:00');
+      updateData.date = createCalendarDate(data.date ?? formatDateInTimezone(startDateTime, timezone));
     } else if (data.date) {
       // Date-only change: normalize to midnight to match how bookings store `date`.
-      updateData.date = createDateTimeInIstanbul(data.date, '00:00');
+      updateData.date = createCalendarDate(data.date);
     }
 
     if (data.status) {
@@ -802,10 +930,16 @@ export class AppointmentRepository {
           break;
         case AppointmentStatus.COMPLETED:
           updateData.completedAt = new Date();
+          // Staff closing the appointment is when the service actually ended
+          updateData.actualEndTime = updateData.completedAt;
           break;
         case AppointmentStatus.CANCELED:
+          updateData.canceledAt = new Date();
+          break;
         case AppointmentStatus.NO_SHOW:
           updateData.canceledAt = new Date();
+          updateData.noShowMarkedAt = updateData.canceledAt;
+          updateData.noShowSource = 'STAFF';
           break;
       }
     }
@@ -830,17 +964,378 @@ export class AppointmentRepository {
     return this.mapPrismaResultToAppointmentData(result);
   }
 
+  // ===== BUNDLE OPERATIONS =====
+
+  async findBundleById(bundleId: string): Promise<AppointmentBundleData | null> {
+    const result = await this.prisma.appointmentBundle.findUnique({
+      where: { id: bundleId },
+      include: {
+        appointments: {
+          orderBy: { bundleSequence: 'asc' }
+        }
+      }
+    });
+    return result ? this.mapPrismaResultToBundleData(result) : null;
+  }
+
+  /**
+   * Cancels every still-active leg and the bundle itself in one transaction so a
+   * visit is never left half-cancelled.
+   */
+  async cancelBundle(
+    bundleId: string,
+    cancelReason?: string,
+    cancelledBy?: 'CUSTOMER' | 'BUSINESS' | 'SYSTEM'
+  ): Promise<AppointmentBundleData> {
+    const now = new Date();
+    await this.prisma.$transaction([
+      this.prisma.appointment.updateMany({
+        where: { bundleId, status: { in: ACTIVE_APPOINTMENT_STATUSES } },
+        data: {
+          status: AppointmentStatus.CANCELED,
+          canceledAt: now,
+          cancelReason,
+          cancelledBy: cancelledBy || null
+        }
+      }),
+      this.prisma.appointmentBundle.update({
+        where: { id: bundleId },
+        data: {
+          status: AppointmentStatus.CANCELED,
+          canceledAt: now,
+          cancelReason
+        }
+      })
+    ]);
+
+    const bundle = await this.findBundleById(bundleId);
+    return bundle!;
+  }
+
+  /**
+   * Stores the status derived from the legs after one of them changed (a leg can be
+   * cancelled, confirmed or completed on its own, e.g. the customer drops the wash
+   * but keeps the haircut). Reads derive it anyway; this keeps the column in step.
+   */
+  async syncBundleStatus(bundleId: string): Promise<void> {
+    const bundle = await this.prisma.appointmentBundle.findUnique({
+      where: { id: bundleId },
+      select: { status: true, canceledAt: true, appointments: { select: { status: true } } }
+    });
+    if (!bundle || bundle.appointments.length === 0) {
+      return;
+    }
+
+    const status = deriveBundleStatus(bundle.appointments.map((leg) => leg.status as AppointmentStatus));
+    if (status === bundle.status) {
+      return;
+    }
+    await this.prisma.appointmentBundle.update({
+      where: { id: bundleId },
+      data: {
+        status,
+        canceledAt: status === AppointmentStatus.CANCELED ? bundle.canceledAt ?? new Date() : null
+      }
+    });
+  }
+
+  private mapPrismaResultToBundleData(result: any): AppointmentBundleData {
+    return {
+      id: result.id,
+      businessId: result.businessId,
+      customerId: result.customerId,
+      date: result.date,
+      startTime: result.startTime,
+      endTime: result.endTime,
+      totalDuration: result.totalDuration,
+      totalPrice: Number(result.totalPrice),
+      currency: result.currency,
+      status: result.appointments?.length
+        ? deriveBundleStatus(result.appointments.map((apt: any) => apt.status))
+        : result.status,
+      customerNotes: result.customerNotes || undefined,
+      canceledAt: result.canceledAt || undefined,
+      cancelReason: result.cancelReason || undefined,
+      createdAt: result.createdAt,
+      updatedAt: result.updatedAt,
+      appointments: (result.appointments || []).map((apt: any) => this.mapPrismaResultToAppointmentData(apt))
+    };
+  }
+
+  // ===== SERIES OPERATIONS =====
+
+  async findBySeriesId(seriesId: string, from?: Date): Promise<AppointmentData[]> {
+    const result = await this.prisma.appointment.findMany({
+      where: {
+        seriesId,
+        ...(from ? { startTime: { gte: from } } : {})
+      },
+      orderBy: { startTime: 'asc' }
+    });
+    return result.map(apt => this.mapPrismaResultToAppointmentData(apt));
+  }
+
+  /**
+   * Cancels every still-active occurrence of a series starting at or after `from`.
+   * Returns the cancelled rows (pre-update snapshot) so callers can notify.
+   */
+  async cancelSeriesOccurrences(
+    seriesId: string,
+    from: Date,
+    cancelReason?: string,
+    cancelledBy?: 'CUSTOMER' | 'BUSINESS' | 'SYSTEM'
+  ): Promise<AppointmentData[]> {
+    const where = {
+      seriesId,
+      startTime: { gte: from },
+      status: { in: ACTIVE_APPOINTMENT_STATUSES }
+    };
+    const affected = await this.prisma.appointment.findMany({ where, orderBy: { startTime: 'asc' } });
+    if (affected.length === 0) return [];
+
+    await this.prisma.appointment.updateMany({
+      where: { id: { in: affected.map(apt => apt.id) } },
+      data: {
+        status: AppointmentStatus.CANCELED,
+        canceledAt: new Date(),
+        cancelReason,
+        cancelledBy: cancelledBy || null
+      }
+    });
+    return affected.map(apt => this.mapPrismaResultToAppointmentData(apt));
+  }
+
   async markNoShow(id: string): Promise<AppointmentData> {
+    const now = new Date();
     const result = await this.prisma.appointment.update({
       where: { id },
       data: {
         status: AppointmentStatus.NO_SHOW,
-        canceledAt: new Date()
+        canceledAt: now,
+        noShowMarkedAt: now,
+        noShowSource: 'STAFF'
       }
     });
     return this.mapPrismaResultToAppointmentData(result);
   }
 
+  /**
+   * Records the customer's arrival. False when the appointment was already checked
+   * in or is no longer CONFIRMED / IN_PROGRESS.
+   */
+  async recordCheckIn(
+    id: string,
+    data: { method: 'STAFF' | 'QR_CODE'; checkedInBy: string; at: Date }
+  ): Promise<boolean> {
+    const result = await this.prisma.appointment.updateMany({
+      where: {
+        id,
+        status: { in: [AppointmentStatus.CONFIRMED, AppointmentStatus.IN_PROGRESS] },
+        checkedInAt: null
+      },
+      data: {
+        checkedInAt: data.at,
+        checkInMethod: data.method,
+        checkedInBy: data.checkedInBy
+      }
+    });
+    return result.count === 1;
+  }
+
+  /** Staff start the service: IN_PROGRESS with the actual start time, recorded once */
+  async startService(id: string, at: Date): Promise<boolean> {
+    const result = await this.prisma.appointment.updateMany({
+      where: {
+        id,
+        status: { in: [AppointmentStatus.CONFIRMED, AppointmentStatus.IN_PROGRESS] },
+        actualStartTime: null
+      },
+      data: {
+        status: AppointmentStatus.IN_PROGRESS,
+        actualStartTime: at
+      }
+    });
+    return result.count === 1;
+  }
+
+  /** NO_SHOW for an appointment nobody checked in for; false when they arrived in the meantime */
+  async markMissedAsNoShow(id: string, at: Date): Promise<boolean> {
+    const result = await this.prisma.appointment.updateMany({
+      where: {
+        id,
+        status: { in: [AppointmentStatus.CONFIRMED, AppointmentStatus.IN_PROGRESS] },
+        checkedInAt: null,
+        actualStartTime: null
+      },
+      data: {
+        status: AppointmentStatus.NO_SHOW,
+        canceledAt: at,
+        noShowMarkedAt: at,
+        noShowSource: 'AUTOMATIC'
+      }
+    });
+    return result.count === 1;
+  }
+
+  /**
+   * Undoes a no-show: back to `status` with the customer checked in, keeping when
+   * and how it had been marked. Checked in so the no-show job does not mark it again.
+   */
+  async reverseNoShow(
+    id: string,
+    data: { status: AppointmentStatus; reversedBy: string; at: Date; checkedInAt: Date }
+  ): Promise<boolean> {
+    const result = await this.prisma.appointment.updateMany({
+      where: { id, status: AppointmentStatus.NO_SHOW },
+      data: {
+        status: data.status,
+        canceledAt: null,
+        completedAt: data.status === AppointmentStatus.COMPLETED ? data.at : undefined,
+        checkedInAt: data.checkedInAt,
+        checkInMethod: 'STAFF',
+        checkedInBy: data.reversedBy,
+        noShowReversedAt: data.at,
+        noShowReversedBy: data.reversedBy
+      }
+    });
+    return result.count === 1;
+  }
+
+  /**
+   * Appointments of no-show tracking businesses that started before `startedBefore`
+   * without anyone checking in, with their business settings for the grace period.
+   */
+  async findMissedCheckIns(
+    startedBefore: Date
+  ): Promise<Array<{ appointment: AppointmentData; businessSettings: unknown }>> {
+    const results = await this.prisma.appointment.findMany({
+      where: {
+        status: { in: [AppointmentStatus.CONFIRMED, AppointmentStatus.IN_PROGRESS] },
+        checkedInAt: null,
+        actualStartTime: null,
+        startTime: { lt: startedBefore },
+        business: { settings: { path: ['checkInPolicy', 'trackNoShows'], equals: true } }
+      },
+      include: { business: { select: { settings: true } } },
+      orderBy: { startTime: 'asc' }
+    });
+    return results.map(result => ({
+      appointment: this.mapPrismaResultToAppointmentData(result),
+      businessSettings: result.business.settings
+    }));
+  }
+
+  /** Approval requests still waiting at businesses with an approval timeout, oldest first */
+  async findPendingApprovalsWithTimeout(): Promise<Array<{
+    appointment: AppointmentData;
+    businessSettings: unknown;
+    ownerId: string;
+    customerName: string;
+    serviceName: string;
+  }>> {
+    const results = await this.prisma.appointment.findMany({
+      where: {
+        status: AppointmentStatus.PENDING_APPROVAL,
+        business: { settings: { path: ['approvalPolicy', 'timeoutHours'], gte: 1 } }
+      },
+      include: {
+        business: { select: { settings: true, ownerId: true } },
+        customer: { select: { firstName: true, lastName: true } },
+        service: { select: { name: true } }
+      },
+      orderBy: { approvalRequestedAt: 'asc' }
+    });
+    return results.map(result => ({
+      appointment: this.mapPrismaResultToAppointmentData(result),
+      businessSettings: result.business.settings,
+      ownerId: result.business.ownerId,
+      customerName: `${result.customer.firstName || ''} ${result.customer.lastName || ''}`.trim(),
+      serviceName: result.service.name
+    }));
+  }
+
+  /** Records that an overdue request was escalated; false when it was decided on or escalated already */
+  async markApprovalEscalated(appointmentId: string, at: Date): Promise<boolean> {
+    const { count } = await this.prisma.appointment.updateMany({
+      where: { id: appointmentId, status: AppointmentStatus.PENDING_APPROVAL, approvalEscalatedAt: null },
+      data: { approvalEscalatedAt: at }
+    });
+    return count > 0;
+  }
+
+  /** Which of the given import keys the business has imported already */
+  async findImportKeys(businessId: string, importKeys: string[]): Promise<Set<string>> {
+    if (importKeys.length === 0) {
+      return new Set();
+    }
+    const result = await this.prisma.appointment.findMany({
+      where: { businessId, importKey: { in: importKeys } },
+      select: { importKey: true }
+    });
+    return new Set(result.map((row) => row.importKey as string));
+  }
+
+  /** A confirmed appointment brought in by a bulk import, with the price it was sold for */
+  async createImported(data: {
+    businessId: string;
+    serviceId: string;
+    staffId?: string;
+    customerId: string;
+    date: Date;
+    startTime: Date;
+    endTime: Date;
+    price: number;
+    listPrice: number;
+    currency: string;
+    customerNotes?: string;
+    importKey: string;
+  }): Promise<AppointmentData> {
+    const now = new Date();
+    const result = await this.prisma.appointment.create({
+      data: {
+        id: `apt_${randomUUID()}`,
+        businessId: data.businessId,
+        serviceId: data.serviceId,
+        staffId: data.staffId,
+        customerId: data.customerId,
+        date: data.date,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        duration: Math.round((data.endTime.getTime() - data.startTime.getTime()) / 60000),
+        status: AppointmentStatus.CONFIRMED,
+        price: data.price,
+        listPrice: data.listPrice,
+        currency: data.currency,
+        customerNotes: data.customerNotes,
+        bookedAt: now,
+        confirmedAt: now,
+        reminderSent: false,
+        importKey: data.importKey
+      }
+    });
+    return this.mapPrismaResultToAppointmentData(result);
+  }
+
+  /** The customer's earliest appointment at the business starting within [from, to] that is not checked in yet */
+  async findCheckInCandidate(
+    customerId: string,
+    businessId: string,
+    from: Date,
+    to: Date
+  ): Promise<AppointmentData | null> {
+    const result = await this.prisma.appointment.findFirst({
+      where: {
+        customerId,
+        businessId,
+        status: { in: [AppointmentStatus.CONFIRMED, AppointmentStatus.IN_PROGRESS] },
+        checkedInAt: null,
+        startTime: { gte: from, lte: to }
+      },
+      orderBy: { startTime: 'asc' }
+    });
+    return result ? this.mapPrismaResultToAppointmentData(result) : null;
+  }
+
   async findUpcomingByCustomerId(customerId: string, limit = 10): Promise<AppointmentWithDetails[]> {
     const { getCurrentTimeInIstanbul } = require('../utils/timezoneHelper');
     const now = getCurrentTimeInIstanbul();
@@ -1241,7 +1736,7 @@ export class AppointmentRepository {
     staffId?: string,
     excludeAppointmentId?: string
   ): Promise<AppointmentData[]> {
-    const where: Record<string, unknown> = {
+    const where: Prisma.AppointmentWhereInput = {
       businessId,
       date,
       status: { in: ACTIVE_APPOINTMENT_STATUSES },
@@ -1268,7 +1763,7 @@ export class AppointmentRepository {
     };
 
     if (staffId) {
-      (where as any).staffId = staffId;
+      where.staffId = staffId;
     }
 
     if (excludeAppointmentId) {
@@ -1683,7 +2178,20 @@ export class AppointmentRepository {
     });
   }
 
-  // ============================================================================
+  /** Whether the customer already has a booking at the business that was not canceled or rejected */
+  async hasBookedAtBusiness(customerId: string, businessId: string): Promise<boolean> {
+    const earlier = await this.prisma.appointment.findFirst({
+      where: {
+        customerId,
+        businessId,
+        status: { notIn: [AppointmentStatus.CANCELED, AppointmentStatus.REJECTED_BY_BUSINESS] }
+      },
+      select: { id: true }
+    });
+    return earlier !== null;
+  }
+
+    // ============================================================================
   // Background Job Methods (for AppointmentScheduler)
   // ============================================================================
 
@@ -1702,8 +2210,9 @@ export class AppointmentRepository {
           in: [AppointmentStatus.CONFIRMED, AppointmentStatus.IN_PROGRESS],
         },
         endTime: {
-          lt: getCurrentTimeInIstanbul(),
+          lt: new Date(),
         },
+        ...NOT_AWAITING_CHECK_IN,
       },
       include: {
         business: {
@@ -1742,29 +2251,27 @@ export class AppointmentRepository {
 
   /**
    * Mark multiple appointments as completed
-   * Used by auto-complete background job
+   * Used by auto-complete background job; the transitions go into the status history
    */
   async markAppointmentsAsCompleted(
     appointmentIds: string[],
     now: Date
   ): Promise<{ count: number }> {
-    const result = await this.prisma.appointment.updateMany({
-      where: {
+    const count = await this.completeWithHistory(
+      {
         id: {
           in: appointmentIds,
         },
         status: {
           in: [AppointmentStatus.CONFIRMED, AppointmentStatus.IN_PROGRESS],
         },
+        ...NOT_AWAITING_CHECK_IN,
       },
-      data: {
-        status: AppointmentStatus.COMPLETED,
-        completedAt: now,
-        updatedAt: now,
-      },
-    });
+      now,
+      { channel: 'JOB', reason: 'Appointment ended' }
+    );
 
-    return { count: result.count };
+    return { count };
   }
 
   /**
@@ -1775,7 +2282,7 @@ export class AppointmentRepository {
   async finalizeEndedAppointmentsIfStale(
     filter: { customerId?: string; appointmentId?: string; businessId?: string } = {}
   ): Promise<number> {
-    const now = getCurrentTimeInIstanbul();
+    const now = new Date();
     const gracePeriodCutoff = now;
     const where: Prisma.AppointmentWhereInput = {
       // Only "active" slots: terminal states (COMPLETED, CANCELED, NO_SHOW) are never overwritten
@@ -1783,6 +2290,7 @@ export class AppointmentRepository {
         in: [AppointmentStatus.CONFIRMED, AppointmentStatus.IN_PROGRESS],
       },
       endTime: { lt: gracePeriodCutoff },
+      ...NOT_AWAITING_CHECK_IN,
     };
     if (filter.appointmentId) {
       where.id = filter.appointmentId;
@@ -1794,34 +2302,72 @@ export class AppointmentRepository {
       where.businessId = filter.businessId;
     }
 
-    const result = await this.prisma.appointment.updateMany({
-      where,
-      data: {
-        status: AppointmentStatus.COMPLETED,
-        completedAt: now,
-        updatedAt: now,
-      },
-    });
+    const completed = await this.completeWithHistory(where, now, { channel: 'SYSTEM', reason: 'Appointment ended' });
 
     // Also promote CONFIRMED → IN_PROGRESS for appointments that have started but not ended
+    // (at businesses tracking no-shows the staff start the service themselves)
     const promoteWhere: Prisma.AppointmentWhereInput = {
       status: AppointmentStatus.CONFIRMED,
       startTime: { lte: now },
       endTime: { gt: now },
+      ...NOT_TRACKING_CHECK_INS,
     };
     if (filter.appointmentId) promoteWhere.id = filter.appointmentId;
     if (filter.customerId) promoteWhere.customerId = filter.customerId;
     if (filter.businessId) promoteWhere.businessId = filter.businessId;
 
-    await this.prisma.appointment.updateMany({
-      where: promoteWhere,
-      data: {
-        status: AppointmentStatus.IN_PROGRESS,
-        updatedAt: now,
-      },
+    await this.prisma.$transaction(async (tx) => {
+      const starting = await tx.appointment.findMany({ where: promoteWhere, select: STATUS_SNAPSHOT_SELECT });
+      if (starting.length === 0) return;
+
+      await tx.appointment.updateMany({
+        where: { ...promoteWhere, id: { in: starting.map(apt => apt.id) } },
+        data: {
+          status: AppointmentStatus.IN_PROGRESS,
+          updatedAt: now,
+        },
+      });
+      await tx.appointmentStatusChange.createMany({
+        data: buildStatusChanges(
+          starting,
+          { status: AppointmentStatus.IN_PROGRESS },
+          { channel: 'SYSTEM', reason: 'Start time reached' },
+          now
+        ),
+      });
     });
 
-    return result.count;
+    return completed;
+  }
+
+  /** COMPLETED for the rows matching `where`, with a status history entry for each */
+  private async completeWithHistory(
+    where: Prisma.AppointmentWhereInput,
+    now: Date,
+    actor: AppointmentChangeActor
+  ): Promise<number> {
+    return this.prisma.$transaction(async (tx) => {
+      const completing = await tx.appointment.findMany({
+        where,
+        select: { ...STATUS_SNAPSHOT_SELECT, customerId: true, serviceId: true, startTime: true }
+      });
+      if (completing.length === 0) return 0;
+
+      const result = await tx.appointment.updateMany({
+        where: { ...where, id: { in: completing.map(apt => apt.id) } },
+        data: {
+          status: AppointmentStatus.COMPLETED,
+          completedAt: now,
+          updatedAt: now,
+        },
+      });
+      await tx.appointmentStatusChange.createMany({
+        data: buildStatusChanges(completing, { status: AppointmentStatus.COMPLETED, completedAt: now }, actor, now),
+      });
+      // Package credits of the appointments are spent now
+      await spendCompletedCredits(tx, completing, now);
+      return result.count;
+    });
   }
 
   async updateStatusBatch(
@@ -0,0 +1,51 @@
+import { CancelledBy, Prisma, PrismaClient } from '@prisma/client';
+import { AppointmentRescheduleData } from '../types/appointment';
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+export class AppointmentRescheduleRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(
+    data: Prisma.AppointmentRescheduleUncheckedCreateInput,
+    client: Client = this.prisma
+  ): Promise<AppointmentRescheduleData> {
+    const result = await client.appointmentReschedule.create({ data });
+    return this.mapToRescheduleData(result);
+  }
+
+  /** All moves of an appointment, oldest first */
+  async findByAppointment(appointmentId: string): Promise<AppointmentRescheduleData[]> {
+    const result = await this.prisma.appointmentReschedule.findMany({
+      where: { appointmentId },
+      orderBy: { createdAt: 'asc' }
+    });
+    return result.map(entry => this.mapToRescheduleData(entry));
+  }
+
+  async countByInitiator(
+    appointmentId: string,
+    initiatedBy: CancelledBy,
+    client: Client = this.prisma
+  ): Promise<number> {
+    return client.appointmentReschedule.count({ where: { appointmentId, initiatedBy } });
+  }
+
+  private mapToRescheduleData(result: Prisma.AppointmentRescheduleGetPayload<object>): AppointmentRescheduleData {
+    return {
+      id: result.id,
+      appointmentId: result.appointmentId,
+      businessId: result.businessId,
+      previousStartTime: result.previousStartTime,
+      previousEndTime: result.previousEndTime,
+      previousStaffId: result.previousStaffId || undefined,
+      newStartTime: result.newStartTime,
+      newEndTime: result.newEndTime,
+      newStaffId: result.newStaffId || undefined,
+      initiatedBy: result.initiatedBy,
+      rescheduledBy: result.rescheduledBy,
+      reason: result.reason || undefined,
+      createdAt: result.createdAt
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { AppointmentSeriesStatus, Prisma, PrismaClient } from '@prisma/client';
+import { AppointmentSeriesData } from '../types/appointment';
+
+export class AppointmentSeriesRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: Prisma.AppointmentSeriesUncheckedCreateInput): Promise<AppointmentSeriesData> {
+    const result = await this.prisma.appointmentSeries.create({ data });
+    return this.mapToSeriesData(result);
+  }
+
+  async findById(id: string): Promise<AppointmentSeriesData | null> {
+    const result = await this.prisma.appointmentSeries.findUnique({ where: { id } });
+    return result ? this.mapToSeriesData(result) : null;
+  }
+
+  async findByBusinessId(
+    businessId: string,
+    status?: AppointmentSeriesStatus
+  ): Promise<AppointmentSeriesData[]> {
+    const result = await this.prisma.appointmentSeries.findMany({
+      where: { businessId, ...(status ? { status } : {}) },
+      orderBy: { createdAt: 'desc' }
+    });
+    return result.map(series => this.mapToSeriesData(series));
+  }
+
+  async update(
+    id: string,
+    data: Prisma.AppointmentSeriesUncheckedUpdateInput
+  ): Promise<AppointmentSeriesData> {
+    const result = await this.prisma.appointmentSeries.update({ where: { id }, data });
+    return this.mapToSeriesData(result);
+  }
+
+  /** Active series whose materialised window ends before `horizon` (or was never set). */
+  async findNeedingMaterialization(horizon: Date, limit = 100): Promise<AppointmentSeriesData[]> {
+    const result = await this.prisma.appointmentSeries.findMany({
+      where: {
+        status: AppointmentSeriesStatus.ACTIVE,
+        OR: [{ materializedUntil: null }, { materializedUntil: { lt: horizon } }]
+      },
+      orderBy: { materializedUntil: 'asc' },
+      take: limit
+    });
+    return result.map(series => this.mapToSeriesData(series));
+  }
+
+  private mapToSeriesData(result: any): AppointmentSeriesData {
+    return {
+      id: result.id,
+      businessId: result.businessId,
+      serviceId: result.serviceId,
+      staffId: result.staffId || undefined,
+      customerId: result.customerId,
+      rrule: result.rrule,
+      startDate: result.startDate,
+      startTime: result.startTime,
+      status: result.status,
+      customerNotes: result.customerNotes || undefined,
+      createdBy: result.createdBy,
+      materializedUntil: result.materializedUntil || undefined,
+      createdAt: result.createdAt,
+      updatedAt: result.updatedAt
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import { randomUUID } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  AppointmentChangeActor,
+  AppointmentFieldChange,
+  AppointmentStatusChangeData
+} from '../types/appointment';
+import { AppointmentStatus } from '../types/business';
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+/** Fields a status transition can touch; their before/after values go into the history */
+const TRACKED_FIELDS = [
+  'status',
+  'confirmedAt',
+  'completedAt',
+  'canceledAt',
+  'cancelReason',
+  'cancelledBy',
+  'checkedInAt',
+  'actualStartTime',
+  'actualEndTime',
+  'noShowMarkedAt',
+  'noShowSource',
+  'noShowReversedAt'
+] as const;
+
+type TrackedValue = Date | string | null | undefined;
+
+/** The appointment before a transition; mapped AppointmentData and raw rows both fit */
+export type AppointmentStatusSnapshot = {
+  id: string;
+  businessId: string;
+  status: AppointmentStatus | `${AppointmentStatus}`;
+} & { [K in Exclude<typeof TRACKED_FIELDS[number], 'status'>]?: TrackedValue };
+
+/** The values a transition writes */
+export type AppointmentStatusUpdate = Partial<Omit<AppointmentStatusSnapshot, 'id' | 'businessId'>>;
+
+/** Select for loading snapshots of the rows a bulk transition is about to touch */
+export const STATUS_SNAPSHOT_SELECT = {
+  id: true,
+  businessId: true,
+  status: true,
+  confirmedAt: true,
+  completedAt: true,
+  canceledAt: true,
+  cancelReason: true,
+  cancelledBy: true,
+  checkedInAt: true,
+  actualStartTime: true,
+  actualEndTime: true,
+  noShowMarkedAt: true,
+  noShowSource: true,
+  noShowReversedAt: true
+} satisfies Prisma.AppointmentSelect;
+
+/**
+ * History row for a transition, or null when the status does not change.
+ * Only the fields in `after` that differ from `before` are kept.
+ */
+export function buildStatusChange(
+  before: AppointmentStatusSnapshot,
+  after: AppointmentStatusUpdate,
+  actor: AppointmentChangeActor,
+  at: Date = new Date()
+): Prisma.AppointmentStatusChangeCreateManyInput | null {
+  const toStatus = after.status ?? before.status;
+  if (toStatus === before.status) {
+    return null;
+  }
+
+  const changes: Record<string, AppointmentFieldChange> = {};
+  for (const field of TRACKED_FIELDS) {
+    if (!(field in after)) continue;
+    const from = serializeValue(before[field]);
+    const to = serializeValue(after[field]);
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return {
+    id: `asc_${randomUUID()}`,
+    appointmentId: before.id,
+    businessId: before.businessId,
+    fromStatus: before.status as AppointmentStatus,
+    toStatus: toStatus as AppointmentStatus,
+    channel: actor.channel,
+    actorId: actor.actorId ?? null,
+    reason: actor.reason ?? null,
+    changes: changes as unknown as Prisma.InputJsonObject,
+    createdAt: at
+  };
+}
+
+/** History rows for the same transition applied to several appointments */
+export function buildStatusChanges(
+  befores: AppointmentStatusSnapshot[],
+  after: AppointmentStatusUpdate,
+  actor: AppointmentChangeActor,
+  at: Date = new Date()
+): Prisma.AppointmentStatusChangeCreateManyInput[] {
+  return befores
+    .map(before => buildStatusChange(before, after, actor, at))
+    .filter((entry): entry is Prisma.AppointmentStatusChangeCreateManyInput => entry !== null);
+}
+
+function serializeValue(value: TrackedValue): string | null {
+  if (value === undefined || value === null) return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * Append-only store of appointment status transitions; there is deliberately no
+ * way to change or remove an entry.
+ */
+export class AppointmentStatusChangeRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /** Records the transition from `before` to `after`; nothing when the status stays the same */
+  async record(
+    before: AppointmentStatusSnapshot,
+    after: AppointmentStatusUpdate,
+    actor: AppointmentChangeActor,
+    client: Client = this.prisma
+  ): Promise<void> {
+    await this.recordMany([before], after, actor, client);
+  }
+
+  /** The same transition applied to several appointments, e.g. a batch update */
+  async recordMany(
+    befores: AppointmentStatusSnapshot[],
+    after: AppointmentStatusUpdate,
+    actor: AppointmentChangeActor,
+    client: Client = this.prisma
+  ): Promise<void> {
+    const data = buildStatusChanges(befores, after, actor);
+    if (data.length > 0) {
+      await client.appointmentStatusChange.createMany({ data });
+    }
+  }
+
+  /** Every transition of an appointment, oldest first */
+  async findByAppointment(appointmentId: string): Promise<AppointmentStatusChangeData[]> {
+    const result = await this.prisma.appointmentStatusChange.findMany({
+      where: { appointmentId },
+      orderBy: { createdAt: 'asc' }
+    });
+    return result.map(entry => this.mapToStatusChangeData(entry));
+  }
+
+  private mapToStatusChangeData(result: Prisma.AppointmentStatusChangeGetPayload<object>): AppointmentStatusChangeData {
+    return {
+      id: result.id,
+      appointmentId: result.appointmentId,
+      businessId: result.businessId,
+      fromStatus: result.fromStatus as AppointmentStatus,
+      toStatus: result.toStatus as AppointmentStatus,
+      channel: result.channel,
+      actorId: result.actorId || undefined,
+      reason: result.reason || undefined,
+      changes: (result.changes ?? {}) as unknown as Record<string, AppointmentFieldChange>,
+      createdAt: result.createdAt
+    };
+  }
+}
@@ -1286,6 +1286,10 @@ export class BusinessRepository {
           bufferTime: true,
           maxAdvanceBooking: true,
           minAdvanceBooking: true,
+          isGroupSession: true,
+          maxSeats: true,
+          depositType: true,
+          depositValue: true,
           createdAt: true,
           updatedAt: true,
           business: {
@@ -1310,7 +1314,8 @@ export class BusinessRepository {
     return {
       services: services.map(service => ({
         ...service,
-        price: service.price ? Number(service.price) : null
+        price: service.price ? Number(service.price) : null,
+        depositValue: service.depositValue !== null ? Number(service.depositValue) : undefined
       })) as ServiceData[],
       total,
       page: options.page,
@@ -0,0 +1,64 @@
+import { CalendarFeed, Prisma, PrismaClient } from '@prisma/client';
+import { CalendarFeedData } from '../types/calendarFeed';
+
+export class CalendarFeedRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: Prisma.CalendarFeedUncheckedCreateInput): Promise<CalendarFeedData> {
+    const result = await this.prisma.calendarFeed.create({ data });
+    return this.mapToFeedData(result);
+  }
+
+  async findById(id: string): Promise<CalendarFeedData | null> {
+    const result = await this.prisma.calendarFeed.findUnique({ where: { id } });
+    return result ? this.mapToFeedData(result) : null;
+  }
+
+  /** Feeds the user created that have not been revoked, newest first */
+  async findActiveByUser(userId: string): Promise<CalendarFeedData[]> {
+    const result = await this.prisma.calendarFeed.findMany({
+      where: { userId, revokedAt: null },
+      orderBy: { createdAt: 'desc' }
+    });
+    return result.map((feed) => this.mapToFeedData(feed));
+  }
+
+  async revoke(id: string): Promise<CalendarFeedData> {
+    const result = await this.prisma.calendarFeed.update({
+      where: { id },
+      data: { revokedAt: new Date() }
+    });
+    return this.mapToFeedData(result);
+  }
+
+  /** Revokes every live feed scoped to the staff member, e.g. when they leave */
+  async revokeByStaff(staffId: string): Promise<number> {
+    const result = await this.prisma.calendarFeed.updateMany({
+      where: { staffId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+    return result.count;
+  }
+
+  async touch(id: string): Promise<void> {
+    await this.prisma.calendarFeed.update({
+      where: { id },
+      data: { lastAccessedAt: new Date() }
+    });
+  }
+
+  private mapToFeedData(feed: CalendarFeed): CalendarFeedData {
+    return {
+      id: feed.id,
+      type: feed.type,
+      userId: feed.userId,
+      businessId: feed.businessId ?? undefined,
+      staffId: feed.staffId ?? undefined,
+      label: feed.label ?? undefined,
+      revokedAt: feed.revokedAt ?? undefined,
+      lastAccessedAt: feed.lastAccessedAt ?? undefined,
+      createdAt: feed.createdAt,
+      updatedAt: feed.updatedAt
+    };
+  }
+}
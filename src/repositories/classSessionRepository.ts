@@ -0,0 +1,207 @@
+import { ClassSessionStatus, Prisma, PrismaClient } from '@prisma/client';
+import { ACTIVE_APPOINTMENT_STATUSES } from '../constants/appointmentStatus';
+import { AppointmentData, AppointmentStatus } from '../types/business';
+import { AppointmentChangeActor, ClassRosterEntry, ClassSessionData } from '../types/appointment';
+import { buildStatusChanges } from './appointmentStatusChangeRepository';
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+const BOOKED_SEATS_COUNT = {
+  _count: {
+    select: { appointments: { where: { status: { in: ACTIVE_APPOINTMENT_STATUSES } } } }
+  }
+} as const;
+
+export class ClassSessionRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(
+    data: Prisma.ClassSessionUncheckedCreateInput,
+    client: Client = this.prisma
+  ): Promise<ClassSessionData> {
+    const result = await client.classSession.create({ data, include: BOOKED_SEATS_COUNT });
+    return this.mapToSessionData(result);
+  }
+
+  async findById(id: string): Promise<ClassSessionData | null> {
+    const result = await this.prisma.classSession.findUnique({ where: { id }, include: BOOKED_SEATS_COUNT });
+    return result ? this.mapToSessionData(result) : null;
+  }
+
+  async findByBusiness(
+    businessId: string,
+    from: Date,
+    to: Date,
+    filters: { serviceId?: string; staffId?: string; includeCanceled?: boolean } = {}
+  ): Promise<ClassSessionData[]> {
+    const result = await this.prisma.classSession.findMany({
+      where: {
+        businessId,
+        startTime: { gte: from, lt: to },
+        ...(filters.serviceId ? { serviceId: filters.serviceId } : {}),
+        ...(filters.staffId ? { staffId: filters.staffId } : {}),
+        ...(filters.includeCanceled ? {} : { status: ClassSessionStatus.SCHEDULED })
+      },
+      include: BOOKED_SEATS_COUNT,
+      orderBy: { startTime: 'asc' }
+    });
+    return result.map(session => this.mapToSessionData(session));
+  }
+
+  /**
+   * Scheduled classes overlapping [from, to), optionally for one instructor.
+   * They block the instructor even before the first seat is booked.
+   */
+  async findScheduledInRange(
+    businessId: string,
+    from: Date,
+    to: Date,
+    staffId?: string,
+    client: Client = this.prisma
+  ): Promise<ClassSessionData[]> {
+    const result = await client.classSession.findMany({
+      where: {
+        businessId,
+        status: ClassSessionStatus.SCHEDULED,
+        startTime: { lt: to },
+        endTime: { gt: from },
+        ...(staffId ? { staffId } : {})
+      },
+      include: BOOKED_SEATS_COUNT,
+      orderBy: { startTime: 'asc' }
+    });
+    return result.map(session => this.mapToSessionData(session));
+  }
+
+  async update(id: string, data: Prisma.ClassSessionUncheckedUpdateInput): Promise<ClassSessionData> {
+    const result = await this.prisma.classSession.update({ where: { id }, data, include: BOOKED_SEATS_COUNT });
+    return this.mapToSessionData(result);
+  }
+
+  /** Seat holders of a class, active seats first. */
+  async findRoster(sessionId: string): Promise<ClassRosterEntry[]> {
+    const result = await this.prisma.appointment.findMany({
+      where: { classSessionId: sessionId },
+      include: { customer: { select: { firstName: true, lastName: true, phoneNumber: true } } },
+      orderBy: { bookedAt: 'asc' }
+    });
+
+    const isActive = (status: string) => ACTIVE_APPOINTMENT_STATUSES.includes(status as AppointmentStatus);
+    return result
+      .sort((a, b) => Number(isActive(b.status)) - Number(isActive(a.status)))
+      .map(appointment => ({
+        appointmentId: appointment.id,
+        customerId: appointment.customerId,
+        customerName: `${appointment.customer.firstName || ''} ${appointment.customer.lastName || ''}`.trim(),
+        phoneNumber: appointment.customer.phoneNumber || undefined,
+        status: appointment.status as AppointmentStatus,
+        customerNotes: appointment.customerNotes || undefined,
+        bookedAt: appointment.bookedAt
+      }));
+  }
+
+  /**
+   * Serialises seat bookings of one class until the transaction ends, so two
+   * customers cannot both take the last seat.
+   */
+  async lockSession(tx: Prisma.TransactionClient, sessionId: string): Promise<void> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`class:${sessionId}`}))`;
+  }
+
+  async countActiveSeats(sessionId: string, client: Client = this.prisma): Promise<number> {
+    return client.appointment.count({
+      where: { classSessionId: sessionId, status: { in: ACTIVE_APPOINTMENT_STATUSES } }
+    });
+  }
+
+  async hasActiveSeat(sessionId: string, customerId: string, client: Client = this.prisma): Promise<boolean> {
+    const count = await client.appointment.count({
+      where: { classSessionId: sessionId, customerId, status: { in: ACTIVE_APPOINTMENT_STATUSES } }
+    });
+    return count > 0;
+  }
+
+  /**
+   * Marks the class cancelled and cancels every active seat in one transaction.
+   * Returns the seats that were cancelled so their holders can be notified.
+   */
+  async cancelWithSeats(
+    sessionId: string,
+    reason: string | undefined,
+    actor: AppointmentChangeActor
+  ): Promise<AppointmentData[]> {
+    return this.prisma.$transaction(async (tx) => {
+      const seats = await tx.appointment.findMany({
+        where: { classSessionId: sessionId, status: { in: ACTIVE_APPOINTMENT_STATUSES } }
+      });
+      const canceledAt = new Date();
+
+      await tx.classSession.update({
+        where: { id: sessionId },
+        data: { status: ClassSessionStatus.CANCELED, canceledAt, cancelReason: reason }
+      });
+      await tx.appointment.updateMany({
+        where: { id: { in: seats.map(seat => seat.id) } },
+        data: {
+          status: AppointmentStatus.CANCELED,
+          canceledAt,
+          cancelReason: reason,
+          cancelledBy: 'BUSINESS'
+        }
+      });
+      await tx.appointmentStatusChange.createMany({
+        data: buildStatusChanges(
+          seats,
+          { status: AppointmentStatus.CANCELED, canceledAt, cancelReason: reason, cancelledBy: 'BUSINESS' },
+          actor,
+          canceledAt
+        )
+      });
+
+      return seats.map(seat => ({
+        id: seat.id,
+        businessId: seat.businessId,
+        serviceId: seat.serviceId,
+        staffId: seat.staffId || undefined,
+        customerId: seat.customerId,
+        date: seat.date,
+        startTime: seat.startTime,
+        endTime: seat.endTime,
+        duration: seat.duration,
+        status: AppointmentStatus.CANCELED,
+        price: Number(seat.price),
+        currency: seat.currency,
+        customerNotes: seat.customerNotes || undefined,
+        bookedAt: seat.bookedAt,
+        canceledAt,
+        cancelReason: reason,
+        cancelledBy: 'BUSINESS' as const,
+        reminderSent: seat.reminderSent,
+        classSessionId: sessionId,
+        createdAt: seat.createdAt,
+        updatedAt: seat.updatedAt
+      }));
+    });
+  }
+
+  private mapToSessionData(result: any): ClassSessionData {
+    return {
+      id: result.id,
+      businessId: result.businessId,
+      serviceId: result.serviceId,
+      staffId: result.staffId,
+      date: result.date,
+      startTime: result.startTime,
+      endTime: result.endTime,
+      maxSeats: result.maxSeats,
+      bookedSeats: result._count?.appointments ?? 0,
+      status: result.status,
+      notes: result.notes || undefined,
+      createdBy: result.createdBy,
+      canceledAt: result.canceledAt || undefined,
+      cancelReason: result.cancelReason || undefined,
+      createdAt: result.createdAt,
+      updatedAt: result.updatedAt
+    };
+  }
+}
@@ -337,6 +337,10 @@ export class DailyNotebookRepository {
     return business !== null;
   }
 
+  /**
+   * Completed appointment revenue per day of the month, less the promotional
+   * vouchers redeemed on them. Gift cards count in full: their price was paid.
+   */
   async getAppointmentRevenue(
     businessId: string,
     year: number,
@@ -367,6 +371,34 @@ export class DailyNotebookRepository {
       revenueByDay[day] = Number(appointment._sum.price || 0);
     });
 
+    // Promotional vouchers spent on those appointments were never paid for
+    const voucherEntries = await this.prisma.giftCardTransaction.findMany({
+      where: {
+        businessId,
+        type: { in: ['REDEEM', 'REFUND'] },
+        giftCard: { type: 'VOUCHER' },
+        appointment: {
+          status: 'COMPLETED',
+          date: {
+            gte: startDate,
+            lte: endDate
+          }
+        }
+      },
+      select: {
+        type: true,
+        amount: true,
+        appointment: { select: { date: true } }
+      }
+    });
+
+    voucherEntries.forEach(entry => {
+      if (!entry.appointment) return;
+      const day = entry.appointment.date.getDate();
+      const amount = Number(entry.amount) * (entry.type === 'REDEEM' ? 1 : -1);
+      revenueByDay[day] = Math.round(((revenueByDay[day] || 0) - amount) * 100) / 100;
+    });
+
     return revenueByDay;
   }
 }
@@ -0,0 +1,332 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { AppointmentStatus } from '../types/business';
+import {
+  AppointmentRedemption,
+  GiftCardData,
+  GiftCardTransactionData,
+  GiftCardType
+} from '../types/giftCard';
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+const roundToKurus = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class GiftCardRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /** Creates the card with its opening ISSUE entry in the ledger */
+  async create(data: {
+    businessId: string;
+    code: string;
+    type: GiftCardType;
+    amount: number;
+    currency: string;
+    pricePaid: number;
+    customerId?: string;
+    expiresAt?: Date;
+    note?: string;
+    createdBy: string;
+  }): Promise<GiftCardData> {
+    const { amount, ...rest } = data;
+    const result = await this.prisma.$transaction(async (tx) => {
+      const card = await tx.giftCard.create({
+        data: {
+          id: `gc_${randomUUID()}`,
+          ...rest,
+          initialAmount: amount,
+          balance: amount
+        }
+      });
+      await this.createTransaction(tx, {
+        giftCardId: card.id,
+        businessId: card.businessId,
+        type: 'ISSUE',
+        amount,
+        balanceAfter: amount,
+        createdBy: data.createdBy
+      });
+      return card;
+    });
+    return this.mapToGiftCardData(result);
+  }
+
+  async findById(id: string): Promise<GiftCardData | null> {
+    const result = await this.prisma.giftCard.findUnique({ where: { id } });
+    return result ? this.mapToGiftCardData(result) : null;
+  }
+
+  async findByCode(code: string): Promise<GiftCardData | null> {
+    const result = await this.prisma.giftCard.findUnique({ where: { code } });
+    return result ? this.mapToGiftCardData(result) : null;
+  }
+
+  async findByBusiness(
+    businessId: string,
+    filters: { type?: GiftCardType; customerId?: string; isActive?: boolean; page?: number; limit?: number } = {}
+  ): Promise<{ giftCards: GiftCardData[]; total: number; page: number; totalPages: number }> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const where: Prisma.GiftCardWhereInput = {
+      businessId,
+      ...(filters.type ? { type: filters.type } : {}),
+      ...(filters.customerId ? { customerId: filters.customerId } : {}),
+      ...(filters.isActive !== undefined ? { isActive: filters.isActive } : {})
+    };
+
+    const [giftCards, total] = await Promise.all([
+      this.prisma.giftCard.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      this.prisma.giftCard.count({ where })
+    ]);
+
+    return {
+      giftCards: giftCards.map(card => this.mapToGiftCardData(card)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  /** The card's ledger, oldest first */
+  async findTransactions(giftCardId: string): Promise<GiftCardTransactionData[]> {
+    const result = await this.prisma.giftCardTransaction.findMany({
+      where: { giftCardId },
+      orderBy: { createdAt: 'asc' }
+    });
+    return result.map(transaction => this.mapToTransactionData(transaction));
+  }
+
+  async deactivate(id: string): Promise<GiftCardData> {
+    const result = await this.prisma.giftCard.update({ where: { id }, data: { isActive: false } });
+    return this.mapToGiftCardData(result);
+  }
+
+  /** Amount paid for the appointment with gift cards and vouchers, net of refunds */
+  async findRedeemedAmount(appointmentId: string, client: Client = this.prisma): Promise<number> {
+    const entries = await client.giftCardTransaction.groupBy({
+      by: ['type'],
+      where: { appointmentId, type: { in: ['REDEEM', 'REFUND'] } },
+      _sum: { amount: true }
+    });
+    const sum = (type: string) => Number(entries.find(entry => entry.type === type)?._sum.amount || 0);
+    return roundToKurus(sum('REDEEM') - sum('REFUND'));
+  }
+
+  /**
+   * Takes what is still due on the appointment off the card, at most `maxAmount`.
+   * The appointment row stays locked from working out the amount due to writing
+   * the REDEEM entry, so concurrent redemptions cannot pay more than its price.
+   * `redemption` is null when nothing is due, or the card was deactivated or its
+   * balance dropped below the amount meanwhile.
+   */
+  async redeem(
+    giftCardId: string,
+    data: { appointmentId: string; maxAmount: number; createdBy: string },
+    findAmountDue: (tx: Prisma.TransactionClient) => Promise<number>
+  ): Promise<{ amountDue: number; redemption: { giftCard: GiftCardData; transaction: GiftCardTransactionData } | null }> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "appointments" WHERE id = ${data.appointmentId} FOR UPDATE`;
+
+      const amountDue = await findAmountDue(tx);
+      const amount = roundToKurus(Math.min(data.maxAmount, amountDue));
+      if (amount <= 0) return { amountDue, redemption: null };
+
+      const { count } = await tx.giftCard.updateMany({
+        where: { id: giftCardId, isActive: true, balance: { gte: amount } },
+        data: { balance: { decrement: amount } }
+      });
+      if (count === 0) return { amountDue, redemption: null };
+
+      const card = await tx.giftCard.findUniqueOrThrow({ where: { id: giftCardId } });
+      const transaction = await this.createTransaction(tx, {
+        giftCardId,
+        businessId: card.businessId,
+        type: 'REDEEM',
+        amount,
+        balanceAfter: Number(card.balance),
+        appointmentId: data.appointmentId,
+        createdBy: data.createdBy
+      });
+      return { amountDue, redemption: { giftCard: this.mapToGiftCardData(card), transaction } };
+    });
+  }
+
+  /**
+   * Gives the cards used on the appointment back up to `maxAmount` of what they
+   * paid, in the order they were used. The appointment is settled once: returns no
+   * refunds when it was refunded before or nothing was redeemed on it.
+   */
+  async refundAppointment(
+    appointmentId: string,
+    maxAmount: number,
+    createdBy?: string
+  ): Promise<GiftCardTransactionData[]> {
+    return this.prisma.$transaction(async (tx) => {
+      const entries = await tx.giftCardTransaction.findMany({
+        where: { appointmentId, type: { in: ['REDEEM', 'REFUND'] } },
+        orderBy: { createdAt: 'asc' }
+      });
+      if (entries.some(entry => entry.type === 'REFUND')) {
+        return [];
+      }
+
+      const redeemedByCard = new Map<string, number>();
+      for (const entry of entries) {
+        redeemedByCard.set(entry.giftCardId, (redeemedByCard.get(entry.giftCardId) || 0) + Number(entry.amount));
+      }
+
+      const refunds: GiftCardTransactionData[] = [];
+      let remaining = maxAmount;
+      for (const [giftCardId, redeemed] of redeemedByCard) {
+        const amount = roundToKurus(Math.min(redeemed, remaining));
+        if (amount <= 0) break;
+        remaining -= amount;
+
+        const card = await tx.giftCard.update({
+          where: { id: giftCardId },
+          data: { balance: { increment: amount } }
+        });
+        refunds.push(await this.createTransaction(tx, {
+          giftCardId,
+          businessId: card.businessId,
+          type: 'REFUND',
+          amount,
+          balanceAfter: Number(card.balance),
+          appointmentId,
+          createdBy
+        }));
+      }
+      return refunds;
+    });
+  }
+
+  /**
+   * Net amounts redeemed on the business' completed appointments, per appointment
+   * and card type; limited to appointments dated within the range when given
+   */
+  async findCompletedAppointmentRedemptions(
+    businessId: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<AppointmentRedemption[]> {
+    const entries = await this.prisma.giftCardTransaction.findMany({
+      where: {
+        businessId,
+        type: { in: ['REDEEM', 'REFUND'] },
+        appointment: {
+          status: AppointmentStatus.COMPLETED,
+          ...(startDate && endDate ? { date: { gte: startDate, lte: endDate } } : {})
+        }
+      },
+      select: {
+        type: true,
+        amount: true,
+        appointmentId: true,
+        appointment: { select: { serviceId: true, date: true } },
+        giftCard: { select: { type: true } }
+      }
+    });
+
+    const byKey = new Map<string, AppointmentRedemption>();
+    for (const entry of entries) {
+      if (!entry.appointmentId || !entry.appointment) continue;
+      const key = `${entry.appointmentId}:${entry.giftCard.type}`;
+      const redemption = byKey.get(key) || {
+        appointmentId: entry.appointmentId,
+        serviceId: entry.appointment.serviceId,
+        date: entry.appointment.date,
+        type: entry.giftCard.type,
+        amount: 0
+      };
+      redemption.amount += Number(entry.amount) * (entry.type === 'REDEEM' ? 1 : -1);
+      byKey.set(key, redemption);
+    }
+
+    return Array.from(byKey.values())
+      .map(redemption => ({ ...redemption, amount: roundToKurus(redemption.amount) }))
+      .filter(redemption => redemption.amount > 0);
+  }
+
+  /** What customers paid for gift cards, bought within the range when given */
+  async sumGiftCardSales(businessId: string, startDate?: Date, endDate?: Date): Promise<number> {
+    const result = await this.prisma.giftCard.aggregate({
+      where: {
+        businessId,
+        type: 'GIFT_CARD',
+        ...(startDate && endDate ? { createdAt: { gte: startDate, lte: endDate } } : {})
+      },
+      _sum: { pricePaid: true }
+    });
+    return Number(result._sum.pricePaid || 0);
+  }
+
+  /** Balance still to be spent on the business' usable cards */
+  async sumOutstandingBalance(businessId: string, now = new Date()): Promise<number> {
+    const result = await this.prisma.giftCard.aggregate({
+      where: {
+        businessId,
+        isActive: true,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }]
+      },
+      _sum: { balance: true }
+    });
+    return Number(result._sum.balance || 0);
+  }
+
+  private async createTransaction(
+    client: Client,
+    data: {
+      giftCardId: string;
+      businessId: string;
+      type: GiftCardTransactionData['type'];
+      amount: number;
+      balanceAfter: number;
+      appointmentId?: string;
+      createdBy?: string;
+    }
+  ): Promise<GiftCardTransactionData> {
+    const result = await client.giftCardTransaction.create({
+      data: { id: `gct_${randomUUID()}`, ...data }
+    });
+    return this.mapToTransactionData(result);
+  }
+
+  private mapToGiftCardData(result: Prisma.GiftCardGetPayload<object>): GiftCardData {
+    return {
+      id: result.id,
+      businessId: result.businessId,
+      code: result.code,
+      type: result.type,
+      initialAmount: Number(result.initialAmount),
+      balance: Number(result.balance),
+      currency: result.currency,
+      pricePaid: Number(result.pricePaid),
+      customerId: result.customerId || undefined,
+      expiresAt: result.expiresAt || undefined,
+      isActive: result.isActive,
+      note: result.note || undefined,
+      createdBy: result.createdBy,
+      createdAt: result.createdAt,
+      updatedAt: result.updatedAt
+    };
+  }
+
+  private mapToTransactionData(result: Prisma.GiftCardTransactionGetPayload<object>): GiftCardTransactionData {
+    return {
+      id: result.id,
+      giftCardId: result.giftCardId,
+      businessId: result.businessId,
+      type: result.type,
+      amount: Number(result.amount),
+      balanceAfter: Number(result.balanceAfter),
+      appointmentId: result.appointmentId || undefined,
+      createdBy: result.createdBy || undefined,
+      createdAt: result.createdAt
+    };
+  }
+}
@@ -21,6 +21,20 @@ import { DailyNotebookRepository } from './dailyNotebookRepository';
 import { WorkingHoursRepository } from './workingHoursRepository';
 import { RescheduleSuggestionRepository } from './rescheduleSuggestionRepository';
 import { RatingRepository } from './ratingRepository';
+import { AppointmentSeriesRepository } from './appointmentSeriesRepository';
+import { WaitlistRepository } from './waitlistRepository';
+import { ResourceRepository } from './resourceRepository';
+import { ClassSessionRepository } from './classSessionRepository';
+import { AppointmentRescheduleRepository } from './appointmentRescheduleRepository';
+import { AppointmentStatusChangeRepository } from './appointmentStatusChangeRepository';
+import { AppointmentPaymentRepository } from './appointmentPaymentRepository';
+import { StaffTimeOffRepository } from './staffTimeOffRepository';
+import { CalendarFeedRepository } from './calendarFeedRepository';
+import { StaffExternalCalendarRepository } from './staffExternalCalendarRepository';
+import { WalkInQueueRepository } from './walkInQueueRepository';
+import { IntakeFormRepository } from './intakeFormRepository';
+import { SessionPackageRepository } from './sessionPackageRepository';
+import { GiftCardRepository } from './giftCardRepository';
 
 // Repository container for dependency injection
 export class RepositoryContainer {
@@ -46,6 +60,20 @@ export class RepositoryContainer {
   public readonly workingHoursRepository: WorkingHoursRepository;
   public readonly rescheduleSuggestionRepository: RescheduleSuggestionRepository;
   public readonly ratingRepository: RatingRepository;
+  public readonly appointmentSeriesRepository: AppointmentSeriesRepository;
+  public readonly waitlistRepository: WaitlistRepository;
+  public readonly resourceRepository: ResourceRepository;
+  public readonly classSessionRepository: ClassSessionRepository;
+  public readonly appointmentRescheduleRepository: AppointmentRescheduleRepository;
+  public readonly appointmentStatusChangeRepository: AppointmentStatusChangeRepository;
+  public readonly appointmentPaymentRepository: AppointmentPaymentRepository;
+  public readonly staffTimeOffRepository: StaffTimeOffRepository;
+  public readonly calendarFeedRepository: CalendarFeedRepository;
+  public readonly staffExternalCalendarRepository: StaffExternalCalendarRepository;
+  public readonly walkInQueueRepository: WalkInQueueRepository;
+  public readonly intakeFormRepository: IntakeFormRepository;
+  public readonly sessionPackageRepository: SessionPackageRepository;
+  public readonly giftCardRepository: GiftCardRepository;
 
   constructor(private prisma: PrismaClient) {
     this.userRepository = new PrismaUserRepository(prisma);
@@ -72,6 +100,20 @@ export class RepositoryContainer {
     this.workingHoursRepository = new WorkingHoursRepository(prisma);
     this.rescheduleSuggestionRepository = new RescheduleSuggestionRepository(prisma);
     this.ratingRepository = new RatingRepository(prisma);
+    this.appointmentSeriesRepository = new AppointmentSeriesRepository(prisma);
+    this.waitlistRepository = new WaitlistRepository(prisma);
+    this.resourceRepository = new ResourceRepository(prisma);
+    this.classSessionRepository = new ClassSessionRepository(prisma);
+    this.appointmentRescheduleRepository = new AppointmentRescheduleRepository(prisma);
+    this.appointmentStatusChangeRepository = new AppointmentStatusChangeRepository(prisma);
+    this.appointmentPaymentRepository = new AppointmentPaymentRepository(prisma);
+    this.staffTimeOffRepository = new StaffTimeOffRepository(prisma);
+    this.calendarFeedRepository = new CalendarFeedRepository(prisma);
+    this.staffExternalCalendarRepository = new StaffExternalCalendarRepository(prisma);
+    this.walkInQueueRepository = new WalkInQueueRepository(prisma);
+    this.intakeFormRepository = new IntakeFormRepository(prisma);
+    this.sessionPackageRepository = new SessionPackageRepository(prisma);
+    this.giftCardRepository = new GiftCardRepository(prisma);
   }
 
   get prismaClient(): PrismaClient {
@@ -103,6 +145,20 @@ export {
   WorkingHoursRepository,
   RescheduleSuggestionRepository,
   RatingRepository,
+  AppointmentSeriesRepository,
+  WaitlistRepository,
+  ResourceRepository,
+  ClassSessionRepository,
+  AppointmentRescheduleRepository,
+  AppointmentStatusChangeRepository,
+  AppointmentPaymentRepository,
+  StaffTimeOffRepository,
+  CalendarFeedRepository,
+  StaffExternalCalendarRepository,
+  WalkInQueueRepository,
+  IntakeFormRepository,
+  SessionPackageRepository,
+  GiftCardRepository,
 };
 
 // Export interfaces for testing/mocking
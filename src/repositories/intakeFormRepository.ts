@@ -0,0 +1,181 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import {
+  AppointmentIntakeResponseData,
+  IntakeAnswers,
+  IntakeFormField,
+  ServiceIntakeFormData
+} from '../types/intakeForm';
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+export class IntakeFormRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // ===== FORMS =====
+
+  /** The version customers answer now, if the service has a form */
+  async findActiveForm(serviceId: string): Promise<ServiceIntakeFormData | null> {
+    const result = await this.prisma.serviceIntakeForm.findFirst({
+      where: { serviceId, isActive: true },
+      orderBy: { version: 'desc' }
+    });
+    return result ? this.mapToFormData(result) : null;
+  }
+
+  async findFormById(id: string): Promise<ServiceIntakeFormData | null> {
+    const result = await this.prisma.serviceIntakeForm.findUnique({ where: { id } });
+    return result ? this.mapToFormData(result) : null;
+  }
+
+  /** Every version of the service's form, newest first */
+  async findVersions(serviceId: string): Promise<ServiceIntakeFormData[]> {
+    const result = await this.prisma.serviceIntakeForm.findMany({
+      where: { serviceId },
+      orderBy: { version: 'desc' }
+    });
+    return result.map(form => this.mapToFormData(form));
+  }
+
+  /** Adds the next version and makes it the only active one */
+  async publishVersion(data: {
+    businessId: string;
+    serviceId: string;
+    title: string;
+    description?: string;
+    fields: IntakeFormField[];
+    createdBy: string;
+  }): Promise<ServiceIntakeFormData> {
+    const result = await this.prisma.$transaction(async (tx) => {
+      const latest = await tx.serviceIntakeForm.findFirst({
+        where: { serviceId: data.serviceId },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      });
+      await tx.serviceIntakeForm.updateMany({
+        where: { serviceId: data.serviceId, isActive: true },
+        data: { isActive: false }
+      });
+      return tx.serviceIntakeForm.create({
+        data: {
+          id: `sif_${randomUUID()}`,
+          businessId: data.businessId,
+          serviceId: data.serviceId,
+          version: (latest?.version ?? 0) + 1,
+          title: data.title,
+          description: data.description,
+          fields: data.fields as unknown as Prisma.InputJsonArray,
+          createdBy: data.createdBy
+        }
+      });
+    });
+    return this.mapToFormData(result);
+  }
+
+  /** Turns the service's form off; earlier answers stay */
+  async deactivate(serviceId: string): Promise<number> {
+    const { count } = await this.prisma.serviceIntakeForm.updateMany({
+      where: { serviceId, isActive: true },
+      data: { isActive: false }
+    });
+    return count;
+  }
+
+  // ===== RESPONSES =====
+
+  async findResponseByAppointment(appointmentId: string): Promise<AppointmentIntakeResponseData | null> {
+    const result = await this.prisma.appointmentIntakeResponse.findUnique({
+      where: { appointmentId },
+      include: { form: { select: { version: true } } }
+    });
+    return result ? this.mapToResponseData(result) : null;
+  }
+
+  /** The customer's answers from their latest earlier visit for the service */
+  async findLatestAnswers(
+    customerId: string,
+    serviceId: string,
+    excludeAppointmentId?: string
+  ): Promise<IntakeAnswers | null> {
+    const result = await this.prisma.appointmentIntakeResponse.findFirst({
+      where: {
+        customerId,
+        serviceId,
+        ...(excludeAppointmentId ? { appointmentId: { not: excludeAppointmentId } } : {})
+      },
+      orderBy: { submittedAt: 'desc' },
+      select: { answers: true }
+    });
+    return result ? (result.answers as unknown as IntakeAnswers) : null;
+  }
+
+  /** Stores the answers for the appointment, replacing earlier ones */
+  async saveResponse(
+    data: {
+      appointmentId: string;
+      formId: string;
+      businessId: string;
+      serviceId: string;
+      customerId: string;
+      answers: IntakeAnswers;
+      reusedFieldIds: string[];
+    },
+    client: Client = this.prisma
+  ): Promise<AppointmentIntakeResponseData> {
+    const answers = data.answers as unknown as Prisma.InputJsonObject;
+    const result = await client.appointmentIntakeResponse.upsert({
+      where: { appointmentId: data.appointmentId },
+      create: {
+        id: `air_${randomUUID()}`,
+        appointmentId: data.appointmentId,
+        formId: data.formId,
+        businessId: data.businessId,
+        serviceId: data.serviceId,
+        customerId: data.customerId,
+        answers,
+        reusedFieldIds: data.reusedFieldIds
+      },
+      update: {
+        formId: data.formId,
+        answers,
+        reusedFieldIds: data.reusedFieldIds,
+        submittedAt: new Date()
+      },
+      include: { form: { select: { version: true } } }
+    });
+    return this.mapToResponseData(result);
+  }
+
+  private mapToFormData(result: Prisma.ServiceIntakeFormGetPayload<object>): ServiceIntakeFormData {
+    return {
+      id: result.id,
+      businessId: result.businessId,
+      serviceId: result.serviceId,
+      version: result.version,
+      title: result.title,
+      description: result.description || undefined,
+      fields: result.fields as unknown as IntakeFormField[],
+      isActive: result.isActive,
+      createdBy: result.createdBy,
+      createdAt: result.createdAt
+    };
+  }
+
+  private mapToResponseData(
+    result: Prisma.AppointmentIntakeResponseGetPayload<{ include: { form: { select: { version: true } } } }>
+  ): AppointmentIntakeResponseData {
+    return {
+      id: result.id,
+      appointmentId: result.appointmentId,
+      formId: result.formId,
+      formVersion: result.form.version,
+      businessId: result.businessId,
+      serviceId: result.serviceId,
+      customerId: result.customerId,
+      answers: result.answers as unknown as IntakeAnswers,
+      reusedFieldIds: result.reusedFieldIds,
+      submittedAt: result.submittedAt,
+      updatedAt: result.updatedAt
+    };
+  }
+}
@@ -9,6 +9,7 @@ import {
   NotificationChannel,
   Prisma 
 } from '@prisma/client';
+import { AppointmentNotificationRecord } from '../types/appointment';
 
 // Enhanced interfaces with proper typing
 export interface AvailabilityAlertData {
@@ -831,6 +832,34 @@ export class NotificationRepository {
     return await this.prisma.pushNotification.count({ where });
   }
 
+  /** Push notifications sent about an appointment, oldest first; optionally only those to one user */
+  async findPushNotificationsByAppointment(
+    appointmentId: string,
+    recipientId?: string
+  ): Promise<AppointmentNotificationRecord[]> {
+    const notifications = await this.prisma.pushNotification.findMany({
+      where: {
+        appointmentId,
+        ...(recipientId ? { subscription: { userId: recipientId } } : {})
+      },
+      include: { subscription: { select: { userId: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return notifications.map(notification => ({
+      id: notification.id,
+      recipientId: notification.subscription.userId,
+      title: notification.title,
+      body: notification.body,
+      status: notification.status,
+      sentAt: notification.sentAt ?? undefined,
+      deliveredAt: notification.deliveredAt ?? undefined,
+      readAt: notification.readAt ?? undefined,
+      errorMessage: notification.errorMessage ?? undefined,
+      createdAt: notification.createdAt
+    }));
+  }
+
   async updatePushSubscriptionLastUsed(subscriptionId: string): Promise<void> {
     const existingSubscription = await this.prisma.pushSubscription.findUnique({
       where: { id: subscriptionId },
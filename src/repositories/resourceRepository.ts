@@ -0,0 +1,223 @@
+import { ClassSessionStatus, Prisma, PrismaClient } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { ACTIVE_APPOINTMENT_STATUSES } from '../constants/appointmentStatus';
+import {
+  BusinessResourceData,
+  ResourceBooking,
+  ResourceNeed,
+  ServiceResourceRequirement
+} from '../types/resource';
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+export class ResourceRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // ===== RESOURCES =====
+
+  async create(data: Prisma.BusinessResourceUncheckedCreateInput): Promise<BusinessResourceData> {
+    const result = await this.prisma.businessResource.create({ data });
+    return this.mapToResourceData(result);
+  }
+
+  async findById(id: string): Promise<BusinessResourceData | null> {
+    const result = await this.prisma.businessResource.findUnique({ where: { id } });
+    return result ? this.mapToResourceData(result) : null;
+  }
+
+  async findByBusiness(businessId: string, activeOnly = false): Promise<BusinessResourceData[]> {
+    const result = await this.prisma.businessResource.findMany({
+      where: { businessId, ...(activeOnly ? { isActive: true } : {}) },
+      orderBy: { name: 'asc' }
+    });
+    return result.map(resource => this.mapToResourceData(resource));
+  }
+
+  async existsByNameAndBusiness(name: string, businessId: string, excludeId?: string): Promise<boolean> {
+    const count = await this.prisma.businessResource.count({
+      where: { businessId, name, ...(excludeId ? { id: { not: excludeId } } : {}) }
+    });
+    return count > 0;
+  }
+
+  async update(id: string, data: Prisma.BusinessResourceUpdateInput): Promise<BusinessResourceData> {
+    const result = await this.prisma.businessResource.update({ where: { id }, data });
+    return this.mapToResourceData(result);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.businessResource.delete({ where: { id } });
+  }
+
+  /** Largest quantity any service asks of the resource (0 when unused). */
+  async findMaxRequiredQuantity(resourceId: string): Promise<number> {
+    const result = await this.prisma.serviceResource.aggregate({
+      where: { resourceId },
+      _max: { quantity: true }
+    });
+    return result._max.quantity ?? 0;
+  }
+
+  // ===== SERVICE REQUIREMENTS =====
+
+  async findServiceRequirements(serviceId: string): Promise<ServiceResourceRequirement[]> {
+    const result = await this.prisma.serviceResource.findMany({
+      where: { serviceId },
+      include: {
+        resource: { select: { id: true, name: true, type: true, capacity: true, isActive: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+    return result.map(requirement => ({
+      resourceId: requirement.resourceId,
+      quantity: requirement.quantity,
+      resource: requirement.resource
+    }));
+  }
+
+  /** Replaces everything the service needs; an empty list removes all requirements. */
+  async replaceServiceRequirements(
+    serviceId: string,
+    requirements: Array<{ resourceId: string; quantity: number }>
+  ): Promise<ServiceResourceRequirement[]> {
+    await this.prisma.$transaction([
+      this.prisma.serviceResource.deleteMany({ where: { serviceId } }),
+      this.prisma.serviceResource.createMany({
+        data: requirements.map(requirement => ({
+          id: `srs_${randomUUID()}`,
+          serviceId,
+          resourceId: requirement.resourceId,
+          quantity: requirement.quantity
+        }))
+      })
+    ]);
+    return this.findServiceRequirements(serviceId);
+  }
+
+  /**
+   * Enforced needs per service. Inactive resources are not tracked, so they
+   * never block a booking.
+   */
+  async findNeedsForServices(serviceIds: string[]): Promise<Map<string, ResourceNeed[]>> {
+    const needs = new Map<string, ResourceNeed[]>();
+    if (serviceIds.length === 0) {
+      return needs;
+    }
+
+    const result = await this.prisma.serviceResource.findMany({
+      where: { serviceId: { in: serviceIds }, resource: { isActive: true } },
+      include: { resource: { select: { capacity: true } } }
+    });
+    for (const requirement of result) {
+      const list = needs.get(requirement.serviceId) || [];
+      list.push({
+        resourceId: requirement.resourceId,
+        quantity: requirement.quantity,
+        capacity: requirement.resource.capacity
+      });
+      needs.set(requirement.serviceId, list);
+    }
+    return needs;
+  }
+
+  // ===== USAGE =====
+
+  /**
+   * Units of the given resources taken by active appointments and scheduled
+   * classes overlapping [from, to). A class takes its room once however many
+   * seats are booked, so seat appointments are not counted individually. Pass
+   * the transaction client to read under the resource locks.
+   */
+  async findResourceBookings(
+    businessId: string,
+    resourceIds: string[],
+    from: Date,
+    to: Date,
+    excludeAppointmentIds: string[] = [],
+    client: Client = this.prisma
+  ): Promise<ResourceBooking[]> {
+    if (resourceIds.length === 0) {
+      return [];
+    }
+
+    const appointments = await client.appointment.findMany({
+      where: {
+        businessId,
+        status: { in: ACTIVE_APPOINTMENT_STATUSES },
+        classSessionId: null,
+        startTime: { lt: to },
+        endTime: { gt: from },
+        ...(excludeAppointmentIds.length > 0 ? { id: { notIn: excludeAppointmentIds } } : {}),
+        service: { resources: { some: { resourceId: { in: resourceIds } } } }
+      },
+      select: {
+        startTime: true,
+        endTime: true,
+        service: {
+          select: {
+            resources: {
+              where: { resourceId: { in: resourceIds } },
+              select: { resourceId: true, quantity: true }
+            }
+          }
+        }
+      }
+    });
+
+    const classes = await client.classSession.findMany({
+      where: {
+        businessId,
+        status: ClassSessionStatus.SCHEDULED,
+        startTime: { lt: to },
+        endTime: { gt: from },
+        service: { resources: { some: { resourceId: { in: resourceIds } } } }
+      },
+      select: {
+        startTime: true,
+        endTime: true,
+        service: {
+          select: {
+            resources: {
+              where: { resourceId: { in: resourceIds } },
+              select: { resourceId: true, quantity: true }
+            }
+          }
+        }
+      }
+    });
+
+    return [...appointments, ...classes].flatMap(booking =>
+      booking.service.resources.map(requirement => ({
+        start: booking.startTime,
+        end: booking.endTime,
+        resourceId: requirement.resourceId,
+        quantity: requirement.quantity
+      }))
+    );
+  }
+
+  /**
+   * Serialises bookings that share a resource until the transaction ends. Locks
+   * are taken in a stable order so two bookings never wait on each other.
+   */
+  async lockResources(tx: Prisma.TransactionClient, resourceIds: string[]): Promise<void> {
+    for (const resourceId of [...new Set(resourceIds)].sort()) {
+      // $executeRaw: pg_advisory_xact_lock returns void, which $queryRaw cannot deserialize
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`resource:${resourceId}`}))`;
+    }
+  }
+
+  private mapToResourceData(result: any): BusinessResourceData {
+    return {
+      id: result.id,
+      businessId: result.businessId,
+      name: result.name,
+      type: result.type,
+      capacity: result.capacity,
+      description: result.description || undefined,
+      isActive: result.isActive,
+      createdAt: result.createdAt,
+      updatedAt: result.updatedAt
+    };
+  }
+}
@@ -1,9 +1,24 @@
-import { PrismaClient, Prisma, Service as PrismaService } from '@prisma/client';
+import { PrismaClient, Prisma, Service as PrismaService, ServiceStaff as PrismaServiceStaff } from '@prisma/client';
 import {
+  BookingReleaseSchedule,
+  ServicePricing,
   ServiceData,
+  ServiceStaffOverride,
   CreateServiceRequest,
-  UpdateServiceRequest
+  UpdateServiceRequest,
+  UpdateServiceStaffOverrideRequest
 } from '../types/business';
+import { parseServicePricing, scaleServicePricing } from '../services/domain/offering/dynamicPricing';
+
+/** Json columns take DbNull rather than null to clear them */
+function toJsonInput(
+  value: BookingReleaseSchedule | ServicePricing | null | undefined
+): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value === null ? Prisma.DbNull : (JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue);
+}
 
 export class ServiceRepository {
   constructor(private prisma: PrismaClient) {}
@@ -18,10 +33,17 @@ export class ServiceRepository {
       price: Number(service.price),
       currency: service.currency,
       isActive: service.isActive,
+      showPrice: service.showPrice,
       sortOrder: service.sortOrder,
+      pricing: parseServicePricing(service.pricing) ?? undefined,
       bufferTime: service.bufferTime,
-      maxAdvanceBooking: service.maxAdvanceBooking,
-      minAdvanceBooking: service.minAdvanceBooking,
+      maxAdvanceBooking: service.maxAdvanceBooking ?? undefined,
+      minAdvanceBooking: service.minAdvanceBooking ?? undefined,
+      bookingRelease: (service.bookingRelease as BookingReleaseSchedule | null) ?? undefined,
+      isGroupSession: service.isGroupSession,
+      maxSeats: service.maxSeats,
+      depositType: service.depositType,
+      depositValue: service.depositValue !== null ? Number(service.depositValue) : undefined,
       createdAt: service.createdAt,
       updatedAt: service.updatedAt
     } as ServiceData;
@@ -47,8 +69,14 @@ export class ServiceRepository {
         isActive: true,
         sortOrder: (maxSortOrder._max.sortOrder || 0) + 1,
         bufferTime: data.bufferTime || 0,
-        maxAdvanceBooking: data.maxAdvanceBooking || 30,
-        minAdvanceBooking: data.minAdvanceBooking || 0
+        maxAdvanceBooking: data.maxAdvanceBooking ?? null,
+        minAdvanceBooking: data.minAdvanceBooking ?? null,
+        bookingRelease: toJsonInput(data.bookingRelease),
+        pricing: toJsonInput(data.pricing),
+        isGroupSession: data.isGroupSession || false,
+        maxSeats: data.maxSeats || 1,
+        depositType: data.depositType || 'NONE',
+        depositValue: data.depositValue ?? null
       }
     });
     return this.mapPrismaServiceToServiceData(result);
@@ -97,9 +125,14 @@ export class ServiceRepository {
   }
 
   async update(id: string, data: UpdateServiceRequest): Promise<ServiceData> {
+    const { bookingRelease, pricing, ...rest } = data;
     const result = await this.prisma.service.update({
       where: { id },
-      data
+      data: {
+        ...rest,
+        ...(bookingRelease !== undefined && { bookingRelease: toJsonInput(bookingRelease) }),
+        ...(pricing !== undefined && { pricing: toJsonInput(pricing) })
+      }
     });
     return this.mapPrismaServiceToServiceData(result);
   }
@@ -150,12 +183,36 @@ export class ServiceRepository {
     };
   }
 
+  /**
+   * Multiplies every price of the business: the services, the staff members' prices
+   * for them and the fixed amounts in their pricing rules.
+   */
   async bulkUpdatePrices(businessId: string, priceMultiplier: number): Promise<void> {
-    await this.prisma.service.updateMany({
-      where: { businessId },
-      data: {
-        price: {
-          multiply: priceMultiplier
+    await this.prisma.$transaction(async (tx) => {
+      await tx.service.updateMany({
+        where: { businessId },
+        data: {
+          price: {
+            multiply: priceMultiplier
+          }
+        }
+      });
+      await tx.serviceStaff.updateMany({
+        where: { service: { businessId }, price: { not: null } },
+        data: { price: { multiply: priceMultiplier } }
+      });
+
+      const priced = await tx.service.findMany({
+        where: { businessId, pricing: { not: Prisma.DbNull } },
+        select: { id: true, pricing: true }
+      });
+      for (const service of priced) {
+        const pricing = parseServicePricing(service.pricing);
+        if (pricing) {
+          await tx.service.update({
+            where: { id: service.id },
+            data: { pricing: toJsonInput(scaleServicePricing(pricing, priceMultiplier)) }
+          });
         }
       }
     });
@@ -199,6 +256,13 @@ export class ServiceRepository {
     });
   }
 
+  async getBusinessStaffById(staffId: string, businessId: string): Promise<{ id: string } | null> {
+    return this.prisma.businessStaff.findFirst({
+      where: { id: staffId, businessId, isActive: true },
+      select: { id: true },
+    });
+  }
+
   // --- ServiceStaff (many-to-many) ---
 
   async assignStaffToService(serviceId: string, staffId: string): Promise<void> {
@@ -243,6 +307,58 @@ export class ServiceRepository {
     });
   }
 
+  private mapServiceStaffOverride(record: PrismaServiceStaff): ServiceStaffOverride {
+    return {
+      staffId: record.staffId,
+      duration: record.duration ?? undefined,
+      bufferTime: record.bufferTime ?? undefined,
+      price: record.price !== null ? Number(record.price) : undefined,
+    };
+  }
+
+  /** The active assignment of a staff member to the service, with its overrides */
+  async getStaffOverride(serviceId: string, staffId: string): Promise<ServiceStaffOverride | null> {
+    const record = await this.prisma.serviceStaff.findFirst({
+      where: { serviceId, staffId, isActive: true },
+    });
+    return record ? this.mapServiceStaffOverride(record) : null;
+  }
+
+  async getStaffOverrides(serviceId: string): Promise<ServiceStaffOverride[]> {
+    const records = await this.prisma.serviceStaff.findMany({
+      where: { serviceId, isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return records.map(record => this.mapServiceStaffOverride(record));
+  }
+
+  /** Sets the overrides, assigning the staff member to the service when needed; null clears a value */
+  async setStaffOverride(
+    serviceId: string,
+    staffId: string,
+    data: UpdateServiceStaffOverrideRequest
+  ): Promise<ServiceStaffOverride> {
+    const record = await this.prisma.serviceStaff.upsert({
+      where: { serviceId_staffId: { serviceId, staffId } },
+      create: {
+        id: `ss_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        serviceId,
+        staffId,
+        isActive: true,
+        duration: data.duration ?? null,
+        bufferTime: data.bufferTime ?? null,
+        price: data.price ?? null,
+      },
+      update: {
+        isActive: true,
+        duration: data.duration,
+        bufferTime: data.bufferTime,
+        price: data.price,
+      },
+    });
+    return this.mapServiceStaffOverride(record);
+  }
+
   async getServiceStaffIds(serviceId: string): Promise<string[]> {
     const records = await this.prisma.serviceStaff.findMany({
       where: { serviceId, isActive: true },
@@ -0,0 +1,342 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import {
+  CustomerPackageBalance,
+  CustomerPackageData,
+  PackageCreditStatus,
+  PackageCreditUsageData,
+  SessionPackageData
+} from '../types/sessionPackage';
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+/** What settling the package credit of a completed appointment needs to know about it */
+export interface CompletedAppointmentRef {
+  id: string;
+  customerId: string;
+  businessId: string;
+  serviceId: string;
+  startTime: Date;
+}
+
+/** Packages of the customer covering `serviceId` with credits left that are still valid at `startTime` */
+function usablePackageWhere(
+  customerId: string,
+  businessId: string,
+  serviceId: string,
+  startTime: Date
+): Prisma.CustomerPackageWhereInput {
+  return {
+    customerId,
+    businessId,
+    serviceIds: { has: serviceId },
+    creditsRemaining: { gt: 0 },
+    OR: [{ expiresAt: null }, { expiresAt: { gte: startTime } }]
+  };
+}
+
+// Soonest to expire first so credits are not lost
+const USABLE_PACKAGE_ORDER: Prisma.CustomerPackageOrderByWithRelationInput[] = [
+  { expiresAt: { sort: 'asc', nulls: 'last' } },
+  { purchasedAt: 'asc' }
+];
+
+/**
+ * Spends the package credits of appointments being completed. A held credit is
+ * spent; an appointment holding none (a bundle leg, series occurrence, class
+ * seat, imported booking or one booked before the customer bought the package)
+ * takes one now from a package covering it. Staff completing one appointment and
+ * the jobs completing ended ones in bulk both settle through here.
+ */
+export async function spendCompletedCredits(
+  client: Client,
+  appointments: CompletedAppointmentRef[],
+  at: Date = new Date()
+): Promise<number> {
+  if (appointments.length === 0) {
+    return 0;
+  }
+  const appointmentIds = appointments.map(apt => apt.id);
+  const { count: spent } = await client.packageCreditUsage.updateMany({
+    where: { appointmentId: { in: appointmentIds }, status: 'RESERVED' },
+    data: { status: 'USED', settledAt: at }
+  });
+
+  // Restored or forfeited credits were settled before; only appointments without a usage take one
+  const settled = new Set(
+    (await client.packageCreditUsage.findMany({
+      where: { appointmentId: { in: appointmentIds } },
+      select: { appointmentId: true }
+    })).map(usage => usage.appointmentId)
+  );
+
+  let taken = 0;
+  for (const apt of appointments.filter(apt => !settled.has(apt.id))) {
+    const usable = await client.customerPackage.findFirst({
+      where: usablePackageWhere(apt.customerId, apt.businessId, apt.serviceId, apt.startTime),
+      orderBy: USABLE_PACKAGE_ORDER,
+      select: { id: true }
+    });
+    if (!usable) continue;
+
+    const { count } = await client.customerPackage.updateMany({
+      where: { id: usable.id, creditsRemaining: { gt: 0 } },
+      data: { creditsRemaining: { decrement: 1 } }
+    });
+    if (count === 0) continue;
+
+    await client.packageCreditUsage.create({
+      data: {
+        id: `pcu_${randomUUID()}`,
+        customerPackageId: usable.id,
+        appointmentId: apt.id,
+        businessId: apt.businessId,
+        status: 'USED',
+        settledAt: at
+      }
+    });
+    taken++;
+  }
+
+  return spent + taken;
+}
+
+export class SessionPackageRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // ===== PACKAGE DEFINITIONS =====
+
+  async createPackage(data: {
+    businessId: string;
+    name: string;
+    description?: string;
+    serviceIds: string[];
+    credits: number;
+    validityDays?: number;
+    price: number;
+    currency: string;
+  }): Promise<SessionPackageData> {
+    const result = await this.prisma.sessionPackage.create({
+      data: { id: `spk_${randomUUID()}`, ...data }
+    });
+    return this.mapToPackageData(result);
+  }
+
+  async findPackageById(id: string): Promise<SessionPackageData | null> {
+    const result = await this.prisma.sessionPackage.findUnique({ where: { id } });
+    return result ? this.mapToPackageData(result) : null;
+  }
+
+  async findPackagesByBusiness(businessId: string, includeInactive = false): Promise<SessionPackageData[]> {
+    const result = await this.prisma.sessionPackage.findMany({
+      where: { businessId, ...(includeInactive ? {} : { isActive: true }) },
+      orderBy: { createdAt: 'asc' }
+    });
+    return result.map(pkg => this.mapToPackageData(pkg));
+  }
+
+  async updatePackage(
+    id: string,
+    data: Partial<Omit<SessionPackageData, 'id' | 'businessId' | 'createdAt' | 'updatedAt'>>
+  ): Promise<SessionPackageData> {
+    const result = await this.prisma.sessionPackage.update({ where: { id }, data });
+    return this.mapToPackageData(result);
+  }
+
+  // ===== CUSTOMER PACKAGES =====
+
+  async createCustomerPackage(data: {
+    businessId: string;
+    customerId: string;
+    packageId: string;
+    name: string;
+    serviceIds: string[];
+    credits: number;
+    pricePaid: number;
+    currency: string;
+    expiresAt?: Date;
+    soldBy: string;
+  }): Promise<CustomerPackageData> {
+    const { credits, ...rest } = data;
+    const result = await this.prisma.customerPackage.create({
+      data: {
+        id: `cpk_${randomUUID()}`,
+        ...rest,
+        creditsTotal: credits,
+        creditsRemaining: credits
+      }
+    });
+    return this.mapToCustomerPackageData(result);
+  }
+
+  async findCustomerPackageById(id: string): Promise<CustomerPackageData | null> {
+    const result = await this.prisma.customerPackage.findUnique({ where: { id } });
+    return result ? this.mapToCustomerPackageData(result) : null;
+  }
+
+  /**
+   * The package an appointment of `serviceId` starting at `startTime` takes its
+   * credit from: one with credits left that is still valid then, soonest to
+   * expire first so credits are not lost
+   */
+  async findUsablePackage(
+    customerId: string,
+    businessId: string,
+    serviceId: string,
+    startTime: Date,
+    client: Client = this.prisma
+  ): Promise<CustomerPackageData | null> {
+    const result = await client.customerPackage.findFirst({
+      where: usablePackageWhere(customerId, businessId, serviceId, startTime),
+      orderBy: USABLE_PACKAGE_ORDER
+    });
+    return result ? this.mapToCustomerPackageData(result) : null;
+  }
+
+  /** The customer's packages at the business with how their credits were spent, newest first */
+  async findBalances(customerId: string, businessId: string, now = new Date()): Promise<CustomerPackageBalance[]> {
+    const packages = await this.prisma.customerPackage.findMany({
+      where: { customerId, businessId },
+      include: { creditUsages: { select: { status: true } } },
+      orderBy: { purchasedAt: 'desc' }
+    });
+
+    return packages.map(pkg => {
+      const count = (status: PackageCreditStatus) =>
+        pkg.creditUsages.filter(usage => usage.status === status).length;
+      return {
+        id: pkg.id,
+        name: pkg.name,
+        serviceIds: pkg.serviceIds,
+        creditsTotal: pkg.creditsTotal,
+        creditsRemaining: pkg.creditsRemaining,
+        creditsReserved: count('RESERVED'),
+        // Forfeited credits were spent as well, on a late cancellation or no-show
+        creditsUsed: count('USED') + count('FORFEITED'),
+        purchasedAt: pkg.purchasedAt,
+        expiresAt: pkg.expiresAt || undefined,
+        isExpired: !!pkg.expiresAt && pkg.expiresAt < now
+      };
+    });
+  }
+
+  // ===== CREDITS =====
+
+  /**
+   * Holds one credit of the package for the appointment until it is settled.
+   * Returns null when the package has none left, e.g. another booking took the
+   * last one meanwhile.
+   */
+  async takeCredit(
+    customerPackageId: string,
+    data: { appointmentId: string; businessId: string },
+    client: Client = this.prisma
+  ): Promise<PackageCreditUsageData | null> {
+    const { count } = await client.customerPackage.updateMany({
+      where: { id: customerPackageId, creditsRemaining: { gt: 0 } },
+      data: { creditsRemaining: { decrement: 1 } }
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    const result = await client.packageCreditUsage.create({
+      data: {
+        id: `pcu_${randomUUID()}`,
+        customerPackageId,
+        appointmentId: data.appointmentId,
+        businessId: data.businessId,
+        status: 'RESERVED'
+      }
+    });
+    return this.mapToUsageData(result);
+  }
+
+  async findUsageByAppointment(appointmentId: string, client: Client = this.prisma): Promise<PackageCreditUsageData | null> {
+    const result = await client.packageCreditUsage.findUnique({ where: { appointmentId } });
+    return result ? this.mapToUsageData(result) : null;
+  }
+
+  /** Spends the credit of a completed appointment, taking one if it holds none; false when no package covers it */
+  async spendCompletedCredit(appointment: CompletedAppointmentRef): Promise<boolean> {
+    return this.prisma.$transaction(async (tx) => (await spendCompletedCredits(tx, [appointment])) > 0);
+  }
+
+  /**
+   * Settles the credit of an appointment that ended without being completed; a
+   * restored credit goes back to the package. False when the appointment holds
+   * none (or it was settled already).
+   */
+  async settleReservedCredit(
+    appointmentId: string,
+    status: Extract<PackageCreditStatus, 'RESTORED' | 'FORFEITED'>
+  ): Promise<boolean> {
+    return this.prisma.$transaction(async (tx) => {
+      const usage = await tx.packageCreditUsage.findUnique({ where: { appointmentId } });
+      if (!usage) return false;
+
+      const { count } = await tx.packageCreditUsage.updateMany({
+        where: { id: usage.id, status: 'RESERVED' },
+        data: { status, settledAt: new Date() }
+      });
+      if (count === 0) return false;
+
+      if (status === 'RESTORED') {
+        await tx.customerPackage.update({
+          where: { id: usage.customerPackageId },
+          data: { creditsRemaining: { increment: 1 } }
+        });
+      }
+      return true;
+    });
+  }
+
+  private mapToPackageData(result: Prisma.SessionPackageGetPayload<object>): SessionPackageData {
+    return {
+      id: result.id,
+      businessId: result.businessId,
+      name: result.name,
+      description: result.description || undefined,
+      serviceIds: result.serviceIds,
+      credits: result.credits,
+      validityDays: result.validityDays ?? undefined,
+      price: Number(result.price),
+      currency: result.currency,
+      isActive: result.isActive,
+      createdAt: result.createdAt,
+      updatedAt: result.updatedAt
+    };
+  }
+
+  private mapToCustomerPackageData(result: Prisma.CustomerPackageGetPayload<object>): CustomerPackageData {
+    return {
+      id: result.id,
+      businessId: result.businessId,
+      customerId: result.customerId,
+      packageId: result.packageId,
+      name: result.name,
+      serviceIds: result.serviceIds,
+      creditsTotal: result.creditsTotal,
+      creditsRemaining: result.creditsRemaining,
+      pricePaid: Number(result.pricePaid),
+      currency: result.currency,
+      purchasedAt: result.purchasedAt,
+      expiresAt: result.expiresAt || undefined,
+      soldBy: result.soldBy,
+      createdAt: result.createdAt,
+      updatedAt: result.updatedAt
+    };
+  }
+
+  private mapToUsageData(result: Prisma.PackageCreditUsageGetPayload<object>): PackageCreditUsageData {
+    return {
+      id: result.id,
+      customerPackageId: result.customerPackageId,
+      appointmentId: result.appointmentId,
+      businessId: result.businessId,
+      status: result.status,
+      createdAt: result.createdAt,
+      settledAt: result.settledAt || undefined
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import { Prisma, PrismaClient, StaffExternalCalendar } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import {
+  StaffExternalBusyData,
+  StaffExternalCalendarData
+} from '../types/staffExternalCalendar';
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+/** The stored ICS text is only needed for re-imports and never leaves the repository */
+export type StaffExternalCalendarWithContent = StaffExternalCalendarData & { icsContent?: string };
+
+export class StaffExternalCalendarRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: Prisma.StaffExternalCalendarUncheckedCreateInput): Promise<StaffExternalCalendarData> {
+    const result = await this.prisma.staffExternalCalendar.create({ data });
+    return this.mapToCalendarData(result);
+  }
+
+  async findById(id: string): Promise<StaffExternalCalendarWithContent | null> {
+    const result = await this.prisma.staffExternalCalendar.findUnique({ where: { id } });
+    return result ? { ...this.mapToCalendarData(result), icsContent: result.icsContent ?? undefined } : null;
+  }
+
+  async findByBusiness(businessId: string, staffId?: string): Promise<StaffExternalCalendarData[]> {
+    const result = await this.prisma.staffExternalCalendar.findMany({
+      where: { businessId, ...(staffId ? { staffId } : {}) },
+      orderBy: { createdAt: 'asc' }
+    });
+    return result.map((calendar) => this.mapToCalendarData(calendar));
+  }
+
+  /** Active calendars not imported since `before`, oldest first */
+  async findDueForImport(before: Date, limit: number): Promise<StaffExternalCalendarWithContent[]> {
+    const result = await this.prisma.staffExternalCalendar.findMany({
+      where: {
+        isActive: true,
+        OR: [{ lastImportedAt: null }, { lastImportedAt: { lt: before } }]
+      },
+      orderBy: { lastImportedAt: { sort: 'asc', nulls: 'first' } },
+      take: limit
+    });
+    return result.map((calendar) => ({ ...this.mapToCalendarData(calendar), icsContent: calendar.icsContent ?? undefined }));
+  }
+
+  async update(id: string, data: Prisma.StaffExternalCalendarUpdateInput): Promise<StaffExternalCalendarData> {
+    const result = await this.prisma.staffExternalCalendar.update({ where: { id }, data });
+    return this.mapToCalendarData(result);
+  }
+
+  /** Stops importing and honouring every calendar of the staff member */
+  async deactivateByStaff(staffId: string): Promise<number> {
+    const result = await this.prisma.staffExternalCalendar.updateMany({
+      where: { staffId, isActive: true },
+      data: { isActive: false }
+    });
+    return result.count;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.staffExternalCalendar.delete({ where: { id } });
+  }
+
+  /** Swaps the calendar's busy intervals for a fresh import in one transaction */
+  async replaceBusyIntervals(
+    calendarId: string,
+    staffId: string,
+    intervals: { uid: string; start: Date; end: Date }[],
+    importedAt: Date
+  ): Promise<StaffExternalCalendarData> {
+    const [, , calendar] = await this.prisma.$transaction([
+      this.prisma.staffExternalBusy.deleteMany({ where: { calendarId } }),
+      this.prisma.staffExternalBusy.createMany({
+        data: intervals.map((interval) => ({
+          id: `seb_${randomUUID()}`,
+          calendarId,
+          staffId,
+          externalUid: interval.uid,
+          startTime: interval.start,
+          endTime: interval.end
+        }))
+      }),
+      this.prisma.staffExternalCalendar.update({
+        where: { id: calendarId },
+        data: { busyCount: intervals.length, lastImportedAt: importedAt, lastImportError: null }
+      })
+    ]);
+    return this.mapToCalendarData(calendar);
+  }
+
+  /** Busy intervals of active calendars of any of the staff members that intersect [start, end) */
+  async findBusyOverlapping(
+    staffIds: string[],
+    start: Date,
+    end: Date,
+    client: Client = this.prisma
+  ): Promise<StaffExternalBusyData[]> {
+    if (staffIds.length === 0) {
+      return [];
+    }
+    return client.staffExternalBusy.findMany({
+      where: {
+        staffId: { in: staffIds },
+        startTime: { lt: end },
+        endTime: { gt: start },
+        calendar: { isActive: true }
+      },
+      select: { id: true, calendarId: true, staffId: true, startTime: true, endTime: true },
+      orderBy: { startTime: 'asc' }
+    });
+  }
+
+  private mapToCalendarData(calendar: StaffExternalCalendar): StaffExternalCalendarData {
+    return {
+      id: calendar.id,
+      businessId: calendar.businessId,
+      staffId: calendar.staffId,
+      name: calendar.name,
+      sourceType: calendar.sourceType,
+      sourceUrl: calendar.sourceUrl ?? undefined,
+      isActive: calendar.isActive,
+      busyCount: calendar.busyCount,
+      lastImportedAt: calendar.lastImportedAt ?? undefined,
+      lastImportError: calendar.lastImportError ?? undefined,
+      createdBy: calendar.createdBy,
+      createdAt: calendar.createdAt,
+      updatedAt: calendar.updatedAt
+    };
+  }
+}
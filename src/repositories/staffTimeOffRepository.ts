@@ -0,0 +1,143 @@
+import { Prisma, PrismaClient, StaffTimeOff } from '@prisma/client';
+import { ACTIVE_APPOINTMENT_STATUSES } from '../constants/appointmentStatus';
+import { StaffTimeOffData, StaffTimeOffStatus } from '../types/staffTimeOff';
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+const staffSelect = {
+  select: { id: true, user: { select: { firstName: true, lastName: true } } }
+} as const;
+
+type StaffTimeOffWithStaff = StaffTimeOff & {
+  staff?: { id: string; user: { firstName: string | null; lastName: string | null } };
+};
+
+export class StaffTimeOffRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: Prisma.StaffTimeOffUncheckedCreateInput): Promise<StaffTimeOffData> {
+    const result = await this.prisma.staffTimeOff.create({ data, include: { staff: staffSelect } });
+    return this.mapToTimeOffData(result);
+  }
+
+  async findById(id: string): Promise<StaffTimeOffData | null> {
+    const result = await this.prisma.staffTimeOff.findUnique({ where: { id }, include: { staff: staffSelect } });
+    return result ? this.mapToTimeOffData(result) : null;
+  }
+
+  async findByBusiness(
+    businessId: string,
+    filters: { staffId?: string; status?: StaffTimeOffStatus; from?: Date; to?: Date } = {}
+  ): Promise<StaffTimeOffData[]> {
+    const result = await this.prisma.staffTimeOff.findMany({
+      where: {
+        businessId,
+        ...(filters.staffId ? { staffId: filters.staffId } : {}),
+        ...(filters.status ? { status: filters.status } : {}),
+        ...(filters.to ? { startTime: { lt: filters.to } } : {}),
+        ...(filters.from ? { endTime: { gt: filters.from } } : {})
+      },
+      include: { staff: staffSelect },
+      orderBy: { startTime: 'asc' }
+    });
+    return result.map((entry) => this.mapToTimeOffData(entry));
+  }
+
+  async update(id: string, data: Prisma.StaffTimeOffUpdateInput): Promise<StaffTimeOffData> {
+    const result = await this.prisma.staffTimeOff.update({ where: { id }, data, include: { staff: staffSelect } });
+    return this.mapToTimeOffData(result);
+  }
+
+  /**
+   * Moves an entry out of `from` only if it is still there, so two reviewers (or a
+   * review racing a cancellation) cannot both act on it.
+   */
+  async transition(
+    id: string,
+    from: StaffTimeOffStatus[],
+    data: Prisma.StaffTimeOffUpdateManyMutationInput
+  ): Promise<boolean> {
+    const result = await this.prisma.staffTimeOff.updateMany({
+      where: { id, status: { in: from } },
+      data
+    });
+    return result.count === 1;
+  }
+
+  /** Approved time off of any of the staff members that intersects [start, end) */
+  async findApprovedOverlapping(
+    staffIds: string[],
+    start: Date,
+    end: Date,
+    client: Client = this.prisma
+  ): Promise<StaffTimeOffData[]> {
+    if (staffIds.length === 0) {
+      return [];
+    }
+    const result = await client.staffTimeOff.findMany({
+      where: {
+        staffId: { in: staffIds },
+        status: 'APPROVED',
+        startTime: { lt: end },
+        endTime: { gt: start }
+      },
+      orderBy: { startTime: 'asc' }
+    });
+    return result.map((entry) => this.mapToTimeOffData(entry));
+  }
+
+  /** Active appointments of the staff member that intersect [start, end) */
+  async findAffectedAppointments(staffId: string, start: Date, end: Date) {
+    return this.prisma.appointment.findMany({
+      where: {
+        staffId,
+        status: { in: ACTIVE_APPOINTMENT_STATUSES },
+        startTime: { lt: end },
+        endTime: { gt: start }
+      },
+      select: {
+        id: true,
+        customerId: true,
+        serviceId: true,
+        date: true,
+        startTime: true,
+        endTime: true,
+        status: true,
+        bundleId: true,
+        classSessionId: true,
+        customer: { select: { firstName: true, lastName: true } },
+        service: { select: { name: true } }
+      },
+      orderBy: { startTime: 'asc' }
+    });
+  }
+
+  private mapToTimeOffData(entry: StaffTimeOffWithStaff): StaffTimeOffData {
+    return {
+      id: entry.id,
+      businessId: entry.businessId,
+      staffId: entry.staffId,
+      type: entry.type,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      isFullDay: entry.isFullDay,
+      reason: entry.reason ?? undefined,
+      status: entry.status,
+      requestedBy: entry.requestedBy,
+      reviewedBy: entry.reviewedBy ?? undefined,
+      reviewedAt: entry.reviewedAt ?? undefined,
+      reviewNote: entry.reviewNote ?? undefined,
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt,
+      ...(entry.staff
+        ? {
+            staff: {
+              id: entry.staff.id,
+              firstName: entry.staff.user.firstName,
+              lastName: entry.staff.user.lastName
+            }
+          }
+        : {})
+    };
+  }
+}
@@ -0,0 +1,214 @@
+import { Prisma, PrismaClient, WaitlistOfferStatus, WaitlistStatus } from '@prisma/client';
+import { WaitlistEntryData, WaitlistOfferData } from '../types/waitlist';
+
+export class WaitlistRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // ===== ENTRIES =====
+
+  async createEntry(data: Prisma.WaitlistEntryUncheckedCreateInput): Promise<WaitlistEntryData> {
+    const result = await this.prisma.waitlistEntry.create({ data });
+    return this.mapToEntryData(result);
+  }
+
+  async findEntryById(id: string): Promise<WaitlistEntryData | null> {
+    const result = await this.prisma.waitlistEntry.findUnique({
+      where: { id },
+      include: { offers: { orderBy: { createdAt: 'desc' } } }
+    });
+    return result ? this.mapToEntryData(result) : null;
+  }
+
+  /** A customer can only wait once per service at a time. */
+  async findOpenEntry(customerId: string, serviceId: string): Promise<WaitlistEntryData | null> {
+    const result = await this.prisma.waitlistEntry.findFirst({
+      where: {
+        customerId,
+        serviceId,
+        status: { in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED] }
+      }
+    });
+    return result ? this.mapToEntryData(result) : null;
+  }
+
+  async findEntriesByCustomer(customerId: string): Promise<WaitlistEntryData[]> {
+    const result = await this.prisma.waitlistEntry.findMany({
+      where: { customerId },
+      include: {
+        offers: { orderBy: { createdAt: 'desc' } },
+        service: { select: { id: true, name: true, duration: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    });
+    return result.map(entry => this.mapToEntryData(entry));
+  }
+
+  /** Open entries whose date window covers the given day, oldest first. */
+  async findEntriesForDay(businessId: string, day: Date, staffId?: string): Promise<WaitlistEntryData[]> {
+    const result = await this.prisma.waitlistEntry.findMany({
+      where: {
+        businessId,
+        dateFrom: { lte: day },
+        dateTo: { gte: day },
+        status: { in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED] },
+        ...(staffId ? { OR: [{ staffId }, { staffId: null }] } : {})
+      },
+      include: {
+        offers: { orderBy: { createdAt: 'desc' } },
+        customer: { select: { id: true, firstName: true, lastName: true, phoneNumber: true } },
+        service: { select: { id: true, name: true, duration: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+    return result.map(entry => this.mapToEntryData(entry));
+  }
+
+  /**
+   * Entries that may receive an offer for a freed slot on `day`, in join order.
+   * Entries already offered this exact slot are excluded so a declined or expired
+   * offer moves on to the next person instead of looping.
+   */
+  async findOfferCandidates(
+    businessId: string,
+    day: Date,
+    excludeEntryIds: string[] = []
+  ): Promise<WaitlistEntryData[]> {
+    const result = await this.prisma.waitlistEntry.findMany({
+      where: {
+        businessId,
+        status: WaitlistStatus.WAITING,
+        dateFrom: { lte: day },
+        dateTo: { gte: day },
+        ...(excludeEntryIds.length > 0 ? { id: { notIn: excludeEntryIds } } : {})
+      },
+      include: {
+        service: { select: { id: true, name: true, duration: true } }
+      },
+      orderBy: { createdAt: 'asc' },
+      take: 50
+    });
+    return result.map(entry => this.mapToEntryData(entry));
+  }
+
+  async updateEntry(id: string, data: Prisma.WaitlistEntryUncheckedUpdateInput): Promise<WaitlistEntryData> {
+    const result = await this.prisma.waitlistEntry.update({ where: { id }, data });
+    return this.mapToEntryData(result);
+  }
+
+  /** Closes WAITING entries whose date window ended before `today`. */
+  async expireEndedEntries(today: Date): Promise<number> {
+    const result = await this.prisma.waitlistEntry.updateMany({
+      where: { status: WaitlistStatus.WAITING, dateTo: { lt: today } },
+      data: { status: WaitlistStatus.EXPIRED }
+    });
+    return result.count;
+  }
+
+  // ===== OFFERS =====
+
+  async createOffer(data: Prisma.WaitlistOfferUncheckedCreateInput): Promise<WaitlistOfferData> {
+    const result = await this.prisma.waitlistOffer.create({ data });
+    return this.mapToOfferData(result);
+  }
+
+  async findOfferById(id: string): Promise<WaitlistOfferData | null> {
+    const result = await this.prisma.waitlistOffer.findUnique({ where: { id } });
+    return result ? this.mapToOfferData(result) : null;
+  }
+
+  async updateOffer(id: string, data: Prisma.WaitlistOfferUncheckedUpdateInput): Promise<WaitlistOfferData> {
+    const result = await this.prisma.waitlistOffer.update({ where: { id }, data });
+    return this.mapToOfferData(result);
+  }
+
+  async findPendingOfferForEntry(entryId: string): Promise<WaitlistOfferData | null> {
+    const result = await this.prisma.waitlistOffer.findFirst({
+      where: { entryId, status: WaitlistOfferStatus.PENDING },
+      orderBy: { createdAt: 'desc' }
+    });
+    return result ? this.mapToOfferData(result) : null;
+  }
+
+  async findExpiredPendingOffers(now: Date, limit = 100): Promise<WaitlistOfferData[]> {
+    const result = await this.prisma.waitlistOffer.findMany({
+      where: { status: WaitlistOfferStatus.PENDING, expiresAt: { lte: now } },
+      orderBy: { expiresAt: 'asc' },
+      take: limit
+    });
+    return result.map(offer => this.mapToOfferData(offer));
+  }
+
+  /** Entry IDs that already received an offer for the slot freed by this appointment. */
+  async findEntryIdsOfferedForSource(sourceAppointmentId: string): Promise<string[]> {
+    const result = await this.prisma.waitlistOffer.findMany({
+      where: { sourceAppointmentId },
+      select: { entryId: true }
+    });
+    return result.map(offer => offer.entryId);
+  }
+
+  /**
+   * Pending, unexpired offers overlapping [from, to). These slots are held for the
+   * offered customer; with a staffId, unassigned holds also count.
+   */
+  async findActiveHolds(
+    businessId: string,
+    from: Date,
+    to: Date,
+    staffId?: string
+  ): Promise<WaitlistOfferData[]> {
+    const result = await this.prisma.waitlistOffer.findMany({
+      where: {
+        businessId,
+        status: WaitlistOfferStatus.PENDING,
+        expiresAt: { gt: new Date() },
+        startTime: { lt: to },
+        endTime: { gt: from },
+        ...(staffId ? { OR: [{ staffId }, { staffId: null }] } : {})
+      },
+      include: { entry: { select: { customerId: true } } }
+    });
+    return result.map(offer => ({ ...this.mapToOfferData(offer), customerId: offer.entry.customerId }));
+  }
+
+  private mapToOfferData(result: any): WaitlistOfferData {
+    return {
+      id: result.id,
+      entryId: result.entryId,
+      businessId: result.businessId,
+      serviceId: result.serviceId,
+      staffId: result.staffId || undefined,
+      sourceAppointmentId: result.sourceAppointmentId || undefined,
+      startTime: result.startTime,
+      endTime: result.endTime,
+      status: result.status,
+      expiresAt: result.expiresAt,
+      respondedAt: result.respondedAt || undefined,
+      appointmentId: result.appointmentId || undefined,
+      createdAt: result.createdAt
+    };
+  }
+
+  private mapToEntryData(result: any): WaitlistEntryData {
+    return {
+      id: result.id,
+      businessId: result.businessId,
+      serviceId: result.serviceId,
+      staffId: result.staffId || undefined,
+      customerId: result.customerId,
+      dateFrom: result.dateFrom,
+      dateTo: result.dateTo,
+      earliestTime: result.earliestTime || undefined,
+      latestTime: result.latestTime || undefined,
+      status: result.status,
+      notes: result.notes || undefined,
+      appointmentId: result.appointmentId || undefined,
+      createdAt: result.createdAt,
+      updatedAt: result.updatedAt,
+      ...(result.offers ? { offers: result.offers.map((offer: any) => this.mapToOfferData(offer)) } : {}),
+      ...(result.customer ? { customer: result.customer } : {}),
+      ...(result.service ? { service: result.service } : {})
+    };
+  }
+}
@@ -0,0 +1,171 @@
+import { AppointmentStatus, Prisma, PrismaClient, WalkInTicket } from '@prisma/client';
+import { WalkInTicketData, WalkInTicketStatus } from '../types/walkInQueue';
+
+const serviceSelect = { select: { id: true, name: true, duration: true } } as const;
+
+type WalkInTicketWithService = WalkInTicket & {
+  service?: { id: string; name: string; duration: number };
+};
+
+/** Attempts at taking the next ticket number before giving up on a busy counter */
+const NUMBER_ATTEMPTS = 3;
+
+export class WalkInQueueRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Creates the ticket with the next number of its business and day. Two tickets
+   * taken at the same moment can pick the same number; the unique index refuses the
+   * second one and it takes the number after.
+   */
+  async create(data: Omit<Prisma.WalkInTicketUncheckedCreateInput, 'number'>): Promise<WalkInTicketData> {
+    for (let attempt = 1; ; attempt++) {
+      const last = await this.prisma.walkInTicket.aggregate({
+        where: { businessId: data.businessId, queueDate: data.queueDate },
+        _max: { number: true }
+      });
+      try {
+        const result = await this.prisma.walkInTicket.create({
+          data: { ...data, number: (last._max.number || 0) + 1 },
+          include: { service: serviceSelect }
+        });
+        return this.mapToTicketData(result);
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'P2002' || attempt >= NUMBER_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async findById(id: string): Promise<WalkInTicketData | null> {
+    const result = await this.prisma.walkInTicket.findUnique({ where: { id }, include: { service: serviceSelect } });
+    return result ? this.mapToTicketData(result) : null;
+  }
+
+  /** Tickets of a business day in the order they were taken */
+  async findForDay(
+    businessId: string,
+    queueDate: Date,
+    statuses?: WalkInTicketStatus[]
+  ): Promise<WalkInTicketData[]> {
+    const result = await this.prisma.walkInTicket.findMany({
+      where: {
+        businessId,
+        queueDate,
+        ...(statuses ? { status: { in: statuses } } : {})
+      },
+      include: { service: serviceSelect },
+      orderBy: [{ createdAt: 'asc' }, { number: 'asc' }]
+    });
+    return result.map((ticket) => this.mapToTicketData(ticket));
+  }
+
+  /** A customer holds one waiting or called ticket per business at a time */
+  async findOpenByCustomer(customerId: string, businessId: string): Promise<WalkInTicketData | null> {
+    const result = await this.prisma.walkInTicket.findFirst({
+      where: { customerId, businessId, status: { in: ['WAITING', 'CALLED'] } }
+    });
+    return result ? this.mapToTicketData(result) : null;
+  }
+
+  /**
+   * Moves a ticket out of `from` only if it is still there, so two staff members
+   * calling at the same moment cannot both take it.
+   */
+  async transition(
+    id: string,
+    from: WalkInTicketStatus[],
+    data: Prisma.WalkInTicketUncheckedUpdateManyInput
+  ): Promise<boolean> {
+    const result = await this.prisma.walkInTicket.updateMany({
+      where: { id, status: { in: from } },
+      data
+    });
+    return result.count === 1;
+  }
+
+  /**
+   * Average length of the completed appointments of the business since `since`, per
+   * service and staff member.
+   */
+  async findAverageDurations(
+    businessId: string,
+    since: Date
+  ): Promise<Array<{ serviceId: string; staffId: string | null; averageMinutes: number; count: number }>> {
+    const groups = await this.prisma.appointment.groupBy({
+      by: ['serviceId', 'staffId'],
+      where: { businessId, status: AppointmentStatus.COMPLETED, startTime: { gte: since } },
+      _avg: { duration: true },
+      _count: { _all: true }
+    });
+    return groups.map((group) => ({
+      serviceId: group.serviceId,
+      staffId: group.staffId,
+      averageMinutes: group._avg.duration ?? 0,
+      count: group._count._all
+    }));
+  }
+
+  /** Active staff assignments of the services */
+  async findServiceStaff(serviceIds: string[]): Promise<Array<{ serviceId: string; staffId: string }>> {
+    if (serviceIds.length === 0) {
+      return [];
+    }
+    return this.prisma.serviceStaff.findMany({
+      where: { serviceId: { in: serviceIds }, isActive: true },
+      select: { serviceId: true, staffId: true }
+    });
+  }
+
+  /** End of the appointment each staff member is in the middle of at `at` */
+  async findBusyUntil(staffIds: string[], at: Date): Promise<Map<string, Date>> {
+    if (staffIds.length === 0) {
+      return new Map();
+    }
+    const running = await this.prisma.appointment.findMany({
+      where: {
+        staffId: { in: staffIds },
+        status: { in: [AppointmentStatus.CONFIRMED, AppointmentStatus.IN_PROGRESS] },
+        startTime: { lte: at },
+        endTime: { gt: at }
+      },
+      select: { staffId: true, endTime: true }
+    });
+
+    const busyUntil = new Map<string, Date>();
+    for (const appointment of running) {
+      const current = busyUntil.get(appointment.staffId!);
+      if (!current || appointment.endTime > current) {
+        busyUntil.set(appointment.staffId!, appointment.endTime);
+      }
+    }
+    return busyUntil;
+  }
+
+  private mapToTicketData(ticket: WalkInTicketWithService): WalkInTicketData {
+    return {
+      id: ticket.id,
+      businessId: ticket.businessId,
+      serviceId: ticket.serviceId,
+      staffId: ticket.staffId ?? undefined,
+      servedByStaffId: ticket.servedByStaffId ?? undefined,
+      customerId: ticket.customerId ?? undefined,
+      customerName: ticket.customerName,
+      customerPhone: ticket.customerPhone ?? undefined,
+      queueDate: ticket.queueDate,
+      number: ticket.number,
+      status: ticket.status,
+      source: ticket.source,
+      notes: ticket.notes ?? undefined,
+      createdBy: ticket.createdBy,
+      calledAt: ticket.calledAt ?? undefined,
+      skippedAt: ticket.skippedAt ?? undefined,
+      closedAt: ticket.closedAt ?? undefined,
+      appointmentId: ticket.appointmentId ?? undefined,
+      createdAt: ticket.createdAt,
+      updatedAt: ticket.updatedAt,
+      ...(ticket.service ? { service: ticket.service } : {})
+    };
+  }
+}
@@ -1,5 +1,9 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { AppointmentController } from '../../controllers/appointmentController';
+import { AppointmentSeriesController } from '../../controllers/appointmentSeriesController';
+import { SlotHoldController } from '../../controllers/slotHoldController';
+import { AppointmentDepositController } from '../../controllers/appointmentDepositController';
+import { AppointmentCheckInController } from '../../controllers/appointmentCheckInController';
 import { asyncHandler } from '../../utils/asyncHandler';
 import { dynamicCache, realTimeCache, cache } from '../../middleware/cacheMiddleware';
 import { trackCachePerformance } from '../../middleware/cacheMonitoring';
@@ -37,7 +41,13 @@ initializeBusinessOwnershipMiddleware(prisma);
 // Initialize reservation validation middleware
 const reservationValidation = createReservationValidationMiddleware(prisma);
 
-export function createAppointmentRoutes(appointmentController: AppointmentController): Router {
+export function createAppointmentRoutes(
+  appointmentController: AppointmentController,
+  appointmentSeriesController: AppointmentSeriesController,
+  slotHoldController: SlotHoldController,
+  appointmentDepositController: AppointmentDepositController,
+  appointmentCheckInController: AppointmentCheckInController
+): Router {
   const router = Router();
 
   // Apply cache monitoring to all routes
@@ -222,6 +232,470 @@ export function createAppointmentRoutes(appointmentController: AppointmentContro
     asyncHandler(appointmentController.createAppointment.bind(appointmentController))
   );
 
+  /**
+   * @swagger
+   * /api/v1/appointments/bundles:
+   *   post:
+   *     tags: [Appointments]
+   *     summary: Book several services back-to-back as one visit
+   *     description: |
+   *       Creates one appointment per service, chained back-to-back from the given start time,
+   *       optionally with a different staff member per leg. All legs are created atomically;
+   *       if any leg conflicts the whole bundle is rejected.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [businessId, date, startTime, items]
+   *             properties:
+   *               businessId:
+   *                 type: string
+   *               customerId:
+   *                 type: string
+   *                 description: Book on behalf of a customer (requires appointment edit_all)
+   *               date:
+   *                 type: string
+   *                 format: date
+   *                 example: "2026-11-02"
+   *               startTime:
+   *                 type: string
+   *                 example: "14:00"
+   *               customerNotes:
+   *                 type: string
+   *               items:
+   *                 type: array
+   *                 minItems: 2
+   *                 maxItems: 6
+   *                 items:
+   *                   type: object
+   *                   required: [serviceId]
+   *                   properties:
+   *                     serviceId:
+   *                       type: string
+   *                     staffId:
+   *                       type: string
+   *     responses:
+   *       201:
+   *         description: Bundle created with its appointments
+   *       400:
+   *         description: Validation error or closed date
+   *       409:
+   *         description: One of the legs conflicts with an existing appointment
+   */
+  router.post(
+    '/bundles',
+    cacheInvalidation.invalidateAppointmentCache,
+    reservationValidation.validateReservationRules,
+    asyncHandler(appointmentController.createAppointmentBundle.bind(appointmentController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/bundles/{bundleId}:
+   *   get:
+   *     tags: [Appointments]
+   *     summary: Get an appointment bundle with its legs
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: bundleId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Bundle retrieved
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Bundle not found
+   */
+  router.get(
+    '/bundles/:bundleId',
+    realTimeCache,
+    asyncHandler(appointmentController.getAppointmentBundle.bind(appointmentController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/bundles/{bundleId}/cancel:
+   *   post:
+   *     tags: [Appointments]
+   *     summary: Cancel every appointment of a bundle
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: bundleId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               reason:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Bundle cancelled
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Bundle not found
+   *       409:
+   *         description: Cancellation policy violation
+   */
+  router.post(
+    '/bundles/:bundleId/cancel',
+    cacheInvalidation.invalidateAppointmentCache,
+    asyncHandler(appointmentController.cancelAppointmentBundle.bind(appointmentController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/bundles/{bundleId}/reschedule:
+   *   post:
+   *     tags: [Appointments]
+   *     summary: Move a whole bundle to a new start time
+   *     description: Remaining active legs are re-chained back-to-back with their original staff.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: bundleId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [date, startTime]
+   *             properties:
+   *               date:
+   *                 type: string
+   *                 format: date
+   *               startTime:
+   *                 type: string
+   *                 example: "15:30"
+   *     responses:
+   *       200:
+   *         description: Bundle rescheduled
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Bundle not found
+   *       409:
+   *         description: New time conflicts with another appointment
+   */
+  router.post(
+    '/bundles/:bundleId/reschedule',
+    cacheInvalidation.invalidateAppointmentCache,
+    authorizationMiddleware.requirePermission({
+      resource: 'appointment',
+      action: 'edit_all',
+    }),
+    asyncHandler(appointmentController.rescheduleAppointmentBundle.bind(appointmentController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/series/preview:
+   *   post:
+   *     tags: [Appointments]
+   *     summary: Preview a recurring series without booking
+   *     description: Returns the dates that would be booked and the ones that conflict with working hours, closures, special days or existing appointments.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateAppointmentSeriesRequest'
+   *     responses:
+   *       200:
+   *         description: Occurrences and conflicts
+   *       400:
+   *         description: Invalid recurrence rule
+   */
+  router.post(
+    '/series/preview',
+    asyncHandler(appointmentSeriesController.previewSeries.bind(appointmentSeriesController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/series:
+   *   post:
+   *     tags: [Appointments]
+   *     summary: Create a recurring appointment series (standing booking)
+   *     description: |
+   *       Books every non-conflicting occurrence within the next 8 weeks; later occurrences are
+   *       booked by a daily job. Conflicting dates are skipped and returned in `conflicts`.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateAppointmentSeriesRequest'
+   *     responses:
+   *       201:
+   *         description: Series created with its booked occurrences and skipped conflicts
+   *       400:
+   *         description: Invalid recurrence rule
+   *       403:
+   *         description: Forbidden
+   *       409:
+   *         description: None of the dates are available
+   * components:
+   *   schemas:
+   *     CreateAppointmentSeriesRequest:
+   *       type: object
+   *       required: [businessId, serviceId, rrule, startDate, startTime]
+   *       properties:
+   *         businessId:
+   *           type: string
+   *         serviceId:
+   *           type: string
+   *         staffId:
+   *           type: string
+   *         customerId:
+   *           type: string
+   *         rrule:
+   *           type: string
+   *           example: "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;COUNT=8"
+   *         startDate:
+   *           type: string
+   *           format: date
+   *         startTime:
+   *           type: string
+   *           example: "10:00"
+   *         customerNotes:
+   *           type: string
+   */
+  router.post(
+    '/series',
+    cacheInvalidation.invalidateAppointmentCache,
+    asyncHandler(appointmentSeriesController.createSeries.bind(appointmentSeriesController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/series/{seriesId}:
+   *   get:
+   *     tags: [Appointments]
+   *     summary: Get a recurring series with its occurrences
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: seriesId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Series retrieved
+   *       404:
+   *         description: Series not found
+   *   put:
+   *     tags: [Appointments]
+   *     summary: Edit one, following or all occurrences of a series
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: seriesId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [scope]
+   *             properties:
+   *               scope:
+   *                 type: string
+   *                 enum: [THIS, THIS_AND_FOLLOWING, ALL]
+   *               appointmentId:
+   *                 type: string
+   *                 description: Required for THIS and THIS_AND_FOLLOWING
+   *               startTime:
+   *                 type: string
+   *                 example: "11:00"
+   *               staffId:
+   *                 type: string
+   *               customerNotes:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Updated occurrences and the ones left unchanged because of conflicts
+   *       404:
+   *         description: Series or occurrence not found
+   *       409:
+   *         description: Series is cancelled
+   */
+  router.get(
+    '/series/:seriesId',
+    realTimeCache,
+    asyncHandler(appointmentSeriesController.getSeries.bind(appointmentSeriesController))
+  );
+
+  router.put(
+    '/series/:seriesId',
+    cacheInvalidation.invalidateAppointmentCache,
+    asyncHandler(appointmentSeriesController.updateSeries.bind(appointmentSeriesController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/series/{seriesId}/cancel:
+   *   post:
+   *     tags: [Appointments]
+   *     summary: Cancel one, following or all occurrences of a series
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: seriesId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [scope]
+   *             properties:
+   *               scope:
+   *                 type: string
+   *                 enum: [THIS, THIS_AND_FOLLOWING, ALL]
+   *               appointmentId:
+   *                 type: string
+   *               reason:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Series after cancellation
+   *       404:
+   *         description: Series or occurrence not found
+   *       409:
+   *         description: Cancellation policy violation or series already cancelled
+   */
+  router.post(
+    '/series/:seriesId/cancel',
+    cacheInvalidation.invalidateAppointmentCache,
+    asyncHandler(appointmentSeriesController.cancelSeries.bind(appointmentSeriesController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/holds:
+   *   post:
+   *     tags: [Appointments]
+   *     summary: Hold a slot during checkout
+   *     description: |
+   *       Reserves the slot for a few minutes so other customers see it as unavailable.
+   *       Pass the returned `id` as `holdId` when creating the appointment; an unused hold expires by itself.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [businessId, serviceId, date, startTime]
+   *             properties:
+   *               businessId:
+   *                 type: string
+   *               serviceId:
+   *                 type: string
+   *               staffId:
+   *                 type: string
+   *               date:
+   *                 type: string
+   *                 example: "2025-03-14"
+   *               startTime:
+   *                 type: string
+   *                 example: "14:30"
+   *     responses:
+   *       201:
+   *         description: Slot held
+   *       409:
+   *         description: Slot already booked or held, or daily appointment limit reached
+   *       503:
+   *         description: Hold storage unavailable
+   */
+  router.post(
+    '/holds',
+    asyncHandler(slotHoldController.createHold.bind(slotHoldController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/holds/{holdId}:
+   *   get:
+   *     tags: [Appointments]
+   *     summary: Get one of your active holds
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: holdId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Hold retrieved
+   *       404:
+   *         description: Hold expired or not found
+   *   delete:
+   *     tags: [Appointments]
+   *     summary: Release a hold before it expires
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: holdId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Hold released
+   *       404:
+   *         description: Hold expired or not found
+   */
+  router.get(
+    '/holds/:holdId',
+    asyncHandler(slotHoldController.getHold.bind(slotHoldController))
+  );
+
+  router.delete(
+    '/holds/:holdId',
+    asyncHandler(slotHoldController.releaseHold.bind(slotHoldController))
+  );
+
   // Customer appointments - MUST be before /:id route to avoid route conflicts
   /**
    * @swagger
@@ -778,6 +1252,205 @@ export function createAppointmentRoutes(appointmentController: AppointmentContro
     asyncHandler(appointmentController.cancelAppointment.bind(appointmentController))
   );
 
+  /**
+   * @swagger
+   * /api/v1/appointments/{id}/reschedule:
+   *   post:
+   *     tags: [Appointments]
+   *     summary: Move your own appointment to another time
+   *     description: |
+   *       Moves the customer's appointment to a new slot in one step; the old time is
+   *       released only once the new one is booked. The business reschedule policy
+   *       (minimum notice, reschedules per appointment) applies instead of the
+   *       cancellation limits. Reminders are re-sent for the new time.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [date, startTime]
+   *             properties:
+   *               date:
+   *                 type: string
+   *                 format: date
+   *                 example: '2026-11-03'
+   *               startTime:
+   *                 type: string
+   *                 example: '14:30'
+   *               staffId:
+   *                 type: string
+   *                 description: Another staff member; defaults to the current one
+   *               reason:
+   *                 type: string
+   *                 maxLength: 500
+   *     responses:
+   *       200:
+   *         description: Appointment rescheduled
+   *       403:
+   *         description: Only the customer can reschedule through this endpoint
+   *       409:
+   *         description: Reschedule policy violation or the new slot is not available
+   */
+  router.post(
+    '/:id/reschedule',
+    cacheInvalidation.invalidateAppointmentCache,
+    asyncHandler(appointmentController.rescheduleAppointment.bind(appointmentController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/{id}/reschedules:
+   *   get:
+   *     tags: [Appointments]
+   *     summary: Reschedule history of an appointment
+   *     description: The originally booked time, every move (by the customer or the business) and the customer reschedules still allowed.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Reschedule history
+   *       404:
+   *         description: Appointment not found
+   */
+  router.get(
+    '/:id/reschedules',
+    asyncHandler(appointmentController.getRescheduleHistory.bind(appointmentController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/{id}/timeline:
+   *   get:
+   *     tags: [Appointments]
+   *     summary: Timeline of an appointment
+   *     description: |
+   *       Every status transition (with who made it, through which channel, the reason and the
+   *       before/after values), every move and the push notifications sent about the appointment,
+   *       oldest first. Customers only see the notifications sent to them.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Appointment timeline
+   *       403:
+   *         description: Access denied
+   *       404:
+   *         description: Appointment not found
+   */
+  router.get(
+    '/:id/timeline',
+    asyncHandler(appointmentController.getAppointmentTimeline.bind(appointmentController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/{id}/deposit:
+   *   get:
+   *     tags: [Appointments]
+   *     summary: Deposit of an appointment
+   *     description: Amount, payment window and any refunded or forfeited part. Visible to the customer and to business staff.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Appointment deposit
+   *       404:
+   *         description: Appointment not found or it has no deposit
+   */
+  router.get(
+    '/:id/deposit',
+    asyncHandler(appointmentDepositController.getDeposit.bind(appointmentDepositController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/{id}/deposit/pay:
+   *   post:
+   *     tags: [Appointments]
+   *     summary: Pay the deposit of your appointment
+   *     description: |
+   *       Charges the deposit through iyzico. A booking for a service with a deposit
+   *       stays PENDING until this succeeds and is released if it is not paid within
+   *       its payment window. Once paid the appointment is confirmed, or waits for
+   *       approval when the business requires it.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [card]
+   *             properties:
+   *               card:
+   *                 type: object
+   *                 required: [cardHolderName, cardNumber, expireMonth, expireYear, cvc]
+   *                 properties:
+   *                   cardHolderName:
+   *                     type: string
+   *                   cardNumber:
+   *                     type: string
+   *                   expireMonth:
+   *                     type: string
+   *                     example: '12'
+   *                   expireYear:
+   *                     type: string
+   *                     example: '2030'
+   *                   cvc:
+   *                     type: string
+   *               email:
+   *                 type: string
+   *                 format: email
+   *     responses:
+   *       200:
+   *         description: Deposit paid and appointment confirmed
+   *       402:
+   *         description: The card was declined; the deposit can be retried until the window closes
+   *       403:
+   *         description: Only the customer can pay the deposit
+   *       409:
+   *         description: The deposit is already paid, expired or being paid
+   */
+  router.post(
+    '/:id/deposit/pay',
+    cacheInvalidation.invalidateAppointmentCache,
+    asyncHandler(appointmentDepositController.payDeposit.bind(appointmentDepositController))
+  );
+
   /**
    * @swagger
    * /api/v1/appointments/{id}/confirm:
@@ -901,6 +1574,187 @@ export function createAppointmentRoutes(appointmentController: AppointmentContro
     asyncHandler(appointmentController.markNoShow.bind(appointmentController))
   );
 
+  /**
+   * @swagger
+   * /api/v1/appointments/{id}/no-show/undo:
+   *   post:
+   *     tags: [Appointments]
+   *     summary: Undo a no-show
+   *     description: |
+   *       For the business owner, when the customer did come. The appointment goes back
+   *       to CONFIRMED, checked in, while it has not ended yet, else to COMPLETED, and the
+   *       customer's no-show strike is taken back. A deposit forfeited with the no-show
+   *       stays forfeited.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: No-show undone
+   *       403:
+   *         description: Not the owner of the business
+   *       409:
+   *         description: Appointment is not marked as no-show
+   */
+  router.post(
+    '/:id/no-show/undo',
+    cacheInvalidation.invalidateAppointmentCache,
+    asyncHandler(appointmentCheckInController.undoNoShow.bind(appointmentCheckInController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/{id}/check-in:
+   *   post:
+   *     tags: [Appointments]
+   *     summary: Check a customer in
+   *     description: |
+   *       Staff record that the customer has arrived. At businesses tracking no-shows,
+   *       appointments still without a check-in once the grace period after their start
+   *       has passed are marked NO_SHOW automatically.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Customer checked in
+   *       409:
+   *         description: Already checked in, or the appointment is not confirmed or in progress
+   * /api/v1/appointments/{id}/start:
+   *   post:
+   *     tags: [Appointments]
+   *     summary: Start the service
+   *     description: |
+   *       Moves the appointment to IN_PROGRESS and records the actual start time,
+   *       checking the customer in if nobody did yet. Completing the appointment
+   *       records the actual end time.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Service started
+   *       409:
+   *         description: Already started, or the appointment is not confirmed or in progress
+   */
+  router.post(
+    '/:id/check-in',
+    cacheInvalidation.invalidateAppointmentCache,
+    authorizationMiddleware.requireAnyMiddleware(
+      authorizationMiddleware.requirePermission({
+        resource: 'appointment',
+        action: 'complete',
+      }),
+      authorizationMiddleware.requirePermission({
+        resource: 'appointment',
+        action: 'edit_all',
+      })
+    ),
+    asyncHandler(appointmentCheckInController.checkIn.bind(appointmentCheckInController))
+  );
+  router.post(
+    '/:id/start',
+    cacheInvalidation.invalidateAppointmentCache,
+    authorizationMiddleware.requireAnyMiddleware(
+      authorizationMiddleware.requirePermission({
+        resource: 'appointment',
+        action: 'complete',
+      }),
+      authorizationMiddleware.requirePermission({
+        resource: 'appointment',
+        action: 'edit_all',
+      })
+    ),
+    asyncHandler(appointmentCheckInController.startService.bind(appointmentCheckInController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/appointments/check-in/qr:
+   *   post:
+   *     tags: [Appointments]
+   *     summary: Check in by scanning the venue QR code
+   *     description: |
+   *       The customer posts the businessId and token encoded in the QR code shown at
+   *       the venue. Without an appointmentId, their appointment at the business whose
+   *       check-in window is open is checked in. The window opens checkInOpensMinutesBefore
+   *       the start and closes noShowGraceMinutes after it (see the check-in policy).
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [businessId, token]
+   *             properties:
+   *               businessId:
+   *                 type: string
+   *               token:
+   *                 type: string
+   *               appointmentId:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Customer checked in
+   *       400:
+   *         description: Invalid check-in code
+   *       403:
+   *         description: QR check-in is turned off for the business
+   *       404:
+   *         description: No appointment of the customer is open for check-in
+   *       409:
+   *         description: Already checked in, or outside the check-in window
+   * /api/v1/appointments/check-in/business/{businessId}/code:
+   *   get:
+   *     tags: [Appointments]
+   *     summary: Venue check-in QR code
+   *     description: |
+   *       The signed code to show at the venue; `payload` is what the QR code encodes.
+   *       Codes rotate every 15 minutes: fetch a new one at `refreshAt`. A code is
+   *       accepted until 15 minutes after its refreshAt.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: The check-in code
+   *       403:
+   *         description: Not staff of the business
+   *       503:
+   *         description: QR check-in is not configured on this server (CHECK_IN_QR_SECRET)
+   */
+  router.post(
+    '/check-in/qr',
+    cacheInvalidation.invalidateAppointmentCache,
+    asyncHandler(appointmentCheckInController.checkInWithQrCode.bind(appointmentCheckInController))
+  );
+  router.get(
+    '/check-in/business/:businessId/code',
+    asyncHandler(appointmentCheckInController.getVenueCheckInCode.bind(appointmentCheckInController))
+  );
+
   router.patch(
     '/:id/approve',
     cacheInvalidation.invalidateAppointmentCache,
@@ -38,6 +38,9 @@ import {
   updateBusinessReservationSettingsSchema,
   updateBusinessStaffPrivacySettingsSchema,
   updateBusinessCancellationPolicySchema,
+  updateBusinessReschedulePolicySchema,
+  updateBusinessCheckInPolicySchema,
+  updateBusinessApprovalPolicySchema,
   updateBusinessCustomerManagementSchema,
   updateGalleryImagesSchema,
 } from '../../schemas/business.schemas';
@@ -2959,6 +2962,10 @@ export function createBusinessRoutes(
    *                       type: number
    *                       example: 30
    *                       description: Duration of automatic ban in days
+   *                     lateCancellationDepositRefundPercent:
+   *                       type: number
+   *                       example: 0
+   *                       description: Share of a paid deposit refunded on a late customer cancellation
    *                 message:
    *                   type: string
    *                   example: "Cancellation policies retrieved successfully"
@@ -3032,6 +3039,14 @@ export function createBusinessRoutes(
    *                 maximum: 365
    *                 example: 30
    *                 description: Duration of automatic ban in days when auto-ban is enabled
+   *               lateCancellationDepositRefundPercent:
+   *                 type: number
+   *                 minimum: 0
+   *                 maximum: 100
+   *                 example: 0
+   *                 description: |
+   *                   Share of a paid deposit refunded when the customer cancels later than
+   *                   minCancellationHours; the rest is forfeited. Earlier cancellations are refunded in full.
    *     responses:
    *       200:
    *         description: Cancellation policies updated successfully
@@ -3049,6 +3064,300 @@ export function createBusinessRoutes(
     asyncHandler(cancellationPolicyController.updateCancellationPolicies.bind(cancellationPolicyController))
   );
 
+  /**
+   * @swagger
+   * /api/v1/businesses/my-business/reschedule-policy:
+   *   get:
+   *     tags: [Businesses]
+   *     summary: Get business reschedule policy
+   *     description: Rules for customers moving their own appointments. Separate from the cancellation policies.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Reschedule policy retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     allowCustomerReschedule:
+   *                       type: boolean
+   *                       example: true
+   *                     minRescheduleHours:
+   *                       type: number
+   *                       example: 0
+   *                     maxReschedulesPerAppointment:
+   *                       type: number
+   *                       example: 2
+   *       403:
+   *         description: Access denied - business role required
+   *   put:
+   *     tags: [Businesses]
+   *     summary: Update business reschedule policy
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               allowCustomerReschedule:
+   *                 type: boolean
+   *                 description: Allow customers to move their own appointments
+   *               minRescheduleHours:
+   *                 type: number
+   *                 minimum: 0
+   *                 maximum: 168
+   *                 example: 4
+   *                 description: Minimum hours before the appointment that the customer may still move it
+   *               maxReschedulesPerAppointment:
+   *                 type: number
+   *                 minimum: 0
+   *                 maximum: 10
+   *                 example: 2
+   *                 description: Customer reschedules allowed per appointment
+   *     responses:
+   *       200:
+   *         description: Reschedule policy updated successfully
+   *       400:
+   *         description: Invalid policy settings
+   *       403:
+   *         description: Access denied - business role required
+   */
+  router.get(
+    '/my-business/reschedule-policy',
+    requireBusinessAccess,
+    asyncHandler(cancellationPolicyController.getReschedulePolicy.bind(cancellationPolicyController))
+  );
+
+  router.put(
+    '/my-business/reschedule-policy',
+    requireBusinessAccess,
+    validateBody(updateBusinessReschedulePolicySchema),
+    asyncHandler(cancellationPolicyController.updateReschedulePolicy.bind(cancellationPolicyController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/businesses/my-business/check-in-policy:
+   *   get:
+   *     tags: [Businesses]
+   *     summary: Get business check-in policy
+   *     description: |
+   *       Check-in and no-show tracking. When trackNoShows is on, confirmed appointments
+   *       nobody checked in for are marked NO_SHOW noShowGraceMinutes after their start,
+   *       and appointments start when the staff start them instead of at their start time.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Check-in policy retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     trackNoShows:
+   *                       type: boolean
+   *                       example: false
+   *                     noShowGraceMinutes:
+   *                       type: number
+   *                       example: 15
+   *                     allowQrCheckIn:
+   *                       type: boolean
+   *                       example: true
+   *                     checkInOpensMinutesBefore:
+   *                       type: number
+   *                       example: 30
+   *       403:
+   *         description: Access denied - business role required
+   *   put:
+   *     tags: [Businesses]
+   *     summary: Update business check-in policy
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               trackNoShows:
+   *                 type: boolean
+   *                 description: Mark appointments nobody checked in for as no-shows
+   *               noShowGraceMinutes:
+   *                 type: number
+   *                 minimum: 0
+   *                 maximum: 240
+   *                 example: 15
+   *                 description: Minutes after the start time a customer may still check in
+   *               allowQrCheckIn:
+   *                 type: boolean
+   *                 description: Let customers check themselves in by scanning the venue QR code
+   *               checkInOpensMinutesBefore:
+   *                 type: number
+   *                 minimum: 0
+   *                 maximum: 240
+   *                 example: 30
+   *                 description: Minutes before the start time the QR check-in opens
+   *     responses:
+   *       200:
+   *         description: Check-in policy updated successfully
+   *       400:
+   *         description: Invalid policy settings
+   *       403:
+   *         description: Access denied - business role required
+   */
+  router.get(
+    '/my-business/check-in-policy',
+    requireBusinessAccess,
+    asyncHandler(cancellationPolicyController.getCheckInPolicy.bind(cancellationPolicyController))
+  );
+
+  router.put(
+    '/my-business/check-in-policy',
+    requireBusinessAccess,
+    validateBody(updateBusinessCheckInPolicySchema),
+    asyncHandler(cancellationPolicyController.updateCheckInPolicy.bind(cancellationPolicyController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/businesses/my-business/approval-policy:
+   *   get:
+   *     tags: [Businesses]
+   *     summary: Get business approval policy
+   *     description: |
+   *       Which bookings wait for manual approval. With requireApproval on every booking
+   *       does; otherwise only bookings matching one of these rules do and the rest are
+   *       confirmed right away. Requests left unhandled for timeoutHours are escalated to
+   *       the owner or rejected, depending on timeoutAction.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Approval policy retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     firstTimeCustomers:
+   *                       type: boolean
+   *                       example: true
+   *                     highRiskCustomers:
+   *                       type: boolean
+   *                       example: true
+   *                     priceAbove:
+   *                       type: number
+   *                       nullable: true
+   *                       example: 1500
+   *                     normalHours:
+   *                       type: object
+   *                       nullable: true
+   *                       properties:
+   *                         start:
+   *                           type: string
+   *                           example: "09:00"
+   *                         end:
+   *                           type: string
+   *                           example: "18:00"
+   *                     timeoutHours:
+   *                       type: number
+   *                       nullable: true
+   *                       example: 12
+   *                     timeoutAction:
+   *                       type: string
+   *                       enum: [ESCALATE, REJECT]
+   *       403:
+   *         description: Access denied - business role required
+   *   put:
+   *     tags: [Businesses]
+   *     summary: Update business approval policy
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               firstTimeCustomers:
+   *                 type: boolean
+   *                 description: Ask approval for customers without an earlier booking at the business
+   *               highRiskCustomers:
+   *                 type: boolean
+   *                 description: Ask approval for customers whose reliability risk level is HIGH
+   *               priceAbove:
+   *                 type: number
+   *                 nullable: true
+   *                 minimum: 0
+   *                 description: Ask approval for bookings priced above this amount; null turns the rule off
+   *               normalHours:
+   *                 type: object
+   *                 nullable: true
+   *                 description: Ask approval for bookings starting or ending outside these hours (business time)
+   *                 properties:
+   *                   start:
+   *                     type: string
+   *                     example: "09:00"
+   *                   end:
+   *                     type: string
+   *                     example: "18:00"
+   *               timeoutHours:
+   *                 type: number
+   *                 nullable: true
+   *                 minimum: 1
+   *                 maximum: 168
+   *                 description: Hours a request may wait for a decision; null lets it wait until handled
+   *               timeoutAction:
+   *                 type: string
+   *                 enum: [ESCALATE, REJECT]
+   *                 description: Escalate overdue requests to the owner or reject them
+   *     responses:
+   *       200:
+   *         description: Approval policy updated successfully
+   *       400:
+   *         description: Invalid policy settings
+   *       403:
+   *         description: Access denied - business role required
+   */
+  router.get(
+    '/my-business/approval-policy',
+    requireBusinessAccess,
+    asyncHandler(cancellationPolicyController.getApprovalPolicy.bind(cancellationPolicyController))
+  );
+
+  router.put(
+    '/my-business/approval-policy',
+    requireBusinessAccess,
+    validateBody(updateBusinessApprovalPolicySchema),
+    asyncHandler(cancellationPolicyController.updateApprovalPolicy.bind(cancellationPolicyController))
+  );
+
   /**
    * @swagger
    * /api/v1/businesses/my-business/customer-policy-status/{customerId}:
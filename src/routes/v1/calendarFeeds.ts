@@ -0,0 +1,118 @@
+import { Router } from 'express';
+import { CalendarFeedController } from '../../controllers/calendarFeedController';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { requireAuth, withAuth } from '../../middleware/authUtils';
+
+export function createCalendarFeedRoutes(calendarFeedController: CalendarFeedController): Router {
+  const router = Router();
+
+  /**
+   * @swagger
+   * /api/v1/calendar-feeds/{feedId}/{signature}.ics:
+   *   get:
+   *     tags: [Calendar Feeds]
+   *     summary: ICS calendar behind a signed subscription URL
+   *     description: |
+   *       Polled by phone and desktop calendar apps; the signature in the URL is the
+   *       only credential. Covers the past 30 and next 180 days in the business timezone,
+   *       cancelled appointments as STATUS:CANCELLED, and business closures.
+   *     parameters:
+   *       - in: path
+   *         name: feedId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: signature
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: iCalendar document
+   *         content:
+   *           text/calendar:
+   *             schema:
+   *               type: string
+   *       404:
+   *         description: Unknown, revoked or wrongly signed feed
+   */
+  router.get(
+    '/:feedId/:signature.ics',
+    asyncHandler((req, res) => calendarFeedController.getFeedCalendar(req, res))
+  );
+
+  router.use(requireAuth);
+
+  /**
+   * @swagger
+   * /api/v1/calendar-feeds:
+   *   get:
+   *     tags: [Calendar Feeds]
+   *     summary: The caller's calendar feeds that have not been revoked
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Feeds with their subscription URLs
+   *   post:
+   *     tags: [Calendar Feeds]
+   *     summary: Create a calendar subscription URL
+   *     description: |
+   *       STAFF feeds show one staff member's appointments (the caller's own by default),
+   *       BUSINESS feeds every appointment of the business and CUSTOMER feeds the caller's
+   *       own bookings. The caller must be able to see the same appointments in the app.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [type]
+   *             properties:
+   *               type:
+   *                 type: string
+   *                 enum: [STAFF, BUSINESS, CUSTOMER]
+   *               businessId:
+   *                 type: string
+   *               staffId:
+   *                 type: string
+   *               label:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Feed created with its subscription URL
+   * /api/v1/calendar-feeds/{feedId}:
+   *   delete:
+   *     tags: [Calendar Feeds]
+   *     summary: Revoke a calendar feed
+   *     description: The feed's creator or the business owner can revoke it; its URL stops resolving.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: feedId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Feed revoked
+   */
+  router.get(
+    '/',
+    asyncHandler(withAuth((req, res) => calendarFeedController.getFeeds(req, res)))
+  );
+  router.post(
+    '/',
+    asyncHandler(withAuth((req, res) => calendarFeedController.createFeed(req, res)))
+  );
+  router.delete(
+    '/:feedId',
+    asyncHandler(withAuth((req, res) => calendarFeedController.revokeFeed(req, res)))
+  );
+
+  return router;
+}
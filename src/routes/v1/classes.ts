@@ -0,0 +1,232 @@
+import { Router } from 'express';
+import { ClassSessionController } from '../../controllers/classSessionController';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { requireAuth, withAuth } from '../../middleware/authUtils';
+
+export function createClassSessionRoutes(classSessionController: ClassSessionController): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  /**
+   * @swagger
+   * /api/v1/classes/business/{businessId}:
+   *   get:
+   *     tags: [Classes]
+   *     summary: Class timetable of a business
+   *     description: Scheduled classes between two dates (at most 62 days) with booked seat counts.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: from
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: to
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: serviceId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: staffId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: includeCanceled
+   *         schema:
+   *           type: boolean
+   *     responses:
+   *       200:
+   *         description: List of classes
+   *   post:
+   *     tags: [Classes]
+   *     summary: Schedule a class
+   *     description: |
+   *       The service must be an active group service. The instructor is blocked for the
+   *       whole class, so one-to-one appointments cannot be booked over it.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [serviceId, staffId, date, startTime]
+   *             properties:
+   *               serviceId:
+   *                 type: string
+   *               staffId:
+   *                 type: string
+   *               date:
+   *                 type: string
+   *                 format: date
+   *               startTime:
+   *                 type: string
+   *                 example: '18:00'
+   *               maxSeats:
+   *                 type: integer
+   *                 minimum: 2
+   *                 description: Defaults to the service's seat limit
+   *               notes:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Class scheduled
+   *       409:
+   *         description: The instructor is busy at that time
+   */
+  router.get(
+    '/business/:businessId',
+    asyncHandler(withAuth((req, res) => classSessionController.getBusinessSessions(req, res)))
+  );
+  router.post(
+    '/business/:businessId',
+    asyncHandler(withAuth((req, res) => classSessionController.createSession(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/classes/{sessionId}:
+   *   get:
+   *     tags: [Classes]
+   *     summary: Class details with the roster
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: sessionId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Class and its seat holders
+   *       404:
+   *         description: Class not found
+   *   put:
+   *     tags: [Classes]
+   *     summary: Change the seat limit or notes of a class
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: sessionId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               maxSeats:
+   *                 type: integer
+   *                 minimum: 2
+   *               notes:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Class updated
+   *       400:
+   *         description: The seat limit is below the seats already booked
+   */
+  router.get(
+    '/:sessionId',
+    asyncHandler(withAuth((req, res) => classSessionController.getSession(req, res)))
+  );
+  router.put(
+    '/:sessionId',
+    asyncHandler(withAuth((req, res) => classSessionController.updateSession(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/classes/{sessionId}/book:
+   *   post:
+   *     tags: [Classes]
+   *     summary: Book a seat in a class
+   *     description: Creates an appointment linked to the class. Staff may book on behalf of a customer.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: sessionId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               customerId:
+   *                 type: string
+   *               customerNotes:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Seat booked
+   *       409:
+   *         description: The class is full, cancelled or already booked by this customer
+   */
+  router.post(
+    '/:sessionId/book',
+    asyncHandler(withAuth((req, res) => classSessionController.bookSeat(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/classes/{sessionId}/cancel:
+   *   post:
+   *     tags: [Classes]
+   *     summary: Cancel a class
+   *     description: Cancels every booked seat and notifies each attendee by SMS.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: sessionId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               reason:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Class cancelled
+   */
+  router.post(
+    '/:sessionId/cancel',
+    asyncHandler(withAuth((req, res) => classSessionController.cancelSession(req, res)))
+  );
+
+  return router;
+}
@@ -0,0 +1,242 @@
+import { Router } from 'express';
+import { GiftCardController } from '../../controllers/giftCardController';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { requireAuth, requireAny, withAuth } from '../../middleware/authUtils';
+import { PermissionName } from '../../types/auth';
+
+export function createGiftCardRoutes(giftCardController: GiftCardController): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  const canManage = requireAny([PermissionName.EDIT_ALL_BUSINESSES, PermissionName.EDIT_OWN_BUSINESS]);
+
+  /**
+   * @swagger
+   * /api/v1/gift-cards/business/{businessId}:
+   *   get:
+   *     tags: [Gift Cards]
+   *     summary: Gift cards and vouchers of a business
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: type
+   *         schema:
+   *           type: string
+   *           enum: [GIFT_CARD, VOUCHER]
+   *       - in: query
+   *         name: customerId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: isActive
+   *         schema:
+   *           type: boolean
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           default: 1
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           default: 20
+   *     responses:
+   *       200:
+   *         description: Cards, newest first, with their balances
+   *   post:
+   *     tags: [Gift Cards]
+   *     summary: Issue gift cards or vouchers
+   *     description: >
+   *       Generates count cards with the same amount, each with its own code. Gift
+   *       cards are sold (pricePaid defaults to the amount); vouchers are given away
+   *       and count as a discount in the revenue reports. With customerId only that
+   *       customer can spend the card.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [type, amount]
+   *             properties:
+   *               type:
+   *                 type: string
+   *                 enum: [GIFT_CARD, VOUCHER]
+   *               amount:
+   *                 type: number
+   *                 example: 500
+   *               count:
+   *                 type: integer
+   *                 minimum: 1
+   *                 maximum: 1000
+   *                 default: 1
+   *               prefix:
+   *                 type: string
+   *                 description: Start of the codes; GC for gift cards and VC for vouchers by default
+   *                 example: YAZ
+   *               pricePaid:
+   *                 type: number
+   *                 description: Per gift card; ignored for vouchers
+   *               customerId:
+   *                 type: string
+   *               validUntil:
+   *                 type: string
+   *                 format: date-time
+   *               currency:
+   *                 type: string
+   *                 default: TRY
+   *               note:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: The issued cards
+   */
+  router.get(
+    '/business/:businessId',
+    canManage,
+    asyncHandler(withAuth((req, res) => giftCardController.getBusinessGiftCards(req, res)))
+  );
+  router.post(
+    '/business/:businessId',
+    canManage,
+    asyncHandler(withAuth((req, res) => giftCardController.issueGiftCards(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/gift-cards/redeem:
+   *   post:
+   *     tags: [Gift Cards]
+   *     summary: Pay for an appointment with a gift card or voucher
+   *     description: >
+   *       Available to the customer of the appointment and to the business staff.
+   *       Without an amount the card covers as much of what is left to pay (the
+   *       price less a paid deposit and other cards) as its balance allows. If the
+   *       appointment is cancelled, the amount goes back on the card as a deposit
+   *       would be refunded under the cancellation policy.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [code, appointmentId]
+   *             properties:
+   *               code:
+   *                 type: string
+   *               appointmentId:
+   *                 type: string
+   *               amount:
+   *                 type: number
+   *     responses:
+   *       200:
+   *         description: The card, the ledger entry and the remainingPrice of the appointment
+   *       400:
+   *         description: The card is for another business or customer, or nothing is left to pay
+   *       409:
+   *         description: The card is voided, expired or has no balance left
+   */
+  router.post(
+    '/redeem',
+    asyncHandler(withAuth((req, res) => giftCardController.redeem(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/gift-cards/code/{code}:
+   *   get:
+   *     tags: [Gift Cards]
+   *     summary: Check a card's balance by its code
+   *     description: Cards issued to a customer can be looked up by that customer and the business staff.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: code
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: The card
+   *       404:
+   *         description: No card with this code
+   */
+  router.get(
+    '/code/:code',
+    asyncHandler(withAuth((req, res) => giftCardController.lookupByCode(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/gift-cards/{giftCardId}:
+   *   get:
+   *     tags: [Gift Cards]
+   *     summary: A card with its ledger
+   *     description: Every issue, redemption and refund, oldest first, with the balance after it.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: giftCardId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: The card and its transactions
+   *       404:
+   *         description: Card not found
+   */
+  router.get(
+    '/:giftCardId',
+    asyncHandler(withAuth((req, res) => giftCardController.getGiftCard(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/gift-cards/{giftCardId}/void:
+   *   post:
+   *     tags: [Gift Cards]
+   *     summary: Void a card
+   *     description: The remaining balance can no longer be spent. Past redemptions stay in the ledger.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: giftCardId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Card voided
+   *       404:
+   *         description: Card not found
+   */
+  router.post(
+    '/:giftCardId/void',
+    canManage,
+    asyncHandler(withAuth((req, res) => giftCardController.voidGiftCard(req, res)))
+  );
+
+  return router;
+}
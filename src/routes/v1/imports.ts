@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { BusinessImportController } from '../../controllers/businessImportController';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { requireAuth, requireAny, withAuth } from '../../middleware/authUtils';
+import { handleMulterError, uploadSingleSpreadsheet } from '../../middleware/multer';
+import { PermissionName } from '../../types/auth';
+
+export function createBusinessImportRoutes(businessImportController: BusinessImportController): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  const canImport = requireAny([PermissionName.EDIT_ALL_BUSINESSES, PermissionName.EDIT_OWN_BUSINESS]);
+
+  /**
+   * @swagger
+   * /api/v1/imports/business/{businessId}/{type}:
+   *   post:
+   *     tags: [Imports]
+   *     summary: Import customers, services or future appointments from a CSV file
+   *     description: >
+   *       Columns are matched by header name in English or Turkish; the delimiter (comma,
+   *       semicolon or tab) is detected. Save Excel sheets as CSV first.
+   *
+   *       - customers: phone (required), firstName, lastName
+   *       - services: name, duration (minutes), price (required), currency, description, bufferTime
+   *       - appointments: phone, service, date, time (required), staff (name or phone),
+   *         price, notes, firstName, lastName, externalId
+   *
+   *       Customers are matched by phone number and services by name, so existing ones are
+   *       skipped. Appointments are skipped when their externalId (or customer, service and
+   *       start time) was imported before, which makes re-running a file safe. Appointments
+   *       must be in the future, within working hours and free for the staff member; they
+   *       are imported as confirmed without notifying anyone. Rows with errors are left out
+   *       and listed in the report; run with dryRun=true first to see it without importing.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: type
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [customers, services, appointments]
+   *       - in: query
+   *         name: dryRun
+   *         schema:
+   *           type: boolean
+   *         description: Check the file and report per row without importing anything
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required: [file]
+   *             properties:
+   *               file:
+   *                 type: string
+   *                 format: binary
+   *     responses:
+   *       200:
+   *         description: >
+   *           Import report with created, skipped and failed counts and, per row, the
+   *           action (CREATE, SKIP or ERROR), the record id and the errors of the row
+   *       400:
+   *         description: The file is not a CSV, lacks a required column or has too many rows
+   */
+  router.post(
+    '/business/:businessId/:type',
+    canImport,
+    uploadSingleSpreadsheet,
+    handleMulterError,
+    asyncHandler(withAuth((req, res) => businessImportController.importFile(req, res)))
+  );
+
+  return router;
+}
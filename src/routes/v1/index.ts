@@ -23,6 +23,18 @@ import { createPushNotificationRoutes } from './pushNotifications';
 import { createCacheRoutes } from './cache';
 import testingRouter from './testing';
 import { createRatingRoutes } from './ratings';
+import { createWaitlistRoutes } from './waitlist';
+import { createWalkInQueueRoutes } from './walkInQueue';
+import { createResourceRoutes } from './resources';
+import { createIntakeFormRoutes } from './intakeForms';
+import { createSessionPackageRoutes } from './sessionPackages';
+import { createGiftCardRoutes } from './giftCards';
+import { createBusinessImportRoutes } from './imports';
+import { createClassSessionRoutes } from './classes';
+import { createStaffTimeOffRoutes } from './staffTimeOff';
+import { createStaffReassignmentRoutes } from './staffReassignment';
+import { createStaffExternalCalendarRoutes } from './staffExternalCalendars';
+import { createCalendarFeedRoutes } from './calendarFeeds';
 import { createDailyNotebookRoutes } from './dailyNotebook';
 import { createPaymentMethodRoutes } from './paymentMethods';
 import { createContactRoutes } from './contact';
@@ -107,7 +119,28 @@ export function createV1Routes(
   );
   router.use('/business-types', createBusinessTypeRoutes(controllers.businessTypeController));
   router.use('/services', createServiceRoutes(controllers.serviceController, cacheInvalidation));
-  router.use('/appointments', createAppointmentRoutes(controllers.appointmentController));
+  router.use(
+    '/appointments',
+    createAppointmentRoutes(
+      controllers.appointmentController,
+      controllers.appointmentSeriesController,
+      controllers.slotHoldController,
+      controllers.appointmentDepositController,
+      controllers.appointmentCheckInController
+    )
+  );
+  router.use('/waitlist', createWaitlistRoutes(controllers.waitlistController));
+  router.use('/walk-in-queue', createWalkInQueueRoutes(controllers.walkInQueueController));
+  router.use('/resources', createResourceRoutes(controllers.resourceController));
+  router.use('/intake-forms', createIntakeFormRoutes(controllers.intakeFormController));
+  router.use('/session-packages', createSessionPackageRoutes(controllers.sessionPackageController));
+  router.use('/gift-cards', createGiftCardRoutes(controllers.giftCardController));
+  router.use('/imports', createBusinessImportRoutes(controllers.businessImportController));
+  router.use('/classes', createClassSessionRoutes(controllers.classSessionController));
+  router.use('/staff-time-off', createStaffTimeOffRoutes(controllers.staffTimeOffController));
+  router.use('/staff-reassignment', createStaffReassignmentRoutes(controllers.staffReassignmentController));
+  router.use('/staff-calendars', createStaffExternalCalendarRoutes(controllers.staffExternalCalendarController));
+  router.use('/calendar-feeds', createCalendarFeedRoutes(controllers.calendarFeedController));
   router.use('/user-behavior', createUserBehaviorRoutes(controllers.userBehaviorController));
   router.use('/closures', createBusinessClosureRoutes(controllers.businessClosureController));
   router.use('/subscriptions', createSubscriptionRoutes(controllers.subscriptionController));
@@ -0,0 +1,207 @@
+import { Router } from 'express';
+import { IntakeFormController } from '../../controllers/intakeFormController';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { requireAuth, requireAny, withAuth } from '../../middleware/authUtils';
+import { PermissionName } from '../../types/auth';
+
+export function createIntakeFormRoutes(intakeFormController: IntakeFormController): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  const canView = requireAny([PermissionName.VIEW_ALL_SERVICES, PermissionName.VIEW_OWN_SERVICES]);
+  const canManage = requireAny([PermissionName.MANAGE_ALL_SERVICES, PermissionName.MANAGE_OWN_SERVICES]);
+
+  /**
+   * @swagger
+   * /api/v1/intake-forms/services/{serviceId}:
+   *   get:
+   *     tags: [Intake Forms]
+   *     summary: Active intake form of a service
+   *     description: Returns the questions to answer when booking the service. For a returning customer, `prefill` holds the answers reused from their previous visit.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: serviceId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: The active form (null when the service has none) and prefill
+   *       404:
+   *         description: Service not found
+   *   put:
+   *     tags: [Intake Forms]
+   *     summary: Publish a new version of a service's intake form
+   *     description: >
+   *       Every publish adds a version; answers already given keep pointing at their version.
+   *       Send a field's `id` to keep a question from the previous version, so returning
+   *       customers do not have to answer it again.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: serviceId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [title, fields]
+   *             properties:
+   *               title:
+   *                 type: string
+   *                 example: 'Sağlık Beyanı'
+   *               description:
+   *                 type: string
+   *               fields:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   required: [label, type]
+   *                   properties:
+   *                     id:
+   *                       type: string
+   *                     label:
+   *                       type: string
+   *                       example: 'Kan sulandırıcı ilaç kullanıyor musunuz?'
+   *                     type:
+   *                       type: string
+   *                       enum: [TEXT, CHOICE, YES_NO, CONSENT]
+   *                     required:
+   *                       type: boolean
+   *                     options:
+   *                       type: array
+   *                       items:
+   *                         type: string
+   *                     askEveryVisit:
+   *                       type: boolean
+   *                       description: Ask again on every visit instead of reusing the previous answer
+   *     responses:
+   *       201:
+   *         description: Form version published
+   *   delete:
+   *     tags: [Intake Forms]
+   *     summary: Stop asking a service's intake questions
+   *     description: Answers already given stay visible on their appointments.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: serviceId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Form disabled
+   *       404:
+   *         description: Service has no active intake form
+   */
+  router.get(
+    '/services/:serviceId',
+    asyncHandler(withAuth((req, res) => intakeFormController.getServiceForm(req, res)))
+  );
+  router.put(
+    '/services/:serviceId',
+    canManage,
+    asyncHandler(withAuth((req, res) => intakeFormController.publishForm(req, res)))
+  );
+  router.delete(
+    '/services/:serviceId',
+    canManage,
+    asyncHandler(withAuth((req, res) => intakeFormController.disableForm(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/intake-forms/services/{serviceId}/versions:
+   *   get:
+   *     tags: [Intake Forms]
+   *     summary: Every version of a service's intake form
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: serviceId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Form versions, newest first
+   */
+  router.get(
+    '/services/:serviceId/versions',
+    canView,
+    asyncHandler(withAuth((req, res) => intakeFormController.getFormVersions(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/intake-forms/appointments/{appointmentId}:
+   *   get:
+   *     tags: [Intake Forms]
+   *     summary: Intake status and answers of an appointment
+   *     description: Visible to the customer and the staff member assigned to the appointment only (the owner when nobody is assigned).
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: appointmentId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Status (NOT_REQUIRED, PENDING or COMPLETED), form and answers
+   *       403:
+   *         description: Not the customer or the assigned staff member
+   *   put:
+   *     tags: [Intake Forms]
+   *     summary: Answer the intake form of an upcoming appointment
+   *     description: Unanswered questions are filled from the customer's previous visit where possible. Answers can be changed until the appointment starts.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: appointmentId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [answers]
+   *             properties:
+   *               answers:
+   *                 type: object
+   *                 description: Answers keyed by field id; text or choice answers are strings, yes/no and consent answers booleans
+   *     responses:
+   *       200:
+   *         description: Answers saved
+   *       400:
+   *         description: An answer does not fit its question or a required question is unanswered
+   *       422:
+   *         description: The appointment has started or is no longer active
+   */
+  router.get(
+    '/appointments/:appointmentId',
+    asyncHandler(withAuth((req, res) => intakeFormController.getAppointmentIntake(req, res)))
+  );
+  router.put(
+    '/appointments/:appointmentId',
+    asyncHandler(withAuth((req, res) => intakeFormController.submitAppointmentIntake(req, res)))
+  );
+
+  return router;
+}
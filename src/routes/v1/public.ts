@@ -9,12 +9,21 @@ import { asyncHandler } from '../../utils/asyncHandler';
 import { trackCachePerformance } from '../../middleware/cacheMonitoring';
 import prisma from '../../lib/prisma';
 import { sendErrorResponse } from '../../utils/responseUtils';
+import { createUserRateLimiter } from '../../middleware/userRateLimit';
 
 // Initialize dependencies
 const repositories = new RepositoryContainer(prisma);
 const services = new ServiceContainer(repositories, prisma);
 const controllers = new ControllerContainer(repositories, services);
 
+// One search computes up to a week of slot listings for ten staff members
+const firstAvailableRateLimiter = createUserRateLimiter({
+  windowMs: 60 * 1000,
+  maxRequests: 20,
+  keyPrefix: 'rate_limit_first_available',
+  message: 'Too many availability searches, please try again later',
+});
+
 export function createPublicRoutes(): Router {
   const router = Router();
 
@@ -35,6 +44,12 @@ export function createPublicRoutes(): Router {
    *         schema:
    *           type: string
    *         description: Business ID
+   *       - in: query
+   *         name: serviceId
+   *         required: false
+   *         schema:
+   *           type: string
+   *         description: Only staff assigned to this service, each with their terms for it
    *     responses:
    *       200:
    *         description: Staff list retrieved successfully
@@ -73,6 +88,22 @@ export function createPublicRoutes(): Router {
    *                               avatar:
    *                                 type: string
    *                                 nullable: true
+   *                           service:
+   *                             type: object
+   *                             description: Only with serviceId; the service as this staff member performs it, after their duration, buffer and price overrides. Price visibility settings apply.
+   *                             properties:
+   *                               duration:
+   *                                 type: integer
+   *                               bufferTime:
+   *                                 type: integer
+   *                               price:
+   *                                 type: number
+   *                               currency:
+   *                                 type: string
+   *                               priceHidden:
+   *                                 type: boolean
+   *                               priceDisplayMessage:
+   *                                 type: string
    *       404:
    *         description: Business not found
    */
@@ -106,16 +137,35 @@ export function createPublicRoutes(): Router {
    *         example: "2025-10-31"
    *       - in: query
    *         name: serviceId
-   *         required: true
+   *         required: false
    *         schema:
    *           type: string
-   *         description: Service ID
+   *         description: Service ID (required unless serviceIds is given)
+   *       - in: query
+   *         name: serviceIds
+   *         required: false
+   *         schema:
+   *           type: string
+   *         description: Comma-separated, ordered service IDs of a bundle. Slots are only available where the whole sequence fits back-to-back; each slot then carries a per-leg breakdown.
+   *         example: "svc_haircut,svc_beard,svc_wash"
    *       - in: query
    *         name: staffId
    *         required: false
    *         schema:
    *           type: string
    *         description: Optional staff member ID to filter slots
+   *       - in: query
+   *         name: staffIds
+   *         required: false
+   *         schema:
+   *           type: string
+   *         description: Optional comma-separated staff IDs positional to serviceIds (leave an entry empty for any staff)
+   *       - in: query
+   *         name: holdId
+   *         required: false
+   *         schema:
+   *           type: string
+   *         description: The caller's own checkout hold; its slot is listed as available instead of held
    *     responses:
    *       200:
    *         description: Available slots retrieved successfully
@@ -165,6 +215,18 @@ export function createPublicRoutes(): Router {
    *                           staffName:
    *                             type: string
    *                             nullable: true
+   *                           price:
+   *                             type: number
+   *                             description: After the service's pricing rules (peak hours, last minute); left out while prices are hidden
+   *                           currency:
+   *                             type: string
+   *                           firstVisitPrice:
+   *                             type: number
+   *                             description: Price for a customer's first visit, when the service has such a rule
+   *                     bookingOpensAt:
+   *                       type: string
+   *                       format: date-time
+   *                       description: Present while the day is beyond the service's booking horizon or not yet released; until then every slot is unavailable
    *                     businessHours:
    *                       type: object
    *                       properties:
@@ -196,6 +258,181 @@ export function createPublicRoutes(): Router {
     asyncHandler(controllers.appointmentController.getPublicAvailableSlots.bind(controllers.appointmentController))
   );
 
+  /**
+   * @swagger
+   * /api/v1/public/businesses/{businessId}/first-available:
+   *   get:
+   *     tags: [Public, Appointments]
+   *     summary: Find the earliest available slots across days and staff
+   *     description: |
+   *       Walks the date range day by day and returns the next `limit` free slots for the
+   *       service, earliest first, over every staff member providing it (or the given ones).
+   *       Each day is checked with the same rules as available-slots. The search stops after
+   *       the first day that fills the limit, or after 70 staff-day listings (a week for ten
+   *       staff members); `searchedThrough` is the last day looked at. Rate limited to
+   *       20 searches per minute.
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: serviceId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: staffIds
+   *         schema:
+   *           type: string
+   *         description: Comma-separated staff IDs; ties at the same time are listed in this order
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: First day (business timezone); defaults to today
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: Last day, inclusive; defaults to a week from `from`. At most 31 days in total.
+   *       - in: query
+   *         name: windows
+   *         schema:
+   *           type: string
+   *         description: Comma-separated preferred times of day; a slot must fit inside one of them
+   *         example: "09:00-12:00,17:00-20:00"
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 20
+   *           default: 5
+   *     responses:
+   *       200:
+   *         description: Earliest available slots
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     timezone:
+   *                       type: string
+   *                       example: "Europe/Istanbul"
+   *                     from:
+   *                       type: string
+   *                     to:
+   *                       type: string
+   *                     searchedThrough:
+   *                       type: string
+   *                     slots:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           date:
+   *                             type: string
+   *                           startTime:
+   *                             type: string
+   *                             format: date-time
+   *                           endTime:
+   *                             type: string
+   *                             format: date-time
+   *                           staffId:
+   *                             type: string
+   *                           staffName:
+   *                             type: string
+   *       400:
+   *         description: Invalid parameters or a range longer than 31 days
+   *       404:
+   *         description: Business, service or staff not found
+   *       429:
+   *         description: Too many searches
+   */
+  router.get('/businesses/:businessId/first-available',
+    firstAvailableRateLimiter.middleware,
+    validateParams(businessIdParamSchema),
+    asyncHandler(controllers.availabilitySearchController.findFirstAvailable.bind(controllers.availabilitySearchController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/public/businesses/{businessId}/walk-in-queue:
+   *   get:
+   *     tags: [Public, Walk-in Queue]
+   *     summary: Walk-in queue status for a display screen
+   *     description: |
+   *       Ticket numbers being called and waiting today, with the estimated wait of each
+   *       waiting ticket. No customer details; staff names are left out when the business
+   *       hides them. Meant to be polled, so it is never cached.
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Queue status
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     businessName:
+   *                       type: string
+   *                     date:
+   *                       type: string
+   *                       format: date
+   *                     called:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           number:
+   *                             type: integer
+   *                           staffName:
+   *                             type: string
+   *                           calledAt:
+   *                             type: string
+   *                             format: date-time
+   *                     waiting:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           number:
+   *                             type: integer
+   *                           serviceName:
+   *                             type: string
+   *                           staffName:
+   *                             type: string
+   *                             description: Requested staff member; absent for any staff
+   *                           position:
+   *                             type: integer
+   *                           estimatedWaitMinutes:
+   *                             type: integer
+   *                     lastUpdated:
+   *                       type: string
+   *                       format: date-time
+   *       404:
+   *         description: Business not found
+   */
+  router.get('/businesses/:businessId/walk-in-queue',
+    validateParams(businessIdParamSchema),
+    asyncHandler(controllers.walkInQueueController.getPublicQueueStatus.bind(controllers.walkInQueueController))
+  );
+
   // Public endpoint: get special-day overrides for the booking calendar (no auth required)
   router.get('/businesses/:businessId/hours/overrides',
     validateParams(businessIdParamSchema),
@@ -832,6 +832,82 @@ export function createReportsRoutes(): Router {
     asyncHandler(withAuth(reportsController.getOperationalReport))
   );
 
+  /**
+   * @swagger
+   * /api/v1/reports/waitlist:
+   *   get:
+   *     tags: [Reports]
+   *     summary: Get waitlist conversion report
+   *     description: Waitlist entries and offers in the period, how offers were answered and revenue recovered from accepted offers
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: businessId
+   *         schema:
+   *           type: string
+   *         description: Specific business ID
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *     responses:
+   *       200:
+   *         description: Waitlist report retrieved successfully
+   */
+  router.get(
+    '/waitlist',
+    authMiddleware.authenticate,
+    requireAny([PermissionName.VIEW_OWN_CUSTOMERS, PermissionName.VIEW_USER_BEHAVIOR]),
+    validateQuery(reportQuerySchema),
+    rateLimitByUser(15, 60 * 1000),
+    asyncHandler(withAuth(reportsController.getWaitlistReport))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/reports/deposits:
+   *   get:
+   *     tags: [Reports]
+   *     summary: Get booking deposit report
+   *     description: Deposits collected in the period, how much was refunded to customers and how much was forfeited on late cancellations and no-shows
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: businessId
+   *         schema:
+   *           type: string
+   *         description: Specific business ID
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *     responses:
+   *       200:
+   *         description: Deposit report retrieved successfully
+   */
+  router.get(
+    '/deposits',
+    authMiddleware.authenticate,
+    requireAny([PermissionName.VIEW_OWN_CUSTOMERS, PermissionName.VIEW_USER_BEHAVIOR]),
+    validateQuery(reportQuerySchema),
+    rateLimitByUser(15, 60 * 1000),
+    asyncHandler(withAuth(reportsController.getDepositReport))
+  );
+
   /**
    * @swagger
    * /api/v1/reports/customer-analytics:
@@ -0,0 +1,196 @@
+import { Router } from 'express';
+import { ResourceController } from '../../controllers/resourceController';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { requireAuth, requireAny, withAuth } from '../../middleware/authUtils';
+import { PermissionName } from '../../types/auth';
+
+export function createResourceRoutes(resourceController: ResourceController): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  const canView = requireAny([PermissionName.VIEW_ALL_SERVICES, PermissionName.VIEW_OWN_SERVICES]);
+  const canManage = requireAny([PermissionName.MANAGE_ALL_SERVICES, PermissionName.MANAGE_OWN_SERVICES]);
+
+  /**
+   * @swagger
+   * /api/v1/resources/business/{businessId}:
+   *   get:
+   *     tags: [Resources]
+   *     summary: List rooms, chairs and equipment of a business
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: activeOnly
+   *         schema:
+   *           type: boolean
+   *     responses:
+   *       200:
+   *         description: List of resources
+   *   post:
+   *     tags: [Resources]
+   *     summary: Create a resource
+   *     description: A resource can be used by up to `capacity` appointments at the same time.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [name]
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 example: 'Lazer Cihazı'
+   *               type:
+   *                 type: string
+   *                 enum: [ROOM, CHAIR, EQUIPMENT, OTHER]
+   *               capacity:
+   *                 type: integer
+   *                 minimum: 1
+   *                 default: 1
+   *               description:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Resource created
+   *       409:
+   *         description: A resource with this name already exists
+   */
+  router.get(
+    '/business/:businessId',
+    canView,
+    asyncHandler(withAuth((req, res) => resourceController.getBusinessResources(req, res)))
+  );
+  router.post(
+    '/business/:businessId',
+    canManage,
+    asyncHandler(withAuth((req, res) => resourceController.createResource(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/resources/services/{serviceId}:
+   *   get:
+   *     tags: [Resources]
+   *     summary: Resources a service needs
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: serviceId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Resource requirements of the service
+   *   put:
+   *     tags: [Resources]
+   *     summary: Replace the resources a service needs
+   *     description: A slot is only offered when a staff member and every listed resource are free. An empty list removes all requirements.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: serviceId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [resources]
+   *             properties:
+   *               resources:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   required: [resourceId]
+   *                   properties:
+   *                     resourceId:
+   *                       type: string
+   *                     quantity:
+   *                       type: integer
+   *                       minimum: 1
+   *                       default: 1
+   *     responses:
+   *       200:
+   *         description: Updated resource requirements
+   *       400:
+   *         description: Quantity exceeds the resource capacity
+   */
+  router.get(
+    '/services/:serviceId',
+    canView,
+    asyncHandler(withAuth((req, res) => resourceController.getServiceResources(req, res)))
+  );
+  router.put(
+    '/services/:serviceId',
+    canManage,
+    asyncHandler(withAuth((req, res) => resourceController.setServiceResources(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/resources/{resourceId}:
+   *   put:
+   *     tags: [Resources]
+   *     summary: Update a resource
+   *     description: Capacity cannot drop below what a service needs. Inactive resources are not enforced.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: resourceId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Resource updated
+   *   delete:
+   *     tags: [Resources]
+   *     summary: Delete a resource and remove it from every service
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: resourceId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Resource deleted
+   */
+  router.put(
+    '/:resourceId',
+    canManage,
+    asyncHandler(withAuth((req, res) => resourceController.updateResource(req, res)))
+  );
+  router.delete(
+    '/:resourceId',
+    canManage,
+    asyncHandler(withAuth((req, res) => resourceController.deleteResource(req, res)))
+  );
+
+  return router;
+}
@@ -186,6 +186,116 @@ export function createServiceRoutes(serviceController: any, cacheInvalidation?:
     asyncHandler(serviceController.getServiceAssignmentStatus.bind(serviceController))
   );
 
+  /**
+   * @swagger
+   * /api/v1/services/{id}/staff:
+   *   get:
+   *     tags: [Services]
+   *     summary: List the staff assigned to a service with their overrides
+   *     description: Duration, buffer and price a staff member's take on the service has; unset values use the service's own.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Staff assignments
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     staff:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           staffId:
+   *                             type: string
+   *                           duration:
+   *                             type: integer
+   *                           bufferTime:
+   *                             type: integer
+   *                           price:
+   *                             type: number
+   *       404:
+   *         description: Service not found
+   */
+  router.get(
+    '/:id/staff',
+    requireAny([PermissionName.VIEW_ALL_SERVICES, PermissionName.VIEW_OWN_SERVICES]),
+    asyncHandler(serviceController.getServiceStaffOverrides.bind(serviceController))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/services/{id}/staff/{staffId}:
+   *   put:
+   *     tags: [Services]
+   *     summary: Set a staff member's duration, buffer and price for a service
+   *     description: |
+   *       Assigns the staff member to the service when needed. Fields left out stay as
+   *       they are; null goes back to the service's own value. Booking, available slots,
+   *       the public staff list and reports use the overridden values.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: staffId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               duration:
+   *                 type: integer
+   *                 minimum: 15
+   *                 maximum: 480
+   *                 nullable: true
+   *               bufferTime:
+   *                 type: integer
+   *                 minimum: 0
+   *                 maximum: 120
+   *                 nullable: true
+   *               price:
+   *                 type: number
+   *                 minimum: 0
+   *                 nullable: true
+   *           example:
+   *             duration: 30
+   *             price: 420
+   *     responses:
+   *       200:
+   *         description: Override saved
+   *       400:
+   *         description: Validation error or staff member not in this business
+   *       404:
+   *         description: Service not found
+   */
+  router.put(
+    '/:id/staff/:staffId',
+    cacheInvalidation.invalidateServiceCache,
+    requireAny([PermissionName.MANAGE_ALL_SERVICES, PermissionName.MANAGE_OWN_SERVICES]),
+    asyncHandler(serviceController.updateStaffOverride.bind(serviceController))
+  );
+
   router.get(
     '/:id',
     serviceCache,
@@ -264,16 +374,37 @@ export function createServiceRoutes(serviceController: any, cacheInvalidation?:
    *                 example: 15
    *               maxAdvanceBooking:
    *                 type: integer
-   *                 minimum: 0
+   *                 minimum: 1
    *                 maximum: 365
-   *                 description: Maximum days in advance for booking (0-365 days)
+   *                 nullable: true
+   *                 description: Maximum days in advance for booking (1-365 days); null uses the business setting
    *                 example: 30
    *               minAdvanceBooking:
    *                 type: integer
    *                 minimum: 0
-   *                 maximum: 30
-   *                 description: Minimum days in advance required for booking (0-30 days)
-   *                 example: 0
+   *                 maximum: 72
+   *                 nullable: true
+   *                 description: Minimum hours in advance required for booking (0-72 hours); null uses the business setting
+   *                 example: 2
+   *               bookingRelease:
+   *                 type: object
+   *                 nullable: true
+   *                 description: Weekly release of future slots; null removes it
+   *                 properties:
+   *                   dayOfWeek:
+   *                     type: integer
+   *                     example: 1
+   *                   time:
+   *                     type: string
+   *                     example: '09:00'
+   *                   weeksAhead:
+   *                     type: integer
+   *                     example: 0
+   *               pricing:
+   *                 allOf:
+   *                   - $ref: '#/components/schemas/ServicePricing'
+   *                 nullable: true
+   *                 description: Dynamic pricing rules; null removes them
    *           examples:
    *             update_basic:
    *               summary: Update Basic Service Info
@@ -693,6 +824,7 @@ export function createServiceRoutes(serviceController: any, cacheInvalidation?:
    *   post:
    *     tags: [Services]
    *     summary: Bulk update service prices
+   *     description: Multiplies every price of the business by `priceMultiplier` - service prices, staff members' prices and the fixed amounts of pricing rules. Percentage rules scale on their own. Booked appointments keep their price.
    *     security:
    *       - bearerAuth: []
    *     parameters:
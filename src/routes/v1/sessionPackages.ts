@@ -0,0 +1,203 @@
+import { Router } from 'express';
+import { SessionPackageController } from '../../controllers/sessionPackageController';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { requireAuth, requireAny, withAuth } from '../../middleware/authUtils';
+import { PermissionName } from '../../types/auth';
+
+export function createSessionPackageRoutes(sessionPackageController: SessionPackageController): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  const canView = requireAny([PermissionName.VIEW_ALL_SERVICES, PermissionName.VIEW_OWN_SERVICES]);
+  const canManage = requireAny([PermissionName.MANAGE_ALL_SERVICES, PermissionName.MANAGE_OWN_SERVICES]);
+
+  /**
+   * @swagger
+   * /api/v1/session-packages/business/{businessId}:
+   *   get:
+   *     tags: [Session Packages]
+   *     summary: Session packages a business sells
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: includeInactive
+   *         schema:
+   *           type: boolean
+   *         description: Include packages no longer sold
+   *     responses:
+   *       200:
+   *         description: List of packages
+   *   post:
+   *     tags: [Session Packages]
+   *     summary: Define a prepaid session package
+   *     description: >
+   *       A package gives a number of sessions of the listed services, usable for
+   *       validityDays after it is sold (or without expiry).
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [name, serviceIds, credits, price]
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 example: '10 Seans Lazer'
+   *               description:
+   *                 type: string
+   *               serviceIds:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *               credits:
+   *                 type: integer
+   *                 minimum: 1
+   *                 example: 10
+   *               validityDays:
+   *                 type: integer
+   *                 minimum: 1
+   *                 example: 365
+   *               price:
+   *                 type: number
+   *                 example: 7500
+   *               currency:
+   *                 type: string
+   *                 default: TRY
+   *     responses:
+   *       201:
+   *         description: Package created
+   *       400:
+   *         description: A service does not belong to the business
+   */
+  router.get(
+    '/business/:businessId',
+    canView,
+    asyncHandler(withAuth((req, res) => sessionPackageController.getBusinessPackages(req, res)))
+  );
+  router.post(
+    '/business/:businessId',
+    canManage,
+    asyncHandler(withAuth((req, res) => sessionPackageController.createPackage(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/session-packages/business/{businessId}/customers/{customerId}:
+   *   get:
+   *     tags: [Session Packages]
+   *     summary: A customer's packages and remaining sessions at the business
+   *     description: >
+   *       Visible to the business staff and to the customer. creditsReserved are held
+   *       by upcoming appointments; creditsUsed include those lost to late
+   *       cancellations and no-shows.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: customerId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: The customer's packages, newest first
+   */
+  router.get(
+    '/business/:businessId/customers/:customerId',
+    asyncHandler(withAuth((req, res) => sessionPackageController.getCustomerPackages(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/session-packages/{packageId}:
+   *   patch:
+   *     tags: [Session Packages]
+   *     summary: Change or retire a package
+   *     description: Set isActive to false to stop selling it. Packages already sold keep their sessions, services and expiry.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: packageId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Package updated
+   *       404:
+   *         description: Package not found
+   */
+  router.patch(
+    '/:packageId',
+    canManage,
+    asyncHandler(withAuth((req, res) => sessionPackageController.updatePackage(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/session-packages/{packageId}/sell:
+   *   post:
+   *     tags: [Session Packages]
+   *     summary: Record a package bought by a customer
+   *     description: >
+   *       From then on, the customer's bookings of a covered service hold one of its
+   *       sessions instead of asking for a deposit. The session is spent when the
+   *       appointment is completed and comes back when the appointment is cancelled
+   *       within the cancellation policy or by the business.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: packageId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [customerId]
+   *             properties:
+   *               customerId:
+   *                 type: string
+   *               pricePaid:
+   *                 type: number
+   *                 description: Defaults to the package price
+   *     responses:
+   *       201:
+   *         description: The customer's package
+   *       409:
+   *         description: The package is no longer sold
+   */
+  router.post(
+    '/:packageId/sell',
+    canManage,
+    asyncHandler(withAuth((req, res) => sessionPackageController.sellPackage(req, res)))
+  );
+
+  return router;
+}
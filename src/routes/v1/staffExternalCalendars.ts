@@ -0,0 +1,154 @@
+import { Router } from 'express';
+import { StaffExternalCalendarController } from '../../controllers/staffExternalCalendarController';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { requireAuth, withAuth } from '../../middleware/authUtils';
+
+export function createStaffExternalCalendarRoutes(staffExternalCalendarController: StaffExternalCalendarController): Router {
+  const router = Router();
+
+  // Staff manage their own calendars; anything else is checked against staff
+  // management rights in the service
+  router.use(requireAuth);
+
+  /**
+   * @swagger
+   * /api/v1/staff-calendars/business/{businessId}:
+   *   get:
+   *     tags: [Staff Calendars]
+   *     summary: List external calendars of a business
+   *     description: Owners and staff managers see every calendar; other staff only their own.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: staffId
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: External calendars with their last import result
+   *   post:
+   *     tags: [Staff Calendars]
+   *     summary: Add an external calendar
+   *     description: |
+   *       Upload the text of an ICS file or register an http, https or webcal URL. The
+   *       calendar is imported right away and then every hour; its events (recurring ones
+   *       expanded, cancelled and free ones skipped) block the staff member like approved
+   *       time off in booking and slot listing.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [name]
+   *             properties:
+   *               staffId:
+   *                 type: string
+   *                 description: Defaults to the caller's own staff record
+   *               name:
+   *                 type: string
+   *               icsContent:
+   *                 type: string
+   *                 description: Contents of the ICS file; give this or sourceUrl
+   *               sourceUrl:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Calendar added and imported
+   *       400:
+   *         description: The file or URL could not be read as a calendar
+   * /api/v1/staff-calendars/{calendarId}:
+   *   patch:
+   *     tags: [Staff Calendars]
+   *     summary: Rename, pause or resume a calendar, or replace an uploaded file
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: calendarId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               name:
+   *                 type: string
+   *               isActive:
+   *                 type: boolean
+   *               icsContent:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Calendar updated
+   *   delete:
+   *     tags: [Staff Calendars]
+   *     summary: Remove a calendar and the busy time imported from it
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: calendarId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Calendar removed
+   * /api/v1/staff-calendars/{calendarId}/refresh:
+   *   post:
+   *     tags: [Staff Calendars]
+   *     summary: Import the calendar now
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: calendarId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Calendar re-imported
+   */
+  router.get(
+    '/business/:businessId',
+    asyncHandler(withAuth((req, res) => staffExternalCalendarController.getBusinessCalendars(req, res)))
+  );
+  router.post(
+    '/business/:businessId',
+    asyncHandler(withAuth((req, res) => staffExternalCalendarController.addCalendar(req, res)))
+  );
+  router.patch(
+    '/:calendarId',
+    asyncHandler(withAuth((req, res) => staffExternalCalendarController.updateCalendar(req, res)))
+  );
+  router.post(
+    '/:calendarId/refresh',
+    asyncHandler(withAuth((req, res) => staffExternalCalendarController.refreshCalendar(req, res)))
+  );
+  router.delete(
+    '/:calendarId',
+    asyncHandler(withAuth((req, res) => staffExternalCalendarController.removeCalendar(req, res)))
+  );
+
+  return router;
+}
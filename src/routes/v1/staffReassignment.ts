@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import { StaffReassignmentController } from '../../controllers/staffReassignmentController';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { requireAuth, withAuth } from '../../middleware/authUtils';
+
+export function createStaffReassignmentRoutes(staffReassignmentController: StaffReassignmentController): Router {
+  const router = Router();
+
+  // Staff management rights are checked against the staff member's business in the service
+  router.use(requireAuth);
+
+  /**
+   * @swagger
+   * /api/v1/staff-reassignment/{staffId}/preview:
+   *   get:
+   *     tags: [Staff Reassignment]
+   *     summary: Preview handing a staff member's upcoming appointments to colleagues
+   *     description: |
+   *       Each appointment is proposed to the first other active staff member who provides
+   *       the service and is free at that time; when nobody is, the customer would be offered
+   *       new times. Scope with an approved time off, a date range, or neither for every
+   *       upcoming appointment.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: staffId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: timeOffId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *     responses:
+   *       200:
+   *         description: One proposal per upcoming appointment
+   * /api/v1/staff-reassignment/{staffId}/apply:
+   *   post:
+   *     tags: [Staff Reassignment]
+   *     summary: Hand a staff member's upcoming appointments to colleagues
+   *     description: Customers are notified of the new staff member, or offered new times when nobody is free.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: staffId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               timeOffId:
+   *                 type: string
+   *               startDate:
+   *                 type: string
+   *                 format: date
+   *               endDate:
+   *                 type: string
+   *                 format: date
+   *               appointmentIds:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *               reason:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Per-appointment outcome (reassigned, suggested, failed)
+   */
+  router.get(
+    '/:staffId/preview',
+    asyncHandler(withAuth((req, res) => staffReassignmentController.previewReassignment(req, res)))
+  );
+  router.post(
+    '/:staffId/apply',
+    asyncHandler(withAuth((req, res) => staffReassignmentController.applyReassignment(req, res)))
+  );
+
+  return router;
+}
@@ -0,0 +1,257 @@
+import { Router } from 'express';
+import { StaffTimeOffController } from '../../controllers/staffTimeOffController';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { requireAuth, withAuth } from '../../middleware/authUtils';
+
+export function createStaffTimeOffRoutes(staffTimeOffController: StaffTimeOffController): Router {
+  const router = Router();
+
+  // Staff may manage their own requests; reviewing and the affected-appointment
+  // flow are checked against staff management rights in the service
+  router.use(requireAuth);
+
+  /**
+   * @swagger
+   * /api/v1/staff-time-off/business/{businessId}:
+   *   get:
+   *     tags: [Staff Time Off]
+   *     summary: List staff time off of a business
+   *     description: Owners and staff managers see every entry; other staff only their own.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: staffId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [PENDING, APPROVED, REJECTED, CANCELLED]
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *     responses:
+   *       200:
+   *         description: List of time off entries
+   *   post:
+   *     tags: [Staff Time Off]
+   *     summary: Request time off
+   *     description: |
+   *       Without times every day from startDate to endDate is off; startTime moves the
+   *       start on the first day and endTime the end on the last day. Entries created by
+   *       the owner or a staff manager are approved right away, others wait for approval.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [startDate]
+   *             properties:
+   *               staffId:
+   *                 type: string
+   *                 description: Defaults to the caller's own staff record
+   *               type:
+   *                 type: string
+   *                 enum: [VACATION, SICK, PERSONAL, TRAINING, OTHER]
+   *               startDate:
+   *                 type: string
+   *                 format: date
+   *                 example: '2026-05-12'
+   *               endDate:
+   *                 type: string
+   *                 format: date
+   *                 example: '2026-05-19'
+   *               startTime:
+   *                 type: string
+   *                 example: '15:00'
+   *               endTime:
+   *                 type: string
+   *                 example: '18:00'
+   *               reason:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Time off created
+   *       400:
+   *         description: Time off ends before it starts
+   */
+  router.get(
+    '/business/:businessId',
+    asyncHandler(withAuth((req, res) => staffTimeOffController.getBusinessTimeOff(req, res)))
+  );
+  router.post(
+    '/business/:businessId',
+    asyncHandler(withAuth((req, res) => staffTimeOffController.createTimeOff(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/staff-time-off/{timeOffId}/approve:
+   *   post:
+   *     tags: [Staff Time Off]
+   *     summary: Approve a pending time off request
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: timeOffId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               note:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Time off approved
+   *       409:
+   *         description: Time off is no longer pending
+   * /api/v1/staff-time-off/{timeOffId}/reject:
+   *   post:
+   *     tags: [Staff Time Off]
+   *     summary: Reject a pending time off request
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: timeOffId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               note:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Time off rejected
+   *       409:
+   *         description: Time off is no longer pending
+   * /api/v1/staff-time-off/{timeOffId}/cancel:
+   *   post:
+   *     tags: [Staff Time Off]
+   *     summary: Withdraw a pending or approved time off
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: timeOffId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Time off cancelled
+   */
+  router.post(
+    '/:timeOffId/approve',
+    asyncHandler(withAuth((req, res) => staffTimeOffController.approveTimeOff(req, res)))
+  );
+  router.post(
+    '/:timeOffId/reject',
+    asyncHandler(withAuth((req, res) => staffTimeOffController.rejectTimeOff(req, res)))
+  );
+  router.post(
+    '/:timeOffId/cancel',
+    asyncHandler(withAuth((req, res) => staffTimeOffController.cancelTimeOff(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/staff-time-off/{timeOffId}/affected-appointments:
+   *   get:
+   *     tags: [Staff Time Off]
+   *     summary: Preview appointments that fall into the time off
+   *     description: Each appointment lists the qualified staff members who are free at that time.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: timeOffId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Affected appointments
+   * /api/v1/staff-time-off/{timeOffId}/affected-appointments/resolve:
+   *   post:
+   *     tags: [Staff Time Off]
+   *     summary: Reassign or cancel affected appointments in bulk
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: timeOffId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [action, appointmentIds]
+   *             properties:
+   *               action:
+   *                 type: string
+   *                 enum: [REASSIGN, CANCEL]
+   *               appointmentIds:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *               targetStaffId:
+   *                 type: string
+   *                 description: REASSIGN only; defaults to the first free qualified staff member
+   *               reason:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Per-appointment outcome (reassigned, cancelled, failed)
+   *       409:
+   *         description: Time off is not approved
+   */
+  router.get(
+    '/:timeOffId/affected-appointments',
+    asyncHandler(withAuth((req, res) => staffTimeOffController.getAffectedAppointments(req, res)))
+  );
+  router.post(
+    '/:timeOffId/affected-appointments/resolve',
+    asyncHandler(withAuth((req, res) => staffTimeOffController.resolveAffectedAppointments(req, res)))
+  );
+
+  return router;
+}
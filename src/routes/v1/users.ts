@@ -521,6 +521,44 @@ export function createUserRoutes(): Router {
    *                       nullable: true
    *                       example: "2024-02-15T15:30:00.000Z"
    *                       description: Date of last appointment
+   *                     packages:
+   *                       type: array
+   *                       description: >
+   *                         Session packages the customer bought at your business, newest
+   *                         first. creditsReserved are held by upcoming appointments.
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           id:
+   *                             type: string
+   *                           name:
+   *                             type: string
+   *                             example: "10 Seans Lazer"
+   *                           serviceIds:
+   *                             type: array
+   *                             items:
+   *                               type: string
+   *                           creditsTotal:
+   *                             type: integer
+   *                             example: 10
+   *                           creditsRemaining:
+   *                             type: integer
+   *                             example: 6
+   *                           creditsReserved:
+   *                             type: integer
+   *                             example: 1
+   *                           creditsUsed:
+   *                             type: integer
+   *                             example: 3
+   *                           purchasedAt:
+   *                             type: string
+   *                             format: date-time
+   *                           expiresAt:
+   *                             type: string
+   *                             format: date-time
+   *                             nullable: true
+   *                           isExpired:
+   *                             type: boolean
    *             example:
    *               success: true
    *               message: "Customer details retrieved successfully"
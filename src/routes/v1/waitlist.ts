@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { WaitlistController } from '../../controllers/waitlistController';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { requireAuth, withAuth } from '../../middleware/authUtils';
+
+export function createWaitlistRoutes(waitlistController: WaitlistController): Router {
+  const router = Router();
+
+  router.post(
+    '/',
+    requireAuth,
+    asyncHandler(withAuth((req, res) => waitlistController.joinWaitlist(req, res)))
+  );
+
+  router.get(
+    '/my',
+    requireAuth,
+    asyncHandler(withAuth((req, res) => waitlistController.getMyWaitlist(req, res)))
+  );
+
+  router.get(
+    '/business/:businessId',
+    requireAuth,
+    asyncHandler(withAuth((req, res) => waitlistController.getBusinessWaitlist(req, res)))
+  );
+
+  router.post(
+    '/offers/:offerId/accept',
+    requireAuth,
+    asyncHandler(withAuth((req, res) => waitlistController.acceptOffer(req, res)))
+  );
+
+  router.post(
+    '/offers/:offerId/decline',
+    requireAuth,
+    asyncHandler(withAuth((req, res) => waitlistController.declineOffer(req, res)))
+  );
+
+  router.delete(
+    '/:entryId',
+    requireAuth,
+    asyncHandler(withAuth((req, res) => waitlistController.leaveWaitlist(req, res)))
+  );
+
+  return router;
+}
@@ -0,0 +1,233 @@
+import { Router } from 'express';
+import { WalkInQueueController } from '../../controllers/walkInQueueController';
+import { asyncHandler } from '../../utils/asyncHandler';
+import { requireAuth, withAuth } from '../../middleware/authUtils';
+
+export function createWalkInQueueRoutes(walkInQueueController: WalkInQueueController): Router {
+  const router = Router();
+
+  // Customers may take and cancel their own tickets; working the queue is checked
+  // against the business's staff in the service
+  router.use(requireAuth);
+
+  /**
+   * @swagger
+   * /api/v1/walk-in-queue/business/{businessId}:
+   *   get:
+   *     tags: [Walk-in Queue]
+   *     summary: Today's walk-in queue of a business
+   *     description: |
+   *       Called, waiting and skipped tickets of the business day. Waiting tickets carry
+   *       their place in line (the requested staff member's or the "any staff" line) and
+   *       the minutes until a staff member is expected to be free for them, estimated from
+   *       how long each service took in the completed appointments of the last 90 days.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: The queue
+   *       403:
+   *         description: Not staff of the business
+   * /api/v1/walk-in-queue/business/{businessId}/tickets:
+   *   post:
+   *     tags: [Walk-in Queue]
+   *     summary: Add a walk-in ticket
+   *     description: |
+   *       Staff add a ticket for a customer at the counter, with a customer account or just
+   *       a name. Anyone else takes a ticket for themselves (self-service); the customer
+   *       fields are ignored then. A customer holds one open ticket per business.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [serviceId]
+   *             properties:
+   *               serviceId:
+   *                 type: string
+   *               staffId:
+   *                 type: string
+   *                 description: Omit to wait for any staff member providing the service
+   *               customerId:
+   *                 type: string
+   *               customerName:
+   *                 type: string
+   *                 description: Required for staff-added tickets without a customerId
+   *               customerPhone:
+   *                 type: string
+   *               notes:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Ticket created with its number and wait estimate
+   *       409:
+   *         description: The customer is already in the queue
+   */
+  router.get(
+    '/business/:businessId',
+    asyncHandler(withAuth((req, res) => walkInQueueController.getQueue(req, res)))
+  );
+  router.post(
+    '/business/:businessId/tickets',
+    asyncHandler(withAuth((req, res) => walkInQueueController.addTicket(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/walk-in-queue/business/{businessId}/call-next:
+   *   post:
+   *     tags: [Walk-in Queue]
+   *     summary: Call the next walk-in customer
+   *     description: |
+   *       Calls the first waiting ticket, in the order taken, that asked for the staff
+   *       member or for any staff member providing its service. Managers can call for
+   *       another staff member.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: businessId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               staffId:
+   *                 type: string
+   *                 description: Defaults to the caller's own staff record
+   *     responses:
+   *       200:
+   *         description: The called ticket
+   *       404:
+   *         description: Nobody the staff member can serve is waiting
+   */
+  router.post(
+    '/business/:businessId/call-next',
+    asyncHandler(withAuth((req, res) => walkInQueueController.callNext(req, res)))
+  );
+
+  /**
+   * @swagger
+   * /api/v1/walk-in-queue/tickets/{ticketId}:
+   *   get:
+   *     tags: [Walk-in Queue]
+   *     summary: A ticket with its place in line
+   *     description: For the ticket's customer and the business's staff.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: ticketId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: The ticket
+   *   delete:
+   *     tags: [Walk-in Queue]
+   *     summary: Cancel a ticket
+   *     description: The customer leaves the queue, or the staff take the ticket off it.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: ticketId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Ticket cancelled
+   *       409:
+   *         description: Ticket was already converted or cancelled
+   * /api/v1/walk-in-queue/tickets/{ticketId}/skip:
+   *   post:
+   *     tags: [Walk-in Queue]
+   *     summary: Skip a customer who is not there
+   *     description: Skipped tickets stay listed and can still be converted or cancelled.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: ticketId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Ticket skipped
+   *       409:
+   *         description: Ticket is no longer waiting or called
+   * /api/v1/walk-in-queue/tickets/{ticketId}/convert:
+   *   post:
+   *     tags: [Walk-in Queue]
+   *     summary: Convert a ticket to an appointment
+   *     description: |
+   *       Books an appointment starting now with the staff member who called the ticket.
+   *       Tickets without a customer account are matched by phone number; when nobody
+   *       matches, pass the customerId to book for.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: ticketId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               customerId:
+   *                 type: string
+   *               staffId:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: The converted ticket and the appointment
+   *       400:
+   *         description: No customer account to book for
+   *       409:
+   *         description: Ticket was already converted or cancelled, or the staff member is busy
+   */
+  router.get(
+    '/tickets/:ticketId',
+    asyncHandler(withAuth((req, res) => walkInQueueController.getTicket(req, res)))
+  );
+  router.delete(
+    '/tickets/:ticketId',
+    asyncHandler(withAuth((req, res) => walkInQueueController.cancelTicket(req, res)))
+  );
+  router.post(
+    '/tickets/:ticketId/skip',
+    asyncHandler(withAuth((req, res) => walkInQueueController.skipTicket(req, res)))
+  );
+  router.post(
+    '/tickets/:ticketId/convert',
+    asyncHandler(withAuth((req, res) => walkInQueueController.convertToAppointment(req, res)))
+  );
+
+  return router;
+}
@@ -435,7 +435,14 @@ export const updateBusinessCancellationPolicySchema = z.object({
     .max(365, 'Ban duration cannot exceed 1 year')
     .optional()
     .default(30)
-    .describe('Duration of automatic ban in days when auto-ban is enabled')
+    .describe('Duration of automatic ban in days when auto-ban is enabled'),
+
+  lateCancellationDepositRefundPercent: z.number()
+    .int('Deposit refund percent must be an integer')
+    .min(0, 'Deposit refund percent cannot be negative')
+    .max(100, 'Deposit refund percent cannot exceed 100')
+    .optional()
+    .describe('Share of a paid deposit refunded when the customer cancels later than minCancellationHours; the rest is forfeited')
 }).refine((data) => {
   if (data.autoBanEnabled && (!data.banDurationDays || data.banDurationDays < 1)) {
     return false;
@@ -453,6 +460,98 @@ export const updateBusinessCancellationPolicySchema = z.object({
 
 export type UpdateBusinessCancellationPolicySchema = z.infer<typeof updateBusinessCancellationPolicySchema>;
 
+// Business Reschedule Policy schemas
+export const updateBusinessReschedulePolicySchema = z.object({
+  allowCustomerReschedule: z.boolean()
+    .optional()
+    .describe('Allow customers to move their own appointments'),
+
+  minRescheduleHours: z.number()
+    .min(0, 'Minimum reschedule notice cannot be negative')
+    .max(168, 'Minimum reschedule notice cannot exceed 7 days (168 hours)')
+    .optional()
+    .describe('Minimum hours before the appointment that the customer may still move it'),
+
+  maxReschedulesPerAppointment: z.number()
+    .int('Maximum reschedules must be an integer')
+    .min(0, 'Maximum reschedules cannot be negative')
+    .max(10, 'Maximum reschedules cannot exceed 10')
+    .optional()
+    .describe('Customer reschedules allowed per appointment')
+});
+
+export type UpdateBusinessReschedulePolicySchema = z.infer<typeof updateBusinessReschedulePolicySchema>;
+
+// Business Check-in Policy schemas
+export const updateBusinessCheckInPolicySchema = z.object({
+  trackNoShows: z.boolean()
+    .optional()
+    .describe('Mark appointments nobody checked in for as no-shows once the grace period passes'),
+
+  noShowGraceMinutes: z.number()
+    .int('Grace period must be an integer')
+    .min(0, 'Grace period cannot be negative')
+    .max(240, 'Grace period cannot exceed 4 hours (240 minutes)')
+    .optional()
+    .describe('Minutes after the start time a customer may still check in'),
+
+  allowQrCheckIn: z.boolean()
+    .optional()
+    .describe('Let customers check themselves in by scanning the venue QR code'),
+
+  checkInOpensMinutesBefore: z.number()
+    .int('Check-in opening must be an integer')
+    .min(0, 'Check-in opening cannot be negative')
+    .max(240, 'Check-in cannot open more than 4 hours (240 minutes) early')
+    .optional()
+    .describe('Minutes before the start time the QR check-in opens')
+});
+
+export type UpdateBusinessCheckInPolicySchema = z.infer<typeof updateBusinessCheckInPolicySchema>;
+
+// Business Approval Policy schemas
+const approvalTimeSchema = z.string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format');
+
+export const updateBusinessApprovalPolicySchema = z.object({
+  firstTimeCustomers: z.boolean()
+    .optional()
+    .describe('Ask approval for customers without an earlier booking at the business'),
+
+  highRiskCustomers: z.boolean()
+    .optional()
+    .describe('Ask approval for customers whose reliability risk level is HIGH'),
+
+  priceAbove: z.number()
+    .min(0, 'Price threshold cannot be negative')
+    .nullable()
+    .optional()
+    .describe('Ask approval for bookings priced above this amount; null turns the rule off'),
+
+  normalHours: z.object({
+    start: approvalTimeSchema,
+    end: approvalTimeSchema
+  })
+    .refine(hours => hours.start < hours.end, 'Normal hours must end after they start')
+    .nullable()
+    .optional()
+    .describe('Ask approval for bookings outside these hours; null turns the rule off'),
+
+  timeoutHours: z.number()
+    .int('Approval timeout must be an integer')
+    .min(1, 'Approval timeout must be at least 1 hour')
+    .max(168, 'Approval timeout cannot exceed 7 days (168 hours)')
+    .nullable()
+    .optional()
+    .describe('Hours a request may wait for a decision; null lets it wait until handled'),
+
+  timeoutAction: z.enum(['ESCALATE', 'REJECT'])
+    .optional()
+    .describe('Escalate overdue requests to the owner or reject them')
+});
+
+export type UpdateBusinessApprovalPolicySchema = z.infer<typeof updateBusinessApprovalPolicySchema>;
+
 // Business Customer Management Settings schemas
 export const updateBusinessCustomerManagementSchema = z.object({
   activeCustomerDefinition: z.object({
@@ -582,6 +681,82 @@ export const updateBusinessCustomerManagementSchema = z.object({
 
 export type UpdateBusinessCustomerManagementSchema = z.infer<typeof updateBusinessCustomerManagementSchema>;
 
+// Service deposit schemas
+const depositTypeSchema = z.enum(['NONE', 'FIXED', 'PERCENTAGE']);
+
+const depositValueSchema = z.number()
+  .min(0, 'Deposit must be non-negative')
+  .max(10000, 'Deposit must be less than 10,000');
+
+/** FIXED needs a positive amount not above the price, PERCENTAGE a value in 1-100 */
+export function isValidDeposit(
+  depositType: 'NONE' | 'FIXED' | 'PERCENTAGE' | undefined,
+  depositValue: number | null | undefined,
+  price: number
+): boolean {
+  if (!depositType || depositType === 'NONE') return true;
+  if (!depositValue || depositValue <= 0) return false;
+  return depositType === 'PERCENTAGE' ? depositValue <= 100 : depositValue <= price;
+}
+
+/** Weekly release of future slots, e.g. next week opens every Monday at 09:00 */
+const bookingReleaseSchema = z.object({
+  dayOfWeek: z.number()
+    .int('Release day must be an integer')
+    .min(0, 'Release day must be between 0 (Sunday) and 6 (Saturday)')
+    .max(6, 'Release day must be between 0 (Sunday) and 6 (Saturday)'),
+  time: z.string()
+    .regex(timeFormatRegex, 'Release time must be in HH:MM format (24-hour)'),
+  weeksAhead: z.number()
+    .int('Weeks ahead must be an integer')
+    .min(0, 'Weeks ahead must be non-negative')
+    .max(52, 'Weeks ahead must be at most 52')
+});
+
+const priceAdjustmentSchema = z.object({
+  type: z.enum(['PERCENTAGE', 'FIXED']),
+  // Negative values are discounts
+  value: z.number()
+    .min(-10000, 'Adjustment must be at least -10,000')
+    .max(10000, 'Adjustment must be at most 10,000')
+}).refine((adjustment) => adjustment.type !== 'PERCENTAGE' || (adjustment.value >= -100 && adjustment.value <= 500), {
+  message: 'Percentage adjustments must be between -100 and 500',
+  path: ['value']
+});
+
+const pricingRuleLabelSchema = z.string().max(50, 'Label must be at most 50 characters').optional();
+
+/** Dynamic pricing: peak / off-peak hours, last-minute and first-visit prices */
+const servicePricingSchema = z.object({
+  rules: z.array(z.union([
+    z.object({
+      type: z.literal('SCHEDULE'),
+      label: pricingRuleLabelSchema,
+      daysOfWeek: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+      startTime: z.string().regex(timeFormatRegex, 'Start time must be in HH:MM format (24-hour)').optional(),
+      endTime: z.string().regex(timeFormatRegex, 'End time must be in HH:MM format (24-hour)').optional(),
+      adjustment: priceAdjustmentSchema
+    }).refine((rule) => !rule.startTime || !rule.endTime || rule.startTime < rule.endTime, {
+      message: 'Start time must be before end time',
+      path: ['endTime']
+    }),
+    z.object({
+      type: z.literal('LAST_MINUTE'),
+      label: pricingRuleLabelSchema,
+      withinHours: z.number()
+        .int('Hours must be an integer')
+        .min(1, 'Last-minute window must be at least 1 hour')
+        .max(168, 'Last-minute window must be at most a week'),
+      adjustment: priceAdjustmentSchema
+    }),
+    z.object({
+      type: z.literal('FIRST_VISIT'),
+      label: pricingRuleLabelSchema,
+      adjustment: priceAdjustmentSchema
+    })
+  ])).max(20, 'A service can have at most 20 pricing rules')
+});
+
 // Service validation schemas
 export const createServiceSchema = z.object({
   name: z.string()
@@ -615,19 +790,44 @@ export const createServiceSchema = z.object({
     .max(120, 'Buffer time must be less than 2 hours')
     .optional(),
   
+  // null falls back to the business's reservation settings
   maxAdvanceBooking: z.number()
     .int('Max advance booking must be an integer')
     .min(1, 'Max advance booking must be at least 1 day')
     .max(365, 'Max advance booking must be less than 1 year')
+    .nullable()
     .optional(),
   
   minAdvanceBooking: z.number()
     .int('Min advance booking must be an integer')
     .min(0, 'Min advance booking must be non-negative')
     .max(72, 'Min advance booking must be less than 3 days')
+    .nullable()
     .optional(),
 
+  bookingRelease: bookingReleaseSchema.nullable().optional(),
+
+  pricing: servicePricingSchema.nullable().optional(),
+
+  isGroupSession: z.boolean().optional(),
+
+  maxSeats: z.number()
+    .int('Max seats must be an integer')
+    .min(1, 'Max seats must be at least 1')
+    .max(200, 'Max seats must be at most 200')
+    .optional(),
+
+  depositType: depositTypeSchema.optional(),
+
+  depositValue: depositValueSchema.optional(),
+
   assignToAll: z.boolean().optional().default(false)
+}).refine((data) => !data.isGroupSession || (data.maxSeats ?? 0) >= 2, {
+  message: 'Group sessions need at least 2 seats',
+  path: ['maxSeats']
+}).refine((data) => isValidDeposit(data.depositType, data.depositValue, data.price), {
+  message: 'Deposit must be a positive amount up to the price, or a percentage between 1 and 100',
+  path: ['depositValue']
 });
 
 export const updateServiceSchema = z.object({
@@ -670,21 +870,188 @@ export const updateServiceSchema = z.object({
     .max(120, 'Buffer time must be less than 2 hours')
     .optional(),
   
+  // null falls back to the business's reservation settings
   maxAdvanceBooking: z.number()
     .int('Max advance booking must be an integer')
     .min(1, 'Max advance booking must be at least 1 day')
     .max(365, 'Max advance booking must be less than 1 year')
+    .nullable()
     .optional(),
   
   minAdvanceBooking: z.number()
     .int('Min advance booking must be an integer')
     .min(0, 'Min advance booking must be non-negative')
     .max(72, 'Min advance booking must be less than 3 days')
+    .nullable()
+    .optional(),
+
+  bookingRelease: bookingReleaseSchema.nullable().optional(),
+
+  pricing: servicePricingSchema.nullable().optional(),
+
+  isGroupSession: z.boolean().optional(),
+
+  maxSeats: z.number()
+    .int('Max seats must be an integer')
+    .min(1, 'Max seats must be at least 1')
+    .max(200, 'Max seats must be at most 200')
     .optional(),
 
+  depositType: depositTypeSchema.optional(),
+
+  depositValue: depositValueSchema.nullable().optional(),
+
   assignToAll: z.boolean().optional()
 });
 
+// Per-staff overrides of a service; null goes back to the service's own value
+export const serviceStaffOverrideSchema = z.object({
+  duration: z.number()
+    .int('Duration must be an integer')
+    .min(15, 'Duration must be at least 15 minutes')
+    .max(480, 'Duration must be less than 8 hours')
+    .nullable()
+    .optional(),
+
+  bufferTime: z.number()
+    .int('Buffer time must be an integer')
+    .min(0, 'Buffer time must be non-negative')
+    .max(120, 'Buffer time must be less than 2 hours')
+    .nullable()
+    .optional(),
+
+  price: z.number()
+    .min(0, 'Price must be non-negative')
+    .max(10000, 'Price must be less than 10,000')
+    .nullable()
+    .optional()
+});
+
+// Resource (room / chair / equipment) schemas
+const resourceTypeSchema = z.enum(['ROOM', 'CHAIR', 'EQUIPMENT', 'OTHER']);
+
+export const createResourceSchema = z.object({
+  name: z.string()
+    .min(1, 'Resource name is required')
+    .max(100, 'Resource name must be less than 100 characters'),
+
+  type: resourceTypeSchema.optional(),
+
+  capacity: z.number()
+    .int('Capacity must be an integer')
+    .min(1, 'Capacity must be at least 1')
+    .max(100, 'Capacity must be at most 100')
+    .optional(),
+
+  description: z.string()
+    .max(500, 'Description must be less than 500 characters')
+    .optional()
+});
+
+export const updateResourceSchema = createResourceSchema.partial().extend({
+  isActive: z.boolean().optional()
+});
+
+export const setServiceResourcesSchema = z.object({
+  resources: z.array(z.object({
+    resourceId: z.string().min(1, 'Resource ID is required'),
+    quantity: z.number()
+      .int('Quantity must be an integer')
+      .min(1, 'Quantity must be at least 1')
+      .optional()
+  }))
+    .max(10, 'A service can need at most 10 resources')
+    .refine(
+      (items) => new Set(items.map((item) => item.resourceId)).size === items.length,
+      'Each resource can only be listed once'
+    )
+});
+
+// Intake form validation schemas
+const intakeAnswersSchema = z.record(
+  z.string().min(1).max(50),
+  z.union([z.string().max(2000, 'Answers must be less than 2000 characters'), z.boolean()])
+);
+
+export const publishIntakeFormSchema = z.object({
+  title: z.string()
+    .min(1, 'Form title is required')
+    .max(100, 'Form title must be less than 100 characters'),
+
+  description: z.string()
+    .max(1000, 'Description must be less than 1000 characters')
+    .optional(),
+
+  fields: z.array(z.object({
+    id: z.string()
+      .regex(/^[a-zA-Z0-9-_]+$/, 'Invalid field ID format')
+      .max(50, 'Invalid field ID format')
+      .optional(),
+    label: z.string()
+      .min(1, 'Question is required')
+      .max(300, 'Question must be less than 300 characters'),
+    type: z.enum(['TEXT', 'CHOICE', 'YES_NO', 'CONSENT']),
+    required: z.boolean().default(false),
+    options: z.array(z.string().min(1).max(100)).max(20).optional(),
+    askEveryVisit: z.boolean().optional()
+  }).refine(
+    (field) => field.type !== 'CHOICE' || (field.options?.length ?? 0) >= 2,
+    'Choice questions need at least two options'
+  ))
+    .min(1, 'A form needs at least one question')
+    .max(50, 'A form can have at most 50 questions')
+});
+
+export const submitIntakeAnswersSchema = z.object({
+  answers: intakeAnswersSchema
+});
+
+// Session package validation schemas
+export const createSessionPackageSchema = z.object({
+  name: z.string()
+    .min(1, 'Package name is required')
+    .max(100, 'Package name must be less than 100 characters'),
+
+  description: z.string()
+    .max(500, 'Description must be less than 500 characters')
+    .optional(),
+
+  serviceIds: z.array(z.string().min(1))
+    .min(1, 'A package must cover at least one service')
+    .max(20, 'A package can cover at most 20 services'),
+
+  credits: z.number()
+    .int('Sessions must be a whole number')
+    .min(1, 'A package needs at least 1 session')
+    .max(200, 'A package can have at most 200 sessions'),
+
+  validityDays: z.number()
+    .int('Validity must be a whole number of days')
+    .min(1, 'Validity must be at least 1 day')
+    .max(1825, 'Validity cannot exceed 5 years')
+    .optional(),
+
+  price: z.number()
+    .min(0, 'Price cannot be negative')
+    .max(100000, 'Price cannot exceed 100,000'),
+
+  currency: z.string()
+    .length(3, 'Currency must be 3 characters')
+    .optional()
+});
+
+export const updateSessionPackageSchema = createSessionPackageSchema.partial().extend({
+  isActive: z.boolean().optional()
+});
+
+export const sellSessionPackageSchema = z.object({
+  customerId: z.string().min(1, 'Customer is required'),
+  pricePaid: z.number()
+    .min(0, 'Price cannot be negative')
+    .max(100000, 'Price cannot exceed 100,000')
+    .optional()
+});
+
 // Appointment validation schemas
 export const createAppointmentSchema = z.object({
   businessId: z.string()
@@ -714,7 +1081,32 @@ export const createAppointmentSchema = z.object({
 
   customerNotes: z.string()
     .max(500, 'Customer notes must be less than 500 characters')
-    .optional()
+    .optional(),
+
+  holdId: z.string()
+    .min(1, 'Hold ID is required')
+    .max(50, 'Invalid hold ID')
+    .optional(),
+
+  intakeAnswers: intakeAnswersSchema.optional()
+});
+
+export const createSlotHoldSchema = z.object({
+  businessId: z.string()
+    .min(1, 'Business ID is required'),
+
+  serviceId: z.string()
+    .min(1, 'Service ID is required'),
+
+  staffId: z.string()
+    .min(1, 'Staff ID is required')
+    .optional(),
+
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+
+  startTime: z.string()
+    .regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Start time must be in HH:MM format')
 });
 
 export const updateAppointmentSchema = z.object({
@@ -741,6 +1133,380 @@ export const updateAppointmentSchema = z.object({
     .optional()
 });
 
+// Multi-service bundle schemas
+export const MAX_BUNDLE_ITEMS = 6;
+
+export const createAppointmentBundleSchema = z.object({
+  businessId: z.string()
+    .min(1, 'Business ID is required'),
+
+  customerId: z.string()
+    .min(1, 'Customer ID is required')
+    .optional(),
+
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+
+  startTime: z.string()
+    .regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Start time must be in HH:MM format'),
+
+  customerNotes: z.string()
+    .max(500, 'Customer notes must be less than 500 characters')
+    .optional(),
+
+  items: z.array(z.object({
+    serviceId: z.string().min(1, 'Service ID is required'),
+    staffId: z.preprocess(
+      (value) => {
+        if (value === null || value === undefined) return undefined;
+        if (typeof value === 'string' && value.trim() === '') return undefined;
+        return value;
+      },
+      z.string().min(1, 'Staff ID is required').optional()
+    ),
+  }))
+    .min(2, 'A bundle must contain at least two services')
+    .max(MAX_BUNDLE_ITEMS, `A bundle can contain at most ${MAX_BUNDLE_ITEMS} services`)
+});
+
+export const rescheduleAppointmentBundleSchema = z.object({
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+
+  startTime: z.string()
+    .regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Start time must be in HH:MM format')
+});
+
+const appointmentSeriesScopeSchema = z.enum(['THIS', 'THIS_AND_FOLLOWING', 'ALL']);
+
+export const createAppointmentSeriesSchema = z.object({
+  businessId: z.string()
+    .min(1, 'Business ID is required'),
+
+  serviceId: z.string()
+    .min(1, 'Service ID is required'),
+
+  staffId: z.string()
+    .min(1, 'Staff ID is required')
+    .optional(),
+
+  customerId: z.string()
+    .min(1, 'Customer ID is required')
+    .optional(),
+
+  rrule: z.string()
+    .min(1, 'Recurrence rule is required')
+    .max(200, 'Recurrence rule is too long'),
+
+  startDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format'),
+
+  startTime: z.string()
+    .regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Start time must be in HH:MM format'),
+
+  customerNotes: z.string()
+    .max(500, 'Customer notes must be less than 500 characters')
+    .optional()
+});
+
+export const updateAppointmentSeriesSchema = z.object({
+  scope: appointmentSeriesScopeSchema,
+
+  appointmentId: z.string()
+    .min(1, 'Appointment ID is required')
+    .optional(),
+
+  startTime: z.string()
+    .regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Start time must be in HH:MM format')
+    .optional(),
+
+  staffId: z.string()
+    .min(1, 'Staff ID is required')
+    .optional(),
+
+  customerNotes: z.string()
+    .max(500, 'Customer notes must be less than 500 characters')
+    .optional()
+}).refine(
+  (data) => data.scope === 'ALL' || !!data.appointmentId,
+  { message: 'appointmentId is required for THIS and THIS_AND_FOLLOWING', path: ['appointmentId'] }
+).refine(
+  (data) => data.startTime !== undefined || data.staffId !== undefined || data.customerNotes !== undefined,
+  { message: 'At least one of startTime, staffId or customerNotes must be provided' }
+);
+
+export const cancelAppointmentSeriesSchema = z.object({
+  scope: appointmentSeriesScopeSchema,
+
+  appointmentId: z.string()
+    .min(1, 'Appointment ID is required')
+    .optional(),
+
+  reason: z.string()
+    .max(500, 'Reason must be less than 500 characters')
+    .optional()
+}).refine(
+  (data) => data.scope === 'ALL' || !!data.appointmentId,
+  { message: 'appointmentId is required for THIS and THIS_AND_FOLLOWING', path: ['appointmentId'] }
+);
+
+// Waitlist schemas
+const waitlistTimeSchema = z.string()
+  .regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Time must be in HH:MM format');
+
+export const joinWaitlistSchema = z.object({
+  businessId: z.string()
+    .min(1, 'Business ID is required'),
+
+  serviceId: z.string()
+    .min(1, 'Service ID is required'),
+
+  staffId: z.string()
+    .min(1, 'Staff ID is required')
+    .optional(),
+
+  dateFrom: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+
+  dateTo: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+
+  earliestTime: waitlistTimeSchema.optional(),
+
+  latestTime: waitlistTimeSchema.optional(),
+
+  notes: z.string()
+    .max(500, 'Notes must be less than 500 characters')
+    .optional()
+}).refine(
+  (data) => data.dateFrom <= data.dateTo,
+  { message: 'dateTo must not be before dateFrom', path: ['dateTo'] }
+);
+
+export const waitlistDayQuerySchema = z.object({
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+
+  staffId: z.string()
+    .min(1, 'Staff ID is required')
+    .optional()
+});
+
+// Walk-in queue schemas
+export const createWalkInTicketSchema = z.object({
+  serviceId: z.string()
+    .min(1, 'Service ID is required'),
+
+  staffId: z.string()
+    .min(1, 'Staff ID is required')
+    .optional(),
+
+  customerId: z.string()
+    .min(1, 'Customer ID is required')
+    .optional(),
+
+  customerName: z.string()
+    .trim()
+    .min(1, 'Customer name is required')
+    .max(100, 'Customer name must be less than 100 characters')
+    .optional(),
+
+  customerPhone: z.string()
+    .regex(/^\+?[1-9]\d{1,14}$/, 'Invalid phone number format')
+    .optional(),
+
+  notes: z.string()
+    .max(500, 'Notes must be less than 500 characters')
+    .optional()
+});
+
+export const callNextWalkInSchema = z.object({
+  staffId: z.string()
+    .min(1, 'Staff ID is required')
+    .optional()
+});
+
+export const convertWalkInTicketSchema = z.object({
+  customerId: z.string()
+    .min(1, 'Customer ID is required')
+    .optional(),
+
+  staffId: z.string()
+    .min(1, 'Staff ID is required')
+    .optional()
+});
+
+// Appointment check-in schemas
+export const qrCheckInSchema = z.object({
+  businessId: z.string()
+    .min(1, 'Business ID is required'),
+
+  token: z.string()
+    .min(1, 'Check-in code is required')
+    .max(200, 'Invalid check-in code'),
+
+  appointmentId: z.string()
+    .min(1, 'Appointment ID is required')
+    .optional()
+});
+
+// Customer reschedule schemas
+export const customerRescheduleSchema = z.object({
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+
+  startTime: z.string()
+    .regex(timeFormatRegex, 'Start time must be in HH:MM format (24-hour)'),
+
+  staffId: z.string()
+    .min(1, 'Staff ID is required')
+    .optional(),
+
+  reason: z.string()
+    .max(500, 'Reason must be less than 500 characters')
+    .optional()
+});
+
+// Appointment deposit schemas
+export const payDepositSchema = z.object({
+  card: z.object({
+    cardHolderName: z.string()
+      .min(2, 'Card holder name must be at least 2 characters')
+      .max(100, 'Card holder name must be less than 100 characters'),
+    cardNumber: z.string()
+      .regex(/^\d{13,19}$/, 'Card number must be 13-19 digits'),
+    expireMonth: z.string()
+      .regex(/^(0[1-9]|1[0-2])$/, 'Expiry month must be 01-12'),
+    expireYear: z.string()
+      .regex(/^\d{4}$/, 'Expiry year must be 4 digits'),
+    cvc: z.string()
+      .regex(/^\d{3,4}$/, 'CVC must be 3-4 digits')
+  }),
+
+  email: z.string()
+    .email('Invalid email format')
+    .optional()
+});
+
+// Group class schemas
+export const createClassSessionSchema = z.object({
+  serviceId: z.string()
+    .min(1, 'Service ID is required'),
+
+  staffId: z.string()
+    .min(1, 'Staff ID is required'),
+
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+
+  startTime: z.string()
+    .regex(timeFormatRegex, 'Start time must be in HH:MM format (24-hour)'),
+
+  maxSeats: z.number()
+    .int('Max seats must be a whole number')
+    .min(2, 'A class needs at least 2 seats')
+    .max(200, 'A class cannot have more than 200 seats')
+    .optional(),
+
+  notes: z.string()
+    .max(500, 'Notes must be less than 500 characters')
+    .optional()
+});
+
+export const updateClassSessionSchema = z.object({
+  maxSeats: z.number()
+    .int('Max seats must be a whole number')
+    .min(2, 'A class needs at least 2 seats')
+    .max(200, 'A class cannot have more than 200 seats')
+    .optional(),
+
+  notes: z.string()
+    .max(500, 'Notes must be less than 500 characters')
+    .optional()
+});
+
+export const cancelClassSessionSchema = z.object({
+  reason: z.string()
+    .max(500, 'Reason must be less than 500 characters')
+    .optional()
+});
+
+export const bookClassSeatSchema = z.object({
+  customerId: z.string()
+    .min(1, 'Customer ID is required')
+    .optional(),
+
+  customerNotes: z.string()
+    .max(500, 'Notes must be less than 500 characters')
+    .optional()
+});
+
+export const classSessionQuerySchema = z.object({
+  from: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+
+  to: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+
+  serviceId: z.string().min(1).optional(),
+
+  staffId: z.string().min(1).optional(),
+
+  includeCanceled: z.enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional()
+}).refine(
+  (data) => data.from <= data.to,
+  { message: 'to must not be before from', path: ['to'] }
+);
+
+// "First available" search; lists arrive comma-separated in the query string
+const timeOfDayWindowRegex = /^(([01][0-9]|2[0-3]):[0-5][0-9])-(([01][0-9]|2[0-3]):[0-5][0-9]|24:00)$/;
+
+export const firstAvailableSearchQuerySchema = z.object({
+  serviceId: z.string()
+    .min(1, 'Service ID is required')
+    .max(50)
+    .regex(/^[a-zA-Z0-9-_]+$/, 'Invalid service ID format'),
+
+  staffIds: z.string()
+    .transform(value => value.split(',').map(id => id.trim()).filter(Boolean))
+    .refine(ids => ids.every(id => /^[a-zA-Z0-9-_]+$/.test(id) && id.length <= 50), 'Invalid staff ID format')
+    .optional(),
+
+  from: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .optional(),
+
+  to: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .optional(),
+
+  windows: z.string()
+    .transform(value => value.split(',').map(window => window.trim()).filter(Boolean))
+    .refine(
+      windows => windows.every(window => {
+        const match = timeOfDayWindowRegex.exec(window);
+        return match !== null && match[1] < match[3];
+      }),
+      'Windows must be HH:MM-HH:MM ranges, e.g. 09:00-12:00,17:00-20:00'
+    )
+    .transform(windows => windows.map(window => {
+      const [from, to] = window.split('-');
+      return { from, to };
+    }))
+    .optional(),
+
+  limit: z.coerce.number()
+    .int()
+    .min(1)
+    .max(20)
+    .optional()
+}).refine(
+  (data) => !data.from || !data.to || data.from <= data.to,
+  { message: 'to must not be before from', path: ['to'] }
+);
+
 // Staff management schemas
 export const addStaffSchema = z.object({
   userId: z.string()
@@ -1114,8 +1880,37 @@ export type UpdateBusinessPriceSettingsSchema = z.infer<typeof updateBusinessPri
 export type UpdateBusinessStaffPrivacySettingsSchema = z.infer<typeof updateBusinessStaffPrivacySettingsSchema>;
 export type CreateServiceSchema = z.infer<typeof createServiceSchema>;
 export type UpdateServiceSchema = z.infer<typeof updateServiceSchema>;
+export type ServiceStaffOverrideSchema = z.infer<typeof serviceStaffOverrideSchema>;
+export type CreateResourceSchema = z.infer<typeof createResourceSchema>;
+export type UpdateResourceSchema = z.infer<typeof updateResourceSchema>;
+export type SetServiceResourcesSchema = z.infer<typeof setServiceResourcesSchema>;
+export type PublishIntakeFormSchema = z.infer<typeof publishIntakeFormSchema>;
+export type SubmitIntakeAnswersSchema = z.infer<typeof submitIntakeAnswersSchema>;
+export type CreateSessionPackageSchema = z.infer<typeof createSessionPackageSchema>;
+export type UpdateSessionPackageSchema = z.infer<typeof updateSessionPackageSchema>;
+export type SellSessionPackageSchema = z.infer<typeof sellSessionPackageSchema>;
 export type CreateAppointmentSchema = z.infer<typeof createAppointmentSchema>;
 export type UpdateAppointmentSchema = z.infer<typeof updateAppointmentSchema>;
+export type CreateAppointmentBundleSchema = z.infer<typeof createAppointmentBundleSchema>;
+export type RescheduleAppointmentBundleSchema = z.infer<typeof rescheduleAppointmentBundleSchema>;
+export type CreateAppointmentSeriesSchema = z.infer<typeof createAppointmentSeriesSchema>;
+export type UpdateAppointmentSeriesSchema = z.infer<typeof updateAppointmentSeriesSchema>;
+export type CancelAppointmentSeriesSchema = z.infer<typeof cancelAppointmentSeriesSchema>;
+export type CreateSlotHoldSchema = z.infer<typeof createSlotHoldSchema>;
+export type JoinWaitlistSchema = z.infer<typeof joinWaitlistSchema>;
+export type WaitlistDayQuerySchema = z.infer<typeof waitlistDayQuerySchema>;
+export type CreateWalkInTicketSchema = z.infer<typeof createWalkInTicketSchema>;
+export type CallNextWalkInSchema = z.infer<typeof callNextWalkInSchema>;
+export type ConvertWalkInTicketSchema = z.infer<typeof convertWalkInTicketSchema>;
+export type QrCheckInSchema = z.infer<typeof qrCheckInSchema>;
+export type CustomerRescheduleSchema = z.infer<typeof customerRescheduleSchema>;
+export type PayDepositSchema = z.infer<typeof payDepositSchema>;
+export type CreateClassSessionSchema = z.infer<typeof createClassSessionSchema>;
+export type UpdateClassSessionSchema = z.infer<typeof updateClassSessionSchema>;
+export type CancelClassSessionSchema = z.infer<typeof cancelClassSessionSchema>;
+export type BookClassSeatSchema = z.infer<typeof bookClassSeatSchema>;
+export type ClassSessionQuerySchema = z.infer<typeof classSessionQuerySchema>;
+export type FirstAvailableSearchQuerySchema = z.infer<typeof firstAvailableSearchQuerySchema>;
 export type AddStaffSchema = z.infer<typeof addStaffSchema>;
 export type UpdateStaffSchema = z.infer<typeof updateStaffSchema>;
 export type CreateBusinessClosureSchema = z.infer<typeof createBusinessClosureSchema>;
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+export const createCalendarFeedSchema = z.object({
+  type: z.enum(['STAFF', 'BUSINESS', 'CUSTOMER']),
+  businessId: z.string().min(1, 'Business ID cannot be empty').optional(),
+  // Defaults to the caller's own staff record for STAFF feeds
+  staffId: z.string().min(1, 'Staff ID cannot be empty').optional(),
+  label: z.string()
+    .max(100, 'Label must be less than 100 characters')
+    .trim()
+    .optional()
+}).refine(
+  (data) => data.type === 'CUSTOMER' || !!data.businessId,
+  {
+    message: 'businessId is required for staff and business calendars',
+    path: ['businessId']
+  }
+).refine(
+  (data) => data.type === 'STAFF' || !data.staffId,
+  {
+    message: 'staffId is only allowed for staff calendars',
+    path: ['staffId']
+  }
+);
+
+export type CreateCalendarFeedSchema = z.infer<typeof createCalendarFeedSchema>;
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+// Gift card and voucher issuing schema
+export const issueGiftCardsSchema = z.object({
+  type: z.enum(['GIFT_CARD', 'VOUCHER'], {
+    errorMap: () => ({ message: 'Type must be GIFT_CARD or VOUCHER' })
+  }),
+
+  amount: z.number()
+    .positive('Amount must be positive')
+    .max(100000, 'Amount cannot exceed 100,000'),
+
+  count: z.number()
+    .int('Count must be an integer')
+    .min(1, 'Count must be at least 1')
+    .max(1000, 'Cannot issue more than 1000 cards at once')
+    .optional(),
+
+  prefix: z.string()
+    .min(2, 'Prefix must be at least 2 characters')
+    .max(8, 'Prefix must be at most 8 characters')
+    .regex(/^[A-Z0-9]+$/, 'Prefix must contain only uppercase letters and numbers')
+    .optional(),
+
+  pricePaid: z.number()
+    .min(0, 'Price cannot be negative')
+    .max(100000, 'Price cannot exceed 100,000')
+    .optional(),
+
+  customerId: z.string()
+    .min(1, 'Customer ID cannot be empty')
+    .optional(),
+
+  validUntil: z.string()
+    .datetime('Invalid date format for validUntil')
+    .transform((str) => new Date(str))
+    .optional(),
+
+  currency: z.string()
+    .length(3, 'Currency must be 3 characters')
+    .optional(),
+
+  note: z.string()
+    .max(500, 'Note must be at most 500 characters')
+    .optional()
+});
+
+// Paying for an appointment with a gift card or voucher
+export const redeemGiftCardSchema = z.object({
+  code: z.string()
+    .min(1, 'Code is required')
+    .max(20, 'Invalid code format'),
+
+  appointmentId: z.string()
+    .min(1, 'Appointment ID is required'),
+
+  amount: z.number()
+    .positive('Amount must be positive')
+    .optional()
+});
+
+// Query parameters schema for listing a business' cards
+export const listGiftCardsSchema = z.object({
+  type: z.enum(['GIFT_CARD', 'VOUCHER']).optional(),
+
+  customerId: z.string().optional(),
+
+  isActive: z.string()
+    .refine((str) => str === 'true' || str === 'false', 'isActive must be true or false')
+    .transform((str) => str === 'true')
+    .optional(),
+
+  page: z.string()
+    .regex(/^\d+$/, 'Page must be a positive integer')
+    .transform((str) => parseInt(str, 10))
+    .refine((num) => num >= 1, 'Page must be at least 1')
+    .optional(),
+
+  limit: z.string()
+    .regex(/^\d+$/, 'Limit must be a positive integer')
+    .transform((str) => parseInt(str, 10))
+    .refine((num) => num >= 1 && num <= 100, 'Limit must be between 1 and 100')
+    .optional()
+});
+
+export type IssueGiftCardsSchema = z.infer<typeof issueGiftCardsSchema>;
+export type RedeemGiftCardSchema = z.infer<typeof redeemGiftCardSchema>;
+export type ListGiftCardsQuery = z.infer<typeof listGiftCardsSchema>;
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { BusinessStaffRole } from '@prisma/client';
+import { BusinessStaffRole, StaffTimeOffStatus, StaffTimeOffType } from '@prisma/client';
 
 // Staff invitation validation schemas
 export const inviteStaffSchema = z.object({
@@ -126,6 +126,157 @@ export const transferStaffSchema = z.object({
   }
 );
 
+// Staff time-off schemas
+const timeOffDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+const timeOffTimeSchema = z.string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+
+export const createStaffTimeOffSchema = z.object({
+  staffId: z.string()
+    .min(1, 'Staff ID is required')
+    .optional(),
+
+  type: z.nativeEnum(StaffTimeOffType, {
+    errorMap: () => ({ message: 'Invalid time off type' }),
+  }).optional(),
+
+  startDate: timeOffDateSchema,
+
+  endDate: timeOffDateSchema.optional(),
+
+  startTime: timeOffTimeSchema.optional(),
+
+  endTime: timeOffTimeSchema.optional(),
+
+  reason: z.string()
+    .max(500, 'Reason must be less than 500 characters')
+    .trim()
+    .optional(),
+}).refine(
+  (data) => !data.endDate || data.endDate >= data.startDate,
+  {
+    message: 'End date cannot be before start date',
+    path: ['endDate'],
+  }
+);
+
+export const reviewStaffTimeOffSchema = z.object({
+  note: z.string()
+    .max(500, 'Note must be less than 500 characters')
+    .trim()
+    .optional(),
+});
+
+export const staffTimeOffQuerySchema = z.object({
+  staffId: z.string().min(1).optional(),
+  status: z.nativeEnum(StaffTimeOffStatus, {
+    errorMap: () => ({ message: 'Invalid time off status' }),
+  }).optional(),
+  startDate: timeOffDateSchema.optional(),
+  endDate: timeOffDateSchema.optional(),
+});
+
+export const resolveTimeOffAppointmentsSchema = z.object({
+  action: z.enum(['REASSIGN', 'CANCEL'], {
+    errorMap: () => ({ message: 'Action must be REASSIGN or CANCEL' }),
+  }),
+
+  appointmentIds: z.array(z.string().min(1))
+    .min(1, 'At least one appointment ID is required')
+    .max(100, 'Cannot update more than 100 appointments at once'),
+
+  targetStaffId: z.string()
+    .min(1, 'Target staff ID is required')
+    .optional(),
+
+  reason: z.string()
+    .max(500, 'Reason must be less than 500 characters')
+    .trim()
+    .optional(),
+}).refine(
+  (data) => data.action === 'REASSIGN' || !data.targetStaffId,
+  {
+    message: 'targetStaffId is only used when reassigning',
+    path: ['targetStaffId'],
+  }
+);
+
+const staffReassignmentScopeShape = {
+  timeOffId: z.string().min(1).optional(),
+  startDate: timeOffDateSchema.optional(),
+  endDate: timeOffDateSchema.optional(),
+};
+
+const validReassignmentScope = (data: { timeOffId?: string; startDate?: string; endDate?: string }) =>
+  !(data.timeOffId && (data.startDate || data.endDate)) && (!data.endDate || (!!data.startDate && data.endDate >= data.startDate));
+
+const reassignmentScopeError = {
+  message: 'Give either a time off or a start date (and an end date not before it)',
+  path: ['startDate'],
+};
+
+export const staffReassignmentScopeSchema = z.object(staffReassignmentScopeShape)
+  .refine(validReassignmentScope, reassignmentScopeError);
+
+export const applyStaffReassignmentSchema = z.object({
+  ...staffReassignmentScopeShape,
+
+  appointmentIds: z.array(z.string().min(1))
+    .min(1, 'At least one appointment ID is required')
+    .max(100, 'Cannot update more than 100 appointments at once')
+    .optional(),
+
+  reason: z.string()
+    .max(500, 'Reason must be less than 500 characters')
+    .trim()
+    .optional(),
+}).refine(validReassignmentScope, reassignmentScopeError);
+
+// Staff external calendar schemas
+const icsContentSchema = z.string()
+  .min(1, 'Calendar file is empty')
+  .max(2 * 1024 * 1024, 'Calendar file must be smaller than 2 MB');
+
+const calendarNameSchema = z.string()
+  .min(1, 'Calendar name is required')
+  .max(100, 'Calendar name must be less than 100 characters')
+  .trim();
+
+export const createStaffExternalCalendarSchema = z.object({
+  staffId: z.string()
+    .min(1, 'Staff ID is required')
+    .optional(),
+
+  name: calendarNameSchema,
+
+  icsContent: icsContentSchema.optional(),
+
+  sourceUrl: z.string()
+    .max(2000, 'Calendar URL must be less than 2000 characters')
+    .trim()
+    .optional(),
+}).refine(
+  (data) => (data.icsContent === undefined) !== (data.sourceUrl === undefined),
+  {
+    message: 'Provide either a calendar file or a calendar URL',
+    path: ['icsContent'],
+  }
+);
+
+export const updateStaffExternalCalendarSchema = z.object({
+  name: calendarNameSchema.optional(),
+
+  isActive: z.boolean().optional(),
+
+  icsContent: icsContentSchema.optional(),
+});
+
+export const staffExternalCalendarQuerySchema = z.object({
+  staffId: z.string().min(1).optional(),
+});
+
 // Query parameter schemas
 export const getBusinessStaffQuerySchema = z.object({
   includeInactive: z.string()
@@ -175,6 +326,14 @@ export type GetStaffByRoleQuery = z.infer<typeof getStaffByRoleQuerySchema>;
 export type BusinessIdParam = z.infer<typeof businessIdParamSchema>;
 export type StaffIdParam = z.infer<typeof staffIdParamSchema>;
 export type StaffRoleAndBusinessParam = z.infer<typeof staffRoleAndBusinessParamSchema>;
+export type CreateStaffTimeOffSchema = z.infer<typeof createStaffTimeOffSchema>;
+export type ReviewStaffTimeOffSchema = z.infer<typeof reviewStaffTimeOffSchema>;
+export type StaffTimeOffQuerySchema = z.infer<typeof staffTimeOffQuerySchema>;
+export type ResolveTimeOffAppointmentsSchema = z.infer<typeof resolveTimeOffAppointmentsSchema>;
+export type StaffReassignmentScopeSchema = z.infer<typeof staffReassignmentScopeSchema>;
+export type ApplyStaffReassignmentSchema = z.infer<typeof applyStaffReassignmentSchema>;
+export type CreateStaffExternalCalendarSchema = z.infer<typeof createStaffExternalCalendarSchema>;
+export type UpdateStaffExternalCalendarSchema = z.infer<typeof updateStaffExternalCalendarSchema>;
 
 // Custom validation functions
 export const validatePhoneNumber = (phoneNumber: string): boolean => {
@@ -66,6 +66,11 @@ export class TranslationService {
         'success.appointment.created': 'Randevu başarıyla oluşturuldu',
         'success.appointment.updated': 'Randevu başarıyla güncellendi',
         'success.appointment.cancelled': 'Randevu başarıyla iptal edildi',
+        'success.appointment.rescheduled': 'Randevu başarıyla yeni saate taşındı',
+        'success.appointment.rescheduleHistoryRetrieved': 'Randevu değişiklik geçmişi getirildi',
+        'success.appointment.timelineRetrieved': 'Randevu zaman çizelgesi getirildi',
+        'success.appointment.depositRetrieved': 'Kapora bilgisi getirildi',
+        'success.appointment.depositPaid': 'Kapora ödendi',
         'success.appointment.confirmed': 'Randevu başarıyla onaylandı',
         'success.appointment.batchUpdated': '{{count}} randevu başarıyla güncellendi',
         'success.appointment.batchCancelled': '{{count}} randevu başarıyla iptal edildi',
@@ -73,6 +78,10 @@ export class TranslationService {
         'success.appointment.retrievedList': 'Randevular başarıyla getirildi',
         'success.appointment.completed': 'Randevu başarıyla tamamlandı',
         'success.appointment.markedNoShow': 'Randevu gelmedi olarak işaretlendi',
+        'success.appointment.checkedIn': 'Müşteri girişi kaydedildi',
+        'success.appointment.started': 'Hizmet başlatıldı',
+        'success.appointment.noShowUndone': 'Gelmedi işareti geri alındı',
+        'success.appointment.checkInCodeRetrieved': 'Giriş QR kodu getirildi',
         'success.appointment.statusUpdated': 'Randevu durumu başarıyla güncellendi',
         'success.appointment.approved': 'Randevu onaylandı',
         'success.appointment.rejected': 'Randevu talebi reddedildi',
@@ -93,6 +102,30 @@ export class TranslationService {
         'success.appointment.todaysRetrieved': 'Bugünkü randevular başarıyla getirildi',
         'success.appointment.monitorRetrieved': 'Randevu monitörü başarıyla getirildi',
         'success.appointment.availableSlotsRetrieved': 'Müsait zaman dilimleri başarıyla getirildi',
+        'success.appointment.firstAvailableRetrieved': 'En erken müsait zamanlar başarıyla getirildi',
+        'success.appointment.bundleCreated': 'Paket randevu başarıyla oluşturuldu',
+        'success.appointment.bundleRetrieved': 'Paket randevu başarıyla getirildi',
+        'success.appointment.bundleCancelled': 'Paket randevu başarıyla iptal edildi',
+        'success.appointment.bundleRescheduled': 'Paket randevu başarıyla yeniden planlandı',
+        'success.appointment.seriesPreviewed': 'Randevu serisi önizlemesi hazırlandı',
+        'success.appointment.seriesCreated': 'Tekrarlayan randevu serisi oluşturuldu',
+        'success.appointment.seriesRetrieved': 'Randevu serisi başarıyla getirildi',
+        'success.appointment.seriesUpdated': 'Randevu serisi güncellendi',
+        'success.appointment.seriesCancelled': 'Randevu serisi iptal edildi',
+        'success.appointment.slotHeld': 'Saat sizin için ayrıldı',
+        'success.appointment.slotHoldRetrieved': 'Ayrılan saat getirildi',
+        'success.appointment.slotHoldReleased': 'Ayrılan saat serbest bırakıldı',
+        'success.waitlist.joined': 'Bekleme listesine eklendiniz',
+        'success.waitlist.left': 'Bekleme listesinden çıkarıldınız',
+        'success.waitlist.retrieved': 'Bekleme listesi getirildi',
+        'success.waitlist.offerAccepted': 'Teklif kabul edildi, randevunuz oluşturuldu',
+        'success.waitlist.offerDeclined': 'Teklif reddedildi',
+        'success.walkInQueue.ticketCreated': 'Sıraya eklendi',
+        'success.walkInQueue.retrieved': 'Sıra getirildi',
+        'success.walkInQueue.called': 'Sıradaki müşteri çağrıldı',
+        'success.walkInQueue.skipped': 'Müşteri atlandı',
+        'success.walkInQueue.cancelled': 'Sıra numarası iptal edildi',
+        'success.walkInQueue.converted': 'Sıra numarası randevuya dönüştürüldü',
         'success.contact.sent': 'Mesajınız başarıyla gönderildi. En kısa sürede size dönüş yapacağız.',
         'success.business.created': 'İş yeri başarıyla oluşturuldu',
         'success.business.updated': 'İş yeri başarıyla güncellendi',
@@ -127,6 +160,12 @@ export class TranslationService {
         'success.business.profilePrivacySettingsRetrieved': 'Profil gizlilik ayarları başarıyla getirildi',
         'success.business.cancellationPoliciesRetrieved': 'İptal politikaları başarıyla getirildi',
         'success.business.cancellationPoliciesUpdated': 'İptal politikaları başarıyla güncellendi',
+        'success.business.reschedulePolicyRetrieved': 'Randevu değişiklik kuralları getirildi',
+        'success.business.reschedulePolicyUpdated': 'Randevu değişiklik kuralları güncellendi',
+        'success.business.checkInPolicyRetrieved': 'Giriş ve gelmedi kuralları getirildi',
+        'success.business.checkInPolicyUpdated': 'Giriş ve gelmedi kuralları güncellendi',
+        'success.business.approvalPolicyRetrieved': 'Onay kuralları getirildi',
+        'success.business.approvalPolicyUpdated': 'Onay kuralları güncellendi',
         'success.business.notificationSettingsUpdated': 'Bildirim ayarları başarıyla güncellendi',
         'success.business.reservationSettingsUpdated': 'Rezervasyon ayarları başarıyla güncellendi',
         'success.business.profilePrivacySettingsUpdated': 'Profil gizlilik ayarları başarıyla güncellendi',
@@ -184,6 +223,8 @@ export class TranslationService {
         'success.rating.deleted': 'Değerlendirme başarıyla silindi',
         'success.report.financialRetrieved': 'Finansal rapor başarıyla getirildi',
         'success.report.operationalRetrieved': 'Operasyonel rapor başarıyla getirildi',
+        'success.report.waitlistRetrieved': 'Bekleme listesi raporu başarıyla getirildi',
+        'success.report.depositsRetrieved': 'Kapora raporu başarıyla getirildi',
         'success.report.qualityRetrieved': 'Kalite raporu başarıyla getirildi',
         'success.report.customerAnalyticsRetrieved': 'Müşteri analiz raporu başarıyla getirildi',
         'success.report.trendsRetrieved': 'Trend raporu başarıyla getirildi',
@@ -222,9 +263,39 @@ export class TranslationService {
         'success.service.activated': 'Hizmet başarıyla etkinleştirildi',
         'success.service.deactivated': 'Hizmet başarıyla devre dışı bırakıldı',
         'success.service.duplicated': 'Hizmet başarıyla çoğaltıldı',
+        'success.service.staffOverridesRetrieved': 'Hizmeti veren personel getirildi',
+        'success.service.staffOverrideUpdated': 'Personele özel hizmet ayarları güncellendi',
         'success.service.batchActivated': '{{count}} hizmet başarıyla etkinleştirildi',
         'success.service.batchDeactivated': '{{count}} hizmet başarıyla devre dışı bırakıldı',
         'success.service.batchDeleted': '{{count}} hizmet başarıyla silindi',
+        'success.resource.created': 'Kaynak başarıyla oluşturuldu',
+        'success.resource.updated': 'Kaynak başarıyla güncellendi',
+        'success.resource.deleted': 'Kaynak başarıyla silindi',
+        'success.resource.retrieved': 'Kaynaklar başarıyla getirildi',
+        'success.intakeForm.retrieved': 'Ön bilgi formu getirildi',
+        'success.intakeForm.versionsRetrieved': 'Ön bilgi formu sürümleri getirildi',
+        'success.intakeForm.published': 'Ön bilgi formu yayınlandı',
+        'success.intakeForm.disabled': 'Ön bilgi formu kapatıldı',
+        'success.intakeForm.answersRetrieved': 'Ön bilgi yanıtları getirildi',
+        'success.intakeForm.answersSaved': 'Ön bilgi yanıtları kaydedildi',
+        'success.import.validated': 'İçe aktarma dosyası kontrol edildi',
+        'success.import.completed': 'İçe aktarma tamamlandı',
+        'success.sessionPackage.retrieved': 'Paketler getirildi',
+        'success.sessionPackage.created': 'Paket oluşturuldu',
+        'success.sessionPackage.updated': 'Paket güncellendi',
+        'success.sessionPackage.sold': 'Paket müşteriye tanımlandı',
+        'success.sessionPackage.balanceRetrieved': 'Müşteri paketleri getirildi',
+        'success.giftCard.issued': 'Kartlar oluşturuldu',
+        'success.giftCard.retrieved': 'Kartlar getirildi',
+        'success.giftCard.redeemed': 'Kart randevu ödemesinde kullanıldı',
+        'success.giftCard.voided': 'Kart iptal edildi',
+        'success.resource.serviceResourcesRetrieved': 'Hizmetin kaynak gereksinimleri getirildi',
+        'success.resource.serviceResourcesUpdated': 'Hizmetin kaynak gereksinimleri güncellendi',
+        'success.classSession.created': 'Ders planlandı',
+        'success.classSession.updated': 'Ders güncellendi',
+        'success.classSession.cancelled': 'Ders iptal edildi ve katılımcılar bilgilendirildi',
+        'success.classSession.retrieved': 'Dersler getirildi',
+        'success.classSession.booked': 'Derse kaydınız alındı',
         'success.staff.created': 'Personel başarıyla oluşturuldu',
         'success.staff.updated': 'Personel başarıyla güncellendi',
         'success.staff.deleted': 'Personel başarıyla silindi',
@@ -240,6 +311,23 @@ export class TranslationService {
         'success.staff.bulkInvited': 'Toplu davetiye tamamlandı',
         'success.staff.rolesRetrieved': 'Müsait personel rolleri başarıyla getirildi',
         'success.staff.publicRetrieved': 'Halka açık iş yeri personeli başarıyla getirildi',
+        'success.staffTimeOff.retrieved': 'İzinler başarıyla getirildi',
+        'success.staffTimeOff.created': 'İzin kaydı oluşturuldu',
+        'success.staffTimeOff.approved': 'İzin onaylandı',
+        'success.staffTimeOff.rejected': 'İzin talebi reddedildi',
+        'success.staffTimeOff.cancelled': 'İzin iptal edildi',
+        'success.staffTimeOff.affectedAppointmentsRetrieved': 'İzinden etkilenen randevular getirildi',
+        'success.staffTimeOff.appointmentsResolved': 'Etkilenen randevular güncellendi',
+        'success.staffReassignment.previewRetrieved': 'Personel devir önizlemesi getirildi',
+        'success.staffReassignment.applied': 'Personel randevuları devredildi',
+        'success.calendarFeed.created': 'Takvim aboneliği oluşturuldu',
+        'success.calendarFeed.retrieved': 'Takvim abonelikleri getirildi',
+        'success.calendarFeed.revoked': 'Takvim aboneliği iptal edildi',
+        'success.staffCalendar.retrieved': 'Harici takvimler getirildi',
+        'success.staffCalendar.created': 'Harici takvim eklendi',
+        'success.staffCalendar.updated': 'Harici takvim güncellendi',
+        'success.staffCalendar.imported': 'Harici takvim yeniden içe aktarıldı',
+        'success.staffCalendar.deleted': 'Harici takvim silindi',
         'success.role.created': 'Rol başarıyla oluşturuldu',
         'success.role.retrieved': 'Rol başarıyla getirildi',
         'success.role.retrievedList': 'Roller başarıyla getirildi',
@@ -436,12 +524,22 @@ export class TranslationService {
         'errors.appointment.timeConflict': 'Seçtiğiniz saat dolu.',
         'errors.appointment.pastDate': 'Geçmiş tarih seçilemez',
         'errors.appointment.tooFarFuture': 'Çok ileri bir tarih seçildi',
+        'errors.appointment.notYetReleased': 'Bu tarih için randevular henüz açılmadı',
         'errors.appointment.outsideHours': 'İş yeri çalışma saatleri dışında',
         'errors.appointment.alreadyConfirmed': 'Randevu zaten onaylanmış',
         'errors.appointment.alreadyCompleted': 'Randevu zaten tamamlanmış',
         'errors.appointment.alreadyCancelled': 'Randevu zaten iptal edilmiş',
         'errors.appointment.cannotCancel': 'Randevu iptal edilemez',
         'errors.appointment.noShowNotAllowed': 'Gelmedi olarak işaretlenemez',
+        'errors.appointment.alreadyCheckedIn': 'Müşteri girişi zaten kaydedilmiş',
+        'errors.appointment.checkInNotAllowed': 'Yalnızca onaylı veya devam eden randevulara giriş yapılabilir',
+        'errors.appointment.checkInWindowClosed': 'Bu randevu için giriş şu anda yapılamaz',
+        'errors.appointment.alreadyStarted': 'Hizmet zaten başlatılmış',
+        'errors.appointment.checkInCodeInvalid': 'Geçersiz giriş kodu',
+        'errors.appointment.qrCheckInDisabled': 'Bu işletmede QR kod ile giriş kapalı',
+        'errors.appointment.notNoShow': 'Randevu gelmedi olarak işaretli değil',
+        'errors.appointment.noShowUndoOwnerOnly': 'Gelmedi işaretini yalnızca işletme sahibi geri alabilir',
+        'errors.appointment.noShowUndoSlotTaken': 'Bu saat gelmedi işaretinden sonra başka bir randevuya verildi; önce o randevuyu taşıyın',
         'errors.appointment.staffNotAvailable': 'Personel müsait değil',
         'errors.appointment.serviceUnavailable': 'Hizmet müsait değil',
         'errors.appointment.insufficientAdvance': 'Son rezervasyon süresi geçmiş.',
@@ -456,6 +554,24 @@ export class TranslationService {
         'errors.service.priceInvalid': 'Geçersiz fiyat',
         'errors.service.durationInvalid': 'Geçersiz süre',
         'errors.service.hasAppointments': 'Hizmetin randevuları var, silinemez',
+        'errors.resource.notFound': 'Kaynak bulunamadı',
+        'errors.resource.nameDuplicate': 'Bu isimde bir kaynak zaten var',
+        'errors.resource.quantityExceedsCapacity': 'İstenen adet kaynağın kapasitesini aşıyor',
+        'errors.intakeForm.notFound': 'Bu hizmetin ön bilgi formu yok',
+        'errors.intakeForm.answersInvalid': 'Ön bilgi formu yanıtları eksik veya geçersiz',
+        'errors.intakeForm.accessDenied': 'Bu randevunun ön bilgi yanıtlarını görme yetkiniz yok',
+        'errors.intakeForm.closed': 'Randevu başladığı için ön bilgi yanıtları artık değiştirilemez',
+        'errors.import.fileInvalid': 'İçe aktarma dosyası okunamadı. Dosyayı başlık satırıyla birlikte CSV olarak kaydedip tekrar deneyin',
+        'errors.import.tooManyRows': 'Bir dosyada en fazla {{max}} satır içe aktarılabilir',
+        'errors.sessionPackage.notFound': 'Paket bulunamadı',
+        'errors.sessionPackage.inactive': 'Bu paket artık satışta değil',
+        'errors.sessionPackage.invalidServices': 'Paketteki hizmetler bu işletmeye ait olmalıdır',
+        'errors.sessionPackage.noCredits': 'Paketinizde kullanılabilir seans kalmadı, lütfen tekrar deneyin',
+        'errors.giftCard.notFound': 'Hediye kartı bulunamadı',
+        'errors.giftCard.inactive': 'Bu kart iptal edilmiş',
+        'errors.giftCard.expired': 'Bu kartın süresi dolmuş',
+        'errors.giftCard.noBalance': 'Kartta kullanılabilir bakiye kalmadı',
+        'errors.giftCard.notApplicable': 'Bu kart bu randevu için kullanılamaz',
         
         // Customer Errors
         'errors.customer.notFound': 'Müşteri bulunamadı',
@@ -469,6 +585,16 @@ export class TranslationService {
         'errors.staff.alreadyExists': 'Personel zaten mevcut',
         'errors.staff.notAvailable': 'Personel müsait değil',
         'errors.staff.cannotDeleteSelf': 'Kendinizi silemezsiniz',
+        'errors.staff.onTimeOff': 'Personel seçilen saatte izinli',
+        'errors.staff.externallyBusy': 'Personel seçilen saatte başka bir takvimde meşgul',
+        'errors.staff.notQualified': 'Personel bu hizmeti vermiyor',
+        'errors.staffTimeOff.notFound': 'İzin kaydı bulunamadı',
+        'errors.staffTimeOff.invalidStatus': 'Bu izin kaydı {{status}} durumunda olduğu için işlem yapılamaz',
+        'errors.staffTimeOff.invalidRange': 'İzin bitişi başlangıcından sonra olmalıdır',
+        'errors.calendarFeed.notFound': 'Takvim aboneliği bulunamadı veya iptal edilmiş',
+        'errors.calendarFeed.scopeInvalid': 'Bu takvimdeki tüm randevuları görüntüleme yetkiniz yok',
+        'errors.staffCalendar.notFound': 'Harici takvim bulunamadı',
+        'errors.staffCalendar.invalid': 'Takvim okunamadı: {{reason}}',
         
         // Role & Permission Errors
         'errors.role.notFound': 'Rol bulunamadı',
@@ -554,6 +680,43 @@ export class TranslationService {
 
         // Appointment extras
         'errors.appointment.notPendingApproval': 'Randevu onay bekliyor durumunda değil',
+        'errors.appointment.bundleNotFound': 'Paket randevu bulunamadı',
+        'errors.appointment.bundleInvalid': 'Geçersiz paket randevu talebi',
+        'errors.appointment.searchRangeTooLong': 'Arama aralığı en fazla {{maxDays}} gün olabilir',
+        'errors.appointment.partOfBundle': 'Bu randevu bir paketin parçası; lütfen paketin tamamını yeniden planlayın',
+        'errors.appointment.seriesNotFound': 'Tekrarlayan randevu serisi bulunamadı',
+        'errors.appointment.seriesInvalidRule': 'Geçersiz tekrar kuralı',
+        'errors.appointment.seriesNotActive': 'Bu randevu serisi artık aktif değil',
+        'errors.appointment.seriesNoOccurrences': 'Serinin hiçbir tarihi uygun değil',
+        'errors.appointment.slotHeld': 'Bu saat bekleme listesindeki bir müşteri için geçici olarak ayrıldı',
+        'errors.appointment.slotHoldNotFound': 'Rezervasyon süreniz doldu, lütfen saati yeniden seçin',
+        'errors.appointment.slotHoldUnavailable': 'Saat şu anda ayrılamıyor, lütfen tekrar deneyin',
+        'errors.appointment.resourceUnavailable': 'Seçilen saatte gerekli oda veya ekipman dolu',
+        'errors.appointment.partOfClass': 'Bu randevu bir grup dersindeki koltuk; lütfen başka bir derse kayıt olun',
+        'errors.appointment.classBookingRequired': 'Bu hizmet grup dersi olarak sunuluyor; lütfen planlanmış bir derse kayıt olun',
+        'errors.appointment.rescheduleNotAllowed': 'Randevu değişikliği işletmenin değişiklik kurallarına uymuyor',
+        'errors.appointment.rescheduleSameTime': 'Randevu zaten bu saatte',
+        'errors.appointment.depositNotFound': 'Bu randevu için kapora bulunamadı',
+        'errors.appointment.depositNotPayable': 'Bu kapora artık ödenemez',
+        'errors.appointment.depositPaymentFailed': 'Kapora ödemesi başarısız oldu: {{reason}}',
+        'errors.classSession.notFound': 'Ders bulunamadı',
+        'errors.classSession.notActive': 'Bu ders iptal edildi veya başladı',
+        'errors.classSession.full': 'Bu derste boş yer kalmadı',
+        'errors.classSession.alreadyBooked': 'Bu derste zaten bir yeriniz var',
+        'errors.classSession.staffConflict': 'Eğitmenin bu saatte başka bir dersi veya randevusu var',
+        'errors.classSession.serviceInvalid': 'Hizmet aktif değil veya grup dersi değil',
+        'errors.classSession.seatsBelowBooked': 'Kontenjan, alınmış koltuk sayısının altına düşürülemez',
+        'errors.waitlist.entryNotFound': 'Bekleme listesi kaydı bulunamadı',
+        'errors.waitlist.alreadyJoined': 'Bu hizmet için zaten bekleme listesindesiniz',
+        'errors.waitlist.invalidWindow': 'Geçersiz tarih veya saat aralığı',
+        'errors.waitlist.entryClosed': 'Bu bekleme listesi kaydı artık aktif değil',
+        'errors.waitlist.offerNotFound': 'Teklif bulunamadı',
+        'errors.waitlist.offerExpired': 'Teklifin süresi doldu veya teklif zaten yanıtlandı',
+        'errors.walkInQueue.ticketNotFound': 'Sıra numarası bulunamadı',
+        'errors.walkInQueue.invalidStatus': 'Bu sıra numarası artık beklemede değil',
+        'errors.walkInQueue.alreadyQueued': 'Bu işletmede zaten sıradasınız',
+        'errors.walkInQueue.empty': 'Sırada bekleyen müşteri yok',
+        'errors.walkInQueue.customerRequired': 'Müşteri bilgisi gerekli',
 
         // Customer extras
         'errors.customer.profileIncomplete': 'Müşteri profili eksik',
@@ -599,6 +762,11 @@ export class TranslationService {
         'success.appointment.created': 'Appointment created successfully',
         'success.appointment.updated': 'Appointment updated successfully',
         'success.appointment.cancelled': 'Appointment cancelled successfully',
+        'success.appointment.rescheduled': 'Appointment rescheduled successfully',
+        'success.appointment.rescheduleHistoryRetrieved': 'Appointment reschedule history retrieved successfully',
+        'success.appointment.timelineRetrieved': 'Appointment timeline retrieved successfully',
+        'success.appointment.depositRetrieved': 'Deposit retrieved successfully',
+        'success.appointment.depositPaid': 'Deposit paid successfully',
         'success.appointment.confirmed': 'Appointment confirmed successfully',
         'success.appointment.batchUpdated': '{{count}} appointments updated successfully',
         'success.appointment.batchCancelled': '{{count}} appointments cancelled successfully',
@@ -606,6 +774,10 @@ export class TranslationService {
         'success.appointment.retrievedList': 'Appointments retrieved successfully',
         'success.appointment.completed': 'Appointment completed successfully',
         'success.appointment.markedNoShow': 'Appointment marked as no-show',
+        'success.appointment.checkedIn': 'Customer checked in',
+        'success.appointment.started': 'Service started',
+        'success.appointment.noShowUndone': 'No-show undone',
+        'success.appointment.checkInCodeRetrieved': 'Check-in QR code retrieved',
         'success.appointment.statusUpdated': 'Appointment status updated successfully',
         'success.appointment.approved': 'Appointment approved',
         'success.appointment.rejected': 'Appointment request rejected',
@@ -626,6 +798,30 @@ export class TranslationService {
         'success.appointment.todaysRetrieved': 'Today\'s appointments retrieved successfully',
         'success.appointment.monitorRetrieved': 'Monitor appointments retrieved successfully',
         'success.appointment.availableSlotsRetrieved': 'Available time slots retrieved successfully',
+        'success.appointment.firstAvailableRetrieved': 'Earliest available times retrieved successfully',
+        'success.appointment.bundleCreated': 'Appointment bundle created successfully',
+        'success.appointment.bundleRetrieved': 'Appointment bundle retrieved successfully',
+        'success.appointment.bundleCancelled': 'Appointment bundle cancelled successfully',
+        'success.appointment.bundleRescheduled': 'Appointment bundle rescheduled successfully',
+        'success.appointment.seriesPreviewed': 'Appointment series preview generated',
+        'success.appointment.seriesCreated': 'Recurring appointment series created',
+        'success.appointment.seriesRetrieved': 'Appointment series retrieved successfully',
+        'success.appointment.seriesUpdated': 'Appointment series updated',
+        'success.appointment.seriesCancelled': 'Appointment series cancelled',
+        'success.appointment.slotHeld': 'The time is held for you',
+        'success.appointment.slotHoldRetrieved': 'Hold retrieved',
+        'success.appointment.slotHoldReleased': 'Hold released',
+        'success.waitlist.joined': 'Added to the waitlist',
+        'success.waitlist.left': 'Removed from the waitlist',
+        'success.waitlist.retrieved': 'Waitlist retrieved',
+        'success.waitlist.offerAccepted': 'Offer accepted, your appointment is booked',
+        'success.waitlist.offerDeclined': 'Offer declined',
+        'success.walkInQueue.ticketCreated': 'Added to the queue',
+        'success.walkInQueue.retrieved': 'Queue retrieved',
+        'success.walkInQueue.called': 'Next customer called',
+        'success.walkInQueue.skipped': 'Customer skipped',
+        'success.walkInQueue.cancelled': 'Queue ticket cancelled',
+        'success.walkInQueue.converted': 'Queue ticket converted to an appointment',
         'success.contact.sent': 'Your message has been sent successfully. We will get back to you as soon as possible.',
         'success.business.created': 'Business created successfully',
         'success.business.updated': 'Business updated successfully',
@@ -660,6 +856,12 @@ export class TranslationService {
         'success.business.profilePrivacySettingsRetrieved': 'Profile privacy settings retrieved successfully',
         'success.business.cancellationPoliciesRetrieved': 'Cancellation policies retrieved successfully',
         'success.business.cancellationPoliciesUpdated': 'Cancellation policies updated successfully',
+        'success.business.reschedulePolicyRetrieved': 'Reschedule policy retrieved successfully',
+        'success.business.reschedulePolicyUpdated': 'Reschedule policy updated successfully',
+        'success.business.checkInPolicyRetrieved': 'Check-in policy retrieved successfully',
+        'success.business.checkInPolicyUpdated': 'Check-in policy updated successfully',
+        'success.business.approvalPolicyRetrieved': 'Approval policy retrieved successfully',
+        'success.business.approvalPolicyUpdated': 'Approval policy updated successfully',
         'success.business.notificationSettingsUpdated': 'Notification settings updated successfully',
         'success.business.reservationSettingsUpdated': 'Reservation settings updated successfully',
         'success.business.profilePrivacySettingsUpdated': 'Profile privacy settings updated successfully',
@@ -717,6 +919,8 @@ export class TranslationService {
         'success.rating.deleted': 'Rating deleted successfully',
         'success.report.financialRetrieved': 'Financial report retrieved successfully',
         'success.report.operationalRetrieved': 'Operational report retrieved successfully',
+        'success.report.waitlistRetrieved': 'Waitlist report retrieved successfully',
+        'success.report.depositsRetrieved': 'Deposit report retrieved successfully',
         'success.report.qualityRetrieved': 'Quality report retrieved successfully',
         'success.report.customerAnalyticsRetrieved': 'Customer analytics report retrieved successfully',
         'success.report.trendsRetrieved': 'Trends report retrieved successfully',
@@ -755,9 +959,39 @@ export class TranslationService {
         'success.service.activated': 'Service activated successfully',
         'success.service.deactivated': 'Service deactivated successfully',
         'success.service.duplicated': 'Service duplicated successfully',
+        'success.service.staffOverridesRetrieved': 'Service staff retrieved successfully',
+        'success.service.staffOverrideUpdated': 'Staff-specific service settings updated successfully',
         'success.service.batchActivated': '{{count}} services activated successfully',
         'success.service.batchDeactivated': '{{count}} services deactivated successfully',
         'success.service.batchDeleted': '{{count}} services deleted successfully',
+        'success.resource.created': 'Resource created successfully',
+        'success.resource.updated': 'Resource updated successfully',
+        'success.resource.deleted': 'Resource deleted successfully',
+        'success.resource.retrieved': 'Resources retrieved successfully',
+        'success.intakeForm.retrieved': 'Intake form retrieved successfully',
+        'success.intakeForm.versionsRetrieved': 'Intake form versions retrieved successfully',
+        'success.intakeForm.published': 'Intake form published successfully',
+        'success.intakeForm.disabled': 'Intake form turned off successfully',
+        'success.intakeForm.answersRetrieved': 'Intake answers retrieved successfully',
+        'success.intakeForm.answersSaved': 'Intake answers saved successfully',
+        'success.import.validated': 'Import file checked',
+        'success.import.completed': 'Import completed',
+        'success.sessionPackage.retrieved': 'Packages retrieved',
+        'success.sessionPackage.created': 'Package created',
+        'success.sessionPackage.updated': 'Package updated',
+        'success.sessionPackage.sold': 'Package sold to the customer',
+        'success.sessionPackage.balanceRetrieved': 'Customer packages retrieved',
+        'success.giftCard.issued': 'Cards issued',
+        'success.giftCard.retrieved': 'Cards retrieved',
+        'success.giftCard.redeemed': 'Card applied to the appointment',
+        'success.giftCard.voided': 'Card voided',
+        'success.resource.serviceResourcesRetrieved': 'Service resource requirements retrieved successfully',
+        'success.resource.serviceResourcesUpdated': 'Service resource requirements updated successfully',
+        'success.classSession.created': 'Class scheduled',
+        'success.classSession.updated': 'Class updated',
+        'success.classSession.cancelled': 'Class cancelled and attendees notified',
+        'success.classSession.retrieved': 'Classes retrieved',
+        'success.classSession.booked': 'Seat booked',
         'success.staff.created': 'Staff member created successfully',
         'success.staff.updated': 'Staff member updated successfully',
         'success.staff.deleted': 'Staff member deleted successfully',
@@ -773,6 +1007,23 @@ export class TranslationService {
         'success.staff.bulkInvited': 'Bulk invitation completed',
         'success.staff.rolesRetrieved': 'Available staff roles retrieved successfully',
         'success.staff.publicRetrieved': 'Public business staff retrieved successfully',
+        'success.staffTimeOff.retrieved': 'Time off retrieved successfully',
+        'success.staffTimeOff.created': 'Time off created successfully',
+        'success.staffTimeOff.approved': 'Time off approved',
+        'success.staffTimeOff.rejected': 'Time off request rejected',
+        'success.staffTimeOff.cancelled': 'Time off cancelled',
+        'success.staffTimeOff.affectedAppointmentsRetrieved': 'Appointments affected by the time off retrieved',
+        'success.staffTimeOff.appointmentsResolved': 'Affected appointments updated',
+        'success.staffReassignment.previewRetrieved': 'Staff reassignment preview retrieved',
+        'success.staffReassignment.applied': 'Staff appointments reassigned',
+        'success.calendarFeed.created': 'Calendar feed created',
+        'success.calendarFeed.retrieved': 'Calendar feeds retrieved',
+        'success.calendarFeed.revoked': 'Calendar feed revoked',
+        'success.staffCalendar.retrieved': 'External calendars retrieved',
+        'success.staffCalendar.created': 'External calendar added',
+        'success.staffCalendar.updated': 'External calendar updated',
+        'success.staffCalendar.imported': 'External calendar re-imported',
+        'success.staffCalendar.deleted': 'External calendar removed',
         'success.role.created': 'Role created successfully',
         'success.role.retrieved': 'Role retrieved successfully',
         'success.role.retrievedList': 'Roles retrieved successfully',
@@ -969,12 +1220,22 @@ export class TranslationService {
         'errors.appointment.timeConflict': 'Selected time is unavailable.',
         'errors.appointment.pastDate': 'Past date cannot be selected',
         'errors.appointment.tooFarFuture': 'Date is too far in the future',
+        'errors.appointment.notYetReleased': 'Bookings for this date are not open yet',
         'errors.appointment.outsideHours': 'Outside business hours',
         'errors.appointment.alreadyConfirmed': 'Appointment already confirmed',
         'errors.appointment.alreadyCompleted': 'Appointment already completed',
         'errors.appointment.alreadyCancelled': 'Appointment already cancelled',
         'errors.appointment.cannotCancel': 'Appointment cannot be cancelled',
         'errors.appointment.noShowNotAllowed': 'Cannot mark as no-show',
+        'errors.appointment.alreadyCheckedIn': 'Customer is already checked in',
+        'errors.appointment.checkInNotAllowed': 'Only confirmed or in-progress appointments can be checked in',
+        'errors.appointment.checkInWindowClosed': 'Check-in is not open for this appointment right now',
+        'errors.appointment.alreadyStarted': 'Service has already started',
+        'errors.appointment.checkInCodeInvalid': 'Invalid check-in code',
+        'errors.appointment.qrCheckInDisabled': 'QR check-in is turned off for this business',
+        'errors.appointment.notNoShow': 'Appointment is not marked as no-show',
+        'errors.appointment.noShowUndoOwnerOnly': 'Only the business owner can undo a no-show',
+        'errors.appointment.noShowUndoSlotTaken': 'The time was booked by another appointment after the no-show; move that appointment first',
         'errors.appointment.staffNotAvailable': 'Staff not available',
         'errors.appointment.serviceUnavailable': 'Service unavailable',
         'errors.appointment.insufficientAdvance': 'Booking window has passed.',
@@ -989,6 +1250,24 @@ export class TranslationService {
         'errors.service.priceInvalid': 'Invalid price',
         'errors.service.durationInvalid': 'Invalid duration',
         'errors.service.hasAppointments': 'Service has appointments and cannot be deleted',
+        'errors.resource.notFound': 'Resource not found',
+        'errors.resource.nameDuplicate': 'A resource with this name already exists',
+        'errors.resource.quantityExceedsCapacity': 'Requested quantity exceeds the resource capacity',
+        'errors.intakeForm.notFound': 'This service has no intake form',
+        'errors.intakeForm.answersInvalid': 'Intake answers are missing or invalid',
+        'errors.intakeForm.accessDenied': 'You cannot see the intake answers of this appointment',
+        'errors.intakeForm.closed': 'The appointment has started, so its intake answers can no longer change',
+        'errors.import.fileInvalid': 'The import file could not be read. Save it as CSV with a header row and try again',
+        'errors.import.tooManyRows': 'At most {{max}} rows can be imported from one file',
+        'errors.sessionPackage.notFound': 'Package not found',
+        'errors.sessionPackage.inactive': 'This package is no longer sold',
+        'errors.sessionPackage.invalidServices': 'The services of a package must belong to the business',
+        'errors.sessionPackage.noCredits': 'Your package has no sessions left, please try again',
+        'errors.giftCard.notFound': 'Gift card not found',
+        'errors.giftCard.inactive': 'This card has been voided',
+        'errors.giftCard.expired': 'This card has expired',
+        'errors.giftCard.noBalance': 'The card has no balance left',
+        'errors.giftCard.notApplicable': 'This card cannot be used for this appointment',
         
         // Customer Errors
         'errors.customer.notFound': 'Customer not found',
@@ -1002,6 +1281,16 @@ export class TranslationService {
         'errors.staff.alreadyExists': 'Staff already exists',
         'errors.staff.notAvailable': 'Staff not available',
         'errors.staff.cannotDeleteSelf': 'You cannot delete yourself',
+        'errors.staff.onTimeOff': 'The staff member is on leave at the selected time',
+        'errors.staff.externallyBusy': 'The staff member is busy in another calendar at the selected time',
+        'errors.staff.notQualified': 'The staff member does not provide this service',
+        'errors.staffTimeOff.notFound': 'Time off not found',
+        'errors.staffTimeOff.invalidStatus': 'This time off is {{status}} and cannot be changed this way',
+        'errors.staffTimeOff.invalidRange': 'Time off must end after it starts',
+        'errors.calendarFeed.notFound': 'Calendar feed not found or revoked',
+        'errors.calendarFeed.scopeInvalid': 'You cannot view every appointment this calendar would contain',
+        'errors.staffCalendar.notFound': 'External calendar not found',
+        'errors.staffCalendar.invalid': 'The calendar could not be read: {{reason}}',
         
         // Role & Permission Errors
         'errors.role.notFound': 'Role not found',
@@ -1087,6 +1376,43 @@ export class TranslationService {
 
         // Appointment extras
         'errors.appointment.notPendingApproval': 'Appointment is not pending approval',
+        'errors.appointment.bundleNotFound': 'Appointment bundle not found',
+        'errors.appointment.bundleInvalid': 'Invalid appointment bundle request',
+        'errors.appointment.searchRangeTooLong': 'The search range can be at most {{maxDays}} days',
+        'errors.appointment.partOfBundle': 'This appointment is part of a bundle; reschedule the whole bundle instead',
+        'errors.appointment.seriesNotFound': 'Appointment series not found',
+        'errors.appointment.seriesInvalidRule': 'Invalid recurrence rule',
+        'errors.appointment.seriesNotActive': 'This appointment series is no longer active',
+        'errors.appointment.seriesNoOccurrences': 'None of the series dates are available',
+        'errors.appointment.slotHeld': 'This time is temporarily held for a waitlisted customer',
+        'errors.appointment.slotHoldNotFound': 'Your hold has expired, please pick the time again',
+        'errors.appointment.slotHoldUnavailable': 'The time cannot be held right now, please try again',
+        'errors.appointment.resourceUnavailable': 'A required room or equipment is fully booked at the selected time',
+        'errors.appointment.partOfClass': 'This appointment is a seat in a group class; book another class instead',
+        'errors.appointment.classBookingRequired': 'This service is offered as a group class; book a seat in a scheduled class instead',
+        'errors.appointment.rescheduleNotAllowed': 'This change does not meet the business reschedule policy',
+        'errors.appointment.rescheduleSameTime': 'The appointment is already at this time',
+        'errors.appointment.depositNotFound': 'This appointment has no deposit',
+        'errors.appointment.depositNotPayable': 'This deposit can no longer be paid',
+        'errors.appointment.depositPaymentFailed': 'Deposit payment failed: {{reason}}',
+        'errors.classSession.notFound': 'Class not found',
+        'errors.classSession.notActive': 'This class was cancelled or has already started',
+        'errors.classSession.full': 'This class is fully booked',
+        'errors.classSession.alreadyBooked': 'You already have a seat in this class',
+        'errors.classSession.staffConflict': 'The instructor has another class or appointment at this time',
+        'errors.classSession.serviceInvalid': 'The service is inactive or not a group service',
+        'errors.classSession.seatsBelowBooked': 'Seats cannot be reduced below the number already booked',
+        'errors.waitlist.entryNotFound': 'Waitlist entry not found',
+        'errors.waitlist.alreadyJoined': 'You are already on the waitlist for this service',
+        'errors.waitlist.invalidWindow': 'Invalid date or time window',
+        'errors.waitlist.entryClosed': 'This waitlist entry is no longer active',
+        'errors.waitlist.offerNotFound': 'Offer not found',
+        'errors.waitlist.offerExpired': 'The offer has expired or was already answered',
+        'errors.walkInQueue.ticketNotFound': 'Queue ticket not found',
+        'errors.walkInQueue.invalidStatus': 'This ticket is no longer waiting',
+        'errors.walkInQueue.alreadyQueued': 'You are already in the queue of this business',
+        'errors.walkInQueue.empty': 'Nobody is waiting in the queue',
+        'errors.walkInQueue.customerRequired': 'Customer details are required',
 
         // Customer extras
         'errors.customer.profileIncomplete': 'Customer profile is incomplete',
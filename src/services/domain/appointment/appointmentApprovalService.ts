@@ -0,0 +1,90 @@
+import { AppointmentRepository } from '../../../repositories/appointmentRepository';
+import { OverdueApprovalsResult } from '../../../types/appointment';
+import { AppointmentData } from '../../../types/business';
+import logger from '../../../utils/Logger/logger';
+import { UnifiedNotificationGateway } from '../notification/unifiedNotificationGateway';
+import { AppointmentService } from './appointmentService';
+import { overdueApprovalAction, resolveApprovalPolicy } from './approvalRules';
+
+/**
+ * Approval requests nobody decided on in time.
+ *
+ * Businesses with an approval timeout either have overdue requests rejected, with
+ * the customer told like on a manual rejection, or escalated to the owner. An
+ * escalation is sent once; the request keeps waiting for a decision after it.
+ * Run by ExpireApprovalRequestsJob.
+ */
+export class AppointmentApprovalService {
+  constructor(
+    private readonly appointmentRepository: AppointmentRepository,
+    private readonly appointmentService: AppointmentService,
+    private readonly notificationGateway: UnifiedNotificationGateway
+  ) {}
+
+  async processOverdueApprovals(now: Date = new Date()): Promise<OverdueApprovalsResult> {
+    const candidates = await this.appointmentRepository.findPendingApprovalsWithTimeout();
+
+    let escalated = 0;
+    let rejected = 0;
+    for (const candidate of candidates) {
+      const { appointment } = candidate;
+      const action = overdueApprovalAction(appointment, resolveApprovalPolicy(candidate.businessSettings), now);
+      try {
+        if (action === 'REJECT' && await this.appointmentService.rejectOverdueApproval(appointment)) {
+          rejected++;
+        } else if (action === 'ESCALATE' && await this.escalate(candidate, now)) {
+          escalated++;
+        }
+      } catch (error) {
+        logger.error('Failed to handle overdue approval request', { appointmentId: appointment.id, action, error });
+      }
+    }
+
+    return { candidates: candidates.length, escalated, rejected };
+  }
+
+  /** Alerts the owner; the request only counts as escalated once the alert went out */
+  private async escalate(
+    candidate: { appointment: AppointmentData; ownerId: string; customerName: string; serviceName: string },
+    now: Date
+  ): Promise<boolean> {
+    const { appointment, ownerId, serviceName } = candidate;
+    const customerName = candidate.customerName || 'Müşteri';
+    const startTime = new Date(appointment.startTime);
+    const appointmentDate = startTime.toLocaleDateString('tr-TR', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'Europe/Istanbul' });
+    const appointmentTime = startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/Istanbul' });
+
+    const result = await this.notificationGateway.sendSystemAlert({
+      businessId: appointment.businessId,
+      userId: ownerId,
+      title: 'Onay Bekleyen Randevu',
+      body: `${customerName} adlı müşterinin ${appointmentDate} ${appointmentTime} tarihli ${serviceName} randevu isteği hâlâ onayınızı bekliyor.`,
+      appointmentId: appointment.id,
+      data: {
+        appointmentId: appointment.id,
+        customerId: appointment.customerId,
+        customerName,
+        serviceName,
+        appointmentDate,
+        appointmentTime,
+        approvalRule: appointment.approvalRule,
+        type: 'appointment_approval_escalation',
+        requiresApproval: true
+      },
+      url: `/appointments/${appointment.id}`
+    });
+    if (!result.success) {
+      logger.info('Approval escalation not sent, retrying on the next run', {
+        appointmentId: appointment.id,
+        skipped: result.skippedChannels.map(skipped => skipped.reason)
+      });
+      return false;
+    }
+
+    const marked = await this.appointmentRepository.markApprovalEscalated(appointment.id, now);
+    if (marked) {
+      logger.info('Overdue approval request escalated to the owner', { appointmentId: appointment.id, ownerId });
+    }
+    return marked;
+  }
+}
@@ -0,0 +1,352 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from '../../../config/environment';
+import { AppointmentRepository } from '../../../repositories/appointmentRepository';
+import { BusinessRepository } from '../../../repositories/businessRepository';
+import { UserBehaviorRepository } from '../../../repositories/userBehaviorRepository';
+import { MarkNoShowsResult, QrCheckInRequest, VenueCheckInCode } from '../../../types/appointment';
+import { PermissionName } from '../../../types/auth';
+import { AppointmentData, AppointmentStatus } from '../../../types/business';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+import { CancellationPolicyService } from '../business/cancellationPolicyService';
+import { RBACService } from '../rbac/rbacService';
+import { AppointmentService, rethrowOnOverlapConflict } from './appointmentService';
+import { checkInWindow, isNoShowDue, resolveCheckInPolicy } from './checkInRules';
+
+const CHECK_IN_STATUSES: AppointmentStatus[] = [AppointmentStatus.CONFIRMED, AppointmentStatus.IN_PROGRESS];
+
+// Venue codes rotate so a photo of one stops working soon; the code of the previous
+// period is still accepted so a scan right after the rotation does not fail
+const VENUE_CODE_PERIOD_MS = 15 * 60 * 1000;
+
+function venueCodePeriod(at: Date): number {
+  return Math.floor(at.getTime() / VENUE_CODE_PERIOD_MS);
+}
+
+/**
+ * Arrivals, time in service and no-shows.
+ *
+ * Staff check a customer in, or the customer scans the QR code shown at the venue;
+ * the code carries the business id and a rotating period signed with
+ * CHECK_IN_QR_SECRET, so it only works for that business and only for a while. Starting the service moves the appointment to
+ * IN_PROGRESS with its actual start time, and completing it records the actual end.
+ *
+ * At businesses tracking no-shows, appointments still without a check-in once the
+ * grace period after their start has passed are marked NO_SHOW by MarkNoShowsJob,
+ * with the same strikes and policy handling as a no-show marked by the staff (see
+ * checkInRules.ts). The owner can undo a no-show; the strike is taken back, but a
+ * deposit forfeited with it stays forfeited.
+ */
+export class AppointmentCheckInService {
+  constructor(
+    private readonly appointmentRepository: AppointmentRepository,
+    private readonly businessRepository: BusinessRepository,
+    private readonly userBehaviorRepository: UserBehaviorRepository,
+    private readonly rbacService: RBACService,
+    private readonly appointmentService: AppointmentService,
+    private readonly cancellationPolicyService: CancellationPolicyService
+  ) {}
+
+  /** Staff record the customer's arrival */
+  async checkIn(userId: string, appointmentId: string): Promise<AppointmentData> {
+    const appointment = await this.getAppointmentOrThrow(appointmentId);
+    await this.assertStaffAccess(userId, appointment.businessId);
+    this.assertCanCheckIn(appointment);
+
+    await this.recordCheckIn(appointment, 'STAFF', userId);
+    logger.info('Appointment checked in', { appointmentId, method: 'STAFF' });
+
+    return this.getAppointmentOrThrow(appointmentId);
+  }
+
+  /**
+   * Customer scanning the venue QR code. Without an appointment id the customer's
+   * appointment at the business whose check-in window is open is used.
+   */
+  async checkInWithQrCode(userId: string, request: QrCheckInRequest): Promise<AppointmentData> {
+    if (!this.verifyVenueToken(request.businessId, request.token, new Date())) {
+      throw new AppError('CHECK_IN_CODE_INVALID', { message: 'Invalid check-in code' });
+    }
+
+    const policy = await this.cancellationPolicyService.getCheckInPolicySettings(request.businessId);
+    if (!policy.allowQrCheckIn) {
+      throw new AppError('QR_CHECK_IN_DISABLED', { message: 'QR check-in is turned off for this business' });
+    }
+
+    const now = new Date();
+    let appointment: AppointmentData | null;
+    if (request.appointmentId) {
+      appointment = await this.appointmentRepository.findById(request.appointmentId);
+      if (!appointment || appointment.customerId !== userId || appointment.businessId !== request.businessId) {
+        throw new AppError('APPOINTMENT_NOT_FOUND', { message: 'Appointment not found' });
+      }
+    } else {
+      appointment = await this.appointmentRepository.findCheckInCandidate(
+        userId,
+        request.businessId,
+        new Date(now.getTime() - policy.noShowGraceMinutes * 60000),
+        new Date(now.getTime() + policy.checkInOpensMinutesBefore * 60000)
+      );
+      if (!appointment) {
+        throw new AppError('APPOINTMENT_NOT_FOUND', {
+          message: 'No appointment at this business is open for check-in now'
+        });
+      }
+    }
+
+    this.assertCanCheckIn(appointment);
+    const { opensAt, closesAt } = checkInWindow(appointment.startTime, policy);
+    if (now < opensAt || now > closesAt) {
+      throw new AppError('APPOINTMENT_CHECK_IN_WINDOW_CLOSED', {
+        message: 'Check-in is not open for this appointment right now',
+        params: { opensAt: opensAt.toISOString(), closesAt: closesAt.toISOString() }
+      });
+    }
+
+    await this.recordCheckIn(appointment, 'QR_CODE', userId);
+    logger.info('Appointment checked in', { appointmentId: appointment.id, method: 'QR_CODE' });
+
+    return this.getAppointmentOrThrow(appointment.id);
+  }
+
+  /** Staff start the service; a customer not checked in yet is checked in with it */
+  async startService(userId: string, appointmentId: string): Promise<AppointmentData> {
+    const appointment = await this.getAppointmentOrThrow(appointmentId);
+    await this.assertStaffAccess(userId, appointment.businessId);
+
+    if (!CHECK_IN_STATUSES.includes(appointment.status)) {
+      throw this.checkInNotAllowed(appointment);
+    }
+    if (appointment.actualStartTime) {
+      throw new AppError('APPOINTMENT_ALREADY_STARTED', { message: 'Service has already started' });
+    }
+
+    const now = new Date();
+    if (!appointment.checkedInAt) {
+      await this.appointmentRepository.recordCheckIn(appointmentId, { method: 'STAFF', checkedInBy: userId, at: now });
+    }
+    if (!(await this.appointmentRepository.startService(appointmentId, now))) {
+      const current = await this.getAppointmentOrThrow(appointmentId);
+      throw current.actualStartTime
+        ? new AppError('APPOINTMENT_ALREADY_STARTED', { message: 'Service has already started' })
+        : this.checkInNotAllowed(current);
+    }
+    await this.appointmentService.recordStatusChange(
+      appointment,
+      { status: AppointmentStatus.IN_PROGRESS, actualStartTime: now },
+      { channel: 'STAFF_PANEL', actorId: userId }
+    );
+    logger.info('Appointment service started', { appointmentId });
+
+    return this.getAppointmentOrThrow(appointmentId);
+  }
+
+  /**
+   * Undo a no-show for a customer who did come. The appointment goes back to
+   * CONFIRMED, checked in, while it has not ended yet, else to COMPLETED. Going
+   * back to CONFIRMED takes the slot again, which fails while someone booked it
+   * since (e.g. from the waitlist offer the no-show released).
+   */
+  async undoNoShow(userId: string, appointmentId: string): Promise<AppointmentData> {
+    const appointment = await this.getAppointmentOrThrow(appointmentId);
+
+    const business = await this.businessRepository.findById(appointment.businessId);
+    if (!business || business.ownerId !== userId) {
+      const { resource, action } = this.splitPermissionName(PermissionName.EDIT_ALL_APPOINTMENTS);
+      if (!(await this.rbacService.hasPermission(userId, resource, action))) {
+        throw new AppError('NO_SHOW_UNDO_OWNER_ONLY', { message: 'Only the business owner can undo a no-show' });
+      }
+    }
+
+    if (appointment.status !== AppointmentStatus.NO_SHOW) {
+      throw this.notNoShow(appointment);
+    }
+
+    const now = new Date();
+    const status = new Date(appointment.endTime) > now ? AppointmentStatus.CONFIRMED : AppointmentStatus.COMPLETED;
+    if (status === AppointmentStatus.CONFIRMED) {
+      await this.assertSlotStillFree(appointment);
+    }
+
+    let reversed: boolean;
+    try {
+      reversed = await this.appointmentRepository.reverseNoShow(appointmentId, {
+        status,
+        reversedBy: userId,
+        at: now,
+        checkedInAt: appointment.checkedInAt ?? now
+      });
+    } catch (e: unknown) {
+      // The check above can race a booking; the exclusion constraint has the last word
+      rethrowOnOverlapConflict(e);
+    }
+    if (!reversed) {
+      throw this.notNoShow(await this.getAppointmentOrThrow(appointmentId));
+    }
+    await this.appointmentService.recordStatusChange(
+      appointment,
+      {
+        status,
+        canceledAt: null,
+        ...(status === AppointmentStatus.COMPLETED ? { completedAt: now } : {}),
+        checkedInAt: appointment.checkedInAt ?? now,
+        noShowReversedAt: now
+      },
+      { channel: 'STAFF_PANEL', actorId: userId, reason: 'No-show undone' }
+    );
+
+    try {
+      await this.userBehaviorRepository.removeStrike(appointment.customerId);
+      await this.userBehaviorRepository.createOrUpdate(appointment.customerId);
+    } catch (error) {
+      logger.warn('Failed to take back no-show strike', { appointmentId, customerId: appointment.customerId, error });
+    }
+    logger.info('No-show undone', { appointmentId, status, undoneBy: userId });
+
+    return this.getAppointmentOrThrow(appointmentId);
+  }
+
+  /** The signed code a business shows at the venue for customers to scan */
+  async getVenueCheckInCode(userId: string, businessId: string, now: Date = new Date()): Promise<VenueCheckInCode> {
+    await this.assertStaffAccess(userId, businessId);
+
+    const token = this.signVenueToken(businessId, now);
+    return {
+      businessId,
+      token,
+      payload: JSON.stringify({ type: 'appointment-check-in', businessId, token }),
+      refreshAt: new Date((venueCodePeriod(now) + 1) * VENUE_CODE_PERIOD_MS)
+    };
+  }
+
+  /**
+   * Marks NO_SHOW every appointment of a no-show tracking business whose grace
+   * period passed without a check-in. Run every minute by MarkNoShowsJob.
+   */
+  async markMissedAppointments(now: Date = new Date()): Promise<MarkNoShowsResult> {
+    const candidates = await this.appointmentRepository.findMissedCheckIns(now);
+
+    let marked = 0;
+    for (const { appointment, businessSettings } of candidates) {
+      if (!isNoShowDue(appointment.startTime, resolveCheckInPolicy(businessSettings), now)) {
+        continue;
+      }
+      try {
+        if (await this.appointmentService.markMissedAsNoShow(appointment, now)) {
+          marked++;
+        }
+      } catch (error) {
+        logger.error('Failed to mark missed appointment as no-show', { appointmentId: appointment.id, error });
+      }
+    }
+
+    return { candidates: candidates.length, marked };
+  }
+
+  /** The period of `at` and the HMAC of the business id with it; what makes a venue QR code valid */
+  signVenueToken(businessId: string, at: Date = new Date()): string {
+    return this.signVenuePeriod(businessId, venueCodePeriod(at));
+  }
+
+  private signVenuePeriod(businessId: string, period: number): string {
+    const secret = config.CHECK_IN_QR_SECRET;
+    if (!secret) {
+      // Optional setting: only QR check-in is unavailable without it
+      throw new AppError('SERVICE_UNAVAILABLE', { message: 'QR check-in is not configured (CHECK_IN_QR_SECRET)' });
+    }
+    const signature = createHmac('sha256', secret)
+      .update(`appointment-check-in:${businessId}:${period}`)
+      .digest('base64url');
+    return `${period}.${signature}`;
+  }
+
+  private verifyVenueToken(businessId: string, token: string, now: Date): boolean {
+    const period = Number(token.split('.')[0]);
+    const current = venueCodePeriod(now);
+    if (!Number.isInteger(period) || (period !== current && period !== current - 1)) {
+      return false;
+    }
+    const expected = Buffer.from(this.signVenuePeriod(businessId, period));
+    const received = Buffer.from(token);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  private async assertSlotStillFree(appointment: AppointmentData): Promise<void> {
+    const conflicting = await this.appointmentRepository.findConflictingAppointments(
+      appointment.businessId,
+      appointment.date,
+      appointment.startTime,
+      appointment.endTime,
+      appointment.staffId,
+      appointment.id
+    );
+    if (conflicting.length > 0) {
+      throw new AppError('NO_SHOW_UNDO_SLOT_TAKEN', {
+        message: 'The time was booked by another appointment after the no-show',
+        params: { conflictingAppointmentId: conflicting[0].id }
+      });
+    }
+  }
+
+  private async recordCheckIn(
+    appointment: AppointmentData,
+    method: 'STAFF' | 'QR_CODE',
+    checkedInBy: string
+  ): Promise<void> {
+    const recorded = await this.appointmentRepository.recordCheckIn(appointment.id, {
+      method,
+      checkedInBy,
+      at: new Date()
+    });
+    if (!recorded) {
+      this.assertCanCheckIn(await this.getAppointmentOrThrow(appointment.id));
+    }
+  }
+
+  private assertCanCheckIn(appointment: AppointmentData): void {
+    if (!CHECK_IN_STATUSES.includes(appointment.status)) {
+      throw this.checkInNotAllowed(appointment);
+    }
+    if (appointment.checkedInAt) {
+      throw new AppError('APPOINTMENT_ALREADY_CHECKED_IN', {
+        message: 'Customer is already checked in',
+        params: { checkedInAt: new Date(appointment.checkedInAt).toISOString() }
+      });
+    }
+  }
+
+  private async assertStaffAccess(userId: string, businessId: string): Promise<void> {
+    await this.appointmentService.assertBusinessAppointmentAccess(
+      userId,
+      businessId,
+      PermissionName.COMPLETE_APPOINTMENTS
+    );
+  }
+
+  private async getAppointmentOrThrow(appointmentId: string): Promise<AppointmentData> {
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new AppError('APPOINTMENT_NOT_FOUND', { message: 'Appointment not found' });
+    }
+    return appointment;
+  }
+
+  private checkInNotAllowed(appointment: AppointmentData): AppError {
+    return new AppError('APPOINTMENT_CHECK_IN_NOT_ALLOWED', {
+      message: `Appointment is ${appointment.status.toLowerCase()}`,
+      params: { status: appointment.status }
+    });
+  }
+
+  private notNoShow(appointment: AppointmentData): AppError {
+    return new AppError('APPOINTMENT_NOT_NO_SHOW', {
+      message: 'Appointment is not marked as no-show',
+      params: { status: appointment.status }
+    });
+  }
+
+  private splitPermissionName(permissionName: string): { resource: string; action: string } {
+    const [resource, action] = permissionName.split(':');
+    return { resource, action };
+  }
+}
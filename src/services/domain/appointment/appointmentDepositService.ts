@@ -0,0 +1,361 @@
+import { AppointmentData, AppointmentStatus } from '../../../types/business';
+import { AppointmentDepositData, DepositSettlementReason, PayDepositRequest } from '../../../types/deposit';
+import { AppointmentPaymentRepository } from '../../../repositories/appointmentPaymentRepository';
+import { AppointmentRepository } from '../../../repositories/appointmentRepository';
+import { BusinessRepository } from '../../../repositories/businessRepository';
+import { ServiceRepository } from '../../../repositories/serviceRepository';
+import { PrismaUserRepository } from '../../../repositories/userRepository';
+import { ERROR_CODES } from '../../../constants/errorCodes';
+import { PermissionName } from '../../../types/auth';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+import { CancellationPolicyService } from '../business/cancellationPolicyService';
+import { PaymentService } from '../payment/paymentService';
+import { AppointmentService } from './appointmentService';
+import { resolveDepositSettlement } from './depositRules';
+
+type DepositCharge = Awaited<ReturnType<PaymentService['chargeAppointmentDeposit']>>;
+
+/** A deposit still PROCESSING after this long belongs to a request that never finished */
+const STALE_PROCESSING_MS = 15 * 60 * 1000;
+
+/**
+ * Booking deposits charged through iyzico.
+ *
+ * createAppointment() books a customer into a PENDING appointment with an unpaid
+ * deposit row. Paying it here confirms the booking; an unpaid deposit releases the
+ * slot once its payment window passes. When the appointment later ends without
+ * being completed, the deposit is refunded or forfeited following the business'
+ * cancellation policy (see resolveDepositSettlement).
+ */
+export class AppointmentDepositService {
+  constructor(
+    private readonly appointmentPaymentRepository: AppointmentPaymentRepository,
+    private readonly appointmentRepository: AppointmentRepository,
+    private readonly serviceRepository: ServiceRepository,
+    private readonly businessRepository: BusinessRepository,
+    private readonly userRepository: PrismaUserRepository,
+    private readonly appointmentService: AppointmentService,
+    private readonly paymentService: PaymentService,
+    private readonly cancellationPolicyService: CancellationPolicyService
+  ) {}
+
+  async getDeposit(userId: string, appointmentId: string): Promise<AppointmentDepositData> {
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new AppError('Appointment not found', 404, ERROR_CODES.APPOINTMENT_NOT_FOUND);
+    }
+
+    if (appointment.customerId !== userId) {
+      await this.appointmentService.assertBusinessAppointmentAccess(
+        userId,
+        appointment.businessId,
+        PermissionName.VIEW_ALL_APPOINTMENTS,
+        PermissionName.VIEW_OWN_APPOINTMENTS
+      );
+    }
+
+    const deposit = await this.appointmentPaymentRepository.findByAppointment(appointmentId);
+    if (!deposit) {
+      throw new AppError('This appointment has no deposit', 404, ERROR_CODES.APPOINTMENT_DEPOSIT_NOT_FOUND);
+    }
+    return deposit;
+  }
+
+  /**
+   * Charges the deposit of the customer's own PENDING appointment. A declined card
+   * leaves the deposit payable until the window closes, so the customer can retry.
+   */
+  async payDeposit(
+    userId: string,
+    appointmentId: string,
+    request: PayDepositRequest
+  ): Promise<{ appointment: AppointmentData; deposit: AppointmentDepositData }> {
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new AppError('Appointment not found', 404, ERROR_CODES.APPOINTMENT_NOT_FOUND);
+    }
+    if (appointment.customerId !== userId) {
+      throw new AppError('Only the customer can pay the deposit', 403, ERROR_CODES.APPOINTMENT_ACCESS_DENIED);
+    }
+
+    const deposit = await this.appointmentPaymentRepository.findByAppointment(appointmentId);
+    if (!deposit) {
+      throw new AppError('This appointment has no deposit', 404, ERROR_CODES.APPOINTMENT_DEPOSIT_NOT_FOUND);
+    }
+
+    const now = new Date();
+    const expired = !!deposit.expiresAt && deposit.expiresAt <= now;
+    if (deposit.status !== 'PENDING' || expired || appointment.status !== 'PENDING') {
+      throw new AppError(
+        'This deposit can no longer be paid',
+        409,
+        ERROR_CODES.APPOINTMENT_DEPOSIT_NOT_PAYABLE,
+        true,
+        { status: deposit.status }
+      );
+    }
+
+    // Claim the deposit so a double submit or the expiry job cannot race the charge
+    const claimed = await this.appointmentPaymentRepository.transition(deposit.id, 'PENDING', { status: 'PROCESSING' });
+    if (!claimed) {
+      throw new AppError('This deposit can no longer be paid', 409, ERROR_CODES.APPOINTMENT_DEPOSIT_NOT_PAYABLE);
+    }
+
+    let charge: DepositCharge;
+    try {
+      charge = await this.chargeDeposit(appointment, deposit, request);
+    } catch (error) {
+      // Nothing was charged: hand the deposit back so the customer can try again
+      // instead of leaving it PROCESSING until the payment window expires
+      await this.appointmentPaymentRepository.transition(deposit.id, 'PROCESSING', {
+        status: 'PENDING',
+        failureReason: error instanceof Error ? error.message : 'Payment failed'
+      });
+      throw error;
+    }
+
+    if (!charge.success) {
+      await this.appointmentPaymentRepository.update(deposit.id, {
+        status: 'PENDING',
+        failureReason: charge.error || 'Payment failed'
+      });
+      throw new AppError(
+        charge.error || 'Deposit payment failed',
+        402,
+        ERROR_CODES.APPOINTMENT_DEPOSIT_PAYMENT_FAILED,
+        true,
+        { reason: charge.error || '' }
+      );
+    }
+
+    const paid = await this.appointmentPaymentRepository.update(deposit.id, {
+      status: 'SUCCEEDED',
+      providerPaymentId: charge.iyzicoPaymentId,
+      paidAt: now,
+      failureReason: null
+    });
+
+    logger.info('Appointment deposit paid', { appointmentId, depositId: deposit.id, amount: deposit.amount });
+
+    const confirmed = await this.appointmentService.confirmDepositPaid(appointmentId);
+    if (confirmed.status === AppointmentStatus.CANCELED || confirmed.status === AppointmentStatus.REJECTED_BY_BUSINESS) {
+      const refunded = await this.refundChargeForEndedAppointment(confirmed);
+      throw new AppError(
+        'The appointment ended while the deposit was being paid; the deposit is refunded',
+        409,
+        ERROR_CODES.APPOINTMENT_DEPOSIT_NOT_PAYABLE,
+        true,
+        { status: refunded?.status ?? paid.status }
+      );
+    }
+    return { appointment: confirmed, deposit: paid };
+  }
+
+  /**
+   * Gives the whole deposit back when the appointment was cancelled or rejected
+   * while the card was being charged. settleDeposit() skipped it then because it
+   * was still PROCESSING, and no cancellation policy applies to a booking that
+   * was never confirmed.
+   */
+  private async refundChargeForEndedAppointment(appointment: AppointmentData): Promise<AppointmentDepositData | null> {
+    const deposit = await this.appointmentPaymentRepository.findByAppointment(appointment.id);
+    // Cancelled after the payment was recorded: settleDeposit() has handled it
+    if (!deposit || deposit.status !== 'SUCCEEDED' || deposit.forfeitedAmount > 0) {
+      return deposit;
+    }
+    if (!(await this.appointmentPaymentRepository.transition(deposit.id, 'SUCCEEDED', { status: 'PROCESSING' }))) {
+      return deposit;
+    }
+
+    const refund = await this.paymentService.refundAppointmentDeposit(
+      deposit.providerPaymentId || '',
+      deposit.amount,
+      deposit.currency,
+      appointment.status
+    );
+    if (!refund.success) {
+      logger.error('Appointment deposit refund failed', { appointmentId: appointment.id, depositId: deposit.id, error: refund.error });
+      return this.appointmentPaymentRepository.update(deposit.id, {
+        status: 'SUCCEEDED',
+        failureReason: `Refund failed: ${refund.error || 'unknown error'}`
+      });
+    }
+
+    logger.info('Deposit paid for an ended appointment refunded', { appointmentId: appointment.id, amount: deposit.amount });
+    return this.appointmentPaymentRepository.update(deposit.id, {
+      status: 'REFUNDED',
+      refundedAmount: deposit.amount,
+      refundedAt: new Date(),
+      failureReason: null
+    });
+  }
+
+  /** Charges the customer's card for the deposit with the business and service on the receipt */
+  private async chargeDeposit(
+    appointment: AppointmentData,
+    deposit: AppointmentDepositData,
+    request: PayDepositRequest
+  ): Promise<DepositCharge> {
+    const [service, business, customer] = await Promise.all([
+      this.serviceRepository.findById(appointment.serviceId),
+      this.businessRepository.findById(appointment.businessId),
+      this.userRepository.findById(appointment.customerId)
+    ]);
+
+    return this.paymentService.chargeAppointmentDeposit({
+      conversationId: `deposit_${deposit.id}`,
+      amount: deposit.amount,
+      currency: deposit.currency,
+      card: request.card,
+      customer: {
+        id: appointment.customerId,
+        firstName: customer?.firstName,
+        lastName: customer?.lastName,
+        phoneNumber: customer?.phoneNumber || '',
+        email: request.email
+      },
+      business: {
+        name: business?.name || '',
+        address: business?.address,
+        city: business?.city,
+        country: business?.country,
+        postalCode: business?.postalCode
+      },
+      service: { id: appointment.serviceId, name: service?.name || 'Randevu' }
+    });
+  }
+
+  /**
+   * Refunds or forfeits a paid deposit when its appointment ends without being
+   * completed; an unpaid one is simply closed. Registered with
+   * AppointmentService.onAppointmentEnded().
+   */
+  async settleDeposit(
+    appointment: AppointmentData,
+    reason: DepositSettlementReason
+  ): Promise<AppointmentDepositData | null> {
+    const deposit = await this.appointmentPaymentRepository.findByAppointment(appointment.id);
+    if (!deposit) {
+      return null;
+    }
+
+    if (deposit.status === 'PENDING') {
+      await this.appointmentPaymentRepository.transition(deposit.id, 'PENDING', { status: 'CANCELED' });
+      return null;
+    }
+
+    if (deposit.status !== 'SUCCEEDED' || deposit.forfeitedAmount > 0) {
+      return null;
+    }
+
+    const policy = await this.cancellationPolicyService.getBusinessPolicySettings(appointment.businessId);
+    const hoursBeforeStart =
+      (new Date(appointment.startTime).getTime() - Date.now()) / (1000 * 60 * 60);
+    const settlement = resolveDepositSettlement(deposit.amount, reason, hoursBeforeStart, policy);
+
+    if (!(await this.appointmentPaymentRepository.transition(deposit.id, 'SUCCEEDED', { status: 'PROCESSING' }))) {
+      return null;
+    }
+
+    const now = new Date();
+    const forfeited = settlement.forfeitAmount > 0
+      ? { forfeitedAmount: settlement.forfeitAmount, forfeitedAt: now }
+      : {};
+
+    if (settlement.refundAmount <= 0) {
+      const result = await this.appointmentPaymentRepository.update(deposit.id, { status: 'SUCCEEDED', ...forfeited });
+      logger.info('Appointment deposit forfeited', { appointmentId: appointment.id, reason, amount: settlement.forfeitAmount });
+      return result;
+    }
+
+    const refund = await this.paymentService.refundAppointmentDeposit(
+      deposit.providerPaymentId || '',
+      settlement.refundAmount,
+      deposit.currency,
+      reason
+    );
+
+    if (!refund.success) {
+      // Left as paid with the reason so the business can refund it by hand
+      logger.error('Appointment deposit refund failed', { appointmentId: appointment.id, depositId: deposit.id, error: refund.error });
+      return this.appointmentPaymentRepository.update(deposit.id, {
+        status: 'SUCCEEDED',
+        failureReason: `Refund failed: ${refund.error || 'unknown error'}`
+      });
+    }
+
+    const result = await this.appointmentPaymentRepository.update(deposit.id, {
+      status: 'REFUNDED',
+      refundedAmount: settlement.refundAmount,
+      refundedAt: now,
+      failureReason: null,
+      ...forfeited
+    });
+    logger.info('Appointment deposit refunded', {
+      appointmentId: appointment.id,
+      reason,
+      refunded: settlement.refundAmount,
+      forfeited: settlement.forfeitAmount
+    });
+    return result;
+  }
+
+  /**
+   * Closes deposits not paid within their window and frees the held appointments.
+   * Deposits left PROCESSING by a request that died mid-way are recovered first.
+   */
+  async expireUnpaidDeposits(): Promise<{ expired: number; released: number; recovered: number }> {
+    const recovered = await this.recoverStaleProcessing();
+    const expired = await this.appointmentPaymentRepository.findExpiredPending(new Date());
+    let released = 0;
+
+    for (const deposit of expired) {
+      try {
+        // A payment in progress has already moved the deposit to PROCESSING
+        if (!(await this.appointmentPaymentRepository.transition(deposit.id, 'PENDING', { status: 'CANCELED' }))) {
+          continue;
+        }
+        if (await this.appointmentService.releaseUnpaidAppointment(deposit.appointmentId)) {
+          released++;
+        }
+      } catch (error) {
+        logger.error('Failed to expire unpaid deposit', { depositId: deposit.id, error });
+      }
+    }
+
+    return { expired: expired.length, released, recovered };
+  }
+
+  /**
+   * A charge that never recorded its outcome goes back to PENDING, so it can be
+   * paid again or expire; an interrupted refund goes back to SUCCEEDED with a
+   * note so the business can refund it by hand. Both are logged for
+   * reconciliation with iyzico.
+   */
+  private async recoverStaleProcessing(): Promise<number> {
+    const stale = await this.appointmentPaymentRepository.findStaleProcessing(new Date(Date.now() - STALE_PROCESSING_MS));
+    let recovered = 0;
+
+    for (const deposit of stale) {
+      const data = deposit.providerPaymentId
+        ? { status: 'SUCCEEDED' as const, failureReason: 'Refund was interrupted; check it with iyzico' }
+        : { status: 'PENDING' as const, failureReason: 'Payment was interrupted' };
+      try {
+        if (await this.appointmentPaymentRepository.transition(deposit.id, 'PROCESSING', data)) {
+          recovered++;
+          logger.warn('Recovered a deposit stuck in PROCESSING', {
+            depositId: deposit.id,
+            appointmentId: deposit.appointmentId,
+            conversationId: `deposit_${deposit.id}`,
+            status: data.status
+          });
+        }
+      } catch (error) {
+        logger.error('Failed to recover deposit stuck in PROCESSING', { depositId: deposit.id, error });
+      }
+    }
+
+    return recovered;
+  }
+}
@@ -7,7 +7,10 @@ import { BusinessClosureRepository } from '../../../repositories/businessClosure
 import { ServiceRepository } from '../../../repositories/serviceRepository';
 import { WorkingHoursRepository } from '../../../repositories/workingHoursRepository';
 import { RescheduleSuggestionRepository } from '../../../repositories/rescheduleSuggestionRepository';
-import { ReservationSettings, BusinessSettings } from '../../../types/reservationSettings';
+import { StaffTimeOffRepository } from '../../../repositories/staffTimeOffRepository';
+import { StaffExternalCalendarRepository } from '../../../repositories/staffExternalCalendarRepository';
+import { AppointmentStatusChangeRepository } from '../../../repositories/appointmentStatusChangeRepository';
+import { BusinessSettings } from '../../../types/reservationSettings';
 
 import {
   TimeSlot,
@@ -20,6 +23,25 @@ import {
 import logger from "../../../utils/Logger/logger";
 import { AppError } from '../../../types/responseTypes';
 import { ERROR_CODES } from '../../../constants/errorCodes';
+import { isDuringTimeOff } from '../staff/timeOffWindow';
+import {
+  addDaysToDateString,
+  createCalendarDate,
+  createDateTimeInTimezone,
+  formatDateInTimezone,
+  getDayBoundsInTimezone,
+  resolveTimezone,
+  toWallTime
+} from '../../../utils/timezoneHelper';
+import { applyClosures, BusinessDay, openingWindow, resolveBusinessDay } from './businessDay';
+import {
+  BookingWindow,
+  BookingWindowService,
+  bookableFrom,
+  checkBookingWindow,
+  earliestBookableStart,
+  resolveBookingWindow
+} from './bookingWindow';
 
 /**
  * AppointmentRescheduleService
@@ -35,7 +57,10 @@ export class AppointmentRescheduleService {
     private readonly serviceRepository: ServiceRepository,
     private readonly workingHoursRepository: WorkingHoursRepository,
     private readonly rescheduleSuggestionRepository: RescheduleSuggestionRepository,
-    private readonly notificationService: NotificationService
+    private readonly notificationService: NotificationService,
+    private readonly staffTimeOffRepository: StaffTimeOffRepository,
+    private readonly staffExternalCalendarRepository: StaffExternalCalendarRepository,
+    private readonly appointmentStatusChangeRepository: AppointmentStatusChangeRepository
   ) { }
 
   // Helper method to validate business reservation rules for rescheduling
@@ -43,7 +68,8 @@ export class AppointmentRescheduleService {
     businessId: string,
     appointmentDateTime: Date,
     customerId?: string,
-    serviceMinAdvanceBooking?: number
+    /** The appointment's service; its lead time, horizon and release override the business's */
+    service?: BookingWindowService | null
   ): Promise<void> {
     const business = await this.businessRepository.findById(businessId);
     if (!business) {
@@ -53,68 +79,43 @@ export class AppointmentRescheduleService {
     const settings = (business.settings as BusinessSettings) || {};
     const reservationSettings = settings.reservationSettings;
 
-    const rules: ReservationSettings = {
-      maxAdvanceBookingDays: reservationSettings?.maxAdvanceBookingDays || 30,
-      minNotificationHours: reservationSettings?.minNotificationHours ?? 0,
-      maxDailyAppointments: reservationSettings?.maxDailyAppointments || 50
-    };
-
-    const now = new Date();
-
-    // 1. Check maximum advance booking days (calendar days: today = 0, tomorrow = 1, …)
-    const todayMidnight = new Date(now); todayMidnight.setHours(0, 0, 0, 0);
-    const apptMidnight = new Date(appointmentDateTime); apptMidnight.setHours(0, 0, 0, 0);
-    const daysDifference = Math.round((apptMidnight.getTime() - todayMidnight.getTime()) / (1000 * 60 * 60 * 24));
-
-    if (daysDifference > rules.maxAdvanceBookingDays) {
-      throw new AppError(
-        'Reschedule date is too far in the future',
-        400,
-        ERROR_CODES.APPOINTMENT_TOO_FAR_FUTURE,
-        true,
-        { maxDays: rules.maxAdvanceBookingDays }
-      );
-    }
+    const maxDailyAppointments = reservationSettings?.maxDailyAppointments || 50;
 
-    // 2. Check minimum advance booking
-    const hoursDifference = (appointmentDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-    const minAdvanceHours = serviceMinAdvanceBooking !== undefined ? serviceMinAdvanceBooking : rules.minNotificationHours;
+    const timezone = resolveTimezone(business.timezone);
+    const appointmentDay = formatDateInTimezone(appointmentDateTime, timezone);
 
-    if (hoursDifference < minAdvanceHours) {
-      throw new AppError(
-        `Must reschedule at least ${minAdvanceHours} hours in advance`,
-        400,
-        ERROR_CODES.APPOINTMENT_INSUFFICIENT_ADVANCE,
-        true,
-        { minHours: minAdvanceHours }
-      );
+    // 1-2. Horizon, release schedule and lead time (calendar days in the business's timezone)
+    const violation = checkBookingWindow(
+      resolveBookingWindow(service ? [service] : [], reservationSettings),
+      appointmentDateTime,
+      new Date(),
+      timezone
+    );
+    if (violation) {
+      throw new AppError(violation.message, 400, ERROR_CODES[violation.code], true, violation.params);
     }
 
-    // 3. Check maximum daily appointments
-    const appointmentDateStart = new Date(appointmentDateTime);
-    appointmentDateStart.setHours(0, 0, 0, 0);
-
-    const appointmentDateEnd = new Date(appointmentDateTime);
-    appointmentDateEnd.setHours(23, 59, 59, 999);
+    // 3. Check maximum daily appointments (Appointment.date holds the business's calendar day)
+    const appointmentDate = createCalendarDate(appointmentDay);
 
     const count = await this.appointmentRepository.getAppointmentsCount({
       businessId,
       date: {
-        gte: appointmentDateStart,
-        lte: appointmentDateEnd
+        gte: appointmentDate,
+        lte: appointmentDate
       },
       status: {
         not: 'CANCELED'
       }
     });
 
-    if (count >= rules.maxDailyAppointments) {
+    if (count >= maxDailyAppointments) {
       throw new AppError(
-        `Daily appointment limit (${rules.maxDailyAppointments}) reached for this date`,
+        `Daily appointment limit (${maxDailyAppointments}) reached for this date`,
         409,
         ERROR_CODES.APPOINTMENT_DAILY_LIMIT_REACHED,
         true,
-        { maxDaily: rules.maxDailyAppointments }
+        { maxDaily: maxDailyAppointments }
       );
     }
 
@@ -124,8 +125,8 @@ export class AppointmentRescheduleService {
         businessId,
         customerId,
         date: {
-          gte: appointmentDateStart,
-          lte: appointmentDateEnd
+          gte: appointmentDate,
+          lte: appointmentDate
         },
         status: {
           not: 'CANCELED'
@@ -184,6 +185,7 @@ export class AppointmentRescheduleService {
       // Calculate search window (typically 2-4 weeks after closure ends)
       const searchStartDate = closureData.endDate || new Date(closureData.startDate.getTime() + 24 * 60 * 60 * 1000);
       const searchEndDate = new Date(searchStartDate.getTime() + 28 * 24 * 60 * 60 * 1000); // 4 weeks
+      const timezone = await this.getBusinessTimezone(appointment.businessId);
 
       // Generate time slots similar to original appointment
       const availableSlots = await this.findAvailableSlots(
@@ -193,7 +195,7 @@ export class AppointmentRescheduleService {
         appointment.duration,
         searchStartDate,
         searchEndDate,
-        this.getPreferredTimeFromOriginal(appointment.startTime)
+        this.getPreferredTimeFromOriginal(appointment.startTime, timezone)
       );
 
       // Create reschedule suggestion record
@@ -237,6 +239,66 @@ export class AppointmentRescheduleService {
     }
   }
 
+  /**
+   * Fallback when an appointment's staff member is removed or absent and nobody
+   * else is free at the booked time: offers the customer other times with any of
+   * the given staff members, starting at `searchFrom` (e.g. the end of the absence).
+   */
+  async generateStaffUnavailableSuggestions(
+    appointmentId: string,
+    options: {
+      unavailableStaffId: string;
+      reason: 'STAFF_REMOVED' | 'STAFF_ABSENT';
+      candidateStaffIds: string[];
+      searchFrom: Date;
+    }
+  ): Promise<{ suggestionId: string; suggestedSlots: Array<TimeSlot & { staffId: string }> }> {
+    const appointment = await this.appointmentRepository.findByIdWithDetails(appointmentId);
+    if (!appointment) {
+      throw new AppError('Appointment not found', 404, ERROR_CODES.APPOINTMENT_NOT_FOUND);
+    }
+
+    const searchEndDate = new Date(options.searchFrom.getTime() + 28 * 24 * 60 * 60 * 1000); // 4 weeks
+    const timezone = await this.getBusinessTimezone(appointment.businessId);
+    const preferredTime = this.getPreferredTimeFromOriginal(appointment.startTime, timezone);
+
+    const slots: Array<TimeSlot & { staffId: string }> = [];
+    for (const staffId of options.candidateStaffIds) {
+      const staffSlots = await this.findAvailableSlots(
+        appointment.businessId,
+        appointment.serviceId,
+        staffId,
+        appointment.duration,
+        options.searchFrom,
+        searchEndDate,
+        preferredTime
+      );
+      slots.push(...staffSlots
+        .filter((slot) => slot.startTime >= options.searchFrom)
+        .map((slot) => ({ ...slot, staffId })));
+    }
+    // Earliest first, across staff members
+    const suggestedSlots = slots
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+      .slice(0, 10);
+
+    const suggestionId = `suggestion-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    await this.rescheduleSuggestionRepository.create({
+      id: suggestionId,
+      originalAppointment: {
+        connect: { id: appointmentId }
+      },
+      reason: options.reason,
+      unavailableStaff: {
+        connect: { id: options.unavailableStaffId }
+      },
+      suggestedDates: JSON.stringify(suggestedSlots),
+      customerResponse: null
+    });
+
+    return { suggestionId, suggestedSlots };
+  }
+
   async autoRescheduleAppointments(
     closureId: string,
     rescheduleOptions: RescheduleOptions
@@ -303,6 +365,13 @@ export class AppointmentRescheduleService {
     preferredTime: 'MORNING' | 'AFTERNOON' | 'EVENING' | 'ANY' = 'ANY'
   ): Promise<TimeSlot[]> {
     try {
+      // Days, working hours and preferred times are the business's wall clock
+      const { timezone, window: bookingWindow } = await this.loadBookingWindow(businessId, serviceId);
+      const now = new Date();
+      const earliestStart = earliestBookableStart(bookingWindow, now);
+      const firstDay = formatDateInTimezone(startDate, timezone);
+      const lastDay = formatDateInTimezone(endDate, timezone);
+
       // Get business working hours using repository
       const workingHours = await this.workingHoursRepository.findByBusiness(
         businessId,
@@ -315,8 +384,8 @@ export class AppointmentRescheduleService {
         businessId,
         staffId,
         status: AppointmentStatus.CONFIRMED as any,
-        startDate: startDate.toISOString().split('T')[0],
-        endDate: endDate.toISOString().split('T')[0]
+        startDate: firstDay,
+        endDate: lastDay
       });
       const existingAppointments = existingAppointmentsResult.appointments;
 
@@ -327,46 +396,50 @@ export class AppointmentRescheduleService {
         endDate
       );
 
+      // Approved leave and outside-calendar busy time of the staff member; the range end
+      // is a calendar day, so include all of it
+      const rangeEnd = getDayBoundsInTimezone(lastDay, timezone).end;
+      const timeOff = staffId
+        ? [
+          ...await this.staffTimeOffRepository.findApprovedOverlapping([staffId], startDate, rangeEnd),
+          ...await this.staffExternalCalendarRepository.findBusyOverlapping([staffId], startDate, rangeEnd)
+        ]
+        : [];
+
       const availableSlots: TimeSlot[] = [];
-      let currentDate = new Date(startDate);
-
-      while (currentDate <= endDate && availableSlots.length < 10) { // Limit to 10 suggestions
-        const dayOfWeek = currentDate.getDay();
-
-        // Find working hours for this day
-        const dayWorkingHours = workingHours.filter(wh => wh.dayOfWeek === dayOfWeek);
-
-        if (dayWorkingHours.length > 0) {
-          for (const workingHour of dayWorkingHours) {
-            // Check if this day is during a closure
-            const isClosedDay = closures.some(closure => {
-              const closureStart = new Date(closure.startDate);
-              const closureEnd = closure.endDate ? new Date(closure.endDate) : new Date('2099-12-31');
-              return currentDate >= closureStart && currentDate <= closureEnd;
-            });
-
-            if (!isClosedDay) {
-              const daySlots = this.generateDayTimeSlots(
-                currentDate,
-                workingHour.startTime,
-                workingHour.endTime,
-                duration,
-                preferredTime
-              );
-
-              // Filter out conflicting appointments
-              const availableDaySlots = daySlots.filter(slot => {
-                return !existingAppointments.some(appointment => {
-                  return this.isTimeSlotConflicting(slot, appointment.startTime, appointment.endTime);
-                });
-              });
-
-              availableSlots.push(...availableDaySlots.slice(0, 3)); // Max 3 slots per day
-            }
+      let currentDay = firstDay;
+
+      while (currentDay <= lastDay && availableSlots.length < 10) { // Limit to 10 suggestions
+        const day = resolveBusinessDay(currentDay, timezone);
+
+        // Days the customer could not book yet (horizon or release schedule) are not offered
+        const dayWorkingHours = now < bookableFrom(bookingWindow, day.date, timezone)
+          ? []
+          : workingHours.filter(wh => wh.dayOfWeek === day.dayOfWeek);
+
+        for (const workingHour of dayWorkingHours) {
+          const window = openingWindow(day, workingHour.startTime, workingHour.endTime);
+
+          // Skip the day when a closure covers its opening hours; shorter closures block their time
+          const { fullClosure, blocked } = applyClosures(closures, window);
+          if (fullClosure) {
+            continue;
           }
+
+          const unavailable = [...timeOff, ...blocked.map(range => ({ startTime: range.start, endTime: range.end }))];
+          const daySlots = this.generateDayTimeSlots(day, window, duration, preferredTime);
+
+          // Filter out conflicting appointments
+          const availableDaySlots = daySlots.filter(slot => {
+            return slot.startTime >= earliestStart && !existingAppointments.some(appointment => {
+              return this.isTimeSlotConflicting(slot, appointment.startTime, appointment.endTime);
+            }) && !isDuringTimeOff(unavailable, slot.startTime, slot.endTime);
+          });
+
+          availableSlots.push(...availableDaySlots.slice(0, 3)); // Max 3 slots per day
         }
 
-        currentDate.setDate(currentDate.getDate() + 1);
+        currentDay = addDaysToDateString(currentDay, 1);
       }
 
       return availableSlots.slice(0, 10); // Return maximum 10 slots
@@ -399,7 +472,7 @@ export class AppointmentRescheduleService {
       await this.rescheduleSuggestionRepository.updateCustomerResponse(suggestionId, response);
 
       if (response === 'ACCEPTED' && selectedSlotIndex !== undefined) {
-        const suggestedSlots = JSON.parse(suggestion.suggestedDates as string) as TimeSlot[];
+        const suggestedSlots = JSON.parse(suggestion.suggestedDates as string) as Array<TimeSlot & { staffId?: string }>;
         const selectedSlot = suggestedSlots[selectedSlotIndex];
 
         if (selectedSlot) {
@@ -413,22 +486,39 @@ export class AppointmentRescheduleService {
               appointment.businessId,
               new Date(selectedSlot.startTime),
               appointment.customerId,
-              service?.minAdvanceBooking
+              service
             );
           }
 
           // Update the original appointment with new time using repository
-          await this.appointmentRepository.update(suggestion.originalAppointmentId, {
-            startTime: new Date(selectedSlot.startTime).toISOString(),
+          const newStart = new Date(selectedSlot.startTime);
+          const timezone = await this.getBusinessTimezone(suggestion.originalAppointment.businessId);
+          const rescheduled = await this.appointmentRepository.update(suggestion.originalAppointmentId, {
+            date: formatDateInTimezone(newStart, timezone),
+            startTime: newStart.toISOString(),
+            // Staff suggestions name who takes over at the new time
+            ...(selectedSlot.staffId ? { staffId: selectedSlot.staffId } : {}),
             status: AppointmentStatus.CONFIRMED as any
           });
+          await this.appointmentStatusChangeRepository.record(suggestion.originalAppointment, rescheduled, {
+            channel: 'CUSTOMER_APP',
+            actorId: customerId,
+            reason: 'Reschedule suggestion accepted'
+          });
         }
       } else if (response === 'DECLINED') {
         // Cancel the original appointment using repository
-        await this.appointmentRepository.cancel(
+        const cancelled = await this.appointmentRepository.cancel(
           suggestion.originalAppointmentId,
-          'Customer declined reschedule due to business closure'
+          suggestion.reason === 'BUSINESS_CLOSURE'
+            ? 'Customer declined reschedule due to business closure'
+            : 'Customer declined reschedule after staff became unavailable'
         );
+        await this.appointmentStatusChangeRepository.record(suggestion.originalAppointment, cancelled, {
+          channel: 'CUSTOMER_APP',
+          actorId: customerId,
+          reason: 'Reschedule suggestion declined'
+        });
       }
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -481,10 +571,12 @@ export class AppointmentRescheduleService {
           appointment.businessId,
           new Date(bestSlot.startTime),
           appointment.customerId,
-          service?.minAdvanceBooking
+          service
         );
 
+        const timezone = await this.getBusinessTimezone(appointment.businessId);
         await this.appointmentRepository.update(appointment.id, {
+          date: formatDateInTimezone(new Date(bestSlot.startTime), timezone),
           startTime: new Date(bestSlot.startTime).toISOString(),
           status: AppointmentStatus.CONFIRMED as any
         });
@@ -519,23 +611,37 @@ export class AppointmentRescheduleService {
     };
   }
 
+  private async getBusinessTimezone(businessId: string): Promise<string> {
+    const business = await this.businessRepository.findById(businessId);
+    return resolveTimezone(business?.timezone);
+  }
+
+  /** Business timezone and the booking window customers get for the service */
+  private async loadBookingWindow(
+    businessId: string,
+    serviceId: string
+  ): Promise<{ timezone: string; window: BookingWindow }> {
+    const business = await this.businessRepository.findById(businessId);
+    const service = await this.serviceRepository.findById(serviceId);
+    const settings = (business?.settings as BusinessSettings) || {};
+    return {
+      timezone: resolveTimezone(business?.timezone),
+      window: resolveBookingWindow(service ? [service] : [], settings.reservationSettings)
+    };
+  }
+
   private generateDayTimeSlots(
-    date: Date,
-    startTime: string,
-    endTime: string,
+    day: BusinessDay,
+    window: { start: Date; end: Date },
     duration: number,
     preferredTime: 'MORNING' | 'AFTERNOON' | 'EVENING' | 'ANY'
   ): TimeSlot[] {
     const slots: TimeSlot[] = [];
 
-    const [startHour, startMinute] = startTime.split(':').map(Number);
-    const [endHour, endMinute] = endTime.split(':').map(Number);
-
-    const dayStart = new Date(date);
-    dayStart.setHours(startHour, startMinute, 0, 0);
-
-    const dayEnd = new Date(date);
-    dayEnd.setHours(endHour, endMinute, 0, 0);
+    const dayStart = window.start;
+    const dayEnd = window.end;
+    const noon = createDateTimeInTimezone(day.date, '12:00', day.timezone);
+    const evening = createDateTimeInTimezone(day.date, '17:00', day.timezone);
 
     // Apply preferred time filter
     let searchStart = new Date(dayStart);
@@ -543,18 +649,14 @@ export class AppointmentRescheduleService {
 
     switch (preferredTime) {
       case 'MORNING':
-        searchEnd = new Date(date);
-        searchEnd.setHours(12, 0, 0, 0);
+        searchEnd = noon;
         break;
       case 'AFTERNOON':
-        searchStart = new Date(date);
-        searchStart.setHours(12, 0, 0, 0);
-        searchEnd = new Date(date);
-        searchEnd.setHours(17, 0, 0, 0);
+        searchStart = noon;
+        searchEnd = evening;
         break;
       case 'EVENING':
-        searchStart = new Date(date);
-        searchStart.setHours(17, 0, 0, 0);
+        searchStart = evening;
         break;
     }
 
@@ -574,7 +676,7 @@ export class AppointmentRescheduleService {
       });
 
       // Move to next 30-minute slot
-      currentSlot.setMinutes(currentSlot.getMinutes() + 30);
+      currentSlot.setTime(currentSlot.getTime() + 30 * 60 * 1000);
     }
 
     return slots;
@@ -591,8 +693,8 @@ export class AppointmentRescheduleService {
     return (slotStart < appointmentEnd && slotEnd > appointmentStart);
   }
 
-  private getPreferredTimeFromOriginal(originalTime: Date): 'MORNING' | 'AFTERNOON' | 'EVENING' | 'ANY' {
-    const hour = originalTime.getHours();
+  private getPreferredTimeFromOriginal(originalTime: Date, timezone: string): 'MORNING' | 'AFTERNOON' | 'EVENING' | 'ANY' {
+    const { hour } = toWallTime(originalTime, timezone);
 
     if (hour < 12) return 'MORNING';
     if (hour < 17) return 'AFTERNOON';
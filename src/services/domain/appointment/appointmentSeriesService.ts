@@ -0,0 +1,691 @@
+import { randomUUID } from 'crypto';
+import { AppointmentSeriesStatus, PrismaClient } from '@prisma/client';
+import { AppointmentData, AppointmentStatus, ServiceData } from '../../../types/business';
+import {
+  AppointmentSeriesData,
+  AppointmentSeriesResult,
+  CancelAppointmentSeriesRequest,
+  CreateAppointmentSeriesRequest,
+  SeriesConflictReason,
+  SeriesOccurrenceConflict,
+  UpdateAppointmentSeriesRequest
+} from '../../../types/appointment';
+import { AppointmentRepository } from '../../../repositories/appointmentRepository';
+import { AppointmentSeriesRepository } from '../../../repositories/appointmentSeriesRepository';
+import { BusinessClosureRepository } from '../../../repositories/businessClosureRepository';
+import { BusinessRepository } from '../../../repositories/businessRepository';
+import { ServiceRepository } from '../../../repositories/serviceRepository';
+import { ERROR_CODES } from '../../../constants/errorCodes';
+import { ACTIVE_APPOINTMENT_STATUSES } from '../../../constants/appointmentStatus';
+import { PermissionName } from '../../../types/auth';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+import {
+  createCalendarDate,
+  createDateTimeInTimezone,
+  formatDateInTimezone,
+  formatTimeInTimezone,
+  resolveTimezone
+} from '../../../utils/timezoneHelper';
+import { UsageService } from '../usage';
+import { AppointmentService } from './appointmentService';
+import {
+  endRuleBefore,
+  expandOccurrences,
+  formatRecurrenceRule,
+  parseRecurrenceRule
+} from './recurrenceRule';
+
+/** How far ahead occurrences are written as real appointments; the daily job rolls it forward. */
+export const SERIES_MATERIALIZATION_DAYS = 56;
+
+const OVERLAP_CONSTRAINT_NAME = 'appointments_no_overlap_per_staff';
+
+interface OccurrenceSlot {
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  serviceId: string;
+  staffId?: string;
+  duration: number;
+  excludeAppointmentId?: string;
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+function isOverlapConstraintError(e: unknown): boolean {
+  const message = String((e as { message?: unknown })?.message || '');
+  const cause = String((e as { meta?: { cause?: unknown } })?.meta?.cause || '');
+  return message.includes(OVERLAP_CONSTRAINT_NAME) || cause.includes(OVERLAP_CONSTRAINT_NAME);
+}
+
+/**
+ * Standing bookings ("every Tuesday 10:00", "every other week", "monthly").
+ *
+ * A series stores the rule; each occurrence is an ordinary Appointment row with
+ * `seriesId` set, so reminders, auto-complete, reports and the calendar treat
+ * occurrences exactly like one-off bookings. Occurrences are written up to
+ * SERIES_MATERIALIZATION_DAYS ahead; MaterializeAppointmentSeriesJob extends the
+ * window daily. Dates that cannot be booked are skipped and reported as conflicts
+ * rather than failing the whole series.
+ */
+export class AppointmentSeriesService {
+  constructor(
+    private readonly appointmentSeriesRepository: AppointmentSeriesRepository,
+    private readonly appointmentRepository: AppointmentRepository,
+    private readonly serviceRepository: ServiceRepository,
+    private readonly businessRepository: BusinessRepository,
+    private readonly businessClosureRepository: BusinessClosureRepository,
+    private readonly appointmentService: AppointmentService,
+    private readonly usageService: UsageService,
+    private readonly prisma: PrismaClient
+  ) {}
+
+  /** Dry run of createSeries: which dates would be booked and which conflict. */
+  async previewSeries(
+    userId: string,
+    data: CreateAppointmentSeriesRequest
+  ): Promise<Omit<AppointmentSeriesResult, 'series'>> {
+    await this.appointmentService.assertBusinessAppointmentAccess(userId, data.businessId, PermissionName.EDIT_ALL_APPOINTMENTS, PermissionName.EDIT_OWN_APPOINTMENTS);
+    const service = await this.getBookableService(data.businessId, data.serviceId);
+    const rule = parseRecurrenceRule(data.rrule);
+
+    const timezone = await this.getBusinessTimezone(data.businessId);
+    const dates = expandOccurrences(rule, data.startDate, { horizonEnd: this.horizonEnd(timezone) });
+    const occurrences: AppointmentSeriesResult['occurrences'] = [];
+    const conflicts: SeriesOccurrenceConflict[] = [];
+
+    for (const date of dates) {
+      const conflict = await this.checkOccurrence(data.businessId, timezone, {
+        date,
+        startTime: data.startTime,
+        serviceId: data.serviceId,
+        staffId: data.staffId,
+        duration: service.duration
+      });
+      if (conflict) {
+        conflicts.push(conflict);
+      } else {
+        occurrences.push({ date, startTime: data.startTime });
+      }
+    }
+
+    return { occurrences, conflicts };
+  }
+
+  /**
+   * Creates the series and books every non-conflicting occurrence inside the
+   * materialisation window. Fails only when not a single date could be booked.
+   */
+  async createSeries(
+    userId: string,
+    data: CreateAppointmentSeriesRequest
+  ): Promise<AppointmentSeriesResult> {
+    await this.appointmentService.assertBusinessAppointmentAccess(userId, data.businessId, PermissionName.EDIT_ALL_APPOINTMENTS, PermissionName.EDIT_OWN_APPOINTMENTS);
+    const service = await this.getBookableService(data.businessId, data.serviceId);
+    const rule = parseRecurrenceRule(data.rrule);
+    const customerId = data.customerId || userId;
+
+    const customer = await this.prisma.user.findUnique({
+      where: { id: customerId },
+      select: { id: true, isActive: true, firstName: true, lastName: true }
+    });
+    if (!customer) {
+      throw new AppError('Customer not found', 404, ERROR_CODES.CUSTOMER_NOT_FOUND);
+    }
+    if (!customer.isActive) {
+      throw new AppError('Account is disabled', 403, ERROR_CODES.ACCOUNT_DISABLED);
+    }
+    if (!customer.firstName || !customer.lastName) {
+      throw new AppError('CUSTOMER_PROFILE_INCOMPLETE', {
+        message: 'First name and last name are required to book an appointment',
+      });
+    }
+
+    const ban = await this.prisma.businessBan.findUnique({
+      where: { userId_businessId: { userId: customerId, businessId: data.businessId } }
+    });
+    if (ban?.isActive && (!ban.bannedUntil || ban.bannedUntil > new Date())) {
+      throw new AppError('Booking blocked: customer is banned from this business', 403, ERROR_CODES.ACCESS_DENIED);
+    }
+
+    if (data.staffId) {
+      const staff = await this.prisma.businessStaff.findUnique({ where: { id: data.staffId } });
+      if (!staff || staff.businessId !== data.businessId) {
+        throw new AppError('Staff member does not belong to this business', 400, ERROR_CODES.STAFF_NOT_FOUND);
+      }
+      if (!staff.isActive) {
+        throw new AppError('Staff member is not active', 400, ERROR_CODES.STAFF_NOT_AVAILABLE);
+      }
+    }
+
+    // Validate the window first so an entirely unbookable series is never persisted
+    const preview = await this.previewSeries(userId, data);
+    if (preview.occurrences.length === 0) {
+      throw new AppError(
+        'None of the series dates are available',
+        409,
+        ERROR_CODES.APPOINTMENT_SERIES_NO_OCCURRENCES,
+        true,
+        { conflicts: preview.conflicts.length }
+      );
+    }
+
+    const timezone = await this.getBusinessTimezone(data.businessId);
+    const series = await this.appointmentSeriesRepository.create({
+      id: `ser_${randomUUID()}`,
+      businessId: data.businessId,
+      serviceId: data.serviceId,
+      staffId: data.staffId,
+      customerId,
+      rrule: formatRecurrenceRule(rule),
+      startDate: createDateTimeInTimezone(data.startDate, '00:00', timezone),
+      startTime: data.startTime,
+      customerNotes: data.customerNotes,
+      createdBy: userId
+    });
+
+    const { occurrences, conflicts } = await this.materializeSeries(series, service);
+    const refreshed = await this.appointmentSeriesRepository.findById(series.id);
+
+    logger.info(`Appointment series ${series.id} created with ${occurrences.length} occurrences (${conflicts.length} conflicts)`);
+    return { series: refreshed!, occurrences, conflicts };
+  }
+
+  async getSeries(userId: string, seriesId: string): Promise<AppointmentSeriesData> {
+    const series = await this.getSeriesOrThrow(seriesId);
+    if (series.customerId !== userId) {
+      await this.appointmentService.assertBusinessAppointmentAccess(userId, series.businessId, PermissionName.VIEW_ALL_APPOINTMENTS, PermissionName.VIEW_OWN_APPOINTMENTS);
+    }
+
+    const appointments = await this.appointmentRepository.findBySeriesId(seriesId);
+    return { ...series, appointments };
+  }
+
+  /**
+   * Moves occurrences to a new time of day and/or staff member.
+   *  - THIS: only the given occurrence
+   *  - THIS_AND_FOLLOWING: the series is split at the given occurrence; the tail
+   *    becomes a new series carrying the new settings
+   *  - ALL: every upcoming occurrence, and the series itself
+   * Occurrences that would collide are left untouched and reported as conflicts.
+   */
+  async updateSeries(
+    userId: string,
+    seriesId: string,
+    data: UpdateAppointmentSeriesRequest
+  ): Promise<AppointmentSeriesResult> {
+    let series = await this.getActiveSeriesOrThrow(seriesId);
+    await this.appointmentService.assertBusinessAppointmentAccess(userId, series.businessId, PermissionName.EDIT_ALL_APPOINTMENTS, PermissionName.EDIT_OWN_APPOINTMENTS);
+
+    if (data.staffId && data.staffId !== series.staffId) {
+      const staff = await this.prisma.businessStaff.findUnique({ where: { id: data.staffId } });
+      if (!staff || staff.businessId !== series.businessId || !staff.isActive) {
+        throw new AppError('Staff member does not belong to this business', 400, ERROR_CODES.STAFF_NOT_FOUND);
+      }
+    }
+
+    const timezone = await this.getBusinessTimezone(series.businessId);
+    let targets: AppointmentData[];
+    if (data.scope === 'ALL') {
+      targets = await this.appointmentRepository.findBySeriesId(seriesId, new Date());
+      series = await this.appointmentSeriesRepository.update(seriesId, {
+        ...(data.startTime ? { startTime: data.startTime } : {}),
+        ...(data.staffId ? { staffId: data.staffId } : {}),
+        ...(data.customerNotes !== undefined ? { customerNotes: data.customerNotes } : {})
+      });
+    } else {
+      const anchor = await this.getOccurrenceOrThrow(series, data.appointmentId);
+      if (data.scope === 'THIS') {
+        targets = [anchor];
+      } else {
+        targets = await this.appointmentRepository.findBySeriesId(seriesId, anchor.startTime);
+        series = await this.splitSeries(series, anchor, timezone, {
+          startTime: data.startTime,
+          staffId: data.staffId,
+          customerNotes: data.customerNotes
+        });
+      }
+    }
+
+    const occurrences: AppointmentSeriesResult['occurrences'] = [];
+    const conflicts: SeriesOccurrenceConflict[] = [];
+
+    for (const appointment of targets.filter((apt) => ACTIVE_APPOINTMENT_STATUSES.includes(apt.status))) {
+      const date = formatDateInTimezone(appointment.startTime, timezone);
+      const slot: OccurrenceSlot = {
+        date,
+        startTime: data.startTime || formatTimeInTimezone(appointment.startTime, timezone),
+        serviceId: appointment.serviceId,
+        staffId: data.staffId || appointment.staffId,
+        duration: appointment.duration,
+        excludeAppointmentId: appointment.id
+      };
+
+      const conflict = await this.checkOccurrence(series.businessId, timezone, slot);
+      if (conflict) {
+        conflicts.push(conflict);
+        continue;
+      }
+
+      const startDateTime = createDateTimeInTimezone(date, slot.startTime, timezone);
+      const moved = startDateTime.getTime() !== appointment.startTime.getTime() || slot.staffId !== appointment.staffId;
+      try {
+        await this.prisma.appointment.update({
+          where: { id: appointment.id },
+          data: {
+            startTime: startDateTime,
+            endTime: new Date(startDateTime.getTime() + appointment.duration * 60000),
+            staffId: slot.staffId || null,
+            ...(data.customerNotes !== undefined ? { customerNotes: data.customerNotes } : {}),
+            // A moved occurrence must get a fresh reminder for its new time
+            ...(moved ? { reminderSent: false, reminderSentAt: null } : {})
+          }
+        });
+        occurrences.push({ date, startTime: slot.startTime, appointmentId: appointment.id });
+      } catch (e: unknown) {
+        if (!isOverlapConstraintError(e)) throw e;
+        conflicts.push({ date, startTime: slot.startTime, reason: 'TIME_CONFLICT' });
+      }
+    }
+
+    return { series, occurrences, conflicts };
+  }
+
+  /**
+   * Cancels occurrences. The first affected occurrence goes through the regular
+   * cancelAppointment flow (cancellation policy, customer strikes, notifications);
+   * the remaining ones are cancelled in bulk so the customer receives one message
+   * instead of one per week.
+   */
+  async cancelSeries(
+    userId: string,
+    seriesId: string,
+    data: CancelAppointmentSeriesRequest
+  ): Promise<AppointmentSeriesData> {
+    const series = await this.getActiveSeriesOrThrow(seriesId);
+    const isCustomer = series.customerId === userId;
+    if (!isCustomer) {
+      await this.appointmentService.assertBusinessAppointmentAccess(userId, series.businessId, PermissionName.CANCEL_ALL_APPOINTMENTS, PermissionName.CANCEL_OWN_APPOINTMENTS);
+    }
+
+    if (data.scope === 'THIS') {
+      const anchor = await this.getOccurrenceOrThrow(series, data.appointmentId);
+      await this.appointmentService.cancelAppointment(userId, anchor.id, data.reason);
+      return this.getSeries(userId, seriesId);
+    }
+
+    const timezone = await this.getBusinessTimezone(series.businessId);
+    let from = new Date();
+    let anchorDate: string | undefined;
+    if (data.scope === 'THIS_AND_FOLLOWING') {
+      const anchor = await this.getOccurrenceOrThrow(series, data.appointmentId);
+      from = anchor.startTime;
+      anchorDate = formatDateInTimezone(anchor.startTime, timezone);
+    }
+
+    const upcoming = (await this.appointmentRepository.findBySeriesId(seriesId, from))
+      .filter((apt) => ACTIVE_APPOINTMENT_STATUSES.includes(apt.status));
+    if (upcoming.length > 0) {
+      await this.appointmentService.cancelAppointment(userId, upcoming[0].id, data.reason);
+      const cancelledBy = isCustomer ? 'CUSTOMER' as const : 'BUSINESS' as const;
+      const cancelled = await this.appointmentRepository.cancelSeriesOccurrences(
+        seriesId,
+        from,
+        data.reason,
+        cancelledBy
+      );
+      await this.appointmentService.recordStatusChanges(
+        cancelled,
+        { status: AppointmentStatus.CANCELED, cancelReason: data.reason, cancelledBy },
+        { channel: isCustomer ? 'CUSTOMER_APP' : 'STAFF_PANEL', actorId: userId, reason: data.reason }
+      );
+      await this.appointmentService.notifyAppointmentsCancelled(cancelled, cancelledBy);
+    }
+
+    const cancelsWholeSeries =
+      data.scope === 'ALL' || anchorDate === formatDateInTimezone(series.startDate, timezone);
+    if (cancelsWholeSeries) {
+      await this.appointmentSeriesRepository.update(seriesId, { status: AppointmentSeriesStatus.CANCELED });
+    } else {
+      const rule = endRuleBefore(parseRecurrenceRule(series.rrule), anchorDate!);
+      await this.appointmentSeriesRepository.update(seriesId, {
+        rrule: formatRecurrenceRule(rule),
+        status: AppointmentSeriesStatus.ENDED
+      });
+    }
+
+    return this.getSeries(userId, seriesId);
+  }
+
+  /**
+   * Rolls the materialisation window of every active series forward. Run daily by
+   * MaterializeAppointmentSeriesJob; conflicts are logged and skipped.
+   */
+  async materializeDueSeries(): Promise<{ processed: number; created: number; conflicts: number }> {
+    // Each series is rolled to local midnight SERIES_MATERIALIZATION_DAYS ahead in its
+    // business' timezone, which is always later than this cut-off once it is up to date
+    const horizon = new Date(Date.now() + (SERIES_MATERIALIZATION_DAYS - 1) * 24 * 60 * 60 * 1000);
+    const due = await this.appointmentSeriesRepository.findNeedingMaterialization(horizon);
+
+    let created = 0;
+    let conflicts = 0;
+    for (const series of due) {
+      try {
+        const service = await this.serviceRepository.findById(series.serviceId);
+        if (!service || !service.isActive) {
+          await this.appointmentSeriesRepository.update(series.id, { status: AppointmentSeriesStatus.ENDED });
+          continue;
+        }
+        const result = await this.materializeSeries(series, service);
+        created += result.occurrences.length;
+        conflicts += result.conflicts.length;
+        if (result.conflicts.length > 0) {
+          logger.warn(`Appointment series ${series.id}: ${result.conflicts.length} occurrences skipped`, {
+            conflicts: result.conflicts
+          });
+        }
+      } catch (error) {
+        logger.error(`Failed to materialize appointment series ${series.id}:`, error);
+      }
+    }
+
+    return { processed: due.length, created, conflicts };
+  }
+
+  // ===== helpers =====
+
+  private horizonEnd(timezone: string): string {
+    return addDays(formatDateInTimezone(new Date(), timezone), SERIES_MATERIALIZATION_DAYS);
+  }
+
+  private async getBusinessTimezone(businessId: string): Promise<string> {
+    const business = await this.businessRepository.findById(businessId);
+    return resolveTimezone(business?.timezone);
+  }
+
+  /**
+   * Books the occurrences between the series' materialisedUntil and the horizon.
+   * Re-expanding from startDate keeps COUNT stable, so already written (or
+   * deliberately cancelled) dates are never recreated.
+   */
+  private async materializeSeries(
+    series: AppointmentSeriesData,
+    service: ServiceData
+  ): Promise<Omit<AppointmentSeriesResult, 'series'>> {
+    const rule = parseRecurrenceRule(series.rrule);
+    const timezone = await this.getBusinessTimezone(series.businessId);
+    const horizonEnd = this.horizonEnd(timezone);
+    const alreadyUntil = series.materializedUntil ? formatDateInTimezone(series.materializedUntil, timezone) : undefined;
+    // Open-ended series keep rolling forward; only COUNT/UNTIL bound the total
+    const allDates = expandOccurrences(rule, formatDateInTimezone(series.startDate, timezone), {
+      horizonEnd,
+      maxOccurrences: rule.count ?? Number.MAX_SAFE_INTEGER
+    });
+    const dates = allDates.filter((date) => !alreadyUntil || date > alreadyUntil);
+
+    const occurrences: AppointmentSeriesResult['occurrences'] = [];
+    const conflicts: SeriesOccurrenceConflict[] = [];
+
+    for (const date of dates) {
+      const slot: OccurrenceSlot = {
+        date,
+        startTime: series.startTime,
+        serviceId: series.serviceId,
+        staffId: series.staffId,
+        duration: service.duration
+      };
+      const conflict = await this.checkOccurrence(series.businessId, timezone, slot);
+      if (conflict) {
+        conflicts.push(conflict);
+        continue;
+      }
+
+      const startDateTime = createDateTimeInTimezone(date, series.startTime, timezone);
+      const appointmentId = `apt_${randomUUID()}`;
+      try {
+        await this.prisma.appointment.create({
+          data: {
+            id: appointmentId,
+            businessId: series.businessId,
+            serviceId: series.serviceId,
+            staffId: series.staffId,
+            customerId: series.customerId,
+            seriesId: series.id,
+            date: createCalendarDate(date),
+            startTime: startDateTime,
+            endTime: new Date(startDateTime.getTime() + service.duration * 60000),
+            duration: service.duration,
+            // Standing bookings are set up by the business, so they skip approval
+            status: AppointmentStatus.CONFIRMED,
+            price: service.price,
+            currency: service.currency,
+            customerNotes: series.customerNotes,
+            bookedAt: new Date(),
+            reminderSent: false
+          }
+        });
+        occurrences.push({ date, startTime: series.startTime, appointmentId });
+      } catch (e: unknown) {
+        if (!isOverlapConstraintError(e)) throw e;
+        conflicts.push({ date, startTime: series.startTime, reason: 'TIME_CONFLICT' });
+      }
+    }
+
+    if (occurrences.length > 0) {
+      await this.usageService.recordAppointmentUsage(series.businessId, occurrences.length);
+    }
+
+    // Nothing left to generate once the rule stops before the horizon
+    const ruleExhausted =
+      (!!rule.count && allDates.length >= rule.count) || (!!rule.until && rule.until <= horizonEnd);
+    await this.appointmentSeriesRepository.update(series.id, {
+      materializedUntil: createDateTimeInTimezone(horizonEnd, '00:00', timezone),
+      ...(ruleExhausted ? { status: AppointmentSeriesStatus.ENDED } : {})
+    });
+
+    return { occurrences, conflicts };
+  }
+
+  /**
+   * Checks one occurrence against closures, special-day overrides, working hours,
+   * the staff member's leave and outside-calendar busy time, and existing bookings.
+   * Returns null when the slot can be booked.
+   */
+  private async checkOccurrence(
+    businessId: string,
+    timezone: string,
+    slot: OccurrenceSlot
+  ): Promise<SeriesOccurrenceConflict | null> {
+    const conflict = (reason: SeriesConflictReason, detail?: string): SeriesOccurrenceConflict => ({
+      date: slot.date,
+      startTime: slot.startTime,
+      reason,
+      ...(detail ? { detail } : {})
+    });
+
+    const startDateTime = createDateTimeInTimezone(slot.date, slot.startTime, timezone);
+    const endDateTime = new Date(startDateTime.getTime() + slot.duration * 60000);
+    if (startDateTime <= new Date()) {
+      return conflict('PAST_DATE');
+    }
+
+    const { isClosed, closure } = await this.businessClosureRepository.isBusinessClosed(
+      businessId,
+      startDateTime
+    );
+    if (isClosed) {
+      return conflict('BUSINESS_CLOSED', closure?.reason || undefined);
+    }
+
+    const startMinutes = toMinutes(slot.startTime);
+    const endMinutes = startMinutes + slot.duration;
+    const fitsWindow = (open: string, close: string) =>
+      startMinutes >= toMinutes(open) && endMinutes <= toMinutes(close);
+
+    const override = await this.businessRepository.findBusinessHoursOverride(businessId, slot.date);
+    if (override && !override.isOpen) {
+      return conflict('SPECIAL_DAY_CLOSED', override.reason || undefined);
+    }
+
+    if (override?.openTime && override.closeTime) {
+      if (!fitsWindow(override.openTime, override.closeTime)) {
+        return conflict('OUTSIDE_SPECIAL_HOURS', `${override.openTime}-${override.closeTime}`);
+      }
+    } else {
+      const dayOfWeek = new Date(`${slot.date}T00:00:00Z`).getUTCDay();
+      const workingHours = await this.appointmentService.findWorkingHoursForDay(businessId, dayOfWeek, slot.staffId);
+      if (!workingHours.some((wh) => fitsWindow(wh.startTime, wh.endTime))) {
+        return conflict('OUTSIDE_WORKING_HOURS');
+      }
+    }
+
+    const staffBlock = await this.appointmentService.findStaffBlock(slot.staffId, startDateTime, endDateTime);
+    if (staffBlock) {
+      return conflict(staffBlock.reason, staffBlock.until.toISOString());
+    }
+
+    const overlapping = await this.appointmentRepository.findConflictingAppointments(
+      businessId,
+      createCalendarDate(slot.date),
+      startDateTime,
+      endDateTime,
+      slot.staffId,
+      slot.excludeAppointmentId
+    );
+    if (overlapping.length > 0) {
+      return conflict('TIME_CONFLICT');
+    }
+
+    const classConflict = await this.appointmentService.findClassConflict(businessId, startDateTime, endDateTime, slot.staffId);
+    if (classConflict) {
+      return conflict('TIME_CONFLICT', classConflict.id);
+    }
+
+    const shortage = await this.appointmentService.findResourceConflict(
+      businessId,
+      slot.serviceId,
+      startDateTime,
+      endDateTime,
+      { excludeAppointmentIds: slot.excludeAppointmentId ? [slot.excludeAppointmentId] : [] }
+    );
+    if (shortage) {
+      return conflict('RESOURCE_UNAVAILABLE', shortage.resourceId);
+    }
+
+    return null;
+  }
+
+  /**
+   * Ends `series` the day before `anchor` and moves the anchor and every later
+   * occurrence onto a new series that carries the changed settings.
+   */
+  private async splitSeries(
+    series: AppointmentSeriesData,
+    anchor: AppointmentData,
+    timezone: string,
+    changes: { startTime?: string; staffId?: string; customerNotes?: string }
+  ): Promise<AppointmentSeriesData> {
+    const anchorDate = formatDateInTimezone(anchor.startTime, timezone);
+    const seriesStart = formatDateInTimezone(series.startDate, timezone);
+    if (anchorDate === seriesStart) {
+      // Splitting at the first occurrence is the same as editing the whole series
+      return this.appointmentSeriesRepository.update(series.id, {
+        ...(changes.startTime ? { startTime: changes.startTime } : {}),
+        ...(changes.staffId ? { staffId: changes.staffId } : {}),
+        ...(changes.customerNotes !== undefined ? { customerNotes: changes.customerNotes } : {})
+      });
+    }
+
+    const rule = parseRecurrenceRule(series.rrule);
+    const tailRule = { ...rule };
+    if (rule.count) {
+      const before = expandOccurrences(rule, seriesStart).filter((date) => date < anchorDate).length;
+      tailRule.count = Math.max(1, rule.count - before);
+    }
+
+    const tailId = await this.prisma.$transaction(async (tx) => {
+      await tx.appointmentSeries.update({
+        where: { id: series.id },
+        data: {
+          rrule: formatRecurrenceRule(endRuleBefore(rule, anchorDate)),
+          status: AppointmentSeriesStatus.ENDED
+        }
+      });
+
+      const tail = await tx.appointmentSeries.create({
+        data: {
+          id: `ser_${randomUUID()}`,
+          businessId: series.businessId,
+          serviceId: series.serviceId,
+          staffId: changes.staffId || series.staffId,
+          customerId: series.customerId,
+          rrule: formatRecurrenceRule(tailRule),
+          startDate: createDateTimeInTimezone(anchorDate, '00:00', timezone),
+          startTime: changes.startTime || series.startTime,
+          status: series.status,
+          customerNotes: changes.customerNotes !== undefined ? changes.customerNotes : series.customerNotes,
+          createdBy: series.createdBy,
+          materializedUntil: series.materializedUntil
+        }
+      });
+
+      await tx.appointment.updateMany({
+        where: { seriesId: series.id, startTime: { gte: anchor.startTime } },
+        data: { seriesId: tail.id }
+      });
+
+      return tail.id;
+    });
+
+    return this.getSeriesOrThrow(tailId);
+  }
+
+  private async getBookableService(businessId: string, serviceId: string): Promise<ServiceData> {
+    const service = await this.serviceRepository.findById(serviceId);
+    if (!service || !service.isActive || service.businessId !== businessId) {
+      throw new AppError('Service not found or inactive', 400, ERROR_CODES.APPOINTMENT_SERVICE_UNAVAILABLE);
+    }
+    if (service.isGroupSession) {
+      throw new AppError('APPOINTMENT_CLASS_BOOKING_REQUIRED', {
+        message: 'This service is booked per seat in a scheduled class',
+        params: { serviceId },
+      });
+    }
+    return service;
+  }
+
+  private async getSeriesOrThrow(seriesId: string): Promise<AppointmentSeriesData> {
+    const series = await this.appointmentSeriesRepository.findById(seriesId);
+    if (!series) {
+      throw new AppError('APPOINTMENT_SERIES_NOT_FOUND', { message: 'Appointment series not found' });
+    }
+    return series;
+  }
+
+  private async getActiveSeriesOrThrow(seriesId: string): Promise<AppointmentSeriesData> {
+    const series = await this.getSeriesOrThrow(seriesId);
+    if (series.status === AppointmentSeriesStatus.CANCELED) {
+      throw new AppError('APPOINTMENT_SERIES_NOT_ACTIVE', { message: 'This appointment series is no longer active' });
+    }
+    return series;
+  }
+
+  private async getOccurrenceOrThrow(
+    series: AppointmentSeriesData,
+    appointmentId?: string
+  ): Promise<AppointmentData> {
+    const appointment = appointmentId ? await this.appointmentRepository.findById(appointmentId) : null;
+    if (!appointment || appointment.seriesId !== series.id) {
+      throw new AppError('Appointment is not part of this series', 404, ERROR_CODES.APPOINTMENT_NOT_FOUND);
+    }
+    return appointment;
+  }
+}
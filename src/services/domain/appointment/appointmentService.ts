@@ -2,43 +2,110 @@ import { randomUUID } from 'crypto';
 import {
   AppointmentData,
   AppointmentSearchFilters,
+  ApprovalRule,
   AppointmentStatus,
   AppointmentWithDetails,
+  BookingReleaseSchedule,
   CreateAppointmentRequest,
+  ServiceData,
   UpdateAppointmentRequest
 } from '../../../types/business';
 // Removed DTO imports - keeping service layer focused on business logic
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { RepositoryContainer } from '../../../repositories';
 import { AppointmentRepository } from '../../../repositories/appointmentRepository';
+import { AppointmentStatusSnapshot, AppointmentStatusUpdate } from '../../../repositories/appointmentStatusChangeRepository';
 import { BusinessClosureRepository } from '../../../repositories/businessClosureRepository';
 import { BusinessRepository } from '../../../repositories/businessRepository';
 import { ServiceRepository } from '../../../repositories/serviceRepository';
 import { UserBehaviorRepository } from '../../../repositories/userBehaviorRepository';
 import { ERROR_CODES } from '../../../constants/errorCodes';
-import { ACTIVE_APPOINTMENT_STATUSES } from '../../../constants/appointmentStatus';
+import { ACTIVE_APPOINTMENT_STATUSES, countTowardDailyLimit } from '../../../constants/appointmentStatus';
 import { PermissionName } from '../../../types/auth';
 import { AppError } from '../../../types/responseTypes';
 import { PolicyEnforcementContext } from '../../../types/cancellationPolicy';
-import { BusinessSettings, ReservationSettings } from '../../../types/reservationSettings';
+import {
+  AppointmentBundleData,
+  AppointmentChangeActor,
+  AppointmentRescheduleHistory,
+  AppointmentTimeline,
+  AppointmentTimelineEntry,
+  CreateAppointmentBundleRequest,
+  CustomerRescheduleRequest,
+  PublicAvailableSlot,
+  PublicAvailableSlotsResult,
+  BookClassSeatRequest,
+  ClassRosterEntry,
+  ClassSessionData,
+  RescheduleAppointmentBundleRequest,
+  SlotHold
+} from '../../../types/appointment';
+import { BusinessSettings } from '../../../types/reservationSettings';
 import logger from "../../../utils/Logger/logger";
-import { createDateTimeInIstanbul, formatDateTimeForAPI, getCurrentTimeInIstanbul } from '../../../utils/timezoneHelper';
+import {
+  createCalendarDate,
+  createDateTimeInTimezone,
+  formatDateInTimezone,
+  formatDateTimeForAPI,
+  formatTimeInTimezone,
+  getCalendarDaysBetween,
+  getDayBoundsInTimezone,
+  isValidDateString,
+  resolveTimezone
+} from '../../../utils/timezoneHelper';
 import { BusinessService } from '../business';
 import { CancellationPolicyService } from '../business/cancellationPolicyService';
 import { NotificationService } from '../notification';
 import { UnifiedNotificationGateway } from '../notification/unifiedNotificationGateway';
 import { RBACService } from '../rbac';
 import { UsageService } from '../usage';
+import { applyClosures, BusinessDay, openingWindow, resolveBusinessDay, slotStartTimes } from './businessDay';
+import {
+  BookingWindow,
+  BookingWindowService,
+  bookableFrom,
+  checkBookingWindow,
+  earliestBookableStart,
+  resolveBookingWindow
+} from './bookingWindow';
+import { bundlePlanFits, BundleLegPlan, chainBundleLegs, intervalsOverlap, staffKey, TimeInterval } from './bundleScheduling';
+import { findResourceShortage, toResourceBookings } from './resourceCapacity';
+import { ResourceShortage } from '../../../types/resource';
+import { SlotHoldService } from './slotHoldService';
+import { calculateDepositAmount, DEPOSIT_PAYMENT_WINDOW_MINUTES } from './depositRules';
+import { resolveCheckInPolicy } from './checkInRules';
+import { findApprovalRule, resolveApprovalPolicy } from './approvalRules';
+import { applyStaffOverride } from '../offering/staffOverrides';
+import { hasFirstVisitRule, quotePrice, roundPrice } from '../offering/dynamicPricing';
+import { isServicePriceVisible } from '../offering/priceVisibility';
+import { resolveIntakeAnswers } from '../offering/intakeFormRules';
+import { DepositSettlementReason } from '../../../types/deposit';
+import { CustomerPackageData } from '../../../types/sessionPackage';
 
 const OVERLAP_CONSTRAINT_NAME = 'appointments_no_overlap_per_staff';
 
+/** Statuses a customer may still move to another time */
+const RESCHEDULABLE_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.PENDING,
+  AppointmentStatus.PENDING_APPROVAL,
+  AppointmentStatus.CONFIRMED
+];
+
+const formatRescheduleDate = (date: Date) =>
+  date.toLocaleDateString('tr-TR', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'Europe/Istanbul' });
+const formatRescheduleTime = (date: Date) =>
+  date.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/Istanbul' });
+
+/** An appointment before a transition; legs of a bundle carry its id */
+type BundledStatusSnapshot = AppointmentStatusSnapshot & { bundleId?: string | null };
+
 /**
  * Translates the DB-level exclusion constraint violation (double-booking) into a
  * clean, localizable 409 so every write path (create, reschedule, update) returns
  * the same APPOINTMENT_TIME_CONFLICT code instead of leaking a raw Prisma error.
  * If the error is unrelated, it is rethrown unchanged.
  */
-function rethrowOnOverlapConflict(e: unknown): never {
+export function rethrowOnOverlapConflict(e: unknown): never {
   const message = String((e as { message?: unknown })?.message || '');
   const cause = String((e as { meta?: { cause?: unknown } })?.meta?.cause || '');
   if (message.includes(OVERLAP_CONSTRAINT_NAME) || cause.includes(OVERLAP_CONSTRAINT_NAME)) {
@@ -51,7 +118,26 @@ function rethrowOnOverlapConflict(e: unknown): never {
   throw e;
 }
 
+export type SlotReleasedListener = (appointment: AppointmentData) => Promise<void>;
+export type AppointmentEndedListener = (appointment: AppointmentData, reason: DepositSettlementReason) => Promise<void>;
+export type AppointmentCompletedListener = (appointment: AppointmentData) => Promise<void>;
+
+/** Time held for a customer (waitlist offer or checkout hold) that is not booked yet. */
+type HeldRange = TimeInterval & { staffId?: string; serviceId?: string; customerId?: string };
+
+interface ResourceCheckOptions {
+  /** Re-check under resource locks right before writing */
+  tx?: Prisma.TransactionClient;
+  excludeAppointmentIds?: string[];
+  /** Held slots of other customers; loaded only when the service needs resources */
+  loadHolds?: () => Promise<HeldRange[]>;
+}
+
 export class AppointmentService {
+  private readonly slotReleasedListeners: SlotReleasedListener[] = [];
+  private readonly appointmentEndedListeners: AppointmentEndedListener[] = [];
+  private readonly appointmentCompletedListeners: AppointmentCompletedListener[] = [];
+
   constructor(
     private readonly appointmentRepository: AppointmentRepository,
     private readonly serviceRepository: ServiceRepository,
@@ -65,11 +151,73 @@ export class AppointmentService {
     private readonly repositories: RepositoryContainer,
     private readonly cancellationPolicyService: CancellationPolicyService,
     private readonly notificationGateway: UnifiedNotificationGateway,
-    private readonly prisma?: PrismaClient
+    private readonly prisma?: PrismaClient,
+    private readonly slotHoldService?: SlotHoldService
   ) {
     // No manual instantiation - all dependencies injected
   }
 
+  /**
+   * Registers a callback run whenever a booked slot becomes free again
+   * (cancellation, rejection, no-show). Used by the waitlist, which depends on
+   * this service and therefore cannot be injected into it.
+   */
+  onSlotReleased(listener: SlotReleasedListener): void {
+    this.slotReleasedListeners.push(listener);
+  }
+
+  // Fire-and-forget: a failing listener must never fail the status change itself
+  private notifySlotReleased(appointment: AppointmentData): void {
+    // A freed class seat does not free the instructor; the seat is simply bookable again
+    if (appointment.classSessionId) {
+      return;
+    }
+    for (const listener of this.slotReleasedListeners) {
+      listener(appointment).catch((error) => {
+        logger.error('Slot released listener failed', { appointmentId: appointment.id, error });
+      });
+    }
+  }
+
+  /**
+   * Registers a callback run when a booked appointment ends without being
+   * completed (cancellation, rejection, no-show). Used by deposits, whose
+   * service depends on this one for access checks, and by session packages.
+   */
+  onAppointmentEnded(listener: AppointmentEndedListener): void {
+    this.appointmentEndedListeners.push(listener);
+  }
+
+  // Awaited so a refund is settled before the response, but a failing listener
+  // must still never fail the status change itself
+  private async notifyAppointmentEnded(appointment: AppointmentData, reason: DepositSettlementReason): Promise<void> {
+    for (const listener of this.appointmentEndedListeners) {
+      try {
+        await listener(appointment, reason);
+      } catch (error) {
+        logger.error('Appointment ended listener failed', { appointmentId: appointment.id, reason, error });
+      }
+    }
+  }
+
+  /**
+   * Registers a callback run when staff complete an appointment. Appointments
+   * completed in bulk once they end are settled by the repository instead.
+   */
+  onAppointmentCompleted(listener: AppointmentCompletedListener): void {
+    this.appointmentCompletedListeners.push(listener);
+  }
+
+  private async notifyAppointmentCompleted(appointment: AppointmentData): Promise<void> {
+    for (const listener of this.appointmentCompletedListeners) {
+      try {
+        await listener(appointment);
+      } catch (error) {
+        logger.error('Appointment completed listener failed', { appointmentId: appointment.id, error });
+      }
+    }
+  }
+
   // Helper method to split permission name into resource and action
   private splitPermissionName(permissionName: string): { resource: string; action: string } {
     const [resource, action] = permissionName.split(':');
@@ -125,8 +273,11 @@ export class AppointmentService {
     appointmentDateTime: Date,
     customerId?: string,
     serviceDuration?: number,
-    serviceMinAdvanceBooking?: number,
-    isBusinessUser?: boolean
+    /** Services being booked; their own lead time, horizon and release override the business's */
+    services: BookingWindowService[] = [],
+    isBusinessUser?: boolean,
+    heldSlotCount = 0,
+    excludeAppointmentIds: string[] = []
   ): Promise<void> {
     const business = await this.businessRepository.findById(businessId);
     if (!business) {
@@ -136,14 +287,13 @@ export class AppointmentService {
     const settings = (business.settings as BusinessSettings) || {};
     const reservationSettings = settings.reservationSettings;
 
-    // Use default values if settings not configured
-    const rules: ReservationSettings = {
-      maxAdvanceBookingDays: reservationSettings?.maxAdvanceBookingDays || 30,
-      minNotificationHours: reservationSettings?.minNotificationHours ?? 0,
-      maxDailyAppointments: reservationSettings?.maxDailyAppointments || 50
-    };
+    const maxDailyAppointments = reservationSettings?.maxDailyAppointments || 50;
 
     const now = new Date();
+    // Calendar days are the business's, not the server's
+    const timezone = resolveTimezone(business.timezone);
+    const today = formatDateInTimezone(now, timezone);
+    const appointmentDay = formatDateInTimezone(appointmentDateTime, timezone);
 
     // 0. Check if appointment is in the past (business users can fill same-day past slots)
     if (!isBusinessUser && appointmentDateTime <= now) {
@@ -155,8 +305,7 @@ export class AppointmentService {
     }
 
     if (isBusinessUser && appointmentDateTime <= now) {
-      const todayStart = new Date(now); todayStart.setHours(0, 0, 0, 0);
-      if (appointmentDateTime < todayStart) {
+      if (appointmentDay < today) {
         throw new AppError(
           'Cannot book appointment on past days',
           400,
@@ -165,61 +314,33 @@ export class AppointmentService {
       }
     }
 
-    // 1. Check maximum advance booking days (skip for business users)
-    const todayMidnight = new Date(now); todayMidnight.setHours(0, 0, 0, 0);
-    const apptMidnight = new Date(appointmentDateTime); apptMidnight.setHours(0, 0, 0, 0);
-    const daysDifference = Math.round((apptMidnight.getTime() - todayMidnight.getTime()) / (1000 * 60 * 60 * 24));
-
-    if (!isBusinessUser && daysDifference > rules.maxAdvanceBookingDays) {
-      throw new AppError(
-        `Cannot book more than ${rules.maxAdvanceBookingDays} days in advance`,
-        400,
-        ERROR_CODES.APPOINTMENT_TOO_FAR_FUTURE,
-        true,
-        { maxDays: rules.maxAdvanceBookingDays }
-      );
-    }
-
-    // 2. Check minimum advance booking (skip for business users)
-    const hoursDifference = (appointmentDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-    const minAdvanceHours = serviceMinAdvanceBooking !== undefined ? serviceMinAdvanceBooking : rules.minNotificationHours;
-
-    if (!isBusinessUser && hoursDifference < minAdvanceHours) {
-      throw new AppError(
-        `Appointment must be booked at least ${minAdvanceHours} hours in advance`,
-        400,
-        ERROR_CODES.APPOINTMENT_INSUFFICIENT_ADVANCE,
-        true,
-        { minHours: minAdvanceHours }
-      );
+    // 1-2. Horizon, release schedule and lead time (skip for business users)
+    if (!isBusinessUser) {
+      this.assertBookingWindow(resolveBookingWindow(services, reservationSettings), appointmentDateTime, timezone);
     }
 
     // 3. Check maximum daily appointments for this specific business
-    const appointmentDateStart = new Date(appointmentDateTime);
-    appointmentDateStart.setHours(0, 0, 0, 0);
-
-    const appointmentDateEnd = new Date(appointmentDateTime);
-    appointmentDateEnd.setHours(23, 59, 59, 999);
+    const { start: appointmentDateStart, end: nextDayStart } = getDayBoundsInTimezone(appointmentDay, timezone);
+    const appointmentDateEnd = new Date(nextDayStart.getTime() - 1);
 
     // Get existing appointments count for this business on this day
-    const existingAppointments = await this.appointmentRepository.findByBusinessAndDateRange(
+    // (an appointment being moved must not count against itself)
+    const existingAppointments = (await this.appointmentRepository.findByBusinessAndDateRange(
       businessId,
       appointmentDateStart,
       appointmentDateEnd
-    );
+    )).filter(apt => !excludeAppointmentIds.includes(apt.id));
 
-    // Filter out cancelled appointments
-    const activeAppointmentsCount = existingAppointments.filter(
-      apt => apt.status !== 'CANCELED'
-    ).length;
+    const activeAppointmentsCount = countTowardDailyLimit(existingAppointments);
 
-    if (activeAppointmentsCount >= rules.maxDailyAppointments) {
+    // Live checkout holds of other customers are promised capacity
+    if (activeAppointmentsCount + heldSlotCount >= maxDailyAppointments) {
       throw new AppError(
-        `Daily appointment limit (${rules.maxDailyAppointments}) reached for this date`,
+        `Daily appointment limit (${maxDailyAppointments}) reached for this date`,
         409,
         ERROR_CODES.APPOINTMENT_DAILY_LIMIT_REACHED,
         true,
-        { maxDaily: rules.maxDailyAppointments }
+        { maxDaily: maxDailyAppointments }
       );
     }
 
@@ -257,11 +378,13 @@ export class AppointmentService {
     appointmentDateTime: Date,
     customerId?: string,
     serviceDuration?: number,
-    isBusinessUser?: boolean
+    services: BookingWindowService[] = [],
+    isBusinessUser?: boolean,
+    heldSlotCount = 0
   ): Promise<void> {
     const business = await tx.business.findUnique({
       where: { id: businessId },
-      select: { id: true, settings: true }
+      select: { id: true, settings: true, timezone: true }
     });
 
     if (!business) {
@@ -271,14 +394,13 @@ export class AppointmentService {
     const settings = (business.settings as BusinessSettings) || {};
     const reservationSettings = settings.reservationSettings;
 
-    // Use default values if settings not configured
-    const rules: ReservationSettings = {
-      maxAdvanceBookingDays: reservationSettings?.maxAdvanceBookingDays || 30,
-      minNotificationHours: reservationSettings?.minNotificationHours ?? 0,
-      maxDailyAppointments: reservationSettings?.maxDailyAppointments || 50
-    };
+    const maxDailyAppointments = reservationSettings?.maxDailyAppointments || 50;
 
     const now = new Date();
+    // Calendar days are the business's, not the server's
+    const timezone = resolveTimezone(business.timezone);
+    const today = formatDateInTimezone(now, timezone);
+    const appointmentDay = formatDateInTimezone(appointmentDateTime, timezone);
 
     // 0. Check if appointment is in the past (business users can fill same-day past slots)
     if (!isBusinessUser && appointmentDateTime <= now) {
@@ -290,8 +412,7 @@ export class AppointmentService {
     }
 
     if (isBusinessUser && appointmentDateTime <= now) {
-      const todayStart = new Date(now); todayStart.setHours(0, 0, 0, 0);
-      if (appointmentDateTime < todayStart) {
+      if (appointmentDay < today) {
         throw new AppError(
           'Cannot book appointment on past days',
           400,
@@ -300,40 +421,14 @@ export class AppointmentService {
       }
     }
 
-    // 1. Check maximum advance booking days (skip for business users)
-    const todayMidnight = new Date(now); todayMidnight.setHours(0, 0, 0, 0);
-    const apptMidnight = new Date(appointmentDateTime); apptMidnight.setHours(0, 0, 0, 0);
-    const daysDifference = Math.round((apptMidnight.getTime() - todayMidnight.getTime()) / (1000 * 60 * 60 * 24));
-
-    if (!isBusinessUser && daysDifference > rules.maxAdvanceBookingDays) {
-      throw new AppError(
-        `Cannot book more than ${rules.maxAdvanceBookingDays} days in advance`,
-        400,
-        ERROR_CODES.APPOINTMENT_TOO_FAR_FUTURE,
-        true,
-        { maxDays: rules.maxAdvanceBookingDays }
-      );
-    }
-
-    // 2. Check minimum notification period (skip for business users)
-    const hoursDifference = (appointmentDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-
-    if (!isBusinessUser && hoursDifference < rules.minNotificationHours) {
-      throw new AppError(
-        `Appointment must be booked at least ${rules.minNotificationHours} hours in advance`,
-        400,
-        ERROR_CODES.APPOINTMENT_INSUFFICIENT_ADVANCE,
-        true,
-        { minHours: rules.minNotificationHours }
-      );
+    // 1-2. Horizon, release schedule and lead time (skip for business users)
+    if (!isBusinessUser) {
+      this.assertBookingWindow(resolveBookingWindow(services, reservationSettings), appointmentDateTime, timezone);
     }
 
     // 3. Check maximum daily appointments for this specific business
-    const appointmentDateStart = new Date(appointmentDateTime);
-    appointmentDateStart.setHours(0, 0, 0, 0);
-
-    const appointmentDateEnd = new Date(appointmentDateTime);
-    appointmentDateEnd.setHours(23, 59, 59, 999);
+    const { start: appointmentDateStart, end: nextDayStart } = getDayBoundsInTimezone(appointmentDay, timezone);
+    const appointmentDateEnd = new Date(nextDayStart.getTime() - 1);
 
     // Get existing appointments count for this business on this day using transaction client
     const existingAppointments = await tx.appointment.findMany({
@@ -346,18 +441,16 @@ export class AppointmentService {
       }
     });
 
-    // Filter out cancelled appointments
-    const activeAppointmentsCount = existingAppointments.filter(
-      (apt: any) => apt.status !== 'CANCELED'
-    ).length;
+    const activeAppointmentsCount = countTowardDailyLimit(existingAppointments);
 
-    if (activeAppointmentsCount >= rules.maxDailyAppointments) {
+    // Live checkout holds of other customers are promised capacity
+    if (activeAppointmentsCount + heldSlotCount >= maxDailyAppointments) {
       throw new AppError(
-        `Daily appointment limit (${rules.maxDailyAppointments}) reached for this date`,
+        `Daily appointment limit (${maxDailyAppointments}) reached for this date`,
         409,
         ERROR_CODES.APPOINTMENT_DAILY_LIMIT_REACHED,
         true,
-        { maxDaily: rules.maxDailyAppointments }
+        { maxDaily: maxDailyAppointments }
       );
     }
 
@@ -388,10 +481,14 @@ export class AppointmentService {
     }
   }
 
-  async createAppointment(
+  /**
+   * Customer, ban, booking-policy and closure checks shared by single bookings and
+   * multi-service bundles. Throws on the first violation.
+   */
+  private async validateBookingPreconditions(
     userId: string,
-    data: CreateAppointmentRequest
-  ): Promise<AppointmentData> {
+    data: { businessId: string; customerId?: string; date: string; startTime: string }
+  ) {
     // Determine the actual customer for this appointment
     const customerId = data.customerId || userId;
     const isBookingForOther = data.customerId && data.customerId !== userId;
@@ -459,13 +556,14 @@ export class AppointmentService {
     }
 
     // Check cancellation policies before allowing appointment booking
-    const appointmentDateTime = createDateTimeInIstanbul(data.date, data.startTime);
+    const timezone = await this.getBusinessTimezone(data.businessId);
+    const appointmentDateTime = createDateTimeInTimezone(data.date, data.startTime, timezone);
     const policyContext: PolicyEnforcementContext = {
       customerId,
       businessId: data.businessId,
       appointmentDate: appointmentDateTime,
       action: 'BOOK',
-      currentTime: getCurrentTimeInIstanbul()
+      currentTime: new Date()
     };
 
     const policyCheck = await this.cancellationPolicyService.checkPolicyViolations(policyContext);
@@ -483,10 +581,20 @@ export class AppointmentService {
       );
     }
 
+    await this.assertBusinessOpenOn(data.businessId, data.date, appointmentDateTime);
+
+    return { customer, customerId, isBookingForOther: !!isBookingForOther, appointmentDateTime, timezone };
+  }
+
+  /**
+   * Rejects a start time inside a BusinessClosure, or a date (in the business's
+   * timezone) with a closed special-day override.
+   */
+  private async assertBusinessOpenOn(businessId: string, date: string, startTime: Date): Promise<void> {
     // Check if business is closed via BusinessClosure
     const { isClosed, closure } = await this.businessClosureRepository.isBusinessClosed(
-      data.businessId,
-      new Date(data.date)
+      businessId,
+      startTime
     );
 
     if (isClosed) {
@@ -501,8 +609,8 @@ export class AppointmentService {
 
     // Check if business has a special-day override that marks this date as closed
     const specialDayOverride = await this.businessRepository.findBusinessHoursOverride(
-      data.businessId,
-      data.date
+      businessId,
+      date
     );
 
     if (specialDayOverride && !specialDayOverride.isOpen) {
@@ -514,31 +622,34 @@ export class AppointmentService {
         ERROR_CODES.BUSINESS_CLOSED
       );
     }
+  }
 
-    // Validate service exists and is active
-    const service = await this.serviceRepository.findById(data.serviceId);
-    if (!service || !service.isActive) {
-      throw new AppError(
-        'Service not found or inactive',
-        400,
-        ERROR_CODES.APPOINTMENT_SERVICE_UNAVAILABLE
-      );
-    }
-
+  /**
+   * Resolves and validates the staff member for a service: the requested one, or the
+   * first active staff assigned to the service. Returns undefined when nobody is
+   * assigned (the appointment is booked unassigned).
+   */
+  private async resolveBookingStaff(
+    businessId: string,
+    serviceId: string,
+    requestedStaffId?: string,
+    /** Booked time; staff on approved time off during it are skipped or refused */
+    window?: { start: Date; end: Date }
+  ): Promise<string | undefined> {
     // If client does not provide staff, auto-pick an active staff assigned to this service.
     // If none is assigned, proceed as unassigned (staffId undefined/null).
-    let staffId = data.staffId;
+    let staffId = requestedStaffId;
     if (!staffId) {
       if (!this.prisma) {
         throw new AppError('Prisma client not available for staff resolution', 500, ERROR_CODES.INTERNAL_SERVER_ERROR);
       }
 
-      const assignedStaff = await this.prisma.serviceStaff.findFirst({
+      const assignedStaff = await this.prisma.serviceStaff.findMany({
         where: {
-          serviceId: data.serviceId,
+          serviceId,
           isActive: true,
           staff: {
-            businessId: data.businessId,
+            businessId,
             isActive: true
           }
         },
@@ -546,8 +657,27 @@ export class AppointmentService {
         orderBy: { createdAt: 'asc' }
       });
 
-      if (assignedStaff) {
-        staffId = assignedStaff.staffId;
+      if (assignedStaff.length > 0) {
+        const candidateIds = assignedStaff.map((assignment) => assignment.staffId);
+        const onTimeOff = window
+          ? new Set((await this.findStaffTimeOff(candidateIds, window.start, window.end)).map((entry) => entry.staffId))
+          : new Set<string>();
+        const externallyBusy = window
+          ? new Set((await this.findStaffExternalBusy(candidateIds, window.start, window.end)).map((entry) => entry.staffId))
+          : new Set<string>();
+        staffId = candidateIds.find((candidateId) => !onTimeOff.has(candidateId) && !externallyBusy.has(candidateId));
+        if (!staffId) {
+          if (onTimeOff.size === 0) {
+            throw new AppError('STAFF_EXTERNALLY_BUSY', {
+              message: 'Every staff member providing this service is busy in another calendar at the selected time',
+              params: { serviceId },
+            });
+          }
+          throw new AppError('STAFF_ON_TIME_OFF', {
+            message: 'Every staff member providing this service is on leave at the selected time',
+            params: { serviceId },
+          });
+        }
       }
     }
 
@@ -567,19 +697,251 @@ export class AppointmentService {
         throw new AppError('Staff member is not active', 400, ERROR_CODES.STAFF_NOT_AVAILABLE);
       }
 
-      if (staffMember.businessId !== data.businessId) {
+      if (staffMember.businessId !== businessId) {
         throw new AppError('Staff member does not belong to this business', 400, ERROR_CODES.STAFF_NOT_FOUND);
       }
+
+      // An auto-picked staff member was already chosen off leave and outside calendars
+      if (window && requestedStaffId) {
+        await this.assertStaffNotBlocked(staffId, window.start, window.end);
+      }
+    }
+
+    return staffId;
+  }
+
+  /** Approved time off of the given staff members intersecting [start, end) */
+  private async findStaffTimeOff(staffIds: string[], start: Date, end: Date, tx?: Prisma.TransactionClient) {
+    return this.repositories.staffTimeOffRepository.findApprovedOverlapping(staffIds, start, end, tx);
+  }
+
+  /** Busy time imported from the staff members' outside calendars intersecting [start, end) */
+  private async findStaffExternalBusy(staffIds: string[], start: Date, end: Date, tx?: Prisma.TransactionClient) {
+    return this.repositories.staffExternalCalendarRepository.findBusyOverlapping(staffIds, start, end, tx);
+  }
+
+  /**
+   * Approved leave or imported outside-calendar busy time of the staff member
+   * during [start, end), or null when they are free
+   */
+  async findStaffBlock(
+    staffId: string | undefined,
+    start: Date,
+    end: Date
+  ): Promise<{ reason: 'STAFF_ON_TIME_OFF' | 'STAFF_EXTERNALLY_BUSY'; until: Date } | null> {
+    if (!staffId) {
+      return null;
+    }
+    const [timeOff] = await this.findStaffTimeOff([staffId], start, end);
+    if (timeOff) {
+      return { reason: 'STAFF_ON_TIME_OFF', until: timeOff.endTime };
+    }
+    const [busy] = await this.findStaffExternalBusy([staffId], start, end);
+    return busy ? { reason: 'STAFF_EXTERNALLY_BUSY', until: busy.endTime } : null;
+  }
+
+  /** Refuses times the staff member is on approved leave or busy in an imported calendar */
+  private async assertStaffNotBlocked(staffId: string | undefined, start: Date, end: Date): Promise<void> {
+    const block = await this.findStaffBlock(staffId, start, end);
+    if (!block) {
+      return;
+    }
+    throw new AppError(block.reason, {
+      message: block.reason === 'STAFF_ON_TIME_OFF'
+        ? 'The staff member is on leave at the selected time'
+        : 'The staff member is busy in another calendar at the selected time',
+      params: { staffId, until: block.until.toISOString() },
+    });
+  }
+
+  /** Transaction-scoped overlap check used right before writing appointment rows. */
+  private async findConflictsInTransaction(
+    tx: Prisma.TransactionClient,
+    businessId: string,
+    date: Date,
+    startDateTime: Date,
+    endDateTime: Date,
+    staffId?: string,
+    excludeAppointmentIds: string[] = []
+  ) {
+    return tx.appointment.findMany({
+      where: {
+        businessId,
+        ...(staffId ? { staffId } : {}),
+        ...(excludeAppointmentIds.length > 0 ? { id: { notIn: excludeAppointmentIds } } : {}),
+        date,
+        status: { in: ACTIVE_APPOINTMENT_STATUSES },
+        OR: [
+          { AND: [{ startTime: { lte: startDateTime } }, { endTime: { gt: startDateTime } }] },
+          { AND: [{ startTime: { lt: endDateTime } }, { endTime: { gte: endDateTime } }] },
+          { AND: [{ startTime: { gte: startDateTime } }, { endTime: { lte: endDateTime } }] }
+        ]
+      }
+    });
+  }
+
+  /** Horizon, release schedule and lead time of the booked services at `start` */
+  private assertBookingWindow(window: BookingWindow, start: Date, timezone: string): void {
+    const violation = checkBookingWindow(window, start, new Date(), timezone);
+    if (violation) {
+      throw new AppError(violation.message, 400, ERROR_CODES[violation.code], true, violation.params);
+    }
+  }
+
+  /**
+   * Active checkout holds of other users for the booking day. When the booking
+   * converts a hold, that hold must still be live and match the requested slot.
+   */
+  private async findOtherCheckoutHolds(
+    userId: string,
+    data: CreateAppointmentRequest,
+    appointmentDateTime: Date
+  ): Promise<SlotHold[]> {
+    if (!this.slotHoldService) {
+      return [];
+    }
+
+    const holds = await this.slotHoldService.getActiveHolds(data.businessId, data.date);
+    if (data.holdId) {
+      const ownHold = holds.find((hold) =>
+        hold.id === data.holdId &&
+        hold.customerId === userId &&
+        hold.serviceId === data.serviceId &&
+        hold.startTime === appointmentDateTime.toISOString()
+      );
+      if (!ownHold) {
+        throw new AppError('Hold not found or expired', 404, ERROR_CODES.SLOT_HOLD_NOT_FOUND);
+      }
+    }
+
+    return holds.filter((hold) => hold.customerId !== userId);
+  }
+
+  /**
+   * Scheduled class the staff member (or, when unassigned, anyone) teaches during
+   * [start, end). Booked seats already count as regular appointments; this also
+   * catches classes nobody has booked yet.
+   */
+  async findClassConflict(
+    businessId: string,
+    start: Date,
+    end: Date,
+    staffId?: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<ClassSessionData | null> {
+    const sessions = await this.repositories.classSessionRepository.findScheduledInRange(businessId, start, end, staffId, tx);
+    return sessions[0] ?? null;
+  }
+
+  private assertNotGroupService(service: ServiceData): void {
+    if (service.isGroupSession) {
+      throw new AppError('APPOINTMENT_CLASS_BOOKING_REQUIRED', {
+        message: 'This service is booked per seat in a scheduled class',
+        params: { serviceId: service.id },
+      });
+    }
+  }
+
+  /**
+   * First room, chair or piece of equipment the service needs that is fully used
+   * during [start, end), or null. Inside a transaction the needed resources are
+   * locked first so two bookings cannot both take the last unit. Held slots of
+   * other customers (`loadHolds`) keep their resources as well.
+   */
+  async findResourceConflict(
+    businessId: string,
+    serviceId: string,
+    start: Date,
+    end: Date,
+    options: ResourceCheckOptions = {}
+  ): Promise<ResourceShortage | null> {
+    const resourceRepository = this.repositories.resourceRepository;
+    const needs = (await resourceRepository.findNeedsForServices([serviceId])).get(serviceId);
+    if (!needs || needs.length === 0) {
+      return null;
+    }
+
+    const resourceIds = needs.map((need) => need.resourceId);
+    if (options.tx) {
+      await resourceRepository.lockResources(options.tx, resourceIds);
+    }
+    const bookings = await resourceRepository.findResourceBookings(
+      businessId,
+      resourceIds,
+      start,
+      end,
+      options.excludeAppointmentIds,
+      options.tx
+    );
+
+    const holds = options.loadHolds ? await options.loadHolds() : [];
+    const overlappingHolds = holds.filter((hold) => hold.serviceId && intervalsOverlap(hold, { start, end }));
+    if (overlappingHolds.length > 0) {
+      const holdNeeds = await resourceRepository.findNeedsForServices([
+        ...new Set(overlappingHolds.map((hold) => hold.serviceId!))
+      ]);
+      bookings.push(...toResourceBookings(overlappingHolds, holdNeeds));
+    }
+
+    return findResourceShortage(needs, bookings, { start, end });
+  }
+
+  private async assertResourcesAvailable(
+    businessId: string,
+    serviceId: string,
+    start: Date,
+    end: Date,
+    options: ResourceCheckOptions & { params?: Record<string, unknown> } = {}
+  ): Promise<void> {
+    const shortage = await this.findResourceConflict(businessId, serviceId, start, end, options);
+    if (shortage) {
+      throw new AppError('APPOINTMENT_RESOURCE_UNAVAILABLE', {
+        message: 'A required resource is fully booked at the selected time',
+        params: { resourceId: shortage.resourceId, capacity: shortage.capacity, ...options.params },
+      });
+    }
+  }
+
+  async createAppointment(
+    userId: string,
+    data: CreateAppointmentRequest
+  ): Promise<AppointmentData> {
+    const { customer, customerId, isBookingForOther, appointmentDateTime, timezone } =
+      await this.validateBookingPreconditions(userId, data);
+
+    // Validate service exists and is active
+    const service = await this.serviceRepository.findById(data.serviceId);
+    if (!service || !service.isActive) {
+      throw new AppError(
+        'Service not found or inactive',
+        400,
+        ERROR_CODES.APPOINTMENT_SERVICE_UNAVAILABLE
+      );
     }
+    this.assertNotGroupService(service);
+
+    const staffId = await this.resolveBookingStaff(data.businessId, data.serviceId, data.staffId, {
+      start: appointmentDateTime,
+      end: new Date(appointmentDateTime.getTime() + service.duration * 60000)
+    });
+    // The staff member's own duration, buffer and price for the service
+    const staffOverride = staffId ? await this.serviceRepository.getStaffOverride(service.id, staffId) : null;
+    const bookedService = applyStaffOverride(service, staffOverride);
+
+    // Check appointment time constraints
+    const now = new Date();
 
-    // Check appointment time constraints - convert to Istanbul timezone
-    const now = getCurrentTimeInIstanbul();
+    // The service's pricing rules for this slot and customer decide the price they pay
+    const firstVisit = await this.isFirstVisit(data.businessId, customerId, [service]);
+    const pricingContext = { start: appointmentDateTime, now, timezone, firstVisit };
+    const pricedService = { ...bookedService, price: quotePrice(bookedService.price, service.pricing, pricingContext).price };
 
     // Debug logging (development only)
     if (process.env.NODE_ENV === 'development') {
       logger.info('🕐 Timezone Debug:', {
         inputDate: data.date,
         inputTime: data.startTime,
+        timezone,
         appointmentDateTime: appointmentDateTime.toISOString(),
         now: now.toISOString(),
         appointmentDateTimeLocal: appointmentDateTime.toString(),
@@ -591,35 +953,25 @@ export class AppointmentService {
       });
     }
 
-    // Validate business-level reservation rules (includes service-level validation)
-    await this.validateBusinessReservationRules(data.businessId, appointmentDateTime, customerId, service.duration, service.minAdvanceBooking, !!isBookingForOther);
+    // Checkout holds of other customers block their time and count toward the daily limit
+    const otherCheckoutHolds = await this.findOtherCheckoutHolds(userId, data, appointmentDateTime);
 
-    // Check service-level maximum advance booking (calendar days, today = 0)
-    const svcTodayMidnight = new Date(now); svcTodayMidnight.setHours(0, 0, 0, 0);
-    const svcApptMidnight = new Date(appointmentDateTime); svcApptMidnight.setHours(0, 0, 0, 0);
-    const daysUntilAppointment = Math.round((svcApptMidnight.getTime() - svcTodayMidnight.getTime()) / (1000 * 60 * 60 * 24));
-    if (daysUntilAppointment > service.maxAdvanceBooking) {
-      throw new AppError(
-        `Service max advance booking of ${service.maxAdvanceBooking} days exceeded`,
-        400,
-        ERROR_CODES.APPOINTMENT_TOO_FAR_FUTURE,
-        true,
-        { maxDays: service.maxAdvanceBooking }
-      );
-    }
+    // Validate business-level reservation rules with the service's own booking window
+    await this.validateBusinessReservationRules(data.businessId, appointmentDateTime, customerId, bookedService.duration, [service], !!isBookingForOther, otherCheckoutHolds.length);
 
-    // Check for staff-specific conflicts
-    const endTime = new Date(appointmentDateTime.getTime() + service.duration * 60000);
-    const appointmentDate = createDateTimeInIstanbul(data.date, '00:00');
+    // Check for staff-specific conflicts; the buffer after the service has to be free as well
+    const endTime = new Date(appointmentDateTime.getTime() + bookedService.duration * 60000);
+    const bufferedEndTime = new Date(endTime.getTime() + bookedService.bufferTime * 60000);
+    const appointmentDate = createCalendarDate(data.date);
     const conflicts = await this.appointmentRepository.findConflictingAppointments(
       data.businessId,
       appointmentDate,
       appointmentDateTime,
-      endTime,
+      bufferedEndTime,
       staffId // Add staffId to check conflicts for specific staff
     );
 
-    if (conflicts.length > 0) {
+    if (conflicts.length > 0 || await this.findClassConflict(data.businessId, appointmentDateTime, endTime, staffId)) {
       throw new AppError(
         'Staff member is not available at the selected time',
         409,
@@ -627,6 +979,78 @@ export class AppointmentService {
       );
     }
 
+    // A slot freed by a cancellation may be on hold for a waitlisted customer
+    const holds = await this.repositories.waitlistRepository.findActiveHolds(
+      data.businessId,
+      appointmentDateTime,
+      endTime,
+      staffId
+    );
+    const heldForSomeoneElse = holds.find((hold) => hold.customerId !== customerId);
+    if (heldForSomeoneElse) {
+      throw new AppError(
+        'This time slot is temporarily held for a waitlisted customer',
+        409,
+        ERROR_CODES.APPOINTMENT_SLOT_HELD,
+        true,
+        { heldUntil: heldForSomeoneElse.expiresAt.toISOString() }
+      );
+    }
+
+    const blockingCheckoutHold = otherCheckoutHolds.find((hold) =>
+      (!hold.staffId || !staffId || hold.staffId === staffId) &&
+      new Date(hold.startTime) < endTime &&
+      new Date(hold.endTime) > appointmentDateTime
+    );
+    if (blockingCheckoutHold) {
+      throw new AppError(
+        'This time slot is temporarily held by another customer',
+        409,
+        ERROR_CODES.APPOINTMENT_SLOT_HELD,
+        true,
+        { heldUntil: blockingCheckoutHold.expiresAt }
+      );
+    }
+
+    // Rooms and equipment are shared by all staff, so check them business-wide
+    await this.assertResourcesAvailable(data.businessId, data.serviceId, appointmentDateTime, endTime, {
+      loadHolds: async () =>
+        (await this.findHeldRanges(data.businessId, data.date, appointmentDateTime, endTime, data.holdId))
+          .filter((range) => range.customerId !== customerId && range.customerId !== userId)
+    });
+
+    // A prepaid package covering the service pays for the visit: the booking holds
+    // one of its credits instead of asking for a deposit
+    const sessionPackage = await this.repositories.sessionPackageRepository.findUsablePackage(
+      customerId,
+      data.businessId,
+      data.serviceId,
+      appointmentDateTime
+    );
+
+    // Customers booking for themselves pay the deposit before the booking is confirmed;
+    // staff booking on a customer's behalf collect it in person
+    const depositAmount = isBookingForOther || sessionPackage ? 0 : calculateDepositAmount(pricedService);
+    const approvalRule = isBookingForOther ? null : await this.resolveApprovalRule(data.businessId, customerId, {
+      start: appointmentDateTime,
+      end: endTime,
+      timezone,
+      price: pricedService.price
+    });
+
+    // Intake answers given with the booking are checked up front; without them the
+    // customer answers the form later from the appointment
+    const intakeForm = data.intakeAnswers
+      ? await this.repositories.intakeFormRepository.findActiveForm(data.serviceId)
+      : null;
+    const intake = intakeForm && data.intakeAnswers
+      ? resolveIntakeAnswers(
+          intakeForm.fields,
+          data.intakeAnswers,
+          await this.repositories.intakeFormRepository.findLatestAnswers(customerId, data.serviceId)
+        )
+      : null;
+
     // CRITICAL: Use transaction to prevent race conditions
     if (!this.prisma) {
       throw new AppError('Prisma client not available for transaction', 500, ERROR_CODES.INTERNAL_SERVER_ERROR);
@@ -645,32 +1069,30 @@ export class AppointmentService {
         }
 
         // CRITICAL: Re-validate business rules within transaction using transaction client
-        await this.validateBusinessReservationRulesInTransaction(tx, data.businessId, appointmentDateTime, customerId, service.duration, !!isBookingForOther);
+        const windowService = { ...service, bookingRelease: service.bookingRelease as BookingReleaseSchedule | null };
+        const booked = applyStaffOverride({ ...service, price: Number(service.price) }, staffOverride);
+        await this.validateBusinessReservationRulesInTransaction(tx, data.businessId, appointmentDateTime, customerId, booked.duration, [windowService], !!isBookingForOther, otherCheckoutHolds.length);
 
-        const startDateTime = createDateTimeInIstanbul(data.date, data.startTime);
-        const endDateTime = new Date(startDateTime.getTime() + service.duration * 60000);
+        const startDateTime = createDateTimeInTimezone(data.date, data.startTime, timezone);
+        const endDateTime = new Date(startDateTime.getTime() + booked.duration * 60000);
 
         // Re-check conflicts IN TRANSACTION to prevent race conditions
-        const conflicting = await tx.appointment.findMany({
-          where: {
-            businessId: data.businessId,
-            ...(staffId ? { staffId } : {}),
-            date: createDateTimeInIstanbul(data.date, '00:00'),
-            status: { in: ACTIVE_APPOINTMENT_STATUSES },
-            OR: [
-              { AND: [{ startTime: { lte: startDateTime } }, { endTime: { gt: startDateTime } }] },
-              { AND: [{ startTime: { lt: endDateTime } }, { endTime: { gte: endDateTime } }] },
-              { AND: [{ startTime: { gte: startDateTime } }, { endTime: { lte: endDateTime } }] }
-            ]
-          }
-        });
-        if (conflicting.length > 0) {
+        const conflicting = await this.findConflictsInTransaction(
+          tx,
+          data.businessId,
+          appointmentDate,
+          startDateTime,
+          new Date(endDateTime.getTime() + booked.bufferTime * 60000),
+          staffId
+        );
+        if (conflicting.length > 0 || await this.findClassConflict(data.businessId, startDateTime, endDateTime, staffId, tx)) {
           throw new AppError(
             'Time slot is taken or staff conflict exists',
             409,
             ERROR_CODES.APPOINTMENT_STAFF_NOT_AVAILABLE
           );
         }
+        await this.assertResourcesAvailable(data.businessId, data.serviceId, startDateTime, endDateTime, { tx });
         const appointmentId = `apt_${randomUUID()}`;
 
         const result = await tx.appointment.create({
@@ -680,23 +1102,63 @@ export class AppointmentService {
             serviceId: data.serviceId,
             staffId,
             customerId,
-            date: createDateTimeInIstanbul(data.date, '00:00'),
+            date: appointmentDate,
             startTime: startDateTime,
             endTime: endDateTime,
-            duration: service.duration,
-            status: await (async () => {
-              if (isBookingForOther) return AppointmentStatus.CONFIRMED;
-              const biz = await tx.business.findUnique({ where: { id: data.businessId }, select: { requireApproval: true } });
-              return biz?.requireApproval ? AppointmentStatus.PENDING_APPROVAL : AppointmentStatus.CONFIRMED;
-            })(),
-            price: service.price,
+            duration: booked.duration,
+            // Approval, if required, is asked for once the deposit is paid
+            status: depositAmount > 0
+              ? AppointmentStatus.PENDING
+              : approvalRule ? AppointmentStatus.PENDING_APPROVAL : AppointmentStatus.CONFIRMED,
+            approvalRule,
+            approvalRequestedAt: approvalRule && depositAmount === 0 ? new Date() : null,
+            price: quotePrice(booked.price, service.pricing, pricingContext).price,
+            listPrice: booked.price,
             currency: service.currency,
             customerNotes: data.customerNotes,
-            bookedAt: getCurrentTimeInIstanbul(),
+            bookedAt: new Date(),
             reminderSent: false
           }
         });
 
+        const deposit = depositAmount > 0
+          ? await this.repositories.appointmentPaymentRepository.create({
+              id: `apay_${randomUUID()}`,
+              appointmentId,
+              businessId: data.businessId,
+              amount: depositAmount,
+              currency: service.currency,
+              status: 'PENDING',
+              paymentMethod: 'card',
+              expiresAt: new Date(Date.now() + DEPOSIT_PAYMENT_WINDOW_MINUTES * 60000)
+            }, tx)
+          : undefined;
+
+        const packageCredit = sessionPackage
+          ? await this.repositories.sessionPackageRepository.takeCredit(sessionPackage.id, {
+              appointmentId,
+              businessId: data.businessId
+            }, tx)
+          : undefined;
+        if (packageCredit === null) {
+          throw new AppError('SESSION_PACKAGE_NO_CREDITS', {
+            message: 'The package has no sessions left',
+            params: { customerPackageId: sessionPackage?.id }
+          });
+        }
+
+        if (intakeForm && intake) {
+          await this.repositories.intakeFormRepository.saveResponse({
+            appointmentId,
+            formId: intakeForm.id,
+            businessId: data.businessId,
+            serviceId: data.serviceId,
+            customerId,
+            answers: intake.answers,
+            reusedFieldIds: intake.reusedFieldIds
+          }, tx);
+        }
+
         // Map the result to AppointmentData format
         return {
           id: result.id,
@@ -720,6 +1182,10 @@ export class AppointmentService {
           cancelReason: result.cancelReason || undefined,
           reminderSent: result.reminderSent,
           reminderSentAt: result.reminderSentAt || undefined,
+          deposit,
+          packageCredit,
+          approvalRule: result.approvalRule || undefined,
+          approvalRequestedAt: result.approvalRequestedAt || undefined,
           createdAt: result.createdAt,
           updatedAt: result.updatedAt
         };
@@ -728,12 +1194,31 @@ export class AppointmentService {
       rethrowOnOverlapConflict(e);
     }
 
+    // The hold has served its purpose; free it so it stops counting against the day
+    await this.slotHoldService?.removeCustomerHolds(data.businessId, data.date, userId);
+
     // Record appointment usage for subscription tracking
     await this.usageService.recordAppointmentUsage(data.businessId);
 
     // Update user behavior for the customer (not the person creating the appointment)
     await this.userBehaviorRepository.createOrUpdate(customerId);
 
+    // Business and customer hear about the booking once the deposit is paid (confirmDepositPaid)
+    if (appointment.deposit) {
+      return appointment;
+    }
+
+    await this.sendNewBookingNotifications(appointment, pricedService, customer);
+
+    return appointment;
+  }
+
+  /** New-booking alert to the business and the confirmation / request-received SMS to the customer */
+  private async sendNewBookingNotifications(
+    appointment: AppointmentData,
+    service: { name: string; duration: number; price: number; currency: string },
+    customer: { id: string; firstName?: string | null; lastName?: string | null; phoneNumber: string }
+  ): Promise<void> {
     // Send notification to business owner/staff about new appointment
     try {
       if (process.env.NODE_ENV === 'development') {
@@ -765,13 +1250,1206 @@ export class AppointmentService {
     } catch (notificationError) {
       logger.error('❌ APPOINTMENT CREATION - Failed to send customer SMS:', notificationError);
     }
-
-    return appointment;
   }
 
-  async getAppointmentById(
-    userId: string,
-    appointmentId: string
+  // ===== MULTI-SERVICE BUNDLES =====
+
+  /**
+   * Books several services back-to-back as one visit. Every leg is a regular
+   * appointment row, so the per-staff overlap constraint guards each of them; all
+   * legs are written in a single transaction and a conflict on any leg rolls back
+   * the whole bundle. Legs a prepaid package covers hold one of its credits like a
+   * single booking; a deposit only secures a single appointment, so a customer
+   * cannot bundle a service that takes one.
+   */
+  async createAppointmentBundle(
+    userId: string,
+    data: CreateAppointmentBundleRequest
+  ): Promise<AppointmentBundleData> {
+    if (!data.items || data.items.length < 2) {
+      throw new AppError('APPOINTMENT_BUNDLE_INVALID', {
+        message: 'A bundle must contain at least two services',
+      });
+    }
+
+    const { customer, customerId, isBookingForOther, appointmentDateTime, timezone } =
+      await this.validateBookingPreconditions(userId, data);
+
+    const legs = await this.resolveBundleLegs(data.businessId, data.items);
+    const plan = chainBundleLegs(
+      appointmentDateTime,
+      legs.map(({ service, staffId }) => ({ serviceId: service.id, staffId, duration: service.duration }))
+    );
+    const totalDuration = legs.reduce((sum, { service }) => sum + service.duration, 0);
+    // Each leg is priced by its own rules at the time it starts
+    const firstVisit = await this.isFirstVisit(data.businessId, customerId, legs.map(({ service }) => service));
+    const now = new Date();
+    const legPrices = plan.map((leg, index) =>
+      quotePrice(legs[index].service.price, legs[index].service.pricing, { start: leg.startTime, now, timezone, firstVisit }).price
+    );
+    const totalPrice = roundPrice(legPrices.reduce((sum, price) => sum + price, 0));
+    const currency = legs[0].service.currency;
+
+    const legPackages = await this.findBundleLegPackages(customerId, data.businessId, plan);
+    if (!isBookingForOther) {
+      const depositLeg = plan.find((leg, index) =>
+        !legPackages[index] && calculateDepositAmount({ ...legs[index].service, price: legPrices[index] }) > 0
+      );
+      if (depositLeg) {
+        throw new AppError('APPOINTMENT_BUNDLE_INVALID', {
+          message: 'Services that take a deposit must be booked on their own',
+          params: { serviceId: depositLeg.serviceId, sequence: depositLeg.sequence }
+        });
+      }
+    }
+
+    // The strictest service booking window applies to the whole visit
+    const legServices = legs.map(({ service }) => service);
+    await this.validateBusinessReservationRules(
+      data.businessId,
+      appointmentDateTime,
+      customerId,
+      totalDuration,
+      legServices,
+      isBookingForOther
+    );
+
+    const appointmentDate = createCalendarDate(data.date);
+    for (const leg of plan) {
+      await this.assertStaffNotBlocked(leg.staffId, leg.startTime, leg.endTime);
+      const conflicts = await this.appointmentRepository.findConflictingAppointments(
+        data.businessId,
+        appointmentDate,
+        leg.startTime,
+        leg.endTime,
+        leg.staffId
+      );
+      if (conflicts.length > 0 || await this.findClassConflict(data.businessId, leg.startTime, leg.endTime, leg.staffId)) {
+        throw new AppError(
+          'Staff member is not available at the selected time',
+          409,
+          ERROR_CODES.APPOINTMENT_STAFF_NOT_AVAILABLE,
+          true,
+          { serviceId: leg.serviceId, sequence: leg.sequence }
+        );
+      }
+      await this.assertResourcesAvailable(data.businessId, leg.serviceId, leg.startTime, leg.endTime, {
+        params: { serviceId: leg.serviceId, sequence: leg.sequence }
+      });
+    }
+
+    const approvalRule = isBookingForOther ? null : await this.resolveApprovalRule(data.businessId, customerId, {
+      start: plan[0].startTime,
+      end: plan[plan.length - 1].endTime,
+      timezone,
+      price: totalPrice
+    });
+
+    if (!this.prisma) {
+      throw new AppError('Prisma client not available for transaction', 500, ERROR_CODES.INTERNAL_SERVER_ERROR);
+    }
+
+    const bundleId = `bnd_${randomUUID()}`;
+    const createdLegs: AppointmentData[] = [];
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await this.validateBusinessReservationRulesInTransaction(
+          tx,
+          data.businessId,
+          appointmentDateTime,
+          customerId,
+          totalDuration,
+          legServices,
+          isBookingForOther
+        );
+
+        for (const leg of plan) {
+          const conflicting = await this.findConflictsInTransaction(
+            tx,
+            data.businessId,
+            appointmentDate,
+            leg.startTime,
+            leg.endTime,
+            leg.staffId
+          );
+          if (conflicting.length > 0 || await this.findClassConflict(data.businessId, leg.startTime, leg.endTime, leg.staffId, tx)) {
+            throw new AppError(
+              'Time slot is taken or staff conflict exists',
+              409,
+              ERROR_CODES.APPOINTMENT_STAFF_NOT_AVAILABLE,
+              true,
+              { serviceId: leg.serviceId, sequence: leg.sequence }
+            );
+          }
+          await this.assertResourcesAvailable(data.businessId, leg.serviceId, leg.startTime, leg.endTime, {
+            tx,
+            params: { serviceId: leg.serviceId, sequence: leg.sequence }
+          });
+        }
+
+        const status = approvalRule ? AppointmentStatus.PENDING_APPROVAL : AppointmentStatus.CONFIRMED;
+        const approvalRequestedAt = approvalRule ? new Date() : null;
+
+        await tx.appointmentBundle.create({
+          data: {
+            id: bundleId,
+            businessId: data.businessId,
+            customerId,
+            date: appointmentDate,
+            startTime: plan[0].startTime,
+            endTime: plan[plan.length - 1].endTime,
+            totalDuration,
+            totalPrice,
+            currency,
+            status,
+            customerNotes: data.customerNotes
+          }
+        });
+
+        for (const [index, leg] of plan.entries()) {
+          const result = await tx.appointment.create({
+            data: {
+              id: `apt_${randomUUID()}`,
+              businessId: data.businessId,
+              serviceId: leg.serviceId,
+              staffId: leg.staffId,
+              customerId,
+              date: appointmentDate,
+              startTime: leg.startTime,
+              endTime: leg.endTime,
+              duration: leg.duration,
+              status,
+              approvalRule,
+              approvalRequestedAt,
+              price: legPrices[index],
+              listPrice: legs[index].service.price,
+              currency: legs[index].service.currency,
+              customerNotes: data.customerNotes,
+              bookedAt: new Date(),
+              reminderSent: false,
+              bundleId,
+              bundleSequence: leg.sequence
+            }
+          });
+
+          const legPackage = legPackages[index];
+          const packageCredit = legPackage
+            ? await this.repositories.sessionPackageRepository.takeCredit(legPackage.id, {
+                appointmentId: result.id,
+                businessId: data.businessId
+              }, tx)
+            : undefined;
+          if (packageCredit === null) {
+            throw new AppError('SESSION_PACKAGE_NO_CREDITS', {
+              message: 'The package has no sessions left',
+              params: { customerPackageId: legPackage?.id }
+            });
+          }
+
+          createdLegs.push({
+            ...result,
+            staffId: result.staffId || undefined,
+            status: result.status as AppointmentStatus,
+            price: Number(result.price),
+            customerNotes: result.customerNotes || undefined,
+            internalNotes: undefined,
+            confirmedAt: undefined,
+            completedAt: undefined,
+            canceledAt: undefined,
+            cancelReason: undefined,
+            reminderSentAt: undefined,
+            bundleId,
+            bundleSequence: leg.sequence,
+            seriesId: undefined,
+            classSessionId: undefined,
+            checkedInAt: undefined,
+            checkInMethod: undefined,
+            actualStartTime: undefined,
+            actualEndTime: undefined,
+            noShowMarkedAt: undefined,
+            noShowSource: undefined,
+            noShowReversedAt: undefined,
+            approvalRule: result.approvalRule || undefined,
+            approvalRequestedAt: result.approvalRequestedAt || undefined,
+            approvalEscalatedAt: undefined,
+            packageCredit
+          });
+        }
+      });
+    } catch (e: unknown) {
+      rethrowOnOverlapConflict(e);
+    }
+
+    // Every leg is an appointment for usage/subscription purposes
+    for (let i = 0; i < createdLegs.length; i++) {
+      await this.usageService.recordAppointmentUsage(data.businessId);
+    }
+    await this.userBehaviorRepository.createOrUpdate(customerId);
+
+    // One notification per visit, not per leg
+    const firstLeg = createdLegs[0];
+    const bundleService = {
+      name: legs.map(({ service }) => service.name).join(' + '),
+      duration: totalDuration,
+      price: totalPrice,
+      currency
+    };
+
+    try {
+      await this.notifyNewAppointment(firstLeg, bundleService);
+    } catch (notificationError) {
+      logger.error('❌ BUNDLE CREATION - Failed to send business owner notification:', notificationError);
+    }
+
+    try {
+      const customerData = {
+        id: customer.id,
+        firstName: customer.firstName ?? null,
+        lastName: customer.lastName ?? null,
+        phoneNumber: customer.phoneNumber
+      };
+
+      if (firstLeg.status === AppointmentStatus.PENDING_APPROVAL) {
+        await this.sendCustomerRequestReceived(firstLeg, bundleService, customerData);
+      } else {
+        await this.sendCustomerBookingConfirmation(firstLeg, bundleService, customerData);
+      }
+    } catch (notificationError) {
+      logger.error('❌ BUNDLE CREATION - Failed to send customer SMS:', notificationError);
+    }
+
+    const bundle = await this.appointmentRepository.findBundleById(bundleId);
+    return bundle!;
+  }
+
+  async getAppointmentBundle(userId: string, bundleId: string): Promise<AppointmentBundleData> {
+    const bundle = await this.appointmentRepository.findBundleById(bundleId);
+    if (!bundle) {
+      throw new AppError('APPOINTMENT_BUNDLE_NOT_FOUND', { message: 'Appointment bundle not found' });
+    }
+
+    if (bundle.customerId !== userId) {
+      await this.assertBusinessAppointmentAccess(userId, bundle.businessId, PermissionName.VIEW_ALL_APPOINTMENTS, PermissionName.VIEW_OWN_APPOINTMENTS);
+    }
+
+    return bundle;
+  }
+
+  /**
+   * Cancels the whole visit at once. Customer self-service policy is evaluated once,
+   * against the start of the first leg.
+   */
+  async cancelAppointmentBundle(
+    userId: string,
+    bundleId: string,
+    reason?: string
+  ): Promise<AppointmentBundleData> {
+    const bundle = await this.appointmentRepository.findBundleById(bundleId);
+    if (!bundle) {
+      throw new AppError('APPOINTMENT_BUNDLE_NOT_FOUND', { message: 'Appointment bundle not found' });
+    }
+
+    const isCustomer = bundle.customerId === userId;
+    const { resource: cancelAllResource, action: cancelAllAction } = this.splitPermissionName(PermissionName.CANCEL_ALL_APPOINTMENTS);
+    const hasGlobalCancel = await this.rbacService.hasPermission(userId, cancelAllResource, cancelAllAction);
+
+    if (!isCustomer && !hasGlobalCancel) {
+      await this.assertBusinessAppointmentAccess(userId, bundle.businessId, PermissionName.CANCEL_ALL_APPOINTMENTS, PermissionName.CANCEL_OWN_APPOINTMENTS);
+    }
+
+    const activeLegs = bundle.appointments.filter((apt) => ACTIVE_APPOINTMENT_STATUSES.includes(apt.status));
+    if (activeLegs.length === 0) {
+      throw new AppError('Appointment bundle has no active appointments', 400, ERROR_CODES.APPOINTMENT_ALREADY_CANCELLED);
+    }
+
+    if (isCustomer && !hasGlobalCancel) {
+      const policyCheck = await this.cancellationPolicyService.checkPolicyViolations({
+        customerId: bundle.customerId,
+        businessId: bundle.businessId,
+        appointmentDate: activeLegs[0].startTime,
+        action: 'CANCEL',
+        currentTime: new Date()
+      });
+      if (!policyCheck.allowed) {
+        const violationMessages = policyCheck.violations
+          .filter((v) => v.isViolation)
+          .map((v) => v.message)
+          .join('; ');
+        throw new AppError(
+          violationMessages || 'Cancellation policy violation',
+          409,
+          ERROR_CODES.APPOINTMENT_CANNOT_CANCEL
+        );
+      }
+    }
+
+    const cancelledBy = isCustomer ? 'CUSTOMER' as const : 'BUSINESS' as const;
+    const cancelledBundle = await this.appointmentRepository.cancelBundle(bundleId, reason, cancelledBy);
+    const actor = this.changeActor(userId, bundle.customerId, reason);
+    for (const leg of activeLegs) {
+      const after = cancelledBundle.appointments.find((apt) => apt.id === leg.id);
+      if (after) {
+        await this.recordStatusChange(leg, after, actor);
+      }
+    }
+
+    // Deposits, package credits and gift cards are settled per leg
+    await this.notifyAppointmentsCancelled(activeLegs, cancelledBy);
+
+    // Behavior tracking and messages are per visit, through its first leg
+    if (isCustomer) {
+      await this.handleCustomerCancellation(userId, activeLegs[0]);
+    }
+
+    await this.sendCancellationNotifications(activeLegs[0], activeLegs[0].id, cancelledBy);
+
+    return cancelledBundle;
+  }
+
+  /**
+   * Moves the whole visit to a new start. The remaining active legs are re-chained
+   * back-to-back with their original staff, so a single leg can never drift away from
+   * the rest of the bundle.
+   */
+  async rescheduleAppointmentBundle(
+    userId: string,
+    bundleId: string,
+    data: RescheduleAppointmentBundleRequest
+  ): Promise<AppointmentBundleData> {
+    const bundle = await this.appointmentRepository.findBundleById(bundleId);
+    if (!bundle) {
+      throw new AppError('APPOINTMENT_BUNDLE_NOT_FOUND', { message: 'Appointment bundle not found' });
+    }
+
+    await this.assertBusinessAppointmentAccess(userId, bundle.businessId, PermissionName.EDIT_ALL_APPOINTMENTS, PermissionName.EDIT_OWN_APPOINTMENTS);
+
+    const activeLegs = bundle.appointments.filter((apt) => ACTIVE_APPOINTMENT_STATUSES.includes(apt.status));
+    if (activeLegs.length === 0) {
+      throw new AppError('Appointment bundle has no active appointments', 400, ERROR_CODES.APPOINTMENT_ALREADY_CANCELLED);
+    }
+
+    const timezone = await this.getBusinessTimezone(bundle.businessId);
+    const newStart = createDateTimeInTimezone(data.date, data.startTime, timezone);
+    await this.assertBusinessOpenOn(bundle.businessId, data.date, newStart);
+
+    const plan = chainBundleLegs(
+      newStart,
+      activeLegs.map((apt) => ({ serviceId: apt.serviceId, staffId: apt.staffId, duration: apt.duration }))
+    );
+    const totalDuration = plan.reduce((sum, leg) => sum + leg.duration, 0);
+    const legIds = activeLegs.map((apt) => apt.id);
+    const legServices = (await Promise.all(activeLegs.map((apt) => this.serviceRepository.findById(apt.serviceId))))
+      .filter((service): service is ServiceData => !!service);
+
+    // Business-side reschedule: the customer-conflict check is skipped because the
+    // bundle's own legs would otherwise collide with themselves.
+    await this.validateBusinessReservationRules(bundle.businessId, newStart, undefined, totalDuration, legServices, true, 0, legIds);
+    // The visit still has to start within the strictest booking window of its services
+    const { window } = await this.loadBookingWindow(bundle.businessId, legServices);
+    this.assertBookingWindow(window, newStart, timezone);
+    for (const leg of plan) {
+      await this.assertStaffNotBlocked(leg.staffId, leg.startTime, leg.endTime);
+    }
+
+    if (!this.prisma) {
+      throw new AppError('Prisma client not available for transaction', 500, ERROR_CODES.INTERNAL_SERVER_ERROR);
+    }
+
+    const newDate = createCalendarDate(data.date);
+    // Apply the shift in the direction of travel so consecutive legs of the same staff
+    // never overlap each other mid-transaction (the exclusion constraint is not deferrable).
+    const movingLater = newStart.getTime() > activeLegs[0].startTime.getTime();
+    const writeOrder = plan.map((leg, index) => ({ leg, id: activeLegs[index].id }));
+    if (movingLater) writeOrder.reverse();
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        for (const leg of plan) {
+          const conflicting = await this.findConflictsInTransaction(
+            tx,
+            bundle.businessId,
+            newDate,
+            leg.startTime,
+            leg.endTime,
+            leg.staffId,
+            legIds
+          );
+          if (conflicting.length > 0 || await this.findClassConflict(bundle.businessId, leg.startTime, leg.endTime, leg.staffId, tx)) {
+            throw new AppError('Selected time is not available', 409, ERROR_CODES.APPOINTMENT_TIME_CONFLICT);
+          }
+          await this.assertResourcesAvailable(bundle.businessId, leg.serviceId, leg.startTime, leg.endTime, {
+            tx,
+            excludeAppointmentIds: legIds,
+            params: { serviceId: leg.serviceId, sequence: leg.sequence }
+          });
+        }
+
+        for (const { leg, id } of writeOrder) {
+          await tx.appointment.update({
+            where: { id },
+            data: {
+              date: newDate,
+              startTime: leg.startTime,
+              endTime: leg.endTime,
+              bundleSequence: leg.sequence,
+              reminderSent: false,
+              reminderSentAt: null
+            }
+          });
+        }
+
+        await tx.appointmentBundle.update({
+          where: { id: bundleId },
+          data: {
+            date: newDate,
+            startTime: plan[0].startTime,
+            endTime: plan[plan.length - 1].endTime,
+            totalDuration
+          }
+        });
+      });
+    } catch (e: unknown) {
+      rethrowOnOverlapConflict(e);
+    }
+
+    const updated = (await this.appointmentRepository.findBundleById(bundleId))!;
+
+    try {
+      await this.sendBundleRescheduleNotification(activeLegs[0].startTime, updated, legServices);
+    } catch (notificationError) {
+      logger.error('❌ BUNDLE RESCHEDULE - Failed to send notification:', notificationError);
+    }
+
+    return updated;
+  }
+
+  /**
+   * The package each bundle leg takes its credit from (null for legs paid as usual).
+   * Legs covered by the same package share its remaining credits in visit order.
+   */
+  private async findBundleLegPackages(
+    customerId: string,
+    businessId: string,
+    plan: Array<{ serviceId: string; startTime: Date }>
+  ): Promise<Array<CustomerPackageData | null>> {
+    const allocated = new Map<string, number>();
+    const packages: Array<CustomerPackageData | null> = [];
+    for (const leg of plan) {
+      const usable = await this.repositories.sessionPackageRepository.findUsablePackage(
+        customerId,
+        businessId,
+        leg.serviceId,
+        leg.startTime
+      );
+      const taken = usable ? allocated.get(usable.id) ?? 0 : 0;
+      if (usable && taken < usable.creditsRemaining) {
+        allocated.set(usable.id, taken + 1);
+        packages.push(usable);
+      } else {
+        packages.push(null);
+      }
+    }
+    return packages;
+  }
+
+  private async resolveBundleLegs(
+    businessId: string,
+    items: CreateAppointmentBundleRequest['items']
+  ): Promise<Array<{ service: ServiceData; staffId?: string }>> {
+    const legs: Array<{ service: ServiceData; staffId?: string }> = [];
+    for (const item of items) {
+      const service = await this.serviceRepository.findById(item.serviceId);
+      if (!service || !service.isActive || service.businessId !== businessId) {
+        throw new AppError(
+          'Service not found or inactive',
+          400,
+          ERROR_CODES.APPOINTMENT_SERVICE_UNAVAILABLE,
+          true,
+          { serviceId: item.serviceId }
+        );
+      }
+      this.assertNotGroupService(service);
+      const staffId = await this.resolveBookingStaff(businessId, item.serviceId, item.staffId);
+      legs.push({ service: await this.serviceForStaff(service, staffId), staffId });
+    }
+    return legs;
+  }
+
+  // ===== GROUP CLASSES =====
+
+  /**
+   * Books one seat of a scheduled class. The seat is a regular appointment linked
+   * via classSessionId, so reminders, completion and reports treat it like any
+   * other booking. Seats are counted under a per-class lock so the last seat
+   * cannot be sold twice.
+   */
+  async bookClassSeat(
+    userId: string,
+    session: ClassSessionData,
+    data: BookClassSeatRequest
+  ): Promise<AppointmentData> {
+    const timezone = await this.getBusinessTimezone(session.businessId);
+    const { customer, customerId, isBookingForOther } = await this.validateBookingPreconditions(userId, {
+      businessId: session.businessId,
+      customerId: data.customerId,
+      date: formatDateInTimezone(session.startTime, timezone),
+      startTime: formatTimeInTimezone(session.startTime, timezone)
+    });
+
+    const service = await this.serviceRepository.findById(session.serviceId);
+    if (!service || !service.isActive) {
+      throw new AppError('Service not found or inactive', 400, ERROR_CODES.APPOINTMENT_SERVICE_UNAVAILABLE);
+    }
+
+    const classSessionRepository = this.repositories.classSessionRepository;
+    // Checked before the reservation rules so a second booking gets the clearer error
+    if (await classSessionRepository.hasActiveSeat(session.id, customerId)) {
+      throw new AppError('CLASS_SESSION_ALREADY_BOOKED', { message: 'Customer already has a seat in this class' });
+    }
+
+    const duration = Math.round((session.endTime.getTime() - session.startTime.getTime()) / 60000);
+    await this.validateBusinessReservationRules(
+      session.businessId,
+      session.startTime,
+      customerId,
+      duration,
+      [service],
+      isBookingForOther
+    );
+    const approvalRule = isBookingForOther ? null : await this.resolveApprovalRule(session.businessId, customerId, {
+      start: session.startTime,
+      end: session.endTime,
+      timezone,
+      price: service.price
+    });
+
+    if (!this.prisma) {
+      throw new AppError('Prisma client not available for transaction', 500, ERROR_CODES.INTERNAL_SERVER_ERROR);
+    }
+
+    const appointmentId = await this.prisma.$transaction(async (tx) => {
+      await classSessionRepository.lockSession(tx, session.id);
+
+      const current = await tx.classSession.findUnique({
+        where: { id: session.id },
+        select: { status: true, maxSeats: true }
+      });
+      if (!current || current.status !== 'SCHEDULED') {
+        throw new AppError('CLASS_SESSION_NOT_ACTIVE', { message: 'This class is no longer open for booking' });
+      }
+      if (await classSessionRepository.hasActiveSeat(session.id, customerId, tx)) {
+        throw new AppError('CLASS_SESSION_ALREADY_BOOKED', { message: 'Customer already has a seat in this class' });
+      }
+      const bookedSeats = await classSessionRepository.countActiveSeats(session.id, tx);
+      if (bookedSeats >= current.maxSeats) {
+        throw new AppError('CLASS_SESSION_FULL', {
+          message: 'This class is fully booked',
+          params: { maxSeats: current.maxSeats },
+        });
+      }
+
+      const status = approvalRule ? AppointmentStatus.PENDING_APPROVAL : AppointmentStatus.CONFIRMED;
+
+      const result = await tx.appointment.create({
+        data: {
+          id: `apt_${randomUUID()}`,
+          businessId: session.businessId,
+          serviceId: session.serviceId,
+          staffId: session.staffId,
+          customerId,
+          classSessionId: session.id,
+          date: session.date,
+          startTime: session.startTime,
+          endTime: session.endTime,
+          duration,
+          status,
+          approvalRule,
+          approvalRequestedAt: approvalRule ? new Date() : null,
+          price: service.price,
+          currency: service.currency,
+          customerNotes: data.customerNotes,
+          bookedAt: new Date(),
+          reminderSent: false
+        }
+      });
+      return result.id;
+    });
+
+    const appointment = (await this.appointmentRepository.findById(appointmentId))!;
+
+    await this.usageService.recordAppointmentUsage(session.businessId);
+    await this.userBehaviorRepository.createOrUpdate(customerId);
+
+    try {
+      await this.notifyNewAppointment(appointment, service);
+    } catch (notificationError) {
+      logger.error('❌ CLASS BOOKING - Failed to send business owner notification:', notificationError);
+    }
+
+    try {
+      const customerData = {
+        id: customer.id,
+        firstName: customer.firstName ?? null,
+        lastName: customer.lastName ?? null,
+        phoneNumber: customer.phoneNumber
+      };
+
+      if (appointment.status === AppointmentStatus.PENDING_APPROVAL) {
+        await this.sendCustomerRequestReceived(appointment, service, customerData);
+      } else {
+        await this.sendCustomerBookingConfirmation(appointment, service, customerData);
+      }
+    } catch (notificationError) {
+      logger.error('❌ CLASS BOOKING - Failed to send customer SMS:', notificationError);
+    }
+
+    return appointment;
+  }
+
+  // ===== CUSTOMER RESCHEDULE =====
+
+  /**
+   * Moves the customer's own appointment to another slot in a single write, so the
+   * old time is only given up once the new one is secured. Governed by the
+   * business reschedule policy (notice, moves per appointment) instead of the
+   * cancellation limits, and recorded in the reschedule history.
+   */
+  async rescheduleAppointment(
+    userId: string,
+    appointmentId: string,
+    data: CustomerRescheduleRequest
+  ): Promise<AppointmentData> {
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new AppError('Appointment not found', 404, ERROR_CODES.APPOINTMENT_NOT_FOUND);
+    }
+
+    // Staff move appointments through PUT /appointments/:id, which has no customer policy
+    if (appointment.customerId !== userId) {
+      throw new AppError('Only the customer can reschedule this appointment', 403, ERROR_CODES.APPOINTMENT_ACCESS_DENIED);
+    }
+
+    if (!RESCHEDULABLE_STATUSES.includes(appointment.status)) {
+      throw new AppError('APPOINTMENT_RESCHEDULE_NOT_ALLOWED', {
+        message: 'Only upcoming appointments can be rescheduled',
+        params: { status: appointment.status },
+      });
+    }
+
+    const now = new Date();
+    if (appointment.startTime <= now) {
+      throw new AppError('Cannot reschedule past appointments', 400, ERROR_CODES.APPOINTMENT_PAST_DATE);
+    }
+
+    if (appointment.bundleId) {
+      throw new AppError('APPOINTMENT_PART_OF_BUNDLE', {
+        message: 'This appointment is part of a bundle; reschedule the whole bundle instead',
+        params: { bundleId: appointment.bundleId },
+      });
+    }
+    if (appointment.classSessionId) {
+      throw new AppError('APPOINTMENT_PART_OF_CLASS', {
+        message: 'This appointment is a seat in a class; book a seat in another class instead',
+        params: { classSessionId: appointment.classSessionId },
+      });
+    }
+
+    const rescheduleRepository = this.repositories.appointmentRescheduleRepository;
+    const previousReschedules = await rescheduleRepository.countByInitiator(appointmentId, 'CUSTOMER');
+    const policyCheck = await this.cancellationPolicyService.checkReschedulePolicy({
+      customerId: userId,
+      businessId: appointment.businessId,
+      appointmentDate: appointment.startTime,
+      previousReschedules
+    });
+    if (!policyCheck.allowed) {
+      const violationMessages = policyCheck.violations
+        .filter((v) => v.isViolation)
+        .map((v) => v.message)
+        .join(' ');
+      throw new AppError('APPOINTMENT_RESCHEDULE_NOT_ALLOWED', {
+        message: violationMessages || 'Reschedule blocked by business policy',
+        params: {
+          detail: violationMessages,
+          violations: policyCheck.violations.map((v) => v.violationType),
+        },
+      });
+    }
+
+    const service = await this.serviceRepository.findById(appointment.serviceId);
+    if (!service || !service.isActive) {
+      throw new AppError('Service not found or inactive', 400, ERROR_CODES.APPOINTMENT_SERVICE_UNAVAILABLE);
+    }
+
+    // The booked duration and price travel with the appointment
+    const timezone = await this.getBusinessTimezone(appointment.businessId);
+    const newStart = createDateTimeInTimezone(data.date, data.startTime, timezone);
+    const newEnd = new Date(newStart.getTime() + appointment.duration * 60000);
+    const newDate = createCalendarDate(data.date);
+    const staffId = data.staffId
+      ? await this.resolveBookingStaff(appointment.businessId, appointment.serviceId, data.staffId)
+      : appointment.staffId;
+    await this.assertStaffNotBlocked(staffId, newStart, newEnd);
+
+    if (newStart.getTime() === appointment.startTime.getTime() && staffId === appointment.staffId) {
+      throw new AppError('APPOINTMENT_RESCHEDULE_SAME_TIME', { message: 'The appointment is already at this time' });
+    }
+
+    await this.assertBusinessOpenOn(appointment.businessId, data.date, newStart);
+
+    const slotRequest = { businessId: appointment.businessId, serviceId: appointment.serviceId, date: data.date, startTime: data.startTime };
+    const otherCheckoutHolds = await this.findOtherCheckoutHolds(userId, slotRequest, newStart);
+    await this.validateBusinessReservationRules(
+      appointment.businessId,
+      newStart,
+      userId,
+      appointment.duration,
+      [service],
+      false,
+      otherCheckoutHolds.length,
+      [appointmentId]
+    );
+
+    const conflicts = await this.appointmentRepository.findConflictingAppointments(
+      appointment.businessId,
+      newDate,
+      newStart,
+      newEnd,
+      staffId,
+      appointmentId
+    );
+    if (conflicts.length > 0 || await this.findClassConflict(appointment.businessId, newStart, newEnd, staffId)) {
+      throw new AppError('Staff member is not available at the selected time', 409, ERROR_CODES.APPOINTMENT_STAFF_NOT_AVAILABLE);
+    }
+
+    const holds = await this.repositories.waitlistRepository.findActiveHolds(appointment.businessId, newStart, newEnd, staffId);
+    const heldForSomeoneElse = holds.find((hold) => hold.customerId !== userId);
+    if (heldForSomeoneElse) {
+      throw new AppError(
+        'This time slot is temporarily held for a waitlisted customer',
+        409,
+        ERROR_CODES.APPOINTMENT_SLOT_HELD,
+        true,
+        { heldUntil: heldForSomeoneElse.expiresAt.toISOString() }
+      );
+    }
+    const blockingCheckoutHold = otherCheckoutHolds.find((hold) =>
+      (!hold.staffId || !staffId || hold.staffId === staffId) &&
+      new Date(hold.startTime) < newEnd &&
+      new Date(hold.endTime) > newStart
+    );
+    if (blockingCheckoutHold) {
+      throw new AppError(
+        'This time slot is temporarily held by another customer',
+        409,
+        ERROR_CODES.APPOINTMENT_SLOT_HELD,
+        true,
+        { heldUntil: blockingCheckoutHold.expiresAt }
+      );
+    }
+
+    await this.assertResourcesAvailable(appointment.businessId, appointment.serviceId, newStart, newEnd, {
+      excludeAppointmentIds: [appointmentId],
+      loadHolds: async () =>
+        (await this.findHeldRanges(appointment.businessId, data.date, newStart, newEnd))
+          .filter((range) => range.customerId !== userId)
+    });
+
+    if (!this.prisma) {
+      throw new AppError('Prisma client not available for transaction', 500, ERROR_CODES.INTERNAL_SERVER_ERROR);
+    }
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        const conflicting = await this.findConflictsInTransaction(
+          tx,
+          appointment.businessId,
+          newDate,
+          newStart,
+          newEnd,
+          staffId,
+          [appointmentId]
+        );
+        if (conflicting.length > 0 || await this.findClassConflict(appointment.businessId, newStart, newEnd, staffId, tx)) {
+          throw new AppError('Time slot is taken or staff conflict exists', 409, ERROR_CODES.APPOINTMENT_STAFF_NOT_AVAILABLE);
+        }
+        await this.assertResourcesAvailable(appointment.businessId, appointment.serviceId, newStart, newEnd, {
+          tx,
+          excludeAppointmentIds: [appointmentId]
+        });
+
+        // Clearing the reminder flags lets the reminder job pick up the new time
+        await tx.appointment.update({
+          where: { id: appointmentId },
+          data: {
+            date: newDate,
+            startTime: newStart,
+            endTime: newEnd,
+            staffId: staffId ?? null,
+            reminderSent: false,
+            reminderSentAt: null
+          }
+        });
+        await rescheduleRepository.create({
+          id: `rsc_${randomUUID()}`,
+          appointmentId,
+          businessId: appointment.businessId,
+          previousStartTime: appointment.startTime,
+          previousEndTime: appointment.endTime,
+          previousStaffId: appointment.staffId,
+          newStartTime: newStart,
+          newEndTime: newEnd,
+          newStaffId: staffId,
+          initiatedBy: 'CUSTOMER',
+          rescheduledBy: userId,
+          reason: data.reason
+        }, tx);
+      });
+    } catch (e: unknown) {
+      rethrowOnOverlapConflict(e);
+    }
+
+    const updated = (await this.appointmentRepository.findById(appointmentId))!;
+
+    await this.slotHoldService?.removeCustomerHolds(appointment.businessId, data.date, userId);
+    // The old time is free again and may go to the waitlist
+    this.notifySlotReleased(appointment);
+
+    try {
+      await this.sendRescheduleNotifications(appointment, updated, service);
+    } catch (notificationError) {
+      logger.error('❌ APPOINTMENT RESCHEDULE - Failed to send notifications:', notificationError);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Every move of an appointment, with the time it was originally booked for and
+   * how many customer reschedules the policy still allows.
+   */
+  async getRescheduleHistory(userId: string, appointmentId: string): Promise<AppointmentRescheduleHistory> {
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new AppError('Appointment not found', 404, ERROR_CODES.APPOINTMENT_NOT_FOUND);
+    }
+
+    if (appointment.customerId !== userId) {
+      await this.assertBusinessAppointmentAccess(userId, appointment.businessId, PermissionName.VIEW_ALL_APPOINTMENTS, PermissionName.VIEW_OWN_APPOINTMENTS);
+    }
+
+    const [entries, policy] = await Promise.all([
+      this.repositories.appointmentRescheduleRepository.findByAppointment(appointmentId),
+      this.cancellationPolicyService.getReschedulePolicySettings(appointment.businessId)
+    ]);
+    const customerReschedules = entries.filter((entry) => entry.initiatedBy === 'CUSTOMER').length;
+
+    return {
+      appointmentId,
+      originalStartTime: entries[0]?.previousStartTime ?? appointment.startTime,
+      originalEndTime: entries[0]?.previousEndTime ?? appointment.endTime,
+      customerReschedules,
+      remainingCustomerReschedules: policy.allowCustomerReschedule
+        ? Math.max(0, policy.maxReschedulesPerAppointment - customerReschedules)
+        : 0,
+      entries
+    };
+  }
+
+  /**
+   * Everything that happened to an appointment, oldest first: its status
+   * transitions, its moves and the push notifications sent about it. Customers
+   * only see the notifications sent to them.
+   */
+  async getAppointmentTimeline(userId: string, appointmentId: string): Promise<AppointmentTimeline> {
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new AppError('Appointment not found', 404, ERROR_CODES.APPOINTMENT_NOT_FOUND);
+    }
+
+    const isCustomer = appointment.customerId === userId;
+    if (!isCustomer) {
+      await this.assertBusinessAppointmentAccess(userId, appointment.businessId, PermissionName.VIEW_ALL_APPOINTMENTS, PermissionName.VIEW_OWN_APPOINTMENTS);
+    }
+
+    const [statusChanges, reschedules, notifications] = await Promise.all([
+      this.repositories.appointmentStatusChangeRepository.findByAppointment(appointmentId),
+      this.repositories.appointmentRescheduleRepository.findByAppointment(appointmentId),
+      this.repositories.notificationRepository.findPushNotificationsByAppointment(appointmentId, isCustomer ? userId : undefined)
+    ]);
+
+    const entries: AppointmentTimelineEntry[] = [
+      ...statusChanges.map((statusChange) => ({ type: 'STATUS_CHANGE' as const, at: statusChange.createdAt, statusChange })),
+      ...reschedules.map((reschedule) => ({ type: 'RESCHEDULE' as const, at: reschedule.createdAt, reschedule })),
+      ...notifications.map((notification) => ({
+        type: 'NOTIFICATION' as const,
+        at: notification.sentAt ?? notification.createdAt,
+        notification
+      }))
+    ];
+    entries.sort((a, b) => a.at.getTime() - b.at.getTime());
+
+    return {
+      appointmentId,
+      bookedAt: appointment.bookedAt,
+      status: appointment.status,
+      entries
+    };
+  }
+
+  /**
+   * Appends a transition to the appointment's status history; nothing is recorded
+   * when the status did not change. Also used by the check-in, series and class
+   * services for the transitions they make.
+   */
+  async recordStatusChange(
+    before: BundledStatusSnapshot,
+    after: AppointmentStatusUpdate,
+    actor: AppointmentChangeActor
+  ): Promise<void> {
+    await this.repositories.appointmentStatusChangeRepository.record(before, after, actor);
+    await this.syncBundleStatuses([before], after);
+  }
+
+  /** The same transition for several appointments, e.g. a cancelled series or class */
+  async recordStatusChanges(
+    befores: BundledStatusSnapshot[],
+    after: AppointmentStatusUpdate,
+    actor: AppointmentChangeActor
+  ): Promise<void> {
+    await this.repositories.appointmentStatusChangeRepository.recordMany(befores, after, actor);
+    await this.syncBundleStatuses(befores, after);
+  }
+
+  /** Every leg transition is recorded here, so this is where the bundle follows its legs */
+  private async syncBundleStatuses(befores: BundledStatusSnapshot[], after: AppointmentStatusUpdate): Promise<void> {
+    const bundleIds = new Set(
+      befores
+        .filter((before) => before.bundleId && after.status && after.status !== before.status)
+        .map((before) => before.bundleId!)
+    );
+    for (const bundleId of bundleIds) {
+      await this.appointmentRepository.syncBundleStatus(bundleId);
+    }
+  }
+
+  /**
+   * Runs the slot-released and appointment-ended listeners for appointments
+   * cancelled together (bundle legs, series occurrences), which do not go
+   * through cancelAppointment() one by one.
+   */
+  async notifyAppointmentsCancelled(
+    appointments: AppointmentData[],
+    cancelledBy: 'CUSTOMER' | 'BUSINESS'
+  ): Promise<void> {
+    for (const appointment of appointments) {
+      this.notifySlotReleased(appointment);
+      await this.notifyAppointmentEnded(appointment, cancelledBy === 'CUSTOMER' ? 'CUSTOMER_CANCEL' : 'BUSINESS_CANCEL');
+    }
+  }
+
+  /** The customer acts through the app, anyone else through the staff panel */
+  private changeActor(userId: string, customerId: string, reason?: string): AppointmentChangeActor {
+    return {
+      channel: userId === customerId ? 'CUSTOMER_APP' : 'STAFF_PANEL',
+      actorId: userId,
+      reason
+    };
+  }
+
+  /**
+   * Hands an upcoming appointment to another staff member at the same time, e.g.
+   * when its staff member goes on leave. The new staff member must provide the
+   * service and be free; the move is kept in the reschedule history and the
+   * customer is told by SMS.
+   */
+  async reassignAppointmentStaff(
+    userId: string,
+    appointmentId: string,
+    newStaffId: string,
+    reason?: string
+  ): Promise<AppointmentData> {
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new AppError('Appointment not found', 404, ERROR_CODES.APPOINTMENT_NOT_FOUND);
+    }
+
+    await this.assertBusinessAppointmentAccess(userId, appointment.businessId, PermissionName.EDIT_ALL_APPOINTMENTS, PermissionName.EDIT_OWN_APPOINTMENTS);
+
+    if (!RESCHEDULABLE_STATUSES.includes(appointment.status)) {
+      throw new AppError('APPOINTMENT_RESCHEDULE_NOT_ALLOWED', {
+        message: 'Only upcoming appointments can be reassigned',
+        params: { status: appointment.status },
+      });
+    }
+    if (appointment.classSessionId) {
+      throw new AppError('APPOINTMENT_PART_OF_CLASS', {
+        message: 'This appointment is a seat in a class; change the class instructor instead',
+        params: { classSessionId: appointment.classSessionId },
+      });
+    }
+    if (appointment.staffId === newStaffId) {
+      throw new AppError('APPOINTMENT_RESCHEDULE_SAME_TIME', { message: 'The appointment is already with this staff member' });
+    }
+
+    await this.resolveBookingStaff(appointment.businessId, appointment.serviceId, newStaffId, {
+      start: appointment.startTime,
+      end: appointment.endTime
+    });
+    // Services without assigned staff can be done by anyone, as when booking
+    const qualifiedStaffIds = await this.serviceRepository.getServiceStaffIds(appointment.serviceId);
+    if (qualifiedStaffIds.length > 0 && !qualifiedStaffIds.includes(newStaffId)) {
+      throw new AppError('STAFF_NOT_QUALIFIED', {
+        message: 'The staff member does not provide this service',
+        params: { staffId: newStaffId, serviceId: appointment.serviceId },
+      });
+    }
+
+    if (!this.prisma) {
+      throw new AppError('Prisma client not available for transaction', 500, ERROR_CODES.INTERNAL_SERVER_ERROR);
+    }
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        const conflicting = await this.findConflictsInTransaction(
+          tx,
+          appointment.businessId,
+          appointment.date,
+          appointment.startTime,
+          appointment.endTime,
+          newStaffId,
+          [appointmentId]
+        );
+        if (conflicting.length > 0 || await this.findClassConflict(appointment.businessId, appointment.startTime, appointment.endTime, newStaffId, tx)) {
+          throw new AppError('Staff member is not available at the selected time', 409, ERROR_CODES.APPOINTMENT_STAFF_NOT_AVAILABLE);
+        }
+
+        await tx.appointment.update({
+          where: { id: appointmentId },
+          data: { staffId: newStaffId }
+        });
+        await this.repositories.appointmentRescheduleRepository.create({
+          id: `rsc_${randomUUID()}`,
+          appointmentId,
+          businessId: appointment.businessId,
+          previousStartTime: appointment.startTime,
+          previousEndTime: appointment.endTime,
+          previousStaffId: appointment.staffId,
+          newStartTime: appointment.startTime,
+          newEndTime: appointment.endTime,
+          newStaffId,
+          initiatedBy: 'BUSINESS',
+          rescheduledBy: userId,
+          reason
+        }, tx);
+      });
+    } catch (e: unknown) {
+      rethrowOnOverlapConflict(e);
+    }
+
+    const updated = (await this.appointmentRepository.findById(appointmentId))!;
+
+    try {
+      await this.sendStaffChangeNotifications(updated);
+    } catch (notificationError) {
+      logger.error('❌ APPOINTMENT REASSIGN - Failed to send notifications:', notificationError);
+    }
+
+    return updated;
+  }
+
+  // ===== DEPOSITS =====
+
+  /**
+   * Takes a booking whose deposit was just paid out of PENDING: to PENDING_APPROVAL
+   * when an approval rule matched it at booking, otherwise CONFIRMED. Sends the
+   * booking notifications createAppointment() held back until the payment.
+   */
+  async confirmDepositPaid(appointmentId: string): Promise<AppointmentData> {
+    if (!this.prisma) {
+      throw new AppError('Prisma client not available', 500, ERROR_CODES.INTERNAL_SERVER_ERROR);
+    }
+
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new AppError('Appointment not found', 404, ERROR_CODES.APPOINTMENT_NOT_FOUND);
+    }
+    // Staff may have confirmed it by hand while the customer was paying
+    if (appointment.status !== AppointmentStatus.PENDING) {
+      return appointment;
+    }
+
+    // Bookings from before approval rules carry none; the business-wide switch decides those
+    const business = await this.businessRepository.findById(appointment.businessId);
+    const approvalRule = appointment.approvalRule ?? (business?.requireApproval ? 'ALWAYS' : null);
+    const status = approvalRule ? AppointmentStatus.PENDING_APPROVAL : AppointmentStatus.CONFIRMED;
+    await this.prisma.appointment.updateMany({
+      where: { id: appointmentId, status: AppointmentStatus.PENDING },
+      data: status === AppointmentStatus.CONFIRMED
+        ? { status, confirmedAt: new Date() }
+        : { status, approvalRule, approvalRequestedAt: new Date() }
+    });
+
+    const updated = (await this.appointmentRepository.findById(appointmentId))!;
+    await this.recordStatusChange(appointment, updated, {
+      channel: 'CUSTOMER_APP',
+      actorId: appointment.customerId,
+      reason: 'Deposit paid'
+    });
+    const [service, customer] = await Promise.all([
+      this.serviceRepository.findById(appointment.serviceId),
+      this.repositories.userRepository.findById(appointment.customerId)
+    ]);
+    if (service && customer) {
+      await this.sendNewBookingNotifications(updated, service, customer);
+    }
+
+    return updated;
+  }
+
+  /** Cancels a booking whose deposit was not paid in time and frees its slot */
+  async releaseUnpaidAppointment(appointmentId: string): Promise<AppointmentData | null> {
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment || appointment.status !== AppointmentStatus.PENDING) {
+      return null;
+    }
+
+    const cancelled = await this.appointmentRepository.cancel(appointmentId, 'Kapora süresi içinde ödenmedi', 'SYSTEM');
+    await this.recordStatusChange(appointment, cancelled, { channel: 'JOB', reason: 'Deposit not paid in time' });
+    this.notifySlotReleased(appointment);
+    return cancelled;
+  }
+
+  /**
+   * Business-scope permission check for bundle and series endpoints: a global
+   * permission or the business-scoped fallback permission must be held.
+   */
+  async assertBusinessAppointmentAccess(
+    userId: string,
+    businessId: string,
+    globalPermission: PermissionName,
+    businessPermission: PermissionName = globalPermission
+  ): Promise<void> {
+    const global = this.splitPermissionName(globalPermission);
+    if (await this.rbacService.hasPermission(userId, global.resource, global.action)) {
+      return;
+    }
+
+    const scoped = this.splitPermissionName(businessPermission);
+    const hasBusinessPermission = await this.rbacService.hasPermission(
+      userId,
+      scoped.resource,
+      scoped.action,
+      { businessId }
+    );
+    if (!hasBusinessPermission) {
+      throw new AppError('Access denied to these appointments', 403, ERROR_CODES.APPOINTMENT_ACCESS_DENIED);
+    }
+  }
+
+  async getAppointmentById(
+    userId: string,
+    appointmentId: string
   ): Promise<AppointmentWithDetails | null> {
     await this.appointmentRepository.finalizeEndedAppointmentsIfStale({ appointmentId });
 
@@ -897,7 +2575,23 @@ export class AppointmentService {
     page: number;
     totalPages: number;
   }> {
-    // Check permissions to view business appointments
+    const staffIds = await this.resolveBusinessAppointmentScope(userId, businessId, requestedStaffId);
+
+    await this.appointmentRepository.finalizeEndedAppointmentsIfStale();
+
+    return await this.appointmentRepository.findByBusinessId(businessId, page, limit, staffIds ?? undefined);
+  }
+
+  /**
+   * Which staff members' appointments the user may see in the business, with the
+   * permission checks of getBusinessAppointments: null means every appointment.
+   * Calendar feeds re-run this on every fetch so lost access empties them.
+   */
+  async resolveBusinessAppointmentScope(
+    userId: string,
+    businessId: string,
+    requestedStaffId?: string
+  ): Promise<string[] | null> {
     const { resource: viewAllResource, action: viewAllAction } = this.splitPermissionName(PermissionName.VIEW_ALL_APPOINTMENTS);
     const hasGlobalView = await this.rbacService.hasPermission(userId, viewAllResource, viewAllAction);
 
@@ -909,10 +2603,7 @@ export class AppointmentService {
       );
     }
 
-    await this.appointmentRepository.finalizeEndedAppointmentsIfStale();
-
-    const staffIds = await this.resolveStaffFilter(userId, businessId, requestedStaffId);
-    return await this.appointmentRepository.findByBusinessId(businessId, page, limit, staffIds ?? undefined);
+    return this.resolveStaffFilter(userId, businessId, requestedStaffId);
   }
 
   async searchAppointments(
@@ -1040,7 +2731,7 @@ export class AppointmentService {
 
     // Customer restrictions
     if (isCustomer) {
-      const now = getCurrentTimeInIstanbul();
+      const now = new Date();
       if (appointment.startTime <= now) {
         throw new AppError('Cannot update past appointments', 400, ERROR_CODES.APPOINTMENT_PAST_DATE);
       }
@@ -1057,18 +2748,44 @@ export class AppointmentService {
       }
     }
 
-    // If rescheduling, check availability and business rules
+    // If rescheduling, check availability and business rules; a new wall-clock start is
+    // resolved in the business's timezone here, before it reaches the repository
+    let rescheduledTo: { date: string; startTime: Date } | undefined;
     if (data.date || data.startTime) {
-      const newDate = data.date ? createDateTimeInIstanbul(data.date, '00:00') : appointment.date;
-      const dateStr = data.date || appointment.date.toISOString().split('T')[0];
-      const newStartTime = data.startTime ? createDateTimeInIstanbul(dateStr, data.startTime) : appointment.startTime;
+      if (appointment.bundleId) {
+        throw new AppError('APPOINTMENT_PART_OF_BUNDLE', {
+          message: 'This appointment is part of a bundle; reschedule the whole bundle instead',
+          params: { bundleId: appointment.bundleId },
+        });
+      }
+      if (appointment.classSessionId) {
+        throw new AppError('APPOINTMENT_PART_OF_CLASS', {
+          message: 'This appointment is a seat in a class; book a seat in another class instead',
+          params: { classSessionId: appointment.classSessionId },
+        });
+      }
 
-      // CRITICAL: Validate business reservation rules for rescheduling
-      await this.validateBusinessReservationRules(appointment.businessId, newStartTime, appointment.customerId);
+      const timezone = await this.getBusinessTimezone(appointment.businessId);
+      const newDate = data.date ? createCalendarDate(data.date) : appointment.date;
+      const dateStr = data.date || appointment.date.toISOString().split('T')[0];
+      const newStartTime = data.startTime ? createDateTimeInTimezone(dateStr, data.startTime, timezone) : appointment.startTime;
+      if (data.startTime) {
+        rescheduledTo = { date: dateStr, startTime: newStartTime };
+      }
 
       const service = await this.serviceRepository.findById(appointment.serviceId);
+
+      // CRITICAL: Validate business reservation rules for rescheduling
+      await this.validateBusinessReservationRules(
+        appointment.businessId,
+        newStartTime,
+        appointment.customerId,
+        undefined,
+        service ? [service] : []
+      );
       if (service) {
-        const newEndTime = new Date(newStartTime.getTime() + service.duration * 60000);
+        // The booked duration already carries the staff member's override
+        const newEndTime = new Date(newStartTime.getTime() + appointment.duration * 60000);
 
         const conflicts = await this.appointmentRepository.findConflictingAppointments(
           appointment.businessId,
@@ -1079,9 +2796,13 @@ export class AppointmentService {
           appointmentId
         );
 
-        if (conflicts.length > 0) {
+        if (conflicts.length > 0 || await this.findClassConflict(appointment.businessId, newStartTime, newEndTime, appointment.staffId)) {
           throw new AppError('Selected time is not available', 409, ERROR_CODES.APPOINTMENT_TIME_CONFLICT);
         }
+
+        await this.assertResourcesAvailable(appointment.businessId, appointment.serviceId, newStartTime, newEndTime, {
+          excludeAppointmentIds: [appointmentId]
+        });
       }
     }
 
@@ -1095,16 +2816,40 @@ export class AppointmentService {
         ? 'CUSTOMER' as const
         : (data.cancelledByOverride === 'BUSINESS' ? 'BUSINESS' as const : 'CUSTOMER' as const);
       updatedAppointment = await this.appointmentRepository.cancel(appointmentId, data.cancelReason, cancelledBy);
+      this.notifySlotReleased(appointment);
+      await this.notifyAppointmentEnded(appointment, cancelledBy === 'CUSTOMER' ? 'CUSTOMER_CANCEL' : 'BUSINESS_CANCEL');
     } else {
       try {
-        updatedAppointment = await this.appointmentRepository.update(appointmentId, data);
+        updatedAppointment = await this.appointmentRepository.update(appointmentId, rescheduledTo
+          ? { ...data, date: rescheduledTo.date, startTime: rescheduledTo.startTime.toISOString() }
+          : data);
       } catch (e: unknown) {
         // Pre-check above can miss a staff-specific or racing booking; the DB
         // exclusion constraint is the last line of defense. Surface it as a clean 409.
         rethrowOnOverlapConflict(e);
       }
+
+      // Staff moves are kept in the same history as customer reschedules but do
+      // not count toward the customer's reschedule limit
+      if (updatedAppointment.startTime.getTime() !== appointment.startTime.getTime()) {
+        await this.repositories.appointmentRescheduleRepository.create({
+          id: `rsc_${randomUUID()}`,
+          appointmentId,
+          businessId: appointment.businessId,
+          previousStartTime: appointment.startTime,
+          previousEndTime: appointment.endTime,
+          previousStaffId: appointment.staffId,
+          newStartTime: updatedAppointment.startTime,
+          newEndTime: updatedAppointment.endTime,
+          newStaffId: updatedAppointment.staffId,
+          initiatedBy: 'BUSINESS',
+          rescheduledBy: userId
+        });
+      }
     }
 
+    await this.recordStatusChange(appointment, updatedAppointment, this.changeActor(userId, appointment.customerId, data.cancelReason));
+
     // Handle status changes
     if (data.status) {
       await this.handleStatusChange(userId, appointment, data.status, data.cancelledByOverride);
@@ -1173,7 +2918,7 @@ export class AppointmentService {
         businessId: appointment.businessId,
         appointmentDate: appointment.startTime,
         action: 'CANCEL',
-        currentTime: getCurrentTimeInIstanbul()
+        currentTime: new Date()
       };
 
       const policyCheck = await this.cancellationPolicyService.checkPolicyViolations(policyContext);
@@ -1192,6 +2937,7 @@ export class AppointmentService {
 
     const cancelledBy = isCustomer ? 'CUSTOMER' as const : 'BUSINESS' as const;
     const cancelledAppointment = await this.appointmentRepository.cancel(appointmentId, reason, cancelledBy);
+    await this.recordStatusChange(appointment, cancelledAppointment, this.changeActor(userId, appointment.customerId, reason));
 
     // Update user behavior only if customer cancelled (strikes for late cancel; sync stats)
     // Business-initiated cancellations must NOT penalize the customer
@@ -1200,6 +2946,8 @@ export class AppointmentService {
     }
 
     await this.sendCancellationNotifications(appointment, appointmentId, cancelledBy);
+    this.notifySlotReleased(appointment);
+    await this.notifyAppointmentEnded(appointment, cancelledBy === 'CUSTOMER' ? 'CUSTOMER_CANCEL' : 'BUSINESS_CANCEL');
 
     return cancelledAppointment;
   }
@@ -1324,15 +3072,28 @@ export class AppointmentService {
       throw new AppError('Prisma client not available', 500, ERROR_CODES.INTERNAL_SERVER_ERROR);
     }
 
-    const result = await this.prisma.appointment.update({
-      where: { id: appointmentId },
+    // Guarded so an approval cannot race the timeout job rejecting the request
+    const { count } = await this.prisma.appointment.updateMany({
+      where: { id: appointmentId, status: AppointmentStatus.PENDING_APPROVAL },
       data: {
         status: AppointmentStatus.CONFIRMED,
         confirmedAt: new Date()
       }
     });
+    if (count === 0) {
+      throw new AppError(
+        'Only pending-approval appointments can be approved',
+        400,
+        ERROR_CODES.APPOINTMENT_NOT_PENDING_APPROVAL
+      );
+    }
 
     const mapped = await this.appointmentRepository.findById(appointmentId);
+    await this.recordStatusChange(
+      appointment,
+      mapped!,
+      this.changeActor(userId, appointment.customerId, this.approvalReason(appointment))
+    );
 
     try {
       await this.sendApprovalNotificationToCustomer(mapped!);
@@ -1366,12 +3127,45 @@ export class AppointmentService {
       throw new AppError('Access denied', 403, ERROR_CODES.APPOINTMENT_ACCESS_DENIED);
     }
 
+    const rejected = await this.rejectPendingApproval(
+      appointment,
+      this.changeActor(userId, appointment.customerId, this.approvalReason(appointment))
+    );
+    if (!rejected) {
+      throw new AppError(
+        'Only pending-approval appointments can be rejected',
+        400,
+        ERROR_CODES.APPOINTMENT_NOT_PENDING_APPROVAL
+      );
+    }
+
+    return rejected;
+  }
+
+  /**
+   * Rejects a request nobody decided on within the business's approval timeout.
+   * Returns null when it was decided on in the meantime. Called by the approval
+   * timeout job.
+   */
+  async rejectOverdueApproval(appointment: AppointmentData): Promise<AppointmentData | null> {
+    return this.rejectPendingApproval(appointment, {
+      channel: 'JOB',
+      reason: this.approvalReason(appointment, 'Approval timed out')
+    });
+  }
+
+  /** Marks a still pending request rejected, tells the customer and frees the slot */
+  private async rejectPendingApproval(
+    appointment: AppointmentData,
+    actor: AppointmentChangeActor
+  ): Promise<AppointmentData | null> {
     if (!this.prisma) {
       throw new AppError('Prisma client not available', 500, ERROR_CODES.INTERNAL_SERVER_ERROR);
     }
 
-    await this.prisma.appointment.update({
-      where: { id: appointmentId },
+    const appointmentId = appointment.id;
+    const { count } = await this.prisma.appointment.updateMany({
+      where: { id: appointmentId, status: AppointmentStatus.PENDING_APPROVAL },
       data: {
         status: 'REJECTED_BY_BUSINESS',
         canceledAt: new Date(),
@@ -1379,6 +3173,11 @@ export class AppointmentService {
         cancelledBy: 'BUSINESS'
       }
     });
+    if (count === 0) {
+      return null;
+    }
+    const rejected = await this.appointmentRepository.findById(appointmentId);
+    await this.recordStatusChange(appointment, rejected!, actor);
 
     // Send rejection SMS to customer
     try {
@@ -1415,8 +3214,10 @@ export class AppointmentService {
       logger.error('Error sending rejection SMS:', error);
     }
 
-    const mapped = await this.appointmentRepository.findById(appointmentId);
-    return mapped!;
+    this.notifySlotReleased(appointment);
+    await this.notifyAppointmentEnded(appointment, 'REJECTED');
+
+    return rejected!;
   }
 
   async markNoShow(
@@ -1445,7 +3246,7 @@ export class AppointmentService {
       businessId: appointment.businessId,
       appointmentDate: appointment.startTime,
       action: 'NO_SHOW',
-      currentTime: getCurrentTimeInIstanbul()
+      currentTime: new Date()
     };
 
     const policyCheck = await this.cancellationPolicyService.checkPolicyViolations(policyContext);
@@ -1462,7 +3263,34 @@ export class AppointmentService {
     }
 
     const updatedAppointment = await this.appointmentRepository.markNoShow(appointmentId);
+    await this.recordStatusChange(appointment, updatedAppointment, this.changeActor(userId, appointment.customerId));
+
+    await this.applyNoShowConsequences(appointment);
+
+    return updatedAppointment;
+  }
+
+  /**
+   * Marks an appointment nobody checked in for as NO_SHOW once its grace period
+   * has passed (see AppointmentCheckInService.markMissedAppointments). Same
+   * strikes and policy handling as a no-show marked by the staff. False when the
+   * customer checked in or the appointment changed in the meantime.
+   */
+  async markMissedAsNoShow(appointment: AppointmentData, now: Date = new Date()): Promise<boolean> {
+    if (!(await this.appointmentRepository.markMissedAsNoShow(appointment.id, now))) {
+      return false;
+    }
+    await this.recordStatusChange(
+      appointment,
+      { status: AppointmentStatus.NO_SHOW, canceledAt: now, noShowMarkedAt: now, noShowSource: 'AUTOMATIC' },
+      { channel: 'JOB', reason: 'No check-in within the grace period' }
+    );
+
+    await this.applyNoShowConsequences(appointment);
+    return true;
+  }
 
+  private async applyNoShowConsequences(appointment: AppointmentData): Promise<void> {
     // Add strike to customer for no-show and handle policy violation
     await this.userBehaviorRepository.addStrike(
       appointment.customerId,
@@ -1477,7 +3305,8 @@ export class AppointmentService {
       'Customer exceeded monthly no-show limit'
     );
 
-    return updatedAppointment;
+    this.notifySlotReleased(appointment);
+    await this.notifyAppointmentEnded(appointment, 'NO_SHOW');
   }
 
   async getUpcomingAppointments(
@@ -1490,7 +3319,7 @@ export class AppointmentService {
 
   async getNearestAppointmentInCurrentHour(userId: string): Promise<AppointmentWithDetails | null> {
     await this.appointmentRepository.finalizeEndedAppointmentsIfStale({ customerId: userId });
-    const now = getCurrentTimeInIstanbul();
+    const now = new Date();
     const currentHour = new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours());
     const nextHour = new Date(currentHour.getTime() + 60 * 60 * 1000);
 
@@ -1503,7 +3332,7 @@ export class AppointmentService {
 
   async getAppointmentsInCurrentHour(userId: string): Promise<AppointmentWithDetails[]> {
     await this.appointmentRepository.finalizeEndedAppointmentsIfStale({ customerId: userId });
-    const now = getCurrentTimeInIstanbul();
+    const now = new Date();
     const currentHour = new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours());
     const nextHour = new Date(currentHour.getTime() + 60 * 60 * 1000);
 
@@ -1645,9 +3474,12 @@ export class AppointmentService {
       );
     }
 
-    return await this.appointmentRepository.update(appointmentId, {
+    const confirmedAppointment = await this.appointmentRepository.update(appointmentId, {
       status: AppointmentStatus.CONFIRMED
     });
+    await this.recordStatusChange(appointment, confirmedAppointment, this.changeActor(userId, appointment.customerId));
+
+    return confirmedAppointment;
   }
 
   async completeAppointment(
@@ -1676,9 +3508,11 @@ export class AppointmentService {
       status: AppointmentStatus.COMPLETED,
       internalNotes
     });
+    await this.recordStatusChange(appointment, completedAppointment, this.changeActor(userId, appointment.customerId));
 
     // Update user behavior for completion
     await this.userBehaviorRepository.createOrUpdate(appointment.customerId);
+    await this.notifyAppointmentCompleted(completedAppointment);
 
     return completedAppointment;
   }
@@ -1708,9 +3542,11 @@ export class AppointmentService {
           appointment.customerId,
           'No-show for appointment'
         );
+        await this.notifyAppointmentEnded(appointment, 'NO_SHOW');
         break;
       case AppointmentStatus.COMPLETED:
         await this.userBehaviorRepository.createOrUpdate(appointment.customerId);
+        await this.notifyAppointmentCompleted(appointment);
         break;
     }
   }
@@ -1719,7 +3555,7 @@ export class AppointmentService {
     customerId: string,
     appointment: AppointmentData
   ): Promise<void> {
-    const now = getCurrentTimeInIstanbul();
+    const now = new Date();
     const hoursUntilAppointment = (appointment.startTime.getTime() - now.getTime()) / (1000 * 60 * 60);
 
     // Add strike if cancellation is too close to appointment time
@@ -1759,7 +3595,11 @@ export class AppointmentService {
     await this.rbacService.requirePermission(userId, PermissionName.EDIT_ALL_APPOINTMENTS);
 
     for (const appointmentId of appointmentIds) {
-      await this.appointmentRepository.update(appointmentId, { status });
+      const appointment = await this.appointmentRepository.findById(appointmentId);
+      const updated = await this.appointmentRepository.update(appointmentId, { status });
+      if (appointment) {
+        await this.recordStatusChange(appointment, updated, { channel: 'ADMIN_BATCH', actorId: userId });
+      }
     }
   }
 
@@ -1771,7 +3611,12 @@ export class AppointmentService {
     await this.rbacService.requirePermission(userId, PermissionName.CANCEL_ALL_APPOINTMENTS);
 
     for (const appointmentId of appointmentIds) {
-      await this.appointmentRepository.cancel(appointmentId, reason, 'SYSTEM');
+      const appointment = await this.appointmentRepository.findById(appointmentId);
+      const cancelled = await this.appointmentRepository.cancel(appointmentId, reason, 'SYSTEM');
+      if (appointment) {
+        await this.recordStatusChange(appointment, cancelled, { channel: 'ADMIN_BATCH', actorId: userId, reason });
+      }
+      await this.notifyAppointmentEnded(cancelled, 'BUSINESS_CANCEL');
     }
   }
 
@@ -1982,6 +3827,168 @@ export class AppointmentService {
     }
   }
 
+  /**
+   * Customer SMS with the old and new time, plus an alert to the owner and to the
+   * staff members who lost or gained the appointment.
+   */
+  private async sendRescheduleNotifications(
+    previous: AppointmentData,
+    updated: AppointmentData,
+    service: { name: string }
+  ): Promise<void> {
+    const business = await this.businessRepository.findById(updated.businessId);
+    const customer = await this.repositories.userRepository.findById(updated.customerId);
+    if (!business || !customer) {
+      return;
+    }
+
+    const newDate = formatRescheduleDate(updated.startTime);
+    const newTime = formatRescheduleTime(updated.startTime);
+    const oldDate = formatRescheduleDate(previous.startTime);
+    const oldTime = formatRescheduleTime(previous.startTime);
+
+    await this.sendCustomerRescheduleSMS(customer.phoneNumber, business.name, service.name, previous.startTime, updated);
+
+    const customerName = `${customer.firstName || ''} ${customer.lastName || ''}`.trim() || 'Müşteri';
+    const payload = {
+      businessId: updated.businessId,
+      title: 'Randevu Değişikliği',
+      body: `${customerName}, ${service.name} randevusunu ${oldDate} ${oldTime} yerine ${newDate} ${newTime} tarihine taşıdı.`,
+      appointmentId: updated.id,
+      data: {
+        appointmentId: updated.id,
+        customerId: updated.customerId,
+        customerName,
+        serviceName: service.name,
+        businessName: business.name,
+        previousStartTime: previous.startTime.toISOString(),
+        appointmentDate: newDate,
+        appointmentTime: newTime,
+        type: 'appointment_rescheduled',
+      },
+      url: `/appointments/${updated.id}`
+    };
+
+    const recipientIds = new Set<string>([business.ownerId]);
+    for (const staffId of new Set([previous.staffId, updated.staffId])) {
+      if (!staffId) continue;
+      const staffMember = await this.repositories.staffRepository.findById(staffId);
+      if (staffMember?.userId) {
+        recipientIds.add(staffMember.userId);
+      }
+    }
+
+    for (const recipientId of recipientIds) {
+      await this.notificationGateway.sendSystemAlert({ ...payload, userId: recipientId });
+    }
+  }
+
+  /** SMS telling the customer the old and the new time; `updated.id` is the link target */
+  private async sendCustomerRescheduleSMS(
+    phoneNumber: string | null | undefined,
+    businessName: string,
+    serviceName: string,
+    previousStart: Date,
+    updated: { id: string; startTime: Date }
+  ): Promise<void> {
+    if (!phoneNumber) {
+      return;
+    }
+
+    const { SMSMessageTemplates } = await import('../../../utils/smsMessageTemplates');
+    const message = SMSMessageTemplates.appointment.rescheduled({
+      businessName,
+      serviceName,
+      oldDate: formatRescheduleDate(previousStart),
+      oldTime: formatRescheduleTime(previousStart),
+      newDate: formatRescheduleDate(updated.startTime),
+      newTime: formatRescheduleTime(updated.startTime),
+      appointmentId: updated.id,
+    });
+    const result = await this.notificationGateway.sendCriticalSMS(phoneNumber, message, {
+      requestId: `reschedule-${updated.id}-${updated.startTime.getTime()}`
+    });
+    if (!result.success) {
+      logger.error(`❌ Failed to send reschedule SMS: ${result.error}`);
+    }
+  }
+
+  /** Tells the customer their whole visit moved, listing its services in order */
+  private async sendBundleRescheduleNotification(
+    previousStart: Date,
+    updated: AppointmentBundleData,
+    services: ServiceData[]
+  ): Promise<void> {
+    const business = await this.businessRepository.findById(updated.businessId);
+    const customer = await this.repositories.userRepository.findById(updated.customerId);
+    const firstLeg = updated.appointments.find((apt) => ACTIVE_APPOINTMENT_STATUSES.includes(apt.status));
+    if (!business || !customer || !firstLeg) {
+      return;
+    }
+
+    const serviceNames = updated.appointments
+      .filter((apt) => ACTIVE_APPOINTMENT_STATUSES.includes(apt.status))
+      .map((apt) => services.find((service) => service.id === apt.serviceId)?.name)
+      .filter((name): name is string => !!name);
+    await this.sendCustomerRescheduleSMS(customer.phoneNumber, business.name, serviceNames.join(' + '), previousStart, firstLeg);
+  }
+
+  private async sendStaffChangeNotifications(appointment: AppointmentData): Promise<void> {
+    if (!appointment.staffId) {
+      return;
+    }
+    const [business, customer, service, staffMember] = await Promise.all([
+      this.businessRepository.findById(appointment.businessId),
+      this.repositories.userRepository.findById(appointment.customerId),
+      this.serviceRepository.findById(appointment.serviceId),
+      this.repositories.staffRepository.findById(appointment.staffId)
+    ]);
+    if (!business || !customer || !service || !staffMember) {
+      return;
+    }
+    const staffUser = await this.repositories.userRepository.findById(staffMember.userId);
+    const staffName = `${staffUser?.firstName || ''} ${staffUser?.lastName || ''}`.trim() || 'başka bir personelimiz';
+
+    const appointmentDate = appointment.startTime.toLocaleDateString('tr-TR', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'Europe/Istanbul' });
+    const appointmentTime = appointment.startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/Istanbul' });
+
+    if (customer.phoneNumber) {
+      const { SMSMessageTemplates } = await import('../../../utils/smsMessageTemplates');
+      const message = SMSMessageTemplates.appointment.staffChanged({
+        businessName: business.name,
+        serviceName: service.name,
+        appointmentDate,
+        appointmentTime,
+        staffName,
+        appointmentId: appointment.id,
+      });
+      const result = await this.notificationGateway.sendCriticalSMS(customer.phoneNumber, message, {
+        requestId: `reassign-${appointment.id}-${appointment.staffId}`
+      });
+      if (!result.success) {
+        logger.error(`❌ Failed to send staff change SMS: ${result.error}`);
+      }
+    }
+
+    const customerName = `${customer.firstName || ''} ${customer.lastName || ''}`.trim() || 'Müşteri';
+    await this.notificationGateway.sendSystemAlert({
+      businessId: appointment.businessId,
+      userId: staffMember.userId,
+      title: 'Size Randevu Atandı',
+      body: `${customerName}, ${service.name} - ${appointmentDate} ${appointmentTime} randevusu size atandı.`,
+      appointmentId: appointment.id,
+      data: {
+        appointmentId: appointment.id,
+        customerName,
+        serviceName: service.name,
+        appointmentDate,
+        appointmentTime,
+        type: 'appointment_reassigned',
+      },
+      url: `/appointments/${appointment.id}`
+    });
+  }
+
   private async sendApprovalNotificationToCustomer(appointment: AppointmentData): Promise<void> {
     try {
       if (!this.prisma) return;
@@ -2088,6 +4095,13 @@ export class AppointmentService {
       appointment: AppointmentWithDetails;
       requestedTime: string;
     }>;
+    /** Group classes of the day; their seats are listed here instead of in the queue */
+    classes: Array<{
+      session: ClassSessionData;
+      serviceName: string;
+      state: 'UPCOMING' | 'IN_PROGRESS' | 'FINISHED';
+      roster: ClassRosterEntry[];
+    }>;
     stats: {
       completedToday: number;
       inProgress: number;
@@ -2109,17 +4123,13 @@ export class AppointmentService {
       throw new AppError('Business not found', 404, ERROR_CODES.BUSINESS_NOT_FOUND);
     }
 
-    // Parse date or default to today
-    const targetDate = date
-      ? createDateTimeInIstanbul(date, '00:00')
-      : getCurrentTimeInIstanbul();
-
-    // Set date range for the day
-    const dayStart = new Date(targetDate);
-    dayStart.setHours(0, 0, 0, 0);
-
-    const dayEnd = new Date(targetDate);
-    dayEnd.setHours(23, 59, 59, 999);
+    // Parse date or default to today, both in the business's timezone
+    const timezone = resolveTimezone(business.timezone);
+    const { start: dayStart, end: nextDayStart } = getDayBoundsInTimezone(
+      date || formatDateInTimezone(new Date(), timezone),
+      timezone
+    );
+    const dayEnd = new Date(nextDayStart.getTime() - 1);
 
     // Resolve staff scoping: owners see their own unless staff selector provided
     const staffIds = await this.resolveStaffFilter(userId, businessId, requestedStaffId);
@@ -2132,7 +4142,7 @@ export class AppointmentService {
       staffIds ?? undefined
     );
 
-    const now = getCurrentTimeInIstanbul();
+    const now = new Date();
 
     // Debug logging to see what appointments we have
     if (process.env.NODE_ENV === 'development') {
@@ -2157,10 +4167,15 @@ export class AppointmentService {
       });
     }
 
+    // Businesses tracking no-shows start appointments at check-in; their confirmed
+    // appointments keep waiting until the staff start them or the no-show job marks them
+    const tracksCheckIns = resolveCheckInPolicy(business.settings).trackNoShows;
+
     // Auto-update appointments to IN_PROGRESS if their time has arrived
     // Find CONFIRMED appointments that should be IN_PROGRESS
     const appointmentsToUpdate = appointmentsWithDetails.filter(
-      apt => apt.status === AppointmentStatus.CONFIRMED &&
+      apt => !tracksCheckIns &&
+        apt.status === AppointmentStatus.CONFIRMED &&
         new Date(apt.startTime) <= now &&
         new Date(apt.endTime) > now
     );
@@ -2170,6 +4185,11 @@ export class AppointmentService {
         appointmentsToUpdate.map(apt => apt.id),
         AppointmentStatus.IN_PROGRESS
       );
+      await this.recordStatusChanges(
+        appointmentsToUpdate,
+        { status: AppointmentStatus.IN_PROGRESS },
+        { channel: 'SYSTEM', reason: 'Start time reached' }
+      );
 
       // Update the status in our local array
       appointmentsToUpdate.forEach(apt => {
@@ -2182,17 +4202,21 @@ export class AppointmentService {
     }
 
     // Filter appointments - show IN_PROGRESS and CONFIRMED appointments
+    // Class seats are shown per class (see `classes`), not one by one in the queue
     // Current appointment: IN_PROGRESS (currently happening)
     const inProgressAppointments = appointmentsWithDetails.filter(
-      apt => apt.status === AppointmentStatus.IN_PROGRESS &&
+      apt => !apt.classSessionId &&
+        apt.status === AppointmentStatus.IN_PROGRESS &&
         new Date(apt.startTime) <= now &&
         new Date(apt.endTime) > now
     );
 
-    // Future appointments: CONFIRMED and starting in the future
+    // Future appointments: CONFIRMED and starting in the future (or not ended yet
+    // when the business starts appointments at check-in)
     const confirmedAppointments = appointmentsWithDetails.filter(
-      apt => apt.status === AppointmentStatus.CONFIRMED &&
-        new Date(apt.startTime) > now
+      apt => !apt.classSessionId &&
+        apt.status === AppointmentStatus.CONFIRMED &&
+        new Date(tracksCheckIns ? apt.endTime : apt.startTime) > now
     ).sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
 
     if (process.env.NODE_ENV === 'development') {
@@ -2257,6 +4281,22 @@ export class AppointmentService {
       position: index + 2 // Position 1 is "next"
     }));
 
+    // Class-level roster for group sessions
+    const daySessions = (await this.repositories.classSessionRepository.findByBusiness(businessId, dayStart, dayEnd))
+      .filter(session => !staffIds || staffIds.includes(session.staffId));
+    const classes = [];
+    for (const session of daySessions) {
+      const service = await this.serviceRepository.findById(session.serviceId);
+      classes.push({
+        session,
+        serviceName: service?.name || '',
+        state: session.endTime <= now
+          ? 'FINISHED' as const
+          : session.startTime <= now ? 'IN_PROGRESS' as const : 'UPCOMING' as const,
+        roster: await this.repositories.classSessionRepository.findRoster(session.id)
+      });
+    }
+
     // Calculate statistics
     const stats = includeStats ? {
       completedToday: completedAppointments.length,
@@ -2286,11 +4326,12 @@ export class AppointmentService {
         appointment: apt,
         requestedTime: formatDateTimeForAPI(apt.startTime),
       })),
+      classes,
       stats,
       lastUpdated: formatDateTimeForAPI(now),
       businessInfo: {
         name: business.name,
-        timezone: business.timezone || 'Europe/Istanbul'
+        timezone
       }
     };
   }
@@ -2337,64 +4378,15 @@ export class AppointmentService {
    * Get available time slots for a business service (PUBLIC)
    * Used by customers to see available booking times
    */
-  async getPublicAvailableSlots(params: {
-    businessId: string;
-    serviceId: string;
-    date: string; // YYYY-MM-DD
-    staffId?: string;
-  }): Promise<{
-    date: string;
-    businessId: string;
-    serviceId: string;
-    staffId?: string;
-    slots: Array<{
-      startTime: string;
-      endTime: string;
-      available: boolean;
-      staffId?: string;
-      staffName?: string;
-    }>;
-    bookedRanges: Array<{
-      startTime: string;
-      endTime: string;
-      duration: number;
-    }>;
-    businessHours: {
-      isOpen: boolean;
-      openTime?: string;
-      closeTime?: string;
-    };
-    closures: Array<{
-      reason: string;
-      type: string;
-    }>;
-  }> {
-    const { businessId, serviceId, date, staffId } = params;
-
-    // Parse the date
-    const targetDate = new Date(date);
-    if (isNaN(targetDate.getTime())) {
-      throw new AppError('Invalid date format. Use YYYY-MM-DD', 400, ERROR_CODES.INVALID_DATE_FORMAT);
-    }
-
-    // Get the service to know duration
-    const service = await this.serviceRepository.findById(serviceId);
-    if (!service || service.businessId !== businessId) {
-      throw new AppError('Service not found or does not belong to this business', 404, ERROR_CODES.APPOINTMENT_SERVICE_UNAVAILABLE);
-    }
-
-    if (staffId) {
-      if (!this.repositories?.staffRepository) {
-        throw new AppError('Staff repository not available', 500, ERROR_CODES.INTERNAL_SERVER_ERROR);
-      }
-      const staffMember = await this.repositories.staffRepository.findById(staffId);
-      if (!staffMember || staffMember.businessId !== businessId) {
-        throw new AppError('Staff member does not belong to this business', 400, ERROR_CODES.STAFF_NOT_FOUND);
-      }
-    }
-
-    const duration = service.duration;
-    const dayOfWeek = targetDate.getDay();
+  /**
+   * Working hours for one day: staff-specific rows first, then business-level rows,
+   * then the businessHours JSON stored on the business itself.
+   */
+  async findWorkingHoursForDay(
+    businessId: string,
+    dayOfWeek: number,
+    staffId?: string
+  ): Promise<Array<{ startTime: string; endTime: string; dayOfWeek: number; staffId: string | null }>> {
     const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
     const dayName = dayNames[dayOfWeek];
 
@@ -2435,83 +4427,266 @@ export class AppointmentService {
       }
     }
 
+
+    return workingHours;
+  }
+
+  /** IANA timezone the business's working hours and dates are expressed in */
+  private async getBusinessTimezone(businessId: string): Promise<string> {
+    const business = await this.businessRepository.findById(businessId);
+    return resolveTimezone(business?.timezone);
+  }
+
+  /** The service as performed by `staffId`: their assignment's duration, buffer and price */
+  private async serviceForStaff(service: ServiceData, staffId?: string): Promise<ServiceData> {
+    if (!staffId) {
+      return service;
+    }
+    return applyStaffOverride(service, await this.serviceRepository.getStaffOverride(service.id, staffId));
+  }
+
+  /** Business timezone and the booking window customers get for `services` */
+  private async loadBookingWindow(
+    businessId: string,
+    services: BookingWindowService[]
+  ): Promise<{ timezone: string; window: BookingWindow; settings: BusinessSettings }> {
+    const business = await this.businessRepository.findById(businessId);
+    const settings = (business?.settings as BusinessSettings) || {};
+    return {
+      timezone: resolveTimezone(business?.timezone),
+      window: resolveBookingWindow(services, settings.reservationSettings),
+      settings
+    };
+  }
+
+  /**
+   * The approval rule a customer's own booking matches, or null when it is confirmed
+   * right away. Customer history is only looked up for the rules the business uses.
+   */
+  private async resolveApprovalRule(
+    businessId: string,
+    customerId: string,
+    booking: { start: Date; end: Date; timezone: string; price: number }
+  ): Promise<ApprovalRule | null> {
+    const business = await this.businessRepository.findById(businessId);
+    const requireApproval = !!business?.requireApproval;
+    const policy = resolveApprovalPolicy(business?.settings);
+
+    const [firstVisit, riskLevel] = await Promise.all([
+      !requireApproval && policy.firstTimeCustomers
+        ? this.appointmentRepository.hasBookedAtBusiness(customerId, businessId).then((booked) => !booked)
+        : undefined,
+      !requireApproval && policy.highRiskCustomers
+        ? this.userBehaviorRepository.getUserSummary(customerId).then((summary) => summary.riskLevel)
+        : undefined
+    ]);
+
+    return findApprovalRule(policy, { requireApproval, ...booking, firstVisit, riskLevel });
+  }
+
+  /** History reason naming the rule that asked for the approval */
+  private approvalReason(appointment: AppointmentData, prefix?: string): string | undefined {
+    if (!appointment.approvalRule) return prefix;
+    const rule = `Approval rule: ${appointment.approvalRule}`;
+    return prefix ? `${prefix} (${rule})` : rule;
+  }
+
+  /** Whether FIRST_VISIT pricing applies; only looked up when one of the services has such a rule */
+  private async isFirstVisit(businessId: string, customerId: string, services: ServiceData[]): Promise<boolean> {
+    if (!services.some((service) => hasFirstVisitRule(service.pricing))) {
+      return false;
+    }
+    return !(await this.appointmentRepository.hasBookedAtBusiness(customerId, businessId));
+  }
+
+  /**
+   * Price of a slot after the services' pricing rules, unless customers may not see
+   * it. The listing does not know who books, so first visits are quoted separately.
+   */
+  private quoteSlot(
+    legs: Array<{ service: ServiceData; start: Date }>,
+    booking: { timezone: string; settings: BusinessSettings },
+    now: Date
+  ): Pick<PublicAvailableSlot, 'price' | 'currency' | 'firstVisitPrice'> {
+    if (!legs.every(({ service }) => isServicePriceVisible(service, booking.settings, 'booking'))) {
+      return {};
+    }
+    const total = (firstVisit: boolean) => roundPrice(legs.reduce((sum, { service, start }) =>
+      sum + quotePrice(service.price, service.pricing, { start, now, timezone: booking.timezone, firstVisit }).price, 0));
+
+    return {
+      price: total(false),
+      currency: legs[0].service.currency,
+      ...(legs.some(({ service }) => hasFirstVisitRule(service.pricing)) && { firstVisitPrice: total(true) })
+    };
+  }
+
+  /** When the day is not open for booking yet, the moment it opens */
+  private bookingOpensAt(window: BookingWindow, day: BusinessDay, now: Date): Date | undefined {
+    const opensAt = bookableFrom(window, day.date, day.timezone);
+    return now < opensAt ? opensAt : undefined;
+  }
+
+  /**
+   * Time other customers currently hold on a day: pending waitlist offers and
+   * checkout holds. `excludeHoldId` is the caller's own checkout hold.
+   */
+  private async findHeldRanges(
+    businessId: string,
+    date: string,
+    startOfDay: Date,
+    endOfDay: Date,
+    excludeHoldId?: string
+  ): Promise<HeldRange[]> {
+    const waitlistHolds = await this.repositories.waitlistRepository.findActiveHolds(businessId, startOfDay, endOfDay);
+    const checkoutHolds = this.slotHoldService
+      ? await this.slotHoldService.getActiveHolds(businessId, date)
+      : [];
+
+    return [
+      ...waitlistHolds.map((hold) => ({
+        start: hold.startTime,
+        end: hold.endTime,
+        staffId: hold.staffId,
+        serviceId: hold.serviceId,
+        customerId: hold.customerId
+      })),
+      ...checkoutHolds
+        .filter((hold) => hold.id !== excludeHoldId)
+        .map((hold) => ({
+          start: new Date(hold.startTime),
+          end: new Date(hold.endTime),
+          staffId: hold.staffId,
+          serviceId: hold.serviceId,
+          customerId: hold.customerId
+        }))
+    ];
+  }
+
+  /**
+   * Resource check for slot listings: loads what the services need and everything
+   * already using those resources once, then answers per candidate window in memory.
+   */
+  private async loadResourceFitCheck(
+    businessId: string,
+    serviceIds: string[],
+    from: Date,
+    to: Date,
+    holds: HeldRange[]
+  ): Promise<(serviceId: string, window: TimeInterval) => boolean> {
+    const resourceRepository = this.repositories.resourceRepository;
+    const needsByService = await resourceRepository.findNeedsForServices(serviceIds);
+    if (needsByService.size === 0) {
+      return () => true;
+    }
+
+    const resourceIds = [...new Set([...needsByService.values()].flat().map((need) => need.resourceId))];
+    const bookings = await resourceRepository.findResourceBookings(businessId, resourceIds, from, to);
+    const heldServiceIds = [...new Set(holds.map((hold) => hold.serviceId).filter((id): id is string => !!id))];
+    if (heldServiceIds.length > 0) {
+      const holdNeeds = await resourceRepository.findNeedsForServices(heldServiceIds);
+      bookings.push(...toResourceBookings(holds, holdNeeds));
+    }
+
+    return (serviceId, window) =>
+      findResourceShortage(needsByService.get(serviceId) || [], bookings, window) === null;
+  }
+
+  async getPublicAvailableSlots(params: {
+    businessId: string;
+    serviceId: string;
+    date: string; // YYYY-MM-DD
+    staffId?: string;
+    /** Ordered services of a bundle; when more than one is given the whole sequence must fit */
+    serviceIds?: string[];
+    /** Optional per-leg staff, positional to serviceIds ('' = any) */
+    staffIds?: string[];
+    /** The caller's own checkout hold, shown as available to them */
+    holdId?: string;
+  }): Promise<PublicAvailableSlotsResult> {
+    if (params.serviceIds && params.serviceIds.length > 1) {
+      return this.getPublicAvailableBundleSlots({ ...params, serviceIds: params.serviceIds });
+    }
+
+    const { businessId, serviceId, date, staffId } = params;
+
+    if (!isValidDateString(date)) {
+      throw new AppError('Invalid date format. Use YYYY-MM-DD', 400, ERROR_CODES.INVALID_DATE_FORMAT);
+    }
+
+    // Get the service to know duration
+    const service = await this.serviceRepository.findById(serviceId);
+    if (!service || service.businessId !== businessId) {
+      throw new AppError('Service not found or does not belong to this business', 404, ERROR_CODES.APPOINTMENT_SERVICE_UNAVAILABLE);
+    }
+
+    if (staffId) {
+      if (!this.repositories?.staffRepository) {
+        throw new AppError('Staff repository not available', 500, ERROR_CODES.INTERNAL_SERVER_ERROR);
+      }
+      const staffMember = await this.repositories.staffRepository.findById(staffId);
+      if (!staffMember || staffMember.businessId !== businessId) {
+        throw new AppError('Staff member does not belong to this business', 400, ERROR_CODES.STAFF_NOT_FOUND);
+      }
+    }
+
+    // The date, working hours and slot times are the business's wall clock
+    const booking = await this.loadBookingWindow(businessId, [service]);
+    const day = resolveBusinessDay(date, booking.timezone);
+    const closedResult = (closures: PublicAvailableSlotsResult['closures'] = []): PublicAvailableSlotsResult => ({
+      date,
+      timezone: day.timezone,
+      businessId,
+      serviceId,
+      staffId,
+      slots: [],
+      bookedRanges: [],
+      businessHours: { isOpen: false },
+      closures
+    });
+
+    if (service.isGroupSession) {
+      return this.getPublicClassSlots({ businessId, serviceId, date, staffId }, day, booking.window);
+    }
+
+    // The staff member's own duration, buffer and price for the service
+    const performed = await this.serviceForStaff(service, staffId);
+    const { duration, bufferTime } = performed;
+
+    let workingHours = await this.findWorkingHoursForDay(businessId, day.dayOfWeek, staffId);
+
     if (workingHours.length === 0) {
-      return {
-        date,
-        businessId,
-        serviceId,
-        staffId,
-        slots: [],
-        bookedRanges: [],
-        businessHours: {
-          isOpen: false
-        },
-        closures: []
-      };
+      return closedResult();
     }
 
     // Check for a special-day override that overrides the weekly schedule for this exact date
-    const hoursOverride = await this.businessRepository.findBusinessHoursOverride(
-      businessId,
-      targetDate.toISOString().split('T')[0]
-    );
+    const hoursOverride = await this.businessRepository.findBusinessHoursOverride(businessId, date);
 
     if (hoursOverride) {
       if (!hoursOverride.isOpen) {
-        return {
-          date,
-          businessId,
-          serviceId,
-          staffId,
-          slots: [],
-          bookedRanges: [],
-          businessHours: { isOpen: false },
-          closures: [{ reason: hoursOverride.reason || 'Özel kapalı gün', type: 'SPECIAL_DAY' }]
-        };
+        return closedResult([{ reason: hoursOverride.reason || 'Özel kapalı gün', type: 'SPECIAL_DAY' }]);
       }
       if (hoursOverride.openTime && hoursOverride.closeTime) {
         workingHours = [{
           startTime: hoursOverride.openTime,
           endTime: hoursOverride.closeTime,
-          dayOfWeek,
+          dayOfWeek: day.dayOfWeek,
           staffId: null
         }];
       }
     }
 
-    // Get business closures for this date
-    const startOfDay = new Date(targetDate);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(targetDate);
-    endOfDay.setHours(23, 59, 59, 999);
-
-    const closures = await this.businessClosureRepository.findByBusinessId(businessId, {
-      startDate: startOfDay,
-      endDate: endOfDay
-    });
+    const workingHour = workingHours[0];
+    const window = openingWindow(day, workingHour.startTime, workingHour.endTime);
+    const startOfDay = day.start;
+    const endOfDay = day.lastMoment;
 
-    const activeClosure = closures.find(closure => {
-      const closureStart = new Date(closure.startDate);
-      const closureEnd = closure.endDate ? new Date(closure.endDate) : new Date('2099-12-31');
-      return targetDate >= closureStart && targetDate <= closureEnd;
-    });
+    // A closure spanning the whole opening window closes the day; shorter ones block their time
+    const closures = await this.businessClosureRepository.findByDateRange(businessId, window.start, window.end);
+    const { fullClosure, blocked: closedRanges } = applyClosures(closures, window);
 
-    if (activeClosure) {
-      return {
-        date,
-        businessId,
-        serviceId,
-        staffId,
-        slots: [],
-        bookedRanges: [],
-        businessHours: {
-          isOpen: false
-        },
-        closures: [{
-          reason: activeClosure.reason,
-          type: activeClosure.type
-        }]
-      };
+    if (fullClosure) {
+      return closedResult([{ reason: fullClosure.reason, type: fullClosure.type }]);
     }
 
     // Get existing appointments for this day (via repository layer)
@@ -2522,87 +4697,348 @@ export class AppointmentService {
       staffId
     );
 
-    // Build booked ranges from existing appointments (safe to expose - no customer data)
-    const bookedRanges = existingAppointments.map(apt => ({
-      startTime: new Date(apt.startTime).toISOString(),
-      endTime: new Date(apt.endTime).toISOString(),
-      duration: apt.duration
+    // Held slots stay blocked until the hold is converted, released or expires
+    const allHeldRanges = await this.findHeldRanges(businessId, date, startOfDay, endOfDay, params.holdId);
+    const heldRanges = allHeldRanges
+      .filter(range => !staffId || !range.staffId || range.staffId === staffId);
+    const resourcesFit = await this.loadResourceFitCheck(businessId, [serviceId], startOfDay, endOfDay, allHeldRanges);
+    // Scheduled classes block their instructor even while no seat is booked
+    const classSessions = await this.repositories.classSessionRepository.findScheduledInRange(
+      businessId,
+      startOfDay,
+      endOfDay,
+      staffId
+    );
+    // Approved leave and outside-calendar busy time of the staff member, clipped to the
+    // day (reasons and event details stay private)
+    const timeOff = staffId ? await this.findStaffTimeOff([staffId], startOfDay, endOfDay) : [];
+    const externalBusy = staffId ? await this.findStaffExternalBusy([staffId], startOfDay, endOfDay) : [];
+    const busyRanges = [
+      ...existingAppointments.map(apt => ({ startTime: new Date(apt.startTime), endTime: new Date(apt.endTime) })),
+      ...heldRanges.map(range => ({ startTime: range.start, endTime: range.end })),
+      ...classSessions.map(session => ({ startTime: session.startTime, endTime: session.endTime })),
+      ...[...timeOff, ...externalBusy].map(entry => ({
+        startTime: entry.startTime > startOfDay ? entry.startTime : startOfDay,
+        endTime: entry.endTime < day.end ? entry.endTime : day.end
+      })),
+      ...closedRanges.map(range => ({ startTime: range.start, endTime: range.end }))
+    ];
+
+    // Build booked ranges from existing appointments and holds (safe to expose - no customer data)
+    const bookedRanges = busyRanges.map(range => ({
+      startTime: range.startTime.toISOString(),
+      endTime: range.endTime.toISOString(),
+      duration: Math.round((range.endTime.getTime() - range.startTime.getTime()) / 60000)
     }));
 
     // Generate time slots with 15-minute intervals
-    const workingHour = workingHours[0];
-    const slots: Array<{
-      startTime: string;
-      endTime: string;
-      available: boolean;
-      staffId?: string;
-      staffName?: string;
-    }> = [];
+    const slots: PublicAvailableSlot[] = [];
+    const now = new Date();
+    const slotInterval = 15;
+    // Slots inside the lead time are gone; a day that has not opened yet lists them as taken
+    const earliestStart = earliestBookableStart(booking.window, now);
+    const opensAt = this.bookingOpensAt(booking.window, day, now);
+
+    for (const slotStart of slotStartTimes(window, duration, slotInterval)) {
+      if (slotStart <= now || slotStart < earliestStart) {
+        continue;
+      }
+      const slotEnd = new Date(slotStart.getTime() + duration * 60000);
+      // The buffer after the service has to be free too
+      const bufferedEnd = new Date(slotEnd.getTime() + bufferTime * 60000);
+      const isConflicting = busyRanges.some(range => slotStart < range.endTime && bufferedEnd > range.startTime);
+
+      slots.push({
+        startTime: slotStart.toISOString(),
+        endTime: slotEnd.toISOString(),
+        available: !opensAt && !isConflicting && resourcesFit(serviceId, { start: slotStart, end: slotEnd }),
+        staffId: staffId,
+        staffName: staffId && existingAppointments[0]?.staff
+          ? `${existingAppointments[0].staff.user.firstName || ''} ${existingAppointments[0].staff.user.lastName || ''}`.trim()
+          : undefined,
+        ...this.quoteSlot([{ service: performed, start: slotStart }], booking, now)
+      });
+    }
 
-    const [openHour, openMinute] = workingHour.startTime.split(':').map(Number);
-    const [closeHour, closeMinute] = workingHour.endTime.split(':').map(Number);
+    return {
+      date,
+      timezone: day.timezone,
+      businessId,
+      serviceId,
+      staffId,
+      slots,
+      bookingOpensAt: opensAt?.toISOString(),
+      bookedRanges,
+      businessHours: {
+        isOpen: true,
+        openTime: workingHour.startTime,
+        closeTime: workingHour.endTime
+      },
+      closures: []
+    };
+  }
 
-    let currentSlotTime = new Date(targetDate);
-    currentSlotTime.setHours(openHour, openMinute, 0, 0);
+  /**
+   * Slot listing for group services: the day's scheduled classes, each offered
+   * while it has free seats. Classes are scheduled explicitly by the business, so
+   * working hours do not apply; closures still do.
+   */
+  private async getPublicClassSlots(
+    params: { businessId: string; serviceId: string; date: string; staffId?: string },
+    day: BusinessDay,
+    bookingWindow: BookingWindow
+  ): Promise<PublicAvailableSlotsResult> {
+    const { businessId, serviceId, date, staffId } = params;
+    const result: PublicAvailableSlotsResult = {
+      date,
+      timezone: day.timezone,
+      businessId,
+      serviceId,
+      staffId,
+      slots: [],
+      bookedRanges: [],
+      businessHours: { isOpen: true },
+      closures: []
+    };
 
-    const closingTime = new Date(targetDate);
-    if (closeHour === 0 && closeMinute === 0) {
-      // 00:00 means midnight = end of day → next day's 00:00
-      closingTime.setDate(closingTime.getDate() + 1);
-      closingTime.setHours(0, 0, 0, 0);
-    } else {
-      closingTime.setHours(closeHour, closeMinute, 0, 0);
+    const closures = await this.businessClosureRepository.findByDateRange(businessId, day.start, day.end);
+    const { fullClosure, blocked: closedRanges } = applyClosures(closures, day);
+    if (fullClosure) {
+      return {
+        ...result,
+        businessHours: { isOpen: false },
+        closures: [{ reason: fullClosure.reason, type: fullClosure.type }]
+      };
     }
 
+    const sessions = await this.repositories.classSessionRepository.findByBusiness(businessId, day.start, day.lastMoment, {
+      serviceId,
+      staffId
+    });
     const now = new Date();
-    const slotInterval = 15;
+    const earliestStart = earliestBookableStart(bookingWindow, now);
+    const opensAt = this.bookingOpensAt(bookingWindow, day, now);
+    result.bookingOpensAt = opensAt?.toISOString();
+    result.slots = sessions
+      .filter((session) => session.startTime > now && session.startTime >= earliestStart)
+      .filter((session) => !closedRanges.some((range) => session.startTime < range.end && session.endTime > range.start))
+      .map((session) => {
+        const seatsLeft = Math.max(0, session.maxSeats - session.bookedSeats);
+        return {
+          startTime: session.startTime.toISOString(),
+          endTime: session.endTime.toISOString(),
+          available: !opensAt && seatsLeft > 0,
+          staffId: session.staffId,
+          classSessionId: session.id,
+          maxSeats: session.maxSeats,
+          seatsLeft
+        };
+      });
+
+    return result;
+  }
+
+  /**
+   * Slot listing for a whole service sequence: a start time is available only when
+   * every leg, chained back-to-back, fits its staff member's working hours and does
+   * not overlap that staff member's existing appointments.
+   */
+  private async getPublicAvailableBundleSlots(params: {
+    businessId: string;
+    serviceId: string;
+    date: string;
+    staffId?: string;
+    serviceIds: string[];
+    staffIds?: string[];
+    holdId?: string;
+  }): Promise<PublicAvailableSlotsResult> {
+    const { businessId, serviceId, date, staffId, serviceIds } = params;
 
-    while (currentSlotTime < closingTime) {
-      const slotEndTime = new Date(currentSlotTime);
-      slotEndTime.setMinutes(slotEndTime.getMinutes() + duration);
+    if (!isValidDateString(date)) {
+      throw new AppError('Invalid date format. Use YYYY-MM-DD', 400, ERROR_CODES.INVALID_DATE_FORMAT);
+    }
+
+    if (params.staffIds && params.staffIds.length > serviceIds.length) {
+      throw new AppError('APPOINTMENT_BUNDLE_INVALID', {
+        message: 'staffIds cannot have more entries than serviceIds',
+      });
+    }
 
-      if (slotEndTime > closingTime) {
-        break; // slot ends after closing — skip
+    const legs: Array<{ serviceId: string; staffId?: string; duration: number }> = [];
+    const legServices: ServiceData[] = [];
+    const performedServices: ServiceData[] = [];
+    for (const [index, legServiceId] of serviceIds.entries()) {
+      const service = await this.serviceRepository.findById(legServiceId);
+      if (!service || service.businessId !== businessId || !service.isActive) {
+        throw new AppError('Service not found or does not belong to this business', 404, ERROR_CODES.APPOINTMENT_SERVICE_UNAVAILABLE);
       }
+      this.assertNotGroupService(service);
+      const requestedStaffId = params.staffIds?.[index] || staffId;
+      const legStaffId = await this.resolveBookingStaff(businessId, legServiceId, requestedStaffId);
+      const performed = await this.serviceForStaff(service, legStaffId);
+      legs.push({ serviceId: legServiceId, staffId: legStaffId, duration: performed.duration });
+      legServices.push(service);
+      performedServices.push(performed);
+    }
 
-      if (currentSlotTime > now) {
-        const isConflicting = existingAppointments.some(appointment => {
-          const aptStart = new Date(appointment.startTime);
-          const aptEnd = new Date(appointment.endTime);
-          return (
-            (currentSlotTime >= aptStart && currentSlotTime < aptEnd) ||
-            (slotEndTime > aptStart && slotEndTime <= aptEnd) ||
-            (currentSlotTime <= aptStart && slotEndTime >= aptEnd)
-          );
-        });
+    // Every leg's booking window applies to the sequence
+    const booking = await this.loadBookingWindow(businessId, legServices);
+    const day = resolveBusinessDay(date, booking.timezone);
+    const closedResponse = (closures: PublicAvailableSlotsResult['closures'] = []): PublicAvailableSlotsResult => ({
+      date,
+      timezone: day.timezone,
+      businessId,
+      serviceId,
+      serviceIds,
+      staffId,
+      slots: [],
+      bookedRanges: [],
+      businessHours: { isOpen: false },
+      closures
+    });
+
+    const hoursOverride = await this.businessRepository.findBusinessHoursOverride(businessId, date);
+    if (hoursOverride && !hoursOverride.isOpen) {
+      return closedResponse([{ reason: hoursOverride.reason || 'Özel kapalı gün', type: 'SPECIAL_DAY' }]);
+    }
+
+    const startOfDay = day.start;
+    const endOfDay = day.lastMoment;
 
+    // Working window and busy intervals per distinct staff member of the sequence
+    const windows = new Map<string, TimeInterval>();
+    const windowLabels = new Map<string, { openTime: string; closeTime: string }>();
+    const busy = new Map<string, TimeInterval[]>();
+    const bookedById = new Map<string, PublicAvailableSlotsResult['bookedRanges'][number]>();
+
+    for (const legStaffId of new Set(legs.map((leg) => leg.staffId))) {
+      const key = staffKey(legStaffId);
+      let openTime: string | undefined;
+      let closeTime: string | undefined;
+
+      if (hoursOverride?.openTime && hoursOverride.closeTime) {
+        openTime = hoursOverride.openTime;
+        closeTime = hoursOverride.closeTime;
+      } else {
+        const hours = await this.findWorkingHoursForDay(businessId, day.dayOfWeek, legStaffId);
+        openTime = hours[0]?.startTime;
+        closeTime = hours[0]?.endTime;
+      }
+
+      if (openTime && closeTime) {
+        windows.set(key, openingWindow(day, openTime, closeTime));
+        windowLabels.set(key, { openTime, closeTime });
+      }
+
+      const dayAppointments = await this.appointmentRepository.findAppointmentsForDay(
+        businessId,
+        startOfDay,
+        endOfDay,
+        legStaffId
+      );
+      const dayClasses = await this.repositories.classSessionRepository.findScheduledInRange(
+        businessId,
+        startOfDay,
+        endOfDay,
+        legStaffId
+      );
+      const dayTimeOff = legStaffId ? await this.findStaffTimeOff([legStaffId], startOfDay, endOfDay) : [];
+      const dayExternalBusy = legStaffId ? await this.findStaffExternalBusy([legStaffId], startOfDay, endOfDay) : [];
+      busy.set(key, [
+        ...dayAppointments.map((apt) => ({ start: new Date(apt.startTime), end: new Date(apt.endTime) })),
+        ...dayClasses.map((session) => ({ start: session.startTime, end: session.endTime })),
+        ...[...dayTimeOff, ...dayExternalBusy].map((entry) => ({ start: entry.startTime, end: entry.endTime }))
+      ]);
+      dayAppointments.forEach((apt) => bookedById.set(apt.id, {
+        startTime: new Date(apt.startTime).toISOString(),
+        endTime: new Date(apt.endTime).toISOString(),
+        duration: apt.duration
+      }));
+      dayClasses.forEach((session) => bookedById.set(session.id, {
+        startTime: session.startTime.toISOString(),
+        endTime: session.endTime.toISOString(),
+        duration: Math.round((session.endTime.getTime() - session.startTime.getTime()) / 60000)
+      }));
+    }
+
+    const heldRanges = await this.findHeldRanges(businessId, date, startOfDay, endOfDay, params.holdId);
+    for (const [key, intervals] of busy) {
+      heldRanges
+        .filter((range) => !range.staffId || key === staffKey(undefined) || key === staffKey(range.staffId))
+        .forEach((range) => intervals.push({ start: range.start, end: range.end }));
+    }
+    const resourcesFit = await this.loadResourceFitCheck(businessId, serviceIds, startOfDay, endOfDay, heldRanges);
+
+    const firstWindow = windows.get(staffKey(legs[0].staffId));
+    if (!firstWindow || legs.some((leg) => !windows.has(staffKey(leg.staffId)))) {
+      return closedResponse();
+    }
+
+    // A closure spanning every leg's opening hours closes the day; shorter ones block their time
+    const openSpan: TimeInterval = {
+      start: new Date(Math.min(...Array.from(windows.values()).map((window) => window.start.getTime()))),
+      end: new Date(Math.max(...Array.from(windows.values()).map((window) => window.end.getTime())))
+    };
+    const closures = await this.businessClosureRepository.findByDateRange(businessId, openSpan.start, openSpan.end);
+    const { fullClosure, blocked: closedRanges } = applyClosures(closures, openSpan);
+    if (fullClosure) {
+      return closedResponse([{ reason: fullClosure.reason, type: fullClosure.type }]);
+    }
+    busy.forEach((intervals) => intervals.push(...closedRanges));
+
+    const slots: PublicAvailableSlot[] = [];
+    const now = new Date();
+    const slotInterval = 15;
+    const earliestStart = earliestBookableStart(booking.window, now);
+    const opensAt = this.bookingOpensAt(booking.window, day, now);
+    const cursor = new Date(firstWindow.start);
+    const latestClose = openSpan.end;
+
+    while (cursor < firstWindow.end) {
+      const plan: BundleLegPlan[] = chainBundleLegs(new Date(cursor), legs);
+      const sequenceEnd = plan[plan.length - 1].endTime;
+
+      if (sequenceEnd > latestClose) {
+        break; // sequence ends after every staff member has closed — skip
+      }
+
+      if (cursor > now && cursor >= earliestStart) {
         slots.push({
-          startTime: currentSlotTime.toISOString(),
-          endTime: slotEndTime.toISOString(),
-          available: !isConflicting,
-          staffId: staffId,
-          staffName: staffId && existingAppointments[0]?.staff
-            ? `${existingAppointments[0].staff.user.firstName || ''} ${existingAppointments[0].staff.user.lastName || ''}`.trim()
-            : undefined
+          startTime: cursor.toISOString(),
+          endTime: sequenceEnd.toISOString(),
+          available: !opensAt && bundlePlanFits(plan, windows, busy) &&
+            plan.every((leg) => resourcesFit(leg.serviceId, { start: leg.startTime, end: leg.endTime })),
+          staffId: legs[0].staffId,
+          legs: plan.map((leg) => ({
+            serviceId: leg.serviceId,
+            staffId: leg.staffId,
+            startTime: leg.startTime.toISOString(),
+            endTime: leg.endTime.toISOString()
+          })),
+          ...this.quoteSlot(plan.map((leg, index) => ({ service: performedServices[index], start: leg.startTime })), booking, now)
         });
       }
 
-      currentSlotTime.setMinutes(currentSlotTime.getMinutes() + slotInterval);
+      cursor.setTime(cursor.getTime() + slotInterval * 60000);
     }
 
+    const firstLabels = windowLabels.get(staffKey(legs[0].staffId))!;
     return {
       date,
+      timezone: day.timezone,
       businessId,
       serviceId,
+      serviceIds,
       staffId,
       slots,
-      bookedRanges,
+      bookingOpensAt: opensAt?.toISOString(),
+      bookedRanges: Array.from(bookedById.values()),
       businessHours: {
         isOpen: true,
-        openTime: workingHour.startTime,
-        closeTime: workingHour.endTime
+        openTime: firstLabels.openTime,
+        closeTime: firstLabels.closeTime
       },
       closures: []
     };
   }
-}
\ No newline at end of file
+}
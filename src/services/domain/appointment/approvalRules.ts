@@ -0,0 +1,83 @@
+/**
+ * Pure approval policy helpers shared by booking and the approval timeout job.
+ *
+ * Business.requireApproval sends every customer booking for approval (rule ALWAYS).
+ * Without it a booking waits for approval only when one of the approval policy
+ * rules matches; the first match is stored on the appointment so the decision can
+ * say why it was asked for. Requests left unhandled for timeoutHours are escalated
+ * to the owner once, or rejected.
+ */
+
+import { ApprovalRule } from '../../../types/business';
+import { ApprovalPolicySettings } from '../../../types/businessSettings';
+import { DEFAULT_APPROVAL_POLICY } from '../../../types/cancellationPolicy';
+import { toWallTime } from '../../../utils/timezoneHelper';
+
+export type CustomerRiskLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+/** What is known about a booking when it is made; customer facts are only looked up for rules that are on */
+export interface ApprovalFacts {
+  requireApproval: boolean;
+  start: Date;
+  end: Date;
+  timezone: string;
+  price: number;
+  firstVisit?: boolean;
+  riskLevel?: CustomerRiskLevel;
+}
+
+/** The business's approval policy from its settings JSON, merged with the defaults */
+export function resolveApprovalPolicy(settings: unknown): ApprovalPolicySettings {
+  const stored = settings && typeof settings === 'object'
+    ? (settings as Record<string, unknown>).approvalPolicy as Partial<ApprovalPolicySettings> | undefined
+    : undefined;
+  return { ...DEFAULT_APPROVAL_POLICY, ...stored };
+}
+
+/** The first rule that sends the booking for approval, or null when it is confirmed right away */
+export function findApprovalRule(policy: ApprovalPolicySettings, facts: ApprovalFacts): ApprovalRule | null {
+  if (facts.requireApproval) return 'ALWAYS';
+  if (policy.highRiskCustomers && facts.riskLevel === 'HIGH') return 'HIGH_RISK_CUSTOMER';
+  if (policy.firstTimeCustomers && facts.firstVisit) return 'FIRST_TIME_CUSTOMER';
+  if (policy.priceAbove !== null && facts.price > policy.priceAbove) return 'PRICE_THRESHOLD';
+  if (policy.normalHours && isOutsideHours(facts.start, facts.end, policy.normalHours, facts.timezone)) {
+    return 'OUTSIDE_NORMAL_HOURS';
+  }
+  return null;
+}
+
+/** Whether the booking starts or ends outside the HH:mm window in business time */
+export function isOutsideHours(
+  start: Date,
+  end: Date,
+  hours: { start: string; end: string },
+  timezone: string
+): boolean {
+  const from = toWallTime(start, timezone);
+  const to = toWallTime(end, timezone);
+  const sameDay = from.year === to.year && from.month === to.month && from.day === to.day;
+  // An appointment ending exactly at midnight still belongs to the day it started
+  const endMinutes = sameDay ? to.hour * 60 + to.minute : (to.hour === 0 && to.minute === 0 ? 24 * 60 : Infinity);
+
+  return from.hour * 60 + from.minute < toMinutes(hours.start) || endMinutes > toMinutes(hours.end);
+}
+
+/** What to do with a request still waiting at `now`: REJECT it, ESCALATE it once, or nothing yet */
+export function overdueApprovalAction(
+  appointment: { approvalRequestedAt?: Date; approvalEscalatedAt?: Date; bookedAt: Date },
+  policy: Pick<ApprovalPolicySettings, 'timeoutHours' | 'timeoutAction'>,
+  now: Date
+): 'ESCALATE' | 'REJECT' | null {
+  if (policy.timeoutHours === null) return null;
+
+  const requestedAt = new Date(appointment.approvalRequestedAt ?? appointment.bookedAt).getTime();
+  if (now.getTime() < requestedAt + policy.timeoutHours * 3600000) return null;
+
+  if (policy.timeoutAction === 'REJECT') return 'REJECT';
+  return appointment.approvalEscalatedAt ? null : 'ESCALATE';
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
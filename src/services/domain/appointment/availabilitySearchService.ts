@@ -0,0 +1,218 @@
+import { BusinessRepository } from '../../../repositories/businessRepository';
+import { ServiceRepository } from '../../../repositories/serviceRepository';
+import { StaffRepository, StaffWithUser } from '../../../repositories/staffRepository';
+import {
+  FirstAvailableSearchParams,
+  FirstAvailableSearchResult,
+  FirstAvailableSlot,
+  PublicAvailableSlotsResult
+} from '../../../types/appointment';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+import {
+  addDaysToDateString,
+  formatDateInTimezone,
+  getCalendarDaysBetween,
+  resolveTimezone
+} from '../../../utils/timezoneHelper';
+import { CachePrefix, CacheService, CacheTTL } from '../../core/cacheService';
+import { AppointmentService } from './appointmentService';
+import { TimeInterval } from './bundleScheduling';
+import { openingWindow, resolveBusinessDay } from './businessDay';
+
+/** Longest date range one search may cover. */
+export const MAX_SEARCH_DAYS = 31;
+/** Most staff members one search looks at. */
+export const MAX_SEARCH_STAFF = 10;
+/**
+ * Most day listings (one per staff member and day) one search computes: a week
+ * for ten staff members, a month for two. A walk that reaches it ends early and
+ * reports the last day it covered in `searchedThrough`.
+ */
+export const MAX_SEARCH_STAFF_DAYS = 70;
+export const DEFAULT_SEARCH_LIMIT = 5;
+export const MAX_SEARCH_LIMIT = 20;
+const DEFAULT_SEARCH_DAYS = 7;
+
+/**
+ * "When is the earliest anyone can do this?" across several days and staff.
+ *
+ * Every day and staff member is answered by AppointmentService.getPublicAvailableSlots,
+ * so the search applies exactly the rules of the single-day listing (working hours,
+ * special days, closures, bookings, holds, resources, time off, business timezone).
+ * Days are walked in order and the walk stops at the end of the first day that fills
+ * the limit, as later days can only offer later times, or once MAX_SEARCH_STAFF_DAYS
+ * listings were computed.
+ *
+ * Each day's listing is cached per staff member for CacheTTL.REALTIME, shared by all
+ * customers and by searches with different windows or limits. The key sits under the
+ * business's appointment namespace, so appointment writes clear it along with the
+ * rest of the business's appointment cache; a booking still checks the slot again,
+ * and slots that started in the meantime are dropped on every read.
+ */
+export class AvailabilitySearchService {
+  constructor(
+    private readonly appointmentService: AppointmentService,
+    private readonly serviceRepository: ServiceRepository,
+    private readonly staffRepository: StaffRepository,
+    private readonly businessRepository: BusinessRepository,
+    private readonly cacheService: CacheService
+  ) {}
+
+  async findFirstAvailable(
+    businessId: string,
+    params: FirstAvailableSearchParams
+  ): Promise<FirstAvailableSearchResult> {
+    const business = await this.businessRepository.findById(businessId);
+    if (!business) {
+      throw new AppError('BUSINESS_NOT_FOUND', { message: 'Business not found' });
+    }
+    const service = await this.serviceRepository.findById(params.serviceId);
+    if (!service || service.businessId !== businessId || !service.isActive) {
+      throw new AppError('APPOINTMENT_SERVICE_UNAVAILABLE', {
+        message: 'Service not found or does not belong to this business'
+      });
+    }
+
+    const timezone = resolveTimezone(business.timezone);
+    const today = formatDateInTimezone(new Date(), timezone);
+    const from = params.from && params.from > today ? params.from : today;
+    const to = params.to || addDaysToDateString(from, DEFAULT_SEARCH_DAYS - 1);
+    if (to < from) {
+      throw new AppError('INVALID_DATE_FORMAT', { message: 'to must not be before from' });
+    }
+    if (getCalendarDaysBetween(from, to) >= MAX_SEARCH_DAYS) {
+      throw new AppError('APPOINTMENT_SEARCH_RANGE_TOO_LONG', {
+        message: `A search can cover at most ${MAX_SEARCH_DAYS} days`,
+        params: { maxDays: MAX_SEARCH_DAYS }
+      });
+    }
+
+    const limit = Math.min(Math.max(params.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+    const staff = await this.resolveCandidateStaff(businessId, params.serviceId, params.staffIds);
+    // No staff records at all: the business books without staff, as the single-day listing does
+    const candidates: Array<StaffWithUser | undefined> = staff.length > 0 ? staff : [undefined];
+
+    const found: Array<FirstAvailableSlot & { rank: number }> = [];
+    let date = from;
+    let searchedThrough = from;
+    let listed = 0;
+    while (date <= to) {
+      if (listed > 0 && listed + candidates.length > MAX_SEARCH_STAFF_DAYS) {
+        break;
+      }
+      listed += candidates.length;
+      searchedThrough = date;
+      const day = resolveBusinessDay(date, timezone);
+      const windows = (params.windows || []).map((window) => openingWindow(day, window.from, window.to));
+      const now = new Date();
+
+      const listings = await Promise.all(
+        candidates.map((member) => this.getDaySlots(businessId, params.serviceId, date, member?.id))
+      );
+      listings.forEach((listing, rank) => {
+        const member = candidates[rank];
+        for (const slot of listing.slots) {
+          const interval = { start: new Date(slot.startTime), end: new Date(slot.endTime) };
+          if (!slot.available || interval.start <= now || !fitsWindows(interval, windows)) {
+            continue;
+          }
+          found.push({
+            rank,
+            date,
+            startTime: slot.startTime,
+            endTime: slot.endTime,
+            staffId: member?.id ?? slot.staffId,
+            staffName: member ? staffName(member) : undefined,
+            classSessionId: slot.classSessionId,
+            seatsLeft: slot.seatsLeft,
+            price: slot.price,
+            currency: slot.currency,
+            firstVisitPrice: slot.firstVisitPrice
+          });
+        }
+      });
+
+      if (found.length >= limit) {
+        break;
+      }
+      date = addDaysToDateString(date, 1);
+    }
+
+    // Earliest first; at the same time, staff in the order they were asked for
+    found.sort((a, b) => a.startTime.localeCompare(b.startTime) || a.rank - b.rank);
+
+    return {
+      businessId,
+      serviceId: params.serviceId,
+      timezone,
+      from,
+      to,
+      slots: found.slice(0, limit).map(({ rank: _rank, ...slot }) => slot),
+      searchedThrough
+    };
+  }
+
+  /**
+   * Active staff providing the service, narrowed to `staffIds` when given. Services
+   * without explicit assignments can be done by anyone, as in the public staff list.
+   */
+  private async resolveCandidateStaff(
+    businessId: string,
+    serviceId: string,
+    staffIds?: string[]
+  ): Promise<StaffWithUser[]> {
+    let staff = await this.staffRepository.findByBusinessId(businessId);
+    const assignedStaffIds = await this.serviceRepository.getServiceStaffIds(serviceId);
+    if (assignedStaffIds.length > 0) {
+      staff = staff.filter((member) => assignedStaffIds.includes(member.id));
+    }
+
+    if (staffIds && staffIds.length > 0) {
+      const requested = staffIds
+        .map((staffId) => staff.find((member) => member.id === staffId))
+        .filter((member): member is StaffWithUser => Boolean(member));
+      if (requested.length === 0) {
+        throw new AppError('STAFF_NOT_FOUND', {
+          message: 'None of the requested staff members provide this service'
+        });
+      }
+      staff = requested;
+    }
+
+    return staff.slice(0, MAX_SEARCH_STAFF);
+  }
+
+  private async getDaySlots(
+    businessId: string,
+    serviceId: string,
+    date: string,
+    staffId?: string
+  ): Promise<PublicAvailableSlotsResult> {
+    const load = () => this.appointmentService.getPublicAvailableSlots({ businessId, serviceId, date, staffId });
+    const key = this.cacheService.generateKey(
+      CachePrefix.APPOINTMENT,
+      `slots-${serviceId}-${staffId || 'any'}-${date}`,
+      { businessId, shared: true }
+    );
+
+    try {
+      return (await this.cacheService.get(key, load, { ttl: CacheTTL.REALTIME })) ?? (await load());
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      // Fail open: a cache outage makes the search slower, not unavailable
+      logger.warn('Slot cache unavailable, listing without it', { businessId, serviceId, date, error });
+      return load();
+    }
+  }
+}
+
+function fitsWindows(slot: TimeInterval, windows: TimeInterval[]): boolean {
+  return windows.length === 0 || windows.some((window) => slot.start >= window.start && slot.end <= window.end);
+}
+
+function staffName(member: StaffWithUser): string | undefined {
+  return `${member.user.firstName || ''} ${member.user.lastName || ''}`.trim() || undefined;
+}
@@ -0,0 +1,122 @@
+/**
+ * When a service can be booked: how long before the start at the latest (lead time),
+ * how far ahead at most (horizon) and, optionally, a weekly release of future slots.
+ *
+ * Each service's own values override the business's reservation settings; a booking
+ * or slot covering several services (bundles) has to satisfy all of them. Days are
+ * counted on the business's calendar.
+ */
+
+import { BookingReleaseSchedule } from '../../../types/business';
+import { ReservationSettings } from '../../../types/reservationSettings';
+import {
+  addDaysToDateString,
+  createDateTimeInTimezone,
+  formatDateInTimezone,
+  getDayBoundsInTimezone,
+  getDayOfWeekForDate
+} from '../../../utils/timezoneHelper';
+
+export const DEFAULT_MAX_ADVANCE_BOOKING_DAYS = 30;
+export const DEFAULT_MIN_NOTIFICATION_HOURS = 0;
+
+/** The booking window fields of a service, as mapped or as read straight from Prisma */
+export interface BookingWindowService {
+  minAdvanceBooking?: number | null;
+  maxAdvanceBooking?: number | null;
+  bookingRelease?: BookingReleaseSchedule | null;
+}
+
+export interface BookingWindow {
+  minLeadHours: number;
+  maxAdvanceDays: number;
+  releases: BookingReleaseSchedule[];
+}
+
+export type BookingWindowViolation =
+  | { code: 'APPOINTMENT_TOO_FAR_FUTURE'; message: string; params: { maxDays: number } }
+  | { code: 'APPOINTMENT_NOT_YET_RELEASED'; message: string; params: { opensAt: string } }
+  | { code: 'APPOINTMENT_INSUFFICIENT_ADVANCE'; message: string; params: { minHours: number } };
+
+export function resolveBookingWindow(
+  services: BookingWindowService[],
+  settings?: Partial<ReservationSettings>
+): BookingWindow {
+  const businessMaxDays = settings?.maxAdvanceBookingDays || DEFAULT_MAX_ADVANCE_BOOKING_DAYS;
+  const businessMinHours = settings?.minNotificationHours ?? DEFAULT_MIN_NOTIFICATION_HOURS;
+  if (services.length === 0) {
+    return { minLeadHours: businessMinHours, maxAdvanceDays: businessMaxDays, releases: [] };
+  }
+
+  return {
+    minLeadHours: Math.max(...services.map((service) => service.minAdvanceBooking ?? businessMinHours)),
+    maxAdvanceDays: Math.min(...services.map((service) => service.maxAdvanceBooking ?? businessMaxDays)),
+    releases: services
+      .map((service) => service.bookingRelease)
+      .filter((release): release is BookingReleaseSchedule => Boolean(release))
+  };
+}
+
+/**
+ * Moment a release schedule opens `date`: its first release on or after the day that
+ * lies `weeksAhead` weeks and six days before it.
+ */
+function releaseOpensAt(release: BookingReleaseSchedule, date: string, timezone: string): Date {
+  const earliest = addDaysToDateString(date, -(7 * (release.weeksAhead + 1) - 1));
+  const releaseDay = addDaysToDateString(earliest, (release.dayOfWeek - getDayOfWeekForDate(earliest) + 7) % 7);
+  return createDateTimeInTimezone(releaseDay, release.time, timezone);
+}
+
+/**
+ * First moment customers may book anything on `date` (YYYY-MM-DD in `timezone`):
+ * the day enters the horizon at local midnight `maxAdvanceDays` days before it, and
+ * each release schedule has to have opened it too.
+ */
+export function bookableFrom(window: BookingWindow, date: string, timezone: string): Date {
+  const horizonOpens = getDayBoundsInTimezone(addDaysToDateString(date, -window.maxAdvanceDays), timezone).start;
+  return window.releases.reduce((latest, release) => {
+    const opensAt = releaseOpensAt(release, date, timezone);
+    return opensAt > latest ? opensAt : latest;
+  }, horizonOpens);
+}
+
+/** Earliest start that still respects the lead time. */
+export function earliestBookableStart(window: BookingWindow, now: Date): Date {
+  return new Date(now.getTime() + window.minLeadHours * 60 * 60 * 1000);
+}
+
+export function checkBookingWindow(
+  window: BookingWindow,
+  start: Date,
+  now: Date,
+  timezone: string
+): BookingWindowViolation | null {
+  const date = formatDateInTimezone(start, timezone);
+  const horizonOpens = getDayBoundsInTimezone(addDaysToDateString(date, -window.maxAdvanceDays), timezone).start;
+  if (now < horizonOpens) {
+    return {
+      code: 'APPOINTMENT_TOO_FAR_FUTURE',
+      message: `Cannot book more than ${window.maxAdvanceDays} days in advance`,
+      params: { maxDays: window.maxAdvanceDays }
+    };
+  }
+
+  const opensAt = bookableFrom(window, date, timezone);
+  if (now < opensAt) {
+    return {
+      code: 'APPOINTMENT_NOT_YET_RELEASED',
+      message: `Booking for this date opens at ${opensAt.toISOString()}`,
+      params: { opensAt: opensAt.toISOString() }
+    };
+  }
+
+  if (start < earliestBookableStart(window, now)) {
+    return {
+      code: 'APPOINTMENT_INSUFFICIENT_ADVANCE',
+      message: `Appointment must be booked at least ${window.minLeadHours} hours in advance`,
+      params: { minHours: window.minLeadHours }
+    };
+  }
+
+  return null;
+}
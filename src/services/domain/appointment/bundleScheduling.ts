@@ -0,0 +1,73 @@
+/**
+ * Pure scheduling helpers for multi-service appointment bundles.
+ *
+ * Kept free of I/O so both the booking path (createAppointmentBundle /
+ * rescheduleAppointmentBundle) and the public slot listing share exactly the
+ * same notion of "the whole sequence fits".
+ */
+
+export interface BundleLegInput {
+  serviceId: string;
+  staffId?: string;
+  duration: number;
+}
+
+export interface BundleLegPlan extends BundleLegInput {
+  sequence: number;
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+/** Key used for per-staff maps; unassigned legs share the '' bucket. */
+export function staffKey(staffId?: string | null): string {
+  return staffId || '';
+}
+
+/**
+ * Chains the legs back-to-back starting at `start`. Leg N+1 begins exactly when
+ * leg N ends, which is safe for the `[)` tsrange exclusion constraint even when
+ * consecutive legs share a staff member.
+ */
+export function chainBundleLegs(start: Date, legs: BundleLegInput[]): BundleLegPlan[] {
+  let cursor = start.getTime();
+  return legs.map((leg, index) => {
+    const legStart = new Date(cursor);
+    cursor += leg.duration * 60000;
+    return {
+      ...leg,
+      sequence: index + 1,
+      startTime: legStart,
+      endTime: new Date(cursor),
+    };
+  });
+}
+
+export function intervalsOverlap(a: TimeInterval, b: TimeInterval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * True when every leg lies inside its staff member's working window and does not
+ * overlap any busy interval of that staff member. Legs whose staff has no window
+ * for the day never fit.
+ */
+export function bundlePlanFits(
+  plan: BundleLegPlan[],
+  windows: Map<string, TimeInterval>,
+  busy: Map<string, TimeInterval[]>
+): boolean {
+  return plan.every((leg) => {
+    const key = staffKey(leg.staffId);
+    const window = windows.get(key);
+    if (!window) return false;
+    if (leg.startTime < window.start || leg.endTime > window.end) return false;
+
+    const legInterval = { start: leg.startTime, end: leg.endTime };
+    return !(busy.get(key) || []).some((interval) => intervalsOverlap(legInterval, interval));
+  });
+}
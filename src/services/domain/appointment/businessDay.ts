@@ -0,0 +1,95 @@
+/**
+ * Pure helpers for one calendar day of a business in the business's own timezone.
+ *
+ * Working hours, special-day overrides and slot times are wall-clock values of the
+ * business ("09:00–18:00 in Europe/Berlin"); appointments, holds, closures and time
+ * off are stored as instants. Everything the slot listing and the booking checks
+ * compare is turned into instants here, so the result does not depend on the
+ * server's timezone and stays right on days the clocks change (23 or 25 hours long).
+ */
+
+import { BusinessClosureData } from '../../../types/business';
+import {
+  createDateTimeInTimezone,
+  getDayBoundsInTimezone,
+  getDayOfWeekForDate
+} from '../../../utils/timezoneHelper';
+import { TimeInterval } from './bundleScheduling';
+
+export interface BusinessDay {
+  /** YYYY-MM-DD in the business's timezone */
+  date: string;
+  timezone: string;
+  /** 0 = Sunday, matching WorkingHours.dayOfWeek */
+  dayOfWeek: number;
+  /** Local midnight */
+  start: Date;
+  /** Following local midnight (exclusive) */
+  end: Date;
+  /** Last millisecond of the day, for repository queries with inclusive bounds */
+  lastMoment: Date;
+}
+
+export function resolveBusinessDay(date: string, timezone: string): BusinessDay {
+  const { start, end } = getDayBoundsInTimezone(date, timezone);
+  return {
+    date,
+    timezone,
+    dayOfWeek: getDayOfWeekForDate(date),
+    start,
+    end,
+    lastMoment: new Date(end.getTime() - 1)
+  };
+}
+
+/**
+ * Opening window of the day from HH:MM working hours. A closing time of 00:00 (or
+ * 24:00) means the following midnight, as does any closing time not after opening.
+ */
+export function openingWindow(day: BusinessDay, openTime: string, closeTime: string): TimeInterval {
+  const start = createDateTimeInTimezone(day.date, openTime, day.timezone);
+  const end = closeTime === '00:00' || closeTime === '24:00'
+    ? day.end
+    : createDateTimeInTimezone(day.date, closeTime, day.timezone);
+  return { start, end: end > start ? end : day.end };
+}
+
+/**
+ * Start times every `intervalMinutes` from the window's opening for which a slot of
+ * `durationMinutes` still ends by closing. Steps are in elapsed time, so a window
+ * spanning a DST change yields the same number of slots as its real length allows.
+ */
+export function slotStartTimes(window: TimeInterval, durationMinutes: number, intervalMinutes: number): Date[] {
+  const starts: Date[] = [];
+  const durationMs = durationMinutes * 60000;
+  for (let cursor = window.start.getTime(); cursor + durationMs <= window.end.getTime(); cursor += intervalMinutes * 60000) {
+    starts.push(new Date(cursor));
+  }
+  return starts;
+}
+
+/**
+ * Splits the closures overlapping a window into the one that shuts all of it, if
+ * any, and the stretches that closures shut only part of it.
+ */
+export function applyClosures(
+  closures: BusinessClosureData[],
+  window: TimeInterval
+): { fullClosure?: BusinessClosureData; blocked: TimeInterval[] } {
+  const blocked: TimeInterval[] = [];
+  for (const closure of closures) {
+    const start = new Date(closure.startDate);
+    const end = closure.endDate ? new Date(closure.endDate) : null;
+    if (start >= window.end || (end && end <= window.start)) {
+      continue;
+    }
+    if (start <= window.start && (!end || end >= window.end)) {
+      return { fullClosure: closure, blocked: [] };
+    }
+    blocked.push({
+      start: start > window.start ? start : window.start,
+      end: end && end < window.end ? end : window.end
+    });
+  }
+  return { blocked };
+}
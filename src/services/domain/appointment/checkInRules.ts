@@ -0,0 +1,38 @@
+/**
+ * Pure check-in helpers shared by the check-in service, the no-show job and the monitor.
+ *
+ * A customer can check in from checkInOpensMinutesBefore the start until the
+ * no-show grace period after it. At businesses tracking no-shows, an appointment
+ * still without a check-in when that window closes becomes a NO_SHOW.
+ */
+
+import { CheckInPolicySettings } from '../../../types/businessSettings';
+import { DEFAULT_CHECK_IN_POLICY } from '../../../types/cancellationPolicy';
+
+/** The business's check-in policy from its settings JSON, merged with the defaults */
+export function resolveCheckInPolicy(settings: unknown): CheckInPolicySettings {
+  const stored = settings && typeof settings === 'object'
+    ? (settings as Record<string, unknown>).checkInPolicy as Partial<CheckInPolicySettings> | undefined
+    : undefined;
+  return { ...DEFAULT_CHECK_IN_POLICY, ...stored };
+}
+
+export function checkInWindow(
+  startTime: Date,
+  policy: Pick<CheckInPolicySettings, 'noShowGraceMinutes' | 'checkInOpensMinutesBefore'>
+): { opensAt: Date; closesAt: Date } {
+  const start = new Date(startTime).getTime();
+  return {
+    opensAt: new Date(start - policy.checkInOpensMinutesBefore * 60000),
+    closesAt: new Date(start + policy.noShowGraceMinutes * 60000)
+  };
+}
+
+/** Whether an appointment nobody checked in for is due to be marked NO_SHOW */
+export function isNoShowDue(
+  startTime: Date,
+  policy: Pick<CheckInPolicySettings, 'trackNoShows' | 'noShowGraceMinutes' | 'checkInOpensMinutesBefore'>,
+  now: Date
+): boolean {
+  return policy.trackNoShows && now >= checkInWindow(startTime, policy).closesAt;
+}
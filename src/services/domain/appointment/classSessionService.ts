@@ -0,0 +1,320 @@
+import { randomUUID } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { AppointmentData, ServiceData } from '../../../types/business';
+import {
+  BookClassSeatRequest,
+  ClassSessionData,
+  ClassSessionFilters,
+  ClassSessionWithRoster,
+  CreateClassSessionRequest,
+  UpdateClassSessionRequest
+} from '../../../types/appointment';
+import { AppointmentRepository } from '../../../repositories/appointmentRepository';
+import { BusinessClosureRepository } from '../../../repositories/businessClosureRepository';
+import { BusinessRepository } from '../../../repositories/businessRepository';
+import { ClassSessionRepository } from '../../../repositories/classSessionRepository';
+import { ServiceRepository } from '../../../repositories/serviceRepository';
+import { StaffRepository } from '../../../repositories/staffRepository';
+import { PrismaUserRepository } from '../../../repositories/userRepository';
+import { ERROR_CODES } from '../../../constants/errorCodes';
+import { PermissionName } from '../../../types/auth';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+import { ClassMessages } from '../../../utils/smsMessageTemplates';
+import {
+  createCalendarDate,
+  createDateTimeInTimezone,
+  getCalendarDaysBetween,
+  getDayBoundsInTimezone,
+  resolveTimezone
+} from '../../../utils/timezoneHelper';
+import { UnifiedNotificationGateway } from '../notification/unifiedNotificationGateway';
+import { AppointmentService } from './appointmentService';
+
+const CLASS_OVERLAP_CONSTRAINT_NAME = 'class_sessions_no_overlap_per_staff';
+
+/** Longest range a single listing may cover */
+const MAX_LISTING_DAYS = 62;
+
+function isClassOverlapConstraintError(e: unknown): boolean {
+  const message = String((e as { message?: unknown })?.message || '');
+  const cause = String((e as { meta?: { cause?: unknown } })?.meta?.cause || '');
+  return message.includes(CLASS_OVERLAP_CONSTRAINT_NAME) || cause.includes(CLASS_OVERLAP_CONSTRAINT_NAME);
+}
+
+/**
+ * Group classes ("Tuesday 18:00 yoga, 12 mats").
+ *
+ * The business schedules a ClassSession for a group service; customers then book
+ * seats, each of which is an ordinary Appointment with `classSessionId` set (see
+ * AppointmentService.bookClassSeat). The session blocks its instructor for the
+ * whole time range, so one-to-one bookings cannot be squeezed into a class.
+ */
+export class ClassSessionService {
+  constructor(
+    private readonly classSessionRepository: ClassSessionRepository,
+    private readonly appointmentRepository: AppointmentRepository,
+    private readonly serviceRepository: ServiceRepository,
+    private readonly staffRepository: StaffRepository,
+    private readonly userRepository: PrismaUserRepository,
+    private readonly businessRepository: BusinessRepository,
+    private readonly businessClosureRepository: BusinessClosureRepository,
+    private readonly appointmentService: AppointmentService,
+    private readonly notificationGateway: UnifiedNotificationGateway,
+    private readonly prisma: PrismaClient
+  ) {}
+
+  async createSession(
+    userId: string,
+    businessId: string,
+    data: CreateClassSessionRequest
+  ): Promise<ClassSessionData> {
+    await this.appointmentService.assertBusinessAppointmentAccess(userId, businessId, PermissionName.EDIT_ALL_APPOINTMENTS, PermissionName.EDIT_OWN_APPOINTMENTS);
+    const service = await this.getGroupService(businessId, data.serviceId);
+
+    const staff = await this.staffRepository.findById(data.staffId);
+    if (!staff || staff.businessId !== businessId) {
+      throw new AppError('Staff member does not belong to this business', 400, ERROR_CODES.STAFF_NOT_FOUND);
+    }
+    if (!staff.isActive) {
+      throw new AppError('Staff member is not active', 400, ERROR_CODES.STAFF_NOT_AVAILABLE);
+    }
+
+    const timezone = await this.getBusinessTimezone(businessId);
+    const startTime = createDateTimeInTimezone(data.date, data.startTime, timezone);
+    const endTime = new Date(startTime.getTime() + service.duration * 60000);
+    if (startTime <= new Date()) {
+      throw new AppError('Cannot schedule a class in the past', 400, ERROR_CODES.APPOINTMENT_PAST_DATE);
+    }
+
+    await this.assertBusinessOpen(businessId, data.date, startTime);
+
+    const date = createCalendarDate(data.date);
+    const overlapping = await this.appointmentRepository.findConflictingAppointments(
+      businessId,
+      date,
+      startTime,
+      endTime,
+      data.staffId
+    );
+    if (overlapping.length > 0 || await this.appointmentService.findClassConflict(businessId, startTime, endTime, data.staffId)) {
+      throw new AppError('CLASS_SESSION_STAFF_CONFLICT', {
+        message: 'The instructor is busy at the selected time',
+        params: { staffId: data.staffId },
+      });
+    }
+
+    let session: ClassSessionData;
+    try {
+      session = await this.prisma.$transaction(async (tx) => {
+        // The room is taken once per class, not once per seat
+        const shortage = await this.appointmentService.findResourceConflict(businessId, service.id, startTime, endTime, { tx });
+        if (shortage) {
+          throw new AppError('APPOINTMENT_RESOURCE_UNAVAILABLE', {
+            message: 'A required resource is fully booked at the selected time',
+            params: { resourceId: shortage.resourceId, capacity: shortage.capacity },
+          });
+        }
+
+        return this.classSessionRepository.create({
+          id: `cls_${randomUUID()}`,
+          businessId,
+          serviceId: service.id,
+          staffId: data.staffId,
+          date,
+          startTime,
+          endTime,
+          maxSeats: data.maxSeats ?? service.maxSeats,
+          notes: data.notes,
+          createdBy: userId
+        }, tx);
+      });
+    } catch (e: unknown) {
+      if (isClassOverlapConstraintError(e)) {
+        throw new AppError('CLASS_SESSION_STAFF_CONFLICT', {
+          message: 'The instructor already teaches a class at the selected time',
+          params: { staffId: data.staffId },
+        });
+      }
+      throw e;
+    }
+
+    logger.info('Class session scheduled', { userId, businessId, sessionId: session.id, serviceId: service.id });
+    return session;
+  }
+
+  /**
+   * Classes of a business in a date range. Any signed-in user may list them to
+   * pick a class; rosters are only returned by getSession to the business.
+   */
+  async getBusinessSessions(businessId: string, filters: ClassSessionFilters): Promise<ClassSessionData[]> {
+    const timezone = await this.getBusinessTimezone(businessId);
+    const from = getDayBoundsInTimezone(filters.from, timezone).start;
+    const to = getDayBoundsInTimezone(filters.to, timezone).end;
+    const days = getCalendarDaysBetween(filters.from, filters.to);
+    if (days < 0 || days > MAX_LISTING_DAYS) {
+      throw new AppError('VALIDATION_ERROR', {
+        message: `Date range must be between 1 and ${MAX_LISTING_DAYS} days`,
+        params: { field: 'to' },
+      });
+    }
+
+    return this.classSessionRepository.findByBusiness(businessId, from, to, {
+      serviceId: filters.serviceId,
+      staffId: filters.staffId,
+      includeCanceled: filters.includeCanceled
+    });
+  }
+
+  async getSession(userId: string, sessionId: string): Promise<ClassSessionWithRoster> {
+    const session = await this.getSessionOrThrow(sessionId);
+    await this.appointmentService.assertBusinessAppointmentAccess(userId, session.businessId, PermissionName.VIEW_ALL_APPOINTMENTS, PermissionName.VIEW_OWN_APPOINTMENTS);
+
+    const roster = await this.classSessionRepository.findRoster(sessionId);
+    return { ...session, roster };
+  }
+
+  /** Changes seat count or notes; time and instructor changes mean cancelling and rescheduling. */
+  async updateSession(
+    userId: string,
+    sessionId: string,
+    data: UpdateClassSessionRequest
+  ): Promise<ClassSessionData> {
+    const session = await this.getScheduledSessionOrThrow(sessionId);
+    await this.appointmentService.assertBusinessAppointmentAccess(userId, session.businessId, PermissionName.EDIT_ALL_APPOINTMENTS, PermissionName.EDIT_OWN_APPOINTMENTS);
+
+    if (data.maxSeats !== undefined && data.maxSeats < session.bookedSeats) {
+      throw new AppError('CLASS_SESSION_SEATS_BELOW_BOOKED', {
+        message: 'Seats cannot be reduced below the number already booked',
+        params: { bookedSeats: session.bookedSeats },
+      });
+    }
+
+    return this.classSessionRepository.update(sessionId, {
+      ...(data.maxSeats !== undefined ? { maxSeats: data.maxSeats } : {}),
+      ...(data.notes !== undefined ? { notes: data.notes } : {})
+    });
+  }
+
+  async bookSeat(userId: string, sessionId: string, data: BookClassSeatRequest): Promise<AppointmentData> {
+    const session = await this.getScheduledSessionOrThrow(sessionId);
+    if (session.startTime <= new Date()) {
+      throw new AppError('CLASS_SESSION_NOT_ACTIVE', { message: 'This class has already started' });
+    }
+
+    return this.appointmentService.bookClassSeat(userId, session, data);
+  }
+
+  /**
+   * Cancels the whole class: every active seat is cancelled as a business
+   * cancellation and each attendee gets an SMS. Attendees cancelled this way do
+   * not collect no-show or late-cancellation strikes.
+   */
+  async cancelSession(userId: string, sessionId: string, reason?: string): Promise<ClassSessionWithRoster> {
+    const session = await this.getScheduledSessionOrThrow(sessionId);
+    await this.appointmentService.assertBusinessAppointmentAccess(userId, session.businessId, PermissionName.CANCEL_ALL_APPOINTMENTS, PermissionName.CANCEL_OWN_APPOINTMENTS);
+
+    const cancelledSeats = await this.classSessionRepository.cancelWithSeats(sessionId, reason, {
+      channel: 'STAFF_PANEL',
+      actorId: userId,
+      reason
+    });
+    logger.info('Class session cancelled', { userId, sessionId, cancelledSeats: cancelledSeats.length });
+
+    await this.notifyAttendees(session, cancelledSeats, reason);
+
+    return this.getSession(userId, sessionId);
+  }
+
+  // ===== helpers =====
+
+  /** One SMS per attendee; a failed message never undoes the cancellation. */
+  private async notifyAttendees(
+    session: ClassSessionData,
+    seats: AppointmentData[],
+    reason?: string
+  ): Promise<void> {
+    if (seats.length === 0) {
+      return;
+    }
+
+    const [business, service] = await Promise.all([
+      this.businessRepository.findById(session.businessId),
+      this.serviceRepository.findById(session.serviceId)
+    ]);
+    if (!business || !service) {
+      return;
+    }
+
+    const appointmentDate = session.startTime.toLocaleDateString('tr-TR', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'Europe/Istanbul' });
+    const appointmentTime = session.startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/Istanbul' });
+
+    for (const seat of seats) {
+      try {
+        const customer = await this.userRepository.findById(seat.customerId);
+        if (!customer?.phoneNumber) {
+          continue;
+        }
+
+        const message = ClassMessages.classCancelled({
+          customerName: customer.firstName || '',
+          businessName: business.name,
+          serviceName: service.name,
+          appointmentDate,
+          appointmentTime,
+          reason
+        });
+        await this.notificationGateway.sendCriticalSMS(customer.phoneNumber, message, {
+          requestId: `class-cancel-${seat.id}`
+        });
+      } catch (error) {
+        logger.error('Failed to notify class attendee', { sessionId: session.id, appointmentId: seat.id, error });
+      }
+    }
+  }
+
+  private async getBusinessTimezone(businessId: string): Promise<string> {
+    const business = await this.businessRepository.findById(businessId);
+    return resolveTimezone(business?.timezone);
+  }
+
+  private async assertBusinessOpen(businessId: string, date: string, startTime: Date): Promise<void> {
+    const { isClosed, closure } = await this.businessClosureRepository.isBusinessClosed(businessId, startTime);
+    const override = await this.businessRepository.findBusinessHoursOverride(businessId, date);
+    if (isClosed || (override && !override.isOpen)) {
+      const reason = closure?.reason || override?.reason;
+      throw new AppError(
+        reason ? `Business is closed on this date: ${reason}` : 'Business is closed on this date',
+        400,
+        ERROR_CODES.BUSINESS_CLOSED
+      );
+    }
+  }
+
+  private async getGroupService(businessId: string, serviceId: string): Promise<ServiceData> {
+    const service = await this.serviceRepository.findById(serviceId);
+    if (!service || !service.isActive || service.businessId !== businessId || !service.isGroupSession) {
+      throw new AppError('CLASS_SESSION_SERVICE_INVALID', {
+        message: 'Classes can only be scheduled for active group services',
+        params: { serviceId },
+      });
+    }
+    return service;
+  }
+
+  private async getSessionOrThrow(sessionId: string): Promise<ClassSessionData> {
+    const session = await this.classSessionRepository.findById(sessionId);
+    if (!session) {
+      throw new AppError('CLASS_SESSION_NOT_FOUND', { message: 'Class not found' });
+    }
+    return session;
+  }
+
+  private async getScheduledSessionOrThrow(sessionId: string): Promise<ClassSessionData> {
+    const session = await this.getSessionOrThrow(sessionId);
+    if (session.status !== 'SCHEDULED') {
+      throw new AppError('CLASS_SESSION_NOT_ACTIVE', { message: 'This class was cancelled' });
+    }
+    return session;
+  }
+}
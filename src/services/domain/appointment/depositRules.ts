@@ -0,0 +1,63 @@
+/**
+ * Pure deposit helpers shared by booking and settlement.
+ *
+ * A service asks for either a fixed amount or a percentage of its price. When an
+ * appointment holding a paid deposit ends without being completed, the business'
+ * cancellation policy decides how much goes back to the customer.
+ */
+
+import { CancellationPolicySettings } from '../../../types/businessSettings';
+import { DepositSettlement, DepositSettlementReason, DepositType } from '../../../types/deposit';
+
+/** Minutes a customer has to pay the deposit before the slot is released */
+export const DEPOSIT_PAYMENT_WINDOW_MINUTES = 15;
+
+const roundToKurus = (amount: number): number => Math.round(amount * 100) / 100;
+
+/** Deposit due for a booking of `service`; 0 when the service takes no deposit. */
+export function calculateDepositAmount(service: {
+  depositType: DepositType;
+  depositValue?: number | null;
+  price: number;
+}): number {
+  const value = service.depositValue ?? 0;
+  if (service.depositType === 'NONE' || value <= 0 || service.price <= 0) {
+    return 0;
+  }
+
+  const amount = service.depositType === 'PERCENTAGE'
+    ? (service.price * Math.min(value, 100)) / 100
+    : Math.min(value, service.price);
+
+  return roundToKurus(amount);
+}
+
+/**
+ * Splits a paid deposit into a refund and a forfeited part.
+ *  - business cancellation or rejection: full refund
+ *  - no-show: fully forfeited
+ *  - customer cancellation with at least minCancellationHours notice: full refund,
+ *    later: lateCancellationDepositRefundPercent is refunded and the rest forfeited
+ */
+export function resolveDepositSettlement(
+  paidAmount: number,
+  reason: DepositSettlementReason,
+  hoursBeforeStart: number,
+  policy: Pick<CancellationPolicySettings, 'minCancellationHours' | 'lateCancellationDepositRefundPercent'>
+): DepositSettlement {
+  switch (reason) {
+    case 'BUSINESS_CANCEL':
+    case 'REJECTED':
+      return { refundAmount: paidAmount, forfeitAmount: 0 };
+    case 'NO_SHOW':
+      return { refundAmount: 0, forfeitAmount: paidAmount };
+    case 'CUSTOMER_CANCEL': {
+      if (hoursBeforeStart >= policy.minCancellationHours) {
+        return { refundAmount: paidAmount, forfeitAmount: 0 };
+      }
+      const percent = Math.min(Math.max(policy.lateCancellationDepositRefundPercent ?? 0, 0), 100);
+      const refundAmount = roundToKurus((paidAmount * percent) / 100);
+      return { refundAmount, forfeitAmount: roundToKurus(paidAmount - refundAmount) };
+    }
+  }
+}
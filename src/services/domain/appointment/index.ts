@@ -1,3 +1,10 @@
 // Appointment Domain Services - Index
 export { AppointmentService } from './appointmentService';
+export { AppointmentApprovalService } from './appointmentApprovalService';
+export { AppointmentCheckInService } from './appointmentCheckInService';
+export { AppointmentDepositService } from './appointmentDepositService';
 export { AppointmentRescheduleService } from './appointmentRescheduleService';
+export { AppointmentSeriesService } from './appointmentSeriesService';
+export { AvailabilitySearchService } from './availabilitySearchService';
+export { ClassSessionService } from './classSessionService';
+export { SlotHoldService } from './slotHoldService';
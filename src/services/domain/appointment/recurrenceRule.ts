@@ -0,0 +1,172 @@
+/**
+ * Minimal recurrence rules for standing bookings.
+ *
+ * Supports the RFC 5545 subset businesses actually use for appointments:
+ *   FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10
+ *   FREQ=MONTHLY;UNTIL=20270101
+ * Dates are handled as calendar days (YYYY-MM-DD) using UTC arithmetic so that
+ * expansion is independent of the server timezone; the time of day is applied
+ * later with createDateTimeInTimezone in the business' timezone, like every other
+ * booking path.
+ */
+
+import { AppError } from '../../../types/responseTypes';
+import { ERROR_CODES } from '../../../constants/errorCodes';
+
+export type RecurrenceFrequency = 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** Weekdays (0 = Sunday) for WEEKLY rules; defaults to the weekday of the start date */
+  byDay?: number[];
+  count?: number;
+  /** Last allowed occurrence date, YYYY-MM-DD (inclusive) */
+  until?: string;
+}
+
+export interface ExpandOptions {
+  /** Hard cap on generated occurrences regardless of COUNT/UNTIL */
+  maxOccurrences?: number;
+  /** Stop at this date (YYYY-MM-DD, inclusive) even if the rule continues */
+  horizonEnd?: string;
+}
+
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function invalidRule(detail: string): AppError {
+  return new AppError(
+    `Invalid recurrence rule: ${detail}`,
+    400,
+    ERROR_CODES.APPOINTMENT_SERIES_INVALID_RULE,
+    true,
+    { detail }
+  );
+}
+
+function parseDay(value: string): number {
+  const [y, m, d] = value.split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+function formatDay(ms: number): string {
+  return new Date(ms).toISOString().split('T')[0];
+}
+
+export function parseRecurrenceRule(rrule: string): RecurrenceRule {
+  const parts = rrule.replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const fields = new Map<string, string>();
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) throw invalidRule(part);
+    fields.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = fields.get('FREQ');
+  if (freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw invalidRule('FREQ must be WEEKLY or MONTHLY');
+  }
+
+  const interval = fields.has('INTERVAL') ? Number(fields.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 12) {
+    throw invalidRule('INTERVAL must be between 1 and 12');
+  }
+
+  const rule: RecurrenceRule = { freq, interval };
+
+  if (fields.has('BYDAY')) {
+    if (freq !== 'WEEKLY') throw invalidRule('BYDAY is only supported for WEEKLY rules');
+    const days = fields.get('BYDAY')!.split(',').map((code) => WEEKDAY_CODES.indexOf(code));
+    if (days.some((day) => day < 0)) throw invalidRule('BYDAY contains an unknown weekday');
+    rule.byDay = Array.from(new Set(days)).sort((a, b) => a - b);
+  }
+
+  if (fields.has('COUNT')) {
+    const count = Number(fields.get('COUNT'));
+    if (!Number.isInteger(count) || count < 1 || count > MAX_SERIES_OCCURRENCES) {
+      throw invalidRule(`COUNT must be between 1 and ${MAX_SERIES_OCCURRENCES}`);
+    }
+    rule.count = count;
+  }
+
+  if (fields.has('UNTIL')) {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(fields.get('UNTIL')!);
+    if (!match) throw invalidRule('UNTIL must be YYYYMMDD');
+    rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  if (rule.count && rule.until) {
+    throw invalidRule('COUNT and UNTIL cannot be combined');
+  }
+
+  return rule;
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+/**
+ * Expands a rule into occurrence dates (YYYY-MM-DD), starting at `startDate`.
+ * The start date is always the first candidate; COUNT counts from it, so
+ * re-expanding the same rule always yields the same prefix of dates.
+ * Monthly rules skip months that lack the start day (e.g. the 31st).
+ */
+export function expandOccurrences(
+  rule: RecurrenceRule,
+  startDate: string,
+  options: ExpandOptions = {}
+): string[] {
+  const maxOccurrences = Math.min(options.maxOccurrences ?? MAX_SERIES_OCCURRENCES, rule.count ?? Infinity);
+  const start = parseDay(startDate);
+  const limits = [rule.until, options.horizonEnd].filter((v): v is string => !!v).map(parseDay);
+  const end = limits.length > 0 ? Math.min(...limits) : Infinity;
+
+  const result: string[] = [];
+  if (rule.freq === 'WEEKLY') {
+    const startWeekday = new Date(start).getUTCDay();
+    const days = rule.byDay && rule.byDay.length > 0 ? rule.byDay : [startWeekday];
+    // Week buckets are anchored on the Sunday of the start week
+    const weekAnchor = start - startWeekday * DAY_MS;
+    for (let week = 0; result.length < maxOccurrences; week += rule.interval) {
+      const weekStart = weekAnchor + week * 7 * DAY_MS;
+      if (weekStart > end) break;
+      for (const day of days) {
+        const candidate = weekStart + day * DAY_MS;
+        if (candidate < start || candidate > end) continue;
+        result.push(formatDay(candidate));
+        if (result.length >= maxOccurrences) break;
+      }
+    }
+    return result;
+  }
+
+  const first = new Date(start);
+  const dayOfMonth = first.getUTCDate();
+  for (let step = 0; result.length < maxOccurrences; step += rule.interval) {
+    const monthIndex = first.getUTCMonth() + step;
+    const candidate = Date.UTC(first.getUTCFullYear(), monthIndex, dayOfMonth);
+    if (Date.UTC(first.getUTCFullYear(), monthIndex, 1) > end) break;
+    // Date.UTC rolls over (Feb 31 → Mar 3); skip months that lack the day
+    if (new Date(candidate).getUTCDate() !== dayOfMonth) continue;
+    if (candidate > end) break;
+    result.push(formatDay(candidate));
+  }
+  return result;
+}
+
+/** Returns the rule with UNTIL set to the day before `date`, used to split a series. */
+export function endRuleBefore(rule: RecurrenceRule, date: string): RecurrenceRule {
+  const { count: _count, ...rest } = rule;
+  return { ...rest, until: formatDay(parseDay(date) - DAY_MS) };
+}
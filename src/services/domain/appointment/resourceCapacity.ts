@@ -0,0 +1,71 @@
+/**
+ * Pure capacity helpers for shared resources (rooms, chairs, equipment).
+ *
+ * Staff overlap is guarded by the `appointments_no_overlap_per_staff` exclusion
+ * constraint; resources can be used by several appointments at once up to their
+ * capacity, so they are checked here instead. Both the booking path and the
+ * public slot listing use these helpers so they agree on "the room is free".
+ */
+
+import { ResourceBooking, ResourceNeed, ResourceShortage } from '../../../types/resource';
+import { TimeInterval, intervalsOverlap } from './bundleScheduling';
+
+/**
+ * Highest number of units of `resourceId` used at the same moment within
+ * `window`. Bookings touching end-to-start do not overlap (`[)` ranges).
+ */
+export function peakResourceUsage(
+  bookings: ResourceBooking[],
+  resourceId: string,
+  window: TimeInterval
+): number {
+  const events: Array<{ at: number; delta: number }> = [];
+  for (const booking of bookings) {
+    if (booking.resourceId !== resourceId || !intervalsOverlap(booking, window)) {
+      continue;
+    }
+    events.push({ at: Math.max(booking.start.getTime(), window.start.getTime()), delta: booking.quantity });
+    events.push({ at: Math.min(booking.end.getTime(), window.end.getTime()), delta: -booking.quantity });
+  }
+
+  // Releases sort before acquisitions at the same instant
+  events.sort((a, b) => a.at - b.at || a.delta - b.delta);
+
+  let current = 0;
+  let peak = 0;
+  for (const event of events) {
+    current += event.delta;
+    peak = Math.max(peak, current);
+  }
+  return peak;
+}
+
+/** First required resource that cannot take the requested units during `window`, if any. */
+export function findResourceShortage(
+  needs: ResourceNeed[],
+  bookings: ResourceBooking[],
+  window: TimeInterval
+): ResourceShortage | null {
+  for (const need of needs) {
+    const inUse = peakResourceUsage(bookings, need.resourceId, window);
+    if (inUse + need.quantity > need.capacity) {
+      return { resourceId: need.resourceId, capacity: need.capacity, inUse, requested: need.quantity };
+    }
+  }
+  return null;
+}
+
+/** Turns service-tagged intervals (appointments, holds) into resource bookings. */
+export function toResourceBookings(
+  intervals: Array<TimeInterval & { serviceId?: string }>,
+  needsByService: Map<string, ResourceNeed[]>
+): ResourceBooking[] {
+  return intervals.flatMap((interval) =>
+    (interval.serviceId ? needsByService.get(interval.serviceId) || [] : []).map((need) => ({
+      start: interval.start,
+      end: interval.end,
+      resourceId: need.resourceId,
+      quantity: need.quantity,
+    }))
+  );
+}
@@ -0,0 +1,314 @@
+import { randomUUID } from 'crypto';
+import { AppointmentRepository } from '../../../repositories/appointmentRepository';
+import { BusinessRepository } from '../../../repositories/businessRepository';
+import { ServiceRepository } from '../../../repositories/serviceRepository';
+import { CreateSlotHoldRequest, SlotHold } from '../../../types/appointment';
+import { BusinessSettings } from '../../../types/reservationSettings';
+import { countTowardDailyLimit } from '../../../constants/appointmentStatus';
+import { ERROR_CODES } from '../../../constants/errorCodes';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+import { applyStaffOverride } from '../offering/staffOverrides';
+import {
+  createCalendarDate,
+  createDateTimeInTimezone,
+  getDayBoundsInTimezone,
+  resolveTimezone
+} from '../../../utils/timezoneHelper';
+import type { CacheManager } from '../../redis-client';
+import { BookingWindow, BookingWindowService, checkBookingWindow, resolveBookingWindow } from './bookingWindow';
+
+/** How long a checkout hold keeps a slot reserved. */
+export const SLOT_HOLD_MINUTES = 10;
+
+// Outside the versioned cache namespace so cache flushes never drop live holds
+const HOLD_KEY_PREFIX = 'slot_hold';
+const LOCK_TTL_MS = 3000;
+const LOCK_RETRIES = 5;
+const LOCK_RETRY_DELAY_MS = 50;
+
+function overlaps(hold: SlotHold, start: Date, end: Date): boolean {
+  return new Date(hold.startTime) < end && new Date(hold.endTime) > start;
+}
+
+/** A hold without staff blocks everyone, and an unassigned booking collides with every hold. */
+function sameStaff(hold: SlotHold, staffId?: string): boolean {
+  return !hold.staffId || !staffId || hold.staffId === staffId;
+}
+
+/**
+ * Short-lived slot reservations for the booking checkout.
+ *
+ * Holds live in Redis, one hash per business and day (`slot_hold:{businessId}:{date}`)
+ * keyed by hold ID, plus a `slot_hold:id:{holdId}` pointer for direct lookups.
+ * Both keys expire with the hold, so an abandoned checkout frees the slot by
+ * itself; reads also skip fields whose `expiresAt` has passed. Writes for one
+ * business day are serialised with a SET NX lock so two customers cannot hold
+ * the same time.
+ *
+ * Reads fail open: when Redis is unreachable no holds are reported and the
+ * appointment overlap constraint remains the last line of defense.
+ */
+export class SlotHoldService {
+  constructor(
+    private readonly cacheManager: CacheManager,
+    private readonly appointmentRepository: AppointmentRepository,
+    private readonly serviceRepository: ServiceRepository,
+    private readonly businessRepository: BusinessRepository
+  ) {}
+
+  /**
+   * Reserves a slot for SLOT_HOLD_MINUTES. A customer holds at most one slot per
+   * business day; holding a new time replaces the previous hold.
+   */
+  async createHold(userId: string, data: CreateSlotHoldRequest): Promise<SlotHold> {
+    const service = await this.serviceRepository.findById(data.serviceId);
+    if (!service || !service.isActive || service.businessId !== data.businessId) {
+      throw new AppError(
+        'Service not found or inactive',
+        400,
+        ERROR_CODES.APPOINTMENT_SERVICE_UNAVAILABLE
+      );
+    }
+
+    const { maxDaily, timezone, bookingWindow } = await this.getBusinessRules(data.businessId, service);
+    const startTime = createDateTimeInTimezone(data.date, data.startTime, timezone);
+    // Timed like createAppointment books it: the staff member's own duration, and the buffer after it kept free
+    const staffOverride = data.staffId ? await this.serviceRepository.getStaffOverride(service.id, data.staffId) : null;
+    const performed = applyStaffOverride(service, staffOverride);
+    const endTime = new Date(startTime.getTime() + performed.duration * 60000);
+    const bufferedEndTime = new Date(endTime.getTime() + performed.bufferTime * 60000);
+    const now = new Date();
+    if (startTime <= now) {
+      throw new AppError('Cannot book appointment in the past', 400, ERROR_CODES.APPOINTMENT_PAST_DATE);
+    }
+    // A hold must be convertible, so the service's booking window applies already
+    const violation = checkBookingWindow(bookingWindow, startTime, now, timezone);
+    if (violation) {
+      throw new AppError(violation.message, 400, ERROR_CODES[violation.code], true, violation.params);
+    }
+
+    const conflicts = await this.appointmentRepository.findConflictingAppointments(
+      data.businessId,
+      createCalendarDate(data.date),
+      startTime,
+      bufferedEndTime,
+      data.staffId
+    );
+    if (conflicts.length > 0) {
+      throw new AppError(
+        'Staff member is not available at the selected time',
+        409,
+        ERROR_CODES.APPOINTMENT_STAFF_NOT_AVAILABLE
+      );
+    }
+
+    const dayBounds = getDayBoundsInTimezone(data.date, timezone);
+    const dayStart = dayBounds.start;
+    const dayEnd = new Date(dayBounds.end.getTime() - 1);
+
+    return this.withDayLock(data.businessId, data.date, async () => {
+      const otherHolds = (await this.getActiveHolds(data.businessId, data.date))
+        .filter((hold) => hold.customerId !== userId);
+
+      const blocking = otherHolds.find(
+        (hold) => sameStaff(hold, data.staffId) && overlaps(hold, startTime, bufferedEndTime)
+      );
+      if (blocking) {
+        throw new AppError(
+          'This time slot is temporarily held by another customer',
+          409,
+          ERROR_CODES.APPOINTMENT_SLOT_HELD,
+          true,
+          { heldUntil: blocking.expiresAt }
+        );
+      }
+
+      // Holds count toward the daily cap so every live hold can still be converted
+      const dayAppointments = await this.appointmentRepository.findByBusinessAndDateRange(
+        data.businessId,
+        dayStart,
+        dayEnd
+      );
+      const activeCount = countTowardDailyLimit(dayAppointments);
+      if (activeCount + otherHolds.length >= maxDaily) {
+        throw new AppError(
+          `Daily appointment limit (${maxDaily}) reached for this date`,
+          409,
+          ERROR_CODES.APPOINTMENT_DAILY_LIMIT_REACHED,
+          true,
+          { maxDaily }
+        );
+      }
+
+      await this.removeCustomerHolds(data.businessId, data.date, userId);
+
+      const hold: SlotHold = {
+        id: `hold_${randomUUID()}`,
+        businessId: data.businessId,
+        serviceId: data.serviceId,
+        staffId: data.staffId,
+        customerId: userId,
+        date: data.date,
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+        expiresAt: new Date(Date.now() + SLOT_HOLD_MINUTES * 60000).toISOString()
+      };
+      await this.writeHold(hold);
+      return hold;
+    });
+  }
+
+  async getHold(userId: string, holdId: string): Promise<SlotHold> {
+    const hold = await this.findHold(holdId);
+    if (!hold || hold.customerId !== userId) {
+      throw new AppError('Hold not found or expired', 404, ERROR_CODES.SLOT_HOLD_NOT_FOUND);
+    }
+    return hold;
+  }
+
+  async releaseHold(userId: string, holdId: string): Promise<void> {
+    const hold = await this.getHold(userId, holdId);
+    await this.deleteHold(hold);
+  }
+
+  /** Live holds of one business day. Never throws; returns [] when Redis is unavailable. */
+  async getActiveHolds(businessId: string, date: string): Promise<SlotHold[]> {
+    try {
+      const redis = this.cacheManager.getRedis();
+      const key = this.dayKey(businessId, date);
+      const fields = await redis.hgetall(key);
+      const now = Date.now();
+
+      const active: SlotHold[] = [];
+      const stale: string[] = [];
+      for (const [holdId, raw] of Object.entries(fields)) {
+        const hold = JSON.parse(raw) as SlotHold;
+        if (new Date(hold.expiresAt).getTime() > now) {
+          active.push(hold);
+        } else {
+          stale.push(holdId);
+        }
+      }
+      if (stale.length > 0) {
+        await redis.hdel(key, ...stale);
+      }
+      return active;
+    } catch (error) {
+      logger.error('Failed to read slot holds', { businessId, date, error });
+      return [];
+    }
+  }
+
+  async findHold(holdId: string): Promise<SlotHold | null> {
+    try {
+      const redis = this.cacheManager.getRedis();
+      const dayKey = await redis.get(this.idKey(holdId));
+      if (!dayKey) {
+        return null;
+      }
+      const raw = await redis.hget(dayKey, holdId);
+      const hold = raw ? (JSON.parse(raw) as SlotHold) : null;
+      return hold && new Date(hold.expiresAt).getTime() > Date.now() ? hold : null;
+    } catch (error) {
+      logger.error('Failed to read slot hold', { holdId, error });
+      return null;
+    }
+  }
+
+  /** Drops the customer's holds for the day once their appointment is booked. */
+  async removeCustomerHolds(businessId: string, date: string, customerId: string): Promise<void> {
+    const holds = await this.getActiveHolds(businessId, date);
+    for (const hold of holds.filter((h) => h.customerId === customerId)) {
+      await this.deleteHold(hold);
+    }
+  }
+
+  private async writeHold(hold: SlotHold): Promise<void> {
+    const ttlSeconds = SLOT_HOLD_MINUTES * 60;
+    const dayKey = this.dayKey(hold.businessId, hold.date);
+    try {
+      const redis = this.cacheManager.getRedis();
+      await redis
+        .multi()
+        .hset(dayKey, hold.id, JSON.stringify(hold))
+        // Every hold has the same lifetime, so the newest one decides when the day key can go
+        .expire(dayKey, ttlSeconds)
+        .set(this.idKey(hold.id), dayKey, 'EX', ttlSeconds)
+        .exec();
+    } catch (error) {
+      logger.error('Failed to write slot hold', { holdId: hold.id, error });
+      throw new AppError('Slot hold storage unavailable', 503, ERROR_CODES.SLOT_HOLD_UNAVAILABLE);
+    }
+  }
+
+  private async deleteHold(hold: SlotHold): Promise<void> {
+    try {
+      const redis = this.cacheManager.getRedis();
+      await redis
+        .multi()
+        .hdel(this.dayKey(hold.businessId, hold.date), hold.id)
+        .del(this.idKey(hold.id))
+        .exec();
+    } catch (error) {
+      // The TTL still removes it within SLOT_HOLD_MINUTES
+      logger.error('Failed to delete slot hold', { holdId: hold.id, error });
+    }
+  }
+
+  private async withDayLock<T>(businessId: string, date: string, fn: () => Promise<T>): Promise<T> {
+    const lockKey = `${HOLD_KEY_PREFIX}:lock:${businessId}:${date}`;
+    const token = randomUUID();
+    const redis = this.cacheManager.getRedis();
+    try {
+      let acquired = false;
+      for (let attempt = 0; attempt < LOCK_RETRIES && !acquired; attempt++) {
+        acquired = (await redis.set(lockKey, token, 'PX', LOCK_TTL_MS, 'NX')) === 'OK';
+        if (!acquired) {
+          await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_DELAY_MS));
+        }
+      }
+      if (!acquired) {
+        throw new AppError('Slot hold storage busy', 503, ERROR_CODES.SLOT_HOLD_UNAVAILABLE);
+      }
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Failed to lock slot holds', { businessId, date, error });
+      throw new AppError('Slot hold storage unavailable', 503, ERROR_CODES.SLOT_HOLD_UNAVAILABLE);
+    }
+
+    try {
+      return await fn();
+    } finally {
+      // Only release our own lock; it may have expired and been taken over
+      if ((await redis.get(lockKey).catch(() => null)) === token) {
+        await redis.del(lockKey).catch(() => 0);
+      }
+    }
+  }
+
+  /** Daily appointment cap and the timezone the business's dates are in */
+  private async getBusinessRules(
+    businessId: string,
+    service: BookingWindowService
+  ): Promise<{ maxDaily: number; timezone: string; bookingWindow: BookingWindow }> {
+    const business = await this.businessRepository.findById(businessId);
+    if (!business) {
+      throw new AppError('Business not found', 404, ERROR_CODES.BUSINESS_NOT_FOUND);
+    }
+    const settings = (business.settings as BusinessSettings) || {};
+    return {
+      maxDaily: settings.reservationSettings?.maxDailyAppointments || 50,
+      timezone: resolveTimezone(business.timezone),
+      bookingWindow: resolveBookingWindow([service], settings.reservationSettings)
+    };
+  }
+
+  private dayKey(businessId: string, date: string): string {
+    return `${HOLD_KEY_PREFIX}:${businessId}:${date}`;
+  }
+
+  private idKey(holdId: string): string {
+    return `${HOLD_KEY_PREFIX}:id:${holdId}`;
+  }
+}
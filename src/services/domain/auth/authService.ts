@@ -12,6 +12,7 @@ import {
   UserStats,
 } from "../../../types/auth";
 import { BusinessSubscriptionData } from "../../../types/business";
+import { CustomerPackageBalance } from "../../../types/sessionPackage";
 import { ErrorContext } from "../../../utils/errors/baseError";
 import { AppError } from "../../../types/responseTypes";
 import { ReliabilityScoreCalculator } from "../userBehavior/reliabilityScoreCalculator";
@@ -814,6 +815,7 @@ export class AuthService {
     bannedUntil?: Date | null;
     banReason?: string | null;
     currentStrikes: number;
+    packages: CustomerPackageBalance[];
   }> {
     // Check if user has business role
     if (this.rbacService) {
@@ -903,6 +905,11 @@ export class AuthService {
       : null;
     const isBanned = !!(businessBan?.isActive && (!businessBan.bannedUntil || businessBan.bannedUntil > now));
 
+    // Prepaid session packages the customer holds at the owner's business
+    const packages = ownerBusiness
+      ? await this.repositories.sessionPackageRepository.findBalances(customerId, ownerBusiness.id, now)
+      : [];
+
     return {
       id: customer.id,
       firstName: customer.firstName,
@@ -923,6 +930,7 @@ export class AuthService {
       bannedUntil: isBanned ? (businessBan?.bannedUntil ?? null) : null,
       banReason: isBanned ? (businessBan?.reason ?? null) : null,
       currentStrikes: userBehavior?.currentStrikes || 0,
+      packages,
     };
   }
 
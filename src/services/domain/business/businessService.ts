@@ -15,7 +15,7 @@ import {
   RecurringPattern,
   NotificationChannel
 } from '../../../types/business';
-import { UpdateBusinessPriceSettingsSchema, UpdateBusinessStaffPrivacySettingsSchema, updateBusinessCancellationPolicySchema } from '../../../schemas/business.schemas';
+import { UpdateBusinessPriceSettingsSchema, UpdateBusinessStaffPrivacySettingsSchema, updateBusinessApprovalPolicySchema, updateBusinessCancellationPolicySchema, updateBusinessCheckInPolicySchema, updateBusinessReschedulePolicySchema } from '../../../schemas/business.schemas';
 import { BusinessRepository } from '../../../repositories/businessRepository';
 import { RBACService } from '../rbac/rbacService';
 import { PermissionName } from '../../../types/auth';
@@ -24,9 +24,10 @@ import { BusinessStaffRole, AuditAction, AppointmentStatus } from '@prisma/clien
 import { AppError } from '../../../types/responseTypes';
 import { UsageService } from '../usage/usageService';
 import { RepositoryContainer } from '../../../repositories';
+import { AppointmentStatusSnapshot, buildStatusChanges } from '../../../repositories/appointmentStatusChangeRepository';
 import { CancellationPolicyService } from './cancellationPolicyService';
 import { CustomerManagementService } from './customerManagementService';
-import { CancellationPolicySettings } from '../../../types/businessSettings';
+import { ApprovalPolicySettings, CancellationPolicySettings, CheckInPolicySettings, ReschedulePolicySettings } from '../../../types/businessSettings';
 import { CustomerPolicyStatus } from '../../../types/cancellationPolicy';
 import { CustomerManagementSettings, CustomerNote, CustomerEvaluation, CustomerLoyaltyStatus } from '../../../types/customerManagement';
 import logger from "../../../utils/Logger/logger";
@@ -1157,6 +1158,7 @@ export class BusinessService {
 
     // Fetch all valid appointments to cancel
     const appointmentsToCancelData: { id: string; customerId: string; customerFirstName: string | null; customerLastName: string | null; serviceName: string; startTime: Date; customerPhone?: string }[] = [];
+    const snapshots: AppointmentStatusSnapshot[] = [];
 
     for (const aptId of appointmentIds) {
       const apt = await this.repositories.prismaClient.appointment.findUnique({
@@ -1166,6 +1168,7 @@ export class BusinessService {
       if (!apt || apt.status === AppointmentStatus.CANCELED || apt.status === AppointmentStatus.COMPLETED) continue;
 
       const user = await this.repositories.userRepository.findById(apt.customer.id);
+      snapshots.push(apt);
       appointmentsToCancelData.push({
         id: apt.id,
         customerId: apt.customer.id,
@@ -1181,20 +1184,29 @@ export class BusinessService {
       return { cancelledCount: 0 };
     }
 
-    // Cancel all appointments in a single transaction
-    await this.repositories.prismaClient.$transaction(
-      appointmentsToCancelData.map(apt =>
+    // Cancel all appointments and record the transitions in a single transaction
+    const canceledAt = new Date();
+    await this.repositories.prismaClient.$transaction([
+      ...appointmentsToCancelData.map(apt =>
         this.repositories.prismaClient.appointment.update({
           where: { id: apt.id },
           data: {
             status: AppointmentStatus.CANCELED,
             cancelReason,
-            canceledAt: new Date(),
+            canceledAt,
             cancelledBy: 'BUSINESS'
           }
         })
-      )
-    );
+      ),
+      this.repositories.prismaClient.appointmentStatusChange.createMany({
+        data: buildStatusChanges(
+          snapshots,
+          { status: AppointmentStatus.CANCELED, cancelReason, canceledAt, cancelledBy: 'BUSINESS' },
+          { channel: 'STAFF_PANEL', actorId: userId, reason: cancelReason },
+          canceledAt
+        )
+      })
+    ]);
 
     // Send SMS notifications asynchronously (don't block the response)
     const { SMSService } = await import('../sms/smsService');
@@ -2252,6 +2264,129 @@ export class BusinessService {
     return await this.cancellationPolicyService.updateBusinessPolicySettings(businessId, validatedData);
   }
 
+  async getBusinessReschedulePolicy(
+    userId: string,
+    businessId: string
+  ): Promise<ReschedulePolicySettings> {
+    // Check permissions
+    await this.rbacService.requireAny(userId, [
+      PermissionName.VIEW_ALL_BUSINESSES,
+      PermissionName.VIEW_OWN_BUSINESS
+    ]);
+
+    // If user doesn't have global permission, check business-specific access
+    const hasGlobalView = await this.rbacService.hasPermission(userId, 'business', 'view_all');
+    if (!hasGlobalView) {
+      await this.rbacService.requirePermission(userId, PermissionName.VIEW_OWN_BUSINESS, { businessId });
+    }
+
+    return await this.cancellationPolicyService.getReschedulePolicySettings(businessId);
+  }
+
+  async updateBusinessReschedulePolicy(
+    userId: string,
+    businessId: string,
+    policyData: Partial<ReschedulePolicySettings>
+  ): Promise<ReschedulePolicySettings> {
+    // Check permissions
+    await this.rbacService.requireAny(userId, [
+      PermissionName.VIEW_ALL_BUSINESSES,
+      PermissionName.VIEW_OWN_BUSINESS
+    ]);
+
+    // If user doesn't have global permission, check business-specific access
+    const hasGlobalView = await this.rbacService.hasPermission(userId, 'business', 'view_all');
+    if (!hasGlobalView) {
+      await this.rbacService.requirePermission(userId, PermissionName.VIEW_OWN_BUSINESS, { businessId });
+    }
+
+    const validatedData = updateBusinessReschedulePolicySchema.parse(policyData);
+
+    return await this.cancellationPolicyService.updateReschedulePolicySettings(businessId, validatedData);
+  }
+
+  async getBusinessCheckInPolicy(
+    userId: string,
+    businessId: string
+  ): Promise<CheckInPolicySettings> {
+    // Check permissions
+    await this.rbacService.requireAny(userId, [
+      PermissionName.VIEW_ALL_BUSINESSES,
+      PermissionName.VIEW_OWN_BUSINESS
+    ]);
+
+    // If user doesn't have global permission, check business-specific access
+    const hasGlobalView = await this.rbacService.hasPermission(userId, 'business', 'view_all');
+    if (!hasGlobalView) {
+      await this.rbacService.requirePermission(userId, PermissionName.VIEW_OWN_BUSINESS, { businessId });
+    }
+
+    return await this.cancellationPolicyService.getCheckInPolicySettings(businessId);
+  }
+
+  async updateBusinessCheckInPolicy(
+    userId: string,
+    businessId: string,
+    policyData: Partial<CheckInPolicySettings>
+  ): Promise<CheckInPolicySettings> {
+    // Check permissions
+    await this.rbacService.requireAny(userId, [
+      PermissionName.VIEW_ALL_BUSINESSES,
+      PermissionName.VIEW_OWN_BUSINESS
+    ]);
+
+    // If user doesn't have global permission, check business-specific access
+    const hasGlobalView = await this.rbacService.hasPermission(userId, 'business', 'view_all');
+    if (!hasGlobalView) {
+      await this.rbacService.requirePermission(userId, PermissionName.VIEW_OWN_BUSINESS, { businessId });
+    }
+
+    const validatedData = updateBusinessCheckInPolicySchema.parse(policyData);
+
+    return await this.cancellationPolicyService.updateCheckInPolicySettings(businessId, validatedData);
+  }
+
+  async getBusinessApprovalPolicy(
+    userId: string,
+    businessId: string
+  ): Promise<ApprovalPolicySettings> {
+    // Check permissions
+    await this.rbacService.requireAny(userId, [
+      PermissionName.VIEW_ALL_BUSINESSES,
+      PermissionName.VIEW_OWN_BUSINESS
+    ]);
+
+    // If user doesn't have global permission, check business-specific access
+    const hasGlobalView = await this.rbacService.hasPermission(userId, 'business', 'view_all');
+    if (!hasGlobalView) {
+      await this.rbacService.requirePermission(userId, PermissionName.VIEW_OWN_BUSINESS, { businessId });
+    }
+
+    return await this.cancellationPolicyService.getApprovalPolicySettings(businessId);
+  }
+
+  async updateBusinessApprovalPolicy(
+    userId: string,
+    businessId: string,
+    policyData: Partial<ApprovalPolicySettings>
+  ): Promise<ApprovalPolicySettings> {
+    // Check permissions
+    await this.rbacService.requireAny(userId, [
+      PermissionName.VIEW_ALL_BUSINESSES,
+      PermissionName.VIEW_OWN_BUSINESS
+    ]);
+
+    // If user doesn't have global permission, check business-specific access
+    const hasGlobalView = await this.rbacService.hasPermission(userId, 'business', 'view_all');
+    if (!hasGlobalView) {
+      await this.rbacService.requirePermission(userId, PermissionName.VIEW_OWN_BUSINESS, { businessId });
+    }
+
+    const validatedData = updateBusinessApprovalPolicySchema.parse(policyData);
+
+    return await this.cancellationPolicyService.updateApprovalPolicySettings(businessId, validatedData);
+  }
+
   async getCustomerPolicyStatus(
     userId: string,
     businessId: string,
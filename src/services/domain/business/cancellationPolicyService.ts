@@ -3,14 +3,18 @@
  * Handles business cancellation and no-show policy enforcement
  */
 
-import { CancellationPolicySettings } from '../../../types/businessSettings';
+import { ApprovalPolicySettings, CancellationPolicySettings, CheckInPolicySettings, ReschedulePolicySettings } from '../../../types/businessSettings';
 import { AppError } from '../../../types/responseTypes';
 import { 
   PolicyViolationResult, 
   CustomerPolicyStatus, 
   PolicyEnforcementContext, 
   PolicyCheckResult,
-  DEFAULT_CANCELLATION_POLICIES
+  RescheduleEnforcementContext,
+  DEFAULT_APPROVAL_POLICY,
+  DEFAULT_CANCELLATION_POLICIES,
+  DEFAULT_CHECK_IN_POLICY,
+  DEFAULT_RESCHEDULE_POLICY
 } from '../../../types/cancellationPolicy';
 import { UserBehaviorRepository } from '../../../repositories/userBehaviorRepository';
 import { BusinessRepository } from '../../../repositories/businessRepository';
@@ -97,6 +101,190 @@ export class CancellationPolicyService {
     return updatedPolicies;
   }
 
+  /**
+   * Get business reschedule policy settings
+   */
+  async getReschedulePolicySettings(businessId: string): Promise<ReschedulePolicySettings> {
+    const business = await this.businessRepository.findById(businessId);
+    const settings = (business?.settings as Record<string, unknown>) || {};
+    const policy = settings.reschedulePolicy as Partial<ReschedulePolicySettings> | undefined;
+
+    return { ...DEFAULT_RESCHEDULE_POLICY, ...policy };
+  }
+
+  /**
+   * Update business reschedule policy settings
+   */
+  async updateReschedulePolicySettings(
+    businessId: string,
+    policySettings: Partial<ReschedulePolicySettings>
+  ): Promise<ReschedulePolicySettings> {
+    const business = await this.businessRepository.findById(businessId);
+
+    if (!business) {
+      throw new AppError('BUSINESS_NOT_FOUND', { message: 'Business not found' });
+    }
+
+    const currentSettings = business.settings as Record<string, unknown> || {};
+    const currentPolicy = currentSettings.reschedulePolicy as Partial<ReschedulePolicySettings> | undefined;
+
+    const updatedPolicy: ReschedulePolicySettings = {
+      ...DEFAULT_RESCHEDULE_POLICY,
+      ...currentPolicy,
+      ...policySettings
+    };
+
+    await this.businessRepository.update(businessId, {
+      settings: { ...currentSettings, reschedulePolicy: updatedPolicy }
+    });
+
+    return updatedPolicy;
+  }
+
+  /**
+   * Get business check-in and no-show tracking settings
+   */
+  async getCheckInPolicySettings(businessId: string): Promise<CheckInPolicySettings> {
+    const business = await this.businessRepository.findById(businessId);
+    const settings = (business?.settings as Record<string, unknown>) || {};
+    const policy = settings.checkInPolicy as Partial<CheckInPolicySettings> | undefined;
+
+    return { ...DEFAULT_CHECK_IN_POLICY, ...policy };
+  }
+
+  /**
+   * Update business check-in and no-show tracking settings
+   */
+  async updateCheckInPolicySettings(
+    businessId: string,
+    policySettings: Partial<CheckInPolicySettings>
+  ): Promise<CheckInPolicySettings> {
+    const business = await this.businessRepository.findById(businessId);
+
+    if (!business) {
+      throw new AppError('BUSINESS_NOT_FOUND', { message: 'Business not found' });
+    }
+
+    const currentSettings = business.settings as Record<string, unknown> || {};
+    const currentPolicy = currentSettings.checkInPolicy as Partial<CheckInPolicySettings> | undefined;
+
+    const updatedPolicy: CheckInPolicySettings = {
+      ...DEFAULT_CHECK_IN_POLICY,
+      ...currentPolicy,
+      ...policySettings
+    };
+
+    await this.businessRepository.update(businessId, {
+      settings: { ...currentSettings, checkInPolicy: updatedPolicy }
+    });
+
+    return updatedPolicy;
+  }
+
+  /**
+   * Get business booking approval rules
+   */
+  async getApprovalPolicySettings(businessId: string): Promise<ApprovalPolicySettings> {
+    const business = await this.businessRepository.findById(businessId);
+    const settings = (business?.settings as Record<string, unknown>) || {};
+    const policy = settings.approvalPolicy as Partial<ApprovalPolicySettings> | undefined;
+
+    return { ...DEFAULT_APPROVAL_POLICY, ...policy };
+  }
+
+  /**
+   * Update business booking approval rules
+   */
+  async updateApprovalPolicySettings(
+    businessId: string,
+    policySettings: Partial<ApprovalPolicySettings>
+  ): Promise<ApprovalPolicySettings> {
+    const business = await this.businessRepository.findById(businessId);
+
+    if (!business) {
+      throw new AppError('BUSINESS_NOT_FOUND', { message: 'Business not found' });
+    }
+
+    const currentSettings = business.settings as Record<string, unknown> || {};
+    const currentPolicy = currentSettings.approvalPolicy as Partial<ApprovalPolicySettings> | undefined;
+
+    const updatedPolicy: ApprovalPolicySettings = {
+      ...DEFAULT_APPROVAL_POLICY,
+      ...currentPolicy,
+      ...policySettings
+    };
+
+    await this.businessRepository.update(businessId, {
+      settings: { ...currentSettings, approvalPolicy: updatedPolicy }
+    });
+
+    return updatedPolicy;
+  }
+
+  /**
+   * Check if a customer may move their own appointment. Reschedules use their own
+   * notice and count limits instead of the cancellation limits; bans still apply.
+   */
+  async checkReschedulePolicy(context: RescheduleEnforcementContext): Promise<PolicyCheckResult> {
+    const { customerId, businessId, appointmentDate, previousReschedules } = context;
+
+    const [customerStatus, policy] = await Promise.all([
+      this.getCustomerPolicyStatus(customerId, businessId),
+      this.getReschedulePolicySettings(businessId)
+    ]);
+    const violations: PolicyViolationResult[] = [];
+
+    if (customerStatus.isBanned) {
+      violations.push({
+        isViolation: true,
+        violationType: 'BANNED_USER',
+        message: customerStatus.banReason || 'Bu müşteri sistemden engellenmiştir',
+        canBookAppointment: false,
+        canCancelAppointment: false
+      });
+      return { allowed: false, violations, warnings: [] };
+    }
+
+    if (!policy.allowCustomerReschedule) {
+      violations.push({
+        isViolation: true,
+        violationType: 'RESCHEDULE_DISABLED',
+        message: 'Bu işletmede randevu değişikliği yapılamamaktadır. Lütfen işletmeyle iletişime geçin',
+        canBookAppointment: true,
+        canCancelAppointment: true
+      });
+    }
+
+    // Same instant semantics as the cancellation check: compare against real UTC now
+    const hoursUntilAppointment = (appointmentDate.getTime() - Date.now()) / (1000 * 60 * 60);
+    if (hoursUntilAppointment < policy.minRescheduleHours) {
+      violations.push({
+        isViolation: true,
+        violationType: 'RESCHEDULE_TIME',
+        message: `Randevu değişikliği için en az ${policy.minRescheduleHours} saat önceden işlem yapmanız gerekmektedir`,
+        canBookAppointment: true,
+        canCancelAppointment: true
+      });
+    }
+
+    if (previousReschedules >= policy.maxReschedulesPerAppointment) {
+      violations.push({
+        isViolation: true,
+        violationType: 'RESCHEDULE_LIMIT',
+        message: `Bu randevu için en fazla ${policy.maxReschedulesPerAppointment} kez değişiklik yapabilirsiniz`,
+        remainingCount: 0,
+        canBookAppointment: true,
+        canCancelAppointment: true
+      });
+    }
+
+    return {
+      allowed: violations.length === 0,
+      violations,
+      warnings: []
+    };
+  }
+
   /**
    * Get customer policy status for a specific business
    */
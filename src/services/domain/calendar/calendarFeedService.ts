@@ -0,0 +1,367 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { config } from '../../../config/environment';
+import { AppointmentRepository } from '../../../repositories/appointmentRepository';
+import { BusinessClosureRepository } from '../../../repositories/businessClosureRepository';
+import { BusinessRepository } from '../../../repositories/businessRepository';
+import { CalendarFeedRepository } from '../../../repositories/calendarFeedRepository';
+import { StaffRepository } from '../../../repositories/staffRepository';
+import { AppointmentStatus, AppointmentWithDetails, BusinessClosureData, BusinessStaffData } from '../../../types/business';
+import {
+  CalendarFeedData,
+  CalendarFeedDocument,
+  CalendarFeedWithUrl,
+  CreateCalendarFeedRequest
+} from '../../../types/calendarFeed';
+import { AppError } from '../../../types/responseTypes';
+import { IcsEvent, IcsEventStatus, renderCalendar } from '../../../utils/icsCalendar';
+import { DEFAULT_BUSINESS_TIMEZONE, resolveTimezone } from '../../../utils/timezoneHelper';
+import logger from '../../../utils/Logger/logger';
+import { AppointmentService } from '../appointment/appointmentService';
+
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FEED_UID_DOMAIN = 'randevubu.com';
+
+interface FeedBusiness {
+  id: string;
+  name: string;
+  timezone: string;
+}
+
+/**
+ * Read-only ICS subscriptions for phone and desktop calendars.
+ *
+ * Each feed is a row whose id is signed with CALENDAR_FEED_SECRET; the signed URL
+ * is the only credential, so calendar apps can poll it without logging in. Access
+ * is re-checked on every fetch against the feed owner's current permissions (the
+ * same checks as getBusinessAppointments), so a feed stops resolving as soon as its
+ * owner loses access, even before it is revoked. Removing a staff member revokes
+ * the feeds scoped to them.
+ */
+export class CalendarFeedService {
+  constructor(
+    private readonly calendarFeedRepository: CalendarFeedRepository,
+    private readonly appointmentRepository: AppointmentRepository,
+    private readonly businessClosureRepository: BusinessClosureRepository,
+    private readonly businessRepository: BusinessRepository,
+    private readonly staffRepository: StaffRepository,
+    private readonly appointmentService: AppointmentService
+  ) {}
+
+  async createFeed(userId: string, request: CreateCalendarFeedRequest): Promise<CalendarFeedWithUrl> {
+    let businessId: string | undefined;
+    let staffId: string | undefined;
+
+    if (request.type === 'CUSTOMER') {
+      businessId = undefined;
+    } else {
+      if (!request.businessId) {
+        throw new AppError('REQUIRED_FIELD_MISSING', { message: 'businessId is required', params: { field: 'businessId' } });
+      }
+      const business = await this.getBusinessOrThrow(request.businessId);
+      businessId = business.id;
+
+      if (request.type === 'STAFF') {
+        const staff = await this.resolveStaff(userId, businessId, request.staffId);
+        staffId = staff.id;
+      }
+
+      const visibleStaffIds = await this.appointmentService.resolveBusinessAppointmentScope(userId, businessId, staffId);
+      if (!this.scopeCovers(visibleStaffIds, staffId)) {
+        throw new AppError('CALENDAR_FEED_SCOPE_INVALID', {
+          message: staffId
+            ? 'You cannot view this staff member\'s appointments'
+            : 'Only users who see every appointment of the business can subscribe to its calendar'
+        });
+      }
+    }
+
+    const feed = await this.calendarFeedRepository.create({
+      id: `cfd_${randomUUID()}`,
+      type: request.type,
+      userId,
+      businessId,
+      staffId,
+      label: request.label
+    });
+
+    logger.info('Calendar feed created', { feedId: feed.id, type: feed.type, userId, businessId, staffId });
+    return this.withPath(feed);
+  }
+
+  async getFeeds(userId: string): Promise<CalendarFeedWithUrl[]> {
+    const feeds = await this.calendarFeedRepository.findActiveByUser(userId);
+    return feeds.map((feed) => this.withPath(feed));
+  }
+
+  /**
+   * The feed's creator can revoke it, and so can the business owner, so a feed a
+   * staff member handed to a personal calendar can be cut off from the business side.
+   */
+  async revokeFeed(userId: string, feedId: string): Promise<CalendarFeedData> {
+    const feed = await this.calendarFeedRepository.findById(feedId);
+    if (!feed || feed.revokedAt) {
+      throw new AppError('CALENDAR_FEED_NOT_FOUND', { message: 'Calendar feed not found' });
+    }
+
+    if (feed.userId !== userId) {
+      const business = feed.businessId ? await this.businessRepository.findById(feed.businessId) : null;
+      if (!business || business.ownerId !== userId) {
+        throw new AppError('CALENDAR_FEED_NOT_FOUND', { message: 'Calendar feed not found' });
+      }
+    }
+
+    const revoked = await this.calendarFeedRepository.revoke(feedId);
+    logger.info('Calendar feed revoked', { feedId, revokedBy: userId });
+    return revoked;
+  }
+
+  /** Listener for StaffService.onStaffRemoved */
+  async handleStaffRemoved(staff: BusinessStaffData): Promise<void> {
+    const count = await this.calendarFeedRepository.revokeByStaff(staff.id);
+    if (count > 0) {
+      logger.info('Calendar feeds revoked for removed staff', { staffId: staff.id, count });
+    }
+  }
+
+  /**
+   * Renders the feed behind a signed URL. Unknown ids, bad signatures, revoked feeds
+   * and owners who lost access all look the same to the caller.
+   */
+  async renderFeed(feedId: string, signature: string, now: Date = new Date()): Promise<CalendarFeedDocument> {
+    if (!this.verifySignature(feedId, signature)) {
+      throw this.feedNotFound();
+    }
+    const feed = await this.calendarFeedRepository.findById(feedId);
+    if (!feed || feed.revokedAt) {
+      throw this.feedNotFound();
+    }
+
+    const from = new Date(now.getTime() - FEED_PAST_DAYS * DAY_MS);
+    const to = new Date(now.getTime() + FEED_FUTURE_DAYS * DAY_MS);
+
+    const calendar = feed.type === 'CUSTOMER'
+      ? await this.buildCustomerCalendar(feed, from, to)
+      : await this.buildBusinessCalendar(feed, from, to);
+
+    this.calendarFeedRepository.touch(feed.id).catch((error) => {
+      logger.warn('Failed to record calendar feed access', { feedId: feed.id, error });
+    });
+
+    return {
+      filename: `${feed.type.toLowerCase()}-${feed.id}.ics`,
+      body: renderCalendar({ ...calendar, from, to }, now)
+    };
+  }
+
+  /** HMAC of the feed id; the only secret a subscription URL carries */
+  signFeedId(feedId: string): string {
+    const secret = config.CALENDAR_FEED_SECRET || config.JWT_ACCESS_SECRET;
+    if (!secret) {
+      throw new AppError('INTERNAL_SERVER_ERROR', { message: 'Calendar feed signing secret is not configured' });
+    }
+    return createHmac('sha256', secret).update(`calendar-feed:${feedId}`).digest('base64url');
+  }
+
+  private verifySignature(feedId: string, signature: string): boolean {
+    const expected = Buffer.from(this.signFeedId(feedId));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  private async buildBusinessCalendar(feed: CalendarFeedData, from: Date, to: Date) {
+    const business = await this.businessRepository.findById(feed.businessId!);
+    if (!business) {
+      throw this.feedNotFound();
+    }
+
+    let visibleStaffIds: string[] | null;
+    try {
+      visibleStaffIds = await this.appointmentService.resolveBusinessAppointmentScope(feed.userId, business.id, feed.staffId);
+    } catch {
+      logger.warn('Calendar feed owner no longer has access', { feedId: feed.id, userId: feed.userId });
+      throw this.feedNotFound();
+    }
+    if (!this.scopeCovers(visibleStaffIds, feed.staffId)) {
+      throw this.feedNotFound();
+    }
+
+    const timezone = resolveTimezone(business.timezone);
+    const [appointments, closures] = await Promise.all([
+      this.appointmentRepository.findForCalendarFeed(
+        { businessId: business.id, staffIds: feed.staffId ? [feed.staffId] : undefined },
+        from,
+        to
+      ),
+      this.businessClosureRepository.findByDateRange(business.id, from, to)
+    ]);
+
+    const feedBusiness = { id: business.id, name: business.name, timezone };
+    const name = feed.label || (feed.staffId
+      ? `${business.name} - ${this.staffName(appointments, feed.staffId) ?? 'Personel'}`
+      : business.name);
+
+    return {
+      name,
+      timezone,
+      events: [
+        ...appointments.map((appointment) => this.appointmentEvent(appointment, timezone, 'BUSINESS')),
+        ...closures.map((closure) => this.closureEvent(closure, feedBusiness, to, false))
+      ]
+    };
+  }
+
+  private async buildCustomerCalendar(feed: CalendarFeedData, from: Date, to: Date) {
+    const appointments = await this.appointmentRepository.findForCalendarFeed({ customerId: feed.userId }, from, to);
+
+    // Closures only matter for businesses the customer actually has bookings with
+    const businesses = new Map<string, FeedBusiness>();
+    for (const appointment of appointments) {
+      if (appointment.business && !businesses.has(appointment.business.id)) {
+        businesses.set(appointment.business.id, {
+          id: appointment.business.id,
+          name: appointment.business.name,
+          timezone: resolveTimezone(appointment.business.timezone)
+        });
+      }
+    }
+
+    const closureEvents: IcsEvent[] = [];
+    for (const business of businesses.values()) {
+      const closures = await this.businessClosureRepository.findByDateRange(business.id, from, to);
+      closureEvents.push(...closures.map((closure) => this.closureEvent(closure, business, to, true)));
+    }
+
+    const timezone = businesses.values().next().value?.timezone ?? DEFAULT_BUSINESS_TIMEZONE;
+
+    return {
+      name: feed.label || 'Randevularım',
+      timezone,
+      events: [
+        ...appointments.map((appointment) =>
+          this.appointmentEvent(appointment, resolveTimezone(appointment.business?.timezone), 'CUSTOMER')
+        ),
+        ...closureEvents
+      ]
+    };
+  }
+
+  private appointmentEvent(
+    appointment: AppointmentWithDetails,
+    timezone: string,
+    audience: 'BUSINESS' | 'CUSTOMER'
+  ): IcsEvent {
+    const staffName = this.personName(appointment.staff?.user);
+    const description: string[] = [];
+
+    let summary: string;
+    if (audience === 'CUSTOMER') {
+      summary = `${appointment.service.name} - ${appointment.business.name}`;
+      if (staffName) {
+        description.push(`Personel: ${staffName}`);
+      }
+    } else {
+      const customerName = this.personName(appointment.customer) || 'Müşteri';
+      summary = `${appointment.service.name} - ${customerName}`;
+      if (staffName) {
+        description.push(`Personel: ${staffName}`);
+      }
+      if (appointment.customer.phoneNumber) {
+        description.push(`Telefon: ${appointment.customer.phoneNumber}`);
+      }
+    }
+    if (appointment.customerNotes) {
+      description.push(`Not: ${appointment.customerNotes}`);
+    }
+    if (appointment.cancelReason && this.toEventStatus(appointment.status) === 'CANCELLED') {
+      description.push(`İptal nedeni: ${appointment.cancelReason}`);
+    }
+
+    return {
+      uid: `${appointment.id}@${FEED_UID_DOMAIN}`,
+      start: appointment.startTime,
+      end: appointment.endTime,
+      timezone,
+      summary,
+      description: description.length > 0 ? description.join('\n') : undefined,
+      location: audience === 'CUSTOMER' ? appointment.business.address || undefined : undefined,
+      status: this.toEventStatus(appointment.status),
+      lastModified: appointment.updatedAt
+    };
+  }
+
+  /** Open-ended closures are shown up to the end of the feed window */
+  private closureEvent(closure: BusinessClosureData, business: FeedBusiness, windowEnd: Date, withBusinessName: boolean): IcsEvent {
+    return {
+      uid: `closure-${closure.id}@${FEED_UID_DOMAIN}`,
+      start: closure.startDate,
+      end: closure.endDate ?? windowEnd,
+      timezone: business.timezone,
+      summary: withBusinessName ? `${business.name} kapalı: ${closure.reason}` : `Kapalı: ${closure.reason}`,
+      status: 'CONFIRMED',
+      transparency: 'OPAQUE',
+      lastModified: closure.updatedAt
+    };
+  }
+
+  private toEventStatus(status: AppointmentStatus): IcsEventStatus {
+    switch (status) {
+      case AppointmentStatus.CANCELED:
+      case AppointmentStatus.REJECTED_BY_BUSINESS:
+        return 'CANCELLED';
+      case AppointmentStatus.PENDING:
+      case AppointmentStatus.PENDING_APPROVAL:
+        return 'TENTATIVE';
+      default:
+        return 'CONFIRMED';
+    }
+  }
+
+  /** Staff feeds default to the caller's own staff record in the business */
+  private async resolveStaff(userId: string, businessId: string, staffId?: string): Promise<BusinessStaffData> {
+    const staff = staffId
+      ? await this.staffRepository.findById(staffId)
+      : await this.staffRepository.findByBusinessIdAndUserId(businessId, userId);
+    if (!staff || staff.businessId !== businessId || !staff.isActive) {
+      throw new AppError('STAFF_NOT_FOUND', { message: 'Staff member not found in this business' });
+    }
+    return staff;
+  }
+
+  /** null means the caller sees the whole business */
+  private scopeCovers(visibleStaffIds: string[] | null, staffId?: string): boolean {
+    if (visibleStaffIds === null) {
+      return true;
+    }
+    return staffId !== undefined && visibleStaffIds.includes(staffId);
+  }
+
+  private async getBusinessOrThrow(businessId: string) {
+    const business = await this.businessRepository.findById(businessId);
+    if (!business) {
+      throw new AppError('BUSINESS_NOT_FOUND', { message: 'Business not found' });
+    }
+    return business;
+  }
+
+  private staffName(appointments: AppointmentWithDetails[], staffId: string): string | undefined {
+    const appointment = appointments.find((a) => a.staffId === staffId && a.staff);
+    return this.personName(appointment?.staff?.user) || undefined;
+  }
+
+  private personName(person?: { firstName?: string | null; lastName?: string | null }): string {
+    return `${person?.firstName || ''} ${person?.lastName || ''}`.trim();
+  }
+
+  private withPath(feed: CalendarFeedData): CalendarFeedWithUrl {
+    return {
+      ...feed,
+      path: `/api/v1/calendar-feeds/${feed.id}/${this.signFeedId(feed.id)}.ics`
+    };
+  }
+
+  private feedNotFound(): AppError {
+    return new AppError('CALENDAR_FEED_NOT_FOUND', { message: 'Calendar feed not found' });
+  }
+}
@@ -0,0 +1,4 @@
+// Calendar Domain Services
+export {
+  CalendarFeedService
+} from './calendarFeedService';
@@ -0,0 +1,295 @@
+import { Prisma } from '@prisma/client';
+import { randomInt } from 'crypto';
+import {
+  GiftCardData,
+  GiftCardRedemptionResult,
+  GiftCardType,
+  GiftCardWithTransactions,
+  IssueGiftCardsRequest,
+  RedeemGiftCardRequest,
+} from '../../../types/giftCard';
+import { AppointmentData, AppointmentStatus, PaymentStatus } from '../../../types/business';
+import { DepositSettlementReason } from '../../../types/deposit';
+import { GiftCardRepository } from '../../../repositories/giftCardRepository';
+import { AppointmentRepository } from '../../../repositories/appointmentRepository';
+import { AppointmentPaymentRepository } from '../../../repositories/appointmentPaymentRepository';
+import { SessionPackageRepository } from '../../../repositories/sessionPackageRepository';
+import { PrismaUserRepository } from '../../../repositories/userRepository';
+import { RBACService } from '../rbac/rbacService';
+import { AppointmentService } from '../appointment/appointmentService';
+import { CancellationPolicyService } from '../business/cancellationPolicyService';
+import { resolveDepositSettlement } from '../appointment/depositRules';
+import { ACTIVE_APPOINTMENT_STATUSES } from '../../../constants/appointmentStatus';
+import { PermissionName } from '../../../types/auth';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+
+const CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_RANDOM_LENGTH = 10;
+const DEFAULT_PREFIX: Record<GiftCardType, string> = { GIFT_CARD: 'GC', VOUCHER: 'VC' };
+
+const roundToKurus = (amount: number): number => Math.round(amount * 100) / 100;
+
+const DEPOSIT_COVERING_STATUSES: PaymentStatus[] = [PaymentStatus.PENDING, PaymentStatus.PROCESSING, PaymentStatus.SUCCEEDED];
+
+/**
+ * Gift cards a business sells and promotional vouchers it gives to its customers.
+ * Both carry a balance in the business currency that is spent on the customer's
+ * appointments, in part or in full, and every change is kept in the card's ledger.
+ * When an appointment paid this way ends without being completed, the cancellation
+ * policy decides how much goes back on the cards, the same way as for a deposit.
+ */
+export class GiftCardService {
+  constructor(
+    private giftCardRepository: GiftCardRepository,
+    private appointmentRepository: AppointmentRepository,
+    private appointmentPaymentRepository: AppointmentPaymentRepository,
+    private sessionPackageRepository: SessionPackageRepository,
+    private userRepository: PrismaUserRepository,
+    private rbacService: RBACService,
+    private appointmentService: AppointmentService,
+    private cancellationPolicyService: CancellationPolicyService
+  ) {}
+
+  /** Creates `count` cards with the same terms, each with its own generated code */
+  async issueGiftCards(userId: string, businessId: string, data: IssueGiftCardsRequest): Promise<GiftCardData[]> {
+    await this.requireBusinessPermission(userId, businessId);
+
+    const count = data.count ?? 1;
+    if (count > 1000) {
+      throw new AppError('VALIDATION_ERROR', { message: 'Cannot issue more than 1000 cards at once' });
+    }
+    if (data.validUntil && data.validUntil <= new Date()) {
+      throw new AppError('VALIDATION_ERROR', { message: 'validUntil must be in the future' });
+    }
+    if (data.customerId && !(await this.userRepository.findById(data.customerId))) {
+      throw new AppError('CUSTOMER_NOT_FOUND', { message: 'Customer not found' });
+    }
+
+    const prefix = (data.prefix || DEFAULT_PREFIX[data.type]).toUpperCase();
+    const pricePaid = data.type === 'VOUCHER' ? 0 : data.pricePaid ?? data.amount;
+    const cards: GiftCardData[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const code = this.generateCode(prefix);
+
+      // Ensure uniqueness
+      const existing = await this.giftCardRepository.findByCode(code);
+      if (existing) {
+        i--; // Retry with different code
+        continue;
+      }
+
+      cards.push(await this.giftCardRepository.create({
+        businessId,
+        code,
+        type: data.type,
+        amount: data.amount,
+        currency: data.currency || 'TRY',
+        pricePaid,
+        customerId: data.customerId,
+        expiresAt: data.validUntil,
+        note: data.note,
+        createdBy: userId,
+      }));
+    }
+
+    logger.info('Gift cards issued', { userId, businessId, type: data.type, count, amount: data.amount });
+    return cards;
+  }
+
+  async getGiftCards(
+    userId: string,
+    businessId: string,
+    filters: { type?: GiftCardType; customerId?: string; isActive?: boolean; page?: number; limit?: number }
+  ): Promise<{ giftCards: GiftCardData[]; total: number; page: number; totalPages: number }> {
+    await this.requireBusinessPermission(userId, businessId);
+    return this.giftCardRepository.findByBusiness(businessId, filters);
+  }
+
+  /** The card with its ledger */
+  async getGiftCard(userId: string, giftCardId: string): Promise<GiftCardWithTransactions> {
+    const card = await this.findCard(giftCardId);
+    if (card.customerId !== userId) {
+      await this.requireBusinessPermission(userId, card.businessId);
+    }
+
+    const transactions = await this.giftCardRepository.findTransactions(card.id);
+    return { ...card, transactions };
+  }
+
+  /** Balance check by code, e.g. at the desk or before booking */
+  async lookupByCode(userId: string, code: string): Promise<GiftCardData> {
+    const card = await this.giftCardRepository.findByCode(code.trim().toUpperCase());
+    if (!card) {
+      throw new AppError('GIFT_CARD_NOT_FOUND', { message: 'Gift card not found' });
+    }
+    if (card.customerId && card.customerId !== userId) {
+      await this.requireBusinessPermission(userId, card.businessId);
+    }
+    return card;
+  }
+
+  /** Stops the card from being spent; its ledger and past redemptions stay */
+  async voidGiftCard(userId: string, giftCardId: string): Promise<GiftCardData> {
+    const card = await this.findCard(giftCardId);
+    await this.requireBusinessPermission(userId, card.businessId);
+
+    const voided = await this.giftCardRepository.deactivate(card.id);
+    logger.info('Gift card voided', { userId, giftCardId, balance: voided.balance });
+    return voided;
+  }
+
+  /**
+   * Pays for (part of) an appointment with the card. Without an amount it covers as
+   * much of what is left to pay as the balance allows: the appointment price, less
+   * its deposit and what other cards already covered. The customer of the
+   * appointment or its business staff may redeem.
+   */
+  async redeem(userId: string, data: RedeemGiftCardRequest): Promise<GiftCardRedemptionResult> {
+    const appointment = await this.appointmentRepository.findById(data.appointmentId);
+    if (!appointment) {
+      throw new AppError('APPOINTMENT_NOT_FOUND', { message: 'Appointment not found' });
+    }
+    if (appointment.customerId !== userId) {
+      await this.appointmentService.assertBusinessAppointmentAccess(
+        userId,
+        appointment.businessId,
+        PermissionName.EDIT_ALL_APPOINTMENTS,
+        PermissionName.EDIT_OWN_APPOINTMENTS
+      );
+    }
+    if (!ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status) && appointment.status !== AppointmentStatus.COMPLETED) {
+      throw new AppError('GIFT_CARD_NOT_APPLICABLE', {
+        message: 'Cancelled appointments cannot be paid with a gift card',
+        params: { status: appointment.status },
+      });
+    }
+
+    const card = await this.giftCardRepository.findByCode(data.code.trim().toUpperCase());
+    if (!card) {
+      throw new AppError('GIFT_CARD_NOT_FOUND', { message: 'Gift card not found' });
+    }
+    if (card.businessId !== appointment.businessId || (card.customerId && card.customerId !== appointment.customerId)) {
+      throw new AppError('GIFT_CARD_NOT_APPLICABLE', { message: 'This card cannot be used for this appointment' });
+    }
+    if (card.currency !== appointment.currency) {
+      throw new AppError('GIFT_CARD_NOT_APPLICABLE', {
+        message: 'The card currency differs from the appointment currency',
+        params: { cardCurrency: card.currency, appointmentCurrency: appointment.currency },
+      });
+    }
+    this.assertUsable(card);
+
+    const { amountDue, redemption } = await this.giftCardRepository.redeem(
+      card.id,
+      {
+        appointmentId: appointment.id,
+        maxAmount: Math.min(data.amount ?? card.balance, card.balance),
+        createdBy: userId,
+      },
+      (tx) => this.getAmountDue(appointment, tx)
+    );
+    if (amountDue <= 0) {
+      throw new AppError('GIFT_CARD_NOT_APPLICABLE', { message: 'Nothing is left to pay for this appointment' });
+    }
+    if (!redemption) {
+      // Spent or voided since it was read
+      throw new AppError('GIFT_CARD_NO_BALANCE', { message: 'The card balance no longer covers this amount' });
+    }
+
+    const amount = redemption.transaction.amount;
+    logger.info('Gift card redeemed', { userId, giftCardId: card.id, appointmentId: appointment.id, amount });
+    return {
+      giftCard: redemption.giftCard,
+      transaction: redemption.transaction,
+      remainingPrice: roundToKurus(amountDue - amount),
+    };
+  }
+
+  /**
+   * Puts the amount redeemed on an appointment that ended without being completed
+   * back on the cards, split like a paid deposit (see resolveDepositSettlement): all
+   * of it when the business cancelled or the customer cancelled in time, the late
+   * cancellation share otherwise, nothing for a no-show. Registered with
+   * AppointmentService.onAppointmentEnded().
+   */
+  async refundRedemptions(appointment: AppointmentData, reason: DepositSettlementReason): Promise<void> {
+    const redeemed = await this.giftCardRepository.findRedeemedAmount(appointment.id);
+    if (redeemed <= 0) {
+      return;
+    }
+
+    const policy = await this.cancellationPolicyService.getBusinessPolicySettings(appointment.businessId);
+    const hoursBeforeStart =
+      (new Date(appointment.startTime).getTime() - Date.now()) / (1000 * 60 * 60);
+    const settlement = resolveDepositSettlement(redeemed, reason, hoursBeforeStart, policy);
+    if (settlement.refundAmount <= 0) {
+      logger.info('Gift card redemptions forfeited', { appointmentId: appointment.id, reason, amount: redeemed });
+      return;
+    }
+
+    const refunds = await this.giftCardRepository.refundAppointment(appointment.id, settlement.refundAmount);
+    logger.info('Gift card redemptions settled', {
+      appointmentId: appointment.id,
+      reason,
+      refunded: refunds.reduce((sum, refund) => sum + refund.amount, 0),
+      forfeited: settlement.forfeitAmount,
+    });
+  }
+
+  /**
+   * Nothing is due when a session package credit is held for or spent on the
+   * appointment. A deposit counts once it is paid or still payable (being paid
+   * included), so the card and the deposit cannot both cover the same share.
+   */
+  private async getAmountDue(appointment: AppointmentData, tx: Prisma.TransactionClient): Promise<number> {
+    const [deposit, redeemed, packageCredit] = await Promise.all([
+      this.appointmentPaymentRepository.findByAppointment(appointment.id, tx),
+      this.giftCardRepository.findRedeemedAmount(appointment.id, tx),
+      this.sessionPackageRepository.findUsageByAppointment(appointment.id, tx),
+    ]);
+    if (packageCredit && (packageCredit.status === 'RESERVED' || packageCredit.status === 'USED')) {
+      return 0;
+    }
+    const depositCovered = deposit && DEPOSIT_COVERING_STATUSES.includes(deposit.status) ? deposit.amount : 0;
+    return roundToKurus(appointment.price - depositCovered - redeemed);
+  }
+
+  private assertUsable(card: GiftCardData): void {
+    if (!card.isActive) {
+      throw new AppError('GIFT_CARD_INACTIVE', { message: 'This card has been voided' });
+    }
+    if (card.expiresAt && card.expiresAt <= new Date()) {
+      throw new AppError('GIFT_CARD_EXPIRED', { message: 'This card has expired', params: { expiresAt: card.expiresAt } });
+    }
+    if (card.balance <= 0) {
+      throw new AppError('GIFT_CARD_NO_BALANCE', { message: 'The card has no balance left' });
+    }
+  }
+
+  private async findCard(giftCardId: string): Promise<GiftCardData> {
+    const card = await this.giftCardRepository.findById(giftCardId);
+    if (!card) {
+      throw new AppError('GIFT_CARD_NOT_FOUND', { message: 'Gift card not found' });
+    }
+    return card;
+  }
+
+  private generateCode(prefix: string): string {
+    let code = prefix;
+    for (let i = 0; i < CODE_RANDOM_LENGTH; i++) {
+      code += CODE_CHARS.charAt(randomInt(CODE_CHARS.length));
+    }
+    return code;
+  }
+
+  private async requireBusinessPermission(userId: string, businessId: string): Promise<void> {
+    const [resource, action] = PermissionName.EDIT_ALL_BUSINESSES.split(':');
+    const hasGlobal = await this.rbacService.hasPermission(userId, resource, action);
+
+    if (!hasGlobal) {
+      await this.rbacService.requirePermission(userId, PermissionName.EDIT_OWN_BUSINESS, { businessId });
+    }
+  }
+}
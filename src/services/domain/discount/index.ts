@@ -2,3 +2,4 @@
 export { 
   DiscountCodeService 
 } from './discountCodeService';
+export { GiftCardService } from './giftCardService';
@@ -0,0 +1,539 @@
+import {
+  ImportEntityType,
+  ImportReport,
+  ImportRow,
+  ImportRowError,
+  ImportRowResult,
+} from '../../../types/import';
+import { ServiceData } from '../../../types/business';
+import { PermissionName } from '../../../types/auth';
+import { RepositoryContainer } from '../../../repositories';
+import { StaffWithUser } from '../../../repositories/staffRepository';
+import { OfferingService } from '../offering/offeringService';
+import { applyStaffOverride } from '../offering/staffOverrides';
+import { AppointmentService } from '../appointment/appointmentService';
+import { UsageService } from '../usage/usageService';
+import { RBACService } from '../rbac/rbacService';
+import { createServiceSchema } from '../../../schemas/business.schemas';
+import { normalizePhoneNumber } from '../../../utils/phoneNumber';
+import {
+  createCalendarDate,
+  createDateTimeInTimezone,
+  formatTimeInTimezone,
+  getDayOfWeekForDate,
+  resolveTimezone,
+} from '../../../utils/timezoneHelper';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+import {
+  parseImportAmount,
+  parseImportDate,
+  parseImportTime,
+  readImportRows,
+} from './importRules';
+
+const OVERLAP_CONSTRAINT_NAME = 'appointments_no_overlap_per_staff';
+
+type ImportLine = { line: number; values: ImportRow };
+
+/** What appointment rows are matched against, loaded once per import */
+interface AppointmentLookups {
+  services: ServiceData[];
+  staff: StaffWithUser[];
+}
+
+/** Phone number -> customer id; null for customers a dry run would create */
+type KnownCustomers = Map<string, string | null>;
+
+/** A future appointment row that passed validation and awaits the time checks */
+interface AppointmentCandidate {
+  line: number;
+  values: ImportRow;
+  phone: string;
+  service: ServiceData;
+  staffId?: string;
+  date: string;
+  start: Date;
+  end: Date;
+  /** End of the time the staff member is busy, including the service's buffer */
+  busyUntil: Date;
+  price: number;
+  importKey: string;
+}
+
+/**
+ * Bulk import of customers, services and future appointments from a CSV export,
+ * for businesses moving over from a spreadsheet or another booking tool.
+ *
+ * Every import can run as a dry run that reports per row what would happen without
+ * writing anything. Re-running an import is safe: customers are matched by phone
+ * number, services by name and appointments by their import key, so rows imported
+ * before are skipped. Rows with errors are reported and left out; the others are
+ * imported. Imported appointments are confirmed silently, without notifications.
+ */
+export class BusinessImportService {
+  constructor(
+    private repositories: RepositoryContainer,
+    private offeringService: OfferingService,
+    private appointmentService: AppointmentService,
+    private usageService: UsageService,
+    private rbacService: RBACService
+  ) {}
+
+  async importFile(
+    userId: string,
+    businessId: string,
+    type: ImportEntityType,
+    content: string,
+    dryRun: boolean
+  ): Promise<ImportReport> {
+    await this.requireImportPermission(userId, businessId);
+
+    const business = await this.repositories.businessRepository.findById(businessId);
+    if (!business) {
+      throw new AppError('BUSINESS_NOT_FOUND', { message: 'Business not found' });
+    }
+
+    const rows = readImportRows(type, content);
+    let results: ImportRowResult[];
+    switch (type) {
+      case 'customers':
+        results = await this.importCustomers(businessId, rows, dryRun);
+        break;
+      case 'services':
+        results = await this.importServices(userId, businessId, rows, dryRun);
+        break;
+      case 'appointments':
+        results = await this.importAppointments(businessId, resolveTimezone(business.timezone), rows, dryRun);
+        break;
+    }
+
+    const report: ImportReport = {
+      type,
+      dryRun,
+      totalRows: rows.length,
+      created: results.filter((row) => row.action === 'CREATE').length,
+      skipped: results.filter((row) => row.action === 'SKIP').length,
+      failed: results.filter((row) => row.action === 'ERROR').length,
+      rows: results,
+    };
+
+    logger.info('Bulk import finished', {
+      userId,
+      businessId,
+      type,
+      dryRun,
+      created: report.created,
+      skipped: report.skipped,
+      failed: report.failed,
+    });
+    return report;
+  }
+
+  private async importCustomers(businessId: string, rows: ImportLine[], dryRun: boolean): Promise<ImportRowResult[]> {
+    const known: KnownCustomers = new Map();
+    const firstLineByPhone = new Map<string, number>();
+    const results: ImportRowResult[] = [];
+
+    for (const { line, values } of rows) {
+      const phone = values.phone ? normalizePhoneNumber(values.phone) : null;
+      if (!phone) {
+        results.push(rowError(line, phoneError(values.phone)));
+        continue;
+      }
+      const firstLine = firstLineByPhone.get(phone);
+      if (firstLine) {
+        results.push(rowError(line, { code: 'DUPLICATE_ROW', field: 'phone', message: `Same customer as row ${firstLine}` }));
+        continue;
+      }
+      firstLineByPhone.set(phone, line);
+
+      const customer = await this.resolveCustomer(businessId, phone, values, known, dryRun);
+      results.push('code' in customer
+        ? rowError(line, customer)
+        : { row: line, action: customer.created ? 'CREATE' : 'SKIP', id: customer.id, errors: [] });
+    }
+
+    if (!dryRun && results.some((row) => row.action === 'CREATE')) {
+      await this.usageService.updateCustomerUsage(businessId);
+    }
+    return results;
+  }
+
+  private async importServices(
+    userId: string,
+    businessId: string,
+    rows: ImportLine[],
+    dryRun: boolean
+  ): Promise<ImportRowResult[]> {
+    const existing = await this.repositories.serviceRepository.findByBusinessId(businessId);
+    const serviceByName = new Map(existing.map((service) => [service.name.toLocaleLowerCase('tr-TR'), service]));
+    const firstLineByName = new Map<string, number>();
+    const results: ImportRowResult[] = [];
+
+    for (const { line, values } of rows) {
+      const parsed = createServiceSchema.safeParse({
+        name: values.name,
+        description: values.description,
+        duration: values.duration !== undefined ? Number(values.duration) : undefined,
+        price: values.price !== undefined ? parseImportAmount(values.price) ?? NaN : undefined,
+        currency: values.currency?.toUpperCase(),
+        bufferTime: values.bufferTime !== undefined ? Number(values.bufferTime) : undefined,
+      });
+      if (!parsed.success) {
+        results.push({
+          row: line,
+          action: 'ERROR',
+          errors: parsed.error.issues.map((issue) => {
+            const field = String(issue.path[0]);
+            return values[field] === undefined
+              ? { code: 'REQUIRED' as const, field, message: `${field} is required` }
+              : { code: 'INVALID_VALUE' as const, field, message: issue.message };
+          }),
+        });
+        continue;
+      }
+
+      const key = parsed.data.name.toLocaleLowerCase('tr-TR');
+      const firstLine = firstLineByName.get(key);
+      if (firstLine) {
+        results.push(rowError(line, { code: 'DUPLICATE_ROW', field: 'name', message: `Same service as row ${firstLine}` }));
+        continue;
+      }
+      firstLineByName.set(key, line);
+
+      const match = serviceByName.get(key);
+      if (match) {
+        results.push({ row: line, action: 'SKIP', id: match.id, errors: [] });
+        continue;
+      }
+
+      const limit = await this.usageService.canAddService(businessId);
+      if (!limit.allowed) {
+        results.push(rowError(line, { code: 'LIMIT_REACHED', message: limit.reason || 'Service limit reached' }));
+        continue;
+      }
+      if (dryRun) {
+        results.push({ row: line, action: 'CREATE', errors: [] });
+        continue;
+      }
+
+      try {
+        const service = await this.offeringService.createService(userId, businessId, {
+          name: parsed.data.name,
+          description: parsed.data.description,
+          duration: parsed.data.duration,
+          price: parsed.data.price,
+          currency: parsed.data.currency,
+          bufferTime: parsed.data.bufferTime,
+          assignToAll: true,
+        });
+        results.push({ row: line, action: 'CREATE', id: service.id, errors: [] });
+      } catch (error) {
+        results.push(rowError(line, writeError(error)));
+      }
+    }
+    return results;
+  }
+
+  private async importAppointments(
+    businessId: string,
+    timezone: string,
+    rows: ImportLine[],
+    dryRun: boolean
+  ): Promise<ImportRowResult[]> {
+    const lookups: AppointmentLookups = {
+      services: (await this.repositories.serviceRepository.findByBusinessId(businessId))
+        .filter((service) => service.isActive && !service.isGroupSession),
+      staff: await this.repositories.staffRepository.findByBusinessId(businessId),
+    };
+
+    const results = new Map<number, ImportRowResult>();
+    const candidates: AppointmentCandidate[] = [];
+    for (const row of rows) {
+      const candidate = await this.parseAppointmentRow(timezone, lookups, row);
+      if ('errors' in candidate) {
+        results.set(row.line, { row: row.line, action: 'ERROR', errors: candidate.errors });
+      } else {
+        candidates.push(candidate);
+      }
+    }
+
+    const imported = await this.repositories.appointmentRepository.findImportKeys(
+      businessId,
+      candidates.map((candidate) => candidate.importKey)
+    );
+    const known: KnownCustomers = new Map();
+    const firstLineByKey = new Map<string, number>();
+    // Rows accepted from this file block their staff member's time for later rows
+    const accepted: AppointmentCandidate[] = [];
+    let createdCustomers = 0;
+
+    for (const candidate of candidates) {
+      const { line } = candidate;
+      if (imported.has(candidate.importKey)) {
+        results.set(line, { row: line, action: 'SKIP', errors: [] });
+        continue;
+      }
+      const firstLine = firstLineByKey.get(candidate.importKey);
+      if (firstLine) {
+        results.set(line, rowError(line, { code: 'DUPLICATE_ROW', message: `Same appointment as row ${firstLine}` }));
+        continue;
+      }
+      firstLineByKey.set(candidate.importKey, line);
+
+      const timeError = await this.findTimeError(businessId, timezone, candidate, accepted);
+      if (timeError) {
+        results.set(line, rowError(line, timeError));
+        continue;
+      }
+
+      const customer = await this.resolveCustomer(businessId, candidate.phone, candidate.values, known, dryRun);
+      if ('code' in customer) {
+        results.set(line, rowError(line, customer));
+        continue;
+      }
+      if (customer.created) createdCustomers++;
+
+      if (dryRun) {
+        accepted.push(candidate);
+        results.set(line, { row: line, action: 'CREATE', errors: [] });
+        continue;
+      }
+
+      try {
+        const appointment = await this.repositories.appointmentRepository.createImported({
+          businessId,
+          serviceId: candidate.service.id,
+          staffId: candidate.staffId,
+          customerId: customer.id as string,
+          date: createCalendarDate(candidate.date),
+          startTime: candidate.start,
+          endTime: candidate.end,
+          price: candidate.price,
+          listPrice: candidate.service.price,
+          currency: candidate.service.currency,
+          customerNotes: candidate.values.notes,
+          importKey: candidate.importKey,
+        });
+        accepted.push(candidate);
+        results.set(line, { row: line, action: 'CREATE', id: appointment.id, errors: [] });
+      } catch (error) {
+        results.set(line, rowError(line, isOverlapConflict(error)
+          ? { code: 'TIME_CONFLICT', field: 'time', message: 'The staff member already has an appointment at this time' }
+          : writeError(error)));
+      }
+    }
+
+    if (!dryRun) {
+      const created = [...results.values()].filter((row) => row.action === 'CREATE').length;
+      if (created > 0) {
+        await this.usageService.recordAppointmentUsage(businessId, created);
+      }
+      if (createdCustomers > 0) {
+        await this.usageService.updateCustomerUsage(businessId);
+      }
+    }
+    return rows.map(({ line }) => results.get(line) as ImportRowResult);
+  }
+
+  /** Checks the cells of an appointment row; the time checks come later */
+  private async parseAppointmentRow(
+    timezone: string,
+    lookups: AppointmentLookups,
+    { line, values }: ImportLine
+  ): Promise<AppointmentCandidate | { errors: ImportRowError[] }> {
+    const errors: ImportRowError[] = [];
+
+    const phone = values.phone ? normalizePhoneNumber(values.phone) : null;
+    if (!phone) errors.push(phoneError(values.phone));
+
+    const service = values.service ? findService(lookups.services, values.service) : undefined;
+    if (!values.service) {
+      errors.push({ code: 'REQUIRED', field: 'service', message: 'service is required' });
+    } else if (!service) {
+      errors.push({ code: 'SERVICE_NOT_FOUND', field: 'service', message: `No active service named "${values.service}"` });
+    }
+
+    const staffId = values.staff ? findStaffId(lookups.staff, values.staff) : undefined;
+    if (values.staff && !staffId) {
+      errors.push({ code: 'STAFF_NOT_FOUND', field: 'staff', message: `No staff member matches "${values.staff}"` });
+    }
+
+    const date = values.date ? parseImportDate(values.date) : null;
+    if (!date) errors.push(cellError('date', values.date, 'Use YYYY-MM-DD or DD.MM.YYYY'));
+    const time = values.time ? parseImportTime(values.time) : null;
+    if (!time) errors.push(cellError('time', values.time, 'Use HH:MM'));
+
+    const price = values.price !== undefined ? parseImportAmount(values.price) : undefined;
+    if (price === null) errors.push(cellError('price', values.price, 'Use a non-negative amount'));
+
+    if (errors.length > 0 || !phone || !service || !date || !time) {
+      return { errors };
+    }
+
+    const start = createDateTimeInTimezone(date, time, timezone);
+    if (start <= new Date()) {
+      return { errors: [{ code: 'PAST_DATE', field: 'date', message: 'Only future appointments can be imported' }] };
+    }
+
+    // The staff member's own duration and buffer for the service, as on a booking
+    const override = staffId ? await this.repositories.serviceRepository.getStaffOverride(service.id, staffId) : null;
+    const booked = applyStaffOverride(service, override);
+    const end = new Date(start.getTime() + booked.duration * 60000);
+
+    return {
+      line,
+      values,
+      phone,
+      service: { ...service, price: booked.price },
+      staffId,
+      date,
+      start,
+      end,
+      busyUntil: new Date(end.getTime() + booked.bufferTime * 60000),
+      price: price ?? booked.price,
+      importKey: values.externalId
+        ? `ext:${values.externalId}`
+        : `${phone}|${service.id}|${start.toISOString()}`,
+    };
+  }
+
+  /** Working hours, then the staff member's existing and just imported appointments */
+  private async findTimeError(
+    businessId: string,
+    timezone: string,
+    candidate: AppointmentCandidate,
+    accepted: AppointmentCandidate[]
+  ): Promise<ImportRowError | null> {
+    const hours = await this.appointmentService.findWorkingHoursForDay(
+      businessId,
+      getDayOfWeekForDate(candidate.date),
+      candidate.staffId
+    );
+    const startTime = formatTimeInTimezone(candidate.start, timezone);
+    const endTime = formatTimeInTimezone(candidate.end, timezone);
+    const withinHours = hours.some((range) =>
+      startTime >= range.startTime && (endTime <= range.endTime || endTime === '00:00') && endTime > startTime
+    );
+    if (!withinHours) {
+      return { code: 'OUTSIDE_WORKING_HOURS', field: 'time', message: 'The appointment is outside working hours' };
+    }
+
+    // Without a staff member the per-staff overlap constraint does not apply
+    if (!candidate.staffId) {
+      return null;
+    }
+
+    const clash = accepted.find((other) =>
+      other.staffId === candidate.staffId && other.start < candidate.busyUntil && other.busyUntil > candidate.start
+    );
+    if (clash) {
+      return { code: 'TIME_CONFLICT', field: 'time', message: `Overlaps row ${clash.line} for the same staff member` };
+    }
+
+    const conflicts = await this.repositories.appointmentRepository.findConflictingAppointments(
+      businessId,
+      createCalendarDate(candidate.date),
+      candidate.start,
+      candidate.busyUntil,
+      candidate.staffId
+    );
+    return conflicts.length > 0
+      ? { code: 'TIME_CONFLICT', field: 'time', message: 'The staff member already has an appointment at this time' }
+      : null;
+  }
+
+  /**
+   * The customer with the phone number, created when they have no account yet.
+   * A dry run only checks that a new customer could be added.
+   */
+  private async resolveCustomer(
+    businessId: string,
+    phone: string,
+    values: ImportRow,
+    known: KnownCustomers,
+    dryRun: boolean
+  ): Promise<{ id?: string; created: boolean } | ImportRowError> {
+    if (known.has(phone)) {
+      return { id: known.get(phone) ?? undefined, created: false };
+    }
+
+    const existing = await this.repositories.userRepository.findByPhoneNumber(phone);
+    if (existing) {
+      known.set(phone, existing.id);
+      return { id: existing.id, created: false };
+    }
+
+    const limit = await this.usageService.canAddCustomer(businessId);
+    if (!limit.allowed) {
+      return { code: 'LIMIT_REACHED', field: 'phone', message: limit.reason || 'Customer limit reached' };
+    }
+    if (dryRun) {
+      known.set(phone, null);
+      return { created: true };
+    }
+
+    try {
+      const user = await this.repositories.userRepository.create({
+        phoneNumber: phone,
+        firstName: values.firstName,
+        lastName: values.lastName,
+      });
+      known.set(phone, user.id);
+      return { id: user.id, created: true };
+    } catch (error) {
+      return writeError(error);
+    }
+  }
+
+  private async requireImportPermission(userId: string, businessId: string): Promise<void> {
+    const [resource, action] = PermissionName.EDIT_ALL_BUSINESSES.split(':');
+    const hasGlobal = await this.rbacService.hasPermission(userId, resource, action);
+
+    if (!hasGlobal) {
+      await this.rbacService.requirePermission(userId, PermissionName.EDIT_OWN_BUSINESS, { businessId });
+    }
+  }
+}
+
+function findService(services: ServiceData[], name: string): ServiceData | undefined {
+  const key = name.toLocaleLowerCase('tr-TR');
+  return services.find((service) => service.name.toLocaleLowerCase('tr-TR') === key);
+}
+
+/** A staff member by phone number or full name */
+function findStaffId(staff: StaffWithUser[], value: string): string | undefined {
+  const phone = normalizePhoneNumber(value);
+  const name = value.toLocaleLowerCase('tr-TR').replace(/\s+/g, ' ');
+  return staff.find((member) =>
+    (phone && member.user.phoneNumber === phone) ||
+    `${member.user.firstName || ''} ${member.user.lastName || ''}`.trim().toLocaleLowerCase('tr-TR') === name
+  )?.id;
+}
+
+function rowError(line: number, error: ImportRowError): ImportRowResult {
+  return { row: line, action: 'ERROR', errors: [error] };
+}
+
+function phoneError(value: string | undefined): ImportRowError {
+  return value
+    ? { code: 'INVALID_PHONE', field: 'phone', message: `"${value}" is not a valid phone number` }
+    : { code: 'REQUIRED', field: 'phone', message: 'phone is required' };
+}
+
+function cellError(field: string, value: string | undefined, hint: string): ImportRowError {
+  return value
+    ? { code: 'INVALID_VALUE', field, message: `"${value}" is not valid. ${hint}` }
+    : { code: 'REQUIRED', field, message: `${field} is required` };
+}
+
+function writeError(error: unknown): ImportRowError {
+  return { code: 'WRITE_FAILED', message: error instanceof Error ? error.message : String(error) };
+}
+
+function isOverlapConflict(error: unknown): boolean {
+  const message = String((error as { message?: unknown })?.message || '');
+  const cause = String((error as { meta?: { cause?: unknown } })?.meta?.cause || '');
+  return message.includes(OVERLAP_CONSTRAINT_NAME) || cause.includes(OVERLAP_CONSTRAINT_NAME);
+}
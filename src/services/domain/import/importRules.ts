@@ -0,0 +1,197 @@
+/**
+ * Pure helpers for bulk imports: reading a CSV export and the values in its cells.
+ *
+ * Spreadsheets come from many tools and locales, so columns are matched by name in
+ * English or Turkish, the delimiter is detected (Excel in Turkish saves CSV with
+ * semicolons), and dates and amounts are accepted in the local formats as well.
+ */
+
+import { ImportEntityType, ImportRow } from '../../../types/import';
+import { AppError } from '../../../types/responseTypes';
+
+export const MAX_IMPORT_ROWS = 2000;
+
+const PHONE_ALIASES = ['phone', 'phonenumber', 'mobile', 'telefon', 'telefonno', 'tel', 'gsm', 'cep', 'ceptelefonu'];
+const FIRST_NAME_ALIASES = ['firstname', 'ad', 'adi', 'isim'];
+const LAST_NAME_ALIASES = ['lastname', 'surname', 'soyad', 'soyadi'];
+const PRICE_ALIASES = ['price', 'fiyat', 'ucret', 'tutar'];
+
+/** Header names (normalized) accepted for each column of each import type */
+const COLUMN_ALIASES: Record<ImportEntityType, Record<string, string[]>> = {
+  customers: {
+    phone: PHONE_ALIASES,
+    firstName: [...FIRST_NAME_ALIASES, 'name'],
+    lastName: LAST_NAME_ALIASES,
+  },
+  services: {
+    name: ['name', 'service', 'servicename', 'hizmet', 'hizmetadi', 'ad'],
+    duration: ['duration', 'durationminutes', 'minutes', 'sure', 'dakika'],
+    price: PRICE_ALIASES,
+    currency: ['currency', 'parabirimi'],
+    description: ['description', 'aciklama'],
+    bufferTime: ['buffertime', 'buffer', 'arasure'],
+  },
+  appointments: {
+    phone: PHONE_ALIASES,
+    firstName: FIRST_NAME_ALIASES,
+    lastName: LAST_NAME_ALIASES,
+    service: ['service', 'servicename', 'hizmet', 'hizmetadi'],
+    staff: ['staff', 'staffname', 'employee', 'personel', 'calisan'],
+    date: ['date', 'tarih'],
+    time: ['time', 'starttime', 'start', 'saat', 'baslangic'],
+    price: PRICE_ALIASES,
+    notes: ['notes', 'note', 'customernotes', 'not', 'notlar'],
+    externalId: ['externalid', 'id', 'bookingid', 'reference', 'ref', 'randevuno'],
+  },
+};
+
+const REQUIRED_COLUMNS: Record<ImportEntityType, string[]> = {
+  customers: ['phone'],
+  services: ['name', 'duration', 'price'],
+  appointments: ['phone', 'service', 'date', 'time'],
+};
+
+/**
+ * The data rows of a CSV file, keyed by canonical column name. Unknown columns are
+ * ignored and empty rows skipped. Throws IMPORT_FILE_INVALID when the file has no
+ * data or lacks a required column, IMPORT_TOO_MANY_ROWS above {@link MAX_IMPORT_ROWS}.
+ */
+export function readImportRows(
+  type: ImportEntityType,
+  text: string
+): Array<{ line: number; values: ImportRow }> {
+  const [header, ...records] = parseCsv(text);
+  if (!header || records.length === 0) {
+    throw new AppError('IMPORT_FILE_INVALID', { message: 'The file has no header row or no data rows' });
+  }
+
+  const aliases = COLUMN_ALIASES[type];
+  const columns = header.map((name) => {
+    const normalized = normalizeHeader(name);
+    return Object.keys(aliases).find((column) => aliases[column].includes(normalized));
+  });
+
+  const missing = REQUIRED_COLUMNS[type].filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new AppError('IMPORT_FILE_INVALID', {
+      message: `Missing required column(s): ${missing.join(', ')}`,
+      params: { columns: missing },
+    });
+  }
+
+  const rows = records
+    .map((cells, index) => {
+      const values: ImportRow = {};
+      columns.forEach((column, position) => {
+        const value = (cells[position] ?? '').trim();
+        if (column && value && !values[column]) {
+          values[column] = value;
+        }
+      });
+      return { line: index + 2, values };
+    })
+    .filter((row) => Object.keys(row.values).length > 0);
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new AppError('IMPORT_TOO_MANY_ROWS', {
+      message: `At most ${MAX_IMPORT_ROWS} rows can be imported at once`,
+      params: { max: MAX_IMPORT_ROWS, rows: rows.length },
+    });
+  }
+  return rows;
+}
+
+/** RFC 4180 records; the delimiter is whichever of , ; or tab the header uses most */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  return records.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+/** YYYY-MM-DD from 2026-11-03, 03.11.2026 or 03/11/2026 (day first); null when invalid */
+export function parseImportDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const local = value.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+  const parts = iso ? [iso[1], iso[2], iso[3]] : local ? [local[3], local[2], local[1]] : null;
+  if (!parts) return null;
+
+  const [year, month, day] = parts;
+
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const parsed = new Date(`${date}T00:00:00.000Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date) ? date : null;
+}
+
+/** HH:MM from 9:30, 09:30 or 09.30 (seconds dropped); null when invalid */
+export function parseImportTime(value: string): string | null {
+  const match = value.match(/^(\d{1,2})[:.](\d{2})(?::\d{2})?$/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+}
+
+/** A non-negative amount from 1250, 1250.50, 1.250,50 or "₺1,250.50"; null when invalid */
+export function parseImportAmount(value: string): number | null {
+  let digits = value.replace(/[^\d.,-]/g, '');
+  const lastComma = digits.lastIndexOf(',');
+  const lastDot = digits.lastIndexOf('.');
+  // Whichever separator comes last is the decimal one; the other groups thousands
+  digits = lastComma > lastDot
+    ? digits.replace(/\./g, '').replace(',', '.')
+    : digits.replace(/,/g, '');
+
+  const amount = Number(digits);
+  return digits !== '' && isFinite(amount) && amount >= 0 ? Math.round(amount * 100) / 100 : null;
+}
+
+/** Lower-case letters and digits only, with Turkish letters folded to ASCII */
+export function normalizeHeader(name: string): string {
+  return name
+    .toLocaleLowerCase('tr-TR')
+    .replace(/ı/g, 'i')
+    .replace(/ş/g, 's')
+    .replace(/ğ/g, 'g')
+    .replace(/ü/g, 'u')
+    .replace(/ö/g, 'o')
+    .replace(/ç/g, 'c')
+    .replace(/[^a-z0-9]/g, '');
+}
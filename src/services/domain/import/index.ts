@@ -0,0 +1,2 @@
+// Bulk Import Domain Services
+export { BusinessImportService } from './businessImportService';
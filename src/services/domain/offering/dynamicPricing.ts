@@ -0,0 +1,98 @@
+/**
+ * Dynamic pricing of a service: the rules in Service.pricing adjust its price (or the
+ * staff member's, see staffOverrides) for the slot being quoted or booked.
+ *
+ * Every matching rule applies, percentages are taken of the price before any rule,
+ * and the result never goes below zero. Times and weekdays are the business's clock.
+ */
+
+import { PriceAdjustment, ServicePricing, ServicePricingRule } from '../../../types/business';
+import { formatTimeInTimezone, toWallTime } from '../../../utils/timezoneHelper';
+
+export interface PricingContext {
+  start: Date;
+  now: Date;
+  timezone: string;
+  /** Unknown (a public slot listing) leaves FIRST_VISIT rules out */
+  firstVisit?: boolean;
+}
+
+export interface PriceQuote {
+  /** Price before the rules */
+  basePrice: number;
+  price: number;
+  /** Rules that matched, with what each added (negative for discounts) */
+  adjustments: Array<{ type: ServicePricingRule['type']; label?: string; amount: number }>;
+}
+
+export const roundPrice = (amount: number) => Math.round(amount * 100) / 100;
+
+/** The rules of a Service.pricing value; anything else stored there has no rules */
+export function parseServicePricing(pricing: unknown): ServicePricing | null {
+  if (!pricing || typeof pricing !== 'object' || !Array.isArray((pricing as ServicePricing).rules)) {
+    return null;
+  }
+  return pricing as ServicePricing;
+}
+
+function ruleMatches(rule: ServicePricingRule, context: PricingContext): boolean {
+  switch (rule.type) {
+    case 'SCHEDULE': {
+      if (rule.daysOfWeek?.length) {
+        const wall = toWallTime(context.start, context.timezone);
+        const dayOfWeek = new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+        if (!rule.daysOfWeek.includes(dayOfWeek)) {
+          return false;
+        }
+      }
+      const time = formatTimeInTimezone(context.start, context.timezone);
+      return (!rule.startTime || time >= rule.startTime) && (!rule.endTime || time < rule.endTime);
+    }
+    case 'LAST_MINUTE': {
+      const hoursAhead = (context.start.getTime() - context.now.getTime()) / (60 * 60 * 1000);
+      return hoursAhead >= 0 && hoursAhead <= rule.withinHours;
+    }
+    case 'FIRST_VISIT':
+      return context.firstVisit === true;
+    default:
+      return false;
+  }
+}
+
+function adjustmentAmount(adjustment: PriceAdjustment, basePrice: number): number {
+  return adjustment.type === 'PERCENTAGE' ? (basePrice * adjustment.value) / 100 : adjustment.value;
+}
+
+export function quotePrice(basePrice: number, pricing: unknown, context: PricingContext): PriceQuote {
+  const rules = parseServicePricing(pricing)?.rules ?? [];
+  const adjustments = rules
+    .filter((rule) => ruleMatches(rule, context))
+    .map((rule) => ({
+      type: rule.type,
+      ...(rule.label && { label: rule.label }),
+      amount: roundPrice(adjustmentAmount(rule.adjustment, basePrice))
+    }));
+  const total = adjustments.reduce((sum, adjustment) => sum + adjustment.amount, basePrice);
+
+  return { basePrice, price: Math.max(0, roundPrice(total)), adjustments };
+}
+
+/** Whether the price depends on who books, which a public slot listing cannot know */
+export function hasFirstVisitRule(pricing: unknown): boolean {
+  return Boolean(parseServicePricing(pricing)?.rules.some((rule) => rule.type === 'FIRST_VISIT'));
+}
+
+/**
+ * The rules after all prices of the business were multiplied: fixed amounts scale
+ * with them, percentages already do.
+ */
+export function scaleServicePricing(pricing: ServicePricing, multiplier: number): ServicePricing {
+  return {
+    ...pricing,
+    rules: pricing.rules.map((rule) =>
+      rule.adjustment.type === 'FIXED'
+        ? { ...rule, adjustment: { ...rule.adjustment, value: roundPrice(rule.adjustment.value * multiplier) } }
+        : rule
+    )
+  };
+}
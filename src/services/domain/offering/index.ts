@@ -1,3 +1,6 @@
 // Offering Domain Services - Index
 export { OfferingService } from './offeringService';
 export { BusinessTypeService } from './businessTypeService';
+export { ResourceService } from './resourceService';
+export { IntakeFormService } from './intakeFormService';
+export { SessionPackageService } from './sessionPackageService';
@@ -0,0 +1,111 @@
+/**
+ * Pure intake form helpers shared by the intake form service and booking.
+ *
+ * A returning customer does not have to answer the same questions again: answers
+ * to questions that kept their id since the customer's previous visit are reused,
+ * unless the question is asked on every visit. Whatever the customer answers now
+ * wins over the reused answer.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  IntakeAnswers,
+  IntakeAnswerValue,
+  IntakeFormField,
+  PublishIntakeFormRequest
+} from '../../../types/intakeForm';
+import { AppError } from '../../../types/responseTypes';
+
+/** The fields of a new version; questions without an id get one */
+export function buildIntakeFields(
+  fields: PublishIntakeFormRequest['fields']
+): IntakeFormField[] {
+  const fieldIds = new Set<string>();
+  return fields.map(field => {
+    const id = field.id ?? `if_${randomUUID()}`;
+    if (fieldIds.has(id)) {
+      throw new AppError('VALIDATION_ERROR', { message: `Duplicate intake field id ${id}`, params: { field: 'fields' } });
+    }
+    fieldIds.add(id);
+
+    return {
+      id,
+      label: field.label,
+      type: field.type,
+      required: field.required,
+      ...(field.type === 'CHOICE' && { options: field.options ?? [] }),
+      ...(field.askEveryVisit && { askEveryVisit: true })
+    };
+  });
+}
+
+/** The previous visit's answers that still fit the form's questions */
+export function reusableAnswers(fields: IntakeFormField[], previous: IntakeAnswers | null): IntakeAnswers {
+  if (!previous) return {};
+
+  const reusable: IntakeAnswers = {};
+  for (const field of fields) {
+    const value = previous[field.id];
+    if (field.askEveryVisit || value === undefined || answerProblem(field, value)) continue;
+    reusable[field.id] = value;
+  }
+  return reusable;
+}
+
+/**
+ * The answers to store: the submitted ones on top of the reusable previous ones.
+ * Throws INTAKE_ANSWERS_INVALID when an answer does not fit its question or a
+ * required question stays unanswered.
+ */
+export function resolveIntakeAnswers(
+  fields: IntakeFormField[],
+  submitted: IntakeAnswers,
+  previous: IntakeAnswers | null
+): { answers: IntakeAnswers; reusedFieldIds: string[] } {
+  const fieldsById = new Map(fields.map(field => [field.id, field]));
+  for (const [fieldId, value] of Object.entries(submitted)) {
+    const field = fieldsById.get(fieldId);
+    const problem = field ? answerProblem(field, value) : 'is not a question of this form';
+    if (problem) {
+      throw new AppError('INTAKE_ANSWERS_INVALID', { message: `Answer to ${fieldId} ${problem}`, params: { fieldId } });
+    }
+  }
+
+  const reused = reusableAnswers(fields, previous);
+  const reusedFieldIds = Object.keys(reused).filter(fieldId => !(fieldId in submitted));
+  const answers: IntakeAnswers = {};
+  for (const field of fields) {
+    const value = field.id in submitted ? submitted[field.id] : reused[field.id];
+    const answered = value !== undefined && !isBlank(value);
+    // A required consent has to be given; refusing it does not answer the question
+    if (field.required && (!answered || (field.type === 'CONSENT' && value !== true))) {
+      throw new AppError('INTAKE_ANSWERS_INVALID', {
+        message: `Required question "${field.label}" was not answered`,
+        params: { fieldId: field.id }
+      });
+    }
+    if (answered) {
+      answers[field.id] = value;
+    }
+  }
+
+  return { answers, reusedFieldIds: reusedFieldIds.filter(fieldId => fieldId in answers) };
+}
+
+function answerProblem(field: IntakeFormField, value: IntakeAnswerValue): string | null {
+  switch (field.type) {
+    case 'TEXT':
+      return typeof value === 'string' ? null : 'must be text';
+    case 'CHOICE':
+      return typeof value === 'string' && (isBlank(value) || field.options?.includes(value))
+        ? null
+        : 'must be one of the options';
+    case 'YES_NO':
+    case 'CONSENT':
+      return typeof value === 'boolean' ? null : 'must be yes or no';
+  }
+}
+
+function isBlank(value: IntakeAnswerValue): boolean {
+  return typeof value === 'string' && value.trim() === '';
+}
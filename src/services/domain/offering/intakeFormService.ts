@@ -0,0 +1,226 @@
+import {
+  AppointmentIntakeResponseData,
+  AppointmentIntakeView,
+  PublishIntakeFormRequest,
+  ServiceIntakeFormData,
+  SubmitIntakeAnswersRequest,
+} from '../../../types/intakeForm';
+import { AppointmentData } from '../../../types/business';
+import { IntakeFormRepository } from '../../../repositories/intakeFormRepository';
+import { ServiceRepository } from '../../../repositories/serviceRepository';
+import { AppointmentRepository } from '../../../repositories/appointmentRepository';
+import { StaffRepository } from '../../../repositories/staffRepository';
+import { BusinessRepository } from '../../../repositories/businessRepository';
+import { RBACService } from '../rbac/rbacService';
+import { PermissionName } from '../../../types/auth';
+import { ACTIVE_APPOINTMENT_STATUSES } from '../../../constants/appointmentStatus';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+import { buildIntakeFields, resolveIntakeAnswers, reusableAnswers } from './intakeFormRules';
+
+/**
+ * Per-service intake forms answered before the visit, such as health and consent
+ * questions. Forms are versioned: publishing adds a new version and answers keep
+ * pointing at the version they were given to. Answers of an appointment are only
+ * visible to its customer and its assigned staff member.
+ */
+export class IntakeFormService {
+  constructor(
+    private intakeFormRepository: IntakeFormRepository,
+    private serviceRepository: ServiceRepository,
+    private appointmentRepository: AppointmentRepository,
+    private staffRepository: StaffRepository,
+    private businessRepository: BusinessRepository,
+    private rbacService: RBACService
+  ) {}
+
+  /**
+   * The form a customer answers when booking the service. Returning customers get
+   * the answers that will be reused from their previous visit as prefill.
+   */
+  async getActiveForm(
+    userId: string,
+    serviceId: string
+  ): Promise<{ form: ServiceIntakeFormData | null; prefill: Record<string, string | boolean> }> {
+    await this.getService(serviceId);
+
+    const form = await this.intakeFormRepository.findActiveForm(serviceId);
+    if (!form) {
+      return { form: null, prefill: {} };
+    }
+
+    const previous = await this.intakeFormRepository.findLatestAnswers(userId, serviceId);
+    return { form, prefill: reusableAnswers(form.fields, previous) };
+  }
+
+  async getFormVersions(userId: string, serviceId: string): Promise<ServiceIntakeFormData[]> {
+    const service = await this.getService(serviceId);
+    await this.requireServicePermission(userId, service.businessId, 'view');
+
+    return this.intakeFormRepository.findVersions(serviceId);
+  }
+
+  /** Publishes a new version of the service's form; earlier answers keep their version. */
+  async publishForm(
+    userId: string,
+    serviceId: string,
+    data: PublishIntakeFormRequest
+  ): Promise<ServiceIntakeFormData> {
+    const service = await this.getService(serviceId);
+    await this.requireServicePermission(userId, service.businessId, 'manage');
+
+    const form = await this.intakeFormRepository.publishVersion({
+      businessId: service.businessId,
+      serviceId,
+      title: data.title,
+      description: data.description,
+      fields: buildIntakeFields(data.fields),
+      createdBy: userId,
+    });
+
+    logger.info('Intake form published', { userId, serviceId, formId: form.id, version: form.version });
+    return form;
+  }
+
+  async disableForm(userId: string, serviceId: string): Promise<void> {
+    const service = await this.getService(serviceId);
+    await this.requireServicePermission(userId, service.businessId, 'manage');
+
+    const disabled = await this.intakeFormRepository.deactivate(serviceId);
+    if (disabled === 0) {
+      throw new AppError('INTAKE_FORM_NOT_FOUND', { message: 'Service has no active intake form' });
+    }
+
+    logger.info('Intake form disabled', { userId, serviceId });
+  }
+
+  async getAppointmentIntake(userId: string, appointmentId: string): Promise<AppointmentIntakeView> {
+    const appointment = await this.getVisibleAppointment(userId, appointmentId);
+    const response = await this.intakeFormRepository.findResponseByAppointment(appointmentId);
+
+    if (response) {
+      const form = await this.intakeFormRepository.findFormById(response.formId);
+      return { appointmentId, status: 'COMPLETED', form, response };
+    }
+
+    const form = await this.intakeFormRepository.findActiveForm(appointment.serviceId);
+    if (!form) {
+      return { appointmentId, status: 'NOT_REQUIRED', form: null, response: null };
+    }
+
+    const view: AppointmentIntakeView = { appointmentId, status: 'PENDING', form, response: null };
+    if (appointment.customerId === userId) {
+      const previous = await this.intakeFormRepository.findLatestAnswers(
+        appointment.customerId,
+        appointment.serviceId,
+        appointmentId
+      );
+      view.prefill = reusableAnswers(form.fields, previous);
+    }
+    return view;
+  }
+
+  /**
+   * Stores the customer's answers for an upcoming appointment against the active
+   * form. Answers can be changed until the appointment starts.
+   */
+  async submitAppointmentIntake(
+    userId: string,
+    appointmentId: string,
+    data: SubmitIntakeAnswersRequest
+  ): Promise<AppointmentIntakeResponseData> {
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new AppError('APPOINTMENT_NOT_FOUND', { message: 'Appointment not found' });
+    }
+    if (appointment.customerId !== userId) {
+      throw new AppError('INTAKE_ACCESS_DENIED', { message: 'Only the customer can answer the intake form' });
+    }
+    if (!ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status) || appointment.startTime <= new Date()) {
+      throw new AppError('INTAKE_CLOSED', {
+        message: 'Intake answers can only be given before the appointment starts',
+        params: { status: appointment.status },
+      });
+    }
+
+    const form = await this.intakeFormRepository.findActiveForm(appointment.serviceId);
+    if (!form) {
+      throw new AppError('INTAKE_FORM_NOT_FOUND', { message: 'Service has no active intake form' });
+    }
+
+    const previous = await this.intakeFormRepository.findLatestAnswers(
+      appointment.customerId,
+      appointment.serviceId,
+      appointmentId
+    );
+    const { answers, reusedFieldIds } = resolveIntakeAnswers(form.fields, data.answers, previous);
+
+    const response = await this.intakeFormRepository.saveResponse({
+      appointmentId,
+      formId: form.id,
+      businessId: appointment.businessId,
+      serviceId: appointment.serviceId,
+      customerId: appointment.customerId,
+      answers,
+      reusedFieldIds,
+    });
+
+    logger.info('Intake answers saved', { userId, appointmentId, formId: form.id, reused: reusedFieldIds.length });
+    return response;
+  }
+
+  /**
+   * The customer and the staff member assigned to the appointment may see the
+   * answers. Without an assigned staff member the business owner takes that role.
+   */
+  private async getVisibleAppointment(userId: string, appointmentId: string): Promise<AppointmentData> {
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new AppError('APPOINTMENT_NOT_FOUND', { message: 'Appointment not found' });
+    }
+    if (appointment.customerId === userId) {
+      return appointment;
+    }
+
+    if (appointment.staffId) {
+      const staff = await this.staffRepository.findById(appointment.staffId);
+      if (staff?.userId === userId) {
+        return appointment;
+      }
+    } else {
+      const business = await this.businessRepository.findById(appointment.businessId);
+      if (business?.ownerId === userId) {
+        return appointment;
+      }
+    }
+
+    throw new AppError('INTAKE_ACCESS_DENIED', {
+      message: 'Intake answers are only visible to the customer and the assigned staff member',
+    });
+  }
+
+  private async getService(serviceId: string) {
+    const service = await this.serviceRepository.findById(serviceId);
+    if (!service) {
+      throw new AppError('SERVICE_NOT_FOUND', { message: 'Service not found' });
+    }
+    return service;
+  }
+
+  private async requireServicePermission(
+    userId: string,
+    businessId: string,
+    level: 'view' | 'manage'
+  ): Promise<void> {
+    const [globalPermission, ownPermission] = level === 'manage'
+      ? [PermissionName.MANAGE_ALL_SERVICES, PermissionName.MANAGE_OWN_SERVICES]
+      : [PermissionName.VIEW_ALL_SERVICES, PermissionName.VIEW_OWN_SERVICES];
+
+    const [resource, action] = globalPermission.split(':');
+    const hasGlobal = await this.rbacService.hasPermission(userId, resource, action);
+
+    if (!hasGlobal) {
+      await this.rbacService.requirePermission(userId, ownPermission, { businessId });
+    }
+  }
+}
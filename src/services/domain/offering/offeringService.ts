@@ -3,6 +3,8 @@ import {
   PublicServiceData,
   CreateServiceRequest,
   UpdateServiceRequest,
+  ServiceStaffOverride,
+  UpdateServiceStaffOverrideRequest,
 } from '../../../types/business';
 import { ServiceRepository } from '../../../repositories/serviceRepository';
 import { BusinessRepository } from '../../../repositories/businessRepository';
@@ -11,6 +13,8 @@ import { UsageService } from '../usage/usageService';
 import { PermissionName } from '../../../types/auth';
 import type { CacheService } from '../../core/cacheService';
 import { AppError } from '../../../types/responseTypes';
+import { isValidDeposit } from '../../../schemas/business.schemas';
+import { isServicePriceVisible, PriceVisibilityContext } from './priceVisibility';
 import logger from '../../../utils/Logger/logger';
 
 export class OfferingService {
@@ -186,6 +190,22 @@ export class OfferingService {
       }
     }
 
+    // The create schema enforces this; updates may change either field on its own
+    const isGroupSession = updateData.isGroupSession ?? service.isGroupSession;
+    if (isGroupSession && (updateData.maxSeats ?? service.maxSeats) < 2) {
+      throw new AppError('VALIDATION_ERROR', { message: 'Group sessions need at least 2 seats', params: { field: 'maxSeats' } });
+    }
+
+    // Same for the deposit: a new price can make an existing fixed deposit too large
+    const depositType = updateData.depositType ?? service.depositType;
+    const depositValue = updateData.depositValue !== undefined ? updateData.depositValue : service.depositValue;
+    if (!isValidDeposit(depositType, depositValue, updateData.price ?? service.price)) {
+      throw new AppError('VALIDATION_ERROR', {
+        message: 'Deposit must be a positive amount up to the price, or a percentage between 1 and 100',
+        params: { field: 'depositValue' }
+      });
+    }
+
     const updated = await this.serviceRepository.update(serviceId, updateData);
 
     if (assignToAll === true) {
@@ -220,6 +240,64 @@ export class OfferingService {
     return this.serviceRepository.getServiceAssignmentStatus(serviceId, service.businessId);
   }
 
+  /** Staff assigned to the service, with their duration, buffer and price overrides */
+  async getServiceStaffOverrides(userId: string, serviceId: string): Promise<ServiceStaffOverride[]> {
+    const service = await this.serviceRepository.findById(serviceId);
+    if (!service) {
+      throw new AppError('SERVICE_NOT_FOUND', { message: 'Service not found' });
+    }
+
+    const [resource, action] = PermissionName.VIEW_ALL_SERVICES.split(':');
+    const hasGlobalView = await this.rbacService.hasPermission(userId, resource, action);
+    if (!hasGlobalView) {
+      await this.rbacService.requirePermission(userId, PermissionName.VIEW_OWN_SERVICES, {
+        businessId: service.businessId,
+      });
+    }
+
+    return this.serviceRepository.getStaffOverrides(serviceId);
+  }
+
+  /**
+   * Sets what one staff member's take on the service lasts and costs, assigning them to
+   * it when they are not yet. Values left out stay as they are; null goes back to the
+   * service's own.
+   */
+  async updateStaffOverride(
+    userId: string,
+    serviceId: string,
+    staffId: string,
+    data: UpdateServiceStaffOverrideRequest
+  ): Promise<ServiceStaffOverride> {
+    logger.info('Service staff override requested', { userId, serviceId, staffId });
+
+    const service = await this.serviceRepository.findById(serviceId);
+    if (!service) {
+      throw new AppError('SERVICE_NOT_FOUND', { message: 'Service not found' });
+    }
+
+    const [resource, action] = PermissionName.MANAGE_ALL_SERVICES.split(':');
+    const hasGlobalService = await this.rbacService.hasPermission(userId, resource, action);
+    if (!hasGlobalService) {
+      await this.rbacService.requirePermission(userId, PermissionName.MANAGE_OWN_SERVICES, {
+        businessId: service.businessId,
+      });
+    }
+
+    const staff = await this.serviceRepository.getBusinessStaffById(staffId, service.businessId);
+    if (!staff) {
+      throw new AppError('STAFF_NOT_FOUND', { message: 'Staff member not found in this business' });
+    }
+
+    const override = await this.serviceRepository.setStaffOverride(serviceId, staffId, data);
+
+    await this.cacheService.invalidateService(serviceId, service.businessId, userId);
+    await this.cacheService.invalidateBusiness(service.businessId, userId);
+
+    logger.info('Service staff override updated', { userId, serviceId, staffId });
+    return override;
+  }
+
   async deleteService(userId: string, serviceId: string): Promise<void> {
     logger.info('Service delete requested', { userId, serviceId });
 
@@ -422,6 +500,12 @@ export class OfferingService {
       bufferTime: originalService.bufferTime,
       maxAdvanceBooking: originalService.maxAdvanceBooking,
       minAdvanceBooking: originalService.minAdvanceBooking,
+      bookingRelease: originalService.bookingRelease,
+      pricing: originalService.pricing,
+      isGroupSession: originalService.isGroupSession,
+      maxSeats: originalService.maxSeats,
+      depositType: originalService.depositType,
+      depositValue: originalService.depositValue,
     };
 
     return await this.serviceRepository.create(originalService.businessId, duplicateData);
@@ -475,38 +559,13 @@ export class OfferingService {
   async processServicePriceVisibility(
     services: ServiceData[],
     businessSettings: any,
-    context: 'list' | 'booking' | 'owner' = 'list'
+    context: PriceVisibilityContext = 'list'
   ): Promise<ServiceData[]> {
     const businessPriceSettings = businessSettings?.priceVisibility || {};
 
     return services.map((service) => {
-      // If context is 'owner', always show prices (for business owner/staff)
-      if (context === 'owner') {
-        return service;
-      }
-
-      // Determine if price should be shown based on hierarchical rules:
-      // 1. Business-wide setting can override individual service settings
-      // 2. Individual service showPrice setting
-      // 3. Context-specific rules (booking vs list view)
-
-      let shouldShowPrice = true;
-
-      // Check business-wide setting first
-      if (businessPriceSettings.hideAllServicePrices === true) {
-        shouldShowPrice = false;
-
-        // However, if we're in booking context and business allows showing price on booking
-        if (context === 'booking' && businessPriceSettings.showPriceOnBooking === true) {
-          shouldShowPrice = true;
-        }
-      } else {
-        // Check individual service setting
-        shouldShowPrice = service.showPrice !== false;
-      }
-
       // Create a copy of the service with potentially hidden price info
-      if (!shouldShowPrice) {
+      if (!isServicePriceVisible(service, businessSettings, context)) {
         return {
           ...service,
           price: 0, // Set to 0 instead of undefined to match type
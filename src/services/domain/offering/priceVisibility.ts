@@ -0,0 +1,24 @@
+/**
+ * Whether customers see a service's price. Hierarchy:
+ *  1. The business-wide setting overrides the individual services
+ *  2. The service's own showPrice
+ *  3. Context: the business may still show prices while booking; owners always see them
+ */
+
+export type PriceVisibilityContext = 'list' | 'booking' | 'owner';
+
+export function isServicePriceVisible(
+  service: { showPrice?: boolean },
+  businessSettings: any,
+  context: PriceVisibilityContext = 'list'
+): boolean {
+  if (context === 'owner') {
+    return true;
+  }
+
+  const businessPriceSettings = businessSettings?.priceVisibility || {};
+  if (businessPriceSettings.hideAllServicePrices === true) {
+    return context === 'booking' && businessPriceSettings.showPriceOnBooking === true;
+  }
+  return service.showPrice !== false;
+}
@@ -0,0 +1,178 @@
+import { randomUUID } from 'crypto';
+import {
+  BusinessResourceData,
+  CreateResourceRequest,
+  ServiceResourceRequirement,
+  SetServiceResourcesRequest,
+  UpdateResourceRequest,
+} from '../../../types/resource';
+import { ResourceRepository } from '../../../repositories/resourceRepository';
+import { ServiceRepository } from '../../../repositories/serviceRepository';
+import { RBACService } from '../rbac/rbacService';
+import { PermissionName } from '../../../types/auth';
+import type { CacheService } from '../../core/cacheService';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+
+/**
+ * Rooms, chairs and equipment of a business and which of them each service needs.
+ * Managed with the same permissions as services; enforcement at booking time lives
+ * in AppointmentService.
+ */
+export class ResourceService {
+  constructor(
+    private resourceRepository: ResourceRepository,
+    private serviceRepository: ServiceRepository,
+    private rbacService: RBACService,
+    private cacheService: CacheService
+  ) {}
+
+  async getResources(userId: string, businessId: string, activeOnly = false): Promise<BusinessResourceData[]> {
+    await this.requireServicePermission(userId, businessId, 'view');
+    return this.resourceRepository.findByBusiness(businessId, activeOnly);
+  }
+
+  async createResource(
+    userId: string,
+    businessId: string,
+    data: CreateResourceRequest
+  ): Promise<BusinessResourceData> {
+    await this.requireServicePermission(userId, businessId, 'manage');
+
+    const nameExists = await this.resourceRepository.existsByNameAndBusiness(data.name, businessId);
+    if (nameExists) {
+      throw new AppError('RESOURCE_NAME_DUPLICATE', { message: 'Resource name already exists', params: { field: 'name' } });
+    }
+
+    const resource = await this.resourceRepository.create({
+      id: `res_${randomUUID()}`,
+      businessId,
+      name: data.name,
+      type: data.type,
+      capacity: data.capacity,
+      description: data.description,
+    });
+
+    logger.info('Resource created', { userId, businessId, resourceId: resource.id });
+    return resource;
+  }
+
+  async updateResource(
+    userId: string,
+    resourceId: string,
+    data: UpdateResourceRequest
+  ): Promise<BusinessResourceData> {
+    const resource = await this.getOwnedResource(userId, resourceId);
+
+    if (data.name && data.name !== resource.name) {
+      const nameExists = await this.resourceRepository.existsByNameAndBusiness(data.name, resource.businessId, resourceId);
+      if (nameExists) {
+        throw new AppError('RESOURCE_NAME_DUPLICATE', { message: 'Resource name already exists', params: { field: 'name' } });
+      }
+    }
+
+    // A service that needs more units than the resource has could never be booked
+    if (data.capacity !== undefined && data.capacity < resource.capacity) {
+      const maxRequired = await this.resourceRepository.findMaxRequiredQuantity(resourceId);
+      if (data.capacity < maxRequired) {
+        throw new AppError('RESOURCE_QUANTITY_EXCEEDS_CAPACITY', {
+          message: 'A service needs more units of this resource than the new capacity',
+          params: { capacity: data.capacity, required: maxRequired },
+        });
+      }
+    }
+
+    const updated = await this.resourceRepository.update(resourceId, data);
+    await this.cacheService.invalidateBusiness(resource.businessId, userId);
+
+    logger.info('Resource updated', { userId, resourceId, businessId: resource.businessId });
+    return updated;
+  }
+
+  /** Deleting a resource also drops it from every service that needed it. */
+  async deleteResource(userId: string, resourceId: string): Promise<void> {
+    const resource = await this.getOwnedResource(userId, resourceId);
+
+    await this.resourceRepository.delete(resourceId);
+    await this.cacheService.invalidateBusiness(resource.businessId, userId);
+
+    logger.info('Resource deleted', { userId, resourceId, businessId: resource.businessId });
+  }
+
+  async getServiceResources(userId: string, serviceId: string): Promise<ServiceResourceRequirement[]> {
+    const service = await this.serviceRepository.findById(serviceId);
+    if (!service) {
+      throw new AppError('SERVICE_NOT_FOUND', { message: 'Service not found' });
+    }
+    await this.requireServicePermission(userId, service.businessId, 'view');
+
+    return this.resourceRepository.findServiceRequirements(serviceId);
+  }
+
+  /** Replaces the service's requirements with the given list. */
+  async setServiceResources(
+    userId: string,
+    serviceId: string,
+    data: SetServiceResourcesRequest
+  ): Promise<ServiceResourceRequirement[]> {
+    const service = await this.serviceRepository.findById(serviceId);
+    if (!service) {
+      throw new AppError('SERVICE_NOT_FOUND', { message: 'Service not found' });
+    }
+    await this.requireServicePermission(userId, service.businessId, 'manage');
+
+    const requirements: Array<{ resourceId: string; quantity: number }> = [];
+    for (const item of data.resources) {
+      const resource = await this.resourceRepository.findById(item.resourceId);
+      if (!resource || resource.businessId !== service.businessId) {
+        throw new AppError('RESOURCE_NOT_FOUND', {
+          message: 'Resource not found',
+          params: { resourceId: item.resourceId },
+        });
+      }
+
+      const quantity = item.quantity ?? 1;
+      if (quantity > resource.capacity) {
+        throw new AppError('RESOURCE_QUANTITY_EXCEEDS_CAPACITY', {
+          message: 'Requested quantity exceeds the resource capacity',
+          params: { resourceId: resource.id, capacity: resource.capacity, required: quantity },
+        });
+      }
+      requirements.push({ resourceId: resource.id, quantity });
+    }
+
+    const result = await this.resourceRepository.replaceServiceRequirements(serviceId, requirements);
+
+    await this.cacheService.invalidateService(serviceId, service.businessId, userId);
+    await this.cacheService.invalidateBusiness(service.businessId, userId);
+
+    logger.info('Service resources updated', { userId, serviceId, resources: requirements.length });
+    return result;
+  }
+
+  private async getOwnedResource(userId: string, resourceId: string): Promise<BusinessResourceData> {
+    const resource = await this.resourceRepository.findById(resourceId);
+    if (!resource) {
+      throw new AppError('RESOURCE_NOT_FOUND', { message: 'Resource not found' });
+    }
+    await this.requireServicePermission(userId, resource.businessId, 'manage');
+    return resource;
+  }
+
+  private async requireServicePermission(
+    userId: string,
+    businessId: string,
+    level: 'view' | 'manage'
+  ): Promise<void> {
+    const [globalPermission, ownPermission] = level === 'manage'
+      ? [PermissionName.MANAGE_ALL_SERVICES, PermissionName.MANAGE_OWN_SERVICES]
+      : [PermissionName.VIEW_ALL_SERVICES, PermissionName.VIEW_OWN_SERVICES];
+
+    const [resource, action] = globalPermission.split(':');
+    const hasGlobal = await this.rbacService.hasPermission(userId, resource, action);
+
+    if (!hasGlobal) {
+      await this.rbacService.requirePermission(userId, ownPermission, { businessId });
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import {
+  CreateSessionPackageRequest,
+  CustomerPackageBalance,
+  CustomerPackageData,
+  SellPackageRequest,
+  SessionPackageData,
+  UpdateSessionPackageRequest,
+} from '../../../types/sessionPackage';
+import { AppointmentData } from '../../../types/business';
+import { DepositSettlementReason } from '../../../types/deposit';
+import { SessionPackageRepository } from '../../../repositories/sessionPackageRepository';
+import { ServiceRepository } from '../../../repositories/serviceRepository';
+import { PrismaUserRepository } from '../../../repositories/userRepository';
+import { RBACService } from '../rbac/rbacService';
+import { CancellationPolicyService } from '../business/cancellationPolicyService';
+import { PermissionName } from '../../../types/auth';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Prepaid session packages ("10 laser sessions"). The business defines packages
+ * and sells them to customers in person; a sold package keeps its own credits and
+ * expiry. Booking a covered service holds a credit (see AppointmentService
+ * createAppointment), which is spent once the appointment is completed. When the
+ * appointment ends otherwise, the cancellation policy decides whether the credit
+ * comes back.
+ */
+export class SessionPackageService {
+  constructor(
+    private sessionPackageRepository: SessionPackageRepository,
+    private serviceRepository: ServiceRepository,
+    private userRepository: PrismaUserRepository,
+    private rbacService: RBACService,
+    private cancellationPolicyService: CancellationPolicyService
+  ) {}
+
+  async getPackages(userId: string, businessId: string, includeInactive = false): Promise<SessionPackageData[]> {
+    await this.requireServicePermission(userId, businessId, 'view');
+    return this.sessionPackageRepository.findPackagesByBusiness(businessId, includeInactive);
+  }
+
+  async createPackage(
+    userId: string,
+    businessId: string,
+    data: CreateSessionPackageRequest
+  ): Promise<SessionPackageData> {
+    await this.requireServicePermission(userId, businessId, 'manage');
+    await this.assertBusinessServices(businessId, data.serviceIds);
+
+    const created = await this.sessionPackageRepository.createPackage({
+      businessId,
+      name: data.name,
+      description: data.description,
+      serviceIds: [...new Set(data.serviceIds)],
+      credits: data.credits,
+      validityDays: data.validityDays,
+      price: data.price,
+      currency: data.currency || 'TRY',
+    });
+
+    logger.info('Session package created', { userId, businessId, packageId: created.id });
+    return created;
+  }
+
+  /** Changes apply to packages sold from now on; sold ones keep their terms */
+  async updatePackage(
+    userId: string,
+    packageId: string,
+    data: UpdateSessionPackageRequest
+  ): Promise<SessionPackageData> {
+    const existing = await this.getPackage(packageId);
+    await this.requireServicePermission(userId, existing.businessId, 'manage');
+    if (data.serviceIds) {
+      await this.assertBusinessServices(existing.businessId, data.serviceIds);
+    }
+
+    return this.sessionPackageRepository.updatePackage(packageId, {
+      ...data,
+      serviceIds: data.serviceIds ? [...new Set(data.serviceIds)] : undefined,
+    });
+  }
+
+  /** Records a package bought by a customer at the business, e.g. paid at the desk */
+  async sellPackage(userId: string, packageId: string, data: SellPackageRequest): Promise<CustomerPackageData> {
+    const definition = await this.getPackage(packageId);
+    await this.requireServicePermission(userId, definition.businessId, 'manage');
+
+    if (!definition.isActive) {
+      throw new AppError('SESSION_PACKAGE_INACTIVE', { message: 'This package is no longer sold' });
+    }
+    const customer = await this.userRepository.findById(data.customerId);
+    if (!customer) {
+      throw new AppError('CUSTOMER_NOT_FOUND', { message: 'Customer not found' });
+    }
+
+    const now = new Date();
+    const sold = await this.sessionPackageRepository.createCustomerPackage({
+      businessId: definition.businessId,
+      customerId: data.customerId,
+      packageId,
+      name: definition.name,
+      serviceIds: definition.serviceIds,
+      credits: definition.credits,
+      pricePaid: data.pricePaid ?? definition.price,
+      currency: definition.currency,
+      expiresAt: definition.validityDays ? new Date(now.getTime() + definition.validityDays * DAY_MS) : undefined,
+      soldBy: userId,
+    });
+
+    logger.info('Session package sold', { userId, packageId, customerPackageId: sold.id, customerId: data.customerId });
+    return sold;
+  }
+
+  /** The customer's packages at the business; customers may see their own */
+  async getCustomerPackages(
+    userId: string,
+    businessId: string,
+    customerId: string
+  ): Promise<CustomerPackageBalance[]> {
+    if (userId !== customerId) {
+      await this.requireServicePermission(userId, businessId, 'view');
+    }
+    return this.sessionPackageRepository.findBalances(customerId, businessId);
+  }
+
+  /**
+   * Spends the package credit of a completed appointment, like the jobs completing
+   * ended appointments do. One booked without a credit (a bundle leg, class seat,
+   * series occurrence, import or a booking from before the package was bought)
+   * takes one now if a package covers it. Registered with
+   * AppointmentService.onAppointmentCompleted().
+   */
+  async useCredit(appointment: AppointmentData): Promise<void> {
+    const spent = await this.sessionPackageRepository.spendCompletedCredit({
+      id: appointment.id,
+      customerId: appointment.customerId,
+      businessId: appointment.businessId,
+      serviceId: appointment.serviceId,
+      startTime: new Date(appointment.startTime)
+    });
+    if (spent) {
+      logger.info('Package credit used', { appointmentId: appointment.id });
+    }
+  }
+
+  /**
+   * Settles the credit held by an appointment that ended without being completed.
+   * It comes back when the business cancelled or rejected the booking, or when the
+   * customer cancelled within the cancellation policy; a late cancellation or a
+   * no-show spends it. Registered with AppointmentService.onAppointmentEnded().
+   */
+  async settleCredit(appointment: AppointmentData, reason: DepositSettlementReason): Promise<void> {
+    const usage = await this.sessionPackageRepository.findUsageByAppointment(appointment.id);
+    if (!usage || usage.status !== 'RESERVED') {
+      return;
+    }
+
+    const restore = await this.isCreditRestored(appointment, reason);
+    const settled = await this.sessionPackageRepository.settleReservedCredit(
+      appointment.id,
+      restore ? 'RESTORED' : 'FORFEITED'
+    );
+    if (settled) {
+      logger.info(restore ? 'Package credit restored' : 'Package credit forfeited', {
+        appointmentId: appointment.id,
+        customerPackageId: usage.customerPackageId,
+        reason,
+      });
+    }
+  }
+
+  private async isCreditRestored(appointment: AppointmentData, reason: DepositSettlementReason): Promise<boolean> {
+    switch (reason) {
+      case 'BUSINESS_CANCEL':
+      case 'REJECTED':
+        return true;
+      case 'NO_SHOW':
+        return false;
+      case 'CUSTOMER_CANCEL': {
+        const check = await this.cancellationPolicyService.checkPolicyViolations({
+          customerId: appointment.customerId,
+          businessId: appointment.businessId,
+          appointmentDate: new Date(appointment.startTime),
+          action: 'CANCEL',
+          currentTime: new Date(),
+        });
+        return check.allowed;
+      }
+    }
+  }
+
+  private async getPackage(packageId: string): Promise<SessionPackageData> {
+    const definition = await this.sessionPackageRepository.findPackageById(packageId);
+    if (!definition) {
+      throw new AppError('SESSION_PACKAGE_NOT_FOUND', { message: 'Package not found' });
+    }
+    return definition;
+  }
+
+  private async assertBusinessServices(businessId: string, serviceIds: string[]): Promise<void> {
+    const services = await this.serviceRepository.findByBusinessId(businessId);
+    const known = new Set(services.map((service) => service.id));
+    const unknown = serviceIds.filter((id) => !known.has(id));
+    if (unknown.length > 0) {
+      throw new AppError('SESSION_PACKAGE_INVALID_SERVICES', {
+        message: 'The services of a package must belong to the business',
+        params: { serviceIds: unknown },
+      });
+    }
+  }
+
+  private async requireServicePermission(
+    userId: string,
+    businessId: string,
+    level: 'view' | 'manage'
+  ): Promise<void> {
+    const [globalPermission, ownPermission] = level === 'manage'
+      ? [PermissionName.MANAGE_ALL_SERVICES, PermissionName.MANAGE_OWN_SERVICES]
+      : [PermissionName.VIEW_ALL_SERVICES, PermissionName.VIEW_OWN_SERVICES];
+
+    const [resource, action] = globalPermission.split(':');
+    const hasGlobal = await this.rbacService.hasPermission(userId, resource, action);
+
+    if (!hasGlobal) {
+      await this.rbacService.requirePermission(userId, ownPermission, { businessId });
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * A service as performed by one staff member: the duration, buffer and price set on
+ * their ServiceStaff assignment replace the service's own, the rest stays as is.
+ */
+
+import { ServiceStaffOverride } from '../../../types/business';
+
+export interface StaffOverridableService {
+  duration: number;
+  bufferTime: number;
+  price: number;
+}
+
+export function applyStaffOverride<T extends StaffOverridableService>(
+  service: T,
+  override?: ServiceStaffOverride | null
+): T {
+  if (!override) {
+    return service;
+  }
+  return {
+    ...service,
+    duration: override.duration ?? service.duration,
+    bufferTime: override.bufferTime ?? service.bufferTime,
+    price: override.price ?? service.price
+  };
+}
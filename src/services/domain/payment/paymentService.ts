@@ -755,6 +755,135 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Charges a booking deposit. Unlike subscription charges nothing is stored in
+   * `payments`; the caller records the outcome on the appointment's deposit row.
+   */
+  async chargeAppointmentDeposit(params: {
+    conversationId: string;
+    amount: number;
+    currency: string;
+    card: PaymentCardData;
+    customer: { id: string; firstName?: string | null; lastName?: string | null; phoneNumber: string; email?: string };
+    business: { name: string; address?: string | null; city?: string | null; country?: string | null; postalCode?: string | null };
+    service: { id: string; name: string };
+  }): Promise<{
+    success: boolean;
+    iyzicoPaymentId?: string;
+    error?: string;
+  }> {
+    try {
+      const price = params.amount.toFixed(2);
+      const address = this.createAddressFromBusiness(params.business);
+      const request: IyzipayPaymentCreateRequest = {
+        locale: Iyzipay.LOCALE.TR,
+        conversationId: params.conversationId,
+        price,
+        paidPrice: price,
+        currency: params.currency === 'TRY' ? Iyzipay.CURRENCY.TRY : Iyzipay.CURRENCY.USD,
+        installment: '1',
+        basketId: this.generateBasketId(),
+        paymentChannel: 'WEB',
+        paymentGroup: 'PRODUCT',
+        paymentCard: {
+          ...params.card,
+          registerCard: '0'
+        },
+        buyer: {
+          id: `BY${params.customer.id}`,
+          name: params.customer.firstName || 'Müşteri',
+          surname: params.customer.lastName || 'Müşteri',
+          gsmNumber: params.customer.phoneNumber,
+          email: params.customer.email || params.customer.phoneNumber + '@randevubu.com',
+          identityNumber: '11111111111',
+          registrationDate: new Date().toISOString().split('T')[0] + ' 12:00:00',
+          registrationAddress: address.address,
+          ip: '127.0.0.1',
+          city: address.city,
+          country: address.country,
+          zipCode: address.zipCode
+        },
+        shippingAddress: address,
+        billingAddress: address,
+        basketItems: [{
+          id: params.service.id,
+          name: `${params.service.name} Kapora`,
+          category1: 'Appointment',
+          category2: 'Deposit',
+          itemType: 'VIRTUAL',
+          price
+        }]
+      };
+
+      const result: IyzicoPaymentResult = await new Promise((resolve, reject) => {
+        this.iyzipay.payment.create(request as any, (err: unknown, result: unknown) => {
+          if (err) reject(err);
+          else resolve(result as IyzicoPaymentResult);
+        });
+      });
+
+      if (result && result.status === 'success') {
+        return { success: true, iyzicoPaymentId: (result as IyzipaySuccessResponse).paymentId };
+      }
+
+      return {
+        success: false,
+        error: (result as IyzipayError).errorMessage || 'Payment failed'
+      };
+    } catch (error) {
+      logger.error('Deposit payment error', { error: error instanceof Error ? error.message : String(error) });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Payment processing failed'
+      };
+    }
+  }
+
+  /** Refunds all or part of a booking deposit charged by chargeAppointmentDeposit() */
+  async refundAppointmentDeposit(
+    iyzicoPaymentId: string,
+    amount: number,
+    currency: string,
+    reason?: string
+  ): Promise<{
+    success: boolean;
+    refundId?: string;
+    error?: string;
+  }> {
+    try {
+      const request = {
+        locale: Iyzipay.LOCALE.TR,
+        conversationId: `deposit_refund_${Date.now()}`,
+        paymentTransactionId: iyzicoPaymentId,
+        price: amount.toFixed(2),
+        currency: currency === 'TRY' ? Iyzipay.CURRENCY.TRY : Iyzipay.CURRENCY.USD,
+        ip: '127.0.0.1'
+      };
+
+      const result: IyzicoPaymentResult = await new Promise((resolve, reject) => {
+        this.iyzipay.refund.create(request, (err: unknown, result: unknown) => {
+          if (err) reject(err);
+          else resolve(result as IyzicoPaymentResult);
+        });
+      });
+
+      if (result && result.status === 'success') {
+        return { success: true, refundId: (result as IyzipaySuccessResponse).paymentId };
+      }
+
+      logger.warn('Deposit refund rejected by iyzico', { iyzicoPaymentId, reason, error: (result as IyzipayError).errorMessage });
+      return {
+        success: false,
+        error: (result as IyzipayError).errorMessage || 'Refund failed'
+      };
+    } catch (error) {
+      logger.error('Deposit refund error', { error: error instanceof Error ? error.message : String(error) });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Refund processing failed'
+      };
+    }
+  }
 
   generateConversationId(): string {
     return `conv_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
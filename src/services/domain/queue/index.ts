@@ -0,0 +1,5 @@
+// Walk-in Queue Domain Services
+export {
+  WalkInQueueService,
+  WALK_IN_DURATION_HISTORY_DAYS
+} from './walkInQueueService';
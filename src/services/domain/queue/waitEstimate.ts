@@ -0,0 +1,126 @@
+/**
+ * Wait estimates for the walk-in queue.
+ *
+ * The queue is played forward: each waiting ticket, in the order taken, goes to the
+ * staff member who becomes free first among those it can go to (the requested one,
+ * or anyone providing the service for "any staff"), and keeps them busy for as long
+ * as the service usually takes with them.
+ */
+
+/** Completed appointments a staff member needs before their own average is trusted */
+export const MIN_DURATION_SAMPLES = 3;
+
+export interface AverageDuration {
+  serviceId: string;
+  staffId: string | null;
+  averageMinutes: number;
+  count: number;
+}
+
+export interface QueueServer {
+  staffId: string;
+  /** When the staff member is done with the customer they have now */
+  availableAt: Date;
+}
+
+export interface QueuedTicket {
+  id: string;
+  serviceId: string;
+  /** Requested staff member; undefined means any staff */
+  staffId?: string;
+}
+
+export interface WaitEstimate {
+  /** 1-based place in the ticket's line: the requested staff member's or the "any staff" line */
+  position: number;
+  /** Undefined when no staff member can take the ticket */
+  waitMinutes?: number;
+  staffId?: string;
+}
+
+export type DurationLookup = (serviceId: string, staffId?: string) => number;
+
+/**
+ * How long a service takes: the staff member's own average once they have enough
+ * completed appointments, else the average over all staff, else the service's
+ * configured duration.
+ */
+export function historicalDurations(
+  averages: AverageDuration[],
+  configured: Map<string, number>
+): DurationLookup {
+  const byStaff = new Map<string, number>();
+  const totals = new Map<string, { minutes: number; count: number }>();
+
+  for (const average of averages) {
+    if (average.staffId && average.count >= MIN_DURATION_SAMPLES) {
+      byStaff.set(`${average.serviceId}:${average.staffId}`, average.averageMinutes);
+    }
+    const total = totals.get(average.serviceId) ?? { minutes: 0, count: 0 };
+    total.minutes += average.averageMinutes * average.count;
+    total.count += average.count;
+    totals.set(average.serviceId, total);
+  }
+
+  return (serviceId, staffId) => {
+    const own = staffId ? byStaff.get(`${serviceId}:${staffId}`) : undefined;
+    if (own !== undefined) {
+      return Math.round(own);
+    }
+    const total = totals.get(serviceId);
+    if (total && total.count >= MIN_DURATION_SAMPLES) {
+      return Math.round(total.minutes / total.count);
+    }
+    return configured.get(serviceId) ?? 0;
+  };
+}
+
+/**
+ * @param serviceStaff staff allowed to perform each service; a service nobody is
+ *   assigned to can be performed by every staff member
+ */
+export function estimateWaits(
+  tickets: QueuedTicket[],
+  servers: QueueServer[],
+  serviceStaff: Map<string, string[]>,
+  durationOf: DurationLookup,
+  now: Date
+): Map<string, WaitEstimate> {
+  const availableAt = new Map(
+    servers.map((server) => [server.staffId, Math.max(server.availableAt.getTime(), now.getTime())])
+  );
+  const positions = new Map<string, number>();
+  const estimates = new Map<string, WaitEstimate>();
+
+  for (const ticket of tickets) {
+    const line = ticket.staffId ?? 'ANY';
+    const position = (positions.get(line) ?? 0) + 1;
+    positions.set(line, position);
+
+    const assigned = serviceStaff.get(ticket.serviceId);
+    const candidates = ticket.staffId
+      ? servers.filter((server) => server.staffId === ticket.staffId)
+      : servers.filter((server) => !assigned?.length || assigned.includes(server.staffId));
+
+    let chosen: string | undefined;
+    for (const candidate of candidates) {
+      if (chosen === undefined || availableAt.get(candidate.staffId)! < availableAt.get(chosen)!) {
+        chosen = candidate.staffId;
+      }
+    }
+    if (chosen === undefined) {
+      estimates.set(ticket.id, { position });
+      continue;
+    }
+
+    const start = availableAt.get(chosen)!;
+    availableAt.set(chosen, start + durationOf(ticket.serviceId, chosen) * 60000);
+    estimates.set(ticket.id, {
+      position,
+      waitMinutes: Math.round((start - now.getTime()) / 60000),
+      staffId: chosen
+    });
+  }
+
+  return estimates;
+}
@@ -0,0 +1,521 @@
+import { randomUUID } from 'crypto';
+import { BusinessRepository } from '../../../repositories/businessRepository';
+import { ServiceRepository } from '../../../repositories/serviceRepository';
+import { StaffRepository } from '../../../repositories/staffRepository';
+import { PrismaUserRepository } from '../../../repositories/userRepository';
+import { WalkInQueueRepository } from '../../../repositories/walkInQueueRepository';
+import { AppointmentData } from '../../../types/business';
+import { BusinessSettings } from '../../../types/businessSettings';
+import {
+  CallNextWalkInRequest,
+  ConvertWalkInTicketRequest,
+  CreateWalkInTicketRequest,
+  PublicWalkInQueueStatus,
+  WalkInQueueEntry,
+  WalkInQueueView,
+  WalkInTicketData,
+  WalkInTicketStatus
+} from '../../../types/walkInQueue';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+import {
+  createCalendarDate,
+  formatDateInTimezone,
+  formatTimeInTimezone,
+  resolveTimezone
+} from '../../../utils/timezoneHelper';
+import { AppointmentService } from '../appointment/appointmentService';
+import { UnifiedNotificationGateway } from '../notification/unifiedNotificationGateway';
+import { RBACService } from '../rbac/rbacService';
+import { estimateWaits, historicalDurations, QueueServer } from './waitEstimate';
+
+/** How far back completed appointments count toward the service durations */
+export const WALK_IN_DURATION_HISTORY_DAYS = 90;
+
+const OPEN_TICKET_STATUSES: WalkInTicketStatus[] = ['WAITING', 'CALLED', 'SKIPPED'];
+
+type Business = NonNullable<Awaited<ReturnType<BusinessRepository['findById']>>>;
+
+/**
+ * Walk-in queue for customers who come in without an appointment.
+ *
+ * Staff add tickets for people at the counter and customers can take one
+ * themselves; a ticket asks for one staff member or for "any staff". Tickets are
+ * numbered per business day and served in the order taken: "call next" gives a
+ * staff member the first waiting ticket for them or for anyone providing the
+ * service. A called customer who is not there is skipped; skipped tickets stay
+ * listed until they are converted or cancelled. Converting books an appointment
+ * starting now, after which the appointment is tracked like any other.
+ *
+ * Wait estimates play the queue forward with how long each service usually takes,
+ * see waitEstimate.ts.
+ */
+export class WalkInQueueService {
+  constructor(
+    private readonly walkInQueueRepository: WalkInQueueRepository,
+    private readonly staffRepository: StaffRepository,
+    private readonly serviceRepository: ServiceRepository,
+    private readonly businessRepository: BusinessRepository,
+    private readonly userRepository: PrismaUserRepository,
+    private readonly rbacService: RBACService,
+    private readonly appointmentService: AppointmentService,
+    private readonly notificationGateway: UnifiedNotificationGateway
+  ) {}
+
+  /**
+   * Staff of the business add a ticket for someone else; anyone else takes a ticket
+   * for themselves.
+   */
+  async addTicket(userId: string, businessId: string, request: CreateWalkInTicketRequest): Promise<WalkInQueueEntry> {
+    const { business, isStaff } = await this.getAccess(userId, businessId, { allowCustomers: true });
+    await this.assertServiceAvailable(businessId, request.serviceId, request.staffId);
+
+    let customer: { id?: string; name: string; phone?: string };
+    if (isStaff) {
+      customer = await this.resolveCustomer(request);
+    } else {
+      const user = await this.userRepository.findById(userId);
+      if (!user) {
+        throw new AppError('CUSTOMER_NOT_FOUND', { message: 'Customer not found' });
+      }
+      customer = {
+        id: user.id,
+        name: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.phoneNumber,
+        phone: user.phoneNumber
+      };
+    }
+
+    if (customer.id) {
+      const open = await this.walkInQueueRepository.findOpenByCustomer(customer.id, businessId);
+      if (open) {
+        throw new AppError('WALK_IN_ALREADY_QUEUED', {
+          message: 'The customer is already in the queue',
+          params: { ticketId: open.id, number: open.number }
+        });
+      }
+    }
+
+    const ticket = await this.walkInQueueRepository.create({
+      id: `wit_${randomUUID()}`,
+      businessId,
+      serviceId: request.serviceId,
+      staffId: request.staffId,
+      customerId: customer.id,
+      customerName: customer.name,
+      customerPhone: customer.phone,
+      queueDate: createCalendarDate(formatDateInTimezone(new Date(), resolveTimezone(business.timezone))),
+      source: isStaff ? 'STAFF' : 'SELF_SERVICE',
+      notes: request.notes,
+      createdBy: userId
+    });
+
+    logger.info('Walk-in ticket created', { ticketId: ticket.id, businessId, number: ticket.number, source: ticket.source });
+
+    return this.withEstimate(business, ticket);
+  }
+
+  /** Today's queue of the business for its staff */
+  async getQueue(userId: string, businessId: string): Promise<WalkInQueueView> {
+    const { business } = await this.getAccess(userId, businessId);
+    const timezone = resolveTimezone(business.timezone);
+    const date = formatDateInTimezone(new Date(), timezone);
+    const entries = await this.buildQueue(business, date);
+
+    return {
+      date,
+      timezone,
+      called: entries.filter((entry) => entry.status === 'CALLED'),
+      waiting: entries.filter((entry) => entry.status === 'WAITING'),
+      skipped: entries.filter((entry) => entry.status === 'SKIPPED')
+    };
+  }
+
+  /** A ticket with its place in line, for its customer or the staff */
+  async getTicket(userId: string, ticketId: string): Promise<WalkInQueueEntry> {
+    const ticket = await this.getTicketOrThrow(ticketId);
+    if (ticket.customerId !== userId) {
+      await this.getAccess(userId, ticket.businessId);
+    }
+    const business = await this.getBusinessOrThrow(ticket.businessId);
+    return this.withEstimate(business, ticket);
+  }
+
+  /**
+   * Calls the first waiting ticket the staff member can take: their own line and
+   * "any staff" tickets for services they provide, in the order taken.
+   */
+  async callNext(userId: string, businessId: string, request: CallNextWalkInRequest = {}): Promise<WalkInTicketData> {
+    const { business, canManage, ownStaff } = await this.getAccess(userId, businessId);
+
+    let staffId: string;
+    if (request.staffId && request.staffId !== ownStaff?.id) {
+      if (!canManage) {
+        throw new AppError('BUSINESS_OWNER_REQUIRED', { message: 'Only managers can call customers for other staff members' });
+      }
+      const staff = await this.staffRepository.findById(request.staffId);
+      if (!staff || staff.businessId !== businessId || !staff.isActive) {
+        throw new AppError('STAFF_NOT_FOUND', { message: 'Staff member not found in this business' });
+      }
+      staffId = staff.id;
+    } else if (ownStaff) {
+      staffId = ownStaff.id;
+    } else {
+      throw new AppError('BUSINESS_STAFF_REQUIRED', { message: 'Choose the staff member who takes the next customer' });
+    }
+
+    const queueDate = createCalendarDate(formatDateInTimezone(new Date(), resolveTimezone(business.timezone)));
+    const waiting = await this.walkInQueueRepository.findForDay(businessId, queueDate, ['WAITING']);
+    const serviceStaff = await this.findServiceStaff(waiting);
+    const candidates = waiting.filter((ticket) =>
+      ticket.staffId
+        ? ticket.staffId === staffId
+        : !serviceStaff.get(ticket.serviceId)?.length || serviceStaff.get(ticket.serviceId)!.includes(staffId)
+    );
+
+    // Another staff member may call the same ticket at the same moment; take the next one then
+    for (const candidate of candidates) {
+      const called = await this.walkInQueueRepository.transition(candidate.id, ['WAITING'], {
+        status: 'CALLED',
+        servedByStaffId: staffId,
+        calledAt: new Date()
+      });
+      if (!called) {
+        continue;
+      }
+
+      const ticket = await this.getTicketOrThrow(candidate.id);
+      logger.info('Walk-in ticket called', { ticketId: ticket.id, businessId, staffId, number: ticket.number });
+      await this.notifyCalled(ticket);
+      return ticket;
+    }
+
+    throw new AppError('WALK_IN_QUEUE_EMPTY', { message: 'Nobody the staff member can serve is waiting', params: { staffId } });
+  }
+
+  /** A called customer who is not there steps aside; the ticket can still be converted later */
+  async skipTicket(userId: string, ticketId: string): Promise<WalkInTicketData> {
+    const ticket = await this.getTicketOrThrow(ticketId);
+    await this.getAccess(userId, ticket.businessId);
+
+    const skipped = await this.walkInQueueRepository.transition(ticketId, ['WAITING', 'CALLED'], {
+      status: 'SKIPPED',
+      skippedAt: new Date()
+    });
+    if (!skipped) {
+      throw this.invalidStatus(await this.getTicketOrThrow(ticketId));
+    }
+
+    logger.info('Walk-in ticket skipped', { ticketId, skippedBy: userId });
+    return this.getTicketOrThrow(ticketId);
+  }
+
+  /** The customer leaves the queue, or the staff take them off it */
+  async cancelTicket(userId: string, ticketId: string): Promise<WalkInTicketData> {
+    const ticket = await this.getTicketOrThrow(ticketId);
+    if (ticket.customerId !== userId) {
+      await this.getAccess(userId, ticket.businessId);
+    }
+
+    const cancelled = await this.walkInQueueRepository.transition(ticketId, OPEN_TICKET_STATUSES, {
+      status: 'CANCELLED',
+      closedAt: new Date()
+    });
+    if (!cancelled) {
+      throw this.invalidStatus(await this.getTicketOrThrow(ticketId));
+    }
+
+    logger.info('Walk-in ticket cancelled', { ticketId, cancelledBy: userId });
+    return this.getTicketOrThrow(ticketId);
+  }
+
+  /**
+   * Books an appointment starting now for the ticket's customer with the staff
+   * member who called it (or the one given). Tickets without a customer account are
+   * matched by phone number, or take the customerId of the request.
+   */
+  async convertToAppointment(
+    userId: string,
+    ticketId: string,
+    request: ConvertWalkInTicketRequest = {}
+  ): Promise<{ ticket: WalkInTicketData; appointment: AppointmentData }> {
+    const ticket = await this.getTicketOrThrow(ticketId);
+    const { business, ownStaff } = await this.getAccess(userId, ticket.businessId);
+    if (!OPEN_TICKET_STATUSES.includes(ticket.status)) {
+      throw this.invalidStatus(ticket);
+    }
+
+    const customerId = ticket.customerId ?? request.customerId ?? await this.findCustomerByPhone(ticket.customerPhone);
+    if (!customerId) {
+      throw new AppError('WALK_IN_CUSTOMER_REQUIRED', {
+        message: 'Choose the customer account the appointment is booked for',
+        params: { ticketId }
+      });
+    }
+    const staffId = request.staffId ?? ticket.servedByStaffId ?? ticket.staffId ?? ownStaff?.id;
+
+    // Take the ticket first so it cannot be converted twice, and give it back if booking fails
+    const taken = await this.walkInQueueRepository.transition(ticketId, [ticket.status], {
+      status: 'CONVERTED',
+      closedAt: new Date()
+    });
+    if (!taken) {
+      throw this.invalidStatus(await this.getTicketOrThrow(ticketId));
+    }
+
+    const now = new Date();
+    const timezone = resolveTimezone(business.timezone);
+    let appointment: AppointmentData;
+    try {
+      appointment = await this.appointmentService.createAppointment(userId, {
+        businessId: ticket.businessId,
+        serviceId: ticket.serviceId,
+        staffId,
+        customerId,
+        date: formatDateInTimezone(now, timezone),
+        startTime: formatTimeInTimezone(now, timezone),
+        customerNotes: ticket.notes
+      });
+    } catch (error) {
+      await this.walkInQueueRepository.transition(ticketId, ['CONVERTED'], { status: ticket.status, closedAt: null });
+      throw error;
+    }
+
+    await this.walkInQueueRepository.transition(ticketId, ['CONVERTED'], {
+      customerId,
+      servedByStaffId: appointment.staffId ?? null,
+      appointmentId: appointment.id
+    });
+
+    logger.info('Walk-in ticket converted', { ticketId, appointmentId: appointment.id, convertedBy: userId });
+    return { ticket: await this.getTicketOrThrow(ticketId), appointment };
+  }
+
+  /**
+   * What the display screen in the shop shows: ticket numbers only, with staff
+   * names unless the business hides them.
+   */
+  async getPublicQueueStatus(businessId: string): Promise<PublicWalkInQueueStatus> {
+    const business = await this.getBusinessOrThrow(businessId);
+    const date = formatDateInTimezone(new Date(), resolveTimezone(business.timezone));
+    const entries = await this.buildQueue(business, date);
+
+    const hideStaffNames = Boolean((business.settings as BusinessSettings | null)?.staffPrivacy?.hideStaffNames);
+    const staffNames = new Map<string, string>();
+    if (!hideStaffNames) {
+      for (const member of await this.staffRepository.findByBusinessId(businessId)) {
+        if (member.user.firstName) {
+          staffNames.set(member.id, member.user.firstName);
+        }
+      }
+    }
+    const staffName = (staffId?: string) => (staffId ? staffNames.get(staffId) : undefined);
+
+    return {
+      businessName: business.name,
+      date,
+      called: entries
+        .filter((entry) => entry.status === 'CALLED')
+        .sort((a, b) => b.calledAt!.getTime() - a.calledAt!.getTime())
+        .map((entry) => ({
+          number: entry.number,
+          staffName: staffName(entry.servedByStaffId),
+          calledAt: entry.calledAt!.toISOString()
+        })),
+      waiting: entries
+        .filter((entry) => entry.status === 'WAITING')
+        .map((entry) => ({
+          number: entry.number,
+          serviceName: entry.service?.name || '',
+          staffName: staffName(entry.staffId),
+          position: entry.position!,
+          estimatedWaitMinutes: entry.estimatedWaitMinutes
+        })),
+      lastUpdated: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Every open ticket of the day, waiting ones with their place in line and the
+   * minutes until someone is expected to be free for them.
+   */
+  private async buildQueue(business: Business, date: string): Promise<WalkInQueueEntry[]> {
+    const now = new Date();
+    const tickets = await this.walkInQueueRepository.findForDay(business.id, createCalendarDate(date), OPEN_TICKET_STATUSES);
+    const waiting = tickets.filter((ticket) => ticket.status === 'WAITING');
+    if (waiting.length === 0) {
+      return tickets;
+    }
+
+    const [staff, serviceStaff, averages] = await Promise.all([
+      this.staffRepository.findByBusinessId(business.id),
+      this.findServiceStaff(tickets),
+      this.walkInQueueRepository.findAverageDurations(
+        business.id,
+        new Date(now.getTime() - WALK_IN_DURATION_HISTORY_DAYS * 24 * 60 * 60 * 1000)
+      )
+    ]);
+    const durationOf = historicalDurations(
+      averages,
+      new Map(tickets.map((ticket) => [ticket.serviceId, ticket.service?.duration ?? 0]))
+    );
+
+    // Staff are taken until their running appointment ends or the called customer is done
+    const busyUntil = await this.walkInQueueRepository.findBusyUntil(staff.map((member) => member.id), now);
+    for (const ticket of tickets) {
+      if (ticket.status === 'CALLED' && ticket.servedByStaffId && ticket.calledAt) {
+        const done = new Date(ticket.calledAt.getTime() + durationOf(ticket.serviceId, ticket.servedByStaffId) * 60000);
+        const current = busyUntil.get(ticket.servedByStaffId);
+        if (!current || done > current) {
+          busyUntil.set(ticket.servedByStaffId, done);
+        }
+      }
+    }
+    const servers: QueueServer[] = staff.map((member) => ({
+      staffId: member.id,
+      availableAt: busyUntil.get(member.id) ?? now
+    }));
+
+    const estimates = estimateWaits(waiting, servers, serviceStaff, durationOf, now);
+    return tickets.map((ticket) => {
+      const estimate = estimates.get(ticket.id);
+      return estimate
+        ? {
+            ...ticket,
+            position: estimate.position,
+            estimatedWaitMinutes: estimate.waitMinutes,
+            estimatedStaffId: estimate.staffId
+          }
+        : ticket;
+    });
+  }
+
+  private async withEstimate(business: Business, ticket: WalkInTicketData): Promise<WalkInQueueEntry> {
+    if (ticket.status !== 'WAITING') {
+      return ticket;
+    }
+    // queueDate is the calendar day at UTC midnight
+    const entries = await this.buildQueue(business, formatDateInTimezone(ticket.queueDate, 'UTC'));
+    return entries.find((entry) => entry.id === ticket.id) ?? ticket;
+  }
+
+  private async findServiceStaff(tickets: WalkInTicketData[]): Promise<Map<string, string[]>> {
+    const assignments = await this.walkInQueueRepository.findServiceStaff([
+      ...new Set(tickets.map((ticket) => ticket.serviceId))
+    ]);
+    const byService = new Map<string, string[]>();
+    for (const assignment of assignments) {
+      byService.set(assignment.serviceId, [...(byService.get(assignment.serviceId) ?? []), assignment.staffId]);
+    }
+    return byService;
+  }
+
+  private async assertServiceAvailable(businessId: string, serviceId: string, staffId?: string): Promise<void> {
+    const service = await this.serviceRepository.findById(serviceId);
+    if (!service || !service.isActive || service.businessId !== businessId) {
+      throw new AppError('APPOINTMENT_SERVICE_UNAVAILABLE', { message: 'Service not found or inactive' });
+    }
+    if (service.isGroupSession) {
+      throw new AppError('APPOINTMENT_CLASS_BOOKING_REQUIRED', {
+        message: 'This service is booked per seat in a scheduled class',
+        params: { serviceId }
+      });
+    }
+
+    if (staffId) {
+      const staff = await this.staffRepository.findById(staffId);
+      if (!staff || staff.businessId !== businessId || !staff.isActive) {
+        throw new AppError('STAFF_NOT_FOUND', { message: 'Staff member not found in this business' });
+      }
+      const assigned = await this.serviceRepository.getServiceStaffIds(serviceId);
+      if (assigned.length > 0 && !assigned.includes(staffId)) {
+        throw new AppError('STAFF_NOT_QUALIFIED', { message: 'Staff member does not provide this service', params: { serviceId, staffId } });
+      }
+    }
+  }
+
+  /** The customer of a ticket added by staff: an account, or a name (and phone) to call out */
+  private async resolveCustomer(request: CreateWalkInTicketRequest): Promise<{ id?: string; name: string; phone?: string }> {
+    if (request.customerId) {
+      const user = await this.userRepository.findById(request.customerId);
+      if (!user) {
+        throw new AppError('CUSTOMER_NOT_FOUND', { message: 'Customer not found' });
+      }
+      return {
+        id: user.id,
+        name: request.customerName || `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.phoneNumber,
+        phone: user.phoneNumber
+      };
+    }
+    if (!request.customerName) {
+      throw new AppError('WALK_IN_CUSTOMER_REQUIRED', { message: 'A customer name or account is required' });
+    }
+    return { name: request.customerName, phone: request.customerPhone };
+  }
+
+  private async findCustomerByPhone(phone?: string): Promise<string | undefined> {
+    if (!phone) {
+      return undefined;
+    }
+    return (await this.userRepository.findByPhoneNumber(phone))?.id;
+  }
+
+  /**
+   * Owners and active staff work the queue; managers (staff:manage) also for other
+   * staff members. With `allowCustomers` everyone else gets through as a customer.
+   */
+  private async getAccess(userId: string, businessId: string, options: { allowCustomers?: boolean } = {}) {
+    const business = await this.getBusinessOrThrow(businessId);
+
+    const ownStaff = await this.staffRepository.findByBusinessIdAndUserId(businessId, userId);
+    const canManage = business.ownerId === userId
+      || await this.rbacService.hasPermission(userId, 'staff', 'manage', { businessId });
+    const isStaff = canManage || Boolean(ownStaff?.isActive);
+
+    if (!isStaff && !options.allowCustomers) {
+      throw new AppError('NO_BUSINESS_ACCESS', { message: 'You do not have access to this business' });
+    }
+
+    return { business, isStaff, canManage, ownStaff: ownStaff?.isActive ? ownStaff : null };
+  }
+
+  private async getBusinessOrThrow(businessId: string): Promise<Business> {
+    const business = await this.businessRepository.findById(businessId);
+    if (!business) {
+      throw new AppError('BUSINESS_NOT_FOUND', { message: 'Business not found' });
+    }
+    return business;
+  }
+
+  private async getTicketOrThrow(ticketId: string): Promise<WalkInTicketData> {
+    const ticket = await this.walkInQueueRepository.findById(ticketId);
+    if (!ticket) {
+      throw new AppError('WALK_IN_TICKET_NOT_FOUND', { message: 'Queue ticket not found' });
+    }
+    return ticket;
+  }
+
+  private invalidStatus(ticket: WalkInTicketData): AppError {
+    return new AppError('WALK_IN_TICKET_INVALID_STATUS', {
+      message: `Queue ticket is ${ticket.status.toLowerCase()}`,
+      params: { status: ticket.status }
+    });
+  }
+
+  private async notifyCalled(ticket: WalkInTicketData): Promise<void> {
+    if (!ticket.customerId) {
+      return;
+    }
+    try {
+      await this.notificationGateway.sendSystemAlert({
+        businessId: ticket.businessId,
+        userId: ticket.customerId,
+        title: 'Sıra Sizde',
+        body: `${ticket.number} numaralı sıranız çağrıldı, lütfen kasaya gelin.`,
+        data: { type: 'walk_in_called', ticketId: ticket.id, number: ticket.number },
+        url: `/walk-in-queue/tickets/${ticket.id}`
+      });
+    } catch (error) {
+      logger.error('Failed to send walk-in call notification', { ticketId: ticket.id, error });
+    }
+  }
+}
@@ -4,6 +4,8 @@ import { AppError } from "../../../types/responseTypes";
 import { ReliabilityScoreCalculator } from "../userBehavior/reliabilityScoreCalculator";
 
 import { BusinessOverviewReport } from '../../../types/reports';
+import { WaitlistConversionReport } from '../../../types/waitlist';
+import { DepositReport } from '../../../types/deposit';
 
 export interface RevenueReport {
   totalRevenue: number;
@@ -23,6 +25,8 @@ export interface RevenueReport {
     revenue: number;
     appointments: number;
     averageValue: number;
+    /** Revenue above (or, negative, below) the list prices due to dynamic pricing */
+    pricingAdjustment: number;
   }>;
   revenueByMonth: Array<{
     month: string;
@@ -36,6 +40,17 @@ export interface RevenueReport {
     amount: number;
     isSystem: boolean;
   }>;
+  /** Appointment revenue above is net of voucherDiscounts; gift cards were paid for */
+  giftCards: {
+    /** Paid for gift cards bought in the period */
+    sold: number;
+    /** Gift card balance spent on the completed appointments */
+    redeemed: number;
+    /** Promotional voucher balance spent on the completed appointments */
+    voucherDiscounts: number;
+    /** Balance left on usable cards and vouchers today */
+    outstandingBalance: number;
+  };
 }
 
 export interface AppointmentReport {
@@ -63,6 +78,7 @@ export interface AppointmentReport {
     staffName: string;
     total: number;
     completed: number;
+    revenue: number;
     rating: number;
   }>;
 }
@@ -511,7 +527,18 @@ export class ReportsService {
         _count: true,
       });
 
-    const appointmentRevenue = Number(revenueData._sum.price || 0);
+    // Vouchers spent on those appointments are a discount, not income
+    const redemptions = await this.repositories.giftCardRepository.findCompletedAppointmentRedemptions(
+      targetBusiness.id,
+      startDate,
+      endDate
+    );
+    const voucherRedemptions = redemptions.filter((r) => r.type === 'VOUCHER');
+    const sumRedemptions = (list: typeof redemptions) =>
+      Math.round(list.reduce((sum, r) => sum + r.amount, 0) * 100) / 100;
+    const voucherDiscounts = sumRedemptions(voucherRedemptions);
+
+    const appointmentRevenue = Math.round((Number(revenueData._sum.price || 0) - voucherDiscounts) * 100) / 100;
     const manualIncome = dailyNotebookData.incomeByColumn
       .filter(c => !c.isSystem)
       .reduce((sum, c) => sum + c.amount, 0);
@@ -536,13 +563,19 @@ export class ReportsService {
         },
       });
 
-    const revenueByDay = dailyRevenue.map((day) => ({
-      date: day.date.toISOString().split("T")[0],
-      revenue: Number(day._sum.price || 0),
-      appointmentRevenue: Number(day._sum.price || 0),
-      manualIncome: 0, // Manual income is tracked monthly, not daily in this report
-      appointments: day._count,
-    }));
+    const toDay = (date: Date) => date.toISOString().split("T")[0];
+    const revenueByDay = dailyRevenue.map((day) => {
+      const date = toDay(day.date);
+      const dayRevenue = Math.round((Number(day._sum.price || 0)
+        - sumRedemptions(voucherRedemptions.filter((r) => toDay(r.date) === date))) * 100) / 100;
+      return {
+        date,
+        revenue: dayRevenue,
+        appointmentRevenue: dayRevenue,
+        manualIncome: 0, // Manual income is tracked monthly, not daily in this report
+        appointments: day._count,
+      };
+    });
 
     // Revenue by service
     const serviceRevenue =
@@ -559,6 +592,23 @@ export class ReportsService {
         _count: true,
       });
 
+    // Appointment prices are locked at booking, after the services' pricing rules;
+    // the list price next to them shows what the rules added or took off
+    const pricedRevenue =
+      await this.repositories.prismaClient.appointment.groupBy({
+        by: ["serviceId"],
+        where: {
+          businessId: targetBusiness.id,
+          status: AppointmentStatus.COMPLETED,
+          listPrice: { not: null },
+          ...dateFilter,
+        },
+        _sum: {
+          price: true,
+          listPrice: true,
+        },
+      });
+
     // Get service details
     const serviceIds = serviceRevenue.map((sr) => sr.serviceId);
     const services = await this.repositories.prismaClient.service.findMany({
@@ -574,13 +624,18 @@ export class ReportsService {
     const revenueByService = serviceRevenue
       .map((sr) => {
         const service = services.find((s) => s.id === sr.serviceId);
-        const revenue = Number(sr._sum.price || 0);
+        const revenue = Math.round((Number(sr._sum.price || 0)
+          - sumRedemptions(voucherRedemptions.filter((r) => r.serviceId === sr.serviceId))) * 100) / 100;
+        const priced = pricedRevenue.find((pr) => pr.serviceId === sr.serviceId);
         return {
           serviceId: sr.serviceId,
           serviceName: service?.name || "Unknown Service",
           revenue,
           appointments: sr._count,
           averageValue: sr._count > 0 ? revenue / sr._count : 0,
+          pricingAdjustment: priced
+            ? Math.round((Number(priced._sum.price || 0) - Number(priced._sum.listPrice || 0)) * 100) / 100
+            : 0,
         };
       })
       .sort((a, b) => b.revenue - a.revenue);
@@ -601,6 +656,12 @@ export class ReportsService {
       revenueByService,
       revenueByMonth,
       manualIncomeByColumn: dailyNotebookData.incomeByColumn,
+      giftCards: {
+        sold: await this.repositories.giftCardRepository.sumGiftCardSales(targetBusiness.id, startDate, endDate),
+        redeemed: sumRedemptions(redemptions.filter((r) => r.type === 'GIFT_CARD')),
+        voucherDiscounts,
+        outstandingBalance: await this.repositories.giftCardRepository.sumOutstandingBalance(targetBusiness.id),
+      },
     };
   }
 
@@ -1033,6 +1094,8 @@ export class ReportsService {
           : "Unknown",
         total: sd._count,
         completed: completedCount,
+        // Appointment prices already carry the staff member's price override
+        revenue: Number(sd._sum.price || 0),
         rating: 4.5, // TODO: Implement actual rating system
       };
     });
@@ -1186,6 +1249,176 @@ export class ReportsService {
     };
   }
 
+  /**
+   * Waitlist conversion: how many waiting customers received an offer, how
+   * offers were answered and the revenue of bookings made from accepted offers.
+   */
+  async getWaitlistReport(
+    userId: string,
+    businessId?: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<WaitlistConversionReport> {
+    const businesses = await this.getUserBusinesses(userId, businessId);
+    if (businesses.length === 0) {
+      throw new AppError('NO_BUSINESS_ACCESS', { message: 'No accessible businesses found' });
+    }
+
+    const targetBusiness = businesses[0];
+    const createdFilter =
+      startDate && endDate ? { createdAt: { gte: startDate, lte: endDate } } : {};
+
+    const [entries, offers] = await Promise.all([
+      this.repositories.prismaClient.waitlistEntry.findMany({
+        where: { businessId: targetBusiness.id, ...createdFilter },
+        select: {
+          status: true,
+          serviceId: true,
+          service: { select: { name: true } },
+        },
+      }),
+      this.repositories.prismaClient.waitlistOffer.findMany({
+        where: { businessId: targetBusiness.id, ...createdFilter },
+        select: {
+          status: true,
+          createdAt: true,
+          respondedAt: true,
+          appointmentId: true,
+        },
+      }),
+    ]);
+
+    const accepted = offers.filter((offer) => offer.status === 'ACCEPTED');
+    const booked = entries.filter((entry) => entry.status === 'BOOKED');
+
+    const minutesToAccept = accepted
+      .filter((offer) => offer.respondedAt)
+      .map((offer) => (offer.respondedAt!.getTime() - offer.createdAt.getTime()) / 60000);
+
+    const recoveredAppointmentIds = accepted
+      .map((offer) => offer.appointmentId)
+      .filter((id): id is string => !!id);
+    const recovered = recoveredAppointmentIds.length > 0
+      ? await this.repositories.prismaClient.appointment.aggregate({
+          where: {
+            id: { in: recoveredAppointmentIds },
+            status: { in: [AppointmentStatus.CONFIRMED, AppointmentStatus.COMPLETED] },
+          },
+          _sum: { price: true },
+        })
+      : null;
+
+    const serviceMap = new Map<string, { serviceId: string; serviceName: string; entries: number; booked: number }>();
+    entries.forEach((entry) => {
+      const row = serviceMap.get(entry.serviceId) || {
+        serviceId: entry.serviceId,
+        serviceName: entry.service.name,
+        entries: 0,
+        booked: 0,
+      };
+      row.entries++;
+      if (entry.status === 'BOOKED') row.booked++;
+      serviceMap.set(entry.serviceId, row);
+    });
+
+    const percent = (part: number, total: number) =>
+      total > 0 ? Math.round((part / total) * 10000) / 100 : 0;
+
+    return {
+      businessId: targetBusiness.id,
+      entriesCreated: entries.length,
+      offersSent: offers.length,
+      offersAccepted: accepted.length,
+      offersDeclined: offers.filter((offer) => offer.status === 'DECLINED').length,
+      offersExpired: offers.filter((offer) => offer.status === 'EXPIRED').length,
+      offerAcceptanceRate: percent(accepted.length, offers.length),
+      conversionRate: percent(booked.length, entries.length),
+      averageMinutesToAccept: minutesToAccept.length > 0
+        ? Math.round(minutesToAccept.reduce((sum, m) => sum + m, 0) / minutesToAccept.length)
+        : 0,
+      revenueRecovered: Number(recovered?._sum.price || 0),
+      byService: Array.from(serviceMap.values()).sort((a, b) => b.entries - a.entries),
+    };
+  }
+
+  /**
+   * Booking deposits: what was collected, refunded back to customers and kept
+   * by the business as late-cancellation or no-show forfeits.
+   */
+  async getDepositReport(
+    userId: string,
+    businessId?: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<DepositReport> {
+    const businesses = await this.getUserBusinesses(userId, businessId);
+    if (businesses.length === 0) {
+      throw new AppError('NO_BUSINESS_ACCESS', { message: 'No accessible businesses found' });
+    }
+
+    const targetBusiness = businesses[0];
+    const createdFilter =
+      startDate && endDate ? { createdAt: { gte: startDate, lte: endDate } } : {};
+
+    const deposits = await this.repositories.prismaClient.appointment_payments.findMany({
+      where: { businessId: targetBusiness.id, ...createdFilter },
+      select: {
+        amount: true,
+        currency: true,
+        status: true,
+        paidAt: true,
+        expiresAt: true,
+        updatedAt: true,
+        refundedAmount: true,
+        forfeitedAmount: true,
+        appointments: {
+          select: { serviceId: true, service: { select: { name: true } } },
+        },
+      },
+    });
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const paid = deposits.filter((deposit) => deposit.paidAt);
+    const refunded = paid.filter((deposit) => Number(deposit.refundedAmount) > 0);
+    const forfeited = paid.filter((deposit) => Number(deposit.forfeitedAmount) > 0);
+
+    const sum = (rows: typeof deposits, pick: (row: (typeof deposits)[number]) => unknown) =>
+      round(rows.reduce((total, row) => total + Number(pick(row)), 0));
+
+    const collected = sum(paid, (deposit) => deposit.amount);
+    const refundedTotal = sum(refunded, (deposit) => deposit.refundedAmount);
+    const forfeitedTotal = sum(forfeited, (deposit) => deposit.forfeitedAmount);
+
+    const serviceMap = new Map<string, { serviceId: string; serviceName: string; collected: number; forfeited: number }>();
+    paid.forEach((deposit) => {
+      const { serviceId, service } = deposit.appointments;
+      const row = serviceMap.get(serviceId) || { serviceId, serviceName: service.name, collected: 0, forfeited: 0 };
+      row.collected = round(row.collected + Number(deposit.amount));
+      row.forfeited = round(row.forfeited + Number(deposit.forfeitedAmount));
+      serviceMap.set(serviceId, row);
+    });
+
+    return {
+      businessId: targetBusiness.id,
+      collected,
+      collectedCount: paid.length,
+      refunded: refundedTotal,
+      refundedCount: refunded.length,
+      forfeited: forfeitedTotal,
+      forfeitedCount: forfeited.length,
+      held: round(collected - refundedTotal - forfeitedTotal),
+      expiredUnpaidCount: deposits.filter(
+        (deposit) =>
+          deposit.status === 'CANCELED' &&
+          !deposit.paidAt &&
+          !!deposit.expiresAt &&
+          deposit.expiresAt <= deposit.updatedAt
+      ).length,
+      currency: deposits[0]?.currency || 'TRY',
+      byService: Array.from(serviceMap.values()).sort((a, b) => b.collected - a.collected),
+    };
+  }
+
   async getUpcomingAppointments(
     userId: string,
     businessId?: string,
@@ -1830,24 +2063,36 @@ export class ReportsService {
             status: "COMPLETED",
           },
         },
+        staff: {
+          where: { duration: { not: null } },
+          select: { staffId: true, duration: true },
+        },
       },
     });
 
     return services.map((service) => {
+      // What each appointment was planned to take with its staff member
+      const scheduledFor = (staffId: string | null) =>
+        service.staff.find((assignment) => assignment.staffId === staffId)?.duration ?? service.duration;
+      const count = service.appointments.length;
       const avgDuration =
-        service.appointments.length > 0
+        count > 0
           ? service.appointments.reduce(
-              (sum, apt) => sum + (apt.duration || service.duration),
+              (sum, apt) => sum + (apt.duration || scheduledFor(apt.staffId)),
               0
-            ) / service.appointments.length
+            ) / count
+          : service.duration;
+      const scheduledDuration =
+        count > 0
+          ? service.appointments.reduce((sum, apt) => sum + scheduledFor(apt.staffId), 0) / count
           : service.duration;
 
       return {
         serviceId: service.id,
         serviceName: service.name,
         averageDuration: avgDuration,
-        scheduledDuration: service.duration,
-        efficiency: (service.duration / avgDuration) * 100,
+        scheduledDuration,
+        efficiency: (scheduledDuration / avgDuration) * 100,
       };
     });
   }
@@ -7,6 +7,18 @@ export {
   RoleService 
 } from './roleService';
 
+export {
+  StaffTimeOffService
+} from './staffTimeOffService';
+
+export {
+  StaffReassignmentService
+} from './staffReassignmentService';
+
+export {
+  StaffExternalCalendarService
+} from './staffExternalCalendarService';
+
 // Export types
 export type { 
   InviteStaffRequest,
@@ -0,0 +1,384 @@
+import { randomUUID } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { BusinessRepository } from '../../../repositories/businessRepository';
+import {
+  StaffExternalCalendarRepository,
+  StaffExternalCalendarWithContent
+} from '../../../repositories/staffExternalCalendarRepository';
+import { StaffRepository } from '../../../repositories/staffRepository';
+import { BusinessStaffData } from '../../../types/business';
+import {
+  CreateStaffExternalCalendarRequest,
+  StaffExternalCalendarData,
+  StaffExternalCalendarImportSummary,
+  UpdateStaffExternalCalendarRequest
+} from '../../../types/staffExternalCalendar';
+import { AppError } from '../../../types/responseTypes';
+import { IcsBusyInterval, parseBusyIntervals } from '../../../utils/icsParser';
+import logger from '../../../utils/Logger/logger';
+import { resolveTimezone } from '../../../utils/timezoneHelper';
+import { RBACService } from '../rbac/rbacService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Busy time is kept from a day back (events still running) to a year ahead */
+const IMPORT_PAST_MS = DAY_MS;
+const IMPORT_AHEAD_MS = 365 * DAY_MS;
+/** Calendars are re-imported once they are older than this */
+const REIMPORT_AFTER_MS = 60 * 60 * 1000;
+const IMPORT_BATCH_SIZE = 50;
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_CALENDAR_BYTES = 2 * 1024 * 1024;
+const MAX_ERROR_LENGTH = 500;
+const MAX_REDIRECTS = 3;
+
+/**
+ * Calendar URLs are fetched by the server, so they may not point at loopback,
+ * private, link-local (cloud metadata) or other non-public addresses.
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+  }
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Outside calendars of staff members who also work elsewhere or keep a personal
+ * calendar ("Ayşe works at the other salon on Tuesdays").
+ *
+ * A calendar is either an uploaded ICS file or a URL that is fetched again on
+ * every import. Its VEVENTs (recurrences expanded, cancelled and transparent
+ * events skipped) are stored as busy intervals and treated like approved time
+ * off by booking, slot listing, reschedule suggestions and reassignment. The
+ * ImportStaffExternalCalendarsJob re-imports calendars every hour; a URL that
+ * fails keeps its last imported busy time and records the error.
+ */
+export class StaffExternalCalendarService {
+  constructor(
+    private readonly staffExternalCalendarRepository: StaffExternalCalendarRepository,
+    private readonly staffRepository: StaffRepository,
+    private readonly businessRepository: BusinessRepository,
+    private readonly rbacService: RBACService
+  ) {}
+
+  /**
+   * Managers see every calendar of the business; other staff only their own.
+   */
+  async getCalendars(userId: string, businessId: string, staffId?: string): Promise<StaffExternalCalendarData[]> {
+    const { canManage, ownStaff } = await this.getAccess(userId, businessId);
+    return this.staffExternalCalendarRepository.findByBusiness(businessId, canManage ? staffId : ownStaff!.id);
+  }
+
+  /**
+   * The calendar is imported before it is saved, so a file or URL that cannot be
+   * read is rejected instead of silently blocking nothing.
+   */
+  async addCalendar(
+    userId: string,
+    businessId: string,
+    request: CreateStaffExternalCalendarRequest
+  ): Promise<StaffExternalCalendarData> {
+    const { business, canManage, ownStaff } = await this.getAccess(userId, businessId);
+
+    let staffId: string;
+    if (request.staffId && request.staffId !== ownStaff?.id) {
+      if (!canManage) {
+        throw new AppError('BUSINESS_OWNER_REQUIRED', { message: 'Only managers can add calendars for other staff members' });
+      }
+      const staff = await this.staffRepository.findById(request.staffId);
+      if (!staff || staff.businessId !== businessId || !staff.isActive) {
+        throw new AppError('STAFF_NOT_FOUND', { message: 'Staff member not found in this business' });
+      }
+      staffId = staff.id;
+    } else if (ownStaff) {
+      staffId = ownStaff.id;
+    } else {
+      throw new AppError('BUSINESS_STAFF_REQUIRED', { message: 'Choose the staff member the calendar belongs to' });
+    }
+
+    const sourceType = request.icsContent !== undefined ? 'FILE' : 'URL';
+    const sourceUrl = request.sourceUrl ? this.normalizeUrl(request.sourceUrl) : undefined;
+    const now = new Date();
+    const content = sourceType === 'FILE' ? request.icsContent! : await this.download(sourceUrl!);
+    const intervals = this.parse(content, resolveTimezone(business.timezone), now);
+
+    const calendar = await this.staffExternalCalendarRepository.create({
+      id: `sec_${randomUUID()}`,
+      businessId,
+      staffId,
+      name: request.name,
+      sourceType,
+      sourceUrl,
+      icsContent: sourceType === 'FILE' ? content : null,
+      createdBy: userId
+    });
+    const imported = await this.staffExternalCalendarRepository.replaceBusyIntervals(calendar.id, staffId, intervals, now);
+
+    logger.info('Staff external calendar added', { calendarId: calendar.id, businessId, staffId, sourceType, busyCount: intervals.length });
+    return imported;
+  }
+
+  /**
+   * Renames, pauses or resumes a calendar, or replaces the file of a FILE
+   * calendar. Paused calendars block nothing until they are resumed.
+   */
+  async updateCalendar(
+    userId: string,
+    calendarId: string,
+    request: UpdateStaffExternalCalendarRequest
+  ): Promise<StaffExternalCalendarData> {
+    const { calendar, timezone } = await this.getManageableCalendar(userId, calendarId);
+
+    if (request.icsContent !== undefined) {
+      if (calendar.sourceType !== 'FILE') {
+        throw new AppError('STAFF_CALENDAR_INVALID', {
+          message: 'Only uploaded calendars can be replaced with a file',
+          params: { reason: 'calendar is imported from a URL' }
+        });
+      }
+      const now = new Date();
+      const intervals = this.parse(request.icsContent, timezone, now);
+      await this.staffExternalCalendarRepository.update(calendarId, { icsContent: request.icsContent });
+      await this.staffExternalCalendarRepository.replaceBusyIntervals(calendarId, calendar.staffId, intervals, now);
+    }
+
+    return this.staffExternalCalendarRepository.update(calendarId, {
+      ...(request.name !== undefined ? { name: request.name } : {}),
+      ...(request.isActive !== undefined ? { isActive: request.isActive } : {})
+    });
+  }
+
+  /** Imports the calendar now instead of waiting for the next job run */
+  async refreshCalendar(userId: string, calendarId: string): Promise<StaffExternalCalendarData> {
+    const { calendar, timezone } = await this.getManageableCalendar(userId, calendarId);
+    return this.importCalendar(calendar, timezone, new Date());
+  }
+
+  async removeCalendar(userId: string, calendarId: string): Promise<void> {
+    await this.getManageableCalendar(userId, calendarId);
+    await this.staffExternalCalendarRepository.delete(calendarId);
+    logger.info('Staff external calendar removed', { calendarId, removedBy: userId });
+  }
+
+  /**
+   * Re-imports active calendars that were not imported within the last hour.
+   * Failures are recorded on the calendar and do not stop the batch.
+   */
+  async importDueCalendars(now: Date = new Date()): Promise<StaffExternalCalendarImportSummary> {
+    const due = await this.staffExternalCalendarRepository.findDueForImport(
+      new Date(now.getTime() - REIMPORT_AFTER_MS),
+      IMPORT_BATCH_SIZE
+    );
+    const timezones = new Map<string, string>();
+    const summary: StaffExternalCalendarImportSummary = { imported: 0, failed: 0 };
+
+    for (const calendar of due) {
+      try {
+        if (!timezones.has(calendar.businessId)) {
+          const business = await this.businessRepository.findById(calendar.businessId);
+          timezones.set(calendar.businessId, resolveTimezone(business?.timezone));
+        }
+        await this.importCalendar(calendar, timezones.get(calendar.businessId)!, now);
+        summary.imported++;
+      } catch (error) {
+        summary.failed++;
+        const reason = error instanceof AppError
+          ? String(error.params?.reason ?? error.message)
+          : error instanceof Error ? error.message : String(error);
+        logger.warn('Staff external calendar import failed', { calendarId: calendar.id, reason });
+        await this.staffExternalCalendarRepository.update(calendar.id, {
+          lastImportedAt: now,
+          lastImportError: reason.slice(0, MAX_ERROR_LENGTH)
+        });
+      }
+    }
+
+    return summary;
+  }
+
+  /** Calendars of a removed staff member stop being imported */
+  async handleStaffRemoved(staff: BusinessStaffData): Promise<void> {
+    const deactivated = await this.staffExternalCalendarRepository.deactivateByStaff(staff.id);
+    if (deactivated > 0) {
+      logger.info('Deactivated external calendars of removed staff member', { staffId: staff.id, deactivated });
+    }
+  }
+
+  private async importCalendar(
+    calendar: StaffExternalCalendarWithContent,
+    timezone: string,
+    now: Date
+  ): Promise<StaffExternalCalendarData> {
+    const content = calendar.sourceType === 'FILE'
+      ? calendar.icsContent ?? ''
+      : await this.download(calendar.sourceUrl!);
+    const intervals = this.parse(content, timezone, now);
+    return this.staffExternalCalendarRepository.replaceBusyIntervals(calendar.id, calendar.staffId, intervals, now);
+  }
+
+  private parse(content: string, timezone: string, now: Date): IcsBusyInterval[] {
+    try {
+      return parseBusyIntervals(content, {
+        defaultTimezone: timezone,
+        from: new Date(now.getTime() - IMPORT_PAST_MS),
+        to: new Date(now.getTime() + IMPORT_AHEAD_MS)
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new AppError('STAFF_CALENDAR_INVALID', { message: `Calendar could not be read: ${reason}`, params: { reason } });
+    }
+  }
+
+  private normalizeUrl(sourceUrl: string): string {
+    let url: URL;
+    try {
+      url = new URL(sourceUrl.trim());
+    } catch {
+      throw new AppError('STAFF_CALENDAR_INVALID', { message: 'Invalid calendar URL', params: { reason: 'invalid URL' } });
+    }
+    if (url.protocol === 'webcal:') {
+      url.protocol = 'https:';
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new AppError('STAFF_CALENDAR_INVALID', {
+        message: 'Calendar URLs must use http, https or webcal',
+        params: { reason: 'unsupported URL scheme' }
+      });
+    }
+    return url.toString();
+  }
+
+  /**
+   * Fetches a calendar URL. Redirects are followed by hand so every hop is
+   * checked against non-public addresses, and the body is read in chunks so an
+   * oversized calendar is dropped as soon as it passes the limit.
+   */
+  private async download(sourceUrl: string): Promise<string> {
+    const fail = (reason: string) =>
+      new AppError('STAFF_CALENDAR_INVALID', { message: `Calendar could not be downloaded: ${reason}`, params: { reason } });
+
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    let url = sourceUrl;
+    let response: Response;
+    for (let hop = 0; ; hop++) {
+      await this.assertPublicHost(new URL(url), fail);
+      try {
+        response = await fetch(url, { headers: { Accept: 'text/calendar' }, redirect: 'manual', signal });
+      } catch (error) {
+        throw fail(error instanceof Error && error.name === 'TimeoutError' ? 'request timed out' : 'request failed');
+      }
+      const location = response.status >= 300 && response.status < 400 ? response.headers.get('location') : null;
+      if (!location) {
+        break;
+      }
+      await response.body?.cancel();
+      if (hop >= MAX_REDIRECTS) {
+        throw fail('too many redirects');
+      }
+      const next = new URL(location, url);
+      if (next.protocol !== 'http:' && next.protocol !== 'https:') {
+        throw fail('unsupported redirect');
+      }
+      url = next.toString();
+    }
+
+    if (!response.ok) {
+      throw fail(`HTTP ${response.status}`);
+    }
+    const declaredLength = Number(response.headers.get('content-length') || 0);
+    if (declaredLength > MAX_CALENDAR_BYTES) {
+      await response.body?.cancel();
+      throw fail('calendar is too large');
+    }
+    if (!response.body) {
+      return '';
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        received += value.byteLength;
+        if (received > MAX_CALENDAR_BYTES) {
+          await reader.cancel();
+          throw fail('calendar is too large');
+        }
+        chunks.push(value);
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw fail(error instanceof Error && error.name === 'TimeoutError' ? 'request timed out' : 'request failed');
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  private async assertPublicHost(url: URL, fail: (reason: string) => AppError): Promise<void> {
+    const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    let addresses: string[];
+    if (isIP(host)) {
+      addresses = [host];
+    } else {
+      try {
+        addresses = (await lookup(host, { all: true })).map((entry) => entry.address);
+      } catch {
+        throw fail('host not found');
+      }
+    }
+    if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+      throw fail('address not allowed');
+    }
+  }
+
+  private async getManageableCalendar(userId: string, calendarId: string) {
+    const calendar = await this.staffExternalCalendarRepository.findById(calendarId);
+    if (!calendar) {
+      throw new AppError('STAFF_CALENDAR_NOT_FOUND', { message: 'External calendar not found' });
+    }
+
+    const { business, canManage, ownStaff } = await this.getAccess(userId, calendar.businessId);
+    if (!canManage && calendar.staffId !== ownStaff?.id) {
+      throw new AppError('BUSINESS_OWNER_REQUIRED', { message: 'Only managers can change calendars of other staff members' });
+    }
+
+    return { calendar, timezone: resolveTimezone(business.timezone) };
+  }
+
+  private async getAccess(userId: string, businessId: string) {
+    const business = await this.businessRepository.findById(businessId);
+    if (!business) {
+      throw new AppError('BUSINESS_NOT_FOUND', { message: 'Business not found' });
+    }
+
+    const ownStaff = await this.staffRepository.findByBusinessIdAndUserId(businessId, userId);
+    const canManage = business.ownerId === userId
+      || await this.rbacService.hasPermission(userId, 'staff', 'manage', { businessId });
+
+    if (!canManage && (!ownStaff || !ownStaff.isActive)) {
+      throw new AppError('NO_BUSINESS_ACCESS', { message: 'You do not have access to this business' });
+    }
+
+    return { business, canManage, ownStaff: ownStaff?.isActive ? ownStaff : null };
+  }
+}
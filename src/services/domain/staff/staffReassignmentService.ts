@@ -0,0 +1,387 @@
+import { AppointmentRepository } from '../../../repositories/appointmentRepository';
+import { BusinessRepository } from '../../../repositories/businessRepository';
+import { ServiceRepository } from '../../../repositories/serviceRepository';
+import { StaffRepository, StaffWithUser } from '../../../repositories/staffRepository';
+import { StaffTimeOffRepository } from '../../../repositories/staffTimeOffRepository';
+import { StaffExternalCalendarRepository } from '../../../repositories/staffExternalCalendarRepository';
+import { PrismaUserRepository } from '../../../repositories/userRepository';
+import { BusinessStaffData } from '../../../types/business';
+import {
+  ApplyStaffReassignmentRequest,
+  StaffReassignmentProposal,
+  StaffReassignmentResult,
+  StaffReassignmentScope,
+  StaffUnavailableReason
+} from '../../../types/staffReassignment';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+import { resolveTimezone } from '../../../utils/timezoneHelper';
+import { AppointmentMessages } from '../../../utils/smsMessageTemplates';
+import { AppointmentRescheduleService } from '../appointment/appointmentRescheduleService';
+import { AppointmentService } from '../appointment/appointmentService';
+import { UnifiedNotificationGateway } from '../notification/unifiedNotificationGateway';
+import { RBACService } from '../rbac/rbacService';
+import { isDuringTimeOff, resolveTimeOffWindow } from './timeOffWindow';
+
+/** Upper bound of "every upcoming appointment" */
+const OPEN_ENDED = new Date('2099-12-31');
+
+type AffectedAppointment = Awaited<ReturnType<StaffTimeOffRepository['findAffectedAppointments']>>[number];
+
+interface ReassignmentRun {
+  businessId: string;
+  staffId: string;
+  reason: StaffUnavailableReason;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Moves the upcoming appointments of a staff member who was removed or is absent.
+ *
+ * Each appointment goes to the first other active staff member who provides the
+ * service (an active ServiceStaff assignment) and is free at the booked time,
+ * through AppointmentService.reassignAppointmentStaff so the customer is told
+ * and the move is kept in the reschedule history. When nobody is free the
+ * customer is offered new times instead (a RescheduleSuggestion).
+ */
+export class StaffReassignmentService {
+  constructor(
+    private readonly staffRepository: StaffRepository,
+    private readonly serviceRepository: ServiceRepository,
+    private readonly appointmentRepository: AppointmentRepository,
+    private readonly staffTimeOffRepository: StaffTimeOffRepository,
+    private readonly staffExternalCalendarRepository: StaffExternalCalendarRepository,
+    private readonly businessRepository: BusinessRepository,
+    private readonly userRepository: PrismaUserRepository,
+    private readonly rbacService: RBACService,
+    private readonly appointmentService: AppointmentService,
+    private readonly appointmentRescheduleService: AppointmentRescheduleService,
+    private readonly notificationGateway: UnifiedNotificationGateway
+  ) {}
+
+  /**
+   * Active staff members other than `excludeStaffId` who provide the service and
+   * are neither on approved leave, busy in an imported calendar nor booked at the
+   * appointment's time, in service assignment order.
+   */
+  async findFreeQualifiedStaff(
+    businessId: string,
+    appointment: { id: string; serviceId: string; date: Date; startTime: Date; endTime: Date },
+    excludeStaffId: string,
+    staff?: StaffWithUser[]
+  ): Promise<StaffWithUser[]> {
+    const candidates = await this.findQualifiedStaff(businessId, appointment.serviceId, excludeStaffId, staff);
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const candidateIds = candidates.map((member) => member.id);
+    const onLeave = [
+      ...await this.staffTimeOffRepository.findApprovedOverlapping(candidateIds, appointment.startTime, appointment.endTime),
+      ...await this.staffExternalCalendarRepository.findBusyOverlapping(candidateIds, appointment.startTime, appointment.endTime)
+    ];
+
+    const available: StaffWithUser[] = [];
+    for (const member of candidates) {
+      if (isDuringTimeOff(onLeave.filter((entry) => entry.staffId === member.id), appointment.startTime, appointment.endTime)) {
+        continue;
+      }
+      const conflicts = await this.appointmentRepository.findConflictingAppointments(
+        businessId,
+        appointment.date,
+        appointment.startTime,
+        appointment.endTime,
+        member.id,
+        appointment.id
+      );
+      if (conflicts.length === 0) {
+        available.push(member);
+      }
+    }
+    return available;
+  }
+
+  /**
+   * What would happen to each upcoming appointment of the staff member in the scope
+   */
+  async previewReassignment(
+    userId: string,
+    staffId: string,
+    scope: StaffReassignmentScope = {}
+  ): Promise<StaffReassignmentProposal[]> {
+    const run = await this.resolveRun(userId, staffId, scope);
+    const appointments = await this.findUpcomingAppointments(run);
+    const staff = await this.staffRepository.findByBusinessId(run.businessId);
+
+    const proposals: StaffReassignmentProposal[] = [];
+    for (const appointment of appointments) {
+      const [replacement] = await this.findFreeQualifiedStaff(run.businessId, appointment, run.staffId, staff);
+      proposals.push({
+        appointmentId: appointment.id,
+        customerName: `${appointment.customer.firstName || ''} ${appointment.customer.lastName || ''}`.trim(),
+        serviceId: appointment.serviceId,
+        serviceName: appointment.service.name,
+        startTime: appointment.startTime.toISOString(),
+        endTime: appointment.endTime.toISOString(),
+        action: replacement ? 'REASSIGN' : 'SUGGEST_RESCHEDULE',
+        ...(replacement ? { proposedStaff: { staffId: replacement.id, name: this.staffName(replacement) } } : {})
+      });
+    }
+    return proposals;
+  }
+
+  /**
+   * Applies the swaps, falling back to reschedule suggestions; failures are
+   * reported per appointment instead of aborting the rest.
+   */
+  async applyReassignment(
+    userId: string,
+    staffId: string,
+    request: ApplyStaffReassignmentRequest = {}
+  ): Promise<StaffReassignmentResult> {
+    const run = await this.resolveRun(userId, staffId, request);
+    return this.reassign(userId, run, request.appointmentIds, request.reason);
+  }
+
+  /**
+   * Run after StaffService.removeStaff: every upcoming appointment of the removed
+   * staff member is handed over, and the owner gets a summary.
+   */
+  async handleStaffRemoved(staff: BusinessStaffData, removedBy: string): Promise<StaffReassignmentResult> {
+    const result = await this.reassign(removedBy, {
+      businessId: staff.businessId,
+      staffId: staff.id,
+      reason: 'STAFF_REMOVED',
+      start: new Date(),
+      end: OPEN_ENDED
+    }, undefined, 'Personel işletmeden ayrıldı');
+
+    const total = result.reassigned.length + result.suggested.length + result.failed.length;
+    if (total > 0) {
+      const business = await this.businessRepository.findById(staff.businessId);
+      if (business) {
+        await this.sendAlert(business.ownerId, staff.businessId, 'Personel Randevuları Devredildi',
+          `Ayrılan personelin ${total} randevusundan ${result.reassigned.length} tanesi başka personele devredildi, ` +
+          `${result.suggested.length} tanesi için müşteriye yeni saat önerildi` +
+          (result.failed.length > 0 ? `, ${result.failed.length} tanesi elle ele alınmalı.` : '.'),
+          { type: 'staff_reassignment', staffId: staff.id, ...this.counts(result) });
+      }
+    }
+
+    return result;
+  }
+
+  private async reassign(
+    actorId: string,
+    run: ReassignmentRun,
+    appointmentIds?: string[],
+    reason?: string
+  ): Promise<StaffReassignmentResult> {
+    const result: StaffReassignmentResult = { reassigned: [], suggested: [], failed: [] };
+
+    let appointments = await this.findUpcomingAppointments(run);
+    if (appointmentIds) {
+      const known = new Set(appointments.map((appointment) => appointment.id));
+      for (const appointmentId of appointmentIds.filter((id) => !known.has(id))) {
+        result.failed.push({ appointmentId, error: 'Appointment is not an upcoming appointment of this staff member in the selected period' });
+      }
+      appointments = appointments.filter((appointment) => appointmentIds.includes(appointment.id));
+    }
+
+    const staff = await this.staffRepository.findByBusinessId(run.businessId);
+
+    for (const appointment of appointments) {
+      // Class seats follow the class instructor
+      if (appointment.classSessionId) {
+        result.failed.push({ appointmentId: appointment.id, error: 'This appointment is a seat in a class; change the class instructor instead' });
+        continue;
+      }
+
+      try {
+        const [replacement] = await this.findFreeQualifiedStaff(run.businessId, appointment, run.staffId, staff);
+        if (replacement) {
+          try {
+            await this.appointmentService.reassignAppointmentStaff(actorId, appointment.id, replacement.id, reason);
+            result.reassigned.push({ appointmentId: appointment.id, staffId: replacement.id });
+            continue;
+          } catch (error) {
+            // Booked in the meantime; offer new times instead
+            logger.warn('Staff reassignment failed, suggesting new times', { appointmentId: appointment.id, staffId: replacement.id, error });
+          }
+        }
+
+        const suggestion = await this.suggestNewTimes(run, appointment, staff);
+        result.suggested.push({ appointmentId: appointment.id, ...suggestion });
+      } catch (error) {
+        result.failed.push({ appointmentId: appointment.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    logger.info('Staff appointments reassigned', {
+      businessId: run.businessId,
+      staffId: run.staffId,
+      reason: run.reason,
+      ...this.counts(result)
+    });
+
+    return result;
+  }
+
+  private async suggestNewTimes(
+    run: ReassignmentRun,
+    appointment: AffectedAppointment,
+    staff: StaffWithUser[]
+  ): Promise<{ suggestionId: string; slotCount: number }> {
+    // An absent staff member can take the customer again once back
+    const candidates = await this.findQualifiedStaff(
+      run.businessId,
+      appointment.serviceId,
+      run.reason === 'STAFF_REMOVED' ? run.staffId : '',
+      staff
+    );
+
+    const { suggestionId, suggestedSlots } = await this.appointmentRescheduleService.generateStaffUnavailableSuggestions(
+      appointment.id,
+      {
+        unavailableStaffId: run.staffId,
+        reason: run.reason,
+        candidateStaffIds: candidates.map((member) => member.id),
+        searchFrom: new Date()
+      }
+    );
+
+    await this.notifyCustomer(run.businessId, appointment, suggestedSlots.length);
+
+    return { suggestionId, slotCount: suggestedSlots.length };
+  }
+
+  private async findQualifiedStaff(
+    businessId: string,
+    serviceId: string,
+    excludeStaffId: string,
+    staff?: StaffWithUser[]
+  ): Promise<StaffWithUser[]> {
+    const qualifiedIds = await this.serviceRepository.getServiceStaffIds(serviceId);
+    if (qualifiedIds.length === 0) {
+      return [];
+    }
+    const activeStaff = staff ?? await this.staffRepository.findByBusinessId(businessId);
+    const byId = new Map(activeStaff.map((member) => [member.id, member]));
+    return qualifiedIds
+      .filter((id) => id !== excludeStaffId)
+      .map((id) => byId.get(id))
+      .filter((member): member is StaffWithUser => !!member && member.isActive);
+  }
+
+  private async findUpcomingAppointments(run: ReassignmentRun): Promise<AffectedAppointment[]> {
+    const now = new Date();
+    const appointments = await this.staffTimeOffRepository.findAffectedAppointments(
+      run.staffId,
+      run.start > now ? run.start : now,
+      run.end
+    );
+    // Appointments already under way stay with whoever is doing them
+    return appointments.filter((appointment) => appointment.startTime >= now);
+  }
+
+  private async resolveRun(userId: string, staffId: string, scope: StaffReassignmentScope): Promise<ReassignmentRun> {
+    const staff = await this.staffRepository.findById(staffId);
+    if (!staff) {
+      throw new AppError('STAFF_NOT_FOUND', { message: 'Staff member not found' });
+    }
+    const business = await this.assertCanManage(userId, staff.businessId);
+
+    const reason: StaffUnavailableReason = staff.isActive ? 'STAFF_ABSENT' : 'STAFF_REMOVED';
+
+    if (scope.timeOffId) {
+      const timeOff = await this.staffTimeOffRepository.findById(scope.timeOffId);
+      if (!timeOff || timeOff.staffId !== staffId) {
+        throw new AppError('STAFF_TIME_OFF_NOT_FOUND', { message: 'Time off not found' });
+      }
+      if (timeOff.status !== 'APPROVED') {
+        throw new AppError('STAFF_TIME_OFF_INVALID_STATUS', {
+          message: `Time off is ${timeOff.status.toLowerCase()}`,
+          params: { status: timeOff.status }
+        });
+      }
+      return { businessId: staff.businessId, staffId, reason, start: timeOff.startTime, end: timeOff.endTime };
+    }
+
+    if (scope.startDate) {
+      const window = resolveTimeOffWindow(
+        { startDate: scope.startDate, endDate: scope.endDate },
+        resolveTimezone(business.timezone)
+      );
+      return { businessId: staff.businessId, staffId, reason, start: window.startTime, end: window.endTime };
+    }
+
+    return { businessId: staff.businessId, staffId, reason, start: new Date(), end: OPEN_ENDED };
+  }
+
+  private async assertCanManage(userId: string, businessId: string) {
+    const business = await this.businessRepository.findById(businessId);
+    if (!business) {
+      throw new AppError('BUSINESS_NOT_FOUND', { message: 'Business not found' });
+    }
+    if (business.ownerId !== userId && !await this.rbacService.hasPermission(userId, 'staff', 'manage', { businessId })) {
+      throw new AppError('BUSINESS_OWNER_REQUIRED', { message: 'Only business owners can reassign staff appointments' });
+    }
+    return business;
+  }
+
+  private async notifyCustomer(businessId: string, appointment: AffectedAppointment, suggestionCount: number): Promise<void> {
+    try {
+      const [business, customer] = await Promise.all([
+        this.businessRepository.findById(businessId),
+        this.userRepository.findById(appointment.customerId)
+      ]);
+      if (!business || !customer?.phoneNumber) {
+        return;
+      }
+
+      const message = AppointmentMessages.staffUnavailable({
+        businessName: business.name,
+        serviceName: appointment.service.name,
+        appointmentDate: appointment.startTime.toLocaleDateString('tr-TR', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'Europe/Istanbul' }),
+        appointmentTime: appointment.startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/Istanbul' }),
+        suggestionCount,
+        appointmentId: appointment.id
+      });
+      const result = await this.notificationGateway.sendCriticalSMS(customer.phoneNumber, message, {
+        requestId: `staff-unavailable-${appointment.id}`
+      });
+      if (!result.success) {
+        logger.error(`❌ Failed to send staff unavailable SMS: ${result.error}`);
+      }
+    } catch (error) {
+      logger.error('Failed to notify customer about unavailable staff', { appointmentId: appointment.id, error });
+    }
+  }
+
+  private async sendAlert(
+    userId: string,
+    businessId: string,
+    title: string,
+    body: string,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await this.notificationGateway.sendSystemAlert({ businessId, userId, title, body, data, url: '/appointments' });
+    } catch (error) {
+      logger.error('Failed to send staff reassignment alert', { businessId, error });
+    }
+  }
+
+  private counts(result: StaffReassignmentResult) {
+    return {
+      reassigned: result.reassigned.length,
+      suggested: result.suggested.length,
+      failed: result.failed.length
+    };
+  }
+
+  private staffName(member: StaffWithUser): string {
+    return `${member.user.firstName || ''} ${member.user.lastName || ''}`.trim();
+  }
+}
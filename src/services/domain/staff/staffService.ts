@@ -5,11 +5,13 @@ import { RepositoryContainer } from '../../../repositories';
 import { PhoneVerificationService } from '../sms/phoneVerificationService';
 import { RBACService } from '../rbac/rbacService';
 import { UsageService } from '../usage/usageService';
+import { OfferingService } from '../offering/offeringService';
+import { applyStaffOverride } from '../offering/staffOverrides';
 import { PermissionName, CreateUserData, UpdateUserData, UserProfile, UserSecurity } from '../../../types/auth';
 import { ErrorContext, PhoneVerificationError } from '../../../utils/errors/baseError';
 import { AppError } from '../../../types/responseTypes';
 
-import { isValidPhoneNumber, parsePhoneNumber } from 'libphonenumber-js';
+import { normalizePhoneNumber } from '../../../utils/phoneNumber';
 import { VerificationPurpose as SMSVerificationPurpose } from '../../../types/sms';
 import logger from "../../../utils/Logger/logger";
 export interface InviteStaffRequest {
@@ -37,14 +39,38 @@ export interface StaffInvitationResult {
   staffMember?: StaffWithUser;
 }
 
+/** What a service takes and costs with one staff member, as shown to customers */
+export interface PublicStaffServiceTerms {
+  duration: number;
+  bufferTime: number;
+  price: number;
+  currency: string;
+  priceHidden?: boolean;
+  priceDisplayMessage?: string;
+}
+
+export type StaffRemovedListener = (staff: BusinessStaffData, removedBy: string) => Promise<unknown>;
+
 export class StaffService {
+  private readonly staffRemovedListeners: StaffRemovedListener[] = [];
+
   constructor(
     private repositories: RepositoryContainer,
     private phoneVerificationService: PhoneVerificationService,
     private rbacService: RBACService,
-    private usageService: UsageService
+    private usageService: UsageService,
+    private offeringService?: OfferingService
   ) {}
 
+  /**
+   * Registers a callback run after a staff member is removed. Used by the staff
+   * reassignment engine, which depends on the appointment service and therefore
+   * cannot be injected into this one.
+   */
+  onStaffRemoved(listener: StaffRemovedListener): void {
+    this.staffRemovedListeners.push(listener);
+  }
+
   /**
    * Step 1: Owner initiates staff invitation by entering phone number
    * This sends SMS code to the staff member's phone
@@ -71,7 +97,7 @@ export class StaffService {
     });
 
     // Validate phone number
-    const normalizedPhone = this.normalizePhoneNumber(request.phoneNumber);
+    const normalizedPhone = normalizePhoneNumber(request.phoneNumber);
     if (!normalizedPhone) {
       throw new AppError('VALIDATION_ERROR', { message: 'Invalid phone number format' });
     }
@@ -156,7 +182,7 @@ export class StaffService {
       requestId: context?.requestId,
     });
 
-    const normalizedPhone = this.normalizePhoneNumber(request.phoneNumber);
+    const normalizedPhone = normalizePhoneNumber(request.phoneNumber);
     if (!normalizedPhone) {
       throw new AppError('VALIDATION_ERROR', { message: 'Invalid phone number format' });
     }
@@ -419,6 +445,13 @@ export class StaffService {
       removedBy: userId,
       cacheInvalidated: true,
     });
+
+    // Fire-and-forget: handing over appointments must never fail the removal itself
+    for (const listener of this.staffRemovedListeners) {
+      listener(staff, userId).catch((error) => {
+        logger.error('Staff removed listener failed', { staffId, error });
+      });
+    }
   }
 
   async getStaffStats(
@@ -530,34 +563,6 @@ export class StaffService {
     return user?.id || null;
   }
 
-  private normalizePhoneNumber(phoneNumber: string): string | null {
-    try {
-      // Attempt direct validation first
-      if (isValidPhoneNumber(phoneNumber)) {
-        const parsed = parsePhoneNumber(phoneNumber);
-        return parsed?.format('E.164') || null;
-      }
-
-      // Fallback: try parsing with TR country context (handles local formats)
-      try {
-        const parsed = parsePhoneNumber(phoneNumber, 'TR');
-        if (parsed && isValidPhoneNumber(parsed.format('E.164'))) {
-          return parsed.format('E.164');
-        }
-      } catch {
-        // ignore fallback error
-      }
-
-      return null;
-    } catch (error) {
-      logger.warn('Phone number parsing failed', {
-        phoneNumber: this.maskPhoneNumber(phoneNumber),
-        error: error instanceof Error ? error.message : String(error),
-      });
-      return null;
-    }
-  }
-
   private maskPhoneNumber(phoneNumber: string): string { 
     if (phoneNumber.length < 4) {
       return '*'.repeat(phoneNumber.length);
@@ -611,6 +616,7 @@ export class StaffService {
       avatar: string | null;
     };
     displayName?: string;
+    service?: PublicStaffServiceTerms;
   }>> {
     const business = await this.repositories.businessRepository.findByIdWithOwner(businessId);
     if (!business) {
@@ -618,6 +624,7 @@ export class StaffService {
     }
 
     let staff = await this.repositories.staffRepository.findByBusinessId(businessId);
+    let serviceTerms: (staffId: string) => Promise<PublicStaffServiceTerms | undefined> = async () => undefined;
 
     // Filter by service assignment when serviceId is provided
     if (serviceId) {
@@ -630,6 +637,26 @@ export class StaffService {
       if (assignedStaffIds.length > 0) {
         staff = staff.filter(member => assignedStaffIds.includes(member.id));
       }
+
+      const overrides = await this.repositories.serviceRepository.getStaffOverrides(serviceId);
+      serviceTerms = async (staffId) => {
+        const performed = applyStaffOverride(service, overrides.find(override => override.staffId === staffId));
+        // Same price visibility rules as the service listings
+        const [visible] = this.offeringService
+          ? await this.offeringService.processServicePriceVisibility([performed], business.settings, 'booking')
+          : [performed];
+        const { priceHidden, priceDisplayMessage } = visible as typeof visible & {
+          priceHidden?: boolean;
+          priceDisplayMessage?: string;
+        };
+        return {
+          duration: visible.duration,
+          bufferTime: visible.bufferTime,
+          price: visible.price,
+          currency: visible.currency,
+          ...(priceHidden && { priceHidden, priceDisplayMessage }),
+        };
+      };
     }
 
     // If no staff records exist, ensure the owner has a staff record and return it
@@ -652,13 +679,14 @@ export class StaffService {
           lastName: owner.lastName ?? null,
           avatar: owner.avatar ?? null,
         },
+        service: await serviceTerms(ownerStaff.id),
       }];
     }
 
     // Get privacy settings from business settings
     const privacySettings = this.getStaffPrivacySettings(business.settings);
 
-    return staff.map(member => {
+    return Promise.all(staff.map(async member => {
       const baseStaff = {
         id: member.id,
         role: member.role,
@@ -668,6 +696,7 @@ export class StaffService {
           lastName: member.user.lastName,
           avatar: member.user.avatar,
         },
+        service: await serviceTerms(member.id),
       };
 
       // Apply privacy settings
@@ -685,7 +714,7 @@ export class StaffService {
       }
 
       return baseStaff;
-    });
+    }));
   }
 
   // Utility methods
@@ -0,0 +1,346 @@
+import { randomUUID } from 'crypto';
+import { BusinessRepository } from '../../../repositories/businessRepository';
+import { StaffRepository } from '../../../repositories/staffRepository';
+import { StaffTimeOffRepository } from '../../../repositories/staffTimeOffRepository';
+import {
+  CreateStaffTimeOffRequest,
+  ResolveTimeOffAppointmentsRequest,
+  ResolveTimeOffAppointmentsResult,
+  ReviewStaffTimeOffRequest,
+  StaffTimeOffData,
+  StaffTimeOffQuery,
+  StaffTimeOffStatus,
+  TimeOffAffectedAppointment
+} from '../../../types/staffTimeOff';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+import { createDateTimeInTimezone, resolveTimezone } from '../../../utils/timezoneHelper';
+import { AppointmentService } from '../appointment/appointmentService';
+import { UnifiedNotificationGateway } from '../notification/unifiedNotificationGateway';
+import { RBACService } from '../rbac/rbacService';
+import { StaffReassignmentService } from './staffReassignmentService';
+import { resolveTimeOffWindow } from './timeOffWindow';
+
+const DEFAULT_CANCEL_REASON = 'Personel izinli olduğu için işletme tarafından iptal edildi';
+
+/**
+ * Per-staff leave and partial-day absences ("Ayşe is on leave 12–19 May",
+ * "Mehmet leaves at 15:00 on Friday").
+ *
+ * Staff request time off for themselves and the owner (or anyone allowed to
+ * manage staff) approves it; entries created by a manager are approved right
+ * away. Only APPROVED entries block booking and slot listing, see
+ * AppointmentService.resolveBookingStaff and getPublicAvailableSlots. Once an
+ * entry is approved the manager can preview the appointments that fall into it
+ * and hand them to another staff member or cancel them in bulk.
+ */
+export class StaffTimeOffService {
+  constructor(
+    private readonly staffTimeOffRepository: StaffTimeOffRepository,
+    private readonly staffRepository: StaffRepository,
+    private readonly businessRepository: BusinessRepository,
+    private readonly staffReassignmentService: StaffReassignmentService,
+    private readonly rbacService: RBACService,
+    private readonly appointmentService: AppointmentService,
+    private readonly notificationGateway: UnifiedNotificationGateway
+  ) {}
+
+  /**
+   * Managers see every entry of the business; other staff only their own.
+   */
+  async getTimeOff(userId: string, businessId: string, query: StaffTimeOffQuery = {}): Promise<StaffTimeOffData[]> {
+    const { business, canManage, ownStaff } = await this.getAccess(userId, businessId);
+
+    const staffId = canManage ? query.staffId : ownStaff!.id;
+    const timezone = resolveTimezone(business.timezone);
+    return this.staffTimeOffRepository.findByBusiness(businessId, {
+      staffId,
+      status: query.status,
+      from: query.startDate ? createDateTimeInTimezone(query.startDate, '00:00', timezone) : undefined,
+      to: query.endDate ? resolveTimeOffWindow({ startDate: query.endDate }, timezone).endTime : undefined
+    });
+  }
+
+  async createTimeOff(
+    userId: string,
+    businessId: string,
+    request: CreateStaffTimeOffRequest
+  ): Promise<StaffTimeOffData> {
+    const { business, canManage, ownStaff } = await this.getAccess(userId, businessId);
+
+    let staffId: string;
+    if (request.staffId && request.staffId !== ownStaff?.id) {
+      if (!canManage) {
+        throw new AppError('BUSINESS_OWNER_REQUIRED', { message: 'Only managers can add time off for other staff members' });
+      }
+      const staff = await this.staffRepository.findById(request.staffId);
+      if (!staff || staff.businessId !== businessId || !staff.isActive) {
+        throw new AppError('STAFF_NOT_FOUND', { message: 'Staff member not found in this business' });
+      }
+      staffId = staff.id;
+    } else if (ownStaff) {
+      staffId = ownStaff.id;
+    } else {
+      throw new AppError('BUSINESS_STAFF_REQUIRED', { message: 'Choose the staff member the time off is for' });
+    }
+
+    const window = resolveTimeOffWindow(request, resolveTimezone(business.timezone));
+    if (window.endTime <= window.startTime) {
+      throw new AppError('STAFF_TIME_OFF_INVALID_RANGE', { message: 'Time off must end after it starts' });
+    }
+
+    const autoApprove = canManage;
+    const timeOff = await this.staffTimeOffRepository.create({
+      id: `sto_${randomUUID()}`,
+      businessId,
+      staffId,
+      type: request.type ?? 'VACATION',
+      startTime: window.startTime,
+      endTime: window.endTime,
+      isFullDay: window.isFullDay,
+      reason: request.reason,
+      status: autoApprove ? 'APPROVED' : 'PENDING',
+      requestedBy: userId,
+      ...(autoApprove ? { reviewedBy: userId, reviewedAt: new Date() } : {})
+    });
+
+    logger.info('Staff time off created', { timeOffId: timeOff.id, businessId, staffId, status: timeOff.status });
+
+    if (!autoApprove) {
+      await this.notify(business.ownerId, timeOff, 'İzin Talebi', `${this.staffName(timeOff)} ${this.describeRange(timeOff)} için izin talep etti.`);
+    }
+
+    return timeOff;
+  }
+
+  async approveTimeOff(userId: string, timeOffId: string, request: ReviewStaffTimeOffRequest = {}): Promise<StaffTimeOffData> {
+    return this.review(userId, timeOffId, 'APPROVED', request.note);
+  }
+
+  async rejectTimeOff(userId: string, timeOffId: string, request: ReviewStaffTimeOffRequest = {}): Promise<StaffTimeOffData> {
+    return this.review(userId, timeOffId, 'REJECTED', request.note);
+  }
+
+  /**
+   * The requester can withdraw their own entry and managers any entry, pending or
+   * approved. Appointments that were already moved are left where they are.
+   */
+  async cancelTimeOff(userId: string, timeOffId: string): Promise<StaffTimeOffData> {
+    const timeOff = await this.getTimeOffOrThrow(timeOffId);
+    const { canManage } = await this.getAccess(userId, timeOff.businessId);
+    if (!canManage && timeOff.requestedBy !== userId) {
+      throw new AppError('BUSINESS_OWNER_REQUIRED', { message: 'Only managers can cancel time off of other staff members' });
+    }
+
+    const moved = await this.staffTimeOffRepository.transition(timeOffId, ['PENDING', 'APPROVED'], { status: 'CANCELLED' });
+    if (!moved) {
+      throw this.invalidStatus(await this.getTimeOffOrThrow(timeOffId));
+    }
+
+    logger.info('Staff time off cancelled', { timeOffId, cancelledBy: userId });
+    return this.getTimeOffOrThrow(timeOffId);
+  }
+
+  /**
+   * Appointments of the absent staff member inside the time off, each with the
+   * staff members who provide the service and are free at that time.
+   */
+  async getAffectedAppointments(userId: string, timeOffId: string): Promise<TimeOffAffectedAppointment[]> {
+    const timeOff = await this.getTimeOffOrThrow(timeOffId);
+    await this.assertCanManage(userId, timeOff.businessId);
+
+    const appointments = await this.staffTimeOffRepository.findAffectedAppointments(
+      timeOff.staffId,
+      timeOff.startTime,
+      timeOff.endTime
+    );
+    if (appointments.length === 0) {
+      return [];
+    }
+
+    const staff = await this.staffRepository.findByBusinessId(timeOff.businessId);
+
+    const result: TimeOffAffectedAppointment[] = [];
+    for (const appointment of appointments) {
+      // Classes change instructor through the class itself
+      const availableStaff = appointment.classSessionId
+        ? []
+        : await this.staffReassignmentService.findFreeQualifiedStaff(timeOff.businessId, appointment, timeOff.staffId, staff);
+
+      result.push({
+        id: appointment.id,
+        customerName: `${appointment.customer.firstName || ''} ${appointment.customer.lastName || ''}`.trim(),
+        serviceId: appointment.serviceId,
+        serviceName: appointment.service.name,
+        startTime: appointment.startTime.toISOString(),
+        endTime: appointment.endTime.toISOString(),
+        status: appointment.status,
+        availableStaff: availableStaff.map((member) => ({
+          staffId: member.id,
+          name: `${member.user.firstName || ''} ${member.user.lastName || ''}`.trim()
+        }))
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Reassigns or cancels the chosen affected appointments one by one; failures are
+   * reported per appointment instead of aborting the rest.
+   */
+  async resolveAffectedAppointments(
+    userId: string,
+    timeOffId: string,
+    request: ResolveTimeOffAppointmentsRequest
+  ): Promise<ResolveTimeOffAppointmentsResult> {
+    const timeOff = await this.getTimeOffOrThrow(timeOffId);
+    await this.assertCanManage(userId, timeOff.businessId);
+    if (timeOff.status !== 'APPROVED') {
+      throw this.invalidStatus(timeOff);
+    }
+
+    const affected = await this.getAffectedAppointments(userId, timeOffId);
+    const affectedById = new Map(affected.map((appointment) => [appointment.id, appointment]));
+    const result: ResolveTimeOffAppointmentsResult = { reassigned: [], cancelled: [], failed: [] };
+
+    for (const appointmentId of request.appointmentIds) {
+      const appointment = affectedById.get(appointmentId);
+      if (!appointment) {
+        result.failed.push({ appointmentId, error: 'Appointment is not affected by this time off' });
+        continue;
+      }
+
+      try {
+        if (request.action === 'CANCEL') {
+          await this.appointmentService.cancelAppointment(userId, appointmentId, request.reason || DEFAULT_CANCEL_REASON);
+          result.cancelled.push(appointmentId);
+        } else {
+          const staffId = request.targetStaffId ?? appointment.availableStaff[0]?.staffId;
+          if (!staffId) {
+            result.failed.push({ appointmentId, error: 'No qualified staff member is free at this time' });
+            continue;
+          }
+          await this.appointmentService.reassignAppointmentStaff(userId, appointmentId, staffId, request.reason);
+          result.reassigned.push({ appointmentId, staffId });
+        }
+      } catch (error) {
+        result.failed.push({ appointmentId, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    logger.info('Staff time off appointments resolved', {
+      timeOffId,
+      action: request.action,
+      reassigned: result.reassigned.length,
+      cancelled: result.cancelled.length,
+      failed: result.failed.length
+    });
+
+    return result;
+  }
+
+  private async review(
+    userId: string,
+    timeOffId: string,
+    status: Extract<StaffTimeOffStatus, 'APPROVED' | 'REJECTED'>,
+    note?: string
+  ): Promise<StaffTimeOffData> {
+    const timeOff = await this.getTimeOffOrThrow(timeOffId);
+    await this.assertCanManage(userId, timeOff.businessId);
+
+    const moved = await this.staffTimeOffRepository.transition(timeOffId, ['PENDING'], {
+      status,
+      reviewedBy: userId,
+      reviewedAt: new Date(),
+      reviewNote: note
+    });
+    if (!moved) {
+      throw this.invalidStatus(await this.getTimeOffOrThrow(timeOffId));
+    }
+
+    const reviewed = await this.getTimeOffOrThrow(timeOffId);
+    logger.info('Staff time off reviewed', { timeOffId, status, reviewedBy: userId });
+
+    if (reviewed.requestedBy !== userId) {
+      const title = status === 'APPROVED' ? 'İzin Talebi Onaylandı' : 'İzin Talebi Reddedildi';
+      const body = status === 'APPROVED'
+        ? `${this.describeRange(reviewed)} izin talebiniz onaylandı.`
+        : `${this.describeRange(reviewed)} izin talebiniz reddedildi.${note ? ` Not: ${note}` : ''}`;
+      await this.notify(reviewed.requestedBy, reviewed, title, body);
+    }
+
+    return reviewed;
+  }
+
+  private async getAccess(userId: string, businessId: string) {
+    const business = await this.businessRepository.findById(businessId);
+    if (!business) {
+      throw new AppError('BUSINESS_NOT_FOUND', { message: 'Business not found' });
+    }
+
+    const ownStaff = await this.staffRepository.findByBusinessIdAndUserId(businessId, userId);
+    const canManage = business.ownerId === userId
+      || await this.rbacService.hasPermission(userId, 'staff', 'manage', { businessId });
+
+    if (!canManage && (!ownStaff || !ownStaff.isActive)) {
+      throw new AppError('NO_BUSINESS_ACCESS', { message: 'You do not have access to this business' });
+    }
+
+    return { business, canManage, ownStaff: ownStaff?.isActive ? ownStaff : null };
+  }
+
+  private async assertCanManage(userId: string, businessId: string): Promise<void> {
+    const { canManage } = await this.getAccess(userId, businessId);
+    if (!canManage) {
+      throw new AppError('BUSINESS_OWNER_REQUIRED', { message: 'Only business owners can manage staff time off' });
+    }
+  }
+
+  private async getTimeOffOrThrow(timeOffId: string): Promise<StaffTimeOffData> {
+    const timeOff = await this.staffTimeOffRepository.findById(timeOffId);
+    if (!timeOff) {
+      throw new AppError('STAFF_TIME_OFF_NOT_FOUND', { message: 'Time off not found' });
+    }
+    return timeOff;
+  }
+
+  private invalidStatus(timeOff: StaffTimeOffData): AppError {
+    return new AppError('STAFF_TIME_OFF_INVALID_STATUS', {
+      message: `Time off is ${timeOff.status.toLowerCase()}`,
+      params: { status: timeOff.status }
+    });
+  }
+
+  private async notify(recipientId: string, timeOff: StaffTimeOffData, title: string, body: string): Promise<void> {
+    try {
+      await this.notificationGateway.sendSystemAlert({
+        businessId: timeOff.businessId,
+        userId: recipientId,
+        title,
+        body,
+        data: { type: 'staff_time_off', timeOffId: timeOff.id, status: timeOff.status },
+        url: `/staff-time-off/${timeOff.id}`
+      });
+    } catch (error) {
+      logger.error('Failed to send staff time off notification', { timeOffId: timeOff.id, error });
+    }
+  }
+
+  private staffName(timeOff: StaffTimeOffData): string {
+    return `${timeOff.staff?.firstName || ''} ${timeOff.staff?.lastName || ''}`.trim() || 'Personel';
+  }
+
+  private describeRange(timeOff: StaffTimeOffData): string {
+    const format = (date: Date) => date.toLocaleString('tr-TR', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      ...(timeOff.isFullDay ? {} : { hour: '2-digit', minute: '2-digit' }),
+      timeZone: 'Europe/Istanbul'
+    });
+    // Full-day entries end at midnight after the last day
+    const lastInstant = timeOff.isFullDay ? new Date(timeOff.endTime.getTime() - 1) : timeOff.endTime;
+    return `${format(timeOff.startTime)} - ${format(lastInstant)}`;
+  }
+}
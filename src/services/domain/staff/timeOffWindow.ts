@@ -0,0 +1,45 @@
+/**
+ * Turns a time-off request given in calendar days of the business's timezone into
+ * the instants it blocks. Kept pure so booking, slot listing and the time-off flow
+ * agree on it.
+ */
+
+import {
+  addDaysToDateString,
+  createDateTimeInTimezone,
+  DEFAULT_BUSINESS_TIMEZONE
+} from '../../../utils/timezoneHelper';
+
+export interface TimeOffWindow {
+  startTime: Date;
+  endTime: Date;
+  isFullDay: boolean;
+}
+
+/**
+ * [startDate startTime, endDate endTime); a missing start time means the start
+ * of the first day and a missing end time the end of the last day.
+ */
+export function resolveTimeOffWindow(request: {
+  startDate: string;
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
+}, timezone: string = DEFAULT_BUSINESS_TIMEZONE): TimeOffWindow {
+  const endDate = request.endDate || request.startDate;
+  const startTime = createDateTimeInTimezone(request.startDate, request.startTime || '00:00', timezone);
+  const endTime = request.endTime
+    ? createDateTimeInTimezone(endDate, request.endTime, timezone)
+    : createDateTimeInTimezone(addDaysToDateString(endDate, 1), '00:00', timezone);
+
+  return { startTime, endTime, isFullDay: !request.startTime && !request.endTime };
+}
+
+/** True when [start, end) intersects any of the time-off entries */
+export function isDuringTimeOff(
+  timeOff: Array<{ startTime: Date; endTime: Date }>,
+  start: Date,
+  end: Date
+): boolean {
+  return timeOff.some((entry) => entry.startTime < end && entry.endTime > start);
+}
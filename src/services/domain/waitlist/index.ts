@@ -0,0 +1,5 @@
+// Waitlist Domain Services
+export {
+  WaitlistService,
+  WAITLIST_OFFER_HOLD_MINUTES
+} from './waitlistService';
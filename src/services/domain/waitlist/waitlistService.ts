@@ -0,0 +1,461 @@
+import { randomUUID } from 'crypto';
+import { AppointmentData } from '../../../types/business';
+import {
+  FreedSlot,
+  JoinWaitlistRequest,
+  WaitlistDayView,
+  WaitlistEntryData,
+  WaitlistOfferData
+} from '../../../types/waitlist';
+import { AppointmentRepository } from '../../../repositories/appointmentRepository';
+import { BusinessRepository } from '../../../repositories/businessRepository';
+import { ServiceRepository } from '../../../repositories/serviceRepository';
+import { PrismaUserRepository } from '../../../repositories/userRepository';
+import { WaitlistRepository } from '../../../repositories/waitlistRepository';
+import { ERROR_CODES } from '../../../constants/errorCodes';
+import { PermissionName } from '../../../types/auth';
+import { AppError } from '../../../types/responseTypes';
+import logger from '../../../utils/Logger/logger';
+import { WaitlistMessages } from '../../../utils/smsMessageTemplates';
+import {
+  createCalendarDate,
+  createDateTimeInIstanbul,
+  createDateTimeInTimezone,
+  formatDateForAPI,
+  formatDateInTimezone,
+  formatTimeInTimezone,
+  getCurrentTimeInIstanbul,
+  resolveTimezone
+} from '../../../utils/timezoneHelper';
+import { AppointmentService } from '../appointment';
+import { UnifiedNotificationGateway } from '../notification/unifiedNotificationGateway';
+
+/** How long a freed slot is held for the offered customer before moving on. */
+export const WAITLIST_OFFER_HOLD_MINUTES = 15;
+
+/** Longest date window a customer can wait for. */
+export const WAITLIST_MAX_WINDOW_DAYS = 30;
+
+const OPEN_ENTRY_STATUSES = ['WAITING', 'OFFERED'];
+
+function roundUpToFiveMinutes(date: Date): Date {
+  const step = 5 * 60000;
+  return new Date(Math.ceil(date.getTime() / step) * step);
+}
+
+/**
+ * Waitlist for fully booked days.
+ *
+ * Customers join for a service (optionally a staff member) and a date/time
+ * window. When AppointmentService releases a slot (cancel, reject, no-show) the
+ * slot is offered to the first matching entry in join order and held for
+ * WAITLIST_OFFER_HOLD_MINUTES; while the hold is active the slot is unavailable
+ * to everybody else. If the customer declines or lets the hold run out
+ * (ExpireWaitlistOffersJob), the same slot is offered to the next entry.
+ */
+export class WaitlistService {
+  constructor(
+    private readonly waitlistRepository: WaitlistRepository,
+    private readonly appointmentRepository: AppointmentRepository,
+    private readonly serviceRepository: ServiceRepository,
+    private readonly businessRepository: BusinessRepository,
+    private readonly userRepository: PrismaUserRepository,
+    private readonly appointmentService: AppointmentService,
+    private readonly notificationGateway: UnifiedNotificationGateway
+  ) {}
+
+  async joinWaitlist(userId: string, data: JoinWaitlistRequest): Promise<WaitlistEntryData> {
+    const service = await this.serviceRepository.findById(data.serviceId);
+    if (!service || !service.isActive || service.businessId !== data.businessId) {
+      throw new AppError(
+        'Service not found or inactive',
+        400,
+        ERROR_CODES.APPOINTMENT_SERVICE_UNAVAILABLE
+      );
+    }
+
+    if (data.staffId) {
+      const staffIds = await this.serviceRepository.getServiceStaffIds(data.serviceId);
+      if (!staffIds.includes(data.staffId)) {
+        throw new AppError('Staff member does not provide this service', 400, ERROR_CODES.STAFF_NOT_FOUND);
+      }
+    }
+
+    const today = formatDateInTimezone(new Date(), await this.getBusinessTimezone(data.businessId));
+    const windowDays = Math.round(
+      (Date.parse(`${data.dateTo}T00:00:00Z`) - Date.parse(`${data.dateFrom}T00:00:00Z`)) / 86400000
+    );
+    if (data.dateFrom < today || windowDays < 0 || windowDays >= WAITLIST_MAX_WINDOW_DAYS) {
+      throw new AppError(
+        'Waitlist dates must start today or later and span at most the allowed window',
+        400,
+        ERROR_CODES.WAITLIST_INVALID_WINDOW,
+        true,
+        { maxDays: WAITLIST_MAX_WINDOW_DAYS }
+      );
+    }
+    if (data.earliestTime && data.latestTime && data.earliestTime >= data.latestTime) {
+      throw new AppError('Earliest time must be before latest time', 400, ERROR_CODES.WAITLIST_INVALID_WINDOW);
+    }
+
+    const existing = await this.waitlistRepository.findOpenEntry(userId, data.serviceId);
+    if (existing) {
+      throw new AppError(
+        'Already on the waitlist for this service',
+        409,
+        ERROR_CODES.WAITLIST_ALREADY_JOINED,
+        true,
+        { entryId: existing.id }
+      );
+    }
+
+    return this.waitlistRepository.createEntry({
+      id: `wl_${randomUUID()}`,
+      businessId: data.businessId,
+      serviceId: data.serviceId,
+      staffId: data.staffId,
+      customerId: userId,
+      dateFrom: createCalendarDate(data.dateFrom),
+      dateTo: createCalendarDate(data.dateTo),
+      earliestTime: data.earliestTime,
+      latestTime: data.latestTime,
+      notes: data.notes
+    });
+  }
+
+  async leaveWaitlist(userId: string, entryId: string): Promise<WaitlistEntryData> {
+    const entry = await this.getOwnEntry(userId, entryId);
+    if (!OPEN_ENTRY_STATUSES.includes(entry.status)) {
+      throw new AppError('Waitlist entry is no longer active', 409, ERROR_CODES.WAITLIST_ENTRY_CLOSED);
+    }
+
+    const updated = await this.waitlistRepository.updateEntry(entryId, { status: 'CANCELED' });
+
+    // Release a held slot right away instead of letting it sit until the hold expires
+    const pendingOffer = await this.waitlistRepository.findPendingOfferForEntry(entryId);
+    if (pendingOffer) {
+      await this.waitlistRepository.updateOffer(pendingOffer.id, {
+        status: 'DECLINED',
+        respondedAt: new Date()
+      });
+      await this.reofferSlot(pendingOffer);
+    }
+
+    return updated;
+  }
+
+  async getMyWaitlist(userId: string): Promise<WaitlistEntryData[]> {
+    return this.waitlistRepository.findEntriesByCustomer(userId);
+  }
+
+  async getBusinessWaitlistForDay(
+    userId: string,
+    businessId: string,
+    date: string,
+    staffId?: string
+  ): Promise<WaitlistDayView> {
+    await this.appointmentService.assertBusinessAppointmentAccess(
+      userId,
+      businessId,
+      PermissionName.VIEW_ALL_APPOINTMENTS,
+      PermissionName.VIEW_OWN_APPOINTMENTS
+    );
+
+    const entries = await this.waitlistRepository.findEntriesForDay(
+      businessId,
+      createCalendarDate(date),
+      staffId
+    );
+    const pendingOffers = entries.filter(entry =>
+      (entry.offers || []).some(offer => offer.status === 'PENDING')
+    ).length;
+
+    return { date, entries, pendingOffers };
+  }
+
+  /** Books the held slot for the customer; the hold itself lets createAppointment through. */
+  async acceptOffer(userId: string, offerId: string): Promise<{ offer: WaitlistOfferData; appointment: AppointmentData }> {
+    const { offer, entry } = await this.getOwnPendingOffer(userId, offerId);
+
+    const timezone = await this.getBusinessTimezone(offer.businessId);
+    const appointment = await this.appointmentService.createAppointment(userId, {
+      businessId: offer.businessId,
+      serviceId: offer.serviceId,
+      staffId: offer.staffId,
+      date: formatDateInTimezone(offer.startTime, timezone),
+      startTime: formatTimeInTimezone(offer.startTime, timezone),
+      customerNotes: entry.notes
+    });
+
+    const accepted = await this.waitlistRepository.updateOffer(offer.id, {
+      status: 'ACCEPTED',
+      respondedAt: new Date(),
+      appointmentId: appointment.id
+    });
+    await this.waitlistRepository.updateEntry(entry.id, {
+      status: 'BOOKED',
+      appointmentId: appointment.id
+    });
+
+    return { offer: accepted, appointment };
+  }
+
+  /** The customer stays on the waitlist; the slot moves on to the next person. */
+  async declineOffer(userId: string, offerId: string): Promise<WaitlistOfferData> {
+    const { offer, entry } = await this.getOwnPendingOffer(userId, offerId);
+
+    const declined = await this.waitlistRepository.updateOffer(offer.id, {
+      status: 'DECLINED',
+      respondedAt: new Date()
+    });
+    await this.waitlistRepository.updateEntry(entry.id, { status: 'WAITING' });
+    await this.reofferSlot(offer);
+
+    return declined;
+  }
+
+  /** Listener for AppointmentService.onSlotReleased. */
+  async handleSlotReleased(appointment: AppointmentData): Promise<void> {
+    if (new Date(appointment.endTime) <= new Date()) {
+      return;
+    }
+
+    await this.offerFreedSlot({
+      businessId: appointment.businessId,
+      serviceId: appointment.serviceId,
+      staffId: appointment.staffId,
+      startTime: new Date(appointment.startTime),
+      endTime: new Date(appointment.endTime),
+      sourceAppointmentId: appointment.id
+    });
+  }
+
+  /**
+   * Offers a freed slot to the first waiting entry it fits, skipping entries that
+   * were already offered this slot. Returns null when nobody matches or the slot
+   * was taken in the meantime.
+   */
+  async offerFreedSlot(slot: FreedSlot): Promise<WaitlistOfferData | null> {
+    const timezone = await this.getBusinessTimezone(slot.businessId);
+    const dayStr = formatDateInTimezone(slot.startTime, timezone);
+    const day = createCalendarDate(dayStr);
+    const alreadyOffered = await this.waitlistRepository.findEntryIdsOfferedForSource(slot.sourceAppointmentId);
+    const candidates = await this.waitlistRepository.findOfferCandidates(slot.businessId, day, alreadyOffered);
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    // Customers cannot accept an offer in the past; leave them the hold time to react
+    const earliestStart = roundUpToFiveMinutes(
+      new Date(Date.now() + WAITLIST_OFFER_HOLD_MINUTES * 60000)
+    );
+    const staffServicesCache = new Map<string, string[]>();
+
+    for (const entry of candidates) {
+      if (entry.staffId && entry.staffId !== slot.staffId) {
+        continue;
+      }
+      if (!(await this.staffCanServe(slot, entry.serviceId, staffServicesCache))) {
+        continue;
+      }
+
+      const duration = entry.service?.duration;
+      if (!duration) {
+        continue;
+      }
+
+      const startCandidates = [slot.startTime, earliestStart];
+      if (entry.earliestTime) {
+        startCandidates.push(createDateTimeInTimezone(dayStr, entry.earliestTime, timezone));
+      }
+      const startTime = new Date(Math.max(...startCandidates.map(d => d.getTime())));
+      const endTime = new Date(startTime.getTime() + duration * 60000);
+
+      if (endTime > slot.endTime) {
+        continue;
+      }
+      if (entry.latestTime && startTime > createDateTimeInTimezone(dayStr, entry.latestTime, timezone)) {
+        continue;
+      }
+
+      if (!(await this.isWindowFree(slot, day, startTime, endTime))) {
+        return null;
+      }
+
+      const offer = await this.waitlistRepository.createOffer({
+        id: `wlo_${randomUUID()}`,
+        entryId: entry.id,
+        businessId: slot.businessId,
+        serviceId: entry.serviceId,
+        staffId: slot.staffId,
+        sourceAppointmentId: slot.sourceAppointmentId,
+        startTime,
+        endTime,
+        expiresAt: new Date(Date.now() + WAITLIST_OFFER_HOLD_MINUTES * 60000)
+      });
+      await this.waitlistRepository.updateEntry(entry.id, { status: 'OFFERED' });
+
+      await this.sendOfferNotification(entry, offer);
+      return offer;
+    }
+
+    return null;
+  }
+
+  /**
+   * Expires holds that ran out, offers their slot to the next entry and closes
+   * entries whose date window has passed. Run every minute by ExpireWaitlistOffersJob.
+   */
+  async expireOffers(): Promise<{ expiredOffers: number; reoffered: number; expiredEntries: number }> {
+    const expired = await this.waitlistRepository.findExpiredPendingOffers(new Date());
+    let reoffered = 0;
+
+    for (const offer of expired) {
+      try {
+        await this.waitlistRepository.updateOffer(offer.id, { status: 'EXPIRED' });
+        const entry = await this.waitlistRepository.findEntryById(offer.entryId);
+        if (entry?.status === 'OFFERED') {
+          await this.waitlistRepository.updateEntry(entry.id, { status: 'WAITING' });
+        }
+        if (await this.reofferSlot(offer)) {
+          reoffered++;
+        }
+      } catch (error) {
+        logger.error('Failed to expire waitlist offer', { offerId: offer.id, error });
+      }
+    }
+
+    const today = createDateTimeInIstanbul(formatDateForAPI(getCurrentTimeInIstanbul()), '00:00');
+    const expiredEntries = await this.waitlistRepository.expireEndedEntries(today);
+
+    return { expiredOffers: expired.length, reoffered, expiredEntries };
+  }
+
+  /** Offers the slot behind an answered or expired offer to the next entry in line. */
+  private async reofferSlot(offer: WaitlistOfferData): Promise<WaitlistOfferData | null> {
+    if (!offer.sourceAppointmentId) {
+      return null;
+    }
+
+    // Prefer the full freed window of the source appointment over the narrower offer window
+    const source = await this.appointmentRepository.findById(offer.sourceAppointmentId);
+    const slot: FreedSlot = {
+      businessId: offer.businessId,
+      serviceId: source?.serviceId || offer.serviceId,
+      staffId: offer.staffId,
+      startTime: source ? new Date(source.startTime) : offer.startTime,
+      endTime: source ? new Date(source.endTime) : offer.endTime,
+      sourceAppointmentId: offer.sourceAppointmentId
+    };
+
+    if (slot.endTime <= new Date()) {
+      return null;
+    }
+    return this.offerFreedSlot(slot);
+  }
+
+  /**
+   * An entry for a different service can take the slot when the freed staff member
+   * also provides that service; unassigned slots only go to the same service.
+   */
+  private async staffCanServe(
+    slot: FreedSlot,
+    serviceId: string,
+    cache: Map<string, string[]>
+  ): Promise<boolean> {
+    if (serviceId === slot.serviceId) {
+      return true;
+    }
+    if (!slot.staffId) {
+      return false;
+    }
+
+    let staffIds = cache.get(serviceId);
+    if (!staffIds) {
+      staffIds = await this.serviceRepository.getServiceStaffIds(serviceId);
+      cache.set(serviceId, staffIds);
+    }
+    return staffIds.includes(slot.staffId);
+  }
+
+  private async getBusinessTimezone(businessId: string): Promise<string> {
+    const business = await this.businessRepository.findById(businessId);
+    return resolveTimezone(business?.timezone);
+  }
+
+  private async isWindowFree(slot: FreedSlot, day: Date, startTime: Date, endTime: Date): Promise<boolean> {
+    const conflicts = await this.appointmentRepository.findConflictingAppointments(
+      slot.businessId,
+      day,
+      startTime,
+      endTime,
+      slot.staffId
+    );
+    if (conflicts.length > 0) {
+      return false;
+    }
+
+    const holds = await this.waitlistRepository.findActiveHolds(slot.businessId, startTime, endTime, slot.staffId);
+    return holds.length === 0;
+  }
+
+  private async getOwnEntry(userId: string, entryId: string): Promise<WaitlistEntryData> {
+    const entry = await this.waitlistRepository.findEntryById(entryId);
+    // Someone else's entry is reported as missing rather than forbidden
+    if (!entry || entry.customerId !== userId) {
+      throw new AppError('Waitlist entry not found', 404, ERROR_CODES.WAITLIST_ENTRY_NOT_FOUND);
+    }
+    return entry;
+  }
+
+  private async getOwnPendingOffer(
+    userId: string,
+    offerId: string
+  ): Promise<{ offer: WaitlistOfferData; entry: WaitlistEntryData }> {
+    const offer = await this.waitlistRepository.findOfferById(offerId);
+    const entry = offer ? await this.waitlistRepository.findEntryById(offer.entryId) : null;
+    if (!offer || !entry || entry.customerId !== userId) {
+      throw new AppError('Waitlist offer not found', 404, ERROR_CODES.WAITLIST_OFFER_NOT_FOUND);
+    }
+
+    if (offer.status !== 'PENDING' || offer.expiresAt <= new Date()) {
+      throw new AppError(
+        'This offer has expired or was already answered',
+        409,
+        ERROR_CODES.WAITLIST_OFFER_EXPIRED
+      );
+    }
+
+    return { offer, entry };
+  }
+
+  private async sendOfferNotification(entry: WaitlistEntryData, offer: WaitlistOfferData): Promise<void> {
+    try {
+      const [customer, business, service] = await Promise.all([
+        this.userRepository.findById(entry.customerId),
+        this.businessRepository.findById(entry.businessId),
+        this.serviceRepository.findById(entry.serviceId)
+      ]);
+      if (!customer?.phoneNumber || !business || !service) {
+        return;
+      }
+
+      const message = WaitlistMessages.slotOffer({
+        customerName: customer.firstName || '',
+        businessName: business.name,
+        serviceName: service.name,
+        appointmentDate: offer.startTime.toLocaleDateString('tr-TR', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'Europe/Istanbul' }),
+        appointmentTime: offer.startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/Istanbul' }),
+        holdMinutes: WAITLIST_OFFER_HOLD_MINUTES,
+        offerLink: `https://randevubu.com/waitlist/offers/${offer.id}`
+      });
+
+      await this.notificationGateway.sendCriticalSMS(customer.phoneNumber, message, {
+        requestId: `waitlist-offer-${offer.id}`
+      });
+    } catch (error) {
+      // The hold still protects the slot; the customer can see the offer in their waitlist
+      logger.error('Failed to send waitlist offer SMS', { offerId: offer.id, error });
+    }
+  }
+}
@@ -8,17 +8,36 @@ import { TokenService } from './domain/token';
 import { RBACService } from './domain/rbac';
 import { RoleService } from './domain/staff';
 import { BusinessService } from './domain/business';
-import { BusinessTypeService, OfferingService } from './domain/offering';
-import { AppointmentService, AppointmentRescheduleService } from './domain/appointment';
+import { BusinessTypeService, IntakeFormService, OfferingService, ResourceService, SessionPackageService } from './domain/offering';
+import {
+  AppointmentService,
+  AppointmentApprovalService,
+  AppointmentCheckInService,
+  AppointmentDepositService,
+  AppointmentRescheduleService,
+  AppointmentSeriesService,
+  AvailabilitySearchService,
+  ClassSessionService,
+  SlotHoldService,
+} from './domain/appointment';
 import { UserBehaviorService } from './domain/userBehavior';
+import { WaitlistService } from './domain/waitlist';
+import { WalkInQueueService } from './domain/queue';
+import { BusinessImportService } from './domain/import';
 import { BusinessClosureService, ClosureAnalyticsService } from './domain/closure';
 import { SubscriptionService, SubscriptionSchedulerService } from './domain/subscription';
 import { PaymentService } from './domain/payment';
 import { PaymentRetryService } from './domain/payment/paymentRetryService';
 import { NotificationService } from './domain/notification';
-import { DiscountCodeService } from './domain/discount';
+import { DiscountCodeService, GiftCardService } from './domain/discount';
 import { UsageService } from './domain/usage';
-import { StaffService } from './domain/staff';
+import {
+  StaffExternalCalendarService,
+  StaffReassignmentService,
+  StaffService,
+  StaffTimeOffService,
+} from './domain/staff';
+import { CalendarFeedService } from './domain/calendar';
 import { PricingTierService } from './domain/pricing/pricingTierService';
 import { IPGeolocationService } from './domain/geolocation/ipGeolocationService';
 import { DailyNotebookService } from './domain/dailyNotebook';
@@ -42,7 +61,16 @@ import Logger from '../utils/Logger/logger';
 
 // Import job infrastructure
 import { JobScheduler, jobMetrics } from '../jobs/base';
-import { AutoCompleteAppointmentsJob, SendAppointmentRemindersJob } from '../jobs/appointment';
+import {
+  AutoCompleteAppointmentsJob,
+  ExpireApprovalRequestsJob,
+  ExpireUnpaidDepositsJob,
+  ExpireWaitlistOffersJob,
+  MarkNoShowsJob,
+  MaterializeAppointmentSeriesJob,
+  SendAppointmentRemindersJob,
+} from '../jobs/appointment';
+import { ImportStaffExternalCalendarsJob } from '../jobs/staff';
 import { ResetMonthlyCountsJob } from '../jobs/user';
 
 // Service container for dependency injection
@@ -56,20 +84,38 @@ export class ServiceContainer {
   public readonly businessService: BusinessService;
   public readonly businessTypeService: BusinessTypeService;
   public readonly offeringService: OfferingService;
+  public readonly resourceService: ResourceService;
+  public readonly intakeFormService: IntakeFormService;
+  public readonly sessionPackageService: SessionPackageService;
   public readonly appointmentService: AppointmentService;
+  public readonly appointmentApprovalService: AppointmentApprovalService;
+  public readonly appointmentCheckInService: AppointmentCheckInService;
+  public readonly appointmentSeriesService: AppointmentSeriesService;
+  public readonly classSessionService: ClassSessionService;
+  public readonly slotHoldService: SlotHoldService;
+  public readonly availabilitySearchService: AvailabilitySearchService;
+  public readonly waitlistService: WaitlistService;
+  public readonly walkInQueueService: WalkInQueueService;
+  public readonly businessImportService: BusinessImportService;
   public readonly userBehaviorService: UserBehaviorService;
   public readonly businessClosureService: BusinessClosureService;
   public readonly subscriptionService: SubscriptionService;
   public readonly paymentService: PaymentService;
+  public readonly appointmentDepositService: AppointmentDepositService;
   public readonly paymentRetryService: PaymentRetryService;
   public readonly notificationService: NotificationService;
   public readonly notificationGateway!: UnifiedNotificationGateway;
   public readonly closureAnalyticsService: ClosureAnalyticsService;
   public readonly appointmentRescheduleService: AppointmentRescheduleService;
   public readonly discountCodeService: DiscountCodeService;
+  public readonly giftCardService: GiftCardService;
   public readonly usageService: UsageService;
   public readonly subscriptionSchedulerService: SubscriptionSchedulerService;
   public readonly staffService: StaffService;
+  public readonly staffTimeOffService: StaffTimeOffService;
+  public readonly staffExternalCalendarService: StaffExternalCalendarService;
+  public readonly staffReassignmentService: StaffReassignmentService;
+  public readonly calendarFeedService: CalendarFeedService;
   public readonly startupService: StartupService;
   public readonly pricingTierService: PricingTierService;
   public readonly dailyNotebookService: DailyNotebookService;
@@ -135,6 +181,20 @@ export class ServiceContainer {
       this.usageService,
       this.cacheService
     );
+    this.resourceService = new ResourceService(
+      repositories.resourceRepository,
+      repositories.serviceRepository,
+      this.rbacService,
+      this.cacheService
+    );
+    this.intakeFormService = new IntakeFormService(
+      repositories.intakeFormRepository,
+      repositories.serviceRepository,
+      repositories.appointmentRepository,
+      repositories.staffRepository,
+      repositories.businessRepository,
+      this.rbacService
+    );
 
     // Translation service (needed by notification service)
     this.translationService = new TranslationService();
@@ -160,6 +220,14 @@ export class ServiceContainer {
     );
     (this as any).notificationGateway = unifiedNotificationGateway;
 
+    // Checkout slot holds (Redis) — read by the appointment service for slots and booking
+    this.slotHoldService = new SlotHoldService(
+      cacheManager,
+      repositories.appointmentRepository,
+      repositories.serviceRepository,
+      repositories.businessRepository
+    );
+
     // Create appointment service with all dependencies injected
     this.appointmentService = new AppointmentService(
       repositories.appointmentRepository,
@@ -174,8 +242,80 @@ export class ServiceContainer {
       repositories,
       cancellationPolicyService,
       unifiedNotificationGateway,
+      this.prisma,
+      this.slotHoldService
+    );
+    this.appointmentApprovalService = new AppointmentApprovalService(
+      repositories.appointmentRepository,
+      this.appointmentService,
+      unifiedNotificationGateway
+    );
+    this.appointmentCheckInService = new AppointmentCheckInService(
+      repositories.appointmentRepository,
+      repositories.businessRepository,
+      repositories.userBehaviorRepository,
+      this.rbacService,
+      this.appointmentService,
+      cancellationPolicyService
+    );
+    this.availabilitySearchService = new AvailabilitySearchService(
+      this.appointmentService,
+      repositories.serviceRepository,
+      repositories.staffRepository,
+      repositories.businessRepository,
+      this.cacheService
+    );
+    this.appointmentSeriesService = new AppointmentSeriesService(
+      repositories.appointmentSeriesRepository,
+      repositories.appointmentRepository,
+      repositories.serviceRepository,
+      repositories.businessRepository,
+      repositories.businessClosureRepository,
+      this.appointmentService,
+      this.usageService,
+      this.prisma
+    );
+    this.classSessionService = new ClassSessionService(
+      repositories.classSessionRepository,
+      repositories.appointmentRepository,
+      repositories.serviceRepository,
+      repositories.staffRepository,
+      repositories.userRepository,
+      repositories.businessRepository,
+      repositories.businessClosureRepository,
+      this.appointmentService,
+      unifiedNotificationGateway,
       this.prisma
     );
+    this.waitlistService = new WaitlistService(
+      repositories.waitlistRepository,
+      repositories.appointmentRepository,
+      repositories.serviceRepository,
+      repositories.businessRepository,
+      repositories.userRepository,
+      this.appointmentService,
+      unifiedNotificationGateway
+    );
+    this.appointmentService.onSlotReleased((appointment) =>
+      this.waitlistService.handleSlotReleased(appointment)
+    );
+    this.walkInQueueService = new WalkInQueueService(
+      repositories.walkInQueueRepository,
+      repositories.staffRepository,
+      repositories.serviceRepository,
+      repositories.businessRepository,
+      repositories.userRepository,
+      this.rbacService,
+      this.appointmentService,
+      unifiedNotificationGateway
+    );
+    this.businessImportService = new BusinessImportService(
+      repositories,
+      this.offeringService,
+      this.appointmentService,
+      this.usageService,
+      this.rbacService
+    );
     this.userBehaviorService = new UserBehaviorService(
       repositories.userBehaviorRepository,
       this.rbacService
@@ -229,6 +369,49 @@ export class ServiceContainer {
       canApplyToPayment: this.discountCodeService.canApplyToPayment.bind(this.discountCodeService),
     });
 
+    // Booking deposits are charged through the payment service, so they are created after it
+    this.appointmentDepositService = new AppointmentDepositService(
+      repositories.appointmentPaymentRepository,
+      repositories.appointmentRepository,
+      repositories.serviceRepository,
+      repositories.businessRepository,
+      repositories.userRepository,
+      this.appointmentService,
+      this.paymentService,
+      cancellationPolicyService
+    );
+    this.appointmentService.onAppointmentEnded(async (appointment, reason) => {
+      await this.appointmentDepositService.settleDeposit(appointment, reason);
+    });
+
+    this.sessionPackageService = new SessionPackageService(
+      repositories.sessionPackageRepository,
+      repositories.serviceRepository,
+      repositories.userRepository,
+      this.rbacService,
+      cancellationPolicyService
+    );
+    this.appointmentService.onAppointmentEnded(async (appointment, reason) => {
+      await this.sessionPackageService.settleCredit(appointment, reason);
+    });
+    this.appointmentService.onAppointmentCompleted(async (appointment) => {
+      await this.sessionPackageService.useCredit(appointment);
+    });
+
+    this.giftCardService = new GiftCardService(
+      repositories.giftCardRepository,
+      repositories.appointmentRepository,
+      repositories.appointmentPaymentRepository,
+      repositories.sessionPackageRepository,
+      repositories.userRepository,
+      this.rbacService,
+      this.appointmentService,
+      cancellationPolicyService
+    );
+    this.appointmentService.onAppointmentEnded(async (appointment, reason) => {
+      await this.giftCardService.refundRedemptions(appointment, reason);
+    });
+
     // Create payment retry service
     this.paymentRetryService = new PaymentRetryService(
       this.prisma,
@@ -251,7 +434,10 @@ export class ServiceContainer {
       repositories.serviceRepository,
       repositories.workingHoursRepository,
       repositories.rescheduleSuggestionRepository,
-      this.notificationService
+      this.notificationService,
+      repositories.staffTimeOffRepository,
+      repositories.staffExternalCalendarRepository,
+      repositories.appointmentStatusChangeRepository
     );
 
     // Subscription scheduler service
@@ -266,8 +452,50 @@ export class ServiceContainer {
       repositories,
       this.phoneVerificationService,
       this.rbacService,
-      this.usageService
+      this.usageService,
+      this.offeringService
     );
+    this.staffReassignmentService = new StaffReassignmentService(
+      repositories.staffRepository,
+      repositories.serviceRepository,
+      repositories.appointmentRepository,
+      repositories.staffTimeOffRepository,
+      repositories.staffExternalCalendarRepository,
+      repositories.businessRepository,
+      repositories.userRepository,
+      this.rbacService,
+      this.appointmentService,
+      this.appointmentRescheduleService,
+      unifiedNotificationGateway
+    );
+    this.staffService.onStaffRemoved((staff, removedBy) =>
+      this.staffReassignmentService.handleStaffRemoved(staff, removedBy)
+    );
+    this.staffTimeOffService = new StaffTimeOffService(
+      repositories.staffTimeOffRepository,
+      repositories.staffRepository,
+      repositories.businessRepository,
+      this.staffReassignmentService,
+      this.rbacService,
+      this.appointmentService,
+      unifiedNotificationGateway
+    );
+    this.staffExternalCalendarService = new StaffExternalCalendarService(
+      repositories.staffExternalCalendarRepository,
+      repositories.staffRepository,
+      repositories.businessRepository,
+      this.rbacService
+    );
+    this.staffService.onStaffRemoved((staff) => this.staffExternalCalendarService.handleStaffRemoved(staff));
+    this.calendarFeedService = new CalendarFeedService(
+      repositories.calendarFeedRepository,
+      repositories.appointmentRepository,
+      repositories.businessClosureRepository,
+      repositories.businessRepository,
+      repositories.staffRepository,
+      this.appointmentService
+    );
+    this.staffService.onStaffRemoved((staff) => this.calendarFeedService.handleStaffRemoved(staff));
 
     // Startup service
     this.startupService = new StartupService(this.prisma);
@@ -317,6 +545,54 @@ export class ServiceContainer {
       enabled: true,
     });
 
+    // Register recurring series materialisation job — runs daily at 03:00
+    const materializeSeriesJob = new MaterializeAppointmentSeriesJob(this.appointmentSeriesService);
+    this.jobScheduler.register(materializeSeriesJob, {
+      schedule: '0 3 * * *',
+      timezone: 'Europe/Istanbul',
+      enabled: true,
+    });
+
+    // Register waitlist offer expiry job — moves expired holds on to the next customer
+    const expireWaitlistOffersJob = new ExpireWaitlistOffersJob(this.waitlistService);
+    this.jobScheduler.register(expireWaitlistOffersJob, {
+      schedule: '* * * * *', // Every minute
+      timezone: 'Europe/Istanbul',
+      enabled: true,
+    });
+
+    // Register unpaid deposit expiry job — frees slots of bookings that were never paid
+    const expireUnpaidDepositsJob = new ExpireUnpaidDepositsJob(this.appointmentDepositService);
+    this.jobScheduler.register(expireUnpaidDepositsJob, {
+      schedule: '* * * * *', // Every minute
+      timezone: 'Europe/Istanbul',
+      enabled: true,
+    });
+
+    // Register no-show job — marks appointments nobody checked in for once their grace period passes
+    const markNoShowsJob = new MarkNoShowsJob(this.appointmentCheckInService);
+    this.jobScheduler.register(markNoShowsJob, {
+      schedule: '* * * * *', // Every minute
+      timezone: 'Europe/Istanbul',
+      enabled: true,
+    });
+
+    // Register approval timeout job — escalates or rejects requests left unhandled too long
+    const expireApprovalRequestsJob = new ExpireApprovalRequestsJob(this.appointmentApprovalService);
+    this.jobScheduler.register(expireApprovalRequestsJob, {
+      schedule: '*/5 * * * *', // Every 5 minutes
+      timezone: 'Europe/Istanbul',
+      enabled: true,
+    });
+
+    // Register external calendar import job — keeps staff busy time from outside calendars fresh
+    const importStaffExternalCalendarsJob = new ImportStaffExternalCalendarsJob(this.staffExternalCalendarService);
+    this.jobScheduler.register(importStaffExternalCalendarsJob, {
+      schedule: '*/15 * * * *', // Every 15 minutes; each calendar is re-imported hourly
+      timezone: 'Europe/Istanbul',
+      enabled: true,
+    });
+
     // Register monthly counts reset job — runs at 00:00 on 1st of every month
     const resetMonthlyJob = new ResetMonthlyCountsJob(repositories.prismaClient);
     this.jobScheduler.register(resetMonthlyJob, {
@@ -338,6 +614,12 @@ export {
   BusinessTypeService,
   OfferingService,
   AppointmentService,
+  AppointmentApprovalService,
+  AppointmentCheckInService,
+  AppointmentDepositService,
+  AppointmentSeriesService,
+  AvailabilitySearchService,
+  ClassSessionService,
   UserBehaviorService,
   BusinessClosureService,
   SubscriptionService,
@@ -346,9 +628,14 @@ export {
   ClosureAnalyticsService,
   AppointmentRescheduleService,
   DiscountCodeService,
+  GiftCardService,
   UsageService,
   SubscriptionSchedulerService,
   StaffService,
+  StaffTimeOffService,
+  StaffExternalCalendarService,
+  StaffReassignmentService,
+  CalendarFeedService,
   StartupService,
   PricingTierService,
   IPGeolocationService,
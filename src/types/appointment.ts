@@ -1,3 +1,5 @@
+import { AppointmentData, AppointmentStatus } from './business';
+
 // Appointment Domain Types
 export interface TimeSlot {
   startTime: Date;
@@ -60,5 +62,443 @@ export interface AppointmentSchedulerConfig {
   retryDelay?: number; // Delay between retries in milliseconds
 }
 
+// Multi-service bundles ("haircut + beard + wash" booked as one visit)
+export interface AppointmentBundleItem {
+  serviceId: string;
+  staffId?: string;
+}
+
+export interface CreateAppointmentBundleRequest {
+  businessId: string;
+  customerId?: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM, start of the first leg
+  customerNotes?: string;
+  items: AppointmentBundleItem[];
+}
+
+export interface RescheduleAppointmentBundleRequest {
+  date: string;
+  startTime: string;
+}
+
+export interface AppointmentBundleData {
+  id: string;
+  businessId: string;
+  customerId: string;
+  date: Date;
+  startTime: Date;
+  endTime: Date;
+  totalDuration: number;
+  totalPrice: number;
+  currency: string;
+  status: AppointmentStatus;
+  customerNotes?: string;
+  canceledAt?: Date;
+  cancelReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  appointments: AppointmentData[];
+}
+
+export interface PublicAvailableSlot {
+  startTime: string;
+  endTime: string;
+  available: boolean;
+  staffId?: string;
+  staffName?: string;
+  /** Price of the slot after the service's pricing rules; left out while prices are hidden */
+  price?: number;
+  currency?: string;
+  /** Price for a customer's first visit, when the service has a first-visit rule */
+  firstVisitPrice?: number;
+  /** Per-leg breakdown when the slot was computed for a multi-service bundle */
+  legs?: Array<{
+    serviceId: string;
+    staffId?: string;
+    startTime: string;
+    endTime: string;
+  }>;
+  /** Set for group services: the slot is a scheduled class with limited seats */
+  classSessionId?: string;
+  maxSeats?: number;
+  seatsLeft?: number;
+}
+
+export interface PublicAvailableSlotsResult {
+  date: string;
+  /** IANA timezone of the business; `date` and `businessHours` are its wall clock */
+  timezone?: string;
+  businessId: string;
+  serviceId: string;
+  /** Present when availability was requested for a whole service sequence */
+  serviceIds?: string[];
+  staffId?: string;
+  slots: PublicAvailableSlot[];
+  /**
+   * Set while the day is outside the booking horizon or not yet released; its slots
+   * are listed but unavailable until this moment
+   */
+  bookingOpensAt?: string;
+  bookedRanges: Array<{
+    startTime: string;
+    endTime: string;
+    duration: number;
+  }>;
+  businessHours: {
+    isOpen: boolean;
+    openTime?: string;
+    closeTime?: string;
+  };
+  closures: Array<{
+    reason: string;
+    type: string;
+  }>;
+}
+
+/** HH:MM–HH:MM stretch of the business's day a customer prefers */
+export interface TimeOfDayWindow {
+  from: string;
+  to: string;
+}
+
+export interface FirstAvailableSearchParams {
+  serviceId: string;
+  /** Staff to consider; defaults to every active staff member providing the service */
+  staffIds?: string[];
+  /** YYYY-MM-DD in the business's timezone; defaults to today */
+  from?: string;
+  /** YYYY-MM-DD, inclusive; defaults to a week from `from` */
+  to?: string;
+  /** A slot must start and end inside one of these; any time of the day when empty */
+  windows?: TimeOfDayWindow[];
+  limit?: number;
+}
+
+export interface FirstAvailableSlot {
+  /** YYYY-MM-DD in the business's timezone */
+  date: string;
+  startTime: string;
+  endTime: string;
+  staffId?: string;
+  staffName?: string;
+  classSessionId?: string;
+  seatsLeft?: number;
+  /** As on PublicAvailableSlot */
+  price?: number;
+  currency?: string;
+  firstVisitPrice?: number;
+}
+
+export interface FirstAvailableSearchResult {
+  businessId: string;
+  serviceId: string;
+  timezone: string;
+  from: string;
+  to: string;
+  /** Earliest first; at most `limit` entries */
+  slots: FirstAvailableSlot[];
+  /**
+   * Last day that was looked at. The search stops after the first day that fills
+   * the limit, so a client wanting more continues from the day after.
+   */
+  searchedThrough: string;
+}
+
+export type AppointmentSeriesScope = 'THIS' | 'THIS_AND_FOLLOWING' | 'ALL';
+
+export type SeriesConflictReason =
+  | 'OUTSIDE_WORKING_HOURS'
+  | 'BUSINESS_CLOSED'
+  | 'SPECIAL_DAY_CLOSED'
+  | 'OUTSIDE_SPECIAL_HOURS'
+  | 'TIME_CONFLICT'
+  | 'RESOURCE_UNAVAILABLE'
+  | 'STAFF_ON_TIME_OFF'
+  | 'STAFF_EXTERNALLY_BUSY'
+  | 'PAST_DATE';
+
+export interface SeriesOccurrenceConflict {
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  reason: SeriesConflictReason;
+  detail?: string;
+}
+
+export interface CreateAppointmentSeriesRequest {
+  businessId: string;
+  serviceId: string;
+  staffId?: string;
+  customerId?: string;
+  /** RFC 5545 subset, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;COUNT=8 */
+  rrule: string;
+  startDate: string; // YYYY-MM-DD, first occurrence
+  startTime: string; // HH:MM
+  customerNotes?: string;
+}
+
+export interface UpdateAppointmentSeriesRequest {
+  scope: AppointmentSeriesScope;
+  /** Occurrence the edit is anchored on; required for THIS and THIS_AND_FOLLOWING */
+  appointmentId?: string;
+  startTime?: string; // HH:MM
+  staffId?: string;
+  customerNotes?: string;
+}
+
+export interface CancelAppointmentSeriesRequest {
+  scope: AppointmentSeriesScope;
+  appointmentId?: string;
+  reason?: string;
+}
+
+export interface AppointmentSeriesData {
+  id: string;
+  businessId: string;
+  serviceId: string;
+  staffId?: string;
+  customerId: string;
+  rrule: string;
+  startDate: Date;
+  startTime: string;
+  status: 'ACTIVE' | 'ENDED' | 'CANCELED';
+  customerNotes?: string;
+  createdBy: string;
+  materializedUntil?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  appointments?: AppointmentData[];
+}
+
+export interface AppointmentSeriesResult {
+  series: AppointmentSeriesData;
+  /** Occurrences that were written (or would be, for a preview) */
+  occurrences: Array<{ date: string; startTime: string; appointmentId?: string }>;
+  conflicts: SeriesOccurrenceConflict[];
+}
+
+export interface CreateSlotHoldRequest {
+  businessId: string;
+  serviceId: string;
+  staffId?: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+}
+
+/** A slot reserved in Redis while the customer completes the booking form */
+export interface SlotHold {
+  id: string;
+  businessId: string;
+  serviceId: string;
+  staffId?: string;
+  /** User who placed the hold (the only one who can convert or release it) */
+  customerId: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // ISO
+  endTime: string; // ISO
+  expiresAt: string; // ISO
+}
+
 // Removed DTOs - keeping it simple with controller-level transformations
 // Most companies handle data formatting in the controller layer, not service layer
+
+export type ClassSessionStatus = 'SCHEDULED' | 'CANCELED';
+
+/** A scheduled instance of a group service; seats are Appointment rows */
+export interface ClassSessionData {
+  id: string;
+  businessId: string;
+  serviceId: string;
+  staffId: string;
+  date: Date;
+  startTime: Date;
+  endTime: Date;
+  maxSeats: number;
+  /** Seats held by pending, confirmed or in-progress appointments */
+  bookedSeats: number;
+  status: ClassSessionStatus;
+  notes?: string;
+  createdBy: string;
+  canceledAt?: Date;
+  cancelReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ClassRosterEntry {
+  appointmentId: string;
+  customerId: string;
+  customerName: string;
+  phoneNumber?: string;
+  status: AppointmentStatus;
+  customerNotes?: string;
+  bookedAt: Date;
+}
+
+export interface ClassSessionWithRoster extends ClassSessionData {
+  roster: ClassRosterEntry[];
+}
+
+export interface CreateClassSessionRequest {
+  serviceId: string;
+  staffId: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  /** Defaults to the service's maxSeats */
+  maxSeats?: number;
+  notes?: string;
+}
+
+export interface UpdateClassSessionRequest {
+  maxSeats?: number;
+  notes?: string;
+}
+
+export interface ClassSessionFilters {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  serviceId?: string;
+  staffId?: string;
+  includeCanceled?: boolean;
+}
+
+export interface BookClassSeatRequest {
+  /** Business users may book a seat on behalf of a customer */
+  customerId?: string;
+  customerNotes?: string;
+}
+
+// ===== Customer reschedule =====
+
+export interface CustomerRescheduleRequest {
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  /** Another staff member qualified for the service; defaults to the current one */
+  staffId?: string;
+  reason?: string;
+}
+
+export interface AppointmentRescheduleData {
+  id: string;
+  appointmentId: string;
+  businessId: string;
+  previousStartTime: Date;
+  previousEndTime: Date;
+  previousStaffId?: string;
+  newStartTime: Date;
+  newEndTime: Date;
+  newStaffId?: string;
+  initiatedBy: 'CUSTOMER' | 'BUSINESS' | 'SYSTEM';
+  rescheduledBy: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+export interface AppointmentRescheduleHistory {
+  appointmentId: string;
+  /** Time the appointment was booked for before its first move */
+  originalStartTime: Date;
+  originalEndTime: Date;
+  customerReschedules: number;
+  /** Customer reschedules still allowed by the business policy */
+  remainingCustomerReschedules: number;
+  entries: AppointmentRescheduleData[];
+}
+
+// ===== Check-in and no-shows =====
+
+export type AppointmentCheckInMethod = 'STAFF' | 'QR_CODE';
+export type NoShowSource = 'STAFF' | 'AUTOMATIC';
+
+/** Customer scanning the QR code shown at the venue */
+export interface QrCheckInRequest {
+  businessId: string;
+  token: string;
+  /** Defaults to the customer's appointment at the business whose check-in window is open */
+  appointmentId?: string;
+}
+
+/** Signed code a business prints or shows at the venue */
+export interface VenueCheckInCode {
+  businessId: string;
+  token: string;
+  /** What the QR code encodes; the app posts its fields to /appointments/check-in/qr */
+  payload: string;
+  /** When the next code is issued; this one is still accepted for one more period after it */
+  refreshAt: Date;
+}
+
+export interface MarkNoShowsResult {
+  /** Appointments of no-show tracking businesses that started without a check-in */
+  candidates: number;
+  /** Those whose grace period had passed and were marked NO_SHOW */
+  marked: number;
+}
+
+export interface OverdueApprovalsResult {
+  /** Approval requests waiting at businesses with an approval timeout */
+  candidates: number;
+  /** Overdue requests escalated to the business owner */
+  escalated: number;
+  /** Overdue requests rejected automatically */
+  rejected: number;
+}
+
+// ===== Status history and timeline =====
+
+/** Where a status transition came from */
+export type AppointmentChangeChannel = 'CUSTOMER_APP' | 'STAFF_PANEL' | 'JOB' | 'ADMIN_BATCH' | 'SYSTEM';
+
+/** Who made a status transition, through which channel and why */
+export interface AppointmentChangeActor {
+  channel: AppointmentChangeChannel;
+  /** The user behind it; undefined for jobs and other automatic transitions */
+  actorId?: string;
+  reason?: string;
+}
+
+export interface AppointmentFieldChange {
+  from: string | null;
+  to: string | null;
+}
+
+export interface AppointmentStatusChangeData {
+  id: string;
+  appointmentId: string;
+  businessId: string;
+  fromStatus: AppointmentStatus;
+  toStatus: AppointmentStatus;
+  channel: AppointmentChangeChannel;
+  actorId?: string;
+  reason?: string;
+  /** Before/after values of the fields the transition touched, dates as ISO strings */
+  changes: Record<string, AppointmentFieldChange>;
+  createdAt: Date;
+}
+
+/** A push notification sent about the appointment */
+export interface AppointmentNotificationRecord {
+  id: string;
+  recipientId: string;
+  title: string;
+  body: string;
+  status: string;
+  sentAt?: Date;
+  deliveredAt?: Date;
+  readAt?: Date;
+  errorMessage?: string;
+  createdAt: Date;
+}
+
+export type AppointmentTimelineEntry =
+  | { type: 'STATUS_CHANGE'; at: Date; statusChange: AppointmentStatusChangeData }
+  | { type: 'RESCHEDULE'; at: Date; reschedule: AppointmentRescheduleData }
+  | { type: 'NOTIFICATION'; at: Date; notification: AppointmentNotificationRecord };
+
+export interface AppointmentTimeline {
+  appointmentId: string;
+  bookedAt: Date;
+  status: AppointmentStatus;
+  /** Oldest first */
+  entries: AppointmentTimelineEntry[];
+}
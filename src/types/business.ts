@@ -5,6 +5,8 @@ import {
   NotificationPayload,
   NotificationStatus as DomainNotificationStatus,
 } from './notification';
+import { AppointmentDepositData, DepositType } from './deposit';
+import { PackageCreditUsageData } from './sessionPackage';
 
 export const NotificationChannel = DomainNotificationChannel;
 export type NotificationChannel = DomainNotificationChannel;
@@ -135,6 +137,52 @@ export interface BusinessStaffData {
   updatedAt: Date;
 }
 
+/**
+ * "Next week's slots open every Monday at 09:00": at `time` on every `dayOfWeek`
+ * (business timezone) the week starting that day and the `weeksAhead` weeks after
+ * it become bookable.
+ */
+export interface BookingReleaseSchedule {
+  /** 0 = Sunday */
+  dayOfWeek: number;
+  /** HH:MM */
+  time: string;
+  weeksAhead: number;
+}
+
+/** A change to the price: a percentage of it or an amount in the service currency; negative is a discount */
+export interface PriceAdjustment {
+  type: 'PERCENTAGE' | 'FIXED';
+  value: number;
+}
+
+/**
+ * One dynamic pricing rule of a service:
+ *  - SCHEDULE: peak / off-peak hours and weekday surcharges, on the business's clock;
+ *    without daysOfWeek it applies every day, without times all day
+ *  - LAST_MINUTE: slots starting within the next `withinHours` hours
+ *  - FIRST_VISIT: customers without an earlier appointment at the business
+ */
+export type ServicePricingRule =
+  | {
+      type: 'SCHEDULE';
+      label?: string;
+      /** 0 = Sunday */
+      daysOfWeek?: number[];
+      /** HH:MM, inclusive */
+      startTime?: string;
+      /** HH:MM, exclusive */
+      endTime?: string;
+      adjustment: PriceAdjustment;
+    }
+  | { type: 'LAST_MINUTE'; label?: string; withinHours: number; adjustment: PriceAdjustment }
+  | { type: 'FIRST_VISIT'; label?: string; adjustment: PriceAdjustment };
+
+/** Service.pricing: every matching rule adjusts the (staff member's) price of the service */
+export interface ServicePricing {
+  rules: ServicePricingRule[];
+}
+
 export interface ServiceData {
   id: string;
   businessId: string;
@@ -147,10 +195,21 @@ export interface ServiceData {
   isActive: boolean;
   showPrice: boolean;
   sortOrder: number;
-  pricing?: any;
+  /** Dynamic pricing rules applied to the price when a slot is quoted or booked */
+  pricing?: ServicePricing;
   bufferTime: number;
-  maxAdvanceBooking: number;
-  minAdvanceBooking: number;
+  /** Booking horizon in days; unset falls back to ReservationSettings.maxAdvanceBookingDays */
+  maxAdvanceBooking?: number;
+  /** Lead time in hours; unset falls back to ReservationSettings.minNotificationHours */
+  minAdvanceBooking?: number;
+  /** Weekly release of future slots on top of the horizon */
+  bookingRelease?: BookingReleaseSchedule;
+  /** Booked per seat in scheduled ClassSessions instead of one-to-one */
+  isGroupSession: boolean;
+  maxSeats: number;
+  /** Prepayment required at booking; depositValue is an amount (FIXED) or a percent of the price (PERCENTAGE) */
+  depositType: DepositType;
+  depositValue?: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -161,6 +220,14 @@ export interface PublicServiceData extends Omit<ServiceData, 'price'> {
   priceDisplayMessage?: string;
 }
 
+/** Approval policy rule that sent a booking for manual approval; ALWAYS is Business.requireApproval */
+export type ApprovalRule =
+  | 'ALWAYS'
+  | 'FIRST_TIME_CUSTOMER'
+  | 'HIGH_RISK_CUSTOMER'
+  | 'PRICE_THRESHOLD'
+  | 'OUTSIDE_NORMAL_HOURS';
+
 export interface AppointmentData {
   id: string;
   businessId: string;
@@ -184,6 +251,29 @@ export interface AppointmentData {
   cancelledBy?: 'CUSTOMER' | 'BUSINESS' | 'SYSTEM' | null;
   reminderSent: boolean;
   reminderSentAt?: Date;
+  /** Set when the appointment is one leg of a multi-service bundle */
+  bundleId?: string;
+  bundleSequence?: number;
+  /** Set when the appointment is an occurrence of a recurring series */
+  seriesId?: string;
+  /** Set when the appointment is one seat in a group class */
+  classSessionId?: string;
+  /** Deposit to pay before a PENDING booking is confirmed; only returned at booking */
+  deposit?: AppointmentDepositData;
+  /** Package credit the booking holds instead of a deposit; only returned at booking */
+  packageCredit?: PackageCreditUsageData;
+  checkedInAt?: Date;
+  checkInMethod?: 'STAFF' | 'QR_CODE';
+  /** When the staff started and finished the service; the booked times stay in startTime/endTime */
+  actualStartTime?: Date;
+  actualEndTime?: Date;
+  noShowMarkedAt?: Date;
+  noShowSource?: 'STAFF' | 'AUTOMATIC';
+  noShowReversedAt?: Date;
+  /** Why the booking needed approval; kept after the decision */
+  approvalRule?: ApprovalRule;
+  approvalRequestedAt?: Date;
+  approvalEscalatedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -516,8 +606,14 @@ export interface CreateServiceRequest {
   price: number;
   currency?: string;
   bufferTime?: number;
-  maxAdvanceBooking?: number;
-  minAdvanceBooking?: number;
+  maxAdvanceBooking?: number | null;
+  minAdvanceBooking?: number | null;
+  bookingRelease?: BookingReleaseSchedule | null;
+  pricing?: ServicePricing | null;
+  isGroupSession?: boolean;
+  maxSeats?: number;
+  depositType?: DepositType;
+  depositValue?: number | null;
   assignToAll?: boolean;
 }
 
@@ -530,11 +626,34 @@ export interface UpdateServiceRequest {
   isActive?: boolean;
   sortOrder?: number;
   bufferTime?: number;
-  maxAdvanceBooking?: number;
-  minAdvanceBooking?: number;
+  maxAdvanceBooking?: number | null;
+  minAdvanceBooking?: number | null;
+  bookingRelease?: BookingReleaseSchedule | null;
+  pricing?: ServicePricing | null;
+  isGroupSession?: boolean;
+  maxSeats?: number;
+  depositType?: DepositType;
+  depositValue?: number | null;
   assignToAll?: boolean;
 }
 
+/**
+ * A staff member's assignment to a service with what their take on it lasts and
+ * costs; unset values use the service's own.
+ */
+export interface ServiceStaffOverride {
+  staffId: string;
+  duration?: number;
+  bufferTime?: number;
+  price?: number;
+}
+
+export interface UpdateServiceStaffOverrideRequest {
+  duration?: number | null;
+  bufferTime?: number | null;
+  price?: number | null;
+}
+
 export interface CreateAppointmentRequest {
   businessId: string;
   serviceId: string;
@@ -543,11 +662,17 @@ export interface CreateAppointmentRequest {
   date: string;
   startTime: string;
   customerNotes?: string;
+  /** Checkout hold to convert into this appointment */
+  holdId?: string;
+  /** Answers to the service's intake form; can also be given later */
+  intakeAnswers?: Record<string, string | boolean>;
 }
 
 export interface UpdateAppointmentRequest {
   date?: string;
   startTime?: string;
+  /** Accepted reschedule suggestions may move the appointment to another staff member */
+  staffId?: string;
   status?: AppointmentStatus;
   customerNotes?: string;
   internalNotes?: string;
@@ -764,7 +889,11 @@ export interface AvailabilityAlertData {
 export interface RescheduleSuggestionData {
   id: string;
   originalAppointmentId: string;
-  closureId: string;
+  /** Set for business closures */
+  closureId?: string;
+  reason: 'BUSINESS_CLOSURE' | 'STAFF_REMOVED' | 'STAFF_ABSENT';
+  /** Set when the appointment's staff member was removed or is absent */
+  unavailableStaffId?: string;
   suggestedDates: Array<{
     startTime: Date;
     endTime: Date;
@@ -29,12 +29,61 @@ export interface CancellationPolicySettings {
   gracePeriodDays?: number;
   autoBanEnabled?: boolean;
   banDurationDays?: number;
+  /**
+   * Share of a paid deposit (0-100) refunded when the customer cancels later than
+   * minCancellationHours. Earlier cancellations are always refunded in full.
+   */
+  lateCancellationDepositRefundPercent?: number;
+}
+
+/** Customer self-service reschedule rules; separate from cancellation limits */
+export interface ReschedulePolicySettings {
+  allowCustomerReschedule: boolean;
+  /** Minimum hours before the current start time that a customer may still move it */
+  minRescheduleHours: number;
+  /** Customer reschedules allowed per appointment (business moves are not counted) */
+  maxReschedulesPerAppointment: number;
+}
+
+/** Arrival tracking; only businesses that track no-shows get them marked automatically */
+export interface CheckInPolicySettings {
+  /** Mark confirmed appointments nobody checked in for as no-shows once the grace period passes */
+  trackNoShows: boolean;
+  /** Minutes after the start time a customer may still check in */
+  noShowGraceMinutes: number;
+  /** Let customers check themselves in by scanning the venue QR code */
+  allowQrCheckIn: boolean;
+  /** Minutes before the start time the QR check-in opens */
+  checkInOpensMinutesBefore: number;
+}
+
+/**
+ * Which bookings wait for manual approval. Business.requireApproval still sends
+ * every booking for approval; without it only bookings matching one of these
+ * rules do, and everything else is confirmed right away.
+ */
+export interface ApprovalPolicySettings {
+  /** Customers without an earlier booking at the business */
+  firstTimeCustomers: boolean;
+  /** Customers whose reliability risk level is HIGH */
+  highRiskCustomers: boolean;
+  /** Bookings whose price is above this amount; null turns the rule off */
+  priceAbove: number | null;
+  /** Normal hours as HH:mm in business time; bookings starting or ending outside them need approval */
+  normalHours: { start: string; end: string } | null;
+  /** Hours a request may wait for a decision; null lets it wait until handled */
+  timeoutHours: number | null;
+  /** What happens to a request left unhandled for timeoutHours */
+  timeoutAction: 'ESCALATE' | 'REJECT';
 }
 
 export interface BusinessSettings {
   priceVisibility?: PriceVisibilitySettings;
   staffPrivacy?: StaffPrivacySettings;
   cancellationPolicies?: CancellationPolicySettings;
+  reschedulePolicy?: ReschedulePolicySettings;
+  checkInPolicy?: CheckInPolicySettings;
+  approvalPolicy?: ApprovalPolicySettings;
   customerManagement?: CustomerManagementSettings;
   timezone?: string;
   currency?: string;
@@ -0,0 +1,42 @@
+/**
+ * Calendar Feed Types
+ * Signed ICS subscription URLs for staff, business and customer calendars
+ */
+
+export type CalendarFeedType = 'STAFF' | 'BUSINESS' | 'CUSTOMER';
+
+export interface CalendarFeedData {
+  id: string;
+  type: CalendarFeedType;
+  userId: string;
+  businessId?: string;
+  staffId?: string;
+  label?: string;
+  revokedAt?: Date;
+  lastAccessedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** A feed together with the path a calendar app subscribes to */
+export interface CalendarFeedWithUrl extends CalendarFeedData {
+  /** Relative to the API host, e.g. /api/v1/calendar-feeds/<id>/<signature>.ics */
+  path: string;
+}
+
+/**
+ * STAFF needs `businessId` and defaults `staffId` to the caller's own staff record;
+ * BUSINESS needs `businessId`; CUSTOMER covers the caller's own bookings everywhere.
+ */
+export interface CreateCalendarFeedRequest {
+  type: CalendarFeedType;
+  businessId?: string;
+  staffId?: string;
+  label?: string;
+}
+
+/** A rendered feed, ready to be sent as text/calendar */
+export interface CalendarFeedDocument {
+  filename: string;
+  body: string;
+}
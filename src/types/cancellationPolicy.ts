@@ -3,11 +3,19 @@
  * Defines types for business cancellation and no-show policies
  */
 
-import { CancellationPolicySettings } from './businessSettings';
+import { ApprovalPolicySettings, CancellationPolicySettings, CheckInPolicySettings, ReschedulePolicySettings } from './businessSettings';
 
 export interface PolicyViolationResult {
   isViolation: boolean;
-  violationType?: 'CANCELLATION_TIME' | 'DAILY_CANCELLATIONS' | 'MONTHLY_CANCELLATIONS' | 'MONTHLY_NO_SHOWS' | 'BANNED_USER';
+  violationType?:
+    | 'CANCELLATION_TIME'
+    | 'DAILY_CANCELLATIONS'
+    | 'MONTHLY_CANCELLATIONS'
+    | 'MONTHLY_NO_SHOWS'
+    | 'BANNED_USER'
+    | 'RESCHEDULE_DISABLED'
+    | 'RESCHEDULE_TIME'
+    | 'RESCHEDULE_LIMIT';
   message: string;
   remainingCount?: number;
   nextResetDate?: Date;
@@ -38,6 +46,15 @@ export interface PolicyEnforcementContext {
   currentTime: Date;
 }
 
+export interface RescheduleEnforcementContext {
+  customerId: string;
+  businessId: string;
+  /** Current start of the appointment being moved */
+  appointmentDate: Date;
+  /** Customer reschedules already made on this appointment */
+  previousReschedules: number;
+}
+
 export interface PolicyCheckResult {
   allowed: boolean;
   violations: PolicyViolationResult[];
@@ -54,6 +71,7 @@ export interface DefaultPolicySettings {
   gracePeriodDays: number;
   autoBanEnabled: boolean;
   banDurationDays: number;
+  lateCancellationDepositRefundPercent: number;
 }
 
 export const DEFAULT_CANCELLATION_POLICIES: DefaultPolicySettings = {
@@ -64,7 +82,28 @@ export const DEFAULT_CANCELLATION_POLICIES: DefaultPolicySettings = {
   policyWarningMessage: 'Bu kuralları aşan müşteriler sistemden otomatik olarak engellenecek ve bir daha işletmenizden randevu alamayacaktır. Bu politikalar müşteri deneyimini korumak ve adil bir rezervasyon sistemi sağlamak için uygulanır.',
   gracePeriodDays: 0,
   autoBanEnabled: false,
-  banDurationDays: 30
+  banDurationDays: 30,
+  lateCancellationDepositRefundPercent: 0
 };
 
+export const DEFAULT_RESCHEDULE_POLICY: ReschedulePolicySettings = {
+  allowCustomerReschedule: true,
+  minRescheduleHours: 0,
+  maxReschedulesPerAppointment: 2
+};
+
+export const DEFAULT_CHECK_IN_POLICY: CheckInPolicySettings = {
+  trackNoShows: false,
+  noShowGraceMinutes: 15,
+  allowQrCheckIn: true,
+  checkInOpensMinutesBefore: 30
+};
 
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicySettings = {
+  firstTimeCustomers: false,
+  highRiskCustomers: false,
+  priceAbove: null,
+  normalHours: null,
+  timeoutHours: null,
+  timeoutAction: 'ESCALATE'
+};
@@ -0,0 +1,71 @@
+/**
+ * Deposit Types
+ * Prepayments a service may require at booking, charged through iyzico
+ */
+
+import { PaymentStatus } from './business';
+
+export type DepositType = 'NONE' | 'FIXED' | 'PERCENTAGE';
+
+export interface AppointmentDepositData {
+  id: string;
+  appointmentId: string;
+  businessId: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  paymentMethod: string;
+  providerPaymentId?: string;
+  paidAt?: Date;
+  /** Unpaid deposits release the slot after this time */
+  expiresAt?: Date;
+  refundedAmount: number;
+  refundedAt?: Date;
+  forfeitedAmount: number;
+  forfeitedAt?: Date;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Why an appointment holding a deposit ended before it was completed */
+export type DepositSettlementReason = 'CUSTOMER_CANCEL' | 'BUSINESS_CANCEL' | 'REJECTED' | 'NO_SHOW';
+
+/** How a paid deposit is split when the appointment ends without being completed */
+export interface DepositSettlement {
+  refundAmount: number;
+  forfeitAmount: number;
+}
+
+export interface PayDepositRequest {
+  card: {
+    cardHolderName: string;
+    cardNumber: string;
+    expireMonth: string;
+    expireYear: string;
+    cvc: string;
+  };
+  email?: string;
+}
+
+export interface DepositReport {
+  businessId: string;
+  /** Deposits paid in the period */
+  collected: number;
+  collectedCount: number;
+  refunded: number;
+  refundedCount: number;
+  forfeited: number;
+  forfeitedCount: number;
+  /** Collected deposits neither refunded nor forfeited yet */
+  held: number;
+  /** Unpaid deposits that expired and released their slot */
+  expiredUnpaidCount: number;
+  currency: string;
+  byService: Array<{
+    serviceId: string;
+    serviceName: string;
+    collected: number;
+    forfeited: number;
+  }>;
+}
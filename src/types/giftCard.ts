@@ -0,0 +1,85 @@
+/**
+ * Gift Card Types
+ * Gift cards a business sells and promotional vouchers it hands out to its
+ * customers, spent on appointments, with the ledger of every balance change
+ */
+
+/** GIFT_CARD: bought by a customer; VOUCHER: given away by the business */
+export type GiftCardType = 'GIFT_CARD' | 'VOUCHER';
+
+export type GiftCardTransactionType = 'ISSUE' | 'REDEEM' | 'REFUND';
+
+export interface GiftCardData {
+  id: string;
+  businessId: string;
+  code: string;
+  type: GiftCardType;
+  initialAmount: number;
+  balance: number;
+  currency: string;
+  /** What the buyer paid; 0 for vouchers */
+  pricePaid: number;
+  /** Only this customer can use it; absent when whoever holds the code can */
+  customerId?: string;
+  expiresAt?: Date;
+  isActive: boolean;
+  note?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface GiftCardTransactionData {
+  id: string;
+  giftCardId: string;
+  businessId: string;
+  type: GiftCardTransactionType;
+  /** Always positive; REDEEM takes it off the balance, ISSUE and REFUND add it */
+  amount: number;
+  balanceAfter: number;
+  appointmentId?: string;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export interface IssueGiftCardsRequest {
+  type: GiftCardType;
+  amount: number;
+  /** Cards to generate, each with its own code */
+  count?: number;
+  /** Start of every code, e.g. YAZ for a summer campaign */
+  prefix?: string;
+  /** Per card; defaults to the amount for gift cards and 0 for vouchers */
+  pricePaid?: number;
+  customerId?: string;
+  validUntil?: Date;
+  currency?: string;
+  note?: string;
+}
+
+export interface RedeemGiftCardRequest {
+  code: string;
+  appointmentId: string;
+  /** Defaults to as much of the appointment price as the balance covers */
+  amount?: number;
+}
+
+export interface GiftCardRedemptionResult {
+  giftCard: GiftCardData;
+  transaction: GiftCardTransactionData;
+  /** What is still to be paid for the appointment */
+  remainingPrice: number;
+}
+
+export interface GiftCardWithTransactions extends GiftCardData {
+  transactions: GiftCardTransactionData[];
+}
+
+/** Net amount redeemed on one completed appointment, for revenue reports */
+export interface AppointmentRedemption {
+  appointmentId: string;
+  serviceId: string;
+  date: Date;
+  type: GiftCardType;
+  amount: number;
+}
@@ -0,0 +1,51 @@
+/**
+ * Bulk Import Types
+ * Customers, services and future appointments brought in from a spreadsheet
+ * exported by the business or by its previous booking tool
+ */
+
+export type ImportEntityType = 'customers' | 'services' | 'appointments';
+
+/** CREATE: new record (or would be, on a dry run); SKIP: already there; ERROR: not imported */
+export type ImportRowAction = 'CREATE' | 'SKIP' | 'ERROR';
+
+export type ImportRowErrorCode =
+  | 'REQUIRED'
+  | 'INVALID_VALUE'
+  | 'INVALID_PHONE'
+  | 'DUPLICATE_ROW'
+  | 'SERVICE_NOT_FOUND'
+  | 'STAFF_NOT_FOUND'
+  | 'PAST_DATE'
+  | 'OUTSIDE_WORKING_HOURS'
+  | 'TIME_CONFLICT'
+  | 'LIMIT_REACHED'
+  | 'WRITE_FAILED';
+
+export interface ImportRowError {
+  code: ImportRowErrorCode;
+  field?: string;
+  message: string;
+}
+
+export interface ImportRowResult {
+  /** Line of the row in the file; the header is line 1 */
+  row: number;
+  action: ImportRowAction;
+  /** The matched or created record; absent on dry runs for new records */
+  id?: string;
+  errors: ImportRowError[];
+}
+
+export interface ImportReport {
+  type: ImportEntityType;
+  dryRun: boolean;
+  totalRows: number;
+  created: number;
+  skipped: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+/** One data row, keyed by the canonical column name */
+export type ImportRow = Record<string, string>;
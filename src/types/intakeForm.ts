@@ -0,0 +1,74 @@
+/**
+ * Intake Form Types
+ * Questions a service asks before the visit, such as health and consent questions,
+ * and the answers a customer gives for one appointment
+ */
+
+export type IntakeFieldType = 'TEXT' | 'CHOICE' | 'YES_NO' | 'CONSENT';
+
+/** TEXT and CHOICE answers are strings, YES_NO and CONSENT answers booleans */
+export type IntakeAnswerValue = string | boolean;
+
+export type IntakeAnswers = Record<string, IntakeAnswerValue>;
+
+export interface IntakeFormField {
+  /** Kept across versions, so the answer to an unchanged question can be reused */
+  id: string;
+  label: string;
+  type: IntakeFieldType;
+  required: boolean;
+  options?: string[]; // For CHOICE type
+  /** Asked on every visit instead of reusing the previous answer, e.g. consent */
+  askEveryVisit?: boolean;
+}
+
+export interface ServiceIntakeFormData {
+  id: string;
+  businessId: string;
+  serviceId: string;
+  version: number;
+  title: string;
+  description?: string;
+  fields: IntakeFormField[];
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface PublishIntakeFormRequest {
+  title: string;
+  description?: string;
+  /** Fields without an id are new questions; an id keeps the question of the previous version */
+  fields: Array<Omit<IntakeFormField, 'id'> & { id?: string }>;
+}
+
+export interface AppointmentIntakeResponseData {
+  id: string;
+  appointmentId: string;
+  formId: string;
+  formVersion: number;
+  businessId: string;
+  serviceId: string;
+  customerId: string;
+  answers: IntakeAnswers;
+  /** Answers copied from the customer's previous visit */
+  reusedFieldIds: string[];
+  submittedAt: Date;
+  updatedAt: Date;
+}
+
+export type AppointmentIntakeStatus = 'NOT_REQUIRED' | 'PENDING' | 'COMPLETED';
+
+export interface AppointmentIntakeView {
+  appointmentId: string;
+  status: AppointmentIntakeStatus;
+  /** The version the answers were given to, or the active form while unanswered */
+  form: ServiceIntakeFormData | null;
+  response: AppointmentIntakeResponseData | null;
+  /** For the customer only: answers from the previous visit that will be reused */
+  prefill?: IntakeAnswers;
+}
+
+export interface SubmitIntakeAnswersRequest {
+  answers: IntakeAnswers;
+}
@@ -0,0 +1,76 @@
+/**
+ * Resource Types
+ * Rooms, chairs and equipment shared by staff, and what each service needs of them
+ */
+
+export type BusinessResourceType = 'ROOM' | 'CHAIR' | 'EQUIPMENT' | 'OTHER';
+
+export interface BusinessResourceData {
+  id: string;
+  businessId: string;
+  name: string;
+  type: BusinessResourceType;
+  /** Appointments that can use the resource at the same time */
+  capacity: number;
+  description?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ServiceResourceRequirement {
+  resourceId: string;
+  quantity: number;
+  resource: {
+    id: string;
+    name: string;
+    type: BusinessResourceType;
+    capacity: number;
+    isActive: boolean;
+  };
+}
+
+export interface CreateResourceRequest {
+  name: string;
+  type?: BusinessResourceType;
+  capacity?: number;
+  description?: string;
+}
+
+export interface UpdateResourceRequest {
+  name?: string;
+  type?: BusinessResourceType;
+  capacity?: number;
+  description?: string;
+  isActive?: boolean;
+}
+
+export interface SetServiceResourcesRequest {
+  resources: Array<{
+    resourceId: string;
+    quantity?: number;
+  }>;
+}
+
+/** What one service needs of one resource, with the resource's capacity. */
+export interface ResourceNeed {
+  resourceId: string;
+  quantity: number;
+  capacity: number;
+}
+
+/** Units of a resource taken by an appointment (or hold) during [start, end). */
+export interface ResourceBooking {
+  resourceId: string;
+  quantity: number;
+  start: Date;
+  end: Date;
+}
+
+export interface ResourceShortage {
+  resourceId: string;
+  capacity: number;
+  /** Highest number of units already in use at any moment of the window */
+  inUse: number;
+  requested: number;
+}
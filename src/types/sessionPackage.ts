@@ -0,0 +1,89 @@
+/**
+ * Session Package Types
+ * Prepaid bundles of sessions ("10 laser sessions") a business sells, the packages
+ * its customers own, and the credits their appointments take from them
+ */
+
+export type PackageCreditStatus = 'RESERVED' | 'USED' | 'RESTORED' | 'FORFEITED';
+
+export interface SessionPackageData {
+  id: string;
+  businessId: string;
+  name: string;
+  description?: string;
+  /** Services the package's credits can be used for */
+  serviceIds: string[];
+  credits: number;
+  /** Days a sold package stays usable; absent when it never expires */
+  validityDays?: number;
+  price: number;
+  currency: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSessionPackageRequest {
+  name: string;
+  description?: string;
+  serviceIds: string[];
+  credits: number;
+  validityDays?: number;
+  price: number;
+  currency?: string;
+}
+
+export type UpdateSessionPackageRequest = Partial<CreateSessionPackageRequest> & {
+  isActive?: boolean;
+};
+
+export interface CustomerPackageData {
+  id: string;
+  businessId: string;
+  customerId: string;
+  packageId: string;
+  /** Copied from the definition when sold, so later edits do not change it */
+  name: string;
+  serviceIds: string[];
+  creditsTotal: number;
+  /** Credits not yet taken by an appointment; upcoming ones hold theirs */
+  creditsRemaining: number;
+  pricePaid: number;
+  currency: string;
+  purchasedAt: Date;
+  expiresAt?: Date;
+  soldBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SellPackageRequest {
+  customerId: string;
+  /** Defaults to the package price, e.g. lower for a campaign */
+  pricePaid?: number;
+}
+
+export interface PackageCreditUsageData {
+  id: string;
+  customerPackageId: string;
+  appointmentId: string;
+  businessId: string;
+  status: PackageCreditStatus;
+  createdAt: Date;
+  settledAt?: Date;
+}
+
+/** A customer's packages at one business, as shown on the customer detail screen */
+export interface CustomerPackageBalance {
+  id: string;
+  name: string;
+  serviceIds: string[];
+  creditsTotal: number;
+  creditsRemaining: number;
+  /** Credits held by upcoming appointments */
+  creditsReserved: number;
+  creditsUsed: number;
+  purchasedAt: Date;
+  expiresAt?: Date;
+  isExpired: boolean;
+}
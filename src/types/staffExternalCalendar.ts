@@ -0,0 +1,51 @@
+/**
+ * Staff External Calendar Types
+ * Outside calendars (ICS files or URLs) whose events block a staff member's time
+ */
+
+export type StaffExternalCalendarSource = 'FILE' | 'URL';
+
+export interface StaffExternalCalendarData {
+  id: string;
+  businessId: string;
+  staffId: string;
+  name: string;
+  sourceType: StaffExternalCalendarSource;
+  sourceUrl?: string;
+  isActive: boolean;
+  busyCount: number;
+  lastImportedAt?: Date;
+  lastImportError?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface StaffExternalBusyData {
+  id: string;
+  calendarId: string;
+  staffId: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+/** Exactly one of `icsContent` (an uploaded file) or `sourceUrl` is given */
+export interface CreateStaffExternalCalendarRequest {
+  /** Defaults to the caller's own staff record in the business */
+  staffId?: string;
+  name: string;
+  icsContent?: string;
+  sourceUrl?: string;
+}
+
+export interface UpdateStaffExternalCalendarRequest {
+  name?: string;
+  isActive?: boolean;
+  /** Replaces the stored file of a FILE calendar */
+  icsContent?: string;
+}
+
+export interface StaffExternalCalendarImportSummary {
+  imported: number;
+  failed: number;
+}
@@ -0,0 +1,43 @@
+/**
+ * Staff Reassignment Types
+ * Moving a removed or absent staff member's appointments to colleagues
+ */
+
+export type StaffUnavailableReason = 'STAFF_REMOVED' | 'STAFF_ABSENT';
+
+/**
+ * Which of the staff member's upcoming appointments to handle: those inside an
+ * approved time off, those between two Istanbul calendar days, or (with neither)
+ * every upcoming appointment.
+ */
+export interface StaffReassignmentScope {
+  timeOffId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ApplyStaffReassignmentRequest extends StaffReassignmentScope {
+  /** Limits the run to these appointments of the scope */
+  appointmentIds?: string[];
+  reason?: string;
+}
+
+/** What the engine would do with one appointment */
+export interface StaffReassignmentProposal {
+  appointmentId: string;
+  customerName: string;
+  serviceId: string;
+  serviceName: string;
+  startTime: string;
+  endTime: string;
+  /** REASSIGN to `proposedStaff`, or SUGGEST_RESCHEDULE when nobody qualified is free */
+  action: 'REASSIGN' | 'SUGGEST_RESCHEDULE';
+  proposedStaff?: { staffId: string; name: string };
+}
+
+export interface StaffReassignmentResult {
+  reassigned: Array<{ appointmentId: string; staffId: string }>;
+  /** Nobody was free; the customer was offered new times */
+  suggested: Array<{ appointmentId: string; suggestionId: string; slotCount: number }>;
+  failed: Array<{ appointmentId: string; error: string }>;
+}
@@ -0,0 +1,86 @@
+/**
+ * Staff Time-Off Types
+ * Leave and partial-day absences of staff members, approved by the business owner
+ */
+
+export type StaffTimeOffType = 'VACATION' | 'SICK' | 'PERSONAL' | 'TRAINING' | 'OTHER';
+
+export type StaffTimeOffStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+export interface StaffTimeOffData {
+  id: string;
+  businessId: string;
+  staffId: string;
+  type: StaffTimeOffType;
+  startTime: Date;
+  endTime: Date;
+  isFullDay: boolean;
+  reason?: string;
+  status: StaffTimeOffStatus;
+  requestedBy: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  staff?: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+  };
+}
+
+/**
+ * Dates are Istanbul calendar days (YYYY-MM-DD). Without times every day of the
+ * range is off; `startTime` moves the start on the first day and `endTime` the
+ * end on the last day ("leaves at 15:00 on Friday" = startDate=endDate=Friday,
+ * startTime=15:00).
+ */
+export interface CreateStaffTimeOffRequest {
+  /** Defaults to the caller's own staff record in the business */
+  staffId?: string;
+  type?: StaffTimeOffType;
+  startDate: string;
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
+  reason?: string;
+}
+
+export interface ReviewStaffTimeOffRequest {
+  note?: string;
+}
+
+export interface StaffTimeOffQuery {
+  staffId?: string;
+  status?: StaffTimeOffStatus;
+  startDate?: string;
+  endDate?: string;
+}
+
+/** An appointment of the absent staff member that falls into the time off */
+export interface TimeOffAffectedAppointment {
+  id: string;
+  customerName: string;
+  serviceId: string;
+  serviceName: string;
+  startTime: string;
+  endTime: string;
+  status: string;
+  /** Staff qualified for the service who are free at that time */
+  availableStaff: Array<{ staffId: string; name: string }>;
+}
+
+export interface ResolveTimeOffAppointmentsRequest {
+  action: 'REASSIGN' | 'CANCEL';
+  appointmentIds: string[];
+  /** REASSIGN only; when omitted each appointment goes to its first free qualified staff member */
+  targetStaffId?: string;
+  reason?: string;
+}
+
+export interface ResolveTimeOffAppointmentsResult {
+  reassigned: Array<{ appointmentId: string; staffId: string }>;
+  cancelled: string[];
+  failed: Array<{ appointmentId: string; error: string }>;
+}
@@ -0,0 +1,104 @@
+/**
+ * Waitlist Types
+ * Customers waiting for a freed slot and the time-limited offers made to them
+ */
+
+export type WaitlistStatus = 'WAITING' | 'OFFERED' | 'BOOKED' | 'EXPIRED' | 'CANCELED';
+export type WaitlistOfferStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED';
+
+export interface WaitlistOfferData {
+  id: string;
+  entryId: string;
+  businessId: string;
+  serviceId: string;
+  staffId?: string;
+  sourceAppointmentId?: string;
+  startTime: Date;
+  endTime: Date;
+  status: WaitlistOfferStatus;
+  expiresAt: Date;
+  respondedAt?: Date;
+  appointmentId?: string;
+  createdAt: Date;
+  /** Customer the slot is held for (only on hold lookups) */
+  customerId?: string;
+}
+
+export interface WaitlistEntryData {
+  id: string;
+  businessId: string;
+  serviceId: string;
+  staffId?: string;
+  customerId: string;
+  dateFrom: Date;
+  dateTo: Date;
+  earliestTime?: string;
+  latestTime?: string;
+  status: WaitlistStatus;
+  notes?: string;
+  appointmentId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  /** Most recent offers first */
+  offers?: WaitlistOfferData[];
+  customer?: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    phoneNumber: string;
+  };
+  service?: {
+    id: string;
+    name: string;
+    duration: number;
+  };
+}
+
+export interface JoinWaitlistRequest {
+  businessId: string;
+  serviceId: string;
+  staffId?: string;
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string; // YYYY-MM-DD
+  earliestTime?: string; // HH:MM
+  latestTime?: string; // HH:MM
+  notes?: string;
+}
+
+/** A window of staff time that became free (cancellation, rejection, no-show) */
+export interface FreedSlot {
+  businessId: string;
+  serviceId: string;
+  staffId?: string;
+  startTime: Date;
+  endTime: Date;
+  sourceAppointmentId: string;
+}
+
+export interface WaitlistDayView {
+  date: string;
+  entries: WaitlistEntryData[];
+  pendingOffers: number;
+}
+
+export interface WaitlistConversionReport {
+  businessId: string;
+  entriesCreated: number;
+  offersSent: number;
+  offersAccepted: number;
+  offersDeclined: number;
+  offersExpired: number;
+  /** Accepted offers / offers sent, in percent */
+  offerAcceptanceRate: number;
+  /** Entries that ended with a booking / entries created, in percent */
+  conversionRate: number;
+  /** Average minutes between an offer and its acceptance */
+  averageMinutesToAccept: number;
+  revenueRecovered: number;
+  byService: Array<{
+    serviceId: string;
+    serviceName: string;
+    entries: number;
+    booked: number;
+  }>;
+}
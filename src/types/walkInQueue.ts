@@ -0,0 +1,98 @@
+/**
+ * Walk-in Queue Types
+ * Customers who come in without an appointment and wait for a staff member
+ */
+
+export type WalkInTicketStatus = 'WAITING' | 'CALLED' | 'SKIPPED' | 'CONVERTED' | 'CANCELLED';
+export type WalkInTicketSource = 'STAFF' | 'SELF_SERVICE';
+
+export interface WalkInTicketData {
+  id: string;
+  businessId: string;
+  serviceId: string;
+  /** Requested staff member; undefined means any staff */
+  staffId?: string;
+  /** Staff member who called the ticket */
+  servedByStaffId?: string;
+  customerId?: string;
+  customerName: string;
+  customerPhone?: string;
+  /** Business calendar day the ticket belongs to */
+  queueDate: Date;
+  /** Number shown to the customer, counted per business and day */
+  number: number;
+  status: WalkInTicketStatus;
+  source: WalkInTicketSource;
+  notes?: string;
+  createdBy: string;
+  calledAt?: Date;
+  skippedAt?: Date;
+  closedAt?: Date;
+  appointmentId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  service?: {
+    id: string;
+    name: string;
+    duration: number;
+  };
+}
+
+/** A ticket with its place in line */
+export interface WalkInQueueEntry extends WalkInTicketData {
+  /** 1-based place among the waiting tickets of the same line (the staff member or any staff) */
+  position?: number;
+  /** Minutes until a staff member is expected to be free for the ticket */
+  estimatedWaitMinutes?: number;
+  /** Staff member the estimate expects to serve the ticket */
+  estimatedStaffId?: string;
+}
+
+/**
+ * Staff add a ticket for someone standing at the counter; customers taking a
+ * ticket themselves (self-service) only choose the service and staff member.
+ */
+export interface CreateWalkInTicketRequest {
+  serviceId: string;
+  staffId?: string;
+  customerId?: string;
+  customerName?: string;
+  customerPhone?: string;
+  notes?: string;
+}
+
+export interface CallNextWalkInRequest {
+  /** Managers can call for another staff member; defaults to the caller's own staff record */
+  staffId?: string;
+}
+
+export interface ConvertWalkInTicketRequest {
+  /** Required when the ticket has no customer account and none matches its phone number */
+  customerId?: string;
+  /** Defaults to the staff member who called the ticket */
+  staffId?: string;
+}
+
+export interface WalkInQueueView {
+  date: string;
+  timezone: string;
+  called: WalkInQueueEntry[];
+  waiting: WalkInQueueEntry[];
+  skipped: WalkInQueueEntry[];
+}
+
+/** What the display screen in the shop shows; no customer details */
+export interface PublicWalkInQueueStatus {
+  businessName: string;
+  date: string;
+  called: Array<{ number: number; staffName?: string; calledAt: string }>;
+  waiting: Array<{
+    number: number;
+    serviceName: string;
+    staffName?: string;
+    position: number;
+    /** Undefined when no active staff member can take the ticket */
+    estimatedWaitMinutes?: number;
+  }>;
+  lastUpdated: string;
+}
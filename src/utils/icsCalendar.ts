@@ -0,0 +1,230 @@
+/**
+ * iCalendar (RFC 5545) rendering for subscription feeds.
+ *
+ * Times are written as wall-clock values with a TZID and the matching VTIMEZONE is
+ * generated from the runtime's timezone database for the span the feed covers, so
+ * calendar apps place events correctly across DST changes without needing to know
+ * the zone themselves.
+ */
+
+import { WallTime, getTimezoneOffset, toWallTime } from './timezoneHelper';
+
+export type IcsEventStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  timezone: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  status: IcsEventStatus;
+  /** OPAQUE blocks free/busy lookups, TRANSPARENT does not */
+  transparency?: 'OPAQUE' | 'TRANSPARENT';
+  lastModified?: Date;
+}
+
+export interface IcsCalendar {
+  name: string;
+  /** Zone used by clients for anything without an explicit TZID */
+  timezone: string;
+  events: IcsEvent[];
+  /** Span the VTIMEZONE transitions must cover */
+  from: Date;
+  to: Date;
+  /** Suggested refresh interval for subscribing clients, in minutes */
+  refreshMinutes?: number;
+}
+
+const PRODID = '-//RandevuBu//Calendar Feed//TR';
+const MAX_LINE_OCTETS = 75;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+interface OffsetTransition {
+  at: Date;
+  from: number;
+  to: number;
+}
+
+/**
+ * Offset changes of the zone in [from, to]. Days are scanned for a change and the
+ * exact minute is then found by bisection; zones change offset at most a few times a
+ * year, so a day-level scan cannot miss one.
+ */
+export function findOffsetTransitions(timezone: string, from: Date, to: Date): OffsetTransition[] {
+  const transitions: OffsetTransition[] = [];
+  let cursor = from.getTime();
+  let cursorOffset = getTimezoneOffset(from, timezone);
+
+  while (cursor < to.getTime()) {
+    const next = Math.min(cursor + DAY_MS, to.getTime());
+    const nextOffset = getTimezoneOffset(new Date(next), timezone);
+    if (nextOffset !== cursorOffset) {
+      let low = cursor;
+      let high = next;
+      while (high - low > MINUTE_MS) {
+        const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (getTimezoneOffset(new Date(mid), timezone) === cursorOffset) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      transitions.push({ at: new Date(high), from: cursorOffset, to: nextOffset });
+    }
+    cursor = next;
+    cursorOffset = nextOffset;
+  }
+
+  return transitions;
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function formatWall(wall: WallTime): string {
+  return `${pad(wall.year, 4)}${pad(wall.month)}${pad(wall.day)}T${pad(wall.hour)}${pad(wall.minute)}${pad(wall.second)}`;
+}
+
+/** Wall-clock time of the instant at a fixed UTC offset */
+function shiftedWallTime(date: Date, offsetMinutes: number): WallTime {
+  const shifted = new Date(date.getTime() + offsetMinutes * MINUTE_MS);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    second: shifted.getUTCSeconds()
+  };
+}
+
+function formatUtc(date: Date): string {
+  return `${date.toISOString().replace(/[-:]/g, '').split('.')[0]}Z`;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+/** Escapes a TEXT value (RFC 5545 §3.3.11) */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/** Folds a content line at 75 octets without splitting a UTF-8 character */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const segments: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  // Continuation lines start with a space, which counts towards their 75 octets
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, 'utf8');
+    if (currentOctets + octets > limit) {
+      segments.push(current);
+      current = '';
+      currentOctets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  segments.push(current);
+
+  return segments.join('\r\n ');
+}
+
+function buildTimezone(timezone: string, from: Date, to: Date): string[] {
+  const transitions = findOffsetTransitions(timezone, from, to);
+  const initialOffset = getTimezoneOffset(from, timezone);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timezone}`];
+
+  const observance = (kind: 'STANDARD' | 'DAYLIGHT', start: Date, offsetFrom: number, offsetTo: number) => {
+    lines.push(
+      `BEGIN:${kind}`,
+      // Observance onsets are local time in the offset being left
+      `DTSTART:${formatWall(shiftedWallTime(start, offsetFrom))}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`
+    );
+  };
+
+  const first = transitions[0];
+  const initialIsDaylight = first !== undefined && first.to < first.from;
+  observance(initialIsDaylight ? 'DAYLIGHT' : 'STANDARD', from, initialOffset, initialOffset);
+
+  for (const transition of transitions) {
+    observance(transition.to > transition.from ? 'DAYLIGHT' : 'STANDARD', transition.at, transition.from, transition.to);
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+function buildEvent(event: IcsEvent, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    `DTSTART;TZID=${event.timezone}:${formatWall(toWallTime(event.start, event.timezone))}`,
+    `DTEND;TZID=${event.timezone}:${formatWall(toWallTime(event.end, event.timezone))}`,
+    `SUMMARY:${escapeText(event.summary)}`
+  ];
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  lines.push(`STATUS:${event.status}`);
+  lines.push(`TRANSP:${event.transparency ?? (event.status === 'CANCELLED' ? 'TRANSPARENT' : 'OPAQUE')}`);
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/** Renders the calendar as a CRLF-delimited, folded iCalendar document */
+export function renderCalendar(calendar: IcsCalendar, now: Date = new Date()): string {
+  const timezones = new Set<string>([calendar.timezone, ...calendar.events.map(e => e.timezone)]);
+  const refresh = calendar.refreshMinutes ?? 60;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    `X-WR-TIMEZONE:${calendar.timezone}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${refresh}M`,
+    `X-PUBLISHED-TTL:PT${refresh}M`
+  ];
+
+  for (const timezone of timezones) {
+    lines.push(...buildTimezone(timezone, calendar.from, calendar.to));
+  }
+  for (const event of calendar.events) {
+    lines.push(...buildEvent(event, now));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,489 @@
+/**
+ * iCalendar (RFC 5545) parsing for imported busy time.
+ *
+ * Reads only what is needed to know when someone is busy: VEVENT start and end,
+ * RRULE recurrence (DAILY/WEEKLY/MONTHLY/YEARLY with INTERVAL, COUNT, UNTIL,
+ * BYDAY, BYMONTHDAY and BYMONTH), EXDATE and RECURRENCE-ID overrides. Free
+ * (TRANSP:TRANSPARENT) and cancelled events are skipped. Recurrences are expanded
+ * in the event's own wall-clock time, so a weekly 09:00 stays at 09:00 across DST.
+ * TZIDs that are not IANA zones (e.g. Outlook's "W. Europe Standard Time") and
+ * floating times fall back to the given default zone.
+ */
+
+import { WallTime, fromWallTime, isValidTimezone } from './timezoneHelper';
+
+export interface IcsBusyInterval {
+  /** UID of the source event; recurring events share it across occurrences */
+  uid: string;
+  start: Date;
+  end: Date;
+}
+
+export interface IcsParseOptions {
+  /** Zone for floating times, all-day events and unknown TZIDs */
+  defaultTimezone: string;
+  /** Only occurrences overlapping [from, to) are returned */
+  from: Date;
+  to: Date;
+  /** Stops expanding once this many intervals were collected */
+  maxIntervals?: number;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsDateValue {
+  wall: WallTime;
+  timezone: string;
+  isDate: boolean;
+}
+
+interface IcsDuration {
+  days: number;
+  seconds: number;
+}
+
+interface RawEvent {
+  uid: string;
+  start: IcsDateValue;
+  end?: IcsDateValue;
+  duration?: IcsDuration;
+  rrule?: string;
+  exdates: IcsDateValue[];
+  recurrenceId?: IcsDateValue;
+  cancelled: boolean;
+  transparent: boolean;
+}
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay: { weekday: number; ordinal?: number }[];
+  byMonthDay: number[];
+  byMonth: number[];
+}
+
+interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_INTERVALS = 5000;
+/** Recurrence periods (days, weeks, months or years) walked per event at most */
+const MAX_RECURRENCE_PERIODS = 5000;
+const WEEKDAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+/** Busy intervals of the calendar overlapping the window, sorted by start */
+export function parseBusyIntervals(text: string, options: IcsParseOptions): IcsBusyInterval[] {
+  const lines = unfoldLines(text);
+  if (!lines.some((line) => line.toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar document');
+  }
+
+  const events = readEvents(lines, options.defaultTimezone);
+  const maxIntervals = options.maxIntervals ?? DEFAULT_MAX_INTERVALS;
+
+  // RECURRENCE-ID entries replace single occurrences of the recurring event with the same UID
+  const overrides = new Map<string, Set<number>>();
+  for (const event of events) {
+    if (event.recurrenceId) {
+      const replaced = overrides.get(event.uid) ?? new Set<number>();
+      replaced.add(toInstant(event.recurrenceId).getTime());
+      overrides.set(event.uid, replaced);
+    }
+  }
+
+  const intervals: IcsBusyInterval[] = [];
+  for (const event of events) {
+    if (intervals.length >= maxIntervals) {
+      break;
+    }
+    if (event.cancelled || event.transparent) {
+      continue;
+    }
+
+    const starts = event.rrule && !event.recurrenceId
+      ? expandRecurrence(event, options.from, options.to)
+      : [event.start];
+    const replaced = event.recurrenceId ? undefined : overrides.get(event.uid);
+    const excluded = new Set(event.exdates.map((exdate) => toInstant(exdate).getTime()));
+
+    for (const start of starts) {
+      const startInstant = toInstant(start);
+      if (excluded.has(startInstant.getTime()) || replaced?.has(startInstant.getTime())) {
+        continue;
+      }
+      const end = occurrenceEnd(event, start, startInstant);
+      if (end <= startInstant || end <= options.from || startInstant >= options.to) {
+        continue;
+      }
+      intervals.push({ uid: event.uid, start: startInstant, end });
+      if (intervals.length >= maxIntervals) {
+        break;
+      }
+    }
+  }
+
+  return intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  const separators: number[] = [];
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === ';') {
+      separators.push(i);
+    } else if (!inQuotes && char === ':') {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) {
+    return null;
+  }
+
+  const bounds = [...separators, colon];
+  const name = line.slice(0, bounds[0]).toUpperCase();
+  const params: Record<string, string> = {};
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const param = line.slice(bounds[i] + 1, bounds[i + 1]);
+    const eq = param.indexOf('=');
+    if (eq > 0) {
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name, params, value: line.slice(colon + 1) };
+}
+
+function readEvents(lines: string[], defaultTimezone: string): RawEvent[] {
+  const events: RawEvent[] = [];
+  let current: ContentLine[] | null = null;
+  // Nested components (VALARM) inside an event are skipped
+  let nested = 0;
+
+  for (const line of lines) {
+    const content = parseContentLine(line);
+    if (!content) {
+      continue;
+    }
+    const value = content.value.trim().toUpperCase();
+
+    if (content.name === 'BEGIN') {
+      if (value === 'VEVENT' && !current) {
+        current = [];
+      } else if (current) {
+        nested++;
+      }
+      continue;
+    }
+    if (content.name === 'END') {
+      if (current && nested > 0) {
+        nested--;
+      } else if (current && value === 'VEVENT') {
+        const event = toRawEvent(current, defaultTimezone, events.length);
+        if (event) {
+          events.push(event);
+        }
+        current = null;
+      }
+      continue;
+    }
+    if (current && nested === 0) {
+      current.push(content);
+    }
+  }
+
+  return events;
+}
+
+function toRawEvent(properties: ContentLine[], defaultTimezone: string, index: number): RawEvent | null {
+  const find = (name: string) => properties.find((property) => property.name === name);
+  const dtstart = find('DTSTART');
+  if (!dtstart) {
+    return null;
+  }
+
+  const dtend = find('DTEND');
+  const duration = find('DURATION');
+  const recurrenceId = find('RECURRENCE-ID');
+  const exdates = properties
+    .filter((property) => property.name === 'EXDATE')
+    .flatMap((property) => property.value.split(',').map((value) => parseDateValue(value, property.params, defaultTimezone)));
+
+  return {
+    uid: find('UID')?.value.trim() || `event-${index}`,
+    start: parseDateValue(dtstart.value, dtstart.params, defaultTimezone),
+    end: dtend ? parseDateValue(dtend.value, dtend.params, defaultTimezone) : undefined,
+    duration: duration ? parseDuration(duration.value) : undefined,
+    rrule: find('RRULE')?.value.trim(),
+    exdates,
+    recurrenceId: recurrenceId ? parseDateValue(recurrenceId.value, recurrenceId.params, defaultTimezone) : undefined,
+    cancelled: find('STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+    transparent: find('TRANSP')?.value.trim().toUpperCase() === 'TRANSPARENT'
+  };
+}
+
+function parseDateValue(value: string, params: Record<string, string>, defaultTimezone: string): IcsDateValue {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid date value "${value}"`);
+  }
+
+  const isDate = params.VALUE === 'DATE' || match[4] === undefined;
+  return {
+    wall: {
+      year: Number(match[1]),
+      month: Number(match[2]),
+      day: Number(match[3]),
+      hour: isDate ? 0 : Number(match[4]),
+      minute: isDate ? 0 : Number(match[5]),
+      second: isDate ? 0 : Number(match[6] ?? 0)
+    },
+    timezone: match[7] ? 'UTC' : resolveTimezone(params.TZID, defaultTimezone),
+    isDate
+  };
+}
+
+function resolveTimezone(tzid: string | undefined, defaultTimezone: string): string {
+  if (!tzid) {
+    return defaultTimezone;
+  }
+  // Some producers prefix IANA ids with a slash
+  const cleaned = tzid.replace(/^\//, '');
+  return isValidTimezone(cleaned) ? cleaned : defaultTimezone;
+}
+
+function parseDuration(value: string): IcsDuration {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${value}"`);
+  }
+  const sign = match[1] === '-' ? -1 : 1;
+  return {
+    days: sign * (Number(match[2] ?? 0) * 7 + Number(match[3] ?? 0)),
+    seconds: sign * (Number(match[4] ?? 0) * 3600 + Number(match[5] ?? 0) * 60 + Number(match[6] ?? 0))
+  };
+}
+
+function toInstant(value: IcsDateValue): Date {
+  return fromWallTime(value.wall, value.timezone);
+}
+
+function withDay(value: IcsDateValue, day: CalendarDay): IcsDateValue {
+  return { ...value, wall: { ...value.wall, ...day } };
+}
+
+function addDays(day: CalendarDay, days: number): CalendarDay {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day) + days * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function weekdayOf(day: CalendarDay): number {
+  return new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function compareDays(a: CalendarDay, b: CalendarDay): number {
+  return (a.year - b.year) || (a.month - b.month) || (a.day - b.day);
+}
+
+/**
+ * End of one occurrence: all-day events keep their length in calendar days, timed
+ * ones their exact length. Without DTEND or DURATION an all-day event lasts the
+ * day and a timed one is instantaneous (and so never busy).
+ */
+function occurrenceEnd(event: RawEvent, start: IcsDateValue, startInstant: Date): Date {
+  if (event.end) {
+    if (event.start.isDate && event.end.isDate) {
+      const days = Math.round(
+        (Date.UTC(event.end.wall.year, event.end.wall.month - 1, event.end.wall.day)
+          - Date.UTC(event.start.wall.year, event.start.wall.month - 1, event.start.wall.day)) / DAY_MS
+      );
+      return toInstant(withDay(start, addDays(start.wall, days)));
+    }
+    return new Date(startInstant.getTime() + (toInstant(event.end).getTime() - toInstant(event.start).getTime()));
+  }
+  if (event.duration) {
+    const shifted = toInstant(withDay(start, addDays(start.wall, event.duration.days)));
+    return new Date(shifted.getTime() + event.duration.seconds * 1000);
+  }
+  if (start.isDate) {
+    return toInstant(withDay(start, addDays(start.wall, 1)));
+  }
+  return startInstant;
+}
+
+function parseRule(rrule: string, timezone: string): RecurrenceRule {
+  const parts = new Map(
+    rrule.split(';').map((part) => {
+      const [key, value = ''] = part.split('=');
+      return [key.toUpperCase(), value.toUpperCase()] as const;
+    })
+  );
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+    throw new Error(`Unsupported recurrence frequency "${freq ?? ''}"`);
+  }
+
+  const until = parts.get('UNTIL');
+  const list = (key: string) => (parts.get(key) ?? '').split(',').filter((item) => item.length > 0);
+
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.get('INTERVAL') ?? 1) || 1),
+    count: parts.has('COUNT') ? Math.max(0, Number(parts.get('COUNT')) || 0) : undefined,
+    until: until ? toInstant(parseDateValue(until, {}, timezone)) : undefined,
+    byDay: list('BYDAY').flatMap((item) => {
+      const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+      return match ? [{ weekday: WEEKDAYS[match[2]], ordinal: match[1] ? Number(match[1]) : undefined }] : [];
+    }),
+    byMonthDay: list('BYMONTHDAY').map(Number).filter((day) => Number.isInteger(day) && day !== 0),
+    byMonth: list('BYMONTH').map(Number).filter((month) => month >= 1 && month <= 12)
+  };
+}
+
+/** Days of the month the rule selects, ascending */
+function monthDays(year: number, month: number, rule: RecurrenceRule, defaultDay: number): number[] {
+  const length = daysInMonth(year, month);
+  let days: number[];
+
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay.map((day) => (day > 0 ? day : length + day + 1));
+  } else if (rule.byDay.length > 0) {
+    days = rule.byDay.flatMap(({ weekday, ordinal }) => {
+      const first = (weekday - weekdayOf({ year, month, day: 1 }) + 7) % 7 + 1;
+      const matching: number[] = [];
+      for (let day = first; day <= length; day += 7) {
+        matching.push(day);
+      }
+      if (ordinal === undefined) {
+        return matching;
+      }
+      const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      return picked === undefined ? [] : [picked];
+    });
+  } else {
+    days = [defaultDay];
+  }
+
+  return [...new Set(days)].filter((day) => day >= 1 && day <= length).sort((a, b) => a - b);
+}
+
+/** Days of one recurrence period (the k-th day, week, month or year from the start) */
+function periodDays(rule: RecurrenceRule, start: CalendarDay, period: number): CalendarDay[] {
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = addDays(start, period * rule.interval);
+      const weekdayOk = rule.byDay.length === 0 || rule.byDay.some((entry) => entry.weekday === weekdayOf(day));
+      const monthOk = rule.byMonth.length === 0 || rule.byMonth.includes(day.month);
+      return weekdayOk && monthOk ? [day] : [];
+    }
+    case 'WEEKLY': {
+      // Weeks start on Monday (the RFC default WKST)
+      const monday = addDays(start, -((weekdayOf(start) + 6) % 7) + period * rule.interval * 7);
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((entry) => entry.weekday) : [weekdayOf(start)];
+      return [...new Set(weekdays)]
+        .map((weekday) => addDays(monday, (weekday + 6) % 7))
+        .sort(compareDays);
+    }
+    case 'MONTHLY': {
+      const index = start.month - 1 + period * rule.interval;
+      const year = start.year + Math.floor(index / 12);
+      const month = (index % 12) + 1;
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(month)) {
+        return [];
+      }
+      return monthDays(year, month, rule, start.day).map((day) => ({ year, month, day }));
+    }
+    case 'YEARLY': {
+      const year = start.year + period * rule.interval;
+      const months = rule.byMonth.length > 0 ? [...rule.byMonth].sort((a, b) => a - b) : [start.month];
+      return months.flatMap((month) => monthDays(year, month, rule, start.day).map((day) => ({ year, month, day })));
+    }
+  }
+}
+
+/**
+ * First period worth walking for occurrences from `from` on. Rules with COUNT are
+ * walked from the start since every earlier occurrence counts; the month of margin
+ * keeps long occurrences that began earlier.
+ */
+function firstPeriod(rule: RecurrenceRule, start: CalendarDay, from: Date): number {
+  if (rule.count !== undefined) {
+    return 0;
+  }
+  const margin = new Date(from.getTime() - 31 * DAY_MS);
+  const days = Math.floor(
+    (Date.UTC(margin.getUTCFullYear(), margin.getUTCMonth(), margin.getUTCDate())
+      - Date.UTC(start.year, start.month - 1, start.day)) / DAY_MS
+  );
+  if (days <= 0) {
+    return 0;
+  }
+
+  const months = (margin.getUTCFullYear() - start.year) * 12 + margin.getUTCMonth() + 1 - start.month;
+  switch (rule.freq) {
+    case 'DAILY':
+      return Math.floor(days / rule.interval);
+    case 'WEEKLY':
+      return Math.max(0, Math.floor(days / 7 / rule.interval) - 1);
+    case 'MONTHLY':
+      return Math.max(0, Math.floor(months / rule.interval) - 1);
+    case 'YEARLY':
+      return Math.max(0, Math.floor(months / 12 / rule.interval) - 1);
+  }
+}
+
+/** Occurrence starts of a recurring event before `horizon`, COUNT and UNTIL applied */
+function expandRecurrence(event: RawEvent, from: Date, horizon: Date): IcsDateValue[] {
+  const rule = parseRule(event.rrule!, event.start.timezone);
+  const startDay: CalendarDay = { year: event.start.wall.year, month: event.start.wall.month, day: event.start.wall.day };
+  const occurrences: IcsDateValue[] = [];
+  let counted = 0;
+
+  const first = firstPeriod(rule, startDay, from);
+  for (let period = first; period < first + MAX_RECURRENCE_PERIODS; period++) {
+    for (const day of periodDays(rule, startDay, period)) {
+      if (compareDays(day, startDay) < 0) {
+        continue;
+      }
+      const occurrence = withDay(event.start, day);
+      const instant = toInstant(occurrence);
+      if (instant >= horizon || (rule.until && instant > rule.until)) {
+        return occurrences;
+      }
+      // COUNT includes occurrences later removed by EXDATE
+      if (rule.count !== undefined && counted >= rule.count) {
+        return occurrences;
+      }
+      counted++;
+      occurrences.push(occurrence);
+    }
+  }
+
+  return occurrences;
+}
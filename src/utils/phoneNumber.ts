@@ -0,0 +1,26 @@
+import { isValidPhoneNumber, parsePhoneNumber } from 'libphonenumber-js';
+
+/**
+ * Normalizes a phone number typed by a person to E.164, the form stored on users.
+ * International numbers are taken as they are; local numbers such as
+ * "0532 123 45 67" are read as Turkish. Returns null when the number is invalid.
+ */
+export function normalizePhoneNumber(phoneNumber: string): string | null {
+  try {
+    // Attempt direct validation first
+    if (isValidPhoneNumber(phoneNumber)) {
+      const parsed = parsePhoneNumber(phoneNumber);
+      return parsed?.format('E.164') || null;
+    }
+
+    // Fallback: try parsing with TR country context (handles local formats)
+    const parsed = parsePhoneNumber(phoneNumber, 'TR');
+    if (parsed && isValidPhoneNumber(parsed.format('E.164'))) {
+      return parsed.format('E.164');
+    }
+
+    return null;
+  } catch {
+    return null;
+  }
+}
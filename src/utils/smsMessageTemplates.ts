@@ -146,6 +146,74 @@ export class AppointmentMessages {
   }): string {
     return `${params.businessName} randevu değişikliği: ${params.serviceName} hizmetiniz için randevunuz ${params.oldDate} ${params.oldTime} tarihinden ${params.newDate} ${params.newTime} tarihine taşınmıştır. Detaylar: https://randevubu.com/appointments/${params.appointmentId}`;
   }
+
+  /**
+   * Appointment handed to another staff member at the same time
+   */
+  static staffChanged(params: {
+    businessName: string;
+    serviceName: string;
+    appointmentDate: string;
+    appointmentTime: string;
+    staffName: string;
+    appointmentId: string;
+  }): string {
+    return `${params.businessName}: ${params.appointmentDate} ${params.appointmentTime} tarihli ${params.serviceName} randevunuz aynı saatte ${params.staffName} tarafından gerçekleştirilecektir. Detaylar: https://randevubu.com/appointments/${params.appointmentId}`;
+  }
+
+  /**
+   * Staff member unavailable and nobody else free at that time; new times offered
+   */
+  static staffUnavailable(params: {
+    businessName: string;
+    serviceName: string;
+    appointmentDate: string;
+    appointmentTime: string;
+    suggestionCount: number;
+    appointmentId: string;
+  }): string {
+    const next = params.suggestionCount > 0
+      ? `Sizin için ${params.suggestionCount} yeni saat önerdik`
+      : 'İşletme sizinle yeni bir saat için iletişime geçecektir';
+    return `${params.businessName}: ${params.appointmentDate} ${params.appointmentTime} tarihli ${params.serviceName} randevunuzun personeli müsait değil. ${next}. Detaylar: https://randevubu.com/appointments/${params.appointmentId}`;
+  }
+}
+
+/**
+ * Waitlist Message Templates
+ */
+export class WaitlistMessages {
+  /**
+   * A freed slot is held for the customer until the offer expires
+   */
+  static slotOffer(params: {
+    customerName: string;
+    businessName: string;
+    serviceName: string;
+    appointmentDate: string;
+    appointmentTime: string;
+    holdMinutes: number;
+    offerLink: string;
+  }): string {
+    return `Merhaba ${params.customerName}, ${params.businessName} isimli işletmede ${params.appointmentDate} ${params.appointmentTime} için ${params.serviceName} randevusu boşaldı. Bu saat ${params.holdMinutes} dakika boyunca sizin için ayrıldı. Onaylamak için: ${params.offerLink}`;
+  }
+}
+
+export class ClassMessages {
+  /**
+   * The business cancelled a group class the customer had a seat in
+   */
+  static classCancelled(params: {
+    customerName: string;
+    businessName: string;
+    serviceName: string;
+    appointmentDate: string;
+    appointmentTime: string;
+    reason?: string;
+  }): string {
+    const reasonText = params.reason ? ` Sebep: ${params.reason}.` : '';
+    return `Merhaba ${params.customerName}, ${params.businessName} isimli işletmedeki ${params.appointmentDate} ${params.appointmentTime} tarihli ${params.serviceName} dersi iptal edildi.${reasonText} Anlayışınız için teşekkür ederiz.`;
+  }
 }
 
 /**
@@ -232,6 +300,8 @@ export class TestMessages {
 export const SMSMessageTemplates = {
   verification: VerificationCodeMessages,
   appointment: AppointmentMessages,
+  waitlist: WaitlistMessages,
+  classes: ClassMessages,
   business: BusinessMessages,
   staff: StaffMessages,
   test: TestMessages,
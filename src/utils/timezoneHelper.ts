@@ -203,4 +203,176 @@ export function createDateRangeFilter(startDateStr: string, endDateStr: string):
     gte: startDate,
     lte: endDate
   };
-}
\ No newline at end of file
+}
+
+// ============================================================================
+// Business timezone helpers
+// ============================================================================
+// The helpers above read and build dates in the server's local time, which only
+// matches Istanbul when the server runs there. Availability (working hours,
+// overrides, closures, booked ranges and reservation rules) is computed with the
+// helpers below instead: they take the business's IANA zone and work on real
+// instants, so they hold on a UTC server and across DST changes.
+
+export const DEFAULT_BUSINESS_TIMEZONE = ISTANBUL_TIMEZONE;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/** True when the runtime knows the IANA zone */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock time of the instant in the zone */
+export function toWallTime(date: Date, timezone: string): WallTime {
+  const parts = getFormatter(timezone).formatToParts(date);
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour') % 24,
+    minute: get('minute'),
+    second: get('second')
+  };
+}
+
+/** UTC offset of the zone at the instant, in minutes (east positive) */
+export function getTimezoneOffset(date: Date, timezone: string): number {
+  const wall = toWallTime(date, timezone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * Instant at which the zone's clocks show the wall time. A time repeated when clocks
+ * go back resolves to its first occurrence; a time skipped when they go forward is
+ * moved forward by the jump (02:30 on a spring-forward night becomes 03:30).
+ */
+export function fromWallTime(wall: WallTime, timezone: string): Date {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  const offsetBefore = getTimezoneOffset(new Date(asUtc - DAY_MS), timezone);
+  const offsetAfter = getTimezoneOffset(new Date(asUtc + DAY_MS), timezone);
+
+  const matches = [offsetBefore, offsetAfter]
+    .map((offset) => asUtc - offset * MINUTE_MS)
+    .filter((instant) => instant + getTimezoneOffset(new Date(instant), timezone) * MINUTE_MS === asUtc);
+  if (matches.length > 0) {
+    return new Date(Math.min(...matches));
+  }
+  return new Date(asUtc - offsetBefore * MINUTE_MS);
+}
+
+/** The business's zone, or Europe/Istanbul when it is missing or unknown */
+export function resolveTimezone(timezone?: string | null): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_BUSINESS_TIMEZONE;
+}
+
+function parseDateString(dateStr: string): [number, number, number] {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return [year, month, day];
+}
+
+function formatCalendarDate(year: number, month: number, day: number): string {
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** True for an existing calendar date in YYYY-MM-DD format */
+export function isValidDateString(dateStr: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+    return false;
+  }
+  const [year, month, day] = parseDateString(dateStr);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/** UTC midnight of the calendar date; Appointment.date stores the business day this way */
+export function createCalendarDate(dateStr: string): Date {
+  const [year, month, day] = parseDateString(dateStr);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/** Day of the week of the calendar date (0 = Sunday), the same in every zone */
+export function getDayOfWeekForDate(dateStr: string): number {
+  return createCalendarDate(dateStr).getUTCDay();
+}
+
+/** The calendar date `days` days after (or before, when negative) the given one */
+export function addDaysToDateString(dateStr: string, days: number): string {
+  const date = new Date(createCalendarDate(dateStr).getTime() + days * DAY_MS);
+  return formatCalendarDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+}
+
+/** Calendar days from one date to another, negative when `to` is earlier */
+export function getCalendarDaysBetween(from: string, to: string): number {
+  return Math.round((createCalendarDate(to).getTime() - createCalendarDate(from).getTime()) / DAY_MS);
+}
+
+/** Calendar date (YYYY-MM-DD) the zone's clocks show at the instant */
+export function formatDateInTimezone(date: Date, timezone: string): string {
+  const wall = toWallTime(date, timezone);
+  return formatCalendarDate(wall.year, wall.month, wall.day);
+}
+
+/** Wall-clock time (HH:MM) the zone's clocks show at the instant */
+export function formatTimeInTimezone(date: Date, timezone: string): string {
+  const wall = toWallTime(date, timezone);
+  return `${String(wall.hour).padStart(2, '0')}:${String(wall.minute).padStart(2, '0')}`;
+}
+
+/**
+ * Instant at which the zone's clocks show the time on the date. "24:00" is the end
+ * of the day; see fromWallTime for times that are repeated or skipped by a DST change.
+ */
+export function createDateTimeInTimezone(dateStr: string, timeStr: string, timezone: string): Date {
+  const [hour, minute] = timeStr.split(':').map(Number);
+  const [year, month, day] = parseDateString(hour === 24 ? addDaysToDateString(dateStr, 1) : dateStr);
+  return fromWallTime({ year, month, day, hour: hour % 24, minute, second: 0 }, timezone);
+}
+
+/**
+ * The calendar day in the zone as [start, end): from midnight to the next midnight,
+ * which are 23 or 25 hours apart on the days the clocks change.
+ */
+export function getDayBoundsInTimezone(dateStr: string, timezone: string): { start: Date; end: Date } {
+  return {
+    start: createDateTimeInTimezone(dateStr, '00:00', timezone),
+    end: createDateTimeInTimezone(addDaysToDateString(dateStr, 1), '00:00', timezone)
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * Appointment Approval Policy Tests
+ *
+ * Covers rules-based booking approval:
+ *  - requireApproval still sends every booking for approval; otherwise the first
+ *    matching rule (high-risk or first-time customer, price, outside normal hours) does
+ *  - customer history is only looked up for the rules the business uses
+ *  - approvals and rejections record the rule that asked for them
+ *  - requests left unhandled past the timeout are rejected, or escalated to the owner once
+ */
+
+import { AppointmentApprovalService } from '../../../src/services/domain/appointment/appointmentApprovalService';
+import { AppointmentService } from '../../../src/services/domain/appointment/appointmentService';
+import {
+  findApprovalRule,
+  isOutsideHours,
+  overdueApprovalAction,
+  resolveApprovalPolicy,
+} from '../../../src/services/domain/appointment/approvalRules';
+import { DEFAULT_APPROVAL_POLICY } from '../../../src/types/cancellationPolicy';
+import { AppointmentStatus } from '../../../src/types/business';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const CUSTOMER_ID = 'cust-1';
+const OWNER_ID = 'owner-1';
+const TIMEZONE = 'Europe/Istanbul';
+
+// 10:00-11:00 in Istanbul
+const daytime = {
+  start: new Date('2026-10-20T07:00:00.000Z'),
+  end: new Date('2026-10-20T08:00:00.000Z'),
+  timezone: TIMEZONE,
+  price: 500,
+};
+
+const pendingApproval = {
+  id: 'apt-1',
+  businessId: BUSINESS_ID,
+  serviceId: 'svc-cut',
+  customerId: CUSTOMER_ID,
+  date: new Date('2026-10-22T07:00:00.000Z'),
+  startTime: new Date('2026-10-22T07:00:00.000Z'),
+  endTime: new Date('2026-10-22T08:00:00.000Z'),
+  duration: 60,
+  status: AppointmentStatus.PENDING_APPROVAL,
+  price: 500,
+  currency: 'TRY',
+  bookedAt: new Date('2026-10-20T07:00:00.000Z'),
+  approvalRule: 'FIRST_TIME_CUSTOMER' as const,
+  approvalRequestedAt: new Date('2026-10-20T07:00:00.000Z'),
+  reminderSent: false,
+  createdAt: new Date('2026-10-20T07:00:00.000Z'),
+  updatedAt: new Date('2026-10-20T07:00:00.000Z'),
+};
+
+describe('approval rules', () => {
+  it('asks approval for every booking while requireApproval is on', () => {
+    expect(findApprovalRule(DEFAULT_APPROVAL_POLICY, { ...daytime, requireApproval: true })).toBe('ALWAYS');
+    expect(findApprovalRule(DEFAULT_APPROVAL_POLICY, { ...daytime, requireApproval: false })).toBeNull();
+  });
+
+  it('returns the first rule the booking matches', () => {
+    const policy = {
+      ...DEFAULT_APPROVAL_POLICY,
+      firstTimeCustomers: true,
+      highRiskCustomers: true,
+      priceAbove: 400,
+      normalHours: { start: '09:00', end: '18:00' },
+    };
+    const facts = { ...daytime, requireApproval: false, firstVisit: false, riskLevel: 'LOW' as const, price: 300 };
+
+    expect(findApprovalRule(policy, facts)).toBeNull();
+    expect(findApprovalRule(policy, { ...facts, riskLevel: 'HIGH', firstVisit: true })).toBe('HIGH_RISK_CUSTOMER');
+    expect(findApprovalRule(policy, { ...facts, firstVisit: true })).toBe('FIRST_TIME_CUSTOMER');
+    expect(findApprovalRule(policy, { ...facts, price: 450 })).toBe('PRICE_THRESHOLD');
+    expect(findApprovalRule(policy, {
+      ...facts,
+      start: new Date('2026-10-20T15:30:00.000Z'),
+      end: new Date('2026-10-20T16:00:00.000Z'),
+    })).toBe('OUTSIDE_NORMAL_HOURS');
+    expect(findApprovalRule({ ...policy, priceAbove: null }, { ...facts, price: 10000 })).toBeNull();
+  });
+
+  it('checks normal hours in business time', () => {
+    const hours = { start: '09:00', end: '18:00' };
+
+    expect(isOutsideHours(daytime.start, daytime.end, hours, TIMEZONE)).toBe(false);
+    // 08:30-09:30 starts before the normal hours
+    expect(isOutsideHours(new Date('2026-10-20T05:30:00.000Z'), new Date('2026-10-20T06:30:00.000Z'), hours, TIMEZONE)).toBe(true);
+    // 17:00-18:00 ends right at the close
+    expect(isOutsideHours(new Date('2026-10-20T14:00:00.000Z'), new Date('2026-10-20T15:00:00.000Z'), hours, TIMEZONE)).toBe(false);
+  });
+
+  it('reads the policy from the business settings, merged with the defaults', () => {
+    expect(resolveApprovalPolicy(null)).toEqual(DEFAULT_APPROVAL_POLICY);
+    expect(resolveApprovalPolicy({ approvalPolicy: { priceAbove: 750 } })).toEqual({ ...DEFAULT_APPROVAL_POLICY, priceAbove: 750 });
+  });
+
+  it('rejects or escalates a request once its timeout has passed, escalating it only once', () => {
+    const now = new Date('2026-10-20T19:00:00.000Z');
+    const escalate = { timeoutHours: 12, timeoutAction: 'ESCALATE' as const };
+
+    expect(overdueApprovalAction(pendingApproval, { timeoutHours: null, timeoutAction: 'REJECT' }, now)).toBeNull();
+    expect(overdueApprovalAction(pendingApproval, { timeoutHours: 13, timeoutAction: 'REJECT' }, now)).toBeNull();
+    expect(overdueApprovalAction(pendingApproval, { timeoutHours: 12, timeoutAction: 'REJECT' }, now)).toBe('REJECT');
+    expect(overdueApprovalAction(pendingApproval, escalate, now)).toBe('ESCALATE');
+    expect(overdueApprovalAction({ ...pendingApproval, approvalEscalatedAt: now }, escalate, now)).toBeNull();
+  });
+});
+
+describe('AppointmentService approval', () => {
+  function makeService(options: { settings?: unknown; requireApproval?: boolean; updated?: number } = {}) {
+    const appointmentRepository = {
+      findById: jest.fn().mockResolvedValue(pendingApproval),
+      hasBookedAtBusiness: jest.fn().mockResolvedValue(false),
+    };
+    const userBehaviorRepository = {
+      getUserSummary: jest.fn().mockResolvedValue({ riskLevel: 'HIGH' }),
+    };
+    const statusChangeRepository = { record: jest.fn().mockResolvedValue(undefined) };
+    const prisma = { appointment: { updateMany: jest.fn().mockResolvedValue({ count: options.updated ?? 1 }) } };
+
+    const service = new AppointmentService(
+      appointmentRepository as any,
+      { findById: jest.fn().mockResolvedValue(null) } as any,
+      userBehaviorRepository as any,
+      {} as any, // businessClosureRepository
+      {
+        findById: jest.fn().mockResolvedValue({
+          id: BUSINESS_ID,
+          requireApproval: !!options.requireApproval,
+          settings: options.settings ?? {},
+        }),
+      } as any,
+      { hasPermission: jest.fn().mockResolvedValue(true) } as any,
+      {} as any, // businessService
+      {} as any, // notificationService
+      {} as any, // usageService
+      {
+        userRepository: { findById: jest.fn().mockResolvedValue(null) },
+        appointmentStatusChangeRepository: statusChangeRepository,
+      } as any,
+      {} as any, // cancellationPolicyService
+      {} as any, // notificationGateway
+      prisma as any
+    );
+    jest.spyOn(service as any, 'sendApprovalNotificationToCustomer').mockResolvedValue(undefined);
+
+    return { service, appointmentRepository, userBehaviorRepository, statusChangeRepository, prisma };
+  }
+
+  it('only looks up the customer history the enabled rules need', async () => {
+    const plain = makeService();
+    expect(await (plain.service as any).resolveApprovalRule(BUSINESS_ID, CUSTOMER_ID, daytime)).toBeNull();
+    expect(plain.appointmentRepository.hasBookedAtBusiness).not.toHaveBeenCalled();
+    expect(plain.userBehaviorRepository.getUserSummary).not.toHaveBeenCalled();
+
+    const risky = makeService({ settings: { approvalPolicy: { highRiskCustomers: true } } });
+    expect(await (risky.service as any).resolveApprovalRule(BUSINESS_ID, CUSTOMER_ID, daytime)).toBe('HIGH_RISK_CUSTOMER');
+    expect(risky.userBehaviorRepository.getUserSummary).toHaveBeenCalledWith(CUSTOMER_ID);
+
+    const newcomers = makeService({ settings: { approvalPolicy: { firstTimeCustomers: true } } });
+    expect(await (newcomers.service as any).resolveApprovalRule(BUSINESS_ID, CUSTOMER_ID, daytime)).toBe('FIRST_TIME_CUSTOMER');
+    expect(newcomers.appointmentRepository.hasBookedAtBusiness).toHaveBeenCalledWith(CUSTOMER_ID, BUSINESS_ID);
+  });
+
+  it('records the rule that asked for the approval when staff approve', async () => {
+    const { service, statusChangeRepository, prisma } = makeService();
+
+    await service.approveAppointment('staff-user-1', 'apt-1');
+
+    expect(prisma.appointment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'apt-1', status: AppointmentStatus.PENDING_APPROVAL },
+      data: { status: AppointmentStatus.CONFIRMED, confirmedAt: expect.any(Date) },
+    });
+    expect(statusChangeRepository.record).toHaveBeenCalledWith(
+      pendingApproval,
+      pendingApproval,
+      { channel: 'STAFF_PANEL', actorId: 'staff-user-1', reason: 'Approval rule: FIRST_TIME_CUSTOMER' }
+    );
+  });
+
+  it('refuses an approval once the request was already decided on', async () => {
+    const { service } = makeService({ updated: 0 });
+
+    await expect(service.approveAppointment('staff-user-1', 'apt-1')).rejects.toMatchObject({
+      code: 'APPOINTMENT_NOT_PENDING_APPROVAL',
+    });
+  });
+
+  it('rejects an overdue request as the job, naming the rule', async () => {
+    const { service, statusChangeRepository } = makeService();
+    const released = jest.fn().mockResolvedValue(undefined);
+    service.onSlotReleased(released);
+
+    await service.rejectOverdueApproval(pendingApproval);
+
+    expect(statusChangeRepository.record).toHaveBeenCalledWith(
+      pendingApproval,
+      pendingApproval,
+      { channel: 'JOB', reason: 'Approval timed out (Approval rule: FIRST_TIME_CUSTOMER)' }
+    );
+    expect(released).toHaveBeenCalledWith(expect.objectContaining({ id: 'apt-1' }));
+  });
+});
+
+describe('AppointmentApprovalService', () => {
+  const now = new Date('2026-10-21T08:00:00.000Z');
+
+  function makeService(settings: unknown, alertSent = true) {
+    const appointmentRepository = {
+      findPendingApprovalsWithTimeout: jest.fn().mockResolvedValue([
+        { appointment: pendingApproval, businessSettings: settings, ownerId: OWNER_ID, customerName: 'Ayşe Yılmaz', serviceName: 'Saç Kesimi' },
+      ]),
+      markApprovalEscalated: jest.fn().mockResolvedValue(true),
+    };
+    const appointmentService = { rejectOverdueApproval: jest.fn().mockResolvedValue({ ...pendingApproval }) };
+    const notificationGateway = {
+      sendSystemAlert: jest.fn().mockResolvedValue({
+        success: alertSent,
+        sentChannels: alertSent ? ['PUSH'] : [],
+        skippedChannels: alertSent ? [] : [{ channel: 'PUSH', reason: 'Quiet hours' }],
+      }),
+    };
+
+    const service = new AppointmentApprovalService(
+      appointmentRepository as any,
+      appointmentService as any,
+      notificationGateway as any
+    );
+    return { service, appointmentRepository, appointmentService, notificationGateway };
+  }
+
+  it('rejects overdue requests when the policy says so', async () => {
+    const { service, appointmentService, notificationGateway } = makeService({
+      approvalPolicy: { timeoutHours: 24, timeoutAction: 'REJECT' },
+    });
+
+    expect(await service.processOverdueApprovals(now)).toEqual({ candidates: 1, escalated: 0, rejected: 1 });
+    expect(appointmentService.rejectOverdueApproval).toHaveBeenCalledWith(pendingApproval);
+    expect(notificationGateway.sendSystemAlert).not.toHaveBeenCalled();
+  });
+
+  it('escalates overdue requests to the owner and leaves newer ones waiting', async () => {
+    const overdue = makeService({ approvalPolicy: { timeoutHours: 24, timeoutAction: 'ESCALATE' } });
+    expect(await overdue.service.processOverdueApprovals(now)).toEqual({ candidates: 1, escalated: 1, rejected: 0 });
+    expect(overdue.notificationGateway.sendSystemAlert).toHaveBeenCalledWith(expect.objectContaining({
+      businessId: BUSINESS_ID,
+      userId: OWNER_ID,
+      appointmentId: 'apt-1',
+    }));
+    expect(overdue.appointmentRepository.markApprovalEscalated).toHaveBeenCalledWith('apt-1', now);
+
+    const recent = makeService({ approvalPolicy: { timeoutHours: 48, timeoutAction: 'ESCALATE' } });
+    expect(await recent.service.processOverdueApprovals(now)).toEqual({ candidates: 1, escalated: 0, rejected: 0 });
+    expect(recent.notificationGateway.sendSystemAlert).not.toHaveBeenCalled();
+  });
+
+  it('retries an escalation the owner could not be alerted about', async () => {
+    const { service, appointmentRepository } = makeService(
+      { approvalPolicy: { timeoutHours: 24, timeoutAction: 'ESCALATE' } },
+      false
+    );
+
+    expect(await service.processOverdueApprovals(now)).toEqual({ candidates: 1, escalated: 0, rejected: 0 });
+    expect(appointmentRepository.markApprovalEscalated).not.toHaveBeenCalled();
+  });
+});
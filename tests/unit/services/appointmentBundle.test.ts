@@ -0,0 +1,408 @@
+/**
+ * Appointment Bundle Tests
+ *
+ * Covers multi-service bundles ("haircut + beard + wash" as one visit):
+ *  - legs are chained back-to-back
+ *  - a start time is only available when every leg fits its staff's hours and
+ *    does not overlap that staff's existing appointments
+ *  - getPublicAvailableSlots answers for the whole sequence when serviceIds is given
+ *  - a single leg cannot be rescheduled on its own, nor the bundle into a staff member's leave
+ *  - moving the bundle tells the customer
+ *  - legs a package covers hold a credit each; customers cannot bundle deposit services
+ *  - the bundle status follows its legs; cancelling the bundle releases and settles every leg
+ */
+
+import { AppointmentService } from '../../../src/services/domain/appointment/appointmentService';
+import {
+  bundlePlanFits,
+  chainBundleLegs,
+  TimeInterval,
+} from '../../../src/services/domain/appointment/bundleScheduling';
+import { AppError } from '../../../src/types/responseTypes';
+import { deriveBundleStatus } from '../../../src/constants/appointmentStatus';
+import { AppointmentStatus } from '../../../src/types/business';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const DATE = '2099-01-05';
+
+function at(hour: number, minute = 0): Date {
+  const d = new Date(DATE);
+  d.setHours(hour, minute, 0, 0);
+  return d;
+}
+
+describe('bundleScheduling', () => {
+  it('chains legs back-to-back in order', () => {
+    const plan = chainBundleLegs(at(10), [
+      { serviceId: 'haircut', staffId: 'staff-a', duration: 30 },
+      { serviceId: 'beard', staffId: 'staff-a', duration: 15 },
+      { serviceId: 'wash', staffId: 'staff-b', duration: 20 },
+    ]);
+
+    expect(plan.map((leg) => leg.sequence)).toEqual([1, 2, 3]);
+    expect(plan[0].startTime).toEqual(at(10));
+    expect(plan[1].startTime).toEqual(plan[0].endTime);
+    expect(plan[2].startTime).toEqual(at(10, 45));
+    expect(plan[2].endTime).toEqual(at(11, 5));
+  });
+
+  it('rejects a plan when any leg overlaps its own staff member', () => {
+    const plan = chainBundleLegs(at(10), [
+      { serviceId: 'haircut', staffId: 'staff-a', duration: 30 },
+      { serviceId: 'wash', staffId: 'staff-b', duration: 30 },
+    ]);
+    const windows = new Map<string, TimeInterval>([
+      ['staff-a', { start: at(9), end: at(18) }],
+      ['staff-b', { start: at(9), end: at(18) }],
+    ]);
+
+    // staff-a is busy at 10:30 — irrelevant, haircut ends exactly then
+    const busyA = new Map([['staff-a', [{ start: at(10, 30), end: at(11) }]]]);
+    expect(bundlePlanFits(plan, windows, busyA)).toBe(true);
+
+    // staff-b is busy when the wash would start
+    const busyB = new Map([['staff-b', [{ start: at(10, 15), end: at(10, 45) }]]]);
+    expect(bundlePlanFits(plan, windows, busyB)).toBe(false);
+  });
+
+  it('rejects a plan when a leg ends after its staff member closes', () => {
+    const plan = chainBundleLegs(at(17, 30), [
+      { serviceId: 'haircut', staffId: 'staff-a', duration: 30 },
+      { serviceId: 'wash', staffId: 'staff-b', duration: 30 },
+    ]);
+    const windows = new Map<string, TimeInterval>([
+      ['staff-a', { start: at(9), end: at(18) }],
+      ['staff-b', { start: at(9), end: at(18) }],
+    ]);
+
+    expect(bundlePlanFits(plan, windows, new Map())).toBe(false);
+  });
+});
+
+describe('deriveBundleStatus', () => {
+  it('waits on the least advanced active leg', () => {
+    expect(deriveBundleStatus([AppointmentStatus.CONFIRMED, AppointmentStatus.PENDING_APPROVAL])).toBe(AppointmentStatus.PENDING_APPROVAL);
+    expect(deriveBundleStatus([AppointmentStatus.CONFIRMED, AppointmentStatus.CANCELED])).toBe(AppointmentStatus.CONFIRMED);
+    expect(deriveBundleStatus([AppointmentStatus.COMPLETED, AppointmentStatus.IN_PROGRESS])).toBe(AppointmentStatus.IN_PROGRESS);
+  });
+
+  it('is completed once no leg is active and one was completed', () => {
+    expect(deriveBundleStatus([AppointmentStatus.COMPLETED, AppointmentStatus.CANCELED])).toBe(AppointmentStatus.COMPLETED);
+    expect(deriveBundleStatus([AppointmentStatus.NO_SHOW, AppointmentStatus.NO_SHOW])).toBe(AppointmentStatus.NO_SHOW);
+    expect(deriveBundleStatus([AppointmentStatus.REJECTED_BY_BUSINESS, AppointmentStatus.CANCELED])).toBe(AppointmentStatus.REJECTED_BY_BUSINESS);
+    expect(deriveBundleStatus([AppointmentStatus.CANCELED, AppointmentStatus.CANCELED])).toBe(AppointmentStatus.CANCELED);
+  });
+});
+
+describe('AppointmentService bundles', () => {
+  // A few days before the booked dates, inside the booking horizon
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2099-01-01T00:00:00Z'), doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+  const services: Record<string, any> = {
+    haircut: { id: 'haircut', businessId: BUSINESS_ID, isActive: true, duration: 30, price: 300, currency: 'TRY' },
+    wash: { id: 'wash', businessId: BUSINESS_ID, isActive: true, duration: 30, price: 100, currency: 'TRY' },
+  };
+  const staff: Record<string, any> = {
+    'staff-a': { id: 'staff-a', businessId: BUSINESS_ID, isActive: true },
+    'staff-b': { id: 'staff-b', businessId: BUSINESS_ID, isActive: true },
+  };
+
+  function makeService(
+    appointmentsByStaff: Record<string, Array<{ start: Date; end: Date }>>,
+    appointmentRepoOverrides: any = {},
+    repositoryOverrides: any = {},
+    { notificationGateway = {}, prisma = {} }: { notificationGateway?: any; prisma?: any } = {}
+  ) {
+    const appointmentRepository = {
+      findWorkingHours: jest.fn().mockResolvedValue([
+        { startTime: '09:00', endTime: '12:00', dayOfWeek: 1, staffId: null },
+      ]),
+      findAppointmentsForDay: jest.fn().mockImplementation(
+        (_b: string, _s: Date, _e: Date, staffId?: string) =>
+          Promise.resolve(
+            (appointmentsByStaff[staffId || ''] || []).map((range, i) => ({
+              id: `apt-${staffId}-${i}`,
+              startTime: range.start,
+              endTime: range.end,
+              duration: (range.end.getTime() - range.start.getTime()) / 60000,
+            }))
+          )
+      ),
+      ...appointmentRepoOverrides,
+    };
+
+    return new AppointmentService(
+      appointmentRepository as any,
+      {
+        findById: jest.fn().mockImplementation((id: string) => Promise.resolve(services[id] || null)),
+        getStaffOverride: jest.fn().mockResolvedValue(null),
+      } as any,
+      {} as any, // userBehaviorRepository
+      {
+        findByDateRange: jest.fn().mockResolvedValue([]),
+        isBusinessClosed: jest.fn().mockResolvedValue({ isClosed: false }),
+      } as any,
+      {
+        findBusinessHoursOverride: jest.fn().mockResolvedValue(null),
+        // at() builds server-local (UTC) times
+        findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, timezone: 'UTC' }),
+      } as any,
+      { hasPermission: jest.fn().mockResolvedValue(true) } as any,
+      {} as any, // businessService
+      {} as any, // notificationService
+      {} as any, // usageService
+      {
+        staffRepository: { findById: jest.fn().mockImplementation((id: string) => Promise.resolve(staff[id] || null)) },
+        waitlistRepository: { findActiveHolds: jest.fn().mockResolvedValue([]) },
+        resourceRepository: { findNeedsForServices: jest.fn().mockResolvedValue(new Map()) },
+        classSessionRepository: { findScheduledInRange: jest.fn().mockResolvedValue([]) },
+        staffTimeOffRepository: { findApprovedOverlapping: jest.fn().mockResolvedValue([]) },
+        staffExternalCalendarRepository: { findBusyOverlapping: jest.fn().mockResolvedValue([]) },
+        appointmentStatusChangeRepository: { record: jest.fn().mockResolvedValue(undefined) },
+        ...repositoryOverrides,
+      } as any,
+      {} as any, // cancellationPolicyService
+      notificationGateway as any,
+      prisma as any
+    );
+  }
+
+  it('marks a start available only when the whole sequence fits', async () => {
+    // staff-b (wash) is busy 10:30-11:00, so a 10:00 start (wash 10:30) must be unavailable
+    const service = makeService({ 'staff-b': [{ start: at(10, 30), end: at(11) }] });
+
+    const result = await service.getPublicAvailableSlots({
+      businessId: BUSINESS_ID,
+      serviceId: 'haircut',
+      date: DATE,
+      serviceIds: ['haircut', 'wash'],
+      staffIds: ['staff-a', 'staff-b'],
+    });
+
+    const byStart = new Map(result.slots.map((slot) => [new Date(slot.startTime).getTime(), slot]));
+    expect(result.serviceIds).toEqual(['haircut', 'wash']);
+    expect(byStart.get(at(9).getTime())?.available).toBe(true);
+    expect(byStart.get(at(10).getTime())?.available).toBe(false);
+    expect(byStart.get(at(10, 30).getTime())?.available).toBe(true);
+    expect(byStart.get(at(9).getTime())?.legs).toEqual([
+      { serviceId: 'haircut', staffId: 'staff-a', startTime: at(9).toISOString(), endTime: at(9, 30).toISOString() },
+      { serviceId: 'wash', staffId: 'staff-b', startTime: at(9, 30).toISOString(), endTime: at(10).toISOString() },
+    ]);
+    // Last start whose whole 60 min sequence still ends by closing time
+    expect(new Date(result.slots[result.slots.length - 1].startTime)).toEqual(at(11));
+  });
+
+  it('refuses to reschedule a single leg of a bundle', async () => {
+    const service = makeService({}, {
+      findById: jest.fn().mockResolvedValue({
+        id: 'apt-1',
+        businessId: BUSINESS_ID,
+        customerId: 'customer-1',
+        bundleId: 'bnd_1',
+        startTime: at(10),
+        date: at(0),
+      }),
+    });
+
+    await expect(
+      service.updateAppointment('owner-1', 'apt-1', { startTime: '11:00' })
+    ).rejects.toMatchObject({ code: 'APPOINTMENT_PART_OF_BUNDLE' } as Partial<AppError>);
+  });
+
+  it('refuses to move a leg into its staff member\'s leave', async () => {
+    const legs = [
+      { id: 'apt-1', businessId: BUSINESS_ID, serviceId: 'haircut', customerId: 'customer-1', staffId: 'staff-a', status: 'CONFIRMED', startTime: at(10), duration: 30 },
+      { id: 'apt-2', businessId: BUSINESS_ID, serviceId: 'wash', customerId: 'customer-1', staffId: 'staff-b', status: 'CONFIRMED', startTime: at(10, 30), duration: 30 },
+    ];
+    const findApprovedOverlapping = jest.fn().mockImplementation((staffIds: string[]) =>
+      Promise.resolve(staffIds.includes('staff-b') ? [{ staffId: 'staff-b', startTime: at(0), endTime: at(23) }] : [])
+    );
+    const service = makeService({}, {
+      findBundleById: jest.fn().mockResolvedValue({ id: 'bnd_1', businessId: BUSINESS_ID, customerId: 'customer-1', appointments: legs }),
+      findByBusinessAndDateRange: jest.fn().mockResolvedValue([]),
+    }, {
+      staffTimeOffRepository: { findApprovedOverlapping },
+    });
+
+    await expect(
+      service.rescheduleAppointmentBundle('owner-1', 'bnd_1', { date: DATE, startTime: '11:00' })
+    ).rejects.toMatchObject({ code: 'STAFF_ON_TIME_OFF' } as Partial<AppError>);
+  });
+
+  it('texts the customer the new time of the visit', async () => {
+    const legs = [
+      { id: 'apt-1', businessId: BUSINESS_ID, serviceId: 'haircut', customerId: 'customer-1', staffId: 'staff-a', status: 'CONFIRMED', startTime: at(10), duration: 30 },
+      { id: 'apt-2', businessId: BUSINESS_ID, serviceId: 'wash', customerId: 'customer-1', staffId: 'staff-b', status: 'CONFIRMED', startTime: at(10, 30), duration: 30 },
+    ];
+    const bundle = { id: 'bnd_1', businessId: BUSINESS_ID, customerId: 'customer-1', appointments: legs };
+    const moved = {
+      ...bundle,
+      appointments: [
+        { ...legs[0], startTime: at(11) },
+        { ...legs[1], startTime: at(11, 30) },
+      ],
+    };
+    const tx = {
+      appointment: { findMany: jest.fn().mockResolvedValue([]), update: jest.fn() },
+      appointmentBundle: { update: jest.fn() },
+    };
+    const sendCriticalSMS = jest.fn().mockResolvedValue({ success: true });
+    const service = makeService({}, {
+      findBundleById: jest.fn().mockResolvedValueOnce(bundle).mockResolvedValueOnce(moved),
+      findByBusinessAndDateRange: jest.fn().mockResolvedValue([]),
+    }, {
+      userRepository: { findById: jest.fn().mockResolvedValue({ id: 'customer-1', phoneNumber: '+905551112233' }) },
+    }, {
+      notificationGateway: { sendCriticalSMS },
+      prisma: { $transaction: jest.fn().mockImplementation((work: any) => work(tx)) },
+    });
+    ((service as any).businessRepository.findById as jest.Mock).mockResolvedValue({ id: BUSINESS_ID, name: 'Kuaför', timezone: 'UTC' });
+
+    await service.rescheduleAppointmentBundle('owner-1', 'bnd_1', { date: DATE, startTime: '11:00' });
+
+    expect(tx.appointment.update).toHaveBeenCalledTimes(2);
+    expect(sendCriticalSMS).toHaveBeenCalledTimes(1);
+    expect(sendCriticalSMS.mock.calls[0][0]).toBe('+905551112233');
+    expect(sendCriticalSMS.mock.calls[0][2]).toEqual({ requestId: `reschedule-apt-1-${at(11).getTime()}` });
+  });
+
+  it('syncs the bundle when one of its legs is confirmed', async () => {
+    const leg = { id: 'apt-1', businessId: BUSINESS_ID, customerId: 'customer-1', bundleId: 'bnd_1', status: 'PENDING' };
+    const syncBundleStatus = jest.fn().mockResolvedValue(undefined);
+    const service = makeService({}, {
+      findById: jest.fn().mockResolvedValue(leg),
+      update: jest.fn().mockResolvedValue({ ...leg, status: 'CONFIRMED' }),
+      syncBundleStatus,
+    });
+
+    await service.confirmAppointment('owner-1', 'apt-1');
+
+    expect(syncBundleStatus).toHaveBeenCalledWith('bnd_1');
+  });
+
+  it('releases the slot and settles every cancelled leg', async () => {
+    const legs = [
+      { id: 'apt-1', businessId: BUSINESS_ID, serviceId: 'haircut', customerId: 'customer-1', staffId: 'staff-a', status: 'CONFIRMED', startTime: at(10) },
+      { id: 'apt-2', businessId: BUSINESS_ID, serviceId: 'wash', customerId: 'customer-1', staffId: 'staff-b', status: 'CONFIRMED', startTime: at(10, 30) },
+    ];
+    const bundle = { id: 'bnd_1', businessId: BUSINESS_ID, customerId: 'customer-1', appointments: legs };
+    const service = makeService({}, {
+      findBundleById: jest.fn().mockResolvedValue(bundle),
+      cancelBundle: jest.fn().mockResolvedValue({
+        ...bundle,
+        appointments: legs.map((leg) => ({ ...leg, status: 'CANCELED' })),
+      }),
+    });
+    const released = jest.fn().mockResolvedValue(undefined);
+    const ended = jest.fn().mockResolvedValue(undefined);
+    service.onSlotReleased(released);
+    service.onAppointmentEnded(ended);
+
+    await service.cancelAppointmentBundle('owner-1', 'bnd_1', 'Kapalıyız');
+
+    expect(released.mock.calls.map(([apt]) => apt.id)).toEqual(['apt-1', 'apt-2']);
+    expect(ended.mock.calls).toEqual([
+      [expect.objectContaining({ id: 'apt-1' }), 'BUSINESS_CANCEL'],
+      [expect.objectContaining({ id: 'apt-2' }), 'BUSINESS_CANCEL'],
+    ]);
+  });
+
+  describe('booking a bundle', () => {
+    const laserPack = { id: 'cpk-1', creditsRemaining: 1 };
+
+    function makeBookingService(options: { deposit?: boolean; customerId?: string } = {}) {
+      const tx = {
+        appointment: {
+          findMany: jest.fn().mockResolvedValue([]),
+          create: jest.fn().mockImplementation(async ({ data }) => ({ ...data, createdAt: new Date(), updatedAt: new Date() })),
+        },
+        appointmentBundle: { create: jest.fn().mockResolvedValue({}) },
+      };
+      const sessionPackageRepository = {
+        // The package covers the haircut only, and has one session left
+        findUsablePackage: jest.fn().mockImplementation(
+          (_customerId: string, _businessId: string, serviceId: string) => Promise.resolve(serviceId === 'haircut' ? laserPack : null)
+        ),
+        takeCredit: jest.fn().mockImplementation(async (customerPackageId: string, data: object) => ({ id: 'pcu-1', customerPackageId, ...data })),
+      };
+      const service = makeService(
+        {},
+        {
+          findConflictingAppointments: jest.fn().mockResolvedValue([]),
+          findBundleById: jest.fn().mockResolvedValue({ id: 'bnd_1' }),
+        },
+        { sessionPackageRepository },
+        { prisma: { $transaction: jest.fn().mockImplementation((work: any) => work(tx)) } }
+      );
+      if (options.deposit) {
+        ((service as any).serviceRepository.findById as jest.Mock).mockImplementation((id: string) =>
+          Promise.resolve(id === 'wash' ? { ...services.wash, depositType: 'FIXED', depositValue: 50 } : services[id])
+        );
+      }
+      const customerId = options.customerId ?? 'customer-1';
+      jest.spyOn(service as any, 'validateBookingPreconditions').mockResolvedValue({
+        customer: { id: customerId, firstName: 'Ayşe', lastName: 'Kaya', phoneNumber: '+905551112233' },
+        customerId,
+        isBookingForOther: customerId !== 'customer-1',
+        appointmentDateTime: at(10),
+        timezone: 'UTC',
+      });
+      jest.spyOn(service as any, 'resolveBookingStaff').mockImplementation((_b, serviceId) =>
+        Promise.resolve(serviceId === 'haircut' ? 'staff-a' : 'staff-b')
+      );
+      jest.spyOn(service as any, 'isFirstVisit').mockResolvedValue(false);
+      jest.spyOn(service as any, 'validateBusinessReservationRules').mockResolvedValue(undefined);
+      jest.spyOn(service as any, 'validateBusinessReservationRulesInTransaction').mockResolvedValue(undefined);
+      jest.spyOn(service as any, 'resolveApprovalRule').mockResolvedValue(null);
+      jest.spyOn(service as any, 'notifyNewAppointment').mockResolvedValue(undefined);
+      jest.spyOn(service as any, 'sendCustomerBookingConfirmation').mockResolvedValue(undefined);
+      (service as any).usageService = { recordAppointmentUsage: jest.fn() };
+      (service as any).userBehaviorRepository = { createOrUpdate: jest.fn() };
+      return { service, tx, sessionPackageRepository };
+    }
+
+    const request = {
+      businessId: BUSINESS_ID,
+      date: DATE,
+      startTime: '10:00',
+      items: [{ serviceId: 'haircut' }, { serviceId: 'haircut' }, { serviceId: 'wash' }],
+    };
+
+    it('holds a package credit for each covered leg while credits last', async () => {
+      const { service, tx, sessionPackageRepository } = makeBookingService();
+
+      await service.createAppointmentBundle('customer-1', request as any);
+
+      expect(tx.appointment.create).toHaveBeenCalledTimes(3);
+      // One session left: only the first haircut takes it
+      expect(sessionPackageRepository.takeCredit).toHaveBeenCalledTimes(1);
+      const firstLegId = tx.appointment.create.mock.calls[0][0].data.id;
+      expect(sessionPackageRepository.takeCredit).toHaveBeenCalledWith('cpk-1', { appointmentId: firstLegId, businessId: BUSINESS_ID }, tx);
+    });
+
+    it('refuses to bundle a service that takes a deposit when customers book themselves', async () => {
+      const { service, tx } = makeBookingService({ deposit: true });
+
+      await expect(service.createAppointmentBundle('customer-1', request as any)).rejects.toMatchObject({
+        code: 'APPOINTMENT_BUNDLE_INVALID',
+        params: { serviceId: 'wash', sequence: 3 },
+      } as Partial<AppError>);
+      expect(tx.appointment.create).not.toHaveBeenCalled();
+
+      // Staff who book for a customer collect the deposit in person
+      const staffBooking = makeBookingService({ deposit: true, customerId: 'customer-2' });
+      await expect(staffBooking.service.createAppointmentBundle('owner-1', { ...request, customerId: 'customer-2' } as any))
+        .resolves.toEqual({ id: 'bnd_1' });
+    });
+  });
+});
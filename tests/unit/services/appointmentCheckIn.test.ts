@@ -0,0 +1,397 @@
+/**
+ * Appointment Check-in Tests
+ *
+ * Covers arrivals and no-shows:
+ *  - the check-in window and when a missed appointment is due as a no-show
+ *  - staff check-in, starting the service, and QR check-in with the signed venue code
+ *  - the no-show job marking only businesses that track no-shows, past their grace period,
+ *    with the same strikes and policy handling as a staff-marked no-show
+ *  - the owner undoing a no-show, unless its slot was booked again meanwhile
+ */
+
+import { AppointmentService } from '../../../src/services/domain/appointment/appointmentService';
+import { AppointmentCheckInService } from '../../../src/services/domain/appointment/appointmentCheckInService';
+import { checkInWindow, isNoShowDue, resolveCheckInPolicy } from '../../../src/services/domain/appointment/checkInRules';
+import { AppointmentData, AppointmentStatus } from '../../../src/types/business';
+import { DEFAULT_CHECK_IN_POLICY } from '../../../src/types/cancellationPolicy';
+import { AppError } from '../../../src/types/responseTypes';
+
+jest.mock('../../../src/config/environment', () => ({
+  config: { CHECK_IN_QR_SECRET: 'test-check-in-secret' },
+}));
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const OWNER_ID = 'user-owner';
+const STAFF_USER_ID = 'user-staff';
+const CUSTOMER_ID = 'user-customer';
+const NOW = new Date('2099-01-05T07:00:00Z');
+const minutesFromNow = (minutes: number) => new Date(NOW.getTime() + minutes * 60000);
+
+const TRACKING_POLICY = { ...DEFAULT_CHECK_IN_POLICY, trackNoShows: true, noShowGraceMinutes: 15 };
+
+function appointment(overrides: Partial<AppointmentData> = {}): AppointmentData {
+  const startTime = overrides.startTime ?? minutesFromNow(0);
+  return {
+    id: 'apt-1',
+    businessId: BUSINESS_ID,
+    serviceId: 'svc-cut',
+    staffId: 'staff-1',
+    customerId: CUSTOMER_ID,
+    date: startTime,
+    startTime,
+    endTime: new Date(startTime.getTime() + 30 * 60000),
+    duration: 30,
+    status: AppointmentStatus.CONFIRMED,
+    price: 300,
+    currency: 'TRY',
+    bookedAt: minutesFromNow(-60 * 24),
+    reminderSent: false,
+    createdAt: minutesFromNow(-60 * 24),
+    updatedAt: minutesFromNow(-60 * 24),
+    ...overrides,
+  };
+}
+
+describe('checkInRules', () => {
+  it('opens the check-in window before the start and closes it after the grace period', () => {
+    const window = checkInWindow(NOW, { checkInOpensMinutesBefore: 30, noShowGraceMinutes: 15 });
+
+    expect(window.opensAt).toEqual(minutesFromNow(-30));
+    expect(window.closesAt).toEqual(minutesFromNow(15));
+  });
+
+  it('only makes a missed appointment due once the grace period has passed at a tracking business', () => {
+    expect(isNoShowDue(minutesFromNow(-14), TRACKING_POLICY, NOW)).toBe(false);
+    expect(isNoShowDue(minutesFromNow(-15), TRACKING_POLICY, NOW)).toBe(true);
+    expect(isNoShowDue(minutesFromNow(-60), { ...TRACKING_POLICY, trackNoShows: false }, NOW)).toBe(false);
+  });
+
+  it('merges the stored policy with the defaults', () => {
+    expect(resolveCheckInPolicy({ checkInPolicy: { trackNoShows: true } })).toEqual({
+      ...DEFAULT_CHECK_IN_POLICY,
+      trackNoShows: true,
+    });
+    expect(resolveCheckInPolicy(null)).toEqual(DEFAULT_CHECK_IN_POLICY);
+  });
+});
+
+describe('AppointmentCheckInService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function createService(options: {
+    appointments?: AppointmentData[];
+    policy?: typeof TRACKING_POLICY;
+    missed?: Array<{ appointment: AppointmentData; businessSettings: unknown }>;
+    conflicts?: Array<Partial<AppointmentData>>;
+  } = {}) {
+    const appointments = new Map((options.appointments ?? [appointment()]).map((apt) => [apt.id, { ...apt }]));
+
+    const appointmentRepository = {
+      findById: jest.fn().mockImplementation((id: string) => Promise.resolve(appointments.get(id) ?? null)),
+      recordCheckIn: jest.fn().mockImplementation((id: string, data: { method: 'STAFF' | 'QR_CODE'; at: Date }) => {
+        const apt = appointments.get(id)!;
+        if (apt.checkedInAt) return Promise.resolve(false);
+        Object.assign(apt, { checkedInAt: data.at, checkInMethod: data.method });
+        return Promise.resolve(true);
+      }),
+      startService: jest.fn().mockImplementation((id: string, at: Date) => {
+        Object.assign(appointments.get(id)!, { status: AppointmentStatus.IN_PROGRESS, actualStartTime: at });
+        return Promise.resolve(true);
+      }),
+      reverseNoShow: jest.fn().mockImplementation((id: string, data: { status: AppointmentStatus; at: Date; checkedInAt: Date }) => {
+        Object.assign(appointments.get(id)!, { status: data.status, checkedInAt: data.checkedInAt, noShowReversedAt: data.at });
+        return Promise.resolve(true);
+      }),
+      findCheckInCandidate: jest.fn().mockImplementation((customerId: string, businessId: string, from: Date, to: Date) =>
+        Promise.resolve(
+          [...appointments.values()].find(
+            (apt) => apt.customerId === customerId && apt.businessId === businessId &&
+              apt.startTime >= from && apt.startTime <= to
+          ) ?? null
+        )
+      ),
+      findMissedCheckIns: jest.fn().mockResolvedValue(options.missed ?? []),
+      findConflictingAppointments: jest.fn().mockResolvedValue(options.conflicts ?? []),
+    };
+    const userBehaviorRepository = {
+      removeStrike: jest.fn().mockResolvedValue({}),
+      createOrUpdate: jest.fn().mockResolvedValue({}),
+    };
+    const appointmentService = {
+      assertBusinessAppointmentAccess: jest.fn().mockImplementation((userId: string) =>
+        userId === CUSTOMER_ID
+          ? Promise.reject(new AppError('APPOINTMENT_ACCESS_DENIED', { message: 'Access denied' }))
+          : Promise.resolve()
+      ),
+      markMissedAsNoShow: jest.fn().mockResolvedValue(true),
+      recordStatusChange: jest.fn().mockResolvedValue(undefined),
+    };
+    const cancellationPolicyService = {
+      getCheckInPolicySettings: jest.fn().mockResolvedValue(options.policy ?? TRACKING_POLICY),
+    };
+
+    const service = new AppointmentCheckInService(
+      appointmentRepository as any,
+      { findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, ownerId: OWNER_ID }) } as any,
+      userBehaviorRepository as any,
+      { hasPermission: jest.fn().mockResolvedValue(false) } as any,
+      appointmentService as any,
+      cancellationPolicyService as any
+    );
+
+    return { service, appointments, appointmentRepository, userBehaviorRepository, appointmentService };
+  }
+
+  it('lets staff check a customer in once', async () => {
+    const { service } = createService();
+
+    const checkedIn = await service.checkIn(STAFF_USER_ID, 'apt-1');
+
+    expect(checkedIn.checkedInAt).toEqual(NOW);
+    expect(checkedIn.checkInMethod).toBe('STAFF');
+    await expect(service.checkIn(STAFF_USER_ID, 'apt-1')).rejects.toMatchObject({
+      code: 'APPOINTMENT_ALREADY_CHECKED_IN',
+    });
+  });
+
+  it('does not check in appointments that are no longer confirmed', async () => {
+    const { service } = createService({ appointments: [appointment({ status: AppointmentStatus.CANCELED })] });
+
+    await expect(service.checkIn(STAFF_USER_ID, 'apt-1')).rejects.toMatchObject({
+      code: 'APPOINTMENT_CHECK_IN_NOT_ALLOWED',
+    });
+  });
+
+  it('starts the service with its actual start time, checking the customer in with it', async () => {
+    const { service } = createService();
+
+    const started = await service.startService(STAFF_USER_ID, 'apt-1');
+
+    expect(started.status).toBe(AppointmentStatus.IN_PROGRESS);
+    expect(started.actualStartTime).toEqual(NOW);
+    expect(started.checkedInAt).toEqual(NOW);
+    await expect(service.startService(STAFF_USER_ID, 'apt-1')).rejects.toMatchObject({
+      code: 'APPOINTMENT_ALREADY_STARTED',
+    });
+  });
+
+  it('checks the customer in with a valid venue code while the window is open', async () => {
+    const { service } = createService({ appointments: [appointment({ startTime: minutesFromNow(20) })] });
+    const { token } = await service.getVenueCheckInCode(STAFF_USER_ID, BUSINESS_ID);
+
+    const checkedIn = await service.checkInWithQrCode(CUSTOMER_ID, { businessId: BUSINESS_ID, token });
+
+    expect(checkedIn.id).toBe('apt-1');
+    expect(checkedIn.checkInMethod).toBe('QR_CODE');
+  });
+
+  it('rejects a code signed for another business', async () => {
+    const { service } = createService();
+    const { token } = await service.getVenueCheckInCode(STAFF_USER_ID, 'biz-other');
+
+    await expect(
+      service.checkInWithQrCode(CUSTOMER_ID, { businessId: BUSINESS_ID, token })
+    ).rejects.toMatchObject({ code: 'CHECK_IN_CODE_INVALID' });
+  });
+
+  it('rejects a venue code once the next one has been issued for a full period', async () => {
+    const { service } = createService();
+    const stale = service.signVenueToken(BUSINESS_ID, new Date(Date.now() - 31 * 60 * 1000));
+
+    await expect(
+      service.checkInWithQrCode(CUSTOMER_ID, { businessId: BUSINESS_ID, token: stale })
+    ).rejects.toMatchObject({ code: 'CHECK_IN_CODE_INVALID' });
+  });
+
+  it('still accepts the previous venue code right after it rotated', async () => {
+    const { service } = createService({ appointments: [appointment({ startTime: minutesFromNow(20) })] });
+    const { refreshAt } = await service.getVenueCheckInCode(STAFF_USER_ID, BUSINESS_ID);
+    const previous = service.signVenueToken(BUSINESS_ID, new Date(refreshAt.getTime() - 20 * 60 * 1000));
+
+    await expect(
+      service.checkInWithQrCode(CUSTOMER_ID, { businessId: BUSINESS_ID, token: previous })
+    ).resolves.toMatchObject({ id: 'apt-1' });
+  });
+
+  it('refuses a QR check-in outside the window of the given appointment', async () => {
+    const { service } = createService({ appointments: [appointment({ startTime: minutesFromNow(120) })] });
+    const token = service.signVenueToken(BUSINESS_ID);
+
+    await expect(
+      service.checkInWithQrCode(CUSTOMER_ID, { businessId: BUSINESS_ID, token, appointmentId: 'apt-1' })
+    ).rejects.toMatchObject({ code: 'APPOINTMENT_CHECK_IN_WINDOW_CLOSED' });
+  });
+
+  it('refuses QR check-in when the business turned it off', async () => {
+    const { service } = createService({ policy: { ...TRACKING_POLICY, allowQrCheckIn: false } });
+    const token = service.signVenueToken(BUSINESS_ID);
+
+    await expect(
+      service.checkInWithQrCode(CUSTOMER_ID, { businessId: BUSINESS_ID, token })
+    ).rejects.toMatchObject({ code: 'QR_CHECK_IN_DISABLED' });
+  });
+
+  it('reports QR check-in as unavailable while no signing secret is configured', async () => {
+    const { config } = jest.requireMock('../../../src/config/environment');
+    const secret = config.CHECK_IN_QR_SECRET;
+    config.CHECK_IN_QR_SECRET = undefined;
+    const { service } = createService();
+
+    try {
+      await expect(service.getVenueCheckInCode(STAFF_USER_ID, BUSINESS_ID)).rejects.toMatchObject({
+        code: 'SERVICE_UNAVAILABLE',
+      });
+    } finally {
+      config.CHECK_IN_QR_SECRET = secret;
+    }
+  });
+
+  it('only hands the venue code to the business’s staff', async () => {
+    const { service } = createService();
+
+    await expect(service.getVenueCheckInCode(CUSTOMER_ID, BUSINESS_ID)).rejects.toMatchObject({
+      code: 'APPOINTMENT_ACCESS_DENIED',
+    });
+  });
+
+  it('marks missed appointments once the business’s grace period has passed', async () => {
+    const overdue = appointment({ id: 'apt-overdue', startTime: minutesFromNow(-20) });
+    const inGrace = appointment({ id: 'apt-grace', startTime: minutesFromNow(-5) });
+    const longGrace = appointment({ id: 'apt-long-grace', businessId: 'biz-002', startTime: minutesFromNow(-20) });
+    const { service, appointmentService } = createService({
+      missed: [
+        { appointment: overdue, businessSettings: { checkInPolicy: { trackNoShows: true, noShowGraceMinutes: 15 } } },
+        { appointment: inGrace, businessSettings: { checkInPolicy: { trackNoShows: true, noShowGraceMinutes: 15 } } },
+        { appointment: longGrace, businessSettings: { checkInPolicy: { trackNoShows: true, noShowGraceMinutes: 30 } } },
+      ],
+    });
+
+    const result = await service.markMissedAppointments(NOW);
+
+    expect(result).toEqual({ candidates: 3, marked: 1 });
+    expect(appointmentService.markMissedAsNoShow).toHaveBeenCalledTimes(1);
+    expect(appointmentService.markMissedAsNoShow).toHaveBeenCalledWith(overdue, NOW);
+  });
+
+  it('lets the owner undo a no-show, taking back the strike', async () => {
+    const { service, userBehaviorRepository } = createService({
+      appointments: [appointment({ status: AppointmentStatus.NO_SHOW, noShowSource: 'AUTOMATIC' })],
+    });
+
+    const undone = await service.undoNoShow(OWNER_ID, 'apt-1');
+
+    // Not ended yet: back to confirmed and checked in, so the job leaves it alone
+    expect(undone.status).toBe(AppointmentStatus.CONFIRMED);
+    expect(undone.checkedInAt).toEqual(NOW);
+    expect(userBehaviorRepository.removeStrike).toHaveBeenCalledWith(CUSTOMER_ID);
+  });
+
+  it('completes an ended appointment when its no-show is undone', async () => {
+    const { service } = createService({
+      appointments: [appointment({ status: AppointmentStatus.NO_SHOW, startTime: minutesFromNow(-120) })],
+    });
+
+    const undone = await service.undoNoShow(OWNER_ID, 'apt-1');
+
+    expect(undone.status).toBe(AppointmentStatus.COMPLETED);
+  });
+
+  it('does not undo a no-show whose slot was booked again', async () => {
+    const { service, appointmentRepository } = createService({
+      appointments: [appointment({ status: AppointmentStatus.NO_SHOW })],
+      conflicts: [{ id: 'apt-waitlist' }],
+    });
+
+    await expect(service.undoNoShow(OWNER_ID, 'apt-1')).rejects.toMatchObject({
+      code: 'NO_SHOW_UNDO_SLOT_TAKEN',
+      params: { conflictingAppointmentId: 'apt-waitlist' },
+    });
+    expect(appointmentRepository.reverseNoShow).not.toHaveBeenCalled();
+  });
+
+  it('reports a booking racing the undo as a time conflict', async () => {
+    const { service, appointmentRepository } = createService({
+      appointments: [appointment({ status: AppointmentStatus.NO_SHOW })],
+    });
+    appointmentRepository.reverseNoShow.mockRejectedValue(
+      new Error('conflicting key value violates exclusion constraint "appointments_no_overlap_per_staff"')
+    );
+
+    await expect(service.undoNoShow(OWNER_ID, 'apt-1')).rejects.toMatchObject({
+      code: 'APPOINTMENT_TIME_CONFLICT',
+      statusCode: 409,
+    });
+  });
+
+  it('keeps undoing a no-show to the owner', async () => {
+    const { service } = createService({ appointments: [appointment({ status: AppointmentStatus.NO_SHOW })] });
+
+    await expect(service.undoNoShow(STAFF_USER_ID, 'apt-1')).rejects.toMatchObject({
+      code: 'NO_SHOW_UNDO_OWNER_ONLY',
+    });
+  });
+});
+
+describe('AppointmentService.markMissedAsNoShow', () => {
+  function createService(marked: boolean) {
+    const appointmentRepository = { markMissedAsNoShow: jest.fn().mockResolvedValue(marked) };
+    const userBehaviorRepository = { addStrike: jest.fn().mockResolvedValue({}) };
+    const cancellationPolicyService = { handlePolicyViolation: jest.fn().mockResolvedValue(undefined) };
+
+    const service = new AppointmentService(
+      appointmentRepository as any,
+      {} as any, // serviceRepository
+      userBehaviorRepository as any,
+      {} as any, // businessClosureRepository
+      {} as any, // businessRepository
+      {} as any, // rbacService
+      {} as any, // businessService
+      {} as any, // notificationService
+      {} as any, // usageService
+      { appointmentStatusChangeRepository: { record: jest.fn().mockResolvedValue(undefined) } } as any,
+      cancellationPolicyService as any,
+      {} as any, // notificationGateway
+      {} as any // prisma
+    );
+    const ended = jest.fn().mockResolvedValue(undefined);
+    service.onAppointmentEnded(ended);
+
+    return { service, userBehaviorRepository, cancellationPolicyService, ended };
+  }
+
+  it('adds the strike, applies the policy and settles the appointment like a staff-marked no-show', async () => {
+    const { service, userBehaviorRepository, cancellationPolicyService, ended } = createService(true);
+    const missed = appointment();
+
+    await expect(service.markMissedAsNoShow(missed, NOW)).resolves.toBe(true);
+
+    expect(userBehaviorRepository.addStrike).toHaveBeenCalledWith(CUSTOMER_ID, 'No-show for appointment');
+    expect(cancellationPolicyService.handlePolicyViolation).toHaveBeenCalledWith(
+      CUSTOMER_ID,
+      BUSINESS_ID,
+      'NO_SHOW',
+      expect.any(String)
+    );
+    expect(ended).toHaveBeenCalledWith(missed, 'NO_SHOW');
+  });
+
+  it('leaves the customer alone when they checked in in the meantime', async () => {
+    const { service, userBehaviorRepository, ended } = createService(false);
+
+    await expect(service.markMissedAsNoShow(appointment(), NOW)).resolves.toBe(false);
+
+    expect(userBehaviorRepository.addStrike).not.toHaveBeenCalled();
+    expect(ended).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Appointment Deposit Tests
+ *
+ * Covers deposits charged through iyzico when booking:
+ *  - fixed and percentage deposits, and how a paid deposit is split into refund / forfeit
+ *  - paying confirms the PENDING booking; a declined card or a failed attempt leaves the deposit payable
+ *  - settlement on cancellation follows the cancellation policy, no-shows forfeit
+ *  - unpaid deposits expire and release their slot
+ */
+
+import { AppointmentDepositService } from '../../../src/services/domain/appointment/appointmentDepositService';
+import { AppointmentService } from '../../../src/services/domain/appointment/appointmentService';
+import { calculateDepositAmount, resolveDepositSettlement } from '../../../src/services/domain/appointment/depositRules';
+import { AppointmentStatus } from '../../../src/types/business';
+
+// cancellationPolicyService creates a module-level client; keep it from loading the query engine
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn().mockImplementation(() => ({})),
+}));
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const CUSTOMER_ID = 'cust-1';
+const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+describe('depositRules', () => {
+  it('takes a percentage of the price or a fixed amount capped at the price', () => {
+    expect(calculateDepositAmount({ depositType: 'PERCENTAGE', depositValue: 30, price: 249.99 })).toBe(75);
+    expect(calculateDepositAmount({ depositType: 'FIXED', depositValue: 100, price: 250 })).toBe(100);
+    expect(calculateDepositAmount({ depositType: 'FIXED', depositValue: 500, price: 250 })).toBe(250);
+    expect(calculateDepositAmount({ depositType: 'NONE', depositValue: 100, price: 250 })).toBe(0);
+  });
+
+  it('refunds early customer cancellations and business cancellations in full', () => {
+    const policy = { minCancellationHours: 24, lateCancellationDepositRefundPercent: 50 };
+
+    expect(resolveDepositSettlement(100, 'CUSTOMER_CANCEL', 48, policy)).toEqual({ refundAmount: 100, forfeitAmount: 0 });
+    expect(resolveDepositSettlement(100, 'BUSINESS_CANCEL', 1, policy)).toEqual({ refundAmount: 100, forfeitAmount: 0 });
+    expect(resolveDepositSettlement(100, 'REJECTED', 1, policy)).toEqual({ refundAmount: 100, forfeitAmount: 0 });
+  });
+
+  it('forfeits no-shows and the non-refundable part of late cancellations', () => {
+    const policy = { minCancellationHours: 24, lateCancellationDepositRefundPercent: 40 };
+
+    expect(resolveDepositSettlement(100, 'NO_SHOW', -1, policy)).toEqual({ refundAmount: 0, forfeitAmount: 100 });
+    expect(resolveDepositSettlement(100, 'CUSTOMER_CANCEL', 3, policy)).toEqual({ refundAmount: 40, forfeitAmount: 60 });
+    expect(resolveDepositSettlement(100, 'CUSTOMER_CANCEL', 3, { minCancellationHours: 24 })).toEqual({
+      refundAmount: 0,
+      forfeitAmount: 100,
+    });
+  });
+});
+
+describe('AppointmentDepositService', () => {
+  const appointment = {
+    id: 'apt-1',
+    businessId: BUSINESS_ID,
+    serviceId: 'svc-color',
+    customerId: CUSTOMER_ID,
+    startTime: inHours(3),
+    status: AppointmentStatus.PENDING,
+  };
+  const pendingDeposit = {
+    id: 'apay_1',
+    appointmentId: 'apt-1',
+    businessId: BUSINESS_ID,
+    amount: 150,
+    currency: 'TRY',
+    status: 'PENDING',
+    expiresAt: inHours(0.2),
+    refundedAmount: 0,
+    forfeitedAmount: 0,
+  };
+  const paidDeposit = { ...pendingDeposit, status: 'SUCCEEDED', providerPaymentId: 'iyz-77', paidAt: new Date() };
+  const card = { cardHolderName: 'Ayşe Kaya', cardNumber: '5528790000000008', expireMonth: '12', expireYear: '2030', cvc: '123' };
+
+  function makeService(options: { deposit?: object; appointmentStatus?: AppointmentStatus; chargeSucceeds?: boolean } = {}) {
+    const appointmentPaymentRepository = {
+      findByAppointment: jest.fn().mockResolvedValue(options.deposit ?? pendingDeposit),
+      transition: jest.fn().mockResolvedValue(true),
+      update: jest.fn().mockImplementation((id: string, data: object) => Promise.resolve({ ...pendingDeposit, id, ...data })),
+      findExpiredPending: jest.fn().mockResolvedValue([]),
+      findStaleProcessing: jest.fn().mockResolvedValue([]),
+    };
+    const appointmentService = {
+      confirmDepositPaid: jest.fn().mockResolvedValue({ ...appointment, status: AppointmentStatus.CONFIRMED }),
+      releaseUnpaidAppointment: jest.fn().mockResolvedValue({ ...appointment, status: AppointmentStatus.CANCELED }),
+      assertBusinessAppointmentAccess: jest.fn().mockResolvedValue(undefined),
+    };
+    const paymentService = {
+      chargeAppointmentDeposit: jest.fn().mockResolvedValue(
+        options.chargeSucceeds === false ? { success: false, error: 'Kart reddedildi' } : { success: true, iyzicoPaymentId: 'iyz-77' }
+      ),
+      refundAppointmentDeposit: jest.fn().mockResolvedValue({ success: true }),
+    };
+    const cancellationPolicyService = {
+      getBusinessPolicySettings: jest.fn().mockResolvedValue({ minCancellationHours: 24, lateCancellationDepositRefundPercent: 50 }),
+    };
+
+    const service = new AppointmentDepositService(
+      appointmentPaymentRepository as any,
+      { findById: jest.fn().mockResolvedValue({ ...appointment, status: options.appointmentStatus ?? AppointmentStatus.PENDING }) } as any,
+      { findById: jest.fn().mockResolvedValue({ id: 'svc-color', name: 'Saç Boyama' }) } as any,
+      { findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, name: 'Salon Ada', city: 'İstanbul' }) } as any,
+      { findById: jest.fn().mockResolvedValue({ id: CUSTOMER_ID, firstName: 'Ayşe', lastName: 'Kaya', phoneNumber: '+905551112233' }) } as any,
+      appointmentService as any,
+      paymentService as any,
+      cancellationPolicyService as any
+    );
+
+    return { service, appointmentPaymentRepository, appointmentService, paymentService };
+  }
+
+  it('charges the deposit and confirms the booking', async () => {
+    const { service, appointmentPaymentRepository, appointmentService, paymentService } = makeService();
+
+    const result = await service.payDeposit(CUSTOMER_ID, 'apt-1', { card });
+
+    expect(appointmentPaymentRepository.transition).toHaveBeenCalledWith('apay_1', 'PENDING', { status: 'PROCESSING' });
+    expect(paymentService.chargeAppointmentDeposit).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 150, currency: 'TRY', card, service: { id: 'svc-color', name: 'Saç Boyama' } })
+    );
+    expect(appointmentPaymentRepository.update).toHaveBeenCalledWith(
+      'apay_1',
+      expect.objectContaining({ status: 'SUCCEEDED', providerPaymentId: 'iyz-77' })
+    );
+    expect(appointmentService.confirmDepositPaid).toHaveBeenCalledWith('apt-1');
+    expect(result.appointment.status).toBe(AppointmentStatus.CONFIRMED);
+  });
+
+  it('keeps a declined deposit payable and leaves the booking pending', async () => {
+    const { service, appointmentPaymentRepository, appointmentService } = makeService({ chargeSucceeds: false });
+
+    await expect(service.payDeposit(CUSTOMER_ID, 'apt-1', { card })).rejects.toMatchObject({ statusCode: 402 });
+
+    expect(appointmentPaymentRepository.update).toHaveBeenCalledWith('apay_1', {
+      status: 'PENDING',
+      failureReason: 'Kart reddedildi',
+    });
+    expect(appointmentService.confirmDepositPaid).not.toHaveBeenCalled();
+  });
+
+  it('hands the deposit back when paying it fails before a charge is made', async () => {
+    const { service, appointmentPaymentRepository, paymentService } = makeService();
+    paymentService.chargeAppointmentDeposit.mockRejectedValue(new Error('connection reset'));
+
+    await expect(service.payDeposit(CUSTOMER_ID, 'apt-1', { card })).rejects.toThrow('connection reset');
+
+    expect(appointmentPaymentRepository.transition).toHaveBeenLastCalledWith('apay_1', 'PROCESSING', {
+      status: 'PENDING',
+      failureReason: 'connection reset',
+    });
+  });
+
+  it('refunds the whole charge when the appointment was cancelled while the card was being charged', async () => {
+    const { service, appointmentPaymentRepository, appointmentService, paymentService } = makeService();
+    appointmentService.confirmDepositPaid.mockResolvedValue({ ...appointment, status: AppointmentStatus.CANCELED });
+    appointmentPaymentRepository.findByAppointment
+      .mockResolvedValueOnce(pendingDeposit)
+      .mockResolvedValueOnce(paidDeposit);
+
+    await expect(service.payDeposit(CUSTOMER_ID, 'apt-1', { card })).rejects.toMatchObject({
+      statusCode: 409,
+      params: { status: 'REFUNDED' },
+    });
+
+    expect(appointmentPaymentRepository.transition).toHaveBeenLastCalledWith('apay_1', 'SUCCEEDED', { status: 'PROCESSING' });
+    expect(paymentService.refundAppointmentDeposit).toHaveBeenCalledWith('iyz-77', 150, 'TRY', AppointmentStatus.CANCELED);
+    expect(appointmentPaymentRepository.update).toHaveBeenLastCalledWith(
+      'apay_1',
+      expect.objectContaining({ status: 'REFUNDED', refundedAmount: 150 })
+    );
+  });
+
+  it('refuses to charge a deposit that is already paid or belongs to someone else', async () => {
+    const paid = makeService({ deposit: paidDeposit, appointmentStatus: AppointmentStatus.CONFIRMED });
+    await expect(paid.service.payDeposit(CUSTOMER_ID, 'apt-1', { card })).rejects.toMatchObject({ statusCode: 409 });
+    expect(paid.paymentService.chargeAppointmentDeposit).not.toHaveBeenCalled();
+
+    const stranger = makeService();
+    await expect(stranger.service.payDeposit('someone-else', 'apt-1', { card })).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('refunds the refundable part of a late customer cancellation and forfeits the rest', async () => {
+    const { service, appointmentPaymentRepository, paymentService } = makeService({ deposit: paidDeposit });
+
+    await service.settleDeposit(appointment as any, 'CUSTOMER_CANCEL');
+
+    expect(paymentService.refundAppointmentDeposit).toHaveBeenCalledWith('iyz-77', 75, 'TRY', 'CUSTOMER_CANCEL');
+    expect(appointmentPaymentRepository.update).toHaveBeenCalledWith(
+      'apay_1',
+      expect.objectContaining({ status: 'REFUNDED', refundedAmount: 75, forfeitedAmount: 75 })
+    );
+  });
+
+  it('forfeits the whole deposit on a no-show without calling iyzico', async () => {
+    const { service, appointmentPaymentRepository, paymentService } = makeService({ deposit: paidDeposit });
+
+    await service.settleDeposit(appointment as any, 'NO_SHOW');
+
+    expect(paymentService.refundAppointmentDeposit).not.toHaveBeenCalled();
+    expect(appointmentPaymentRepository.update).toHaveBeenCalledWith(
+      'apay_1',
+      expect.objectContaining({ status: 'SUCCEEDED', forfeitedAmount: 150 })
+    );
+  });
+
+  it('closes an unpaid deposit when its appointment is cancelled', async () => {
+    const { service, appointmentPaymentRepository, paymentService } = makeService();
+
+    await service.settleDeposit(appointment as any, 'CUSTOMER_CANCEL');
+
+    expect(appointmentPaymentRepository.transition).toHaveBeenCalledWith('apay_1', 'PENDING', { status: 'CANCELED' });
+    expect(paymentService.refundAppointmentDeposit).not.toHaveBeenCalled();
+  });
+
+  it('expires unpaid deposits but skips one that is being paid', async () => {
+    const { service, appointmentPaymentRepository, appointmentService } = makeService();
+    appointmentPaymentRepository.findExpiredPending.mockResolvedValue([
+      pendingDeposit,
+      { ...pendingDeposit, id: 'apay_2', appointmentId: 'apt-2' },
+    ]);
+    appointmentPaymentRepository.transition.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    const result = await service.expireUnpaidDeposits();
+
+    expect(result).toEqual({ expired: 2, released: 1, recovered: 0 });
+    expect(appointmentService.releaseUnpaidAppointment).toHaveBeenCalledTimes(1);
+    expect(appointmentService.releaseUnpaidAppointment).toHaveBeenCalledWith('apt-1');
+  });
+
+  it('recovers deposits left processing by a charge or refund that never finished', async () => {
+    const { service, appointmentPaymentRepository } = makeService();
+    appointmentPaymentRepository.findStaleProcessing.mockResolvedValue([
+      { ...pendingDeposit, status: 'PROCESSING' },
+      { ...paidDeposit, id: 'apay_2', status: 'PROCESSING' },
+    ]);
+
+    const result = await service.expireUnpaidDeposits();
+
+    expect(result.recovered).toBe(2);
+    expect(appointmentPaymentRepository.transition).toHaveBeenCalledWith('apay_1', 'PROCESSING', {
+      status: 'PENDING',
+      failureReason: 'Payment was interrupted',
+    });
+    expect(appointmentPaymentRepository.transition).toHaveBeenCalledWith('apay_2', 'PROCESSING', expect.objectContaining({ status: 'SUCCEEDED' }));
+  });
+});
+
+describe('AppointmentService deposit lifecycle', () => {
+  const pending = {
+    id: 'apt-1',
+    businessId: BUSINESS_ID,
+    serviceId: 'svc-color',
+    staffId: 'staff-a',
+    customerId: CUSTOMER_ID,
+    startTime: inHours(48),
+    endTime: inHours(49),
+    status: AppointmentStatus.PENDING,
+  };
+
+  function makeService(options: { requireApproval?: boolean } = {}) {
+    const appointmentRepository = {
+      findById: jest.fn().mockResolvedValue(pending),
+      cancel: jest.fn().mockResolvedValue({ ...pending, status: AppointmentStatus.CANCELED }),
+    };
+    const prisma = { appointment: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) } };
+
+    const service = new AppointmentService(
+      appointmentRepository as any,
+      { findById: jest.fn().mockResolvedValue(null) } as any,
+      {} as any, // userBehaviorRepository
+      {} as any, // businessClosureRepository
+      { findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, requireApproval: !!options.requireApproval }) } as any,
+      {} as any, // rbacService
+      {} as any, // businessService
+      {} as any, // notificationService
+      {} as any, // usageService
+      {
+        userRepository: { findById: jest.fn().mockResolvedValue(null) },
+        appointmentStatusChangeRepository: { record: jest.fn().mockResolvedValue(undefined) }
+      } as any,
+      {} as any, // cancellationPolicyService
+      {} as any, // notificationGateway
+      prisma as any
+    );
+
+    const released = jest.fn().mockResolvedValue(undefined);
+    service.onSlotReleased(released);
+
+    return { service, appointmentRepository, prisma, released };
+  }
+
+  it('confirms a paid booking, or sends it for approval when the business approves bookings', async () => {
+    const direct = makeService();
+    await direct.service.confirmDepositPaid('apt-1');
+    expect(direct.prisma.appointment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'apt-1', status: AppointmentStatus.PENDING },
+      data: { status: AppointmentStatus.CONFIRMED, confirmedAt: expect.any(Date) },
+    });
+
+    const approval = makeService({ requireApproval: true });
+    await approval.service.confirmDepositPaid('apt-1');
+    expect(approval.prisma.appointment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'apt-1', status: AppointmentStatus.PENDING },
+      data: { status: AppointmentStatus.PENDING_APPROVAL, approvalRule: 'ALWAYS', approvalRequestedAt: expect.any(Date) },
+    });
+  });
+
+  it('cancels an unpaid booking as SYSTEM and releases its slot', async () => {
+    const { service, appointmentRepository, released } = makeService();
+
+    await service.releaseUnpaidAppointment('apt-1');
+
+    expect(appointmentRepository.cancel).toHaveBeenCalledWith('apt-1', expect.any(String), 'SYSTEM');
+    expect(released).toHaveBeenCalledWith(expect.objectContaining({ id: 'apt-1' }));
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Customer Reschedule Tests
+ *
+ * Covers customers moving their own appointment:
+ *  - the reschedule policy (notice, moves per appointment, opt-out) is separate from cancellation limits
+ *  - a move rewrites the appointment in place, keeps the previous times in the history
+ *    and clears the reminder flags so the reminder is sent again for the new time
+ *  - the old slot is released to the waitlist and the customer gets an SMS with both times
+ */
+
+import { AppointmentService } from '../../../src/services/domain/appointment/appointmentService';
+import { CancellationPolicyService } from '../../../src/services/domain/business/cancellationPolicyService';
+import { AppointmentStatus } from '../../../src/types/business';
+import {
+  createCalendarDate,
+  createDateTimeInTimezone,
+  formatDateInTimezone,
+} from '../../../src/utils/timezoneHelper';
+
+// cancellationPolicyService creates a module-level client; keep it from loading the query engine
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn().mockImplementation(() => ({})),
+}));
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const CUSTOMER_ID = 'cust-1';
+// The business has no timezone set, so it runs on the default
+const TIMEZONE = 'Europe/Istanbul';
+
+function daysFromNow(days: number): string {
+  return formatDateInTimezone(new Date(Date.now() + days * 24 * 60 * 60 * 1000), TIMEZONE);
+}
+
+function at(date: string, time: string): Date {
+  return createDateTimeInTimezone(date, time, TIMEZONE);
+}
+
+describe('CancellationPolicyService.checkReschedulePolicy', () => {
+  function makePolicyService(reschedulePolicy: object = {}) {
+    const service = new CancellationPolicyService(
+      {} as any,
+      { findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, settings: { reschedulePolicy } }) } as any
+    );
+    jest.spyOn(service, 'getCustomerPolicyStatus').mockResolvedValue({ isBanned: false } as any);
+    return service;
+  }
+
+  const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  it('allows a move within the notice and count limits', async () => {
+    const service = makePolicyService({ minRescheduleHours: 4, maxReschedulesPerAppointment: 2 });
+
+    const result = await service.checkReschedulePolicy({
+      customerId: CUSTOMER_ID,
+      businessId: BUSINESS_ID,
+      appointmentDate: inHours(24),
+      previousReschedules: 1,
+    });
+
+    expect(result.allowed).toBe(true);
+  });
+
+  it('reports short notice and an exhausted reschedule count', async () => {
+    const service = makePolicyService({ minRescheduleHours: 4, maxReschedulesPerAppointment: 2 });
+
+    const result = await service.checkReschedulePolicy({
+      customerId: CUSTOMER_ID,
+      businessId: BUSINESS_ID,
+      appointmentDate: inHours(2),
+      previousReschedules: 2,
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.violations.map((v) => v.violationType)).toEqual(['RESCHEDULE_TIME', 'RESCHEDULE_LIMIT']);
+  });
+
+  it('blocks every customer move when the business turned rescheduling off', async () => {
+    const service = makePolicyService({ allowCustomerReschedule: false });
+
+    const result = await service.checkReschedulePolicy({
+      customerId: CUSTOMER_ID,
+      businessId: BUSINESS_ID,
+      appointmentDate: inHours(72),
+      previousReschedules: 0,
+    });
+
+    expect(result.violations.map((v) => v.violationType)).toEqual(['RESCHEDULE_DISABLED']);
+  });
+});
+
+describe('AppointmentService.rescheduleAppointment', () => {
+  const originalDate = daysFromNow(2);
+  const original = {
+    id: 'apt-1',
+    businessId: BUSINESS_ID,
+    serviceId: 'svc-cut',
+    staffId: 'staff-a',
+    customerId: CUSTOMER_ID,
+    date: createCalendarDate(originalDate),
+    startTime: at(originalDate, '10:00'),
+    endTime: at(originalDate, '10:30'),
+    duration: 30,
+    status: AppointmentStatus.CONFIRMED,
+    price: 250,
+    currency: 'TRY',
+    reminderSent: true,
+  };
+
+  function makeService(options: { policyAllowed?: boolean } = {}) {
+    const newDate = daysFromNow(3);
+    const moved = {
+      ...original,
+      date: createCalendarDate(newDate),
+      startTime: at(newDate, '15:00'),
+      endTime: at(newDate, '15:30'),
+    };
+    const appointmentRepository = {
+      findById: jest.fn().mockResolvedValueOnce(original).mockResolvedValue(moved),
+      findByBusinessAndDateRange: jest.fn().mockResolvedValue([original]),
+      findConflictingAppointments: jest.fn().mockResolvedValue([]),
+    };
+    const appointmentRescheduleRepository = {
+      countByInitiator: jest.fn().mockResolvedValue(0),
+      create: jest.fn().mockResolvedValue({}),
+    };
+    const cancellationPolicyService = {
+      checkReschedulePolicy: jest.fn().mockResolvedValue(
+        options.policyAllowed === false
+          ? {
+              allowed: false,
+              violations: [{ isViolation: true, violationType: 'RESCHEDULE_LIMIT', message: 'limit reached' }],
+              warnings: [],
+            }
+          : { allowed: true, violations: [], warnings: [] }
+      ),
+    };
+    const notificationGateway = {
+      sendCriticalSMS: jest.fn().mockResolvedValue({ success: true }),
+      sendSystemAlert: jest.fn().mockResolvedValue({ success: true, sentChannels: [], skippedChannels: [] }),
+    };
+    const tx = {
+      appointment: { findMany: jest.fn().mockResolvedValue([]), update: jest.fn().mockResolvedValue({}) },
+    };
+    const prisma = { $transaction: jest.fn().mockImplementation((fn: (client: any) => unknown) => fn(tx)) };
+
+    const service = new AppointmentService(
+      appointmentRepository as any,
+      {
+        findById: jest.fn().mockResolvedValue({
+          id: 'svc-cut',
+          name: 'Saç Kesimi',
+          isActive: true,
+          duration: 30,
+          minAdvanceBooking: 0,
+          maxAdvanceBooking: 30,
+        }),
+      } as any,
+      {} as any, // userBehaviorRepository
+      { isBusinessClosed: jest.fn().mockResolvedValue({ isClosed: false }) } as any,
+      {
+        findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, name: 'Berber Ali', ownerId: 'owner-1', settings: {} }),
+        findBusinessHoursOverride: jest.fn().mockResolvedValue(null),
+      } as any,
+      {} as any, // rbacService
+      {} as any, // businessService
+      {} as any, // notificationService
+      {} as any, // usageService
+      {
+        appointmentRescheduleRepository,
+        waitlistRepository: { findActiveHolds: jest.fn().mockResolvedValue([]) },
+        resourceRepository: { findNeedsForServices: jest.fn().mockResolvedValue(new Map()) },
+        classSessionRepository: { findScheduledInRange: jest.fn().mockResolvedValue([]) },
+        staffTimeOffRepository: { findApprovedOverlapping: jest.fn().mockResolvedValue([]) },
+        staffExternalCalendarRepository: { findBusyOverlapping: jest.fn().mockResolvedValue([]) },
+        userRepository: {
+          findById: jest.fn().mockResolvedValue({ id: CUSTOMER_ID, firstName: 'Ayşe', lastName: 'Kaya', phoneNumber: '+905551112233' }),
+        },
+        staffRepository: { findById: jest.fn().mockResolvedValue({ id: 'staff-a', userId: 'user-staff-a' }) },
+      } as any,
+      cancellationPolicyService as any,
+      notificationGateway as any,
+      prisma as any
+    );
+
+    const released = jest.fn().mockResolvedValue(undefined);
+    service.onSlotReleased(released);
+
+    return { service, newDate, tx, prisma, appointmentRescheduleRepository, cancellationPolicyService, notificationGateway, released };
+  }
+
+  it('moves the appointment, records the previous time and re-arms the reminder', async () => {
+    const { service, newDate, tx, appointmentRescheduleRepository, notificationGateway, released } = makeService();
+
+    await service.rescheduleAppointment(CUSTOMER_ID, 'apt-1', { date: newDate, startTime: '15:00', reason: 'İş çıktı' });
+
+    expect(tx.appointment.update).toHaveBeenCalledWith({
+      where: { id: 'apt-1' },
+      data: expect.objectContaining({
+        startTime: at(newDate, '15:00'),
+        endTime: at(newDate, '15:30'),
+        staffId: 'staff-a',
+        reminderSent: false,
+        reminderSentAt: null,
+      }),
+    });
+    expect(appointmentRescheduleRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        appointmentId: 'apt-1',
+        previousStartTime: original.startTime,
+        previousEndTime: original.endTime,
+        newStartTime: at(newDate, '15:00'),
+        initiatedBy: 'CUSTOMER',
+        rescheduledBy: CUSTOMER_ID,
+        reason: 'İş çıktı',
+      }),
+      tx
+    );
+    expect(released).toHaveBeenCalledWith(original);
+    expect(notificationGateway.sendCriticalSMS).toHaveBeenCalledWith(
+      '+905551112233',
+      expect.stringContaining('taşınmıştır'),
+      expect.any(Object)
+    );
+    // Owner and the assigned staff member
+    expect(notificationGateway.sendSystemAlert).toHaveBeenCalledTimes(2);
+  });
+
+  it('counts only earlier customer moves against the policy', async () => {
+    const { service, newDate, appointmentRescheduleRepository, cancellationPolicyService } = makeService();
+
+    await service.rescheduleAppointment(CUSTOMER_ID, 'apt-1', { date: newDate, startTime: '15:00' });
+
+    expect(appointmentRescheduleRepository.countByInitiator).toHaveBeenCalledWith('apt-1', 'CUSTOMER');
+    expect(cancellationPolicyService.checkReschedulePolicy).toHaveBeenCalledWith({
+      customerId: CUSTOMER_ID,
+      businessId: BUSINESS_ID,
+      appointmentDate: original.startTime,
+      previousReschedules: 0,
+    });
+  });
+
+  it('refuses the move when the reschedule policy is violated', async () => {
+    const { service, newDate, prisma } = makeService({ policyAllowed: false });
+
+    await expect(
+      service.rescheduleAppointment(CUSTOMER_ID, 'apt-1', { date: newDate, startTime: '15:00' })
+    ).rejects.toMatchObject({ code: 'APPOINTMENT_RESCHEDULE_NOT_ALLOWED' });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('only lets the customer use self-service reschedule', async () => {
+    const { service, newDate } = makeService();
+
+    await expect(
+      service.rescheduleAppointment('someone-else', 'apt-1', { date: newDate, startTime: '15:00' })
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Appointment Series Tests
+ *
+ * Covers recurring standing bookings:
+ *  - RRULE parsing / expansion (weekly, biweekly with BYDAY, monthly, COUNT/UNTIL)
+ *  - preview reports closures, special days, off-hours, staff leave and existing bookings as conflicts
+ *  - a split rule keeps the remaining COUNT when editing "this and following"
+ *  - materialisation reads and writes series dates in the business' timezone
+ */
+
+import { AppointmentSeriesService } from '../../../src/services/domain/appointment/appointmentSeriesService';
+import {
+  endRuleBefore,
+  expandOccurrences,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+} from '../../../src/services/domain/appointment/recurrenceRule';
+import { AppError } from '../../../src/types/responseTypes';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('recurrenceRule', () => {
+  it('expands a weekly rule on the start weekday', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;COUNT=3');
+    expect(expandOccurrences(rule, '2099-01-06')).toEqual(['2099-01-06', '2099-01-13', '2099-01-20']);
+  });
+
+  it('expands a biweekly rule with several weekdays', () => {
+    // 2099-01-05 is a Monday
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=4');
+    expect(expandOccurrences(rule, '2099-01-05')).toEqual([
+      '2099-01-05',
+      '2099-01-08',
+      '2099-01-19',
+      '2099-01-22',
+    ]);
+  });
+
+  it('skips months that lack the start day and honours UNTIL', () => {
+    const rule = parseRecurrenceRule('FREQ=MONTHLY;UNTIL=20990601');
+    expect(expandOccurrences(rule, '2099-01-31')).toEqual(['2099-01-31', '2099-03-31', '2099-05-31']);
+  });
+
+  it('stops at the horizon even when the rule is open-ended', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY');
+    expect(expandOccurrences(rule, '2099-01-06', { horizonEnd: '2099-01-20' })).toHaveLength(3);
+  });
+
+  it('rejects unsupported or contradictory rules', () => {
+    expect(() => parseRecurrenceRule('FREQ=DAILY')).toThrow(AppError);
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;COUNT=2;UNTIL=20990101')).toThrow(AppError);
+    expect(() => parseRecurrenceRule('FREQ=MONTHLY;BYDAY=MO')).toThrow(AppError);
+  });
+
+  it('round-trips and ends a rule the day before a split date', () => {
+    const rule = parseRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;COUNT=8');
+    expect(formatRecurrenceRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;COUNT=8');
+    expect(formatRecurrenceRule(endRuleBefore(rule, '2099-03-03'))).toBe(
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;UNTIL=20990302'
+    );
+  });
+});
+
+describe('AppointmentSeriesService.previewSeries', () => {
+  const BUSINESS_ID = 'biz-001';
+
+  function makeService(options: {
+    closedDates?: string[];
+    overrides?: Record<string, { isOpen: boolean; openTime?: string; closeTime?: string; reason?: string }>;
+    bookedDates?: string[];
+    leaveDates?: string[];
+  }) {
+    const appointmentService = {
+      assertBusinessAppointmentAccess: jest.fn().mockResolvedValue(undefined),
+      findResourceConflict: jest.fn().mockResolvedValue(null),
+      findClassConflict: jest.fn().mockResolvedValue(null),
+      findStaffBlock: jest.fn().mockImplementation((_s: string, start: Date) => {
+        const key = start.toISOString().split('T')[0];
+        return Promise.resolve((options.leaveDates || []).includes(key)
+          ? { reason: 'STAFF_ON_TIME_OFF', until: new Date(`${key}T23:59:00.000Z`) }
+          : null);
+      }),
+      findWorkingHoursForDay: jest.fn().mockImplementation((_b: string, dayOfWeek: number) =>
+        Promise.resolve(
+          // Open Mon-Fri 09:00-18:00
+          dayOfWeek >= 1 && dayOfWeek <= 5
+            ? [{ startTime: '09:00', endTime: '18:00', dayOfWeek, staffId: null }]
+            : []
+        )
+      ),
+    };
+    const appointmentRepository = {
+      findConflictingAppointments: jest.fn().mockImplementation((_b: string, date: Date) => {
+        const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+        return Promise.resolve((options.bookedDates || []).includes(key) ? [{ id: 'apt-x' }] : []);
+      }),
+    };
+    const businessClosureRepository = {
+      isBusinessClosed: jest.fn().mockImplementation((_b: string, date: Date) => {
+        const key = date.toISOString().split('T')[0];
+        const isClosed = (options.closedDates || []).includes(key);
+        return Promise.resolve({ isClosed, closure: isClosed ? { reason: 'Tadilat' } : undefined });
+      }),
+    };
+    const businessRepository = {
+      findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, timezone: 'UTC' }),
+      findBusinessHoursOverride: jest.fn().mockImplementation((_b: string, date: string) =>
+        Promise.resolve(options.overrides?.[date] || null)
+      ),
+    };
+    const serviceRepository = {
+      findById: jest.fn().mockResolvedValue({
+        id: 'svc-1',
+        businessId: BUSINESS_ID,
+        isActive: true,
+        duration: 60,
+        price: 200,
+        currency: 'TRY',
+      }),
+    };
+
+    return new AppointmentSeriesService(
+      {} as any, // appointmentSeriesRepository
+      appointmentRepository as any,
+      serviceRepository as any,
+      businessRepository as any,
+      businessClosureRepository as any,
+      appointmentService as any,
+      {} as any, // usageService
+      {} as any // prisma
+    );
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date(2099, 0, 1, 8, 0));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('books clean dates and reports each conflict with its reason', async () => {
+    const service = makeService({
+      closedDates: ['2099-01-13'],
+      overrides: {
+        '2099-01-20': { isOpen: false, reason: 'Bayram' },
+        '2099-01-27': { isOpen: true, openTime: '12:00', closeTime: '16:00' },
+      },
+      bookedDates: ['2099-02-03'],
+    });
+
+    // Tuesdays 10:00, 6 weeks starting 2099-01-06
+    const result = await service.previewSeries('owner-1', {
+      businessId: BUSINESS_ID,
+      serviceId: 'svc-1',
+      rrule: 'FREQ=WEEKLY;COUNT=6',
+      startDate: '2099-01-06',
+      startTime: '10:00',
+    });
+
+    expect(result.occurrences.map((o) => o.date)).toEqual(['2099-01-06', '2099-02-10']);
+    expect(result.conflicts).toEqual([
+      { date: '2099-01-13', startTime: '10:00', reason: 'BUSINESS_CLOSED', detail: 'Tadilat' },
+      { date: '2099-01-20', startTime: '10:00', reason: 'SPECIAL_DAY_CLOSED', detail: 'Bayram' },
+      { date: '2099-01-27', startTime: '10:00', reason: 'OUTSIDE_SPECIAL_HOURS', detail: '12:00-16:00' },
+      { date: '2099-02-03', startTime: '10:00', reason: 'TIME_CONFLICT' },
+    ]);
+  });
+
+  it('flags occurrences during the staff member\'s leave', async () => {
+    const service = makeService({ leaveDates: ['2099-01-13'] });
+
+    const result = await service.previewSeries('owner-1', {
+      businessId: BUSINESS_ID,
+      serviceId: 'svc-1',
+      staffId: 'staff-1',
+      rrule: 'FREQ=WEEKLY;COUNT=2',
+      startDate: '2099-01-06',
+      startTime: '10:00',
+    });
+
+    expect(result.occurrences.map((o) => o.date)).toEqual(['2099-01-06']);
+    expect(result.conflicts).toEqual([
+      { date: '2099-01-13', startTime: '10:00', reason: 'STAFF_ON_TIME_OFF', detail: '2099-01-13T23:59:00.000Z' },
+    ]);
+  });
+
+  it('flags occurrences that end after working hours', async () => {
+    const service = makeService({});
+
+    const result = await service.previewSeries('owner-1', {
+      businessId: BUSINESS_ID,
+      serviceId: 'svc-1',
+      rrule: 'FREQ=WEEKLY;COUNT=1',
+      startDate: '2099-01-06',
+      startTime: '17:30',
+    });
+
+    expect(result.occurrences).toEqual([]);
+    expect(result.conflicts[0].reason).toBe('OUTSIDE_WORKING_HOURS');
+  });
+});
+
+describe('AppointmentSeriesService.materializeDueSeries', () => {
+  beforeEach(() => {
+    // Already 2099-01-06 in Auckland, still 2099-01-05 in Istanbul
+    jest.useFakeTimers().setSystemTime(new Date('2099-01-05T12:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('books occurrences and the new horizon in the business\' timezone', async () => {
+    const series = {
+      id: 'ser-1',
+      businessId: 'biz-nz',
+      serviceId: 'svc-1',
+      staffId: 'staff-1',
+      customerId: 'customer-1',
+      rrule: 'FREQ=WEEKLY;COUNT=2',
+      // Local midnight of 2099-01-06 in Auckland
+      startDate: new Date('2099-01-05T11:00:00.000Z'),
+      startTime: '10:00',
+      materializedUntil: null,
+    };
+    const appointmentSeriesRepository = {
+      findNeedingMaterialization: jest.fn().mockResolvedValue([series]),
+      update: jest.fn().mockResolvedValue(series),
+    };
+    const prisma = { appointment: { create: jest.fn().mockResolvedValue({}) } };
+    const service = new AppointmentSeriesService(
+      appointmentSeriesRepository as any,
+      {} as any, // appointmentRepository
+      { findById: jest.fn().mockResolvedValue({ id: 'svc-1', isActive: true, duration: 60, price: 200, currency: 'NZD' }) } as any,
+      { findById: jest.fn().mockResolvedValue({ id: 'biz-nz', timezone: 'Pacific/Auckland' }) } as any,
+      {} as any, // businessClosureRepository
+      {} as any, // appointmentService
+      { recordAppointmentUsage: jest.fn() } as any,
+      prisma as any
+    );
+    jest.spyOn(service as any, 'checkOccurrence').mockResolvedValue(null);
+
+    const result = await service.materializeDueSeries();
+
+    expect(result).toEqual({ processed: 1, created: 2, conflicts: 0 });
+    expect(prisma.appointment.create.mock.calls.map(([{ data }]) => data.startTime.toISOString())).toEqual([
+      '2099-01-05T21:00:00.000Z',
+      '2099-01-12T21:00:00.000Z',
+    ]);
+    // 56 days after 2099-01-06, at Auckland midnight
+    expect(appointmentSeriesRepository.update).toHaveBeenCalledWith('ser-1', expect.objectContaining({
+      materializedUntil: new Date('2099-03-02T11:00:00.000Z'),
+    }));
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Appointment Status History Tests
+ *
+ * Covers the append-only history of appointment status transitions:
+ *  - an entry holds the channel, the actor, the reason and the before/after values of
+ *    the fields the transition touched; nothing is recorded when the status stays the same
+ *  - customers act through the app, staff through the panel, admin batches and jobs
+ *    are recorded as such
+ *  - the timeline merges the history with the moves and the push notifications, and
+ *    customers only see the notifications sent to them
+ */
+
+import { AppointmentRepository } from '../../../src/repositories/appointmentRepository';
+import { buildStatusChange } from '../../../src/repositories/appointmentStatusChangeRepository';
+import { AppointmentService } from '../../../src/services/domain/appointment/appointmentService';
+import { AppointmentStatus } from '../../../src/types/business';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const CUSTOMER_ID = 'cust-1';
+const STAFF_USER_ID = 'staff-user-1';
+const ADMIN_ID = 'admin-1';
+
+const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+const appointment = {
+  id: 'apt-1',
+  businessId: BUSINESS_ID,
+  serviceId: 'svc-cut',
+  customerId: CUSTOMER_ID,
+  date: inHours(48),
+  startTime: inHours(48),
+  endTime: inHours(48.5),
+  duration: 30,
+  status: AppointmentStatus.PENDING,
+  price: 250,
+  currency: 'TRY',
+  bookedAt: inHours(-24),
+  reminderSent: false,
+};
+
+describe('buildStatusChange', () => {
+  it('keeps only the fields whose value changed, dates as ISO strings', () => {
+    const canceledAt = new Date('2026-10-20T09:00:00.000Z');
+
+    const entry = buildStatusChange(
+      { ...appointment, status: AppointmentStatus.CONFIRMED, cancelReason: undefined },
+      { status: AppointmentStatus.CANCELED, canceledAt, cancelReason: 'Hasta', cancelledBy: 'CUSTOMER', checkedInAt: null },
+      { channel: 'CUSTOMER_APP', actorId: CUSTOMER_ID, reason: 'Hasta' }
+    );
+
+    expect(entry).toMatchObject({
+      appointmentId: 'apt-1',
+      businessId: BUSINESS_ID,
+      fromStatus: 'CONFIRMED',
+      toStatus: 'CANCELED',
+      channel: 'CUSTOMER_APP',
+      actorId: CUSTOMER_ID,
+      reason: 'Hasta',
+      changes: {
+        status: { from: 'CONFIRMED', to: 'CANCELED' },
+        canceledAt: { from: null, to: '2026-10-20T09:00:00.000Z' },
+        cancelReason: { from: null, to: 'Hasta' },
+        cancelledBy: { from: null, to: 'CUSTOMER' },
+      },
+    });
+    expect(entry!.changes).not.toHaveProperty('checkedInAt');
+  });
+
+  it('records nothing when the status stays the same', () => {
+    expect(
+      buildStatusChange(appointment, { status: AppointmentStatus.PENDING }, { channel: 'SYSTEM' })
+    ).toBeNull();
+  });
+});
+
+describe('AppointmentService status transitions', () => {
+  function makeService(options: { isGlobalAdmin?: boolean } = {}) {
+    const appointmentRepository = {
+      findById: jest.fn().mockResolvedValue(appointment),
+      update: jest.fn().mockImplementation((id: string, data: { status: AppointmentStatus }) =>
+        Promise.resolve({
+          ...appointment,
+          status: data.status,
+          ...(data.status === AppointmentStatus.CONFIRMED ? { confirmedAt: new Date('2026-10-20T10:00:00.000Z') } : {}),
+        })
+      ),
+      cancel: jest.fn().mockImplementation((id: string, cancelReason: string, cancelledBy: string) =>
+        Promise.resolve({
+          ...appointment,
+          status: AppointmentStatus.CANCELED,
+          canceledAt: new Date('2026-10-20T10:00:00.000Z'),
+          cancelReason,
+          cancelledBy,
+        })
+      ),
+    };
+    const statusChangeRepository = {
+      record: jest.fn().mockResolvedValue(undefined),
+      findByAppointment: jest.fn().mockResolvedValue([]),
+    };
+    const rbacService = {
+      hasPermission: jest.fn().mockResolvedValue(!!options.isGlobalAdmin),
+      requirePermission: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const service = new AppointmentService(
+      appointmentRepository as any,
+      {} as any, // serviceRepository
+      { createOrUpdate: jest.fn().mockResolvedValue({}), addStrike: jest.fn().mockResolvedValue({}) } as any,
+      {} as any, // businessClosureRepository
+      {} as any, // businessRepository
+      rbacService as any,
+      {} as any, // businessService
+      {} as any, // notificationService
+      {} as any, // usageService
+      { appointmentStatusChangeRepository: statusChangeRepository } as any,
+      { checkPolicyViolations: jest.fn().mockResolvedValue({ allowed: true, violations: [] }) } as any,
+      {} as any, // notificationGateway
+      {} as any // prisma
+    );
+    jest.spyOn(service as any, 'sendCancellationNotifications').mockResolvedValue(undefined);
+
+    return { service, appointmentRepository, statusChangeRepository };
+  }
+
+  it('records a customer cancellation as coming from the customer app, with the reason', async () => {
+    const { service, statusChangeRepository } = makeService();
+
+    await service.cancelAppointment(CUSTOMER_ID, 'apt-1', 'Şehir dışındayım');
+
+    expect(statusChangeRepository.record).toHaveBeenCalledWith(
+      appointment,
+      expect.objectContaining({ status: AppointmentStatus.CANCELED, cancelReason: 'Şehir dışındayım', cancelledBy: 'CUSTOMER' }),
+      { channel: 'CUSTOMER_APP', actorId: CUSTOMER_ID, reason: 'Şehir dışındayım' }
+    );
+  });
+
+  it('records a confirmation by staff as coming from the staff panel', async () => {
+    const { service, statusChangeRepository } = makeService();
+
+    await service.confirmAppointment(STAFF_USER_ID, 'apt-1');
+
+    expect(statusChangeRepository.record).toHaveBeenCalledWith(
+      appointment,
+      expect.objectContaining({ status: AppointmentStatus.CONFIRMED }),
+      { channel: 'STAFF_PANEL', actorId: STAFF_USER_ID, reason: undefined }
+    );
+  });
+
+  it('records every appointment of an admin batch as an admin batch change', async () => {
+    const { service, statusChangeRepository } = makeService({ isGlobalAdmin: true });
+
+    await service.batchUpdateAppointmentStatus(ADMIN_ID, ['apt-1', 'apt-2'], AppointmentStatus.CONFIRMED);
+    await service.batchCancelAppointments(ADMIN_ID, ['apt-3'], 'Sistem hatası');
+
+    expect(statusChangeRepository.record).toHaveBeenCalledTimes(3);
+    expect(statusChangeRepository.record.mock.calls.map(([, , actor]) => actor)).toEqual([
+      { channel: 'ADMIN_BATCH', actorId: ADMIN_ID },
+      { channel: 'ADMIN_BATCH', actorId: ADMIN_ID },
+      { channel: 'ADMIN_BATCH', actorId: ADMIN_ID, reason: 'Sistem hatası' },
+    ]);
+  });
+});
+
+describe('AppointmentService.getAppointmentTimeline', () => {
+  const statusChange = {
+    id: 'asc-1',
+    appointmentId: 'apt-1',
+    businessId: BUSINESS_ID,
+    fromStatus: AppointmentStatus.PENDING,
+    toStatus: AppointmentStatus.CONFIRMED,
+    channel: 'STAFF_PANEL',
+    actorId: STAFF_USER_ID,
+    changes: { status: { from: 'PENDING', to: 'CONFIRMED' } },
+    createdAt: new Date('2026-10-20T10:00:00.000Z'),
+  };
+  const reschedule = {
+    id: 'rsc-1',
+    appointmentId: 'apt-1',
+    businessId: BUSINESS_ID,
+    initiatedBy: 'CUSTOMER',
+    rescheduledBy: CUSTOMER_ID,
+    createdAt: new Date('2026-10-20T12:00:00.000Z'),
+  };
+  const notification = {
+    id: 'pn-1',
+    recipientId: CUSTOMER_ID,
+    title: 'Randevunuz onaylandı',
+    body: 'Görüşmek üzere',
+    status: 'SENT',
+    sentAt: new Date('2026-10-20T10:00:01.000Z'),
+    createdAt: new Date('2026-10-20T10:00:00.500Z'),
+  };
+
+  function makeService() {
+    const repositories = {
+      appointmentStatusChangeRepository: { findByAppointment: jest.fn().mockResolvedValue([statusChange]) },
+      appointmentRescheduleRepository: { findByAppointment: jest.fn().mockResolvedValue([reschedule]) },
+      notificationRepository: { findPushNotificationsByAppointment: jest.fn().mockResolvedValue([notification]) },
+    };
+
+    const service = new AppointmentService(
+      { findById: jest.fn().mockResolvedValue({ ...appointment, status: AppointmentStatus.CONFIRMED }) } as any,
+      {} as any, // serviceRepository
+      {} as any, // userBehaviorRepository
+      {} as any, // businessClosureRepository
+      {} as any, // businessRepository
+      {} as any, // rbacService
+      {} as any, // businessService
+      {} as any, // notificationService
+      {} as any, // usageService
+      repositories as any,
+      {} as any, // cancellationPolicyService
+      {} as any, // notificationGateway
+      {} as any // prisma
+    );
+    const assertAccess = jest.spyOn(service, 'assertBusinessAppointmentAccess').mockResolvedValue(undefined);
+
+    return { service, repositories, assertAccess };
+  }
+
+  it('merges transitions, moves and notifications oldest first', async () => {
+    const { service } = makeService();
+
+    const timeline = await service.getAppointmentTimeline(CUSTOMER_ID, 'apt-1');
+
+    expect(timeline).toMatchObject({ appointmentId: 'apt-1', status: AppointmentStatus.CONFIRMED });
+    expect(timeline.entries.map((entry) => entry.type)).toEqual(['STATUS_CHANGE', 'NOTIFICATION', 'RESCHEDULE']);
+    expect(timeline.entries[1].at).toEqual(notification.sentAt);
+  });
+
+  it('shows customers only their own notifications and checks staff access', async () => {
+    const { service, repositories, assertAccess } = makeService();
+
+    await service.getAppointmentTimeline(CUSTOMER_ID, 'apt-1');
+    expect(assertAccess).not.toHaveBeenCalled();
+    expect(repositories.notificationRepository.findPushNotificationsByAppointment).toHaveBeenLastCalledWith('apt-1', CUSTOMER_ID);
+
+    await service.getAppointmentTimeline(STAFF_USER_ID, 'apt-1');
+    expect(assertAccess).toHaveBeenCalledWith(STAFF_USER_ID, BUSINESS_ID, expect.any(String), expect.any(String));
+    expect(repositories.notificationRepository.findPushNotificationsByAppointment).toHaveBeenLastCalledWith('apt-1', undefined);
+  });
+});
+
+describe('AppointmentRepository.markAppointmentsAsCompleted', () => {
+  it('completes the appointments and records the job transitions in the same transaction', async () => {
+    const now = new Date('2026-10-20T18:00:00.000Z');
+    const tx = {
+      appointment: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'apt-1', businessId: BUSINESS_ID, status: 'CONFIRMED', completedAt: null },
+          { id: 'apt-2', businessId: BUSINESS_ID, status: 'IN_PROGRESS', completedAt: null },
+        ]),
+        updateMany: jest.fn().mockResolvedValue({ count: 2 }),
+      },
+      appointmentStatusChange: { createMany: jest.fn().mockResolvedValue({ count: 2 }) },
+      packageCreditUsage: {
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        // Both visits were paid for without a package
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      customerPackage: { findFirst: jest.fn().mockResolvedValue(null) },
+    };
+    const prisma = { $transaction: jest.fn().mockImplementation((fn: (client: typeof tx) => unknown) => fn(tx)) };
+    const repository = new AppointmentRepository(prisma as any);
+
+    const result = await repository.markAppointmentsAsCompleted(['apt-1', 'apt-2', 'apt-3'], now);
+
+    expect(result).toEqual({ count: 2 });
+    expect(tx.appointment.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ id: { in: ['apt-1', 'apt-2'] } }) })
+    );
+    const { data } = tx.appointmentStatusChange.createMany.mock.calls[0][0];
+    expect(data).toHaveLength(2);
+    expect(data[1]).toMatchObject({
+      appointmentId: 'apt-2',
+      fromStatus: 'IN_PROGRESS',
+      toStatus: 'COMPLETED',
+      channel: 'JOB',
+      actorId: null,
+      changes: { completedAt: { from: null, to: now.toISOString() } },
+      createdAt: now,
+    });
+    expect(tx.packageCreditUsage.updateMany).toHaveBeenCalledWith({
+      where: { appointmentId: { in: ['apt-1', 'apt-2'] }, status: 'RESERVED' },
+      data: { status: 'USED', settledAt: now },
+    });
+    expect(tx.customerPackage.findFirst).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * First Available Search Tests
+ *
+ * Covers the search across days and staff:
+ *  - slots of every staff member providing the service are merged and ranked by time
+ *  - the walk stops after the first day that fills the limit, or once it has listed
+ *    MAX_SEARCH_STAFF_DAYS staff days
+ *  - preferred time-of-day windows are the business's wall clock
+ *  - day listings go through the shared cache, and the search still works without it
+ */
+
+import {
+  AvailabilitySearchService,
+  MAX_SEARCH_DAYS,
+  MAX_SEARCH_STAFF_DAYS,
+} from '../../../src/services/domain/appointment/availabilitySearchService';
+import { PublicAvailableSlotsResult } from '../../../src/types/appointment';
+import { AppError } from '../../../src/types/responseTypes';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const NOW = new Date('2099-01-05T06:00:00Z');
+
+function member(id: string, firstName: string) {
+  return { id, businessId: BUSINESS_ID, isActive: true, user: { id: `user-${id}`, firstName, lastName: null } };
+}
+
+/** Free (or taken) 30 minute slots given as UTC HH:MM on a date */
+function listing(date: string, staffId: string | undefined, free: string[], taken: string[] = []): PublicAvailableSlotsResult {
+  const slot = (time: string, available: boolean) => {
+    const start = new Date(`${date}T${time}:00Z`);
+    return {
+      startTime: start.toISOString(),
+      endTime: new Date(start.getTime() + 30 * 60000).toISOString(),
+      available,
+      staffId,
+    };
+  };
+  return {
+    date,
+    businessId: BUSINESS_ID,
+    serviceId: 'svc-color',
+    staffId,
+    slots: [...free.map((time) => slot(time, true)), ...taken.map((time) => slot(time, false))],
+    bookedRanges: [],
+    businessHours: { isOpen: true },
+    closures: [],
+  };
+}
+
+describe('AvailabilitySearchService.findFirstAvailable', () => {
+  function makeService(options: {
+    timezone?: string;
+    staff?: ReturnType<typeof member>[];
+    assignedStaffIds?: string[];
+    days?: Record<string, Record<string, string[]>>;
+    cacheFails?: boolean;
+  } = {}) {
+    const appointmentService = {
+      getPublicAvailableSlots: jest.fn().mockImplementation(({ date, staffId }: { date: string; staffId?: string }) =>
+        Promise.resolve(listing(date, staffId, options.days?.[date]?.[staffId || 'any'] || []))
+      ),
+    };
+    const cacheService = {
+      generateKey: jest.fn().mockImplementation((prefix: string, id: string, opts: { businessId: string }) =>
+        `v2:${prefix}:biz:${opts.businessId}:${id}`
+      ),
+      get: options.cacheFails
+        ? jest.fn().mockRejectedValue(new Error('redis down'))
+        : jest.fn().mockImplementation((_key: string, fetch: () => Promise<unknown>) => fetch()),
+    };
+    const service = new AvailabilitySearchService(
+      appointmentService as any,
+      {
+        findById: jest.fn().mockResolvedValue({ id: 'svc-color', businessId: BUSINESS_ID, isActive: true }),
+        getServiceStaffIds: jest.fn().mockResolvedValue(options.assignedStaffIds || []),
+      } as any,
+      { findByBusinessId: jest.fn().mockResolvedValue(options.staff ?? [member('staff-a', 'Ayşe'), member('staff-b', 'Burak')]) } as any,
+      { findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, timezone: options.timezone || 'UTC' }) } as any,
+      cacheService as any
+    );
+    return { service, appointmentService, cacheService };
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('merges every staff member and returns the earliest slots first', async () => {
+    const { service, appointmentService } = makeService({
+      days: {
+        '2099-01-05': { 'staff-a': ['14:00'], 'staff-b': ['10:00', '14:00'] },
+        '2099-01-06': { 'staff-a': ['09:00'] },
+        '2099-01-07': { 'staff-a': ['09:00'] },
+      },
+    });
+
+    const result = await service.findFirstAvailable(BUSINESS_ID, { serviceId: 'svc-color', limit: 4 });
+
+    expect(result.slots.map((slot) => [slot.date, slot.startTime, slot.staffName])).toEqual([
+      ['2099-01-05', '2099-01-05T10:00:00.000Z', 'Burak'],
+      // Same time: staff in the order they were considered
+      ['2099-01-05', '2099-01-05T14:00:00.000Z', 'Ayşe'],
+      ['2099-01-05', '2099-01-05T14:00:00.000Z', 'Burak'],
+      ['2099-01-06', '2099-01-06T09:00:00.000Z', 'Ayşe'],
+    ]);
+    // The limit was filled on the 6th; the 7th was never listed
+    expect(result.searchedThrough).toBe('2099-01-06');
+    expect(appointmentService.getPublicAvailableSlots).toHaveBeenCalledTimes(4);
+  });
+
+  it('skips taken slots and slots that have already started', async () => {
+    const { service } = makeService({
+      staff: [member('staff-a', 'Ayşe')],
+      days: { '2099-01-05': { 'staff-a': ['05:30', '07:00'] } },
+    });
+
+    const result = await service.findFirstAvailable(BUSINESS_ID, { serviceId: 'svc-color', to: '2099-01-05' });
+
+    expect(result.slots.map((slot) => slot.startTime)).toEqual(['2099-01-05T07:00:00.000Z']);
+  });
+
+  it('keeps slots inside the preferred windows on the business clock', async () => {
+    // 14:00-16:00 UTC is 09:00-11:00 in New York in winter
+    const { service } = makeService({
+      timezone: 'America/New_York',
+      staff: [member('staff-a', 'Ayşe')],
+      days: { '2099-01-05': { 'staff-a': ['13:30', '14:00', '15:30', '16:00', '22:00'] } },
+    });
+
+    const result = await service.findFirstAvailable(BUSINESS_ID, {
+      serviceId: 'svc-color',
+      to: '2099-01-05',
+      windows: [{ from: '09:00', to: '11:00' }, { from: '17:00', to: '18:00' }],
+    });
+
+    expect(result.timezone).toBe('America/New_York');
+    expect(result.slots.map((slot) => slot.startTime)).toEqual([
+      '2099-01-05T14:00:00.000Z',
+      '2099-01-05T15:30:00.000Z',
+      '2099-01-05T22:00:00.000Z',
+    ]);
+  });
+
+  it('only asks for staff assigned to the service, narrowed to the requested ones', async () => {
+    const { service, appointmentService } = makeService({
+      staff: [member('staff-a', 'Ayşe'), member('staff-b', 'Burak'), member('staff-c', 'Cem')],
+      assignedStaffIds: ['staff-b', 'staff-c'],
+    });
+
+    await service.findFirstAvailable(BUSINESS_ID, { serviceId: 'svc-color', to: '2099-01-05', staffIds: ['staff-c', 'staff-a'] });
+
+    expect(appointmentService.getPublicAvailableSlots.mock.calls.map(([params]) => params.staffId)).toEqual(['staff-c']);
+    await expect(
+      service.findFirstAvailable(BUSINESS_ID, { serviceId: 'svc-color', staffIds: ['staff-a'] })
+    ).rejects.toMatchObject({ code: 'STAFF_NOT_FOUND' } as Partial<AppError>);
+  });
+
+  it('searches the business as a whole when it has no staff records', async () => {
+    const { service } = makeService({ staff: [], days: { '2099-01-05': { any: ['09:00'] } } });
+
+    const result = await service.findFirstAvailable(BUSINESS_ID, { serviceId: 'svc-color', to: '2099-01-05' });
+
+    expect(result.slots).toEqual([
+      expect.objectContaining({ startTime: '2099-01-05T09:00:00.000Z', staffId: undefined, staffName: undefined }),
+    ]);
+  });
+
+  it('starts today at the earliest and refuses ranges that are too long', async () => {
+    const { service } = makeService();
+
+    const result = await service.findFirstAvailable(BUSINESS_ID, { serviceId: 'svc-color', from: '2099-01-01' });
+    expect([result.from, result.to]).toEqual(['2099-01-05', '2099-01-11']);
+
+    await expect(
+      service.findFirstAvailable(BUSINESS_ID, { serviceId: 'svc-color', from: '2099-01-05', to: '2099-02-05' })
+    ).rejects.toMatchObject({ code: 'APPOINTMENT_SEARCH_RANGE_TOO_LONG', params: { maxDays: MAX_SEARCH_DAYS } });
+  });
+
+  it('ends a month-long search over ten staff members after a week of listings', async () => {
+    const staff = Array.from({ length: 10 }, (_, i) => member(`staff-${i}`, `Personel ${i}`));
+    const { service, appointmentService } = makeService({ staff });
+
+    const result = await service.findFirstAvailable(BUSINESS_ID, { serviceId: 'svc-color', to: '2099-02-03' });
+
+    expect(result.slots).toEqual([]);
+    expect(result.searchedThrough).toBe('2099-01-11');
+    expect(appointmentService.getPublicAvailableSlots).toHaveBeenCalledTimes(MAX_SEARCH_STAFF_DAYS);
+  });
+
+  it('caches each day per staff member under the business appointment namespace', async () => {
+    const { service, cacheService } = makeService({ staff: [member('staff-a', 'Ayşe')] });
+
+    await service.findFirstAvailable(BUSINESS_ID, { serviceId: 'svc-color', to: '2099-01-05' });
+
+    expect(cacheService.generateKey).toHaveBeenCalledWith('appointment', 'slots-svc-color-staff-a-2099-01-05', {
+      businessId: BUSINESS_ID,
+      shared: true,
+    });
+  });
+
+  it('lists without the cache when it is unavailable', async () => {
+    const { service } = makeService({
+      cacheFails: true,
+      staff: [member('staff-a', 'Ayşe')],
+      days: { '2099-01-05': { 'staff-a': ['09:00'] } },
+    });
+
+    const result = await service.findFirstAvailable(BUSINESS_ID, { serviceId: 'svc-color', to: '2099-01-05' });
+
+    expect(result.slots).toHaveLength(1);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Booking Window Tests
+ *
+ * Covers per-service lead time, horizon and release schedules:
+ *  - a service's own values override the business's reservation settings, and a
+ *    sequence of services gets the strictest of them
+ *  - "next week's slots open every Monday at 09:00" on the business's clock
+ *  - slot listing hides slots inside the lead time and lists unreleased days as taken
+ *  - booking is refused before the release, except for the business's own staff
+ */
+
+import { AppointmentService } from '../../../src/services/domain/appointment/appointmentService';
+import {
+  bookableFrom,
+  checkBookingWindow,
+  resolveBookingWindow,
+} from '../../../src/services/domain/appointment/bookingWindow';
+import { BookingReleaseSchedule } from '../../../src/types/business';
+import { AppError } from '../../../src/types/responseTypes';
+import { createDateTimeInTimezone } from '../../../src/utils/timezoneHelper';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const TIMEZONE = 'Europe/Istanbul';
+// Monday 5 January 2099, 08:00 in Istanbul
+const NOW = new Date('2099-01-05T05:00:00Z');
+const NEXT_WEEK_ON_MONDAYS: BookingReleaseSchedule = { dayOfWeek: 1, time: '09:00', weeksAhead: 1 };
+
+const at = (date: string, time: string) => createDateTimeInTimezone(date, time, TIMEZONE);
+
+describe('resolveBookingWindow', () => {
+  const settings = { maxAdvanceBookingDays: 30, minNotificationHours: 2, maxDailyAppointments: 50 };
+
+  it('lets a service override the business defaults and falls back for unset values', () => {
+    expect(resolveBookingWindow([{ maxAdvanceBooking: 90, minAdvanceBooking: null }], settings)).toEqual({
+      minLeadHours: 2,
+      maxAdvanceDays: 90,
+      releases: [],
+    });
+    expect(resolveBookingWindow([], undefined)).toEqual({ minLeadHours: 0, maxAdvanceDays: 30, releases: [] });
+  });
+
+  it('takes the strictest values of every service in a sequence', () => {
+    const window = resolveBookingWindow(
+      [
+        { maxAdvanceBooking: 90, minAdvanceBooking: 1 },
+        { minAdvanceBooking: 24, bookingRelease: NEXT_WEEK_ON_MONDAYS },
+      ],
+      settings
+    );
+
+    expect(window).toEqual({ minLeadHours: 24, maxAdvanceDays: 30, releases: [NEXT_WEEK_ON_MONDAYS] });
+  });
+});
+
+describe('bookableFrom', () => {
+  const window = { minLeadHours: 0, maxAdvanceDays: 60, releases: [NEXT_WEEK_ON_MONDAYS] };
+
+  it('opens this week and next week at 09:00 on Monday', () => {
+    const mondayRelease = new Date('2099-01-05T06:00:00Z');
+
+    expect(bookableFrom(window, '2099-01-12', TIMEZONE)).toEqual(mondayRelease);
+    expect(bookableFrom(window, '2099-01-18', TIMEZONE)).toEqual(mondayRelease);
+    // The week after opens with the following Monday's release
+    expect(bookableFrom(window, '2099-01-19', TIMEZONE)).toEqual(new Date('2099-01-12T06:00:00Z'));
+  });
+
+  it('waits for the horizon when it opens the day later than the release', () => {
+    const shortHorizon = { ...window, maxAdvanceDays: 3 };
+
+    // Local midnight three days before the 18th
+    expect(bookableFrom(shortHorizon, '2099-01-18', TIMEZONE)).toEqual(new Date('2099-01-14T21:00:00Z'));
+  });
+});
+
+describe('checkBookingWindow', () => {
+  const window = resolveBookingWindow([{ minAdvanceBooking: 24, bookingRelease: NEXT_WEEK_ON_MONDAYS }], {});
+
+  it('refuses next week until the Monday release and accepts it afterwards', () => {
+    expect(checkBookingWindow(window, at('2099-01-13', '10:00'), NOW, TIMEZONE)).toEqual({
+      code: 'APPOINTMENT_NOT_YET_RELEASED',
+      message: 'Booking for this date opens at 2099-01-05T06:00:00.000Z',
+      params: { opensAt: '2099-01-05T06:00:00.000Z' },
+    });
+    expect(checkBookingWindow(window, at('2099-01-13', '10:00'), at('2099-01-05', '09:00'), TIMEZONE)).toBeNull();
+  });
+
+  it('applies the service lead time and horizon', () => {
+    expect(checkBookingWindow(window, at('2099-01-05', '20:00'), NOW, TIMEZONE)).toMatchObject({
+      code: 'APPOINTMENT_INSUFFICIENT_ADVANCE',
+      params: { minHours: 24 },
+    });
+
+    const longHorizon = resolveBookingWindow([{ maxAdvanceBooking: 60 }], { maxAdvanceBookingDays: 30 });
+    expect(checkBookingWindow(longHorizon, at('2099-02-20', '10:00'), NOW, TIMEZONE)).toBeNull();
+    expect(checkBookingWindow(longHorizon, at('2099-03-07', '10:00'), NOW, TIMEZONE)).toMatchObject({
+      code: 'APPOINTMENT_TOO_FAR_FUTURE',
+      params: { maxDays: 60 },
+    });
+  });
+});
+
+describe('AppointmentService booking windows', () => {
+  function makeService(serviceOverrides: object, settings: object = {}) {
+    const service = {
+      id: 'svc-color',
+      businessId: BUSINESS_ID,
+      isActive: true,
+      duration: 60,
+      price: 400,
+      currency: 'TRY',
+      ...serviceOverrides,
+    };
+    return new AppointmentService(
+      {
+        findWorkingHours: jest.fn().mockResolvedValue([{ startTime: '09:00', endTime: '18:00', dayOfWeek: 1, staffId: null }]),
+        findAppointmentsForDay: jest.fn().mockResolvedValue([]),
+        findByBusinessAndDateRange: jest.fn().mockResolvedValue([]),
+      } as any,
+      { findById: jest.fn().mockResolvedValue(service) } as any,
+      {} as any, // userBehaviorRepository
+      { findByDateRange: jest.fn().mockResolvedValue([]) } as any,
+      {
+        findById: jest.fn().mockResolvedValue({
+          id: BUSINESS_ID,
+          timezone: TIMEZONE,
+          settings: { reservationSettings: settings },
+        }),
+        findBusinessHoursOverride: jest.fn().mockResolvedValue(null),
+      } as any,
+      {} as any, // rbacService
+      {} as any, // businessService
+      {} as any, // notificationService
+      {} as any, // usageService
+      {
+        waitlistRepository: { findActiveHolds: jest.fn().mockResolvedValue([]) },
+        resourceRepository: { findNeedsForServices: jest.fn().mockResolvedValue(new Map()) },
+        classSessionRepository: { findScheduledInRange: jest.fn().mockResolvedValue([]) },
+        staffTimeOffRepository: { findApprovedOverlapping: jest.fn().mockResolvedValue([]) },
+        staffExternalCalendarRepository: { findBusyOverlapping: jest.fn().mockResolvedValue([]) },
+      } as any,
+      {} as any, // cancellationPolicyService
+      {} as any, // notificationGateway
+      {} as any // prisma
+    );
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('hides the slots inside the service lead time', async () => {
+    // The business allows same-hour bookings; the colouring needs three hours' notice
+    const service = makeService({ minAdvanceBooking: 3 }, { minNotificationHours: 0 });
+
+    const result = await service.getPublicAvailableSlots({ businessId: BUSINESS_ID, serviceId: 'svc-color', date: '2099-01-05' });
+
+    expect(result.slots[0].startTime).toBe(at('2099-01-05', '11:00').toISOString());
+    expect(result.bookingOpensAt).toBeUndefined();
+  });
+
+  it('lists an unreleased day as taken with the moment it opens', async () => {
+    const service = makeService({ bookingRelease: NEXT_WEEK_ON_MONDAYS });
+
+    const result = await service.getPublicAvailableSlots({ businessId: BUSINESS_ID, serviceId: 'svc-color', date: '2099-01-12' });
+
+    expect(result.bookingOpensAt).toBe('2099-01-05T06:00:00.000Z');
+    expect(result.slots.length).toBeGreaterThan(0);
+    expect(result.slots.every((slot) => !slot.available)).toBe(true);
+
+    jest.setSystemTime(at('2099-01-05', '09:00'));
+    const released = await service.getPublicAvailableSlots({ businessId: BUSINESS_ID, serviceId: 'svc-color', date: '2099-01-12' });
+    expect(released.bookingOpensAt).toBeUndefined();
+    expect(released.slots.every((slot) => slot.available)).toBe(true);
+  });
+
+  it('refuses bookings before the release unless the business books them', async () => {
+    const service = makeService({ bookingRelease: NEXT_WEEK_ON_MONDAYS });
+    const svc = { bookingRelease: NEXT_WEEK_ON_MONDAYS };
+    const validate = (isBusinessUser: boolean) =>
+      (service as any).validateBusinessReservationRules(
+        BUSINESS_ID,
+        at('2099-01-13', '10:00'),
+        'cust-1',
+        60,
+        [svc],
+        isBusinessUser
+      );
+
+    await expect(validate(false)).rejects.toMatchObject({
+      code: 'APPOINTMENT_NOT_YET_RELEASED',
+      params: { opensAt: '2099-01-05T06:00:00.000Z' },
+    } as Partial<AppError>);
+    await expect(validate(true)).resolves.toBeUndefined();
+  });
+
+  it('lets a service horizon reach past the business default', async () => {
+    const service = makeService({}, { maxAdvanceBookingDays: 30 });
+    const validate = (services: object[]) =>
+      (service as any).validateBusinessReservationRules(BUSINESS_ID, at('2099-02-20', '10:00'), 'cust-1', 60, services);
+
+    await expect(validate([])).rejects.toMatchObject({ code: 'APPOINTMENT_TOO_FAR_FUTURE' } as Partial<AppError>);
+    await expect(validate([{ maxAdvanceBooking: 60 }])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Bulk Import Tests
+ *
+ * Covers importing customers, services and future appointments from CSV:
+ *  - headers in English or Turkish, semicolon or comma delimited, local date/amount formats
+ *  - dry runs report per row without writing anything
+ *  - customers are matched by normalized phone number and services by name
+ *  - appointments are checked against working hours and the staff member's time,
+ *    and re-runs skip rows imported before
+ *  - customer and service limits are respected per row
+ */
+
+import { BusinessImportService } from '../../../src/services/domain/import/businessImportService';
+import {
+  parseCsv,
+  parseImportAmount,
+  parseImportDate,
+  parseImportTime,
+  readImportRows,
+} from '../../../src/services/domain/import/importRules';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const OWNER_ID = 'owner-1';
+
+const haircut = {
+  id: 'svc-cut',
+  businessId: BUSINESS_ID,
+  name: 'Saç Kesimi',
+  duration: 60,
+  price: 500,
+  currency: 'TRY',
+  bufferTime: 0,
+  isActive: true,
+  isGroupSession: false,
+};
+
+const ayse = {
+  id: 'staff-1',
+  businessId: BUSINESS_ID,
+  user: { id: 'user-ayse', firstName: 'Ayşe', lastName: 'Yılmaz', phoneNumber: '+905321112233' },
+};
+
+function makeService() {
+  const repositories = {
+    businessRepository: { findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, timezone: 'Europe/Istanbul' }) },
+    userRepository: {
+      findByPhoneNumber: jest.fn().mockResolvedValue(null),
+      create: jest.fn().mockImplementation(async (data) => ({ id: `user-${data.phoneNumber}` })),
+    },
+    serviceRepository: {
+      findByBusinessId: jest.fn().mockResolvedValue([haircut]),
+      getStaffOverride: jest.fn().mockResolvedValue(null),
+    },
+    staffRepository: { findByBusinessId: jest.fn().mockResolvedValue([ayse]) },
+    appointmentRepository: {
+      findImportKeys: jest.fn().mockResolvedValue(new Set()),
+      findConflictingAppointments: jest.fn().mockResolvedValue([]),
+      createImported: jest.fn().mockImplementation(async (data) => ({ id: `apt-${data.importKey}` })),
+    },
+  };
+  const offeringService = { createService: jest.fn().mockImplementation(async (_u, _b, data) => ({ id: 'svc-new', ...data })) };
+  const appointmentService = {
+    findWorkingHoursForDay: jest.fn().mockResolvedValue([{ startTime: '09:00', endTime: '18:00', dayOfWeek: 1, staffId: null }]),
+  };
+  const usageService = {
+    canAddCustomer: jest.fn().mockResolvedValue({ allowed: true }),
+    canAddService: jest.fn().mockResolvedValue({ allowed: true }),
+    updateCustomerUsage: jest.fn(),
+    recordAppointmentUsage: jest.fn(),
+  };
+  const rbacService = { hasPermission: jest.fn().mockResolvedValue(false), requirePermission: jest.fn() };
+
+  const service = new BusinessImportService(
+    repositories as any,
+    offeringService as any,
+    appointmentService as any,
+    usageService as any,
+    rbacService as any
+  );
+
+  return { service, repositories, offeringService, appointmentService, usageService, rbacService };
+}
+
+describe('import rules', () => {
+  it('reads Turkish headers from a semicolon-delimited Excel export', () => {
+    const rows = readImportRows(
+      'customers',
+      '\uFEFFAd;Soyad;Cep Telefonu;Doğum Günü\r\n"Ali; Veli";Demir;0532 111 22 33;01.01.1990\r\n;;;\r\n'
+    );
+
+    expect(rows).toEqual([{ line: 2, values: { firstName: 'Ali; Veli', lastName: 'Demir', phone: '0532 111 22 33' } }]);
+  });
+
+  it('keeps quoted line breaks and escaped quotes', () => {
+    expect(parseCsv('name,notes\nA,"first line\nsays ""hi"""\n')).toEqual([
+      ['name', 'notes'],
+      ['A', 'first line\nsays "hi"'],
+    ]);
+  });
+
+  it('rejects files without a required column', () => {
+    expect(() => readImportRows('appointments', 'phone,service,date\n05321112233,Saç Kesimi,2030-01-07\n'))
+      .toThrow(expect.objectContaining({ code: 'IMPORT_FILE_INVALID' }));
+  });
+
+  it('parses local date, time and amount formats', () => {
+    expect(parseImportDate('07.01.2030')).toBe('2030-01-07');
+    expect(parseImportDate('2030-1-7')).toBe('2030-01-07');
+    expect(parseImportDate('31.02.2030')).toBeNull();
+    expect(parseImportTime('9.30')).toBe('09:30');
+    expect(parseImportTime('24:00')).toBeNull();
+    expect(parseImportAmount('1.250,50 ₺')).toBe(1250.5);
+    expect(parseImportAmount('$1,250.50')).toBe(1250.5);
+    expect(parseImportAmount('abc')).toBeNull();
+  });
+});
+
+describe('BusinessImportService', () => {
+  it('requires permission to edit the business', async () => {
+    const { service, rbacService } = makeService();
+    rbacService.requirePermission.mockRejectedValue(new Error('forbidden'));
+
+    await expect(service.importFile('staff-user', BUSINESS_ID, 'customers', 'phone\n05321112233\n', true))
+      .rejects.toThrow('forbidden');
+  });
+
+  describe('customers', () => {
+    const csv = 'phone,firstName\n0532 111 22 33,Ali\n+90 532 111 22 33,Ali\n0544 000 00 00,Veli\nabc,X\n';
+
+    it('reports a dry run without creating anyone', async () => {
+      const { service, repositories } = makeService();
+      repositories.userRepository.findByPhoneNumber.mockImplementation(async (phone: string) =>
+        phone === '+905440000000' ? { id: 'user-veli' } : null
+      );
+
+      const report = await service.importFile(OWNER_ID, BUSINESS_ID, 'customers', csv, true);
+
+      expect(report).toMatchObject({ dryRun: true, totalRows: 4, created: 1, skipped: 1, failed: 2 });
+      expect(report.rows.map((row) => row.action)).toEqual(['CREATE', 'ERROR', 'SKIP', 'ERROR']);
+      expect(report.rows[1].errors[0]).toMatchObject({ code: 'DUPLICATE_ROW' });
+      expect(report.rows[3].errors[0]).toMatchObject({ code: 'INVALID_PHONE' });
+      expect(repositories.userRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('creates new customers with normalized phone numbers and respects the customer limit', async () => {
+      const { service, repositories, usageService } = makeService();
+      usageService.canAddCustomer
+        .mockResolvedValueOnce({ allowed: true })
+        .mockResolvedValueOnce({ allowed: false, reason: 'Customer limit reached' });
+
+      const report = await service.importFile(OWNER_ID, BUSINESS_ID, 'customers', csv, false);
+
+      expect(repositories.userRepository.create).toHaveBeenCalledTimes(1);
+      expect(repositories.userRepository.create).toHaveBeenCalledWith({ phoneNumber: '+905321112233', firstName: 'Ali', lastName: undefined });
+      expect(report.rows[2].errors[0]).toMatchObject({ code: 'LIMIT_REACHED' });
+      expect(usageService.updateCustomerUsage).toHaveBeenCalledWith(BUSINESS_ID);
+    });
+  });
+
+  describe('services', () => {
+    it('skips services that exist by name and validates the rest like the service form', async () => {
+      const { service, offeringService } = makeService();
+      const csv = 'Hizmet Adı;Süre;Fiyat\nsaç kesimi;45;400\nBoya;90;1.200,00\nFön;5;100\n';
+
+      const report = await service.importFile(OWNER_ID, BUSINESS_ID, 'services', csv, false);
+
+      expect(report.rows.map((row) => row.action)).toEqual(['SKIP', 'CREATE', 'ERROR']);
+      expect(report.rows[0].id).toBe('svc-cut');
+      expect(report.rows[2].errors[0]).toMatchObject({ code: 'INVALID_VALUE', field: 'duration' });
+      expect(offeringService.createService).toHaveBeenCalledWith(OWNER_ID, BUSINESS_ID, expect.objectContaining({
+        name: 'Boya',
+        duration: 90,
+        price: 1200,
+        assignToAll: true,
+      }));
+    });
+  });
+
+  describe('appointments', () => {
+    // 2030-01-07 is a Monday; 10:00 in Istanbul is 07:00 UTC
+    const header = 'telefon,hizmet,personel,tarih,saat,randevu no\n';
+
+    it('imports future appointments as confirmed and records usage', async () => {
+      const { service, repositories, usageService } = makeService();
+
+      const report = await service.importFile(
+        OWNER_ID,
+        BUSINESS_ID,
+        'appointments',
+        `${header}0532 999 88 77,Saç Kesimi,Ayşe Yılmaz,07.01.2030,10:00,R-1\n`,
+        false
+      );
+
+      expect(report).toMatchObject({ created: 1, failed: 0 });
+      expect(repositories.appointmentRepository.createImported).toHaveBeenCalledWith(expect.objectContaining({
+        serviceId: 'svc-cut',
+        staffId: 'staff-1',
+        customerId: 'user-+905329998877',
+        startTime: new Date('2030-01-07T07:00:00.000Z'),
+        endTime: new Date('2030-01-07T08:00:00.000Z'),
+        price: 500,
+        importKey: 'ext:R-1',
+      }));
+      expect(usageService.recordAppointmentUsage).toHaveBeenCalledWith(BUSINESS_ID, 1);
+      expect(usageService.updateCustomerUsage).toHaveBeenCalledWith(BUSINESS_ID);
+    });
+
+    it('skips rows imported before', async () => {
+      const { service, repositories } = makeService();
+      repositories.appointmentRepository.findImportKeys.mockResolvedValue(new Set(['ext:R-1']));
+
+      const report = await service.importFile(
+        OWNER_ID,
+        BUSINESS_ID,
+        'appointments',
+        `${header}05329998877,Saç Kesimi,Ayşe Yılmaz,07.01.2030,10:00,R-1\n`,
+        false
+      );
+
+      expect(report).toMatchObject({ created: 0, skipped: 1 });
+      expect(repositories.appointmentRepository.createImported).not.toHaveBeenCalled();
+    });
+
+    it('reports time conflicts, working hours, past dates and unknown services per row', async () => {
+      const { service, repositories } = makeService();
+      repositories.appointmentRepository.findConflictingAppointments.mockImplementation(
+        async (_b: string, _d: Date, start: Date) => (start.toISOString() === '2030-01-07T12:00:00.000Z' ? [{ id: 'apt-x' }] : [])
+      );
+      const csv = header + [
+        '05329998877,Saç Kesimi,Ayşe Yılmaz,07.01.2030,10:00,R-1',
+        '05329998866,Saç Kesimi,+90 532 111 22 33,07.01.2030,10:30,R-2',
+        '05329998866,Saç Kesimi,Ayşe Yılmaz,07.01.2030,15:00,R-3',
+        '05329998866,Saç Kesimi,,07.01.2030,17:30,R-4',
+        '05329998866,Saç Kesimi,,07.01.2020,10:00,R-5',
+        '05329998866,Manikür,Mehmet,07.01.2030,10:00,R-6',
+      ].join('\n');
+
+      const report = await service.importFile(OWNER_ID, BUSINESS_ID, 'appointments', csv, true);
+
+      expect(report.rows.map((row) => [row.action, row.errors.map((error) => error.code)])).toEqual([
+        ['CREATE', []],
+        ['ERROR', ['TIME_CONFLICT']],
+        ['ERROR', ['TIME_CONFLICT']],
+        ['ERROR', ['OUTSIDE_WORKING_HOURS']],
+        ['ERROR', ['PAST_DATE']],
+        ['ERROR', ['SERVICE_NOT_FOUND', 'STAFF_NOT_FOUND']],
+      ]);
+      expect(report.rows[1].errors[0].message).toContain('row 2');
+      expect(repositories.appointmentRepository.createImported).not.toHaveBeenCalled();
+      expect(repositories.userRepository.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Business Timezone Tests
+ *
+ * Covers availability computed on the business's wall clock, whatever the server runs in:
+ *  - calendar days of zones with daylight saving are 23 or 25 hours long when the clocks change
+ *  - working hours, slot times and closures are turned into instants of the business's zone
+ *  - the advance-booking and daily-limit rules count the business's calendar days
+ */
+
+import { AppointmentService } from '../../../src/services/domain/appointment/appointmentService';
+import {
+  applyClosures,
+  openingWindow,
+  resolveBusinessDay,
+  slotStartTimes,
+} from '../../../src/services/domain/appointment/businessDay';
+import { AppError } from '../../../src/types/responseTypes';
+import { BusinessClosureData, ClosureType } from '../../../src/types/business';
+import {
+  createDateTimeInTimezone,
+  formatDateInTimezone,
+  formatTimeInTimezone,
+  getDayBoundsInTimezone,
+} from '../../../src/utils/timezoneHelper';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const HOUR_MS = 60 * 60 * 1000;
+
+function closure(startDate: string, endDate?: string): BusinessClosureData {
+  return {
+    id: `closure-${startDate}`,
+    businessId: BUSINESS_ID,
+    startDate: new Date(startDate),
+    endDate: endDate ? new Date(endDate) : undefined,
+    reason: 'Tadilat',
+    type: ClosureType.MAINTENANCE,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as BusinessClosureData;
+}
+
+describe('timezoneHelper business zones', () => {
+  it('places the same wall time on different instants in summer and winter', () => {
+    expect(createDateTimeInTimezone('2026-07-06', '09:00', 'America/New_York')).toEqual(new Date('2026-07-06T13:00:00Z'));
+    expect(createDateTimeInTimezone('2026-01-05', '09:00', 'America/New_York')).toEqual(new Date('2026-01-05T14:00:00Z'));
+  });
+
+  it('makes the day the clocks go forward 23 hours and the day they go back 25 hours', () => {
+    const spring = getDayBoundsInTimezone('2026-03-29', 'Europe/Berlin');
+    const autumn = getDayBoundsInTimezone('2026-10-25', 'Europe/Berlin');
+
+    expect(spring).toEqual({ start: new Date('2026-03-28T23:00:00Z'), end: new Date('2026-03-29T22:00:00Z') });
+    expect(autumn.end.getTime() - autumn.start.getTime()).toBe(25 * HOUR_MS);
+  });
+
+  it('reads instants back as the business date and time', () => {
+    // 02:30 UTC is still the previous evening in New York
+    const instant = new Date('2026-07-07T02:30:00Z');
+
+    expect(formatDateInTimezone(instant, 'America/New_York')).toBe('2026-07-06');
+    expect(formatTimeInTimezone(instant, 'America/New_York')).toBe('22:30');
+  });
+});
+
+describe('businessDay', () => {
+  it('keeps slot steps in elapsed time across the change', () => {
+    const autumn = resolveBusinessDay('2026-10-25', 'Europe/Berlin');
+    const window = openingWindow(autumn, '01:00', '04:00');
+
+    // 01:00-04:00 on the night the clocks go back lasts four hours: 02:00 comes twice
+    expect(window.end.getTime() - window.start.getTime()).toBe(4 * HOUR_MS);
+    expect(slotStartTimes(window, 60, 60).map((start) => formatTimeInTimezone(start, 'Europe/Berlin'))).toEqual([
+      '01:00',
+      '02:00',
+      '02:00',
+      '03:00',
+    ]);
+  });
+
+  it('closes at the following midnight when the closing time is 00:00', () => {
+    const spring = resolveBusinessDay('2026-03-29', 'Europe/Berlin');
+
+    expect(spring.dayOfWeek).toBe(0);
+    expect(openingWindow(spring, '00:00', '00:00')).toEqual({ start: spring.start, end: spring.end });
+  });
+
+  it('tells a closure covering the opening hours from one covering part of them', () => {
+    const day = resolveBusinessDay('2026-07-06', 'America/New_York');
+    const window = openingWindow(day, '09:00', '17:00');
+
+    const partial = applyClosures([closure('2026-07-06T16:00:00Z', '2026-07-06T18:00:00Z')], window);
+    expect(partial.fullClosure).toBeUndefined();
+    expect(partial.blocked).toEqual([{ start: new Date('2026-07-06T16:00:00Z'), end: new Date('2026-07-06T18:00:00Z') }]);
+
+    // Ends before the New York opening, although it covers the whole UTC morning
+    expect(applyClosures([closure('2026-07-06T00:00:00Z', '2026-07-06T12:00:00Z')], window)).toEqual({ blocked: [] });
+    expect(applyClosures([closure('2026-07-06T04:00:00Z')], window).fullClosure).toBeDefined();
+  });
+});
+
+describe('AppointmentService in the business timezone', () => {
+  function makeService(options: { timezone: string; hours?: [string, string]; settings?: object; dayAppointments?: any[] }) {
+    const [open, close] = options.hours || ['09:00', '12:00'];
+    const appointmentRepository = {
+      findWorkingHours: jest.fn().mockResolvedValue([{ startTime: open, endTime: close, dayOfWeek: 1, staffId: null }]),
+      findAppointmentsForDay: jest.fn().mockResolvedValue([]),
+      findByBusinessAndDateRange: jest.fn().mockResolvedValue(options.dayAppointments || []),
+    };
+    const businessClosureRepository = { findByDateRange: jest.fn().mockResolvedValue([]) };
+
+    const service = new AppointmentService(
+      appointmentRepository as any,
+      {
+        findById: jest.fn().mockResolvedValue({
+          id: 'svc-cut',
+          businessId: BUSINESS_ID,
+          isActive: true,
+          duration: 60,
+          price: 250,
+          currency: 'TRY',
+        }),
+      } as any,
+      {} as any, // userBehaviorRepository
+      businessClosureRepository as any,
+      {
+        findById: jest.fn().mockResolvedValue({
+          id: BUSINESS_ID,
+          timezone: options.timezone,
+          settings: options.settings || {},
+        }),
+        findBusinessHoursOverride: jest.fn().mockResolvedValue(null),
+      } as any,
+      {} as any, // rbacService
+      {} as any, // businessService
+      {} as any, // notificationService
+      {} as any, // usageService
+      {
+        waitlistRepository: { findActiveHolds: jest.fn().mockResolvedValue([]) },
+        resourceRepository: { findNeedsForServices: jest.fn().mockResolvedValue(new Map()) },
+        classSessionRepository: { findScheduledInRange: jest.fn().mockResolvedValue([]) },
+        staffTimeOffRepository: { findApprovedOverlapping: jest.fn().mockResolvedValue([]) },
+        staffExternalCalendarRepository: { findBusyOverlapping: jest.fn().mockResolvedValue([]) },
+      } as any,
+      {} as any, // cancellationPolicyService
+      {} as any, // notificationGateway
+      {} as any // prisma
+    );
+    return { service, appointmentRepository, businessClosureRepository };
+  }
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('lists New York opening hours as New York instants in summer and winter', async () => {
+    const { service } = makeService({ timezone: 'America/New_York' });
+
+    const summer = await service.getPublicAvailableSlots({ businessId: BUSINESS_ID, serviceId: 'svc-cut', date: '2099-07-06' });
+    const winter = await service.getPublicAvailableSlots({ businessId: BUSINESS_ID, serviceId: 'svc-cut', date: '2099-01-05' });
+
+    expect(summer.timezone).toBe('America/New_York');
+    expect(summer.slots[0].startTime).toBe('2099-07-06T13:00:00.000Z');
+    expect(summer.slots[summer.slots.length - 1].startTime).toBe('2099-07-06T15:00:00.000Z');
+    expect(winter.slots[0].startTime).toBe('2099-01-05T14:00:00.000Z');
+  });
+
+  it('offers only the hours that exist on the night the clocks go forward', async () => {
+    const { service } = makeService({ timezone: 'Europe/Berlin', hours: ['01:00', '04:00'] });
+
+    const normal = await service.getPublicAvailableSlots({ businessId: BUSINESS_ID, serviceId: 'svc-cut', date: '2099-03-22' });
+    const spring = await service.getPublicAvailableSlots({ businessId: BUSINESS_ID, serviceId: 'svc-cut', date: '2099-03-29' });
+
+    // 60 minute slots every 15 minutes: three hours open on a normal night, two on this one
+    expect(normal.slots).toHaveLength(9);
+    expect(spring.slots).toHaveLength(5);
+    expect(spring.slots[spring.slots.length - 1].endTime).toBe('2099-03-29T02:00:00.000Z');
+  });
+
+  it('looks closures up over the opening hours in the business zone', async () => {
+    const { service, businessClosureRepository } = makeService({ timezone: 'America/New_York' });
+
+    await service.getPublicAvailableSlots({ businessId: BUSINESS_ID, serviceId: 'svc-cut', date: '2099-07-06' });
+
+    expect(businessClosureRepository.findByDateRange).toHaveBeenCalledWith(
+      BUSINESS_ID,
+      new Date('2099-07-06T13:00:00Z'),
+      new Date('2099-07-06T16:00:00Z')
+    );
+  });
+
+  it('counts advance booking days on the business calendar', async () => {
+    // Still 5 July in New York although the server is already on 6 July
+    jest.useFakeTimers({ now: new Date('2026-07-06T02:00:00Z'), doNotFake: ['nextTick', 'queueMicrotask'] });
+    const { service } = makeService({ timezone: 'America/New_York' });
+    const validate = (date: string) =>
+      (service as any).validateBusinessReservationRules(
+        BUSINESS_ID,
+        createDateTimeInTimezone(date, '10:00', 'America/New_York'),
+        'cust-1',
+        60
+      );
+
+    await expect(validate('2026-08-04')).resolves.toBeUndefined();
+    await expect(validate('2026-08-05')).rejects.toMatchObject({
+      code: 'APPOINTMENT_TOO_FAR_FUTURE',
+    } as Partial<AppError>);
+  });
+
+  it('counts the daily limit over the business day, not the UTC day', async () => {
+    jest.useFakeTimers({ now: new Date('2026-07-01T12:00:00Z'), doNotFake: ['nextTick', 'queueMicrotask'] });
+    const { service, appointmentRepository } = makeService({
+      timezone: 'America/New_York',
+      settings: { reservationSettings: { maxDailyAppointments: 1 } },
+      dayAppointments: [{ id: 'apt-1', status: 'CONFIRMED', customerId: 'cust-2' }],
+    });
+
+    await expect(
+      (service as any).validateBusinessReservationRules(
+        BUSINESS_ID,
+        createDateTimeInTimezone('2026-07-06', '22:30', 'America/New_York'),
+        'cust-1',
+        60
+      )
+    ).rejects.toMatchObject({ code: 'APPOINTMENT_DAILY_LIMIT_REACHED' } as Partial<AppError>);
+    expect(appointmentRepository.findByBusinessAndDateRange).toHaveBeenCalledWith(
+      BUSINESS_ID,
+      new Date('2026-07-06T04:00:00Z'),
+      new Date('2026-07-07T03:59:59.999Z')
+    );
+  });
+});
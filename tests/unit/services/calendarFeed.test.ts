@@ -0,0 +1,233 @@
+/**
+ * Calendar Feed Tests
+ *
+ * Covers signed ICS subscriptions:
+ *  - VTIMEZONE blocks follow the zone's real DST transitions
+ *  - long Turkish text is escaped and folded at 75 octets
+ *  - appointments are written in the business timezone, cancellations as
+ *    STATUS:CANCELLED, and business closures are included
+ *  - wrong signatures, revoked feeds and owners who lost access look the same
+ *  - business-wide feeds need the same visibility as getBusinessAppointments
+ */
+
+import { CalendarFeedService } from '../../../src/services/domain/calendar/calendarFeedService';
+import { AppointmentStatus } from '../../../src/types/business';
+import { AppError } from '../../../src/types/responseTypes';
+import { escapeText, foldLine, renderCalendar } from '../../../src/utils/icsCalendar';
+
+jest.mock('../../../src/config/environment', () => ({
+  config: { CALENDAR_FEED_SECRET: 'test-calendar-feed-secret' },
+}));
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const OWNER_ID = 'owner-1';
+const NOW = new Date('2026-10-19T09:00:00Z');
+
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('icsCalendar', () => {
+  it('builds VTIMEZONE observances from the zone transitions', () => {
+    const ics = renderCalendar({
+      name: 'Test',
+      timezone: 'Europe/Berlin',
+      events: [],
+      from: new Date('2026-01-01T00:00:00Z'),
+      to: new Date('2026-12-31T00:00:00Z'),
+    }, NOW);
+    const lines = unfold(ics);
+
+    const daylight = lines.indexOf('BEGIN:DAYLIGHT');
+    expect(lines.slice(daylight, daylight + 4)).toEqual([
+      'BEGIN:DAYLIGHT', 'DTSTART:20260329T020000', 'TZOFFSETFROM:+0100', 'TZOFFSETTO:+0200',
+    ]);
+    const autumn = lines.lastIndexOf('BEGIN:STANDARD');
+    expect(lines.slice(autumn, autumn + 4)).toEqual([
+      'BEGIN:STANDARD', 'DTSTART:20261025T030000', 'TZOFFSETFROM:+0200', 'TZOFFSETTO:+0100',
+    ]);
+  });
+
+  it('writes a single standard observance for zones without DST', () => {
+    const lines = unfold(renderCalendar({
+      name: 'Test',
+      timezone: 'Europe/Istanbul',
+      events: [],
+      from: new Date('2026-01-01T00:00:00Z'),
+      to: new Date('2026-12-31T00:00:00Z'),
+    }, NOW));
+
+    expect(lines).not.toContain('BEGIN:DAYLIGHT');
+    expect(lines.filter((line) => line === 'BEGIN:STANDARD')).toHaveLength(1);
+    expect(lines).toContain('TZOFFSETTO:+0300');
+  });
+
+  it('escapes text and folds long lines without splitting characters', () => {
+    expect(escapeText('Saç, sakal; bakım\nnot')).toBe('Saç\\, sakal\\; bakım\\nnot');
+
+    const line = `SUMMARY:${'Şğüçöı'.repeat(20)}`;
+    const folded = foldLine(line);
+    for (const segment of folded.split('\r\n')) {
+      expect(Buffer.byteLength(segment, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+  });
+});
+
+describe('CalendarFeedService', () => {
+  const business = { id: BUSINESS_ID, name: 'Berber Ali', ownerId: OWNER_ID, timezone: 'Europe/Istanbul' };
+  const businessFeed = { id: 'cfd_business', type: 'BUSINESS', userId: OWNER_ID, businessId: BUSINESS_ID, createdAt: NOW, updatedAt: NOW };
+
+  function appointment(id: string, status: AppointmentStatus, startIso: string) {
+    const startTime = new Date(startIso);
+    return {
+      id,
+      businessId: BUSINESS_ID,
+      staffId: 'staff-ayse',
+      status,
+      startTime,
+      endTime: new Date(startTime.getTime() + 30 * 60 * 1000),
+      updatedAt: NOW,
+      business: { id: BUSINESS_ID, name: 'Berber Ali', timezone: 'Europe/Istanbul', address: 'Kadıköy' },
+      service: { id: 'svc-1', name: 'Saç Kesimi', duration: 30 },
+      staff: { role: 'STAFF', user: { firstName: 'Ayşe', lastName: 'Kaya' } },
+      customer: { id: 'cust-1', firstName: 'Deniz', lastName: 'Yılmaz', phoneNumber: '+905551112233' },
+    };
+  }
+
+  function buildService(overrides: { feed?: any; scope?: string[] | null | Error } = {}) {
+    const calendarFeedRepository = {
+      create: jest.fn().mockImplementation(async (data) => ({ ...data, createdAt: NOW, updatedAt: NOW })),
+      findById: jest.fn().mockResolvedValue(overrides.feed === undefined ? businessFeed : overrides.feed),
+      findActiveByUser: jest.fn().mockResolvedValue([]),
+      revoke: jest.fn(),
+      revokeByStaff: jest.fn().mockResolvedValue(1),
+      touch: jest.fn().mockResolvedValue(undefined),
+    };
+    const appointmentRepository = {
+      findForCalendarFeed: jest.fn().mockResolvedValue([
+        appointment('apt-confirmed', AppointmentStatus.CONFIRMED, '2026-10-20T07:00:00Z'),
+        appointment('apt-cancelled', AppointmentStatus.CANCELED, '2026-10-21T11:30:00Z'),
+        appointment('apt-pending', AppointmentStatus.PENDING_APPROVAL, '2026-10-22T08:00:00Z'),
+      ]),
+    };
+    const businessClosureRepository = {
+      findByDateRange: jest.fn().mockResolvedValue([{
+        id: 'closure-1',
+        businessId: BUSINESS_ID,
+        startDate: new Date('2026-10-29T00:00:00+03:00'),
+        endDate: new Date('2026-10-30T00:00:00+03:00'),
+        reason: 'Cumhuriyet Bayramı',
+        updatedAt: NOW,
+      }]),
+    };
+    const businessRepository = { findById: jest.fn().mockResolvedValue(business) };
+    const staffRepository = {
+      findById: jest.fn().mockResolvedValue({ id: 'staff-ayse', businessId: BUSINESS_ID, userId: 'user-ayse', isActive: true }),
+      findByBusinessIdAndUserId: jest.fn().mockResolvedValue({ id: 'staff-ayse', businessId: BUSINESS_ID, userId: 'user-ayse', isActive: true }),
+    };
+    const scope = overrides.scope === undefined ? null : overrides.scope;
+    const appointmentService = {
+      resolveBusinessAppointmentScope: scope instanceof Error
+        ? jest.fn().mockRejectedValue(scope)
+        : jest.fn().mockResolvedValue(scope),
+    };
+
+    const service = new CalendarFeedService(
+      calendarFeedRepository as any,
+      appointmentRepository as any,
+      businessClosureRepository as any,
+      businessRepository as any,
+      staffRepository as any,
+      appointmentService as any
+    );
+    return { service, calendarFeedRepository, appointmentRepository, appointmentService };
+  }
+
+  async function expectNotFound(promise: Promise<unknown>) {
+    await expect(promise).rejects.toBeInstanceOf(AppError);
+    await expect(promise).rejects.toMatchObject({ code: 'CALENDAR_FEED_NOT_FOUND' });
+  }
+
+  it('renders appointments in the business timezone with cancellations and closures', async () => {
+    const { service, appointmentRepository } = buildService();
+
+    const document = await service.renderFeed(businessFeed.id, service.signFeedId(businessFeed.id), NOW);
+    const lines = unfold(document.body);
+
+    expect(appointmentRepository.findForCalendarFeed).toHaveBeenCalledWith(
+      { businessId: BUSINESS_ID, staffIds: undefined },
+      expect.any(Date),
+      expect.any(Date)
+    );
+    expect(lines).toContain('TZID:Europe/Istanbul');
+
+    const confirmed = lines.indexOf('UID:apt-confirmed@randevubu.com');
+    expect(lines.slice(confirmed)).toEqual(expect.arrayContaining([
+      'DTSTART;TZID=Europe/Istanbul:20261020T100000',
+      'DTEND;TZID=Europe/Istanbul:20261020T103000',
+      'SUMMARY:Saç Kesimi - Deniz Yılmaz',
+      'STATUS:CONFIRMED',
+    ]));
+
+    const cancelled = lines.indexOf('UID:apt-cancelled@randevubu.com');
+    const cancelledEnd = lines.indexOf('END:VEVENT', cancelled);
+    expect(lines.slice(cancelled, cancelledEnd)).toEqual(expect.arrayContaining(['STATUS:CANCELLED', 'TRANSP:TRANSPARENT']));
+
+    const pending = lines.indexOf('UID:apt-pending@randevubu.com');
+    expect(lines.slice(pending, lines.indexOf('END:VEVENT', pending))).toContain('STATUS:TENTATIVE');
+
+    const closure = lines.indexOf('UID:closure-closure-1@randevubu.com');
+    expect(lines.slice(closure, lines.indexOf('END:VEVENT', closure))).toEqual(expect.arrayContaining([
+      'DTSTART;TZID=Europe/Istanbul:20261029T000000',
+      'SUMMARY:Kapalı: Cumhuriyet Bayramı',
+    ]));
+  });
+
+  it('rejects wrong signatures, revoked feeds and owners who lost access alike', async () => {
+    const signed = buildService();
+    await expectNotFound(signed.service.renderFeed(businessFeed.id, 'not-the-signature', NOW));
+    expect(signed.calendarFeedRepository.findById).not.toHaveBeenCalled();
+
+    const revoked = buildService({ feed: { ...businessFeed, revokedAt: NOW } });
+    await expectNotFound(revoked.service.renderFeed(businessFeed.id, revoked.service.signFeedId(businessFeed.id), NOW));
+
+    const lostAccess = buildService({ scope: new AppError('ACCESS_DENIED', { message: 'denied' }) });
+    await expectNotFound(lostAccess.service.renderFeed(businessFeed.id, lostAccess.service.signFeedId(businessFeed.id), NOW));
+
+    // Demoted to seeing only their own appointments
+    const narrowed = buildService({ scope: ['staff-other'] });
+    await expectNotFound(narrowed.service.renderFeed(businessFeed.id, narrowed.service.signFeedId(businessFeed.id), NOW));
+  });
+
+  it('only lets users who see the whole business subscribe to it', async () => {
+    const { service, calendarFeedRepository } = buildService({ scope: ['staff-ayse'] });
+
+    await expect(service.createFeed('user-ayse', { type: 'BUSINESS', businessId: BUSINESS_ID }))
+      .rejects.toMatchObject({ code: 'CALENDAR_FEED_SCOPE_INVALID' });
+    expect(calendarFeedRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('defaults staff feeds to the caller and returns a signed path', async () => {
+    const { service, appointmentService } = buildService({ scope: ['staff-ayse'] });
+
+    const feed = await service.createFeed('user-ayse', { type: 'STAFF', businessId: BUSINESS_ID });
+
+    expect(appointmentService.resolveBusinessAppointmentScope).toHaveBeenCalledWith('user-ayse', BUSINESS_ID, 'staff-ayse');
+    expect(feed.staffId).toBe('staff-ayse');
+    expect(feed.path).toBe(`/api/v1/calendar-feeds/${feed.id}/${service.signFeedId(feed.id)}.ics`);
+  });
+
+  it('revokes the feeds of a removed staff member', async () => {
+    const { service, calendarFeedRepository } = buildService();
+
+    await service.handleStaffRemoved({ id: 'staff-ayse' } as any);
+
+    expect(calendarFeedRepository.revokeByStaff).toHaveBeenCalledWith('staff-ayse');
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Group Class Tests
+ *
+ * Covers classes with a seat limit booked per seat:
+ *  - seats are counted under the class lock; a full class or a second seat is refused
+ *  - a booked seat is a regular appointment linked to its class
+ *  - slot listing for a group service offers the day's classes with the seats left
+ *  - cancelling a class notifies every attendee whose seat was cancelled
+ */
+
+import { AppointmentService } from '../../../src/services/domain/appointment/appointmentService';
+import { ClassSessionService } from '../../../src/services/domain/appointment/classSessionService';
+import { ClassSessionData } from '../../../src/types/appointment';
+import { AppointmentStatus } from '../../../src/types/business';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+
+function classAt(hour: number, overrides: Partial<ClassSessionData> = {}): ClassSessionData {
+  const startTime = new Date('2099-01-05T00:00:00');
+  startTime.setHours(hour, 0, 0, 0);
+  return {
+    id: `class-${hour}`,
+    businessId: BUSINESS_ID,
+    serviceId: 'yoga',
+    staffId: 'staff-a',
+    date: new Date('2099-01-05'),
+    startTime,
+    endTime: new Date(startTime.getTime() + 60 * 60000),
+    maxSeats: 12,
+    bookedSeats: 0,
+    status: 'SCHEDULED',
+    createdBy: 'owner-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const yoga = {
+  id: 'yoga',
+  businessId: BUSINESS_ID,
+  name: 'Yoga',
+  isActive: true,
+  isGroupSession: true,
+  maxSeats: 12,
+  duration: 60,
+  price: 300,
+  currency: 'TRY',
+};
+
+describe('AppointmentService group classes', () => {
+  // A few days before the booked dates, inside the booking horizon
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2099-01-01T00:00:00Z'), doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+  function makeService(options: { bookedSeats?: number; hasSeat?: boolean; sessions?: ClassSessionData[] } = {}) {
+    const classSessionRepository = {
+      lockSession: jest.fn().mockResolvedValue(undefined),
+      hasActiveSeat: jest.fn().mockResolvedValue(options.hasSeat ?? false),
+      countActiveSeats: jest.fn().mockResolvedValue(options.bookedSeats ?? 0),
+      findByBusiness: jest.fn().mockResolvedValue(options.sessions || []),
+    };
+    const tx = {
+      classSession: { findUnique: jest.fn().mockResolvedValue({ status: 'SCHEDULED', maxSeats: 12 }) },
+      business: { findUnique: jest.fn().mockResolvedValue({ requireApproval: false }) },
+      appointment: { create: jest.fn().mockResolvedValue({ id: 'apt-seat' }) },
+    };
+    const appointmentRepository = {
+      findById: jest.fn().mockResolvedValue({ id: 'apt-seat', status: AppointmentStatus.CONFIRMED }),
+    };
+
+    const service = new AppointmentService(
+      appointmentRepository as any,
+      { findById: jest.fn().mockResolvedValue(yoga) } as any,
+      { createOrUpdate: jest.fn().mockResolvedValue(undefined) } as any,
+      {
+        isBusinessClosed: jest.fn().mockResolvedValue({ isClosed: false }),
+        findByDateRange: jest.fn().mockResolvedValue([]),
+      } as any,
+      // classAt() builds server-local (UTC) times
+      { findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, timezone: 'UTC' }) } as any,
+      {} as any, // rbacService
+      {} as any, // businessService
+      {} as any, // notificationService
+      { recordAppointmentUsage: jest.fn().mockResolvedValue(undefined) } as any,
+      {
+        staffRepository: { findById: jest.fn().mockResolvedValue({ id: 'staff-a', businessId: BUSINESS_ID }) },
+        classSessionRepository,
+      } as any,
+      {} as any, // cancellationPolicyService
+      {} as any, // notificationGateway
+      { $transaction: jest.fn().mockImplementation((fn: (client: any) => unknown) => fn(tx)) } as any
+    );
+
+    const internals = service as any;
+    jest.spyOn(internals, 'validateBookingPreconditions').mockResolvedValue({
+      customer: { id: 'cust-1', firstName: 'Ayşe', phoneNumber: '+905551112233' },
+      customerId: 'cust-1',
+      isBookingForOther: false,
+    });
+    jest.spyOn(internals, 'validateBusinessReservationRules').mockResolvedValue(undefined);
+    jest.spyOn(internals, 'notifyNewAppointment').mockResolvedValue(undefined);
+    jest.spyOn(internals, 'sendCustomerBookingConfirmation').mockResolvedValue(undefined);
+
+    return { service, classSessionRepository, tx };
+  }
+
+  it('books a seat as an appointment linked to the class', async () => {
+    const { service, classSessionRepository, tx } = makeService({ bookedSeats: 5 });
+    const session = classAt(18);
+
+    await service.bookClassSeat('cust-1', session, {});
+
+    expect(classSessionRepository.lockSession).toHaveBeenCalledWith(tx, session.id);
+    expect(tx.appointment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        classSessionId: session.id,
+        staffId: 'staff-a',
+        customerId: 'cust-1',
+        startTime: session.startTime,
+        duration: 60,
+        status: AppointmentStatus.CONFIRMED,
+      }),
+    });
+  });
+
+  it('refuses the seat once the class is full', async () => {
+    const { service, tx } = makeService({ bookedSeats: 12 });
+
+    await expect(service.bookClassSeat('cust-1', classAt(18), {})).rejects.toMatchObject({
+      code: 'CLASS_SESSION_FULL',
+    });
+    expect(tx.appointment.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a second seat for the same customer', async () => {
+    const { service, classSessionRepository } = makeService({ hasSeat: true });
+
+    await expect(service.bookClassSeat('cust-1', classAt(18), {})).rejects.toMatchObject({
+      code: 'CLASS_SESSION_ALREADY_BOOKED',
+    });
+    expect(classSessionRepository.lockSession).not.toHaveBeenCalled();
+  });
+
+  it('lists the day\'s classes with the seats left instead of free-form slots', async () => {
+    const { service } = makeService({
+      sessions: [classAt(9, { bookedSeats: 12 }), classAt(18, { bookedSeats: 4 })],
+    });
+
+    const result = await service.getPublicAvailableSlots({
+      businessId: BUSINESS_ID,
+      serviceId: 'yoga',
+      date: '2099-01-05',
+    });
+
+    expect(result.slots).toEqual([
+      expect.objectContaining({ classSessionId: 'class-9', available: false, seatsLeft: 0 }),
+      expect.objectContaining({ classSessionId: 'class-18', available: true, seatsLeft: 8, maxSeats: 12 }),
+    ]);
+  });
+});
+
+describe('ClassSessionService', () => {
+  function makeService(session: ClassSessionData) {
+    const classSessionRepository = {
+      findById: jest.fn().mockResolvedValue(session),
+      findRoster: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockImplementation((_id: string, data: object) => Promise.resolve({ ...session, ...data })),
+      cancelWithSeats: jest.fn().mockResolvedValue([
+        { id: 'apt-1', customerId: 'cust-1' },
+        { id: 'apt-2', customerId: 'cust-2' },
+        { id: 'apt-3', customerId: 'cust-3' },
+      ]),
+    };
+    const users: Record<string, any> = {
+      'cust-1': { id: 'cust-1', firstName: 'Ayşe', phoneNumber: '+905551112233' },
+      'cust-2': { id: 'cust-2', firstName: 'Mehmet', phoneNumber: null },
+      'cust-3': { id: 'cust-3', firstName: 'Zeynep', phoneNumber: '+905554445566' },
+    };
+    const notificationGateway = { sendCriticalSMS: jest.fn().mockResolvedValue({ success: true }) };
+    const appointmentService = {
+      assertBusinessAppointmentAccess: jest.fn().mockResolvedValue(undefined),
+      bookClassSeat: jest.fn().mockResolvedValue({ id: 'apt-seat' }),
+    };
+
+    const service = new ClassSessionService(
+      classSessionRepository as any,
+      {} as any, // appointmentRepository
+      { findById: jest.fn().mockResolvedValue(yoga) } as any,
+      {} as any, // staffRepository
+      { findById: jest.fn().mockImplementation((id: string) => Promise.resolve(users[id])) } as any,
+      { findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, name: 'Lotus Stüdyo' }) } as any,
+      {} as any, // businessClosureRepository
+      appointmentService as any,
+      notificationGateway as any,
+      {} as any // prisma
+    );
+    return { service, classSessionRepository, notificationGateway, appointmentService };
+  }
+
+  it('cancels every seat and texts each attendee with a phone number', async () => {
+    const { service, classSessionRepository, notificationGateway } = makeService(classAt(18, { bookedSeats: 3 }));
+
+    await service.cancelSession('owner-1', 'class-18', 'Eğitmen hastalandı');
+
+    expect(classSessionRepository.cancelWithSeats).toHaveBeenCalledWith('class-18', 'Eğitmen hastalandı', {
+      channel: 'STAFF_PANEL',
+      actorId: 'owner-1',
+      reason: 'Eğitmen hastalandı'
+    });
+    expect(notificationGateway.sendCriticalSMS).toHaveBeenCalledTimes(2);
+    expect(notificationGateway.sendCriticalSMS).toHaveBeenCalledWith(
+      '+905551112233',
+      expect.stringContaining('Eğitmen hastalandı'),
+      { requestId: 'class-cancel-apt-1' }
+    );
+    expect(notificationGateway.sendCriticalSMS).toHaveBeenCalledWith(
+      '+905554445566',
+      expect.any(String),
+      { requestId: 'class-cancel-apt-3' }
+    );
+  });
+
+  it('refuses to cancel a class twice', async () => {
+    const { service, classSessionRepository } = makeService(classAt(18, { status: 'CANCELED' }));
+
+    await expect(service.cancelSession('owner-1', 'class-18')).rejects.toMatchObject({
+      code: 'CLASS_SESSION_NOT_ACTIVE',
+    });
+    expect(classSessionRepository.cancelWithSeats).not.toHaveBeenCalled();
+  });
+
+  it('does not shrink a class below the seats already booked', async () => {
+    const { service, classSessionRepository } = makeService(classAt(18, { bookedSeats: 8 }));
+
+    await expect(service.updateSession('owner-1', 'class-18', { maxSeats: 6 })).rejects.toMatchObject({
+      code: 'CLASS_SESSION_SEATS_BELOW_BOOKED',
+    });
+    await expect(service.updateSession('owner-1', 'class-18', { maxSeats: 8 })).resolves.toMatchObject({ maxSeats: 8 });
+    expect(classSessionRepository.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not book seats in a class that has already started', async () => {
+    const started = classAt(18, { startTime: new Date(Date.now() - 5 * 60000) });
+    const { service, appointmentService } = makeService(started);
+
+    await expect(service.bookSeat('cust-1', started.id, {})).rejects.toMatchObject({
+      code: 'CLASS_SESSION_NOT_ACTIVE',
+    });
+    expect(appointmentService.bookClassSeat).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Dynamic Pricing Tests
+ *
+ * Covers the pricing rules in Service.pricing:
+ *  - peak hours and weekday surcharges on the business's clock, last-minute and
+ *    first-visit discounts, stacked on the price before any rule
+ *  - slot listings quote each slot, unless prices are hidden
+ *  - a bulk price change scales the fixed amounts of the rules with the prices
+ */
+
+import { ServiceRepository } from '../../../src/repositories/serviceRepository';
+import { AppointmentService } from '../../../src/services/domain/appointment/appointmentService';
+import { quotePrice, scaleServicePricing } from '../../../src/services/domain/offering/dynamicPricing';
+import { ServicePricing } from '../../../src/types/business';
+import { createDateTimeInTimezone } from '../../../src/utils/timezoneHelper';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const TIMEZONE = 'Europe/Istanbul';
+// Monday 5 January 2099, 08:00 in Istanbul
+const NOW = new Date('2099-01-05T05:00:00Z');
+
+const at = (date: string, time: string) => createDateTimeInTimezone(date, time, TIMEZONE);
+
+const pricing: ServicePricing = {
+  rules: [
+    { type: 'SCHEDULE', label: 'Evenings', startTime: '17:00', endTime: '21:00', adjustment: { type: 'PERCENTAGE', value: 20 } },
+    { type: 'SCHEDULE', label: 'Weekend', daysOfWeek: [0, 6], adjustment: { type: 'FIXED', value: 50 } },
+    { type: 'LAST_MINUTE', withinHours: 3, adjustment: { type: 'PERCENTAGE', value: -10 } },
+    { type: 'FIRST_VISIT', adjustment: { type: 'FIXED', value: -100 } },
+  ],
+};
+
+describe('quotePrice', () => {
+  const quote = (start: Date, firstVisit?: boolean) =>
+    quotePrice(500, pricing, { start, now: NOW, timezone: TIMEZONE, firstVisit });
+
+  it('keeps the price outside every rule', () => {
+    expect(quote(at('2099-01-06', '12:00'))).toEqual({ basePrice: 500, price: 500, adjustments: [] });
+  });
+
+  it('adds peak hour and weekday surcharges on the business clock', () => {
+    // 18:00 on Saturday in Istanbul is 15:00 UTC
+    expect(quote(at('2099-01-10', '18:00'))).toEqual({
+      basePrice: 500,
+      price: 650,
+      adjustments: [
+        { type: 'SCHEDULE', label: 'Evenings', amount: 100 },
+        { type: 'SCHEDULE', label: 'Weekend', amount: 50 },
+      ],
+    });
+    // The evening window ends at 21:00
+    expect(quote(at('2099-01-06', '21:00')).price).toBe(500);
+  });
+
+  it('discounts slots in the next hours and first visits of known customers only', () => {
+    expect(quote(at('2099-01-05', '10:30')).price).toBe(450);
+    expect(quote(at('2099-01-05', '11:30')).price).toBe(500);
+    expect(quote(at('2099-01-06', '12:00'), true).price).toBe(400);
+    expect(quote(at('2099-01-06', '12:00'), false).price).toBe(500);
+  });
+
+  it('takes percentages of the price before any rule and never goes below zero', () => {
+    const steep: ServicePricing = {
+      rules: [
+        { type: 'LAST_MINUTE', withinHours: 3, adjustment: { type: 'PERCENTAGE', value: -60 } },
+        { type: 'FIRST_VISIT', adjustment: { type: 'PERCENTAGE', value: -60 } },
+      ],
+    };
+
+    expect(quotePrice(500, steep, { start: at('2099-01-05', '10:00'), now: NOW, timezone: TIMEZONE, firstVisit: true }).price).toBe(0);
+  });
+
+  it('ignores anything else stored in the pricing column', () => {
+    expect(quotePrice(500, { tiers: [1, 2] }, { start: NOW, now: NOW, timezone: TIMEZONE }).price).toBe(500);
+    expect(quotePrice(500, null, { start: NOW, now: NOW, timezone: TIMEZONE }).price).toBe(500);
+  });
+});
+
+describe('scaleServicePricing', () => {
+  it('scales fixed amounts and leaves percentages alone', () => {
+    const scaled = scaleServicePricing(pricing, 1.1);
+
+    expect(scaled.rules.map((rule) => rule.adjustment)).toEqual([
+      { type: 'PERCENTAGE', value: 20 },
+      { type: 'FIXED', value: 55 },
+      { type: 'PERCENTAGE', value: -10 },
+      { type: 'FIXED', value: -110 },
+    ]);
+  });
+});
+
+describe('ServiceRepository.bulkUpdatePrices', () => {
+  it('multiplies service prices, staff prices and the fixed amounts of the rules together', async () => {
+    const tx = {
+      service: {
+        updateMany: jest.fn().mockResolvedValue({ count: 2 }),
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'svc-color', pricing },
+          { id: 'svc-legacy', pricing: { note: 'not rules' } },
+        ]),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      serviceStaff: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+    };
+    const prisma = { $transaction: jest.fn().mockImplementation((fn: (client: typeof tx) => unknown) => fn(tx)) };
+
+    await new ServiceRepository(prisma as any).bulkUpdatePrices(BUSINESS_ID, 2);
+
+    expect(tx.service.updateMany).toHaveBeenCalledWith({ where: { businessId: BUSINESS_ID }, data: { price: { multiply: 2 } } });
+    expect(tx.serviceStaff.updateMany).toHaveBeenCalledWith({
+      where: { service: { businessId: BUSINESS_ID }, price: { not: null } },
+      data: { price: { multiply: 2 } },
+    });
+    expect(tx.service.update).toHaveBeenCalledTimes(1);
+    expect(tx.service.update.mock.calls[0][0]).toMatchObject({
+      where: { id: 'svc-color' },
+      data: { pricing: { rules: expect.arrayContaining([expect.objectContaining({ adjustment: { type: 'FIXED', value: 100 } })]) } },
+    });
+  });
+});
+
+describe('AppointmentService slot prices', () => {
+  function makeService(settings: object = {}, serviceOverrides: object = {}) {
+    const service = {
+      id: 'svc-color',
+      businessId: BUSINESS_ID,
+      isActive: true,
+      showPrice: true,
+      duration: 60,
+      bufferTime: 0,
+      price: 500,
+      currency: 'TRY',
+      pricing,
+      ...serviceOverrides,
+    };
+    return new AppointmentService(
+      {
+        findWorkingHours: jest.fn().mockResolvedValue([{ startTime: '09:00', endTime: '19:00', dayOfWeek: 1, staffId: null }]),
+        findAppointmentsForDay: jest.fn().mockResolvedValue([]),
+      } as any,
+      { findById: jest.fn().mockResolvedValue(service) } as any,
+      {} as any, // userBehaviorRepository
+      { findByDateRange: jest.fn().mockResolvedValue([]) } as any,
+      {
+        findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, timezone: TIMEZONE, settings }),
+        findBusinessHoursOverride: jest.fn().mockResolvedValue(null),
+      } as any,
+      {} as any, // rbacService
+      {} as any, // businessService
+      {} as any, // notificationService
+      {} as any, // usageService
+      {
+        waitlistRepository: { findActiveHolds: jest.fn().mockResolvedValue([]) },
+        resourceRepository: { findNeedsForServices: jest.fn().mockResolvedValue(new Map()) },
+        classSessionRepository: { findScheduledInRange: jest.fn().mockResolvedValue([]) },
+        staffTimeOffRepository: { findApprovedOverlapping: jest.fn().mockResolvedValue([]) },
+        staffExternalCalendarRepository: { findBusyOverlapping: jest.fn().mockResolvedValue([]) },
+      } as any,
+      {} as any, // cancellationPolicyService
+      {} as any, // notificationGateway
+      {} as any // prisma
+    );
+  }
+
+  const slotsToday = async (service: AppointmentService) => {
+    const result = await service.getPublicAvailableSlots({ businessId: BUSINESS_ID, serviceId: 'svc-color', date: '2099-01-05' });
+    return new Map(result.slots.map((slot) => [slot.startTime, slot]));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('quotes every slot with its rules and the first-visit price apart', async () => {
+    const slots = await slotsToday(makeService());
+
+    expect(slots.get(at('2099-01-05', '10:00').toISOString())).toMatchObject({ price: 450, currency: 'TRY', firstVisitPrice: 350 });
+    expect(slots.get(at('2099-01-05', '14:00').toISOString())).toMatchObject({ price: 500, firstVisitPrice: 400 });
+    expect(slots.get(at('2099-01-05', '17:00').toISOString())).toMatchObject({ price: 600, firstVisitPrice: 500 });
+  });
+
+  it('leaves the price out while prices are hidden', async () => {
+    const hiddenByBusiness = await slotsToday(makeService({ priceVisibility: { hideAllServicePrices: true } }));
+    const hiddenByService = await slotsToday(makeService({}, { showPrice: false }));
+    const shownOnBooking = await slotsToday(
+      makeService({ priceVisibility: { hideAllServicePrices: true, showPriceOnBooking: true } })
+    );
+
+    const slot = at('2099-01-05', '14:00').toISOString();
+    expect(hiddenByBusiness.get(slot)).not.toHaveProperty('price');
+    expect(hiddenByService.get(slot)).not.toHaveProperty('price');
+    expect(shownOnBooking.get(slot)).toMatchObject({ price: 500 });
+  });
+});
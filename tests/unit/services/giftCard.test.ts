@@ -0,0 +1,338 @@
+/**
+ * Gift Card Tests
+ *
+ * Covers gift cards and promotional vouchers:
+ *  - issued cards get unique generated codes; vouchers are never paid for
+ *  - a card pays for what is left of the appointment price, up to its balance; a deposit
+ *    still being paid counts as covered and the appointment is locked while paying
+ *  - cards only apply to appointments of their business (and customer) in their currency,
+ *    and not to ones a session package covers
+ *  - redemptions on an appointment ending without completion go back on the cards
+ *    like a paid deposit would be refunded
+ */
+
+import { GiftCardRepository } from '../../../src/repositories/giftCardRepository';
+import { GiftCardService } from '../../../src/services/domain/discount/giftCardService';
+import { AppointmentStatus } from '../../../src/types/business';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const OWNER_ID = 'owner-1';
+const CUSTOMER_ID = 'customer-1';
+
+const card = {
+  id: 'gc-1',
+  businessId: BUSINESS_ID,
+  code: 'GCABCDEFGH23',
+  type: 'GIFT_CARD',
+  initialAmount: 500,
+  balance: 500,
+  currency: 'TRY',
+  pricePaid: 500,
+  isActive: true,
+  createdBy: OWNER_ID,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const appointment = {
+  id: 'apt-1',
+  businessId: BUSINESS_ID,
+  serviceId: 'svc-1',
+  customerId: CUSTOMER_ID,
+  price: 800,
+  currency: 'TRY',
+  status: AppointmentStatus.CONFIRMED,
+  startTime: new Date(Date.now() + 2 * 60 * 60 * 1000),
+} as any;
+
+function makeService() {
+  const giftCardRepository = {
+    create: jest.fn().mockImplementation(async (data) => ({ id: `gc-${data.code}`, ...data })),
+    findByCode: jest.fn().mockResolvedValue(card),
+    findRedeemedAmount: jest.fn().mockResolvedValue(0),
+    // Runs the amount-due check the way the locked transaction does
+    redeem: jest.fn().mockImplementation(async (_id, data, findAmountDue) => {
+      const amountDue = await findAmountDue({});
+      const amount = Math.min(data.maxAmount, amountDue);
+      return {
+        amountDue,
+        redemption: amount > 0
+          ? {
+              giftCard: { ...card, balance: card.balance - amount },
+              transaction: { id: 'gct-1', type: 'REDEEM', appointmentId: data.appointmentId, amount, createdBy: data.createdBy },
+            }
+          : null,
+      };
+    }),
+    refundAppointment: jest.fn().mockResolvedValue([]),
+  };
+  const appointmentRepository = { findById: jest.fn().mockResolvedValue(appointment) };
+  const appointmentPaymentRepository = { findByAppointment: jest.fn().mockResolvedValue(null) };
+  const sessionPackageRepository = { findUsageByAppointment: jest.fn().mockResolvedValue(null) };
+  const userRepository = { findById: jest.fn().mockResolvedValue({ id: CUSTOMER_ID }) };
+  const rbacService = { hasPermission: jest.fn().mockResolvedValue(false), requirePermission: jest.fn() };
+  const appointmentService = { assertBusinessAppointmentAccess: jest.fn() };
+  const cancellationPolicyService = {
+    getBusinessPolicySettings: jest.fn().mockResolvedValue({
+      minCancellationHours: 24,
+      lateCancellationDepositRefundPercent: 50,
+    }),
+  };
+
+  const service = new GiftCardService(
+    giftCardRepository as any,
+    appointmentRepository as any,
+    appointmentPaymentRepository as any,
+    sessionPackageRepository as any,
+    userRepository as any,
+    rbacService as any,
+    appointmentService as any,
+    cancellationPolicyService as any
+  );
+
+  return {
+    service,
+    giftCardRepository,
+    appointmentRepository,
+    appointmentPaymentRepository,
+    sessionPackageRepository,
+    rbacService,
+    appointmentService,
+  };
+}
+
+describe('GiftCardService', () => {
+  describe('issuing', () => {
+    it('generates a unique code with the prefix for every card', async () => {
+      const { service, giftCardRepository } = makeService();
+      giftCardRepository.findByCode
+        .mockResolvedValueOnce(card) // first code is taken
+        .mockResolvedValue(null);
+
+      const cards = await service.issueGiftCards(OWNER_ID, BUSINESS_ID, { type: 'GIFT_CARD', amount: 250, count: 3, prefix: 'YAZ' });
+
+      expect(cards).toHaveLength(3);
+      expect(giftCardRepository.findByCode).toHaveBeenCalledTimes(4);
+      const codes = cards.map((c) => c.code);
+      codes.forEach((code) => expect(code).toMatch(/^YAZ[A-Z2-9]{10}$/));
+      expect(cards[0]).toMatchObject({ businessId: BUSINESS_ID, amount: 250, pricePaid: 250, createdBy: OWNER_ID });
+    });
+
+    it('never records a price for vouchers', async () => {
+      const { service, giftCardRepository } = makeService();
+      giftCardRepository.findByCode.mockResolvedValue(null);
+
+      const [voucher] = await service.issueGiftCards(OWNER_ID, BUSINESS_ID, { type: 'VOUCHER', amount: 100, pricePaid: 100 });
+
+      expect(voucher.code).toMatch(/^VC/);
+      expect(giftCardRepository.create).toHaveBeenCalledWith(expect.objectContaining({ type: 'VOUCHER', pricePaid: 0 }));
+    });
+
+    it('requires permission to edit the business', async () => {
+      const { service, rbacService, giftCardRepository } = makeService();
+      rbacService.requirePermission.mockRejectedValue(new Error('forbidden'));
+
+      await expect(service.issueGiftCards('staff-user', BUSINESS_ID, { type: 'GIFT_CARD', amount: 100 })).rejects.toThrow('forbidden');
+      expect(giftCardRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('redeeming', () => {
+    it('covers what is left after the deposit and other cards, up to the balance', async () => {
+      const { service, giftCardRepository, appointmentPaymentRepository } = makeService();
+      appointmentPaymentRepository.findByAppointment.mockResolvedValue({ status: 'SUCCEEDED', amount: 200 });
+      giftCardRepository.findRedeemedAmount.mockResolvedValue(150);
+
+      const result = await service.redeem(CUSTOMER_ID, { code: 'gcabcdefgh23', appointmentId: 'apt-1' });
+
+      expect(giftCardRepository.findByCode).toHaveBeenCalledWith('GCABCDEFGH23');
+      expect(giftCardRepository.redeem).toHaveBeenCalledWith(
+        'gc-1',
+        { appointmentId: 'apt-1', maxAmount: 500, createdBy: CUSTOMER_ID },
+        expect.any(Function)
+      );
+      expect(result.transaction.amount).toBe(450);
+      expect(result.remainingPrice).toBe(0);
+    });
+
+    it('counts a deposit still being paid as covered', async () => {
+      const { service, appointmentPaymentRepository } = makeService();
+      appointmentPaymentRepository.findByAppointment.mockResolvedValue({ status: 'PENDING', amount: 400 });
+
+      const result = await service.redeem(CUSTOMER_ID, { code: card.code, appointmentId: 'apt-1' });
+
+      expect(result.transaction.amount).toBe(400);
+      expect(result.remainingPrice).toBe(0);
+    });
+
+    it('takes no more than the balance and reports the rest due', async () => {
+      const { service, giftCardRepository } = makeService();
+
+      const result = await service.redeem(CUSTOMER_ID, { code: card.code, appointmentId: 'apt-1' });
+
+      expect(result.transaction.amount).toBe(500);
+      expect(result.remainingPrice).toBe(300);
+    });
+
+    it('lets staff redeem only with access to the business appointments', async () => {
+      const { service, appointmentService } = makeService();
+      appointmentService.assertBusinessAppointmentAccess.mockRejectedValue(new Error('forbidden'));
+
+      await expect(service.redeem('someone-else', { code: card.code, appointmentId: 'apt-1' })).rejects.toThrow('forbidden');
+    });
+
+    it('rejects cards of another business or customer', async () => {
+      const { service, giftCardRepository } = makeService();
+
+      giftCardRepository.findByCode.mockResolvedValue({ ...card, businessId: 'biz-other' });
+      await expect(service.redeem(CUSTOMER_ID, { code: card.code, appointmentId: 'apt-1' }))
+        .rejects.toMatchObject({ code: 'GIFT_CARD_NOT_APPLICABLE' });
+
+      giftCardRepository.findByCode.mockResolvedValue({ ...card, customerId: 'customer-2' });
+      await expect(service.redeem(CUSTOMER_ID, { code: card.code, appointmentId: 'apt-1' }))
+        .rejects.toMatchObject({ code: 'GIFT_CARD_NOT_APPLICABLE' });
+      expect(giftCardRepository.redeem).not.toHaveBeenCalled();
+    });
+
+    it('rejects expired and voided cards', async () => {
+      const { service, giftCardRepository } = makeService();
+
+      giftCardRepository.findByCode.mockResolvedValue({ ...card, expiresAt: new Date(Date.now() - 1000) });
+      await expect(service.redeem(CUSTOMER_ID, { code: card.code, appointmentId: 'apt-1' }))
+        .rejects.toMatchObject({ code: 'GIFT_CARD_EXPIRED' });
+
+      giftCardRepository.findByCode.mockResolvedValue({ ...card, isActive: false });
+      await expect(service.redeem(CUSTOMER_ID, { code: card.code, appointmentId: 'apt-1' }))
+        .rejects.toMatchObject({ code: 'GIFT_CARD_INACTIVE' });
+    });
+
+    it('does not pay for cancelled or fully paid appointments', async () => {
+      const { service, appointmentRepository, giftCardRepository } = makeService();
+
+      appointmentRepository.findById.mockResolvedValue({ ...appointment, status: AppointmentStatus.CANCELED });
+      await expect(service.redeem(CUSTOMER_ID, { code: card.code, appointmentId: 'apt-1' }))
+        .rejects.toMatchObject({ code: 'GIFT_CARD_NOT_APPLICABLE' });
+
+      appointmentRepository.findById.mockResolvedValue(appointment);
+      giftCardRepository.findRedeemedAmount.mockResolvedValue(800);
+      await expect(service.redeem(CUSTOMER_ID, { code: card.code, appointmentId: 'apt-1' }))
+        .rejects.toMatchObject({ code: 'GIFT_CARD_NOT_APPLICABLE' });
+    });
+
+    it('does not pay for appointments a session package covers', async () => {
+      const { service, sessionPackageRepository } = makeService();
+      sessionPackageRepository.findUsageByAppointment.mockResolvedValue({ status: 'RESERVED', customerPackageId: 'cpk-1' });
+
+      await expect(service.redeem(CUSTOMER_ID, { code: card.code, appointmentId: 'apt-1' }))
+        .rejects.toMatchObject({ code: 'GIFT_CARD_NOT_APPLICABLE' });
+    });
+
+    it('rejects cards in another currency', async () => {
+      const { service, giftCardRepository } = makeService();
+      giftCardRepository.findByCode.mockResolvedValue({ ...card, currency: 'EUR' });
+
+      await expect(service.redeem(CUSTOMER_ID, { code: card.code, appointmentId: 'apt-1' }))
+        .rejects.toMatchObject({ code: 'GIFT_CARD_NOT_APPLICABLE' });
+      expect(giftCardRepository.redeem).not.toHaveBeenCalled();
+    });
+
+    it('fails when the balance was spent meanwhile', async () => {
+      const { service, giftCardRepository } = makeService();
+      giftCardRepository.redeem.mockResolvedValue({ amountDue: 800, redemption: null });
+
+      await expect(service.redeem(CUSTOMER_ID, { code: card.code, appointmentId: 'apt-1' }))
+        .rejects.toMatchObject({ code: 'GIFT_CARD_NO_BALANCE' });
+    });
+  });
+
+  describe('appointments ending without completion', () => {
+    it('gives everything back when the business cancels', async () => {
+      const { service, giftCardRepository } = makeService();
+      giftCardRepository.findRedeemedAmount.mockResolvedValue(300);
+
+      await service.refundRedemptions(appointment, 'BUSINESS_CANCEL');
+
+      expect(giftCardRepository.refundAppointment).toHaveBeenCalledWith('apt-1', 300);
+    });
+
+    it('gives back the late cancellation share of the policy', async () => {
+      const { service, giftCardRepository } = makeService();
+      giftCardRepository.findRedeemedAmount.mockResolvedValue(300);
+
+      await service.refundRedemptions(appointment, 'CUSTOMER_CANCEL');
+
+      expect(giftCardRepository.refundAppointment).toHaveBeenCalledWith('apt-1', 150);
+    });
+
+    it('gives nothing back for a no-show', async () => {
+      const { service, giftCardRepository } = makeService();
+      giftCardRepository.findRedeemedAmount.mockResolvedValue(300);
+
+      await service.refundRedemptions(appointment, 'NO_SHOW');
+
+      expect(giftCardRepository.refundAppointment).not.toHaveBeenCalled();
+    });
+
+    it('ignores appointments not paid with a card', async () => {
+      const { service, giftCardRepository } = makeService();
+
+      await service.refundRedemptions(appointment, 'BUSINESS_CANCEL');
+
+      expect(giftCardRepository.refundAppointment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GiftCardRepository.redeem', () => {
+    function makeRepository(balance: number) {
+      const steps: string[] = [];
+      const tx = {
+        $queryRaw: jest.fn().mockImplementation(async () => {
+          steps.push('lock');
+          return [];
+        }),
+        giftCard: {
+          updateMany: jest.fn().mockImplementation(async ({ where }) => ({ count: balance >= where.balance.gte ? 1 : 0 })),
+          findUniqueOrThrow: jest.fn().mockResolvedValue({ ...card, balance: 100, expiresAt: null, customerId: null, createdAt: new Date() }),
+        },
+        giftCardTransaction: {
+          create: jest.fn().mockImplementation(async ({ data }) => ({ ...data, createdAt: new Date() })),
+        },
+      };
+      const prisma = { $transaction: jest.fn().mockImplementation((fn) => fn(tx)) };
+      return { repository: new GiftCardRepository(prisma as any), tx, steps };
+    }
+
+    it('locks the appointment before working out what is due and pays no more than that', async () => {
+      const { repository, tx, steps } = makeRepository(500);
+      const findAmountDue = jest.fn().mockImplementation(async () => {
+        steps.push('due');
+        return 120;
+      });
+
+      const result = await repository.redeem('gc-1', { appointmentId: 'apt-1', maxAmount: 500, createdBy: CUSTOMER_ID }, findAmountDue);
+
+      expect(steps).toEqual(['lock', 'due']);
+      expect(findAmountDue).toHaveBeenCalledWith(tx);
+      expect(tx.giftCard.updateMany).toHaveBeenCalledWith({
+        where: { id: 'gc-1', isActive: true, balance: { gte: 120 } },
+        data: { balance: { decrement: 120 } },
+      });
+      expect(result.redemption?.transaction.amount).toBe(120);
+    });
+
+    it('writes nothing once another redemption has covered the price', async () => {
+      const { repository, tx } = makeRepository(500);
+
+      const result = await repository.redeem('gc-1', { appointmentId: 'apt-1', maxAmount: 500, createdBy: CUSTOMER_ID }, async () => 0);
+
+      expect(result).toEqual({ amountDue: 0, redemption: null });
+      expect(tx.giftCard.updateMany).not.toHaveBeenCalled();
+      expect(tx.giftCardTransaction.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Intake Form Tests
+ *
+ * Covers pre-appointment intake forms:
+ *  - published fields get stable ids and duplicate ids are rejected
+ *  - answers are checked against their question type; required questions and
+ *    required consent have to be answered
+ *  - returning customers reuse earlier answers, except for questions asked every visit
+ *  - answers are only visible to the customer and the assigned staff member
+ *  - answers can only be given before an active appointment starts
+ */
+
+import { IntakeFormService } from '../../../src/services/domain/offering/intakeFormService';
+import {
+  buildIntakeFields,
+  resolveIntakeAnswers,
+  reusableAnswers,
+} from '../../../src/services/domain/offering/intakeFormRules';
+import { IntakeFormField, ServiceIntakeFormData } from '../../../src/types/intakeForm';
+import { AppointmentStatus } from '../../../src/types/business';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const CUSTOMER_ID = 'cust-1';
+const STAFF_USER_ID = 'staff-user-1';
+const OWNER_ID = 'owner-1';
+
+const fields: IntakeFormField[] = [
+  { id: 'if_allergies', label: 'Allergies', type: 'TEXT', required: true },
+  { id: 'if_skin', label: 'Skin type', type: 'CHOICE', required: false, options: ['Dry', 'Oily'] },
+  { id: 'if_blood_thinner', label: 'Blood thinners?', type: 'YES_NO', required: true },
+  { id: 'if_consent', label: 'I consent', type: 'CONSENT', required: true, askEveryVisit: true },
+];
+
+const form: ServiceIntakeFormData = {
+  id: 'sif-2',
+  businessId: 'biz-001',
+  serviceId: 'svc-tattoo',
+  version: 2,
+  title: 'Health declaration',
+  fields,
+  isActive: true,
+  createdBy: OWNER_ID,
+  createdAt: new Date('2026-10-01T09:00:00.000Z'),
+};
+
+const upcoming = {
+  id: 'apt-1',
+  businessId: 'biz-001',
+  serviceId: 'svc-tattoo',
+  staffId: 'staff-1',
+  customerId: CUSTOMER_ID,
+  startTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  status: AppointmentStatus.CONFIRMED,
+};
+
+function makeService() {
+  const intakeFormRepository = {
+    findActiveForm: jest.fn().mockResolvedValue(form),
+    findFormById: jest.fn().mockResolvedValue(form),
+    findVersions: jest.fn(),
+    publishVersion: jest.fn(),
+    deactivate: jest.fn(),
+    findResponseByAppointment: jest.fn().mockResolvedValue(null),
+    findLatestAnswers: jest.fn().mockResolvedValue(null),
+    saveResponse: jest.fn().mockImplementation(async (data) => ({ id: 'air-1', formVersion: 2, ...data })),
+  };
+  const serviceRepository = { findById: jest.fn().mockResolvedValue({ id: 'svc-tattoo', businessId: 'biz-001' }) };
+  const appointmentRepository = { findById: jest.fn().mockResolvedValue(upcoming) };
+  const staffRepository = { findById: jest.fn().mockResolvedValue({ id: 'staff-1', userId: STAFF_USER_ID }) };
+  const businessRepository = { findById: jest.fn().mockResolvedValue({ id: 'biz-001', ownerId: OWNER_ID }) };
+  const rbacService = { hasPermission: jest.fn().mockResolvedValue(true), requirePermission: jest.fn() };
+
+  const service = new IntakeFormService(
+    intakeFormRepository as any,
+    serviceRepository as any,
+    appointmentRepository as any,
+    staffRepository as any,
+    businessRepository as any,
+    rbacService as any
+  );
+
+  return { service, intakeFormRepository, appointmentRepository, staffRepository, businessRepository };
+}
+
+describe('intake form rules', () => {
+  it('keeps existing field ids, creates new ones and drops options outside CHOICE questions', () => {
+    const built = buildIntakeFields([
+      { id: 'if_allergies', label: 'Allergies', type: 'TEXT', required: true, options: ['ignored'] },
+      { label: 'Pregnant?', type: 'YES_NO', required: false },
+    ]);
+
+    expect(built[0]).toEqual({ id: 'if_allergies', label: 'Allergies', type: 'TEXT', required: true });
+    expect(built[1].id).toMatch(/^if_/);
+  });
+
+  it('rejects duplicate field ids', () => {
+    expect(() => buildIntakeFields([
+      { id: 'if_a', label: 'A', type: 'TEXT', required: false },
+      { id: 'if_a', label: 'B', type: 'TEXT', required: false },
+    ])).toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+  });
+
+  it('rejects answers that do not fit their question', () => {
+    const answers = { if_allergies: 'None', if_blood_thinner: true, if_consent: true };
+
+    expect(() => resolveIntakeAnswers(fields, { ...answers, if_skin: 'Normal' }, null))
+      .toThrow(expect.objectContaining({ code: 'INTAKE_ANSWERS_INVALID' }));
+    expect(() => resolveIntakeAnswers(fields, { ...answers, if_blood_thinner: 'yes' }, null))
+      .toThrow(expect.objectContaining({ code: 'INTAKE_ANSWERS_INVALID' }));
+    expect(() => resolveIntakeAnswers(fields, { ...answers, if_unknown: 'x' }, null))
+      .toThrow(expect.objectContaining({ code: 'INTAKE_ANSWERS_INVALID' }));
+  });
+
+  it('requires required questions and a given consent', () => {
+    expect(() => resolveIntakeAnswers(fields, { if_allergies: ' ', if_blood_thinner: false, if_consent: true }, null))
+      .toThrow(expect.objectContaining({ code: 'INTAKE_ANSWERS_INVALID' }));
+    expect(() => resolveIntakeAnswers(fields, { if_allergies: 'None', if_blood_thinner: false, if_consent: false }, null))
+      .toThrow(expect.objectContaining({ code: 'INTAKE_ANSWERS_INVALID' }));
+
+    const { answers } = resolveIntakeAnswers(fields, { if_allergies: 'None', if_blood_thinner: false, if_consent: true }, null);
+    expect(answers).toEqual({ if_allergies: 'None', if_blood_thinner: false, if_consent: true });
+  });
+
+  it('reuses previous answers except for questions asked every visit', () => {
+    const previous = { if_allergies: 'Latex', if_skin: 'Dry', if_blood_thinner: false, if_consent: true, if_removed: 'x' };
+
+    expect(reusableAnswers(fields, previous)).toEqual({ if_allergies: 'Latex', if_skin: 'Dry', if_blood_thinner: false });
+
+    const result = resolveIntakeAnswers(fields, { if_skin: 'Oily', if_consent: true }, previous);
+    expect(result.answers).toEqual({ if_allergies: 'Latex', if_skin: 'Oily', if_blood_thinner: false, if_consent: true });
+    expect(result.reusedFieldIds.sort()).toEqual(['if_allergies', 'if_blood_thinner']);
+  });
+});
+
+describe('IntakeFormService', () => {
+  it('offers the previous answers as prefill on the service form', async () => {
+    const { service, intakeFormRepository } = makeService();
+    intakeFormRepository.findLatestAnswers.mockResolvedValue({ if_allergies: 'Latex', if_consent: true });
+
+    const result = await service.getActiveForm(CUSTOMER_ID, 'svc-tattoo');
+
+    expect(result).toEqual({ form, prefill: { if_allergies: 'Latex' } });
+  });
+
+  it('stores submitted answers against the active form version', async () => {
+    const { service, intakeFormRepository } = makeService();
+    intakeFormRepository.findLatestAnswers.mockResolvedValue({ if_allergies: 'Latex', if_blood_thinner: true });
+
+    await service.submitAppointmentIntake(CUSTOMER_ID, 'apt-1', { answers: { if_consent: true } });
+
+    expect(intakeFormRepository.findLatestAnswers).toHaveBeenCalledWith(CUSTOMER_ID, 'svc-tattoo', 'apt-1');
+    expect(intakeFormRepository.saveResponse).toHaveBeenCalledWith(expect.objectContaining({
+      appointmentId: 'apt-1',
+      formId: 'sif-2',
+      answers: { if_allergies: 'Latex', if_blood_thinner: true, if_consent: true },
+      reusedFieldIds: ['if_allergies', 'if_blood_thinner'],
+    }));
+  });
+
+  it('only lets the customer answer, and only before the appointment starts', async () => {
+    const { service, appointmentRepository, intakeFormRepository } = makeService();
+    const answers = { answers: { if_allergies: 'None', if_blood_thinner: false, if_consent: true } };
+
+    await expect(service.submitAppointmentIntake(STAFF_USER_ID, 'apt-1', answers))
+      .rejects.toMatchObject({ code: 'INTAKE_ACCESS_DENIED' });
+
+    appointmentRepository.findById.mockResolvedValue({ ...upcoming, status: AppointmentStatus.CANCELED });
+    await expect(service.submitAppointmentIntake(CUSTOMER_ID, 'apt-1', answers))
+      .rejects.toMatchObject({ code: 'INTAKE_CLOSED' });
+
+    appointmentRepository.findById.mockResolvedValue({ ...upcoming, startTime: new Date(Date.now() - 60000) });
+    await expect(service.submitAppointmentIntake(CUSTOMER_ID, 'apt-1', answers))
+      .rejects.toMatchObject({ code: 'INTAKE_CLOSED' });
+
+    expect(intakeFormRepository.saveResponse).not.toHaveBeenCalled();
+  });
+
+  it('shows answers to the assigned staff member but not to other staff', async () => {
+    const { service, intakeFormRepository, staffRepository } = makeService();
+    const response = { id: 'air-1', formId: 'sif-1', formVersion: 1, answers: { if_allergies: 'None' } };
+    intakeFormRepository.findResponseByAppointment.mockResolvedValue(response);
+
+    const view = await service.getAppointmentIntake(STAFF_USER_ID, 'apt-1');
+    expect(view).toMatchObject({ status: 'COMPLETED', response });
+    expect(intakeFormRepository.findFormById).toHaveBeenCalledWith('sif-1');
+
+    staffRepository.findById.mockResolvedValue({ id: 'staff-1', userId: 'someone-else' });
+    await expect(service.getAppointmentIntake(STAFF_USER_ID, 'apt-1'))
+      .rejects.toMatchObject({ code: 'INTAKE_ACCESS_DENIED' });
+    await expect(service.getAppointmentIntake(OWNER_ID, 'apt-1'))
+      .rejects.toMatchObject({ code: 'INTAKE_ACCESS_DENIED' });
+  });
+
+  it('lets the owner see answers of appointments without assigned staff', async () => {
+    const { service, appointmentRepository } = makeService();
+    appointmentRepository.findById.mockResolvedValue({ ...upcoming, staffId: undefined });
+
+    const view = await service.getAppointmentIntake(OWNER_ID, 'apt-1');
+
+    expect(view).toMatchObject({ status: 'PENDING', form, response: null });
+    expect(view.prefill).toBeUndefined();
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Resource Capacity Tests
+ *
+ * Covers rooms/chairs/equipment shared across staff:
+ *  - peak usage counts only bookings that are in use at the same moment
+ *  - a slot is only offered when the staff member and every required resource are free
+ *  - booking checks lock the resources inside the transaction and count other customers' holds
+ */
+
+import { AppointmentService } from '../../../src/services/domain/appointment/appointmentService';
+import {
+  findResourceShortage,
+  peakResourceUsage,
+} from '../../../src/services/domain/appointment/resourceCapacity';
+import { ResourceBooking, ResourceNeed } from '../../../src/types/resource';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const DATE = '2099-01-05';
+
+function at(hour: number, minute = 0): Date {
+  const d = new Date(DATE);
+  d.setHours(hour, minute, 0, 0);
+  return d;
+}
+
+const laser = (start: Date, end: Date, quantity = 1): ResourceBooking => ({
+  resourceId: 'res-laser',
+  quantity,
+  start,
+  end,
+});
+
+describe('resourceCapacity', () => {
+  it('counts only bookings that overlap each other', () => {
+    const bookings = [laser(at(10), at(10, 30)), laser(at(10, 30), at(11)), laser(at(10, 15), at(10, 45))];
+
+    // 10:00-10:30 and 10:30-11:00 touch but never run together; the 10:15 one overlaps both
+    expect(peakResourceUsage(bookings, 'res-laser', { start: at(10), end: at(11) })).toBe(2);
+    expect(peakResourceUsage(bookings, 'res-laser', { start: at(10, 45), end: at(11) })).toBe(1);
+    expect(peakResourceUsage(bookings, 'res-room', { start: at(10), end: at(11) })).toBe(0);
+  });
+
+  it('reports the first resource without enough free units', () => {
+    const needs: ResourceNeed[] = [
+      { resourceId: 'res-room', quantity: 1, capacity: 3 },
+      { resourceId: 'res-laser', quantity: 1, capacity: 1 },
+    ];
+
+    expect(findResourceShortage(needs, [laser(at(10), at(10, 30))], { start: at(10, 30), end: at(11) })).toBeNull();
+    expect(findResourceShortage(needs, [laser(at(10), at(10, 30))], { start: at(10, 15), end: at(10, 45) })).toEqual({
+      resourceId: 'res-laser',
+      capacity: 1,
+      inUse: 1,
+      requested: 1,
+    });
+  });
+});
+
+describe('AppointmentService resource enforcement', () => {
+  // A few days before the booked dates, inside the booking horizon
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2099-01-01T00:00:00Z'), doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+  const services: Record<string, any> = {
+    laser: { id: 'laser', businessId: BUSINESS_ID, isActive: true, duration: 30, price: 500, currency: 'TRY' },
+  };
+
+  function makeService(options: { laserBookings?: ResourceBooking[]; holds?: any[] } = {}) {
+    const resourceRepository = {
+      findNeedsForServices: jest.fn().mockImplementation((serviceIds: string[]) =>
+        Promise.resolve(
+          new Map(
+            serviceIds
+              .filter((id) => id === 'laser')
+              .map((id) => [id, [{ resourceId: 'res-laser', quantity: 1, capacity: 1 }]])
+          )
+        )
+      ),
+      findResourceBookings: jest.fn().mockResolvedValue(options.laserBookings || []),
+      lockResources: jest.fn().mockResolvedValue(undefined),
+    };
+    const appointmentRepository = {
+      findWorkingHours: jest.fn().mockResolvedValue([
+        { startTime: '09:00', endTime: '12:00', dayOfWeek: 1, staffId: null },
+      ]),
+      // staff-a itself is free all day
+      findAppointmentsForDay: jest.fn().mockResolvedValue([]),
+    };
+
+    const service = new AppointmentService(
+      appointmentRepository as any,
+      {
+        findById: jest.fn().mockImplementation((id: string) => Promise.resolve(services[id] || null)),
+        getStaffOverride: jest.fn().mockResolvedValue(null),
+      } as any,
+      {} as any, // userBehaviorRepository
+      { findByDateRange: jest.fn().mockResolvedValue([]) } as any,
+      {
+        findBusinessHoursOverride: jest.fn().mockResolvedValue(null),
+        // at() builds server-local (UTC) times
+        findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, timezone: 'UTC' }),
+      } as any,
+      { hasPermission: jest.fn().mockResolvedValue(true) } as any,
+      {} as any, // businessService
+      {} as any, // notificationService
+      {} as any, // usageService
+      {
+        staffRepository: {
+          findById: jest.fn().mockResolvedValue({ id: 'staff-a', businessId: BUSINESS_ID, isActive: true }),
+        },
+        waitlistRepository: { findActiveHolds: jest.fn().mockResolvedValue(options.holds || []) },
+        resourceRepository,
+        classSessionRepository: { findScheduledInRange: jest.fn().mockResolvedValue([]) },
+        staffTimeOffRepository: { findApprovedOverlapping: jest.fn().mockResolvedValue([]) },
+        staffExternalCalendarRepository: { findBusyOverlapping: jest.fn().mockResolvedValue([]) },
+      } as any,
+      {} as any, // cancellationPolicyService
+      {} as any, // notificationGateway
+      {} as any // prisma
+    );
+    return { service, resourceRepository };
+  }
+
+  it('does not offer a slot while another staff member uses the only laser', async () => {
+    // staff-b is using the laser 10:00-10:30
+    const { service } = makeService({ laserBookings: [laser(at(10), at(10, 30))] });
+
+    const result = await service.getPublicAvailableSlots({
+      businessId: BUSINESS_ID,
+      serviceId: 'laser',
+      date: DATE,
+      staffId: 'staff-a',
+    });
+
+    const byStart = new Map(result.slots.map((slot) => [new Date(slot.startTime).getTime(), slot.available]));
+    expect(byStart.get(at(9, 30).getTime())).toBe(true);
+    expect(byStart.get(at(9, 45).getTime())).toBe(false);
+    expect(byStart.get(at(10, 15).getTime())).toBe(false);
+    expect(byStart.get(at(10, 30).getTime())).toBe(true);
+  });
+
+  it('treats a waitlist hold for a laser service as using the laser', async () => {
+    const { service } = makeService({
+      holds: [{ startTime: at(11), endTime: at(11, 30), staffId: 'staff-b', serviceId: 'laser', customerId: 'cust-9' }],
+    });
+
+    const result = await service.getPublicAvailableSlots({
+      businessId: BUSINESS_ID,
+      serviceId: 'laser',
+      date: DATE,
+      staffId: 'staff-a',
+    });
+
+    const slot = result.slots.find((s) => new Date(s.startTime).getTime() === at(11).getTime());
+    expect(slot?.available).toBe(false);
+  });
+
+  it('locks the resources and re-reads usage through the transaction client', async () => {
+    const { service, resourceRepository } = makeService({ laserBookings: [laser(at(10), at(10, 30))] });
+    const tx = {} as any;
+
+    const shortage = await service.findResourceConflict(BUSINESS_ID, 'laser', at(10, 15), at(10, 45), {
+      tx,
+      excludeAppointmentIds: ['apt-self'],
+    });
+
+    expect(resourceRepository.lockResources).toHaveBeenCalledWith(tx, ['res-laser']);
+    expect(resourceRepository.findResourceBookings).toHaveBeenCalledWith(
+      BUSINESS_ID,
+      ['res-laser'],
+      at(10, 15),
+      at(10, 45),
+      ['apt-self'],
+      tx
+    );
+    expect(shortage).toMatchObject({ resourceId: 'res-laser', capacity: 1 });
+  });
+
+  it('skips all resource lookups for services that need none', async () => {
+    const { service, resourceRepository } = makeService();
+
+    await expect(service.findResourceConflict(BUSINESS_ID, 'haircut', at(10), at(10, 30))).resolves.toBeNull();
+    expect(resourceRepository.findResourceBookings).not.toHaveBeenCalled();
+  });
+});
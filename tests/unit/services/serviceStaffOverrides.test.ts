@@ -0,0 +1,184 @@
+/**
+ * Service Staff Override Tests
+ *
+ * Covers per-assignment duration, buffer and price:
+ *  - a staff member's overrides replace the service values they set, nothing else
+ *  - slots are as long as the staff member takes and keep their buffer free
+ *  - the public staff listing shows each member's terms, behind the price visibility rules
+ */
+
+import { AppointmentService } from '../../../src/services/domain/appointment/appointmentService';
+import { OfferingService } from '../../../src/services/domain/offering/offeringService';
+import { applyStaffOverride } from '../../../src/services/domain/offering/staffOverrides';
+import { StaffService } from '../../../src/services/domain/staff/staffService';
+import { createDateTimeInTimezone } from '../../../src/utils/timezoneHelper';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const TIMEZONE = 'Europe/Istanbul';
+const DATE = '2099-01-05';
+const NOW = new Date('2099-01-01T06:00:00Z');
+
+const colour = {
+  id: 'svc-color',
+  businessId: BUSINESS_ID,
+  name: 'Colour',
+  isActive: true,
+  duration: 90,
+  bufferTime: 0,
+  price: 1000,
+  currency: 'TRY',
+  showPrice: true,
+};
+// The senior stylist is 30 minutes faster and 40% dearer
+const senior = { staffId: 'staff-senior', duration: 60, bufferTime: 15, price: 1400 };
+
+const at = (time: string) => createDateTimeInTimezone(DATE, time, TIMEZONE);
+
+describe('applyStaffOverride', () => {
+  it('replaces only the values the assignment sets', () => {
+    expect(applyStaffOverride(colour, senior)).toEqual({ ...colour, duration: 60, bufferTime: 15, price: 1400 });
+    expect(applyStaffOverride(colour, { staffId: 'staff-junior', price: 800 })).toEqual({ ...colour, price: 800 });
+    expect(applyStaffOverride(colour, null)).toBe(colour);
+  });
+});
+
+describe('AppointmentService slots with staff overrides', () => {
+  function makeService(appointments: Array<{ startTime: Date; endTime: Date }> = []) {
+    return new AppointmentService(
+      {
+        findWorkingHours: jest.fn().mockResolvedValue([{ startTime: '09:00', endTime: '12:00', dayOfWeek: 1, staffId: null }]),
+        findAppointmentsForDay: jest.fn().mockResolvedValue(appointments),
+      } as any,
+      {
+        findById: jest.fn().mockResolvedValue(colour),
+        getStaffOverride: jest.fn().mockImplementation((_serviceId: string, staffId: string) =>
+          Promise.resolve(staffId === senior.staffId ? senior : null)
+        ),
+      } as any,
+      {} as any, // userBehaviorRepository
+      { findByDateRange: jest.fn().mockResolvedValue([]) } as any,
+      {
+        findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, timezone: TIMEZONE, settings: {} }),
+        findBusinessHoursOverride: jest.fn().mockResolvedValue(null),
+      } as any,
+      {} as any, // rbacService
+      {} as any, // businessService
+      {} as any, // notificationService
+      {} as any, // usageService
+      {
+        staffRepository: {
+          findById: jest.fn().mockImplementation((id: string) =>
+            Promise.resolve({ id, businessId: BUSINESS_ID, isActive: true })
+          ),
+        },
+        waitlistRepository: { findActiveHolds: jest.fn().mockResolvedValue([]) },
+        resourceRepository: { findNeedsForServices: jest.fn().mockResolvedValue(new Map()) },
+        classSessionRepository: { findScheduledInRange: jest.fn().mockResolvedValue([]) },
+        staffTimeOffRepository: { findApprovedOverlapping: jest.fn().mockResolvedValue([]) },
+        staffExternalCalendarRepository: { findBusyOverlapping: jest.fn().mockResolvedValue([]) },
+      } as any,
+      {} as any, // cancellationPolicyService
+      {} as any, // notificationGateway
+      {} as any // prisma
+    );
+  }
+
+  const slotsFor = async (service: AppointmentService, staffId: string) =>
+    (await service.getPublicAvailableSlots({ businessId: BUSINESS_ID, serviceId: colour.id, date: DATE, staffId })).slots;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sizes the slots by the staff member’s duration', async () => {
+    const service = makeService();
+
+    const seniorSlots = await slotsFor(service, senior.staffId);
+    const juniorSlots = await slotsFor(service, 'staff-junior');
+
+    expect(seniorSlots[0]).toMatchObject({ startTime: at('09:00').toISOString(), endTime: at('10:00').toISOString() });
+    expect(juniorSlots[0]).toMatchObject({ startTime: at('09:00').toISOString(), endTime: at('10:30').toISOString() });
+    // The buffer may run past closing; only the service itself has to fit
+    expect(seniorSlots.filter((slot) => slot.available).pop()?.startTime).toBe(at('11:00').toISOString());
+    expect(juniorSlots.filter((slot) => slot.available).pop()?.startTime).toBe(at('10:30').toISOString());
+  });
+
+  it('keeps the buffer free before the next appointment', async () => {
+    const service = makeService([{ startTime: at('11:00'), endTime: at('11:30') }]);
+
+    const available = new Map(
+      (await slotsFor(service, senior.staffId)).map((slot) => [slot.startTime, slot.available])
+    );
+
+    expect(available.get(at('09:45').toISOString())).toBe(true);
+    // Ends at 11:00, but the buffer runs into the next appointment
+    expect(available.get(at('10:00').toISOString())).toBe(false);
+  });
+});
+
+describe('StaffService.getPublicBusinessStaff with a service', () => {
+  function makeService(settings: object = {}) {
+    const staff = [senior.staffId, 'staff-junior'].map((id) => ({
+      id,
+      role: 'STAFF',
+      user: { id: `user-${id}`, firstName: id, lastName: null, avatar: null },
+    }));
+    const offeringService = new OfferingService({} as any, {} as any, {} as any, {} as any, {} as any);
+    return new StaffService(
+      {
+        businessRepository: { findByIdWithOwner: jest.fn().mockResolvedValue({ id: BUSINESS_ID, settings, owner: null }) },
+        staffRepository: { findByBusinessId: jest.fn().mockResolvedValue(staff) },
+        serviceRepository: {
+          findById: jest.fn().mockResolvedValue(colour),
+          getServiceStaffIds: jest.fn().mockResolvedValue([senior.staffId, 'staff-junior']),
+          getStaffOverrides: jest.fn().mockResolvedValue([senior]),
+        },
+      } as any,
+      {} as any, // phoneVerificationService
+      {} as any, // rbacService
+      {} as any, // usageService
+      offeringService
+    );
+  }
+
+  it('lists each staff member with their duration and price', async () => {
+    const result = await makeService().getPublicBusinessStaff(BUSINESS_ID, colour.id);
+
+    expect(result.map((member) => [member.id, member.service])).toEqual([
+      [senior.staffId, { duration: 60, bufferTime: 15, price: 1400, currency: 'TRY' }],
+      ['staff-junior', { duration: 90, bufferTime: 0, price: 1000, currency: 'TRY' }],
+    ]);
+  });
+
+  it('hides the prices when the business hides them', async () => {
+    const service = makeService({
+      priceVisibility: { hideAllServicePrices: true, priceDisplayMessage: 'Fiyat için arayın' },
+    });
+
+    const result = await service.getPublicBusinessStaff(BUSINESS_ID, colour.id);
+
+    expect(result[0].service).toEqual({
+      duration: 60,
+      bufferTime: 15,
+      price: 0,
+      currency: 'TRY',
+      priceHidden: true,
+      priceDisplayMessage: 'Fiyat için arayın',
+    });
+  });
+
+  it('leaves the terms out without a service', async () => {
+    const result = await makeService().getPublicBusinessStaff(BUSINESS_ID);
+
+    expect(result[0].service).toBeUndefined();
+  });
+});
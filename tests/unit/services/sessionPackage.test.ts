@@ -0,0 +1,263 @@
+/**
+ * Session Package Tests
+ *
+ * Covers prepaid session packages:
+ *  - packages only cover services of their own business
+ *  - a sold package copies its terms and gets its expiry from validityDays
+ *  - completing an appointment spends the credit it holds; one booked without a credit
+ *    (bundle leg, class seat, series occurrence, import, booked before the sale) takes one
+ *  - a held credit comes back on business cancellations and on customer cancellations
+ *    the cancellation policy allows; late cancellations and no-shows spend it
+ */
+
+import { spendCompletedCredits } from '../../../src/repositories/sessionPackageRepository';
+import { SessionPackageService } from '../../../src/services/domain/offering/sessionPackageService';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const OWNER_ID = 'owner-1';
+const CUSTOMER_ID = 'customer-1';
+
+const laserPack = {
+  id: 'spk-1',
+  businessId: BUSINESS_ID,
+  name: '10 Seans Lazer',
+  serviceIds: ['svc-laser'],
+  credits: 10,
+  validityDays: 365,
+  price: 7500,
+  currency: 'TRY',
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const appointment = {
+  id: 'apt-1',
+  businessId: BUSINESS_ID,
+  serviceId: 'svc-laser',
+  customerId: CUSTOMER_ID,
+  startTime: new Date('2030-01-07T07:00:00.000Z'),
+} as any;
+
+function makeService() {
+  const sessionPackageRepository = {
+    createPackage: jest.fn().mockImplementation(async (data) => ({ id: 'spk-new', ...data })),
+    findPackageById: jest.fn().mockResolvedValue(laserPack),
+    createCustomerPackage: jest.fn().mockImplementation(async (data) => ({ id: 'cpk-new', ...data })),
+    findUsablePackage: jest.fn().mockResolvedValue(null),
+    takeCredit: jest.fn().mockImplementation(async (_id, data) => ({ id: 'pcu-1', ...data })),
+    findUsageByAppointment: jest.fn().mockResolvedValue(null),
+    settleReservedCredit: jest.fn().mockResolvedValue(true),
+    spendCompletedCredit: jest.fn().mockResolvedValue(false),
+  };
+  const serviceRepository = {
+    findByBusinessId: jest.fn().mockResolvedValue([{ id: 'svc-laser' }, { id: 'svc-physio' }]),
+  };
+  const userRepository = { findById: jest.fn().mockResolvedValue({ id: CUSTOMER_ID }) };
+  const rbacService = { hasPermission: jest.fn().mockResolvedValue(false), requirePermission: jest.fn() };
+  const cancellationPolicyService = {
+    checkPolicyViolations: jest.fn().mockResolvedValue({ allowed: true, violations: [], warnings: [] }),
+  };
+
+  const service = new SessionPackageService(
+    sessionPackageRepository as any,
+    serviceRepository as any,
+    userRepository as any,
+    rbacService as any,
+    cancellationPolicyService as any
+  );
+
+  return { service, sessionPackageRepository, serviceRepository, userRepository, rbacService, cancellationPolicyService };
+}
+
+describe('SessionPackageService', () => {
+  describe('definitions and sales', () => {
+    it('rejects services of another business', async () => {
+      const { service, sessionPackageRepository } = makeService();
+
+      await expect(service.createPackage(OWNER_ID, BUSINESS_ID, {
+        name: 'Karma Paket',
+        serviceIds: ['svc-laser', 'svc-elsewhere'],
+        credits: 5,
+        price: 3000,
+      })).rejects.toMatchObject({ code: 'SESSION_PACKAGE_INVALID_SERVICES' });
+      expect(sessionPackageRepository.createPackage).not.toHaveBeenCalled();
+    });
+
+    it('requires permission to manage the business services', async () => {
+      const { service, rbacService } = makeService();
+      rbacService.requirePermission.mockRejectedValue(new Error('forbidden'));
+
+      await expect(service.sellPackage('staff-user', 'spk-1', { customerId: CUSTOMER_ID })).rejects.toThrow('forbidden');
+    });
+
+    it('copies the package terms to the customer and sets the expiry', async () => {
+      const { service, sessionPackageRepository } = makeService();
+      const before = Date.now();
+
+      await service.sellPackage(OWNER_ID, 'spk-1', { customerId: CUSTOMER_ID, pricePaid: 6000 });
+
+      const sold = sessionPackageRepository.createCustomerPackage.mock.calls[0][0];
+      expect(sold).toMatchObject({
+        businessId: BUSINESS_ID,
+        customerId: CUSTOMER_ID,
+        packageId: 'spk-1',
+        name: '10 Seans Lazer',
+        serviceIds: ['svc-laser'],
+        credits: 10,
+        pricePaid: 6000,
+        soldBy: OWNER_ID,
+      });
+      expect(sold.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 365 * 24 * 60 * 60 * 1000);
+    });
+
+    it('does not sell retired packages', async () => {
+      const { service, sessionPackageRepository } = makeService();
+      sessionPackageRepository.findPackageById.mockResolvedValue({ ...laserPack, isActive: false });
+
+      await expect(service.sellPackage(OWNER_ID, 'spk-1', { customerId: CUSTOMER_ID }))
+        .rejects.toMatchObject({ code: 'SESSION_PACKAGE_INACTIVE' });
+    });
+  });
+
+  describe('completed appointments', () => {
+    it('settles the credit through the shared completion path', async () => {
+      const { service, sessionPackageRepository } = makeService();
+      sessionPackageRepository.spendCompletedCredit.mockResolvedValue(true);
+
+      await service.useCredit(appointment);
+
+      expect(sessionPackageRepository.spendCompletedCredit).toHaveBeenCalledWith({
+        id: 'apt-1',
+        customerId: CUSTOMER_ID,
+        businessId: BUSINESS_ID,
+        serviceId: 'svc-laser',
+        startTime: new Date('2030-01-07T07:00:00.000Z'),
+      });
+      expect(sessionPackageRepository.settleReservedCredit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('spendCompletedCredits', () => {
+    const completed = (id: string, serviceId = 'svc-laser') => ({
+      id,
+      customerId: CUSTOMER_ID,
+      businessId: BUSINESS_ID,
+      serviceId,
+      startTime: new Date('2030-01-07T07:00:00.000Z'),
+    });
+
+    function makeClient(options: { usages?: string[]; creditsLeft?: number } = {}) {
+      let creditsLeft = options.creditsLeft ?? 10;
+      return {
+        packageCreditUsage: {
+          updateMany: jest.fn().mockResolvedValue({ count: (options.usages || []).length }),
+          findMany: jest.fn().mockResolvedValue((options.usages || []).map((appointmentId) => ({ appointmentId }))),
+          create: jest.fn().mockImplementation(async ({ data }) => data),
+        },
+        customerPackage: {
+          findFirst: jest.fn().mockImplementation(async ({ where }) =>
+            where.serviceIds.has === 'svc-laser' && creditsLeft > 0 ? { id: 'cpk-1' } : null
+          ),
+          updateMany: jest.fn().mockImplementation(async () => {
+            if (creditsLeft === 0) return { count: 0 };
+            creditsLeft--;
+            return { count: 1 };
+          }),
+        },
+      };
+    }
+
+    it('spends held credits and takes one for bundle legs, class seats, series and imported bookings', async () => {
+      const client = makeClient({ usages: ['apt-booked'] });
+      const at = new Date('2030-01-07T09:00:00.000Z');
+
+      const spent = await spendCompletedCredits(
+        client as any,
+        [completed('apt-booked'), completed('apt-bundle-leg'), completed('apt-class-seat'), completed('apt-series'), completed('apt-imported')],
+        at
+      );
+
+      expect(spent).toBe(5);
+      expect(client.packageCreditUsage.updateMany).toHaveBeenCalledWith({
+        where: { appointmentId: { in: expect.arrayContaining(['apt-booked', 'apt-bundle-leg']) }, status: 'RESERVED' },
+        data: { status: 'USED', settledAt: at },
+      });
+      expect(client.packageCreditUsage.create).toHaveBeenCalledTimes(4);
+      expect(client.packageCreditUsage.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ appointmentId: 'apt-class-seat', customerPackageId: 'cpk-1', status: 'USED', settledAt: at }),
+      });
+    });
+
+    it('leaves appointments without a covering package or credits alone', async () => {
+      const client = makeClient({ creditsLeft: 1 });
+
+      const spent = await spendCompletedCredits(client as any, [
+        completed('apt-physio', 'svc-physio'),
+        completed('apt-1'),
+        completed('apt-2'),
+      ]);
+
+      expect(spent).toBe(1);
+      expect(client.packageCreditUsage.create).toHaveBeenCalledTimes(1);
+      expect(client.packageCreditUsage.create).toHaveBeenCalledWith({ data: expect.objectContaining({ appointmentId: 'apt-1' }) });
+    });
+  });
+
+  describe('appointments ending without completion', () => {
+    it('restores the credit when the business cancels', async () => {
+      const { service, sessionPackageRepository, cancellationPolicyService } = makeService();
+      sessionPackageRepository.findUsageByAppointment.mockResolvedValue({ status: 'RESERVED', customerPackageId: 'cpk-1' });
+
+      await service.settleCredit(appointment, 'BUSINESS_CANCEL');
+
+      expect(sessionPackageRepository.settleReservedCredit).toHaveBeenCalledWith('apt-1', 'RESTORED');
+      expect(cancellationPolicyService.checkPolicyViolations).not.toHaveBeenCalled();
+    });
+
+    it('asks the cancellation policy whether a customer cancellation gets the credit back', async () => {
+      const { service, sessionPackageRepository, cancellationPolicyService } = makeService();
+      sessionPackageRepository.findUsageByAppointment.mockResolvedValue({ status: 'RESERVED', customerPackageId: 'cpk-1' });
+
+      await service.settleCredit(appointment, 'CUSTOMER_CANCEL');
+      expect(cancellationPolicyService.checkPolicyViolations).toHaveBeenCalledWith(expect.objectContaining({
+        customerId: CUSTOMER_ID,
+        businessId: BUSINESS_ID,
+        appointmentDate: appointment.startTime,
+        action: 'CANCEL',
+      }));
+      expect(sessionPackageRepository.settleReservedCredit).toHaveBeenLastCalledWith('apt-1', 'RESTORED');
+
+      cancellationPolicyService.checkPolicyViolations.mockResolvedValue({
+        allowed: false,
+        violations: [{ isViolation: true, violationType: 'CANCELLATION_TIME' }],
+        warnings: [],
+      });
+      await service.settleCredit(appointment, 'CUSTOMER_CANCEL');
+      expect(sessionPackageRepository.settleReservedCredit).toHaveBeenLastCalledWith('apt-1', 'FORFEITED');
+    });
+
+    it('spends the credit on a no-show', async () => {
+      const { service, sessionPackageRepository } = makeService();
+      sessionPackageRepository.findUsageByAppointment.mockResolvedValue({ status: 'RESERVED', customerPackageId: 'cpk-1' });
+
+      await service.settleCredit(appointment, 'NO_SHOW');
+
+      expect(sessionPackageRepository.settleReservedCredit).toHaveBeenCalledWith('apt-1', 'FORFEITED');
+    });
+
+    it('ignores credits settled before', async () => {
+      const { service, sessionPackageRepository } = makeService();
+      sessionPackageRepository.findUsageByAppointment.mockResolvedValue({ status: 'USED', customerPackageId: 'cpk-1' });
+
+      await service.settleCredit(appointment, 'BUSINESS_CANCEL');
+
+      expect(sessionPackageRepository.settleReservedCredit).not.toHaveBeenCalled();
+    });
+  });
+});
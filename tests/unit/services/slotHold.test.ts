@@ -0,0 +1,228 @@
+/**
+ * Slot Hold Tests
+ *
+ * Covers checkout holds stored in Redis:
+ *  - a held slot cannot be held by another customer (same or unassigned staff)
+ *  - holds count toward maxDailyAppointments, alongside only the appointments still taking a slot
+ *  - a hold spans the staff member's own duration and keeps their buffer free
+ *  - a customer's new hold replaces their previous one
+ *  - expired holds are ignored and pruned
+ */
+
+import { SlotHoldService, SLOT_HOLD_MINUTES } from '../../../src/services/domain/appointment/slotHoldService';
+import { AppError } from '../../../src/types/responseTypes';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+/** Just enough of ioredis for the hold service, kept in memory. */
+class FakeRedis {
+  strings = new Map<string, string>();
+  hashes = new Map<string, Map<string, string>>();
+
+  async get(key: string) {
+    return this.strings.get(key) ?? null;
+  }
+  async set(key: string, value: string, ...args: unknown[]) {
+    if (args.includes('NX') && this.strings.has(key)) return null;
+    this.strings.set(key, value);
+    return 'OK';
+  }
+  async del(key: string) {
+    return this.strings.delete(key) ? 1 : 0;
+  }
+  async hgetall(key: string) {
+    return Object.fromEntries(this.hashes.get(key) || new Map());
+  }
+  async hget(key: string, field: string) {
+    return this.hashes.get(key)?.get(field) ?? null;
+  }
+  async hset(key: string, field: string, value: string) {
+    if (!this.hashes.has(key)) this.hashes.set(key, new Map());
+    this.hashes.get(key)!.set(field, value);
+    return 1;
+  }
+  async hdel(key: string, ...fields: string[]) {
+    fields.forEach((field) => this.hashes.get(key)?.delete(field));
+    return fields.length;
+  }
+  multi() {
+    const ops: Array<() => Promise<unknown>> = [];
+    const chain = {
+      hset: (k: string, f: string, v: string) => (ops.push(() => this.hset(k, f, v)), chain),
+      hdel: (k: string, f: string) => (ops.push(() => this.hdel(k, f)), chain),
+      expire: () => chain,
+      set: (k: string, v: string) => (ops.push(() => this.set(k, v)), chain),
+      del: (k: string) => (ops.push(() => this.del(k)), chain),
+      exec: async () => {
+        for (const op of ops) await op();
+        return [];
+      },
+    };
+    return chain;
+  }
+}
+
+const BUSINESS_ID = 'biz-1';
+const DATE = '2099-03-02';
+
+function makeService(options: {
+  maxDaily?: number;
+  appointmentsToday?: number;
+  endedToday?: string[];
+  minAdvanceBooking?: number;
+  staffOverride?: { duration?: number; bufferTime?: number };
+} = {}) {
+  const redis = new FakeRedis();
+  const appointmentRepository = {
+    findConflictingAppointments: jest.fn().mockResolvedValue([]),
+    findByBusinessAndDateRange: jest.fn().mockResolvedValue(
+      [
+        ...Array.from({ length: options.appointmentsToday || 0 }, (_, i) => ({ id: `apt-${i}`, status: 'CONFIRMED' })),
+        ...(options.endedToday || []).map((status, i) => ({ id: `apt-ended-${i}`, status })),
+      ]
+    ),
+  };
+  const serviceRepository = {
+    findById: jest.fn().mockResolvedValue({
+      id: 'svc-1',
+      businessId: BUSINESS_ID,
+      isActive: true,
+      duration: 30,
+      bufferTime: 0,
+      minAdvanceBooking: options.minAdvanceBooking,
+    }),
+    getStaffOverride: jest.fn().mockResolvedValue(options.staffOverride ?? null),
+  };
+  const businessRepository = {
+    findById: jest.fn().mockResolvedValue({
+      id: BUSINESS_ID,
+      settings: { reservationSettings: { maxDailyAppointments: options.maxDaily ?? 50 } },
+    }),
+  };
+
+  const service = new SlotHoldService(
+    { getRedis: () => redis } as any,
+    appointmentRepository as any,
+    serviceRepository as any,
+    businessRepository as any
+  );
+  return { service, redis, appointmentRepository };
+}
+
+const request = (overrides: Record<string, string> = {}) => ({
+  businessId: BUSINESS_ID,
+  serviceId: 'svc-1',
+  staffId: 'staff-1',
+  date: DATE,
+  startTime: '10:00',
+  ...overrides,
+});
+
+describe('SlotHoldService', () => {
+  // A few days before the booked dates, inside the booking horizon
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2099-02-25T00:00:00Z'), doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('blocks an overlapping hold by another customer for the same staff', async () => {
+    const { service } = makeService();
+
+    await service.createHold('cust-a', request());
+
+    await expect(service.createHold('cust-b', request({ startTime: '10:15' }))).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    // Another staff member is still free at the same time
+    await expect(service.createHold('cust-b', request({ staffId: 'staff-2' }))).resolves.toMatchObject({
+      customerId: 'cust-b',
+      staffId: 'staff-2',
+    });
+  });
+
+  it('counts live holds toward maxDailyAppointments', async () => {
+    const { service } = makeService({ maxDaily: 3, appointmentsToday: 2 });
+
+    await service.createHold('cust-a', request());
+
+    const error = await service.createHold('cust-b', request({ staffId: 'staff-2' })).catch((e) => e);
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.params).toEqual({ maxDaily: 3 });
+  });
+
+  it('does not count no-shows, rejected or completed appointments toward the cap', async () => {
+    const { service } = makeService({
+      maxDaily: 2,
+      appointmentsToday: 1,
+      endedToday: ['NO_SHOW', 'REJECTED_BY_BUSINESS', 'COMPLETED', 'CANCELED'],
+    });
+
+    await expect(service.createHold('cust-a', request())).resolves.toMatchObject({ customerId: 'cust-a' });
+  });
+
+  it('holds the staff member\'s own duration and checks the buffer after it like booking does', async () => {
+    const { service, appointmentRepository } = makeService({ staffOverride: { duration: 45, bufferTime: 15 } });
+
+    const hold = await service.createHold('cust-a', request());
+
+    expect(new Date(hold.endTime).getTime() - new Date(hold.startTime).getTime()).toBe(45 * 60000);
+    const [, , start, end] = appointmentRepository.findConflictingAppointments.mock.calls[0];
+    expect(end.getTime() - start.getTime()).toBe(60 * 60000);
+    // 09:15 would end at 10:00, but its buffer runs into the held 10:00
+    await expect(service.createHold('cust-b', request({ startTime: '09:15' }))).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+
+  it('replaces the previous hold of the same customer', async () => {
+    const { service } = makeService();
+
+    const first = await service.createHold('cust-a', request());
+    const second = await service.createHold('cust-a', request({ startTime: '11:00' }));
+
+    const holds = await service.getActiveHolds(BUSINESS_ID, DATE);
+    expect(holds.map((h) => h.id)).toEqual([second.id]);
+    await expect(service.getHold('cust-a', first.id)).rejects.toBeInstanceOf(AppError);
+  });
+
+  it('ignores and prunes expired holds', async () => {
+    const { service, redis } = makeService();
+    const hold = await service.createHold('cust-a', request());
+
+    jest.setSystemTime(Date.now() + (SLOT_HOLD_MINUTES + 1) * 60000);
+    try {
+      expect(await service.getActiveHolds(BUSINESS_ID, DATE)).toEqual([]);
+      expect(await redis.hget(`slot_hold:${BUSINESS_ID}:${DATE}`, hold.id)).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('refuses to hold a slot inside the service lead time', async () => {
+    jest.setSystemTime(new Date('2099-03-02T06:00:00Z'));
+    const { service } = makeService({ minAdvanceBooking: 2 });
+
+    // 10:00 Istanbul is 07:00 UTC, one hour away
+    await expect(service.createHold('cust-a', request())).rejects.toMatchObject({
+      code: 'APPOINTMENT_INSUFFICIENT_ADVANCE',
+    });
+    await expect(service.createHold('cust-a', request({ startTime: '11:00' }))).resolves.toMatchObject({
+      customerId: 'cust-a',
+    });
+  });
+
+  it('only lets the holder read or release a hold', async () => {
+    const { service } = makeService();
+    const hold = await service.createHold('cust-a', request());
+
+    await expect(service.releaseHold('cust-b', hold.id)).rejects.toBeInstanceOf(AppError);
+    await service.releaseHold('cust-a', hold.id);
+    expect(await service.getActiveHolds(BUSINESS_ID, DATE)).toEqual([]);
+  });
+});
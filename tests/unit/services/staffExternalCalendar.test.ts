@@ -0,0 +1,346 @@
+/**
+ * Staff External Calendar Tests
+ *
+ * Covers outside ICS calendars that block staff time:
+ *  - VEVENTs are expanded into busy intervals: RRULE with EXDATE and moved
+ *    occurrences, wall-clock times kept across DST, cancelled and free events
+ *    skipped, all-day events in the business timezone
+ *  - calendars are imported before they are saved and unreadable ones rejected
+ *  - the periodic import records failures and keeps going
+ *  - URLs on non-public addresses are refused, also after a redirect, and
+ *    oversized downloads are cut off while streaming
+ *  - imported busy time removes slots and blocks handing appointments over
+ */
+
+import { lookup } from 'dns/promises';
+import { AppointmentService } from '../../../src/services/domain/appointment/appointmentService';
+import { StaffExternalCalendarService } from '../../../src/services/domain/staff/staffExternalCalendarService';
+import { AppointmentStatus } from '../../../src/types/business';
+import { AppError } from '../../../src/types/responseTypes';
+import { parseBusyIntervals } from '../../../src/utils/icsParser';
+
+// cancellationPolicyService creates a module-level client; keep it from loading the query engine
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn().mockImplementation(() => ({})),
+}));
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+const BUSINESS_ID = 'biz-001';
+const OWNER_ID = 'owner-1';
+const NOW = new Date('2026-10-19T09:00:00Z');
+
+function calendar(...lines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Test//EN', ...lines, 'END:VCALENDAR'].join('\r\n');
+}
+
+describe('parseBusyIntervals', () => {
+  const window = { defaultTimezone: 'Europe/Istanbul', from: new Date('2026-10-01T00:00:00Z'), to: new Date('2026-12-01T00:00:00Z') };
+
+  it('expands weekly events with exceptions and keeps their wall-clock time across DST', () => {
+    const ics = calendar(
+      'BEGIN:VEVENT',
+      'UID:other-salon',
+      'DTSTART;TZID=Europe/Berlin:20261013T090000',
+      'DTEND;TZID=Europe/Berlin:20261013T130000',
+      'RRULE:FREQ=WEEKLY;BYDAY=TU;COUNT=4',
+      'EXDATE;TZID=Europe/Berlin:20261020T090000',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT15M',
+      'END:VALARM',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:other-salon',
+      'RECURRENCE-ID;TZID=Europe/Berlin:20261027T090000',
+      'DTSTART;TZID=Europe/Berlin:20261027T140000',
+      'DTEND;TZID=Europe/Berlin:20261027T150000',
+      'END:VEVENT'
+    );
+
+    const intervals = parseBusyIntervals(ics, window);
+
+    expect(intervals.map((i) => [i.start.toISOString(), i.end.toISOString()])).toEqual([
+      // CEST (+02:00) before 25 October, CET (+01:00) after
+      ['2026-10-13T07:00:00.000Z', '2026-10-13T11:00:00.000Z'],
+      ['2026-10-27T13:00:00.000Z', '2026-10-27T14:00:00.000Z'],
+      ['2026-11-03T08:00:00.000Z', '2026-11-03T12:00:00.000Z'],
+    ]);
+    expect(intervals.every((i) => i.uid === 'other-salon')).toBe(true);
+  });
+
+  it('skips cancelled and free events and places all-day events in the default zone', () => {
+    const ics = calendar(
+      'BEGIN:VEVENT',
+      'UID:cancelled',
+      'DTSTART:20261021T080000Z',
+      'DTEND:20261021T090000Z',
+      'STATUS:CANCELLED',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:free',
+      'DTSTART:20261022T080000Z',
+      'DURATION:PT2H',
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:wedding',
+      'DTSTART;VALUE=DATE:20261024',
+      'END:VEVENT'
+    );
+
+    expect(parseBusyIntervals(ics, window)).toEqual([
+      { uid: 'wedding', start: new Date('2026-10-23T21:00:00Z'), end: new Date('2026-10-24T21:00:00Z') },
+    ]);
+  });
+
+  it('rejects documents that are not calendars', () => {
+    expect(() => parseBusyIntervals('<html>Sign in</html>', window)).toThrow('Not an iCalendar document');
+  });
+});
+
+describe('StaffExternalCalendarService', () => {
+  const business = { id: BUSINESS_ID, ownerId: OWNER_ID, timezone: 'Europe/Istanbul' };
+  const ownStaff = { id: 'staff-ayse', businessId: BUSINESS_ID, userId: 'user-ayse', isActive: true };
+  const ics = calendar(
+    'BEGIN:VEVENT',
+    'UID:gym',
+    'DTSTART;TZID=Europe/Istanbul:20261020T180000',
+    'DTEND;TZID=Europe/Istanbul:20261020T190000',
+    'RRULE:FREQ=DAILY;COUNT=3',
+    'END:VEVENT'
+  );
+
+  function makeService(options: { canManage?: boolean; due?: any[] } = {}) {
+    const staffExternalCalendarRepository = {
+      create: jest.fn().mockImplementation(async (data) => ({ ...data, isActive: true, busyCount: 0, createdAt: NOW, updatedAt: NOW })),
+      findById: jest.fn(),
+      findByBusiness: jest.fn().mockResolvedValue([]),
+      findDueForImport: jest.fn().mockResolvedValue(options.due ?? []),
+      update: jest.fn().mockResolvedValue({}),
+      delete: jest.fn(),
+      deactivateByStaff: jest.fn().mockResolvedValue(2),
+      replaceBusyIntervals: jest.fn().mockImplementation(async (id, _staffId, intervals) => ({ id, busyCount: intervals.length })),
+    };
+    const staffRepository = {
+      findById: jest.fn().mockResolvedValue({ id: 'staff-mehmet', businessId: BUSINESS_ID, isActive: true }),
+      findByBusinessIdAndUserId: jest.fn().mockImplementation((_businessId: string, userId: string) =>
+        Promise.resolve(userId === ownStaff.userId ? ownStaff : null)
+      ),
+    };
+
+    const service = new StaffExternalCalendarService(
+      staffExternalCalendarRepository as any,
+      staffRepository as any,
+      { findById: jest.fn().mockResolvedValue(business) } as any,
+      { hasPermission: jest.fn().mockResolvedValue(!!options.canManage) } as any
+    );
+    return { service, staffExternalCalendarRepository };
+  }
+
+  beforeEach(() => {
+    (lookup as jest.Mock).mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('imports an uploaded file for the caller before saving it', async () => {
+    jest.useFakeTimers({ now: NOW });
+    const { service, staffExternalCalendarRepository } = makeService();
+
+    const result = await service.addCalendar('user-ayse', BUSINESS_ID, { name: 'Spor salonu', icsContent: ics });
+
+    expect(staffExternalCalendarRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      staffId: 'staff-ayse',
+      sourceType: 'FILE',
+      icsContent: ics,
+      createdBy: 'user-ayse',
+    }));
+    const [, staffId, intervals] = staffExternalCalendarRepository.replaceBusyIntervals.mock.calls[0];
+    expect(staffId).toBe('staff-ayse');
+    expect(intervals[0]).toEqual({ uid: 'gym', start: new Date('2026-10-20T15:00:00Z'), end: new Date('2026-10-20T16:00:00Z') });
+    expect(result.busyCount).toBe(3);
+  });
+
+  it('rejects unreadable calendars and other staff members\' calendars for non-managers', async () => {
+    const { service, staffExternalCalendarRepository } = makeService();
+
+    await expect(service.addCalendar('user-ayse', BUSINESS_ID, { name: 'Bozuk', icsContent: 'BEGIN:VEVENT' }))
+      .rejects.toMatchObject({ code: 'STAFF_CALENDAR_INVALID', params: { reason: 'Not an iCalendar document' } } as Partial<AppError>);
+    await expect(service.addCalendar('user-ayse', BUSINESS_ID, { name: 'Spor', icsContent: ics, staffId: 'staff-mehmet' }))
+      .rejects.toMatchObject({ code: 'BUSINESS_OWNER_REQUIRED' } as Partial<AppError>);
+    await expect(service.addCalendar('user-ayse', BUSINESS_ID, { name: 'Spor', sourceUrl: 'ftp://example.com/cal.ics' }))
+      .rejects.toMatchObject({ code: 'STAFF_CALENDAR_INVALID' } as Partial<AppError>);
+    expect(staffExternalCalendarRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('re-imports due calendars and records failures without dropping busy time', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('Not found', { status: 404 }));
+    const due = [
+      { id: 'sec_url', businessId: BUSINESS_ID, staffId: 'staff-ayse', sourceType: 'URL', sourceUrl: 'https://example.com/a.ics' },
+      { id: 'sec_file', businessId: BUSINESS_ID, staffId: 'staff-ayse', sourceType: 'FILE', icsContent: ics },
+    ];
+    const { service, staffExternalCalendarRepository } = makeService({ due });
+
+    const summary = await service.importDueCalendars(NOW);
+
+    expect(summary).toEqual({ imported: 1, failed: 1 });
+    expect(fetchMock).toHaveBeenCalledWith('https://example.com/a.ics', expect.anything());
+    expect(staffExternalCalendarRepository.update).toHaveBeenCalledWith('sec_url', { lastImportedAt: NOW, lastImportError: 'HTTP 404' });
+    expect(staffExternalCalendarRepository.replaceBusyIntervals).toHaveBeenCalledTimes(1);
+    expect(staffExternalCalendarRepository.replaceBusyIntervals).toHaveBeenCalledWith('sec_file', 'staff-ayse', expect.any(Array), NOW);
+  });
+
+  it('refuses calendar URLs that reach private addresses directly or through a redirect', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch');
+    const { service, staffExternalCalendarRepository } = makeService();
+
+    (lookup as jest.Mock).mockResolvedValueOnce([{ address: '169.254.169.254', family: 4 }]);
+    await expect(service.addCalendar('user-ayse', BUSINESS_ID, { name: 'Meta', sourceUrl: 'http://metadata.example.com/' }))
+      .rejects.toMatchObject({ code: 'STAFF_CALENDAR_INVALID', params: { reason: 'address not allowed' } } as Partial<AppError>);
+    await expect(service.addCalendar('user-ayse', BUSINESS_ID, { name: 'Yerel', sourceUrl: 'http://[::ffff:127.0.0.1]:8080/cal.ics' }))
+      .rejects.toMatchObject({ params: { reason: 'address not allowed' } } as Partial<AppError>);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 302, headers: { location: 'http://10.0.0.5/admin' } }));
+    await expect(service.addCalendar('user-ayse', BUSINESS_ID, { name: 'Yönlendirme', sourceUrl: 'https://example.com/cal.ics' }))
+      .rejects.toMatchObject({ params: { reason: 'address not allowed' } } as Partial<AppError>);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith('https://example.com/cal.ics', expect.objectContaining({ redirect: 'manual' }));
+    expect(staffExternalCalendarRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('stops reading a calendar once it passes the size limit', async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    let pulled = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(chunk);
+      },
+    });
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(body, { status: 200 }));
+    const { service } = makeService();
+
+    await expect(service.addCalendar('user-ayse', BUSINESS_ID, { name: 'Dev', sourceUrl: 'https://example.com/big.ics' }))
+      .rejects.toMatchObject({ params: { reason: 'calendar is too large' } } as Partial<AppError>);
+    expect(pulled).toBeLessThan(5);
+  });
+
+  it('stops importing calendars of a removed staff member', async () => {
+    const { service, staffExternalCalendarRepository } = makeService();
+
+    await service.handleStaffRemoved({ id: 'staff-ayse' } as any);
+
+    expect(staffExternalCalendarRepository.deactivateByStaff).toHaveBeenCalledWith('staff-ayse');
+  });
+});
+
+describe('AppointmentService external busy time', () => {
+  // A few days before the booked dates, inside the booking horizon
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2099-01-01T00:00:00Z'), doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+  const DATE = '2099-01-05';
+  const at = (hour: number, minute = 0) => {
+    const d = new Date(DATE);
+    d.setHours(hour, minute, 0, 0);
+    return d;
+  };
+  const busy = { id: 'seb_1', calendarId: 'sec_1', staffId: 'staff-a', startTime: at(10), endTime: at(11) };
+
+  function makeService(appointmentRepoOverrides: any = {}) {
+    const appointmentRepository = {
+      findWorkingHours: jest.fn().mockResolvedValue([
+        { startTime: '09:00', endTime: '12:00', dayOfWeek: 1, staffId: null },
+      ]),
+      findAppointmentsForDay: jest.fn().mockResolvedValue([]),
+      ...appointmentRepoOverrides,
+    };
+
+    return new AppointmentService(
+      appointmentRepository as any,
+      {
+        findById: jest.fn().mockResolvedValue({ id: 'haircut', businessId: BUSINESS_ID, isActive: true, duration: 30, bufferTime: 0, price: 300, currency: 'TRY' }),
+        getStaffOverride: jest.fn().mockResolvedValue(null),
+      } as any,
+      {} as any, // userBehaviorRepository
+      { findByDateRange: jest.fn().mockResolvedValue([]) } as any,
+      {
+        findBusinessHoursOverride: jest.fn().mockResolvedValue(null),
+        // at() builds server-local (UTC) times
+        findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, timezone: 'UTC' }),
+      } as any,
+      { hasPermission: jest.fn().mockResolvedValue(true) } as any,
+      {} as any, // businessService
+      {} as any, // notificationService
+      {} as any, // usageService
+      {
+        staffRepository: {
+          findById: jest.fn().mockImplementation((id: string) =>
+            Promise.resolve({ id, businessId: BUSINESS_ID, isActive: true })
+          ),
+        },
+        waitlistRepository: { findActiveHolds: jest.fn().mockResolvedValue([]) },
+        resourceRepository: { findNeedsForServices: jest.fn().mockResolvedValue(new Map()) },
+        classSessionRepository: { findScheduledInRange: jest.fn().mockResolvedValue([]) },
+        staffTimeOffRepository: { findApprovedOverlapping: jest.fn().mockResolvedValue([]) },
+        staffExternalCalendarRepository: {
+          findBusyOverlapping: jest.fn().mockImplementation((staffIds: string[], start: Date, end: Date) =>
+            Promise.resolve(staffIds.includes(busy.staffId) && busy.startTime < end && busy.endTime > start ? [busy] : [])
+          ),
+        },
+      } as any,
+      {} as any, // cancellationPolicyService
+      {} as any, // notificationGateway
+      {} as any // prisma
+    );
+  }
+
+  it('does not offer slots that overlap imported busy time', async () => {
+    const service = makeService();
+
+    const result = await service.getPublicAvailableSlots({
+      businessId: BUSINESS_ID,
+      serviceId: 'haircut',
+      date: DATE,
+      staffId: 'staff-a',
+    });
+
+    const byStart = new Map(result.slots.map((slot) => [new Date(slot.startTime).getTime(), slot.available]));
+    expect(byStart.get(at(9, 30).getTime())).toBe(true);
+    expect(byStart.get(at(10).getTime())).toBe(false);
+    expect(byStart.get(at(10, 30).getTime())).toBe(false);
+    expect(byStart.get(at(11).getTime())).toBe(true);
+  });
+
+  it('refuses to hand an appointment to a staff member busy elsewhere', async () => {
+    const service = makeService({
+      findById: jest.fn().mockResolvedValue({
+        id: 'apt-1',
+        businessId: BUSINESS_ID,
+        serviceId: 'haircut',
+        staffId: 'staff-b',
+        status: AppointmentStatus.CONFIRMED,
+        date: at(0),
+        startTime: at(10, 30),
+        endTime: at(11),
+      }),
+    });
+
+    await expect(service.reassignAppointmentStaff(OWNER_ID, 'apt-1', 'staff-a')).rejects.toMatchObject({
+      code: 'STAFF_EXTERNALLY_BUSY',
+    } as Partial<AppError>);
+  });
+});
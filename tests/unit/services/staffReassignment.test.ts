@@ -0,0 +1,312 @@
+/**
+ * Staff Reassignment Tests
+ *
+ * Covers handing a removed or absent staff member's appointments to colleagues:
+ *  - only active staff assigned to the service, off leave and not booked, qualify
+ *  - each appointment goes to the first free colleague; with nobody free the
+ *    customer is offered new times (RescheduleSuggestion) and told by SMS
+ *  - removing a staff member runs the engine for every upcoming appointment
+ */
+
+import { AppointmentRescheduleService } from '../../../src/services/domain/appointment/appointmentRescheduleService';
+import { StaffReassignmentService } from '../../../src/services/domain/staff/staffReassignmentService';
+import { StaffService } from '../../../src/services/domain/staff/staffService';
+import { AppError } from '../../../src/types/responseTypes';
+
+// cancellationPolicyService creates a module-level client; keep it from loading the query engine
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn().mockImplementation(() => ({})),
+}));
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const OWNER_ID = 'owner-1';
+
+const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+describe('StaffReassignmentService', () => {
+  const staffMembers = [
+    { id: 'staff-ayse', businessId: BUSINESS_ID, userId: 'user-ayse', isActive: true, user: { firstName: 'Ayşe', lastName: 'Kaya' } },
+    { id: 'staff-mehmet', businessId: BUSINESS_ID, userId: 'user-mehmet', isActive: true, user: { firstName: 'Mehmet', lastName: 'Demir' } },
+    { id: 'staff-zeynep', businessId: BUSINESS_ID, userId: 'user-zeynep', isActive: true, user: { firstName: 'Zeynep', lastName: 'Ak' } },
+    { id: 'staff-can', businessId: BUSINESS_ID, userId: 'user-can', isActive: true, user: { firstName: 'Can', lastName: 'Öz' } },
+  ];
+  const morning = { start: inHours(24), end: inHours(24.5) };
+  const afternoon = { start: inHours(28), end: inHours(28.5) };
+  const upcoming = [
+    {
+      id: 'apt-1',
+      customerId: 'cust-1',
+      serviceId: 'svc-cut',
+      date: inHours(0),
+      startTime: morning.start,
+      endTime: morning.end,
+      status: 'CONFIRMED',
+      classSessionId: null,
+      customer: { firstName: 'Elif', lastName: 'Yılmaz' },
+      service: { name: 'Saç Kesimi' },
+    },
+    {
+      id: 'apt-2',
+      customerId: 'cust-2',
+      serviceId: 'svc-cut',
+      date: inHours(0),
+      startTime: afternoon.start,
+      endTime: afternoon.end,
+      status: 'CONFIRMED',
+      classSessionId: null,
+      customer: { firstName: 'Deniz', lastName: 'Şahin' },
+      service: { name: 'Saç Kesimi' },
+    },
+  ];
+
+  function makeService(options: { removedStaff?: boolean; canManage?: boolean; appointments?: object[] } = {}) {
+    const staffRepository = {
+      findById: jest.fn().mockResolvedValue({
+        id: 'staff-ayse',
+        businessId: BUSINESS_ID,
+        userId: 'user-ayse',
+        isActive: !options.removedStaff,
+      }),
+      findByBusinessId: jest.fn().mockResolvedValue(staffMembers),
+    };
+    const staffTimeOffRepository = {
+      findById: jest.fn(),
+      findAffectedAppointments: jest.fn().mockResolvedValue(options.appointments ?? upcoming),
+      // Zeynep is on leave in the afternoon
+      findApprovedOverlapping: jest.fn().mockImplementation((_ids: string[], start: Date) =>
+        Promise.resolve(start >= afternoon.start ? [{ staffId: 'staff-zeynep', startTime: afternoon.start, endTime: inHours(48) }] : [])
+      ),
+    };
+    const appointmentRepository = {
+      // Mehmet is booked all day
+      findConflictingAppointments: jest.fn().mockImplementation(
+        (_b: string, _d: Date, _s: Date, _e: Date, staffId: string) =>
+          Promise.resolve(staffId === 'staff-mehmet' ? [{ id: 'apt-other' }] : [])
+      ),
+    };
+    const appointmentService = { reassignAppointmentStaff: jest.fn().mockResolvedValue({}) };
+    const appointmentRescheduleService = {
+      generateStaffUnavailableSuggestions: jest.fn().mockResolvedValue({
+        suggestionId: 'suggestion-1',
+        suggestedSlots: [{ startTime: inHours(72), endTime: inHours(72.5), isAvailable: true, staffId: 'staff-mehmet' }],
+      }),
+    };
+    const notificationGateway = {
+      sendCriticalSMS: jest.fn().mockResolvedValue({ success: true }),
+      sendSystemAlert: jest.fn().mockResolvedValue({ success: true }),
+    };
+
+    const service = new StaffReassignmentService(
+      staffRepository as any,
+      // Can is not assigned to the service
+      { getServiceStaffIds: jest.fn().mockResolvedValue(['staff-ayse', 'staff-mehmet', 'staff-zeynep']) } as any,
+      appointmentRepository as any,
+      staffTimeOffRepository as any,
+      { findBusyOverlapping: jest.fn().mockResolvedValue([]) } as any,
+      { findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, name: 'Salon Ada', ownerId: OWNER_ID }) } as any,
+      {
+        findById: jest.fn().mockImplementation((id: string) =>
+          Promise.resolve({ id, firstName: 'Müşteri', phoneNumber: `+90555000${id.slice(-1)}` })
+        ),
+      } as any,
+      { hasPermission: jest.fn().mockResolvedValue(!!options.canManage) } as any,
+      appointmentService as any,
+      appointmentRescheduleService as any,
+      notificationGateway as any
+    );
+
+    return { service, appointmentService, appointmentRescheduleService, notificationGateway, staffTimeOffRepository };
+  }
+
+  it('offers only free staff who are assigned to the service', async () => {
+    const { service } = makeService();
+
+    const morningStaff = await service.findFreeQualifiedStaff(BUSINESS_ID, upcoming[0], 'staff-ayse');
+    const afternoonStaff = await service.findFreeQualifiedStaff(BUSINESS_ID, upcoming[1], 'staff-ayse');
+
+    expect(morningStaff.map((member) => member.id)).toEqual(['staff-zeynep']);
+    expect(afternoonStaff).toEqual([]);
+  });
+
+  it('previews a replacement or a reschedule for each upcoming appointment', async () => {
+    const { service, appointmentService } = makeService();
+
+    const proposals = await service.previewReassignment(OWNER_ID, 'staff-ayse');
+
+    expect(proposals).toEqual([
+      expect.objectContaining({
+        appointmentId: 'apt-1',
+        action: 'REASSIGN',
+        proposedStaff: { staffId: 'staff-zeynep', name: 'Zeynep Ak' },
+      }),
+      expect.objectContaining({ appointmentId: 'apt-2', action: 'SUGGEST_RESCHEDULE' }),
+    ]);
+    expect(appointmentService.reassignAppointmentStaff).not.toHaveBeenCalled();
+  });
+
+  it('reassigns where possible and offers new times otherwise', async () => {
+    const { service, appointmentService, appointmentRescheduleService, notificationGateway } = makeService();
+
+    const result = await service.applyReassignment(OWNER_ID, 'staff-ayse', { reason: 'Hasta' });
+
+    expect(appointmentService.reassignAppointmentStaff).toHaveBeenCalledWith(OWNER_ID, 'apt-1', 'staff-zeynep', 'Hasta');
+    expect(appointmentRescheduleService.generateStaffUnavailableSuggestions).toHaveBeenCalledWith('apt-2', {
+      unavailableStaffId: 'staff-ayse',
+      reason: 'STAFF_ABSENT',
+      // An absent staff member can take the customer again once back
+      candidateStaffIds: ['staff-ayse', 'staff-mehmet', 'staff-zeynep'],
+      searchFrom: expect.any(Date),
+    });
+    expect(notificationGateway.sendCriticalSMS).toHaveBeenCalledWith(
+      '+905550002',
+      expect.stringContaining('1 yeni saat'),
+      { requestId: 'staff-unavailable-apt-2' }
+    );
+    expect(result).toEqual({
+      reassigned: [{ appointmentId: 'apt-1', staffId: 'staff-zeynep' }],
+      suggested: [{ appointmentId: 'apt-2', suggestionId: 'suggestion-1', slotCount: 1 }],
+      failed: [],
+    });
+  });
+
+  it('falls back to new times when the replacement was booked in the meantime', async () => {
+    const { service, appointmentService, appointmentRescheduleService } = makeService({ appointments: [upcoming[0]] });
+    appointmentService.reassignAppointmentStaff.mockRejectedValue(
+      new AppError('APPOINTMENT_STAFF_NOT_AVAILABLE', { message: 'Staff member is not available at the selected time' })
+    );
+
+    const result = await service.applyReassignment(OWNER_ID, 'staff-ayse');
+
+    expect(appointmentRescheduleService.generateStaffUnavailableSuggestions).toHaveBeenCalledWith('apt-1', expect.anything());
+    expect(result.suggested).toEqual([{ appointmentId: 'apt-1', suggestionId: 'suggestion-1', slotCount: 1 }]);
+    expect(result.reassigned).toEqual([]);
+  });
+
+  it('leaves class seats and unknown appointments to the manager', async () => {
+    const { service, appointmentService } = makeService({
+      appointments: [{ ...upcoming[0], classSessionId: 'cls_1' }],
+    });
+
+    const result = await service.applyReassignment(OWNER_ID, 'staff-ayse', { appointmentIds: ['apt-1', 'apt-9'] });
+
+    expect(appointmentService.reassignAppointmentStaff).not.toHaveBeenCalled();
+    expect(result.failed.map((failure) => failure.appointmentId)).toEqual(['apt-9', 'apt-1']);
+  });
+
+  it('only handles appointments inside an approved time off', async () => {
+    const { service, staffTimeOffRepository } = makeService();
+    staffTimeOffRepository.findById.mockResolvedValue({ id: 'sto_1', staffId: 'staff-ayse', status: 'PENDING' });
+
+    await expect(service.applyReassignment(OWNER_ID, 'staff-ayse', { timeOffId: 'sto_1' })).rejects.toMatchObject({
+      code: 'STAFF_TIME_OFF_INVALID_STATUS',
+    } as Partial<AppError>);
+  });
+
+  it('refuses users who cannot manage staff', async () => {
+    const { service } = makeService();
+
+    await expect(service.previewReassignment('user-mehmet', 'staff-ayse')).rejects.toMatchObject({
+      code: 'BUSINESS_OWNER_REQUIRED',
+    } as Partial<AppError>);
+  });
+
+  it('hands over every upcoming appointment of a removed staff member and tells the owner', async () => {
+    const { service, appointmentRescheduleService, notificationGateway } = makeService({ removedStaff: true });
+
+    const result = await service.handleStaffRemoved(
+      { id: 'staff-ayse', businessId: BUSINESS_ID, userId: 'user-ayse' } as any,
+      OWNER_ID
+    );
+
+    expect(result.reassigned).toHaveLength(1);
+    expect(appointmentRescheduleService.generateStaffUnavailableSuggestions).toHaveBeenCalledWith(
+      'apt-2',
+      expect.objectContaining({ reason: 'STAFF_REMOVED', candidateStaffIds: ['staff-mehmet', 'staff-zeynep'] })
+    );
+    expect(notificationGateway.sendSystemAlert).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: OWNER_ID, data: expect.objectContaining({ reassigned: 1, suggested: 1 }) })
+    );
+  });
+});
+
+describe('StaffService.removeStaff listeners', () => {
+  function makeStaffService() {
+    const repositories = {
+      staffRepository: {
+        findById: jest.fn().mockResolvedValue({ id: 'staff-ayse', businessId: BUSINESS_ID, userId: 'user-ayse', role: 'STAFF' }),
+        deactivate: jest.fn().mockResolvedValue(undefined),
+      },
+      serviceRepository: { removeStaffFromAllServices: jest.fn().mockResolvedValue(undefined) },
+      businessRepository: { findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, ownerId: OWNER_ID }) },
+    } as any;
+
+    return new StaffService(
+      repositories,
+      {} as any, // phoneVerificationService
+      { hasPermission: jest.fn().mockResolvedValue(true), forceInvalidateUser: jest.fn() } as any,
+      { updateStaffUsage: jest.fn().mockResolvedValue(undefined) } as any
+    );
+  }
+
+  it('hands the removed staff member to the listeners without waiting for them', async () => {
+    const staffService = makeStaffService();
+    const listener = jest.fn().mockRejectedValue(new Error('reassignment failed'));
+    staffService.onStaffRemoved(listener);
+
+    await expect(staffService.removeStaff(OWNER_ID, 'staff-ayse')).resolves.toBeUndefined();
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ id: 'staff-ayse' }), OWNER_ID);
+  });
+});
+
+describe('AppointmentRescheduleService.generateStaffUnavailableSuggestions', () => {
+  it('offers the earliest times across staff and records why', async () => {
+    const rescheduleSuggestionRepository = { create: jest.fn().mockResolvedValue({}) };
+    const service = new AppointmentRescheduleService(
+      { findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, timezone: 'Europe/Istanbul' }) } as any,
+      {
+        findByIdWithDetails: jest.fn().mockResolvedValue({
+          id: 'apt-2',
+          businessId: BUSINESS_ID,
+          serviceId: 'svc-cut',
+          duration: 30,
+          startTime: inHours(28),
+        }),
+      } as any,
+      {} as any, // businessClosureRepository
+      {} as any, // serviceRepository
+      {} as any, // workingHoursRepository
+      rescheduleSuggestionRepository as any,
+      {} as any, // notificationService
+      {} as any, // staffTimeOffRepository
+      {} as any, // staffExternalCalendarRepository
+      {} as any // appointmentStatusChangeRepository
+    );
+    const slot = (hours: number) => ({ startTime: inHours(hours), endTime: inHours(hours + 0.5), isAvailable: true });
+    jest.spyOn(service, 'findAvailableSlots').mockImplementation((_b, _s, staffId) =>
+      Promise.resolve(staffId === 'staff-mehmet' ? [slot(50), slot(98)] : [slot(74)])
+    );
+
+    const { suggestedSlots } = await service.generateStaffUnavailableSuggestions('apt-2', {
+      unavailableStaffId: 'staff-ayse',
+      reason: 'STAFF_REMOVED',
+      candidateStaffIds: ['staff-mehmet', 'staff-zeynep'],
+      searchFrom: new Date(),
+    });
+
+    expect(suggestedSlots.map((s) => s.staffId)).toEqual(['staff-mehmet', 'staff-zeynep', 'staff-mehmet']);
+    expect(rescheduleSuggestionRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        reason: 'STAFF_REMOVED',
+        unavailableStaff: { connect: { id: 'staff-ayse' } },
+        originalAppointment: { connect: { id: 'apt-2' } },
+      })
+    );
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * Staff Time-Off Tests
+ *
+ * Covers per-staff leave and partial-day absences:
+ *  - calendar days and times are turned into the instants they block
+ *  - managers' entries are approved right away, staff requests wait for the owner
+ *  - only pending requests can be reviewed
+ *  - approved leave removes the staff member's slots and blocks booking them
+ *  - affected appointments list free qualified replacements and can be
+ *    reassigned or cancelled in bulk
+ */
+
+import { AppointmentService } from '../../../src/services/domain/appointment/appointmentService';
+import { StaffReassignmentService } from '../../../src/services/domain/staff/staffReassignmentService';
+import { StaffTimeOffService } from '../../../src/services/domain/staff/staffTimeOffService';
+import { isDuringTimeOff, resolveTimeOffWindow } from '../../../src/services/domain/staff/timeOffWindow';
+import { AppointmentStatus } from '../../../src/types/business';
+import { AppError } from '../../../src/types/responseTypes';
+
+// cancellationPolicyService creates a module-level client; keep it from loading the query engine
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn().mockImplementation(() => ({})),
+}));
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const OWNER_ID = 'owner-1';
+const DATE = '2099-01-05';
+
+function at(hour: number, minute = 0): Date {
+  const d = new Date(DATE);
+  d.setHours(hour, minute, 0, 0);
+  return d;
+}
+
+describe('timeOffWindow', () => {
+  // Days are Istanbul calendar days unless the business has another timezone
+  it('blocks whole days when no times are given', () => {
+    const window = resolveTimeOffWindow({ startDate: '2026-05-12', endDate: '2026-05-19' });
+
+    expect(window.startTime).toEqual(new Date('2026-05-12T00:00:00+03:00'));
+    expect(window.endTime).toEqual(new Date('2026-05-20T00:00:00+03:00'));
+    expect(window.isFullDay).toBe(true);
+  });
+
+  it('starts a partial day at the given time', () => {
+    // "Mehmet leaves at 15:00 on Friday"
+    const window = resolveTimeOffWindow({ startDate: '2026-05-15', startTime: '15:00' });
+
+    expect(window.startTime).toEqual(new Date('2026-05-15T15:00:00+03:00'));
+    expect(window.endTime).toEqual(new Date('2026-05-16T00:00:00+03:00'));
+    expect(window.isFullDay).toBe(false);
+  });
+
+  it('uses the business timezone across a clock change', () => {
+    // Europe/Berlin moves to summer time on 2026-03-29
+    const window = resolveTimeOffWindow({ startDate: '2026-03-28', endDate: '2026-03-29' }, 'Europe/Berlin');
+
+    expect(window.startTime).toEqual(new Date('2026-03-28T00:00:00+01:00'));
+    expect(window.endTime).toEqual(new Date('2026-03-30T00:00:00+02:00'));
+  });
+
+  it('treats touching ranges as free', () => {
+    const timeOff = [{ startTime: at(15), endTime: at(18) }];
+
+    expect(isDuringTimeOff(timeOff, at(14, 30), at(15))).toBe(false);
+    expect(isDuringTimeOff(timeOff, at(14, 30), at(15, 15))).toBe(true);
+    expect(isDuringTimeOff(timeOff, at(18), at(18, 30))).toBe(false);
+  });
+});
+
+describe('StaffTimeOffService', () => {
+  const staffMembers = [
+    { id: 'staff-ayse', businessId: BUSINESS_ID, userId: 'user-ayse', isActive: true, user: { firstName: 'Ayşe', lastName: 'Kaya' } },
+    { id: 'staff-mehmet', businessId: BUSINESS_ID, userId: 'user-mehmet', isActive: true, user: { firstName: 'Mehmet', lastName: 'Demir' } },
+    { id: 'staff-zeynep', businessId: BUSINESS_ID, userId: 'user-zeynep', isActive: true, user: { firstName: 'Zeynep', lastName: 'Ak' } },
+  ];
+  const approvedLeave = {
+    id: 'sto_1',
+    businessId: BUSINESS_ID,
+    staffId: 'staff-ayse',
+    type: 'VACATION',
+    startTime: at(0),
+    endTime: at(24),
+    isFullDay: true,
+    status: 'APPROVED',
+    requestedBy: 'user-ayse',
+    staff: { id: 'staff-ayse', firstName: 'Ayşe', lastName: 'Kaya' },
+  };
+  const affected = [
+    {
+      id: 'apt-1',
+      serviceId: 'svc-cut',
+      date: at(0),
+      startTime: at(10),
+      endTime: at(10, 30),
+      status: AppointmentStatus.CONFIRMED,
+      classSessionId: null,
+      customer: { firstName: 'Elif', lastName: 'Yılmaz' },
+      service: { name: 'Saç Kesimi' },
+    },
+    {
+      id: 'apt-2',
+      serviceId: 'svc-cut',
+      date: at(0),
+      startTime: at(14),
+      endTime: at(14, 30),
+      status: AppointmentStatus.CONFIRMED,
+      classSessionId: null,
+      customer: { firstName: 'Can', lastName: 'Öz' },
+      service: { name: 'Saç Kesimi' },
+    },
+  ];
+
+  function makeService(options: { timeOff?: object; transitionSucceeds?: boolean; canManage?: boolean } = {}) {
+    const staffTimeOffRepository = {
+      create: jest.fn().mockImplementation((data: object) => Promise.resolve({ ...data })),
+      findById: jest.fn().mockResolvedValue(options.timeOff ?? approvedLeave),
+      findByBusiness: jest.fn().mockResolvedValue([]),
+      transition: jest.fn().mockResolvedValue(options.transitionSucceeds ?? true),
+      // Zeynep is off in the afternoon
+      findApprovedOverlapping: jest.fn().mockImplementation((_ids: string[], start: Date) =>
+        Promise.resolve(start >= at(13) ? [{ staffId: 'staff-zeynep', startTime: at(13), endTime: at(24) }] : [])
+      ),
+      findAffectedAppointments: jest.fn().mockResolvedValue(affected),
+    };
+    const staffRepository = {
+      findById: jest.fn().mockImplementation((id: string) => Promise.resolve(staffMembers.find((s) => s.id === id) || null)),
+      findByBusinessIdAndUserId: jest.fn().mockImplementation((_b: string, userId: string) =>
+        Promise.resolve(staffMembers.find((s) => s.userId === userId) || null)
+      ),
+      findByBusinessId: jest.fn().mockResolvedValue(staffMembers),
+    };
+    const appointmentRepository = {
+      // Mehmet is busy in the morning
+      findConflictingAppointments: jest.fn().mockImplementation(
+        (_b: string, _d: Date, start: Date, _e: Date, staffId: string) =>
+          Promise.resolve(staffId === 'staff-mehmet' && start < at(12) ? [{ id: 'apt-other' }] : [])
+      ),
+    };
+    const appointmentService = {
+      reassignAppointmentStaff: jest.fn().mockResolvedValue({}),
+      cancelAppointment: jest.fn().mockResolvedValue({}),
+    };
+    const notificationGateway = { sendSystemAlert: jest.fn().mockResolvedValue({ success: true }) };
+    const rbacService = { hasPermission: jest.fn().mockResolvedValue(!!options.canManage) };
+
+    const businessRepository = { findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, ownerId: OWNER_ID }) };
+    const staffReassignmentService = new StaffReassignmentService(
+      staffRepository as any,
+      { getServiceStaffIds: jest.fn().mockResolvedValue(['staff-ayse', 'staff-mehmet', 'staff-zeynep']) } as any,
+      appointmentRepository as any,
+      staffTimeOffRepository as any,
+      { findBusyOverlapping: jest.fn().mockResolvedValue([]) } as any,
+      businessRepository as any,
+      {} as any, // userRepository
+      rbacService as any,
+      appointmentService as any,
+      {} as any, // appointmentRescheduleService
+      notificationGateway as any
+    );
+
+    const service = new StaffTimeOffService(
+      staffTimeOffRepository as any,
+      staffRepository as any,
+      businessRepository as any,
+      staffReassignmentService,
+      rbacService as any,
+      appointmentService as any,
+      notificationGateway as any
+    );
+
+    return { service, staffTimeOffRepository, appointmentService, notificationGateway };
+  }
+
+  it('approves time off created by the owner right away', async () => {
+    const { service, staffTimeOffRepository, notificationGateway } = makeService();
+
+    const timeOff = await service.createTimeOff(OWNER_ID, BUSINESS_ID, {
+      staffId: 'staff-ayse',
+      startDate: '2099-05-12',
+      endDate: '2099-05-19',
+    });
+
+    expect(timeOff).toMatchObject({ staffId: 'staff-ayse', status: 'APPROVED', reviewedBy: OWNER_ID, isFullDay: true });
+    expect(staffTimeOffRepository.create.mock.calls[0][0].id).toMatch(/^sto_/);
+    expect(notificationGateway.sendSystemAlert).not.toHaveBeenCalled();
+  });
+
+  it('keeps a staff request pending and tells the owner', async () => {
+    const { service, notificationGateway } = makeService();
+
+    const timeOff = await service.createTimeOff('user-mehmet', BUSINESS_ID, {
+      startDate: '2099-05-15',
+      startTime: '15:00',
+      reason: 'Doktor randevusu',
+    });
+
+    expect(timeOff).toMatchObject({ staffId: 'staff-mehmet', status: 'PENDING', isFullDay: false });
+    expect(notificationGateway.sendSystemAlert).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: OWNER_ID, businessId: BUSINESS_ID })
+    );
+  });
+
+  it('does not let staff request time off for a colleague', async () => {
+    const { service, staffTimeOffRepository } = makeService();
+
+    await expect(
+      service.createTimeOff('user-mehmet', BUSINESS_ID, { staffId: 'staff-ayse', startDate: '2099-05-15' })
+    ).rejects.toMatchObject({ code: 'BUSINESS_OWNER_REQUIRED' } as Partial<AppError>);
+    expect(staffTimeOffRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('reviews only pending requests', async () => {
+    const { service, staffTimeOffRepository } = makeService({ transitionSucceeds: false });
+
+    await expect(service.approveTimeOff(OWNER_ID, 'sto_1')).rejects.toMatchObject({
+      code: 'STAFF_TIME_OFF_INVALID_STATUS',
+    } as Partial<AppError>);
+    expect(staffTimeOffRepository.transition).toHaveBeenCalledWith(
+      'sto_1',
+      ['PENDING'],
+      expect.objectContaining({ status: 'APPROVED', reviewedBy: OWNER_ID })
+    );
+  });
+
+  it('lists affected appointments with the qualified staff who are free then', async () => {
+    const { service } = makeService();
+
+    const result = await service.getAffectedAppointments(OWNER_ID, 'sto_1');
+
+    // Morning: Mehmet is busy; afternoon: Zeynep is on leave
+    expect(result.map((appointment) => appointment.availableStaff.map((s) => s.staffId))).toEqual([
+      ['staff-zeynep'],
+      ['staff-mehmet'],
+    ]);
+    expect(result[0]).toMatchObject({ customerName: 'Elif Yılmaz', serviceName: 'Saç Kesimi' });
+  });
+
+  it('reassigns each appointment to its first free staff member and reports the rest', async () => {
+    const { service, appointmentService } = makeService();
+
+    const result = await service.resolveAffectedAppointments(OWNER_ID, 'sto_1', {
+      action: 'REASSIGN',
+      appointmentIds: ['apt-1', 'apt-2', 'apt-unrelated'],
+    });
+
+    expect(appointmentService.reassignAppointmentStaff).toHaveBeenCalledWith(OWNER_ID, 'apt-1', 'staff-zeynep', undefined);
+    expect(appointmentService.reassignAppointmentStaff).toHaveBeenCalledWith(OWNER_ID, 'apt-2', 'staff-mehmet', undefined);
+    expect(result.reassigned).toEqual([
+      { appointmentId: 'apt-1', staffId: 'staff-zeynep' },
+      { appointmentId: 'apt-2', staffId: 'staff-mehmet' },
+    ]);
+    expect(result.failed).toEqual([{ appointmentId: 'apt-unrelated', error: expect.any(String) }]);
+  });
+
+  it('cancels affected appointments with a default reason', async () => {
+    const { service, appointmentService } = makeService();
+    appointmentService.cancelAppointment.mockRejectedValueOnce(new Error('Appointment already completed'));
+
+    const result = await service.resolveAffectedAppointments(OWNER_ID, 'sto_1', {
+      action: 'CANCEL',
+      appointmentIds: ['apt-1', 'apt-2'],
+    });
+
+    expect(appointmentService.cancelAppointment).toHaveBeenCalledWith(OWNER_ID, 'apt-2', expect.stringContaining('izinli'));
+    expect(result.cancelled).toEqual(['apt-2']);
+    expect(result.failed).toEqual([{ appointmentId: 'apt-1', error: 'Appointment already completed' }]);
+  });
+
+  it('refuses to resolve appointments of time off that is not approved', async () => {
+    const { service, appointmentService } = makeService({ timeOff: { ...approvedLeave, status: 'PENDING' } });
+
+    await expect(
+      service.resolveAffectedAppointments(OWNER_ID, 'sto_1', { action: 'CANCEL', appointmentIds: ['apt-1'] })
+    ).rejects.toMatchObject({ code: 'STAFF_TIME_OFF_INVALID_STATUS' } as Partial<AppError>);
+    expect(appointmentService.cancelAppointment).not.toHaveBeenCalled();
+  });
+});
+
+describe('AppointmentService staff time off', () => {
+  // A few days before the booked dates, inside the booking horizon
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2099-01-01T00:00:00Z'), doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+  const services: Record<string, any> = {
+    haircut: { id: 'haircut', businessId: BUSINESS_ID, isActive: true, duration: 30, bufferTime: 0, price: 300, currency: 'TRY' },
+  };
+  const leave = { id: 'sto_1', staffId: 'staff-a', startTime: at(10), endTime: at(24), status: 'APPROVED' };
+
+  function makeService(appointmentRepoOverrides: any = {}) {
+    const appointmentRepository = {
+      findWorkingHours: jest.fn().mockResolvedValue([
+        { startTime: '09:00', endTime: '12:00', dayOfWeek: 1, staffId: null },
+      ]),
+      findAppointmentsForDay: jest.fn().mockResolvedValue([]),
+      ...appointmentRepoOverrides,
+    };
+
+    return new AppointmentService(
+      appointmentRepository as any,
+      {
+        findById: jest.fn().mockImplementation((id: string) => Promise.resolve(services[id] || null)),
+        getStaffOverride: jest.fn().mockResolvedValue(null),
+      } as any,
+      {} as any, // userBehaviorRepository
+      { findByDateRange: jest.fn().mockResolvedValue([]) } as any,
+      {
+        findBusinessHoursOverride: jest.fn().mockResolvedValue(null),
+        // at() builds server-local (UTC) times
+        findById: jest.fn().mockResolvedValue({ id: BUSINESS_ID, timezone: 'UTC' }),
+      } as any,
+      { hasPermission: jest.fn().mockResolvedValue(true) } as any,
+      {} as any, // businessService
+      {} as any, // notificationService
+      {} as any, // usageService
+      {
+        staffRepository: {
+          findById: jest.fn().mockImplementation((id: string) =>
+            Promise.resolve({ id, businessId: BUSINESS_ID, isActive: true })
+          ),
+        },
+        waitlistRepository: { findActiveHolds: jest.fn().mockResolvedValue([]) },
+        resourceRepository: { findNeedsForServices: jest.fn().mockResolvedValue(new Map()) },
+        classSessionRepository: { findScheduledInRange: jest.fn().mockResolvedValue([]) },
+        staffTimeOffRepository: {
+          findApprovedOverlapping: jest.fn().mockImplementation((staffIds: string[], start: Date, end: Date) =>
+            Promise.resolve(staffIds.includes(leave.staffId) && leave.startTime < end && leave.endTime > start ? [leave] : [])
+          ),
+        },
+        staffExternalCalendarRepository: { findBusyOverlapping: jest.fn().mockResolvedValue([]) },
+      } as any,
+      {} as any, // cancellationPolicyService
+      {} as any, // notificationGateway
+      {} as any // prisma
+    );
+  }
+
+  it('does not offer slots while the staff member is on leave', async () => {
+    const service = makeService();
+
+    const result = await service.getPublicAvailableSlots({
+      businessId: BUSINESS_ID,
+      serviceId: 'haircut',
+      date: DATE,
+      staffId: 'staff-a',
+    });
+
+    const byStart = new Map(result.slots.map((slot) => [new Date(slot.startTime).getTime(), slot.available]));
+    expect(byStart.get(at(9, 30).getTime())).toBe(true);
+    expect(byStart.get(at(9, 45).getTime())).toBe(false);
+    expect(byStart.get(at(11).getTime())).toBe(false);
+  });
+
+  it('refuses to hand an appointment to a staff member on leave', async () => {
+    const service = makeService({
+      findById: jest.fn().mockResolvedValue({
+        id: 'apt-1',
+        businessId: BUSINESS_ID,
+        serviceId: 'haircut',
+        staffId: 'staff-b',
+        status: AppointmentStatus.CONFIRMED,
+        date: at(0),
+        startTime: at(11),
+        endTime: at(11, 30),
+      }),
+    });
+
+    await expect(service.reassignAppointmentStaff(OWNER_ID, 'apt-1', 'staff-a')).rejects.toMatchObject({
+      code: 'STAFF_ON_TIME_OFF',
+    } as Partial<AppError>);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Waitlist Service Tests
+ *
+ * Covers automatic slot offering:
+ *  - a freed slot goes to the first matching entry in join order
+ *  - entries for another staff member, a longer service or an unqualified staff are skipped
+ *  - an expired hold puts the customer back in line and moves the slot to the next entry
+ *  - expired or answered offers cannot be accepted
+ */
+
+import { WaitlistService, WAITLIST_OFFER_HOLD_MINUTES } from '../../../src/services/domain/waitlist';
+import { AppError } from '../../../src/types/responseTypes';
+import { FreedSlot, WaitlistEntryData } from '../../../src/types/waitlist';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const NOW = new Date(2099, 0, 5, 8, 0);
+
+function entry(id: string, overrides: Partial<WaitlistEntryData> = {}): WaitlistEntryData {
+  return {
+    id,
+    businessId: 'biz-1',
+    serviceId: 'svc-cut',
+    customerId: `cust-${id}`,
+    dateFrom: new Date(2099, 0, 5),
+    dateTo: new Date(2099, 0, 10),
+    status: 'WAITING',
+    createdAt: NOW,
+    updatedAt: NOW,
+    service: { id: 'svc-cut', name: 'Saç Kesimi', duration: 30 },
+    ...overrides,
+  };
+}
+
+function makeService(candidates: WaitlistEntryData[], options: { offeredEntryIds?: string[] } = {}) {
+  const waitlistRepository = {
+    findEntryIdsOfferedForSource: jest.fn().mockResolvedValue(options.offeredEntryIds || []),
+    findOfferCandidates: jest.fn().mockImplementation((_b: string, _d: Date, exclude: string[]) =>
+      Promise.resolve(candidates.filter((c) => !exclude.includes(c.id)))
+    ),
+    findActiveHolds: jest.fn().mockResolvedValue([]),
+    createOffer: jest.fn().mockImplementation((data: any) => Promise.resolve({ ...data, status: 'PENDING', createdAt: new Date() })),
+    updateEntry: jest.fn().mockResolvedValue({}),
+    updateOffer: jest.fn().mockResolvedValue({}),
+    findExpiredPendingOffers: jest.fn().mockResolvedValue([]),
+    findEntryById: jest.fn(),
+    findOfferById: jest.fn(),
+    expireEndedEntries: jest.fn().mockResolvedValue(0),
+  };
+  const appointmentRepository = {
+    findConflictingAppointments: jest.fn().mockResolvedValue([]),
+    findById: jest.fn(),
+  };
+  const serviceRepository = {
+    // staff-2 also does colouring; nobody else is qualified for it
+    getServiceStaffIds: jest.fn().mockImplementation((serviceId: string) =>
+      Promise.resolve(serviceId === 'svc-color' ? ['staff-2'] : [])
+    ),
+    findById: jest.fn().mockResolvedValue(null),
+  };
+  const appointmentService = { createAppointment: jest.fn() };
+
+  const service = new WaitlistService(
+    waitlistRepository as any,
+    appointmentRepository as any,
+    serviceRepository as any,
+    // Dates in these tests are server-local (UTC)
+    { findById: jest.fn().mockResolvedValue({ id: 'biz-1', timezone: 'UTC' }) } as any,
+    { findById: jest.fn().mockResolvedValue(null) } as any,
+    appointmentService as any,
+    { sendCriticalSMS: jest.fn() } as any
+  );
+
+  return { service, waitlistRepository, appointmentRepository, appointmentService };
+}
+
+const slot: FreedSlot = {
+  businessId: 'biz-1',
+  serviceId: 'svc-cut',
+  staffId: 'staff-1',
+  startTime: new Date(2099, 0, 5, 14, 0),
+  endTime: new Date(2099, 0, 5, 14, 45),
+  sourceAppointmentId: 'apt-cancelled',
+};
+
+describe('WaitlistService.offerFreedSlot', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('offers the slot to the first entry that fits, in join order', async () => {
+    const { service, waitlistRepository } = makeService([
+      entry('wl-other-staff', { staffId: 'staff-9' }),
+      entry('wl-too-long', { service: { id: 'svc-cut', name: 'Uzun', duration: 60 } }),
+      entry('wl-unqualified', { serviceId: 'svc-color', service: { id: 'svc-color', name: 'Boya', duration: 30 } }),
+      entry('wl-match'),
+      entry('wl-later'),
+    ]);
+
+    const offer = await service.offerFreedSlot(slot);
+
+    expect(offer?.entryId).toBe('wl-match');
+    expect(offer?.startTime).toEqual(slot.startTime);
+    expect(offer?.endTime).toEqual(new Date(2099, 0, 5, 14, 30));
+    expect(offer?.expiresAt).toEqual(new Date(NOW.getTime() + WAITLIST_OFFER_HOLD_MINUTES * 60000));
+    expect(waitlistRepository.createOffer).toHaveBeenCalledTimes(1);
+    expect(waitlistRepository.updateEntry).toHaveBeenCalledWith('wl-match', { status: 'OFFERED' });
+  });
+
+  it('respects the entry earliest time within the freed window', async () => {
+    const { service } = makeService([entry('wl-late', { earliestTime: '14:15' })]);
+
+    const offer = await service.offerFreedSlot(slot);
+
+    expect(offer?.startTime).toEqual(new Date(2099, 0, 5, 14, 15));
+  });
+
+  it('does not offer a slot that was booked in the meantime', async () => {
+    const { service, appointmentRepository, waitlistRepository } = makeService([entry('wl-match')]);
+    appointmentRepository.findConflictingAppointments.mockResolvedValue([{ id: 'apt-new' }]);
+
+    await expect(service.offerFreedSlot(slot)).resolves.toBeNull();
+    expect(waitlistRepository.createOffer).not.toHaveBeenCalled();
+  });
+});
+
+describe('WaitlistService.expireOffers', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('puts the customer back in line and offers the slot to the next entry', async () => {
+    const { service, waitlistRepository, appointmentRepository } = makeService(
+      [entry('wl-first'), entry('wl-second')],
+      { offeredEntryIds: ['wl-first'] }
+    );
+    waitlistRepository.findExpiredPendingOffers.mockResolvedValue([{
+      id: 'offer-1',
+      entryId: 'wl-first',
+      businessId: 'biz-1',
+      serviceId: 'svc-cut',
+      staffId: 'staff-1',
+      sourceAppointmentId: 'apt-cancelled',
+      startTime: slot.startTime,
+      endTime: new Date(2099, 0, 5, 14, 30),
+      status: 'PENDING',
+      expiresAt: new Date(NOW.getTime() - 1000),
+      createdAt: NOW,
+    }]);
+    waitlistRepository.findEntryById.mockResolvedValue(entry('wl-first', { status: 'OFFERED' }));
+    appointmentRepository.findById.mockResolvedValue({
+      id: 'apt-cancelled',
+      serviceId: 'svc-cut',
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+    });
+
+    const result = await service.expireOffers();
+
+    expect(result).toEqual({ expiredOffers: 1, reoffered: 1, expiredEntries: 0 });
+    expect(waitlistRepository.updateOffer).toHaveBeenCalledWith('offer-1', { status: 'EXPIRED' });
+    expect(waitlistRepository.updateEntry).toHaveBeenCalledWith('wl-first', { status: 'WAITING' });
+    expect(waitlistRepository.createOffer).toHaveBeenCalledWith(
+      expect.objectContaining({ entryId: 'wl-second', sourceAppointmentId: 'apt-cancelled' })
+    );
+  });
+});
+
+describe('WaitlistService.acceptOffer', () => {
+  it('rejects an offer whose hold has run out', async () => {
+    const { service, waitlistRepository, appointmentService } = makeService([]);
+    waitlistRepository.findOfferById.mockResolvedValue({
+      id: 'offer-1',
+      entryId: 'wl-first',
+      status: 'PENDING',
+      expiresAt: new Date(Date.now() - 60000),
+    });
+    waitlistRepository.findEntryById.mockResolvedValue(entry('wl-first'));
+
+    await expect(service.acceptOffer('cust-wl-first', 'offer-1')).rejects.toBeInstanceOf(AppError);
+    expect(appointmentService.createAppointment).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Walk-in Queue Tests
+ *
+ * Covers walk-in tickets of barbershops:
+ *  - service durations come from completed appointments, per staff member when
+ *    there are enough of them
+ *  - wait estimates play the queue forward over the staff, "any staff" tickets going
+ *    to whoever is free first
+ *  - call next, skip and convert to an appointment
+ *  - self-service tickets and the public display status
+ */
+
+import { estimateWaits, historicalDurations } from '../../../src/services/domain/queue/waitEstimate';
+import { WalkInQueueService } from '../../../src/services/domain/queue/walkInQueueService';
+import { AppError } from '../../../src/types/responseTypes';
+import { WalkInTicketData } from '../../../src/types/walkInQueue';
+
+jest.mock('../../../src/utils/Logger/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const BUSINESS_ID = 'biz-001';
+const OWNER_ID = 'user-owner';
+// Monday 5 January 2099, 10:00 in Istanbul
+const NOW = new Date('2099-01-05T07:00:00Z');
+const minutesFromNow = (minutes: number) => new Date(NOW.getTime() + minutes * 60000);
+
+describe('historicalDurations', () => {
+  const durationOf = historicalDurations(
+    [
+      { serviceId: 'svc-cut', staffId: 'staff-ali', averageMinutes: 20, count: 5 },
+      { serviceId: 'svc-cut', staffId: 'staff-can', averageMinutes: 40, count: 2 },
+      { serviceId: 'svc-beard', staffId: 'staff-ali', averageMinutes: 15, count: 2 },
+    ],
+    new Map([['svc-cut', 30], ['svc-beard', 10], ['svc-color', 90]])
+  );
+
+  it('uses the staff member’s own average once there are enough appointments', () => {
+    expect(durationOf('svc-cut', 'staff-ali')).toBe(20);
+  });
+
+  it('falls back to the average over all staff, then to the configured duration', () => {
+    // (20 * 5 + 40 * 2) / 7
+    expect(durationOf('svc-cut', 'staff-can')).toBe(26);
+    expect(durationOf('svc-cut')).toBe(26);
+    expect(durationOf('svc-beard', 'staff-ali')).toBe(10);
+    expect(durationOf('svc-color', 'staff-ali')).toBe(90);
+  });
+});
+
+describe('estimateWaits', () => {
+  const durationOf = (serviceId: string) => (serviceId === 'svc-color' ? 90 : 30);
+
+  it('gives "any staff" tickets to whoever is free first and keeps requested staff to their line', () => {
+    const estimates = estimateWaits(
+      [
+        { id: 't1', serviceId: 'svc-cut', staffId: 'staff-ali' },
+        { id: 't2', serviceId: 'svc-cut' },
+        { id: 't3', serviceId: 'svc-cut' },
+        { id: 't4', serviceId: 'svc-cut', staffId: 'staff-ali' },
+      ],
+      [
+        { staffId: 'staff-ali', availableAt: NOW },
+        { staffId: 'staff-can', availableAt: minutesFromNow(10) },
+      ],
+      new Map(),
+      durationOf,
+      NOW
+    );
+
+    expect(estimates.get('t1')).toEqual({ position: 1, waitMinutes: 0, staffId: 'staff-ali' });
+    expect(estimates.get('t2')).toEqual({ position: 1, waitMinutes: 10, staffId: 'staff-can' });
+    expect(estimates.get('t3')).toEqual({ position: 2, waitMinutes: 30, staffId: 'staff-ali' });
+    expect(estimates.get('t4')).toEqual({ position: 2, waitMinutes: 60, staffId: 'staff-ali' });
+  });
+
+  it('only counts staff who provide the service and leaves the wait out when nobody does', () => {
+    const estimates = estimateWaits(
+      [
+        { id: 't1', serviceId: 'svc-color' },
+        { id: 't2', serviceId: 'svc-shave' },
+      ],
+      [
+        { staffId: 'staff-ali', availableAt: NOW },
+        { staffId: 'staff-can', availableAt: minutesFromNow(45) },
+      ],
+      new Map([['svc-color', ['staff-can']], ['svc-shave', ['staff-gone']]]),
+      durationOf,
+      NOW
+    );
+
+    expect(estimates.get('t1')).toEqual({ position: 1, waitMinutes: 45, staffId: 'staff-can' });
+    expect(estimates.get('t2')).toEqual({ position: 2 });
+  });
+});
+
+describe('WalkInQueueService', () => {
+  const ticket = (overrides: Partial<WalkInTicketData>): WalkInTicketData => ({
+    id: 't1',
+    businessId: BUSINESS_ID,
+    serviceId: 'svc-cut',
+    customerName: 'Mehmet',
+    queueDate: new Date('2099-01-05T00:00:00Z'),
+    number: 1,
+    status: 'WAITING',
+    source: 'STAFF',
+    createdBy: OWNER_ID,
+    createdAt: NOW,
+    updatedAt: NOW,
+    service: { id: 'svc-cut', name: 'Saç Kesimi', duration: 30 },
+    ...overrides,
+  });
+
+  function makeService(tickets: WalkInTicketData[], options: { settings?: object; callerStaffId?: string } = {}) {
+    const byId = new Map(tickets.map((entry) => [entry.id, entry]));
+    const walkInQueueRepository = {
+      create: jest.fn().mockImplementation((data) => {
+        const created = ticket({ ...data, number: 7 });
+        tickets.push(created);
+        byId.set(created.id, created);
+        return Promise.resolve(created);
+      }),
+      findById: jest.fn().mockImplementation((id: string) => Promise.resolve(byId.get(id) ?? null)),
+      findForDay: jest.fn().mockImplementation((_businessId: string, _day: Date, statuses?: string[]) =>
+        Promise.resolve(tickets.filter((entry) => !statuses || statuses.includes(entry.status)))
+      ),
+      findOpenByCustomer: jest.fn().mockResolvedValue(null),
+      transition: jest.fn().mockImplementation((id: string, from: string[], data: Partial<WalkInTicketData>) => {
+        const entry = byId.get(id);
+        if (!entry || (data.status && !from.includes(entry.status))) {
+          return Promise.resolve(false);
+        }
+        byId.set(id, { ...entry, ...data } as WalkInTicketData);
+        return Promise.resolve(true);
+      }),
+      findAverageDurations: jest.fn().mockResolvedValue([]),
+      findServiceStaff: jest.fn().mockResolvedValue([{ serviceId: 'svc-color', staffId: 'staff-can' }]),
+      findBusyUntil: jest.fn().mockResolvedValue(new Map()),
+    };
+    const staff = [
+      { id: 'staff-ali', businessId: BUSINESS_ID, isActive: true, user: { firstName: 'Ali', lastName: 'Kaya' } },
+      { id: 'staff-can', businessId: BUSINESS_ID, isActive: true, user: { firstName: 'Can', lastName: 'Demir' } },
+    ];
+    const appointmentService = {
+      createAppointment: jest.fn().mockImplementation((_userId: string, data: { staffId?: string }) =>
+        Promise.resolve({ id: 'apt-1', staffId: data.staffId })
+      ),
+    };
+    const userRepository = {
+      findById: jest.fn().mockResolvedValue({ id: 'user-cust', firstName: 'Ayşe', lastName: 'Yıldız', phoneNumber: '+905551112233' }),
+      findByPhoneNumber: jest.fn().mockResolvedValue({ id: 'user-mehmet' }),
+    };
+    const notificationGateway = { sendSystemAlert: jest.fn().mockResolvedValue({}) };
+
+    const service = new WalkInQueueService(
+      walkInQueueRepository as any,
+      {
+        findById: jest.fn().mockImplementation((id: string) => Promise.resolve(staff.find((member) => member.id === id) ?? null)),
+        findByBusinessId: jest.fn().mockResolvedValue(staff),
+        findByBusinessIdAndUserId: jest.fn().mockImplementation((_businessId: string, userId: string) =>
+          Promise.resolve(userId === 'user-staff' ? staff.find((member) => member.id === options.callerStaffId) ?? null : null)
+        ),
+      } as any,
+      {
+        findById: jest.fn().mockResolvedValue({ id: 'svc-cut', businessId: BUSINESS_ID, isActive: true, isGroupSession: false }),
+        getServiceStaffIds: jest.fn().mockResolvedValue([]),
+      } as any,
+      {
+        findById: jest.fn().mockResolvedValue({
+          id: BUSINESS_ID,
+          name: 'Berber Ali',
+          ownerId: OWNER_ID,
+          timezone: 'Europe/Istanbul',
+          settings: options.settings ?? {},
+        }),
+      } as any,
+      userRepository as any,
+      { hasPermission: jest.fn().mockResolvedValue(false) } as any,
+      appointmentService as any,
+      notificationGateway as any
+    );
+    return { service, walkInQueueRepository, appointmentService, userRepository, notificationGateway, byId };
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('calls the first ticket for the staff member or for anyone providing the service', async () => {
+    const { service, byId, notificationGateway } = makeService(
+      [
+        ticket({ id: 't1', number: 1, staffId: 'staff-can' }),
+        ticket({ id: 't2', number: 2, serviceId: 'svc-color' }),
+        ticket({ id: 't3', number: 3, customerId: 'user-cust' }),
+      ],
+      { callerStaffId: 'staff-ali' }
+    );
+
+    const called = await service.callNext('user-staff', BUSINESS_ID);
+
+    // t1 waits for Can and only Can colours hair
+    expect(called).toMatchObject({ id: 't3', status: 'CALLED', servedByStaffId: 'staff-ali', calledAt: NOW });
+    expect(byId.get('t1')!.status).toBe('WAITING');
+    expect(notificationGateway.sendSystemAlert).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-cust', data: expect.objectContaining({ ticketId: 't3', number: 3 }) })
+    );
+  });
+
+  it('moves on when another staff member called the ticket first', async () => {
+    const { service, walkInQueueRepository } = makeService(
+      [ticket({ id: 't1', number: 1 }), ticket({ id: 't2', number: 2 })],
+      { callerStaffId: 'staff-ali' }
+    );
+    walkInQueueRepository.transition.mockResolvedValueOnce(false);
+
+    await service.callNext('user-staff', BUSINESS_ID);
+
+    expect(walkInQueueRepository.transition.mock.calls.map((call) => call[0])).toEqual(['t1', 't2']);
+  });
+
+  it('reports an empty queue and requires a staff member to call for', async () => {
+    const { service } = makeService([ticket({ staffId: 'staff-can' })], { callerStaffId: 'staff-ali' });
+
+    await expect(service.callNext('user-staff', BUSINESS_ID)).rejects.toMatchObject({
+      code: 'WALK_IN_QUEUE_EMPTY',
+    } as Partial<AppError>);
+    await expect(service.callNext(OWNER_ID, BUSINESS_ID)).rejects.toMatchObject({
+      code: 'BUSINESS_STAFF_REQUIRED',
+    } as Partial<AppError>);
+  });
+
+  it('skips a called customer and can still convert them later', async () => {
+    const { service, byId } = makeService([
+      ticket({ status: 'CALLED', customerId: 'user-cust', servedByStaffId: 'staff-ali', calledAt: NOW }),
+    ]);
+
+    await expect(service.skipTicket(OWNER_ID, 't1')).resolves.toMatchObject({ status: 'SKIPPED', skippedAt: NOW });
+    await expect(service.skipTicket(OWNER_ID, 't1')).rejects.toMatchObject({
+      code: 'WALK_IN_TICKET_INVALID_STATUS',
+      params: { status: 'SKIPPED' },
+    } as Partial<AppError>);
+
+    await service.convertToAppointment(OWNER_ID, 't1');
+    expect(byId.get('t1')!.status).toBe('CONVERTED');
+  });
+
+  it('books an appointment starting now with the staff member who called the ticket', async () => {
+    const { service, appointmentService, userRepository } = makeService([
+      ticket({ status: 'CALLED', servedByStaffId: 'staff-ali', customerPhone: '+905559998877', notes: 'Kısa' }),
+    ]);
+
+    const result = await service.convertToAppointment(OWNER_ID, 't1');
+
+    expect(userRepository.findByPhoneNumber).toHaveBeenCalledWith('+905559998877');
+    expect(appointmentService.createAppointment).toHaveBeenCalledWith(OWNER_ID, {
+      businessId: BUSINESS_ID,
+      serviceId: 'svc-cut',
+      staffId: 'staff-ali',
+      customerId: 'user-mehmet',
+      date: '2099-01-05',
+      startTime: '10:00',
+      customerNotes: 'Kısa',
+    });
+    expect(result.ticket).toMatchObject({
+      status: 'CONVERTED',
+      customerId: 'user-mehmet',
+      appointmentId: 'apt-1',
+      closedAt: NOW,
+    });
+  });
+
+  it('gives the ticket back when the booking fails or there is no customer account', async () => {
+    const { service, appointmentService, userRepository, byId } = makeService([
+      ticket({ status: 'CALLED', servedByStaffId: 'staff-ali', customerPhone: '+905559998877' }),
+    ]);
+    appointmentService.createAppointment.mockRejectedValueOnce(
+      new AppError('APPOINTMENT_STAFF_NOT_AVAILABLE', { message: 'busy' })
+    );
+
+    await expect(service.convertToAppointment(OWNER_ID, 't1')).rejects.toMatchObject({ code: 'APPOINTMENT_STAFF_NOT_AVAILABLE' });
+    expect(byId.get('t1')).toMatchObject({ status: 'CALLED', closedAt: null });
+
+    userRepository.findByPhoneNumber.mockResolvedValueOnce(null);
+    await expect(service.convertToAppointment(OWNER_ID, 't1')).rejects.toMatchObject({
+      code: 'WALK_IN_CUSTOMER_REQUIRED',
+    } as Partial<AppError>);
+  });
+
+  it('lets a customer take a ticket for themselves once', async () => {
+    const { service, walkInQueueRepository } = makeService([]);
+
+    const created = await service.addTicket('user-cust', BUSINESS_ID, { serviceId: 'svc-cut', customerName: 'Someone else' });
+
+    expect(walkInQueueRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      customerId: 'user-cust',
+      customerName: 'Ayşe Yıldız',
+      source: 'SELF_SERVICE',
+      queueDate: new Date('2099-01-05T00:00:00Z'),
+    }));
+    expect(created).toMatchObject({ number: 7, position: 1, estimatedWaitMinutes: 0 });
+
+    walkInQueueRepository.findOpenByCustomer.mockResolvedValueOnce(ticket({ id: 't9', number: 7 }));
+    await expect(service.addTicket('user-cust', BUSINESS_ID, { serviceId: 'svc-cut' })).rejects.toMatchObject({
+      code: 'WALK_IN_ALREADY_QUEUED',
+      params: { ticketId: 't9', number: 7 },
+    } as Partial<AppError>);
+  });
+
+  it('needs a name for staff-added tickets without an account', async () => {
+    const { service } = makeService([]);
+
+    await expect(service.addTicket(OWNER_ID, BUSINESS_ID, { serviceId: 'svc-cut' })).rejects.toMatchObject({
+      code: 'WALK_IN_CUSTOMER_REQUIRED',
+    } as Partial<AppError>);
+  });
+
+  it('shows ticket numbers and waits on the display without customer details', async () => {
+    const tickets = [
+      ticket({ id: 't1', number: 1, status: 'CALLED', servedByStaffId: 'staff-ali', calledAt: minutesFromNow(-10) }),
+      ticket({ id: 't2', number: 2, staffId: 'staff-can' }),
+      ticket({ id: 't3', number: 3 }),
+    ];
+
+    const status = await makeService(tickets).service.getPublicQueueStatus(BUSINESS_ID);
+
+    expect(status).toEqual({
+      businessName: 'Berber Ali',
+      date: '2099-01-05',
+      called: [{ number: 1, staffName: 'Ali', calledAt: minutesFromNow(-10).toISOString() }],
+      waiting: [
+        { number: 2, serviceName: 'Saç Kesimi', staffName: 'Can', position: 1, estimatedWaitMinutes: 0 },
+        // Ali is done with ticket 1 in 20 minutes, Can with ticket 2 in 30
+        { number: 3, serviceName: 'Saç Kesimi', staffName: undefined, position: 1, estimatedWaitMinutes: 20 },
+      ],
+      lastUpdated: NOW.toISOString(),
+    });
+
+    const hidden = await makeService(tickets, { settings: { staffPrivacy: { hideStaffNames: true } } })
+      .service.getPublicQueueStatus(BUSINESS_ID);
+    expect(hidden.called[0].staffName).toBeUndefined();
+  });
+});